@@ -2,6 +2,7 @@ import { EventEmitter } from 'events';
 import { createHash } from 'crypto';
 import * as _ from 'lodash';
 import { addMinutes, isAfter, isBefore } from 'date-fns';
+import type { StateCoordinator } from './persistence/store';
 
 // Types for deduplication
 export interface Alert {
@@ -80,6 +81,7 @@ export class AlertDeduplication extends EventEmitter {
     processingTimeMs: 0
   };
   private mlModel?: any; // Machine learning model for clustering
+  private coordinator?: StateCoordinator;
 
   constructor(config: DeduplicationConfig) {
     super();
@@ -111,7 +113,7 @@ export class AlertDeduplication extends EventEmitter {
       alert.fingerprint = fingerprint;
 
       // Find or create alert group
-      const groupResult = await this.findOrCreateGroup(alert, fingerprint);
+      const groupResult = await this.findOrCreateSharedGroup(alert, fingerprint);
       const { group, isNew } = groupResult;
 
       // Update statistics
@@ -205,6 +207,31 @@ export class AlertDeduplication extends EventEmitter {
       .trim();
   }
 
+  /**
+   * Group under a cluster-wide lock, starting from the stored group, so replicas
+   * receiving the same alert concurrently add to one group
+   */
+  private async findOrCreateSharedGroup(alert: Alert, fingerprint: string): Promise<{
+    group: AlertGroup;
+    isNew: boolean;
+  }> {
+    const coordinator = this.coordinator;
+    if (!coordinator) {
+      return this.findOrCreateGroup(alert, fingerprint);
+    }
+
+    return coordinator.withLock(`dedup:${fingerprint}`, async () => {
+      const stored = await coordinator.load<AlertGroup>('dedup_groups', fingerprint);
+      if (stored) {
+        this.groups.set(fingerprint, stored);
+      }
+
+      const result = await this.findOrCreateGroup(alert, fingerprint);
+      await coordinator.save('dedup_groups', result.group.fingerprint, result.group);
+      return result;
+    });
+  }
+
   /**
    * Find existing group or create new one
    */
@@ -560,6 +587,24 @@ export class AlertDeduplication extends EventEmitter {
     return true;
   }
 
+  /**
+   * Share groups with other replicas through a state store
+   */
+  public setCoordinator(coordinator?: StateCoordinator): void {
+    this.coordinator = coordinator;
+  }
+
+  /**
+   * Load a persisted group, or drop it when undefined, without emitting events
+   */
+  public restoreGroup(fingerprint: string, group?: AlertGroup): void {
+    if (group) {
+      this.groups.set(fingerprint, group);
+    } else {
+      this.groups.delete(fingerprint);
+    }
+  }
+
   /**
    * Reset statistics
    */
@@ -1,7 +1,11 @@
 import { EventEmitter } from 'events';
+import { createHmac, randomUUID } from 'crypto';
 import { z } from 'zod';
 import * as cron from 'node-cron';
+import axios from 'axios';
 import { isBefore, format } from 'date-fns';
+import type { OnCallScheduler } from './oncall';
+import type { StateCoordinator } from './persistence/store';
 
 // Escalation Types
 export const EscalationContactSchema = z.object({
@@ -9,6 +13,7 @@ export const EscalationContactSchema = z.object({
   name: z.string(),
   type: z.enum(['email', 'sms', 'phone', 'slack', 'discord', 'webhook', 'pagerduty']),
   address: z.string(),
+  userId: z.string().optional(), // Person this contact reaches, for on-call schedules; defaults to id
   metadata: z.record(z.any()).optional(),
   active: z.boolean().default(true)
 });
@@ -26,6 +31,7 @@ export const EscalationRoleSchema = z.object({
       contacts: z.array(z.string()).optional() // Contact IDs, if different from role contacts
     }))
   }).optional(),
+  onCallScheduleId: z.string().optional(), // Notify only whoever is on call; takes precedence over schedule
   priority: z.number().default(1)
 });
 
@@ -61,6 +67,45 @@ export const EscalationPolicySchema = z.object({
   metadata: z.record(z.any()).optional()
 });
 
+// Action configs, validated when a policy is registered
+export const WebhookActionConfigSchema = z.object({
+  url: z.string().url(),
+  method: z.enum(['POST', 'PUT']).default('POST'),
+  headers: z.record(z.string()).default({}),
+  secret: z.string().optional(), // HMAC key; falls back to integrations.webhookSecret
+  timeoutMs: z.number().positive().default(10000),
+  maxAttempts: z.number().int().min(1).optional() // defaults to config.retryAttempts
+});
+
+export const CreateIncidentActionConfigSchema = z.object({
+  title: z.string().optional(),
+  description: z.string().optional(),
+  severity: z.enum(['P1_CRITICAL', 'P2_HIGH', 'P3_MEDIUM', 'P4_LOW']).optional(), // defaults from alert severity
+  assignedTeam: z.string().optional(),
+  affectedComponents: z.array(z.string()).default([]),
+  tags: z.array(z.string()).default([])
+});
+
+export const AutoRemediateActionConfigSchema = z.object({
+  runbookId: z.string().optional(), // run this runbook instead of the best match
+  minConfidence: z.number().min(0).max(1).default(0.5),
+  automaticMode: z.boolean().default(true),
+  dryRun: z.boolean().default(false),
+  variables: z.record(z.string()).default({})
+});
+
+export const EscalationActionResultSchema = z.object({
+  id: z.string(),
+  type: z.enum(['notify', 'create_incident', 'webhook', 'auto_remediate']),
+  step: z.number(), // -1 for fallback actions
+  status: z.enum(['succeeded', 'failed', 'retrying', 'skipped']),
+  attempts: z.number(),
+  startedAt: z.date(),
+  completedAt: z.date().optional(),
+  error: z.string().optional(),
+  result: z.record(z.any()).optional()
+});
+
 export const EscalationInstanceSchema = z.object({
   id: z.string(),
   alertId: z.string(),
@@ -73,6 +118,8 @@ export const EscalationInstanceSchema = z.object({
   acknowledgedBy: z.string().optional(),
   resolvedAt: z.date().optional(),
   resolvedBy: z.string().optional(),
+  incidentId: z.string().optional(),
+  actions: z.array(EscalationActionResultSchema).default([]),
   history: z.array(z.object({
     timestamp: z.date(),
     step: z.number(),
@@ -88,6 +135,68 @@ export type EscalationContact = z.infer<typeof EscalationContactSchema>;
 export type EscalationRole = z.infer<typeof EscalationRoleSchema>;
 export type EscalationPolicy = z.infer<typeof EscalationPolicySchema>;
 export type EscalationInstance = z.infer<typeof EscalationInstanceSchema>;
+export type EscalationActionResult = z.infer<typeof EscalationActionResultSchema>;
+export type WebhookActionConfig = z.infer<typeof WebhookActionConfigSchema>;
+export type CreateIncidentActionConfig = z.infer<typeof CreateIncidentActionConfigSchema>;
+export type AutoRemediateActionConfig = z.infer<typeof AutoRemediateActionConfigSchema>;
+
+type EscalationAction = EscalationPolicy['steps'][number]['actions'][number];
+
+/** Incident as created by escalations, in the shape incident management expects */
+export interface EscalationIncident {
+  id: string;
+  title: string;
+  description: string;
+  status: string;
+  severity: string;
+  source: string;
+  affectedComponents: string[];
+  assignedTeam?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  tags: string[];
+  metadata: Record<string, any>;
+}
+
+/** Escalated alert as handed to runbook matching */
+export interface EscalationIncidentAlert {
+  id: string;
+  source: string;
+  title: string;
+  description: string;
+  severity: string;
+  timestamp: Date;
+  labels: Record<string, string>;
+  annotations: Record<string, string>;
+  resolved: boolean;
+}
+
+/**
+ * The parts of the injected incident management system that escalation actions use;
+ * IncidentManagementSystem from @monitoring-service/incident-management fits
+ */
+export interface EscalationIncidentSystem {
+  createIncident(incident: EscalationIncident): Promise<unknown>;
+  getRunbooks(): {
+    findMatchingRunbooks(alert: EscalationIncidentAlert): Promise<Array<{ runbook: { id: string }; confidence: number }>>;
+    executeRunbook(
+      runbookId: string,
+      incidentId: string,
+      executedBy: string,
+      automaticMode: boolean,
+      options: { dryRun?: boolean; variables?: Record<string, string> }
+    ): Promise<{ id: string }>;
+  };
+}
+
+export interface EscalationIntegrations {
+  /** Used by create_incident and auto_remediate actions */
+  incidentManagement?: EscalationIncidentSystem;
+  /** Default HMAC key for webhook actions without their own secret */
+  webhookSecret?: string;
+  /** Resolves roles with an onCallScheduleId to the current on-call person */
+  onCall?: OnCallScheduler;
+}
 
 export interface EscalationConfig {
   defaultPolicy: string;
@@ -137,10 +246,14 @@ export class EscalationManager extends EventEmitter {
   private stats: EscalationStats;
   private cronJobs: Map<string, cron.ScheduledTask> = new Map();
   private notificationChannels: Map<string, any> = new Map();
+  private stepTimers: Map<string, NodeJS.Timeout> = new Map();
+  private integrations: EscalationIntegrations;
+  private coordinator?: StateCoordinator;
 
-  constructor(config: EscalationConfig) {
+  constructor(config: EscalationConfig, integrations: EscalationIntegrations = {}) {
     super();
     this.config = config;
+    this.integrations = integrations;
     this.stats = this.initializeStats();
     this.startMaintenanceCron();
     this.initializeNotificationChannels();
@@ -239,6 +352,15 @@ export class EscalationManager extends EventEmitter {
    */
   public registerPolicy(policy: EscalationPolicy): void {
     const validated = EscalationPolicySchema.parse(policy);
+
+    const actions = [
+      ...validated.steps.flatMap(step => step.actions),
+      ...(validated.fallback?.actions ?? [])
+    ];
+    for (const action of actions) {
+      action.config = this.parseActionConfig(action);
+    }
+
     this.policies.set(validated.id, validated);
     this.emit('policyRegistered', validated);
   }
@@ -255,7 +377,7 @@ export class EscalationManager extends EventEmitter {
   /**
    * Start escalation for an alert
    */
-  public async startEscalation(alertId: string, severity: string, source: string, tags: string[] = [], policyId?: string): Promise<string> {
+  public async startEscalation(alertId: string, severity: string, source: string, tags: string[] = [], policyId?: string, message?: string): Promise<string> {
     try {
       // Determine which policy to use
       const policy = policyId ? this.policies.get(policyId) : this.getDefaultPolicy();
@@ -278,8 +400,9 @@ export class EscalationManager extends EventEmitter {
         status: 'active',
         createdAt: new Date(),
         updatedAt: new Date(),
+        actions: [],
         history: [],
-        metadata: { severity, source, tags }
+        metadata: { severity, source, tags, ...(message ? { message } : {}) }
       };
 
       this.instances.set(instance.id, instance);
@@ -345,9 +468,42 @@ export class EscalationManager extends EventEmitter {
   }
 
   /**
-   * Execute escalation step
+   * Execute escalation step, once across replicas when state is shared
    */
   private async executeStep(instanceId: string, stepIndex: number): Promise<void> {
+    const coordinator = this.coordinator;
+    if (!coordinator) {
+      return this.runStep(instanceId, stepIndex);
+    }
+
+    // Every replica may have the step scheduled; the lock and stored history let one run it
+    await coordinator.withLock(`escalation:${instanceId}`, async () => {
+      const stored = await coordinator.load<EscalationInstance>('escalation_instances', instanceId);
+      if (stored) {
+        this.mergeInstance(instanceId, stored);
+      }
+
+      const instance = this.instances.get(instanceId);
+      if (!instance || this.stepCompleted(instance, stepIndex)) return;
+
+      await this.runStep(instanceId, stepIndex);
+      await coordinator.save('escalation_instances', instanceId, this.instances.get(instanceId));
+    });
+  }
+
+  /**
+   * Whether a replica already ran this step (or the fallback it leads to)
+   */
+  private stepCompleted(instance: EscalationInstance, stepIndex: number): boolean {
+    const policy = this.policies.get(instance.policyId);
+    const isFallback = !policy || stepIndex >= policy.steps.length || stepIndex >= this.config.maxEscalationSteps;
+
+    return instance.history.some(entry => isFallback
+      ? entry.step === -1
+      : entry.step === stepIndex && entry.success && entry.action.startsWith('Executing step'));
+  }
+
+  private async runStep(instanceId: string, stepIndex: number): Promise<void> {
     const instance = this.instances.get(instanceId);
     if (!instance || instance.status !== 'active') return;
 
@@ -371,13 +527,18 @@ export class EscalationManager extends EventEmitter {
       step: stepIndex,
       action: `Executing step ${stepIndex + 1}`,
       success: false,
-      metadata: { roles: step.roles, waitTime: step.waitTimeMinutes }
+      metadata: { roles: step.roles, waitTime: step.waitTimeMinutes } as Record<string, any>
     };
 
     try {
-      // Execute step actions
+      // Execute step actions; failures are recorded on the instance, not retried with the step
+      const results: EscalationActionResult[] = [];
       for (const action of step.actions) {
-        await this.executeAction(instance, action, step);
+        const result = await this.executeAction(instance, action, stepIndex);
+        if (result) results.push(result);
+      }
+      if (results.length > 0) {
+        historyEntry.metadata.actions = results.map(result => ({ id: result.id, type: result.type, status: result.status }));
       }
 
       // Send notifications to roles
@@ -422,38 +583,102 @@ export class EscalationManager extends EventEmitter {
       }
     }
 
-    // Schedule execution
-    setTimeout(() => {
-      this.executeStep(instanceId, nextStep);
-    }, waitTimeMinutes * 60 * 1000);
+    this.scheduleStep(instanceId, nextStep, waitTimeMinutes * 60 * 1000);
+  }
+
+  /**
+   * Run a step after a delay, replacing any step already pending for the escalation
+   */
+  private scheduleStep(instanceId: string, stepIndex: number, delayMs: number): void {
+    const pending = this.stepTimers.get(instanceId);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    const timer = setTimeout(() => {
+      this.stepTimers.delete(instanceId);
+      this.executeStep(instanceId, stepIndex).catch(error => {
+        this.emit('escalationError', { alertId: this.instances.get(instanceId)?.alertId, error });
+      });
+    }, delayMs);
+    this.stepTimers.set(instanceId, timer);
   }
 
   /**
-   * Execute action
+   * Execute action and record its result on the instance
    */
-  private async executeAction(instance: EscalationInstance, action: any, _step: any): Promise<void> {
+  private async executeAction(instance: EscalationInstance, action: EscalationAction, step: number): Promise<EscalationActionResult | null> {
     switch (action.type) {
       case 'notify':
         // Notification is handled separately in notifyRole
-        break;
+        return null;
         
       case 'create_incident':
-        await this.createIncident(instance, action.config);
-        break;
+        return this.createIncident(instance, CreateIncidentActionConfigSchema.parse(action.config), step);
         
       case 'webhook':
-        await this.executeWebhook(instance, action.config);
-        break;
+        return this.executeWebhook(instance, WebhookActionConfigSchema.parse(action.config), step);
         
       case 'auto_remediate':
-        await this.executeAutoRemediation(instance, action.config);
-        break;
+        return this.executeAutoRemediation(instance, AutoRemediateActionConfigSchema.parse(action.config), step);
         
       default:
-        console.warn(`Unknown action type: ${action.type}`);
+        console.warn(`Unknown action type: ${(action as EscalationAction).type}`);
+        return null;
     }
   }
 
+  /**
+   * Validate an action's config against its schema, applying defaults
+   */
+  private parseActionConfig(action: EscalationAction): Record<string, any> {
+    switch (action.type) {
+      case 'create_incident':
+        return CreateIncidentActionConfigSchema.parse(action.config);
+      case 'webhook':
+        return WebhookActionConfigSchema.parse(action.config);
+      case 'auto_remediate':
+        return AutoRemediateActionConfigSchema.parse(action.config);
+      default:
+        return action.config;
+    }
+  }
+
+  /**
+   * Start an action result and attach it to the instance
+   */
+  private beginAction(instance: EscalationInstance, type: EscalationActionResult['type'], step: number): EscalationActionResult {
+    const result: EscalationActionResult = {
+      id: `act_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      step,
+      status: 'retrying',
+      attempts: 0,
+      startedAt: new Date()
+    };
+    instance.actions.push(result);
+    return result;
+  }
+
+  /**
+   * Settle an action result and announce it
+   */
+  private finishAction(
+    instance: EscalationInstance,
+    result: EscalationActionResult,
+    status: 'succeeded' | 'failed' | 'skipped',
+    details: { error?: string; result?: Record<string, any> } = {}
+  ): EscalationActionResult {
+    result.status = status;
+    result.completedAt = new Date();
+    if (details.error !== undefined) result.error = details.error;
+    if (details.result !== undefined) result.result = details.result;
+    instance.updatedAt = new Date();
+
+    this.emit(status === 'failed' ? 'actionFailed' : 'actionExecuted', { instance, action: result });
+    return result;
+  }
+
   /**
    * Notify role based on schedule
    */
@@ -516,6 +741,17 @@ export class EscalationManager extends EventEmitter {
    * Get active contacts for role based on schedule
    */
   private getActiveContacts(role: EscalationRole): EscalationContact[] {
+    if (role.onCallScheduleId) {
+      if (this.integrations.onCall) {
+        const onCall = this.integrations.onCall.getOnCall(role.onCallScheduleId);
+        if (!onCall) {
+          return []; // Unknown schedule or a gap in coverage
+        }
+        return role.contacts.filter(c => c.active && (c.userId ?? c.id) === onCall.userId);
+      }
+      console.warn(`No on-call scheduler configured for role ${role.id}, using static contacts`);
+    }
+
     if (!role.schedule) {
       return role.contacts.filter(c => c.active);
     }
@@ -656,6 +892,34 @@ Please acknowledge this alert to stop further escalation.`;
     return true;
   }
 
+  /**
+   * Run the next step now instead of waiting for the current one to time out
+   */
+  public async escalateNow(instanceId: string, requestedBy: string): Promise<boolean> {
+    const instance = this.instances.get(instanceId);
+    if (!instance || instance.status !== 'active') {
+      return false;
+    }
+
+    const requestedAt = new Date();
+    const fromStep = instance.currentStep;
+    this.cancelPendingSteps(instanceId);
+
+    await this.executeStep(instanceId, fromStep + 1);
+
+    // Recorded after the step, which may reload the instance from shared state
+    instance.history.push({
+      timestamp: requestedAt,
+      step: fromStep,
+      action: `Escalation requested by ${requestedBy}`,
+      success: true,
+      metadata: { requestedBy }
+    });
+
+    this.emit('escalationRequested', instance);
+    return true;
+  }
+
   /**
    * Cancel escalation
    */
@@ -695,6 +959,12 @@ Please acknowledge this alert to stop further escalation.`;
    * Cancel pending escalation steps
    */
   private cancelPendingSteps(instanceId: string): void {
+    const timer = this.stepTimers.get(instanceId);
+    if (timer) {
+      clearTimeout(timer);
+      this.stepTimers.delete(instanceId);
+    }
+
     // Remove any scheduled cron jobs for this escalation
     for (const [jobId, task] of this.cronJobs.entries()) {
       if (jobId.includes(instanceId)) {
@@ -717,7 +987,7 @@ Please acknowledge this alert to stop further escalation.`;
     try {
       // Execute fallback actions
       for (const action of policy.fallback.actions) {
-        await this.executeAction(instance, action, null);
+        await this.executeAction(instance, action, -1);
       }
 
       // Notify fallback roles
@@ -749,30 +1019,219 @@ Please acknowledge this alert to stop further escalation.`;
   }
 
   /**
-   * Create incident
+   * Create incident through the incident management system (once per escalation)
+   */
+  private async createIncident(instance: EscalationInstance, config: CreateIncidentActionConfig, step: number): Promise<EscalationActionResult> {
+    const result = this.beginAction(instance, 'create_incident', step);
+    const system = this.integrations.incidentManagement;
+
+    if (instance.incidentId) {
+      return this.finishAction(instance, result, 'skipped', { result: { incidentId: instance.incidentId } });
+    }
+    if (!system) {
+      return this.finishAction(instance, result, 'failed', { error: 'No incident management system configured' });
+    }
+
+    const severity = instance.metadata?.severity || 'unknown';
+    const source = instance.metadata?.source || 'unknown';
+    const now = new Date();
+    const incident: EscalationIncident = {
+      id: randomUUID(),
+      title: config.title ?? `[${severity.toUpperCase()}] ${instance.metadata?.message ?? `Alert ${instance.alertId}`} (${source})`,
+      description: config.description ?? this.createNotificationMessage(instance),
+      status: 'investigating',
+      severity: config.severity ?? this.toIncidentSeverity(severity),
+      source: 'monitoring',
+      affectedComponents: config.affectedComponents.length > 0 ? config.affectedComponents : [source],
+      ...(config.assignedTeam ? { assignedTeam: config.assignedTeam } : {}),
+      createdAt: now,
+      updatedAt: now,
+      tags: [...new Set([...(instance.metadata?.tags ?? []), ...config.tags])],
+      metadata: {
+        escalationId: instance.id,
+        alertId: instance.alertId,
+        policyId: instance.policyId,
+        alertSource: source
+      }
+    };
+
+    result.attempts = 1;
+    try {
+      await system.createIncident(incident);
+      instance.incidentId = incident.id;
+      return this.finishAction(instance, result, 'succeeded', { result: { incidentId: incident.id } });
+    } catch (error) {
+      return this.finishAction(instance, result, 'failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Deliver a signed webhook. The first attempt is awaited; retries back off in the
+   * background so a slow receiver does not hold up the rest of the step.
    */
-  private async createIncident(instance: EscalationInstance, _config: any): Promise<void> {
-    // Integration with incident management systems
-    console.log(`Creating incident for escalation ${instance.id}`);
-    // Implementation would depend on the incident management system
+  private async executeWebhook(instance: EscalationInstance, config: WebhookActionConfig, step: number): Promise<EscalationActionResult> {
+    const result = this.beginAction(instance, 'webhook', step);
+    const maxAttempts = config.maxAttempts ?? Math.max(1, this.config.retryAttempts);
+    const secret = config.secret ?? this.integrations.webhookSecret;
+    const deliveryId = randomUUID();
+
+    const body = JSON.stringify({
+      event: 'escalation.step',
+      deliveryId,
+      escalationId: instance.id,
+      alertId: instance.alertId,
+      policyId: instance.policyId,
+      step: step + 1,
+      status: instance.status,
+      severity: instance.metadata?.severity,
+      source: instance.metadata?.source,
+      tags: instance.metadata?.tags ?? [],
+      message: instance.metadata?.message,
+      incidentId: instance.incidentId,
+      timestamp: new Date().toISOString()
+    });
+
+    const attempt = async (): Promise<void> => {
+      result.attempts++;
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const headers: Record<string, string> = {
+        ...config.headers,
+        'Content-Type': 'application/json',
+        'X-Escalation-Delivery': deliveryId,
+        'X-Escalation-Timestamp': timestamp
+      };
+      if (secret) {
+        // Receivers recompute HMAC-SHA256 over "<timestamp>.<body>" and reject stale timestamps
+        headers['X-Escalation-Signature'] = `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+      }
+
+      try {
+        const response = await axios.request({
+          url: config.url,
+          method: config.method,
+          data: body,
+          headers,
+          timeout: config.timeoutMs,
+          validateStatus: () => true
+        });
+
+        if (response.status >= 200 && response.status < 300) {
+          this.finishAction(instance, result, 'succeeded', { result: { deliveryId, statusCode: response.status } });
+          return;
+        }
+        result.error = `HTTP ${response.status}`;
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+
+      if (result.attempts >= maxAttempts) {
+        this.finishAction(instance, result, 'failed', { error: result.error, result: { deliveryId } });
+        return;
+      }
+
+      const delay = this.config.retryDelay * 1000 * Math.pow(2, result.attempts - 1);
+      setTimeout(() => { void attempt(); }, delay);
+    };
+
+    await attempt();
+    return result;
   }
 
   /**
-   * Execute webhook
+   * Run a runbook against the escalation's incident, creating the incident first if needed
    */
-  private async executeWebhook(instance: EscalationInstance, _config: any): Promise<void> {
-    // Send webhook notification
-    console.log(`Executing webhook for escalation ${instance.id}`);
-    // Implementation with HTTP client
+  private async executeAutoRemediation(instance: EscalationInstance, config: AutoRemediateActionConfig, step: number): Promise<EscalationActionResult> {
+    const system = this.integrations.incidentManagement;
+    if (system && !instance.incidentId) {
+      // Runbook executions belong to an incident
+      await this.createIncident(instance, CreateIncidentActionConfigSchema.parse({}), step);
+    }
+
+    const result = this.beginAction(instance, 'auto_remediate', step);
+    if (!system) {
+      return this.finishAction(instance, result, 'failed', { error: 'No incident management system configured' });
+    }
+    if (!instance.incidentId) {
+      return this.finishAction(instance, result, 'failed', { error: 'Could not create an incident to remediate' });
+    }
+
+    result.attempts = 1;
+    try {
+      const runbooks = system.getRunbooks();
+      let runbookId = config.runbookId;
+      let confidence: number | undefined;
+
+      if (!runbookId) {
+        const [best] = await runbooks.findMatchingRunbooks(this.toIncidentAlert(instance));
+        if (!best || best.confidence < config.minConfidence) {
+          return this.finishAction(instance, result, 'skipped', {
+            result: { reason: 'No runbook matched', bestConfidence: best?.confidence ?? 0 }
+          });
+        }
+        runbookId = best.runbook.id;
+        confidence = best.confidence;
+      }
+
+      const execution = await runbooks.executeRunbook(
+        runbookId,
+        instance.incidentId,
+        `escalation:${instance.id}`,
+        config.automaticMode,
+        { dryRun: config.dryRun, variables: { ...config.variables, 'alert.id': instance.alertId } }
+      );
+
+      return this.finishAction(instance, result, 'succeeded', {
+        result: {
+          runbookId,
+          executionId: execution.id,
+          incidentId: instance.incidentId,
+          dryRun: config.dryRun,
+          ...(confidence !== undefined ? { confidence } : {})
+        }
+      });
+    } catch (error) {
+      return this.finishAction(instance, result, 'failed', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
   }
 
   /**
-   * Execute auto-remediation
+   * Describe the escalated alert in incident-management terms for runbook matching
    */
-  private async executeAutoRemediation(instance: EscalationInstance, _config: any): Promise<void> {
-    // Auto-remediation actions
-    console.log(`Executing auto-remediation for escalation ${instance.id}`);
-    // Implementation would depend on the remediation actions
+  private toIncidentAlert(instance: EscalationInstance): EscalationIncidentAlert {
+    const source = instance.metadata?.source || 'unknown';
+    const tags: string[] = instance.metadata?.tags ?? [];
+
+    return {
+      id: instance.alertId,
+      source: 'monitoring',
+      title: instance.metadata?.message ?? `Alert ${instance.alertId} from ${source}`,
+      description: `${source} ${tags.join(' ')}`.trim(),
+      severity: this.toIncidentSeverity(instance.metadata?.severity),
+      timestamp: instance.createdAt,
+      labels: { service: source, ...Object.fromEntries(tags.map(tag => [tag, 'true'])) },
+      annotations: { escalationId: instance.id },
+      resolved: false
+    };
+  }
+
+  /**
+   * Map alert severity onto incident priority
+   */
+  private toIncidentSeverity(severity: string | undefined): CreateIncidentActionConfig['severity'] & string {
+    switch (severity) {
+      case 'critical':
+        return 'P1_CRITICAL';
+      case 'high':
+        return 'P2_HIGH';
+      case 'medium':
+        return 'P3_MEDIUM';
+      default:
+        return 'P4_LOW';
+    }
   }
 
   /**
@@ -822,8 +1281,8 @@ Please acknowledge this alert to stop further escalation.`;
     // Archive old resolved escalations
     for (const [id, instance] of this.instances.entries()) {
       if (instance.status === 'resolved' && instance.resolvedAt && isBefore(instance.resolvedAt, cutoff)) {
-        // Archive to persistent storage if needed
         this.instances.delete(id);
+        this.emit('escalationArchived', instance);
       }
     }
 
@@ -839,6 +1298,95 @@ Please acknowledge this alert to stop further escalation.`;
     }
   }
 
+  /**
+   * Share escalation progress with other replicas through a state store
+   */
+  public setCoordinator(coordinator?: StateCoordinator): void {
+    this.coordinator = coordinator;
+  }
+
+  /**
+   * Load a persisted policy, or drop it when undefined, without emitting events
+   */
+  public restorePolicy(id: string, policy?: EscalationPolicy): void {
+    if (policy) {
+      this.policies.set(id, policy);
+    } else {
+      this.policies.delete(id);
+    }
+  }
+
+  /**
+   * Load a persisted role, or drop it when undefined, without emitting events
+   */
+  public restoreRole(id: string, role?: EscalationRole): void {
+    if (role) {
+      this.roles.set(id, role);
+    } else {
+      this.roles.delete(id);
+    }
+  }
+
+  /**
+   * Load a persisted escalation, or drop it when undefined, without emitting events.
+   * Active escalations resume from their last recorded step.
+   */
+  public restoreInstance(id: string, instance?: EscalationInstance): void {
+    const wasActive = this.instances.get(id)?.status === 'active';
+    const isActive = instance?.status === 'active';
+
+    if (instance) {
+      this.mergeInstance(id, instance);
+    } else {
+      this.instances.delete(id);
+    }
+
+    if (isActive && !wasActive) this.stats.activeEscalations++;
+    if (wasActive && !isActive) this.stats.activeEscalations--;
+
+    if (instance && isActive) {
+      this.resumeInstance(this.instances.get(id)!);
+    } else {
+      this.cancelPendingSteps(id);
+    }
+  }
+
+  /**
+   * Update in place: pending webhook retries hold a reference to the instance
+   */
+  private mergeInstance(id: string, stored: EscalationInstance): void {
+    const existing = this.instances.get(id);
+    if (existing) {
+      Object.assign(existing, stored);
+    } else {
+      this.instances.set(id, stored);
+    }
+  }
+
+  /**
+   * Reschedule the pending step of an escalation loaded from storage
+   */
+  private resumeInstance(instance: EscalationInstance): void {
+    const policy = this.policies.get(instance.policyId);
+    if (!policy) return;
+
+    const lastRun = [...instance.history].reverse().find(entry =>
+      entry.step === instance.currentStep && entry.action.startsWith('Executing step')
+    );
+
+    // Never ran, or failed and is due for a retry
+    if (!lastRun || !lastRun.success) {
+      this.scheduleStep(instance.id, instance.currentStep, 0);
+      return;
+    }
+
+    const step = policy.steps[instance.currentStep];
+    if (step && step.waitTimeMinutes > 0 && instance.currentStep < policy.steps.length - 1) {
+      const dueAt = lastRun.timestamp.getTime() + step.waitTimeMinutes * 60 * 1000;
+      this.scheduleStep(instance.id, instance.currentStep + 1, Math.max(0, dueAt - Date.now()));
+    }
+  }
+
   /**
    * Get escalation statistics
    */
@@ -21,16 +21,25 @@
 
 import { EventEmitter } from 'events';
 import * as _ from 'lodash';
+import { PipelineStateSync, PipelineStateSyncOptions } from './persistence/sync';
+import type { AlertStateStore } from './persistence/store';
 
 // Core Components
 export { default as AlertDeduplication } from './deduplication';
 export { default as EscalationManager } from './escalation';
+export { default as OnCallScheduler } from './oncall';
 export { default as BusinessImpactScorer } from './scoring';
 export { default as AlertTemplateManager } from './templates';
 export { default as AlertEnrichment } from './enrichment';
 export { default as AlertSuppressionEngine } from './suppression';
 export { default as AlertAnalytics } from './analytics';
 
+// Persistence
+export { MemoryStateStore, encodeState, decodeState } from './persistence/store';
+export { RedisStateStore } from './persistence/redis';
+export { PostgresStateStore, ALERT_STATE_SCHEMA } from './persistence/postgres';
+export { PipelineStateSync } from './persistence/sync';
+
 // Type Exports
 export type {
   Alert,
@@ -45,9 +54,29 @@ export type {
   EscalationPolicy,
   EscalationInstance,
   EscalationConfig,
-  EscalationStats
+  EscalationStats,
+  EscalationIntegrations,
+  EscalationIncidentSystem,
+  EscalationIncident,
+  EscalationIncidentAlert,
+  EscalationActionResult,
+  WebhookActionConfig,
+  CreateIncidentActionConfig,
+  AutoRemediateActionConfig
 } from './escalation';
 
+export type {
+  Weekday,
+  OnCallLayer,
+  OnCallSchedule,
+  OnCallOverride,
+  HolidayCalendar,
+  OnCallAssignment,
+  OnCallShift,
+  OnCallHandoff,
+  ICalendarOptions
+} from './oncall';
+
 export type {
   BusinessContext,
   ScoringWeights,
@@ -91,6 +120,28 @@ export type {
   AnalyticsMetrics
 } from './analytics';
 
+export type {
+  AlertStateStore,
+  StateCollection,
+  StateChange,
+  StateCoordinator
+} from './persistence/store';
+
+export type { RedisStateStoreOptions } from './persistence/redis';
+
+export type {
+  PostgresPool,
+  PostgresListenClient,
+  PostgresNotification,
+  PostgresQueryable,
+  PostgresStateStoreOptions
+} from './persistence/postgres';
+
+export type {
+  PipelineStateComponents,
+  PipelineStateSyncOptions
+} from './persistence/sync';
+
 // Performance-optimized Alert Processing Pipeline
 export interface AlertPipelineConfig {
   deduplication: {
@@ -214,6 +265,8 @@ export class AlertProcessingPipeline extends EventEmitter {
 
   private alertBatch: any[] = [];
   private batchTimer?: NodeJS.Timeout;
+  private initialization: Promise<void>;
+  private stateSync?: PipelineStateSync;
 
   constructor(config: AlertPipelineConfig) {
     super();
@@ -226,7 +279,7 @@ export class AlertProcessingPipeline extends EventEmitter {
       pipelineStepTimes: {}
     };
 
-    this.initializeComponents();
+    this.initialization = this.initializeComponents();
   }
 
   /**
@@ -414,7 +467,11 @@ export class AlertProcessingPipeline extends EventEmitter {
         const stepStart = Date.now();
         try {
           const suppressionResult = await this.suppression.shouldSuppressAlert(alert);
-          processedAlert.suppression = suppressionResult;
+          processedAlert.suppression = {
+            suppressed: suppressionResult.suppress,
+            rules: suppressionResult.rules,
+            reasons: suppressionResult.reasons
+          };
           pipelineSteps.push('suppression');
           performance.suppressionMs = Date.now() - stepStart;
           
@@ -461,7 +518,8 @@ export class AlertProcessingPipeline extends EventEmitter {
             alert.severity,
             alert.source,
             alert.tags,
-            this.config.escalation.defaultPolicy
+            this.config.escalation.defaultPolicy,
+            alert.message
           ).then((escalationId: any) => {
             processedAlert.escalation = {
               escalationId,
@@ -736,6 +794,51 @@ export class AlertProcessingPipeline extends EventEmitter {
     return { overall, components };
   }
 
+  /**
+   * Stop paging further steps once someone has taken an alert
+   */
+  public async acknowledgeEscalation(escalationId: string, acknowledgedBy: string): Promise<boolean> {
+    await this.initialization;
+    return this.escalation ? this.escalation.acknowledgeEscalation(escalationId, acknowledgedBy) : false;
+  }
+
+  /**
+   * Page the next escalation step without waiting for its timeout
+   */
+  public async escalateNow(escalationId: string, requestedBy: string): Promise<boolean> {
+    await this.initialization;
+    return this.escalation ? this.escalation.escalateNow(escalationId, requestedBy) : false;
+  }
+
+  /**
+   * Stop escalating an alert once it has been resolved
+   */
+  public async resolveEscalation(escalationId: string, resolvedBy: string): Promise<boolean> {
+    await this.initialization;
+    return this.escalation ? this.escalation.resolveEscalation(escalationId, resolvedBy) : false;
+  }
+
+  /**
+   * Restore component state from a shared store and keep it in sync with other replicas
+   */
+  public async enablePersistence(store: AlertStateStore, options: PipelineStateSyncOptions = {}): Promise<PipelineStateSync> {
+    await this.initialization;
+    if (this.stateSync) {
+      throw new Error('Persistence is already enabled for this pipeline');
+    }
+
+    const stateSync = new PipelineStateSync(store, {
+      deduplication: this.deduplication,
+      suppression: this.suppression,
+      escalation: this.escalation
+    }, options);
+    stateSync.on('syncError', event => this.emit('persistenceError', event));
+
+    await stateSync.start();
+    this.stateSync = stateSync;
+    return stateSync;
+  }
+
   /**
    * Shutdown pipeline gracefully
    */
@@ -750,6 +853,11 @@ export class AlertProcessingPipeline extends EventEmitter {
       clearTimeout(this.batchTimer);
     }
 
+    // Flush state writes
+    if (this.stateSync) {
+      await this.stateSync.stop();
+    }
+
     this.emit('shutdown');
   }
 }
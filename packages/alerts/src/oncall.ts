@@ -0,0 +1,608 @@
+import { EventEmitter } from 'events';
+import { z } from 'zod';
+import * as cron from 'node-cron';
+import { randomUUID } from 'crypto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+// On-call Types
+const WeekdaySchema = z.enum(WEEKDAYS);
+
+const TimezoneSchema = z.string().default('UTC').refine(isValidTimezone, {
+  message: 'Unknown IANA timezone'
+});
+
+export const OnCallLayerSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  rotation: z.enum(['daily', 'weekly', 'custom']),
+  shiftLengthHours: z.number().positive().optional(), // custom rotations only
+  handoffTime: z.string().regex(TIME_PATTERN).default('09:00'), // HH:mm in the schedule timezone
+  handoffDay: WeekdaySchema.default('monday'), // weekly rotations only
+  startDate: z.string().regex(DATE_PATTERN), // yyyy-MM-dd, first handoff
+  endDate: z.string().regex(DATE_PATTERN).optional(),
+  participants: z.array(z.string()).min(1), // User IDs in rotation order
+  restrictions: z.array(z.object({
+    days: z.array(WeekdaySchema).optional(),
+    startTime: z.string().regex(TIME_PATTERN),
+    endTime: z.string().regex(TIME_PATTERN) // earlier than startTime wraps past midnight
+  })).default([]),
+  holidays: z.enum(['include', 'exclude', 'only']).default('include')
+}).refine(layer => layer.rotation !== 'custom' || layer.shiftLengthHours !== undefined, {
+  message: 'Custom rotations require shiftLengthHours',
+  path: ['shiftLengthHours']
+});
+
+export const OnCallScheduleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  timezone: TimezoneSchema,
+  layers: z.array(OnCallLayerSchema).min(1), // Later layers take precedence where they cover
+  holidayCalendars: z.array(z.string()).default([]) // Calendar IDs
+});
+
+export const OnCallOverrideSchema = z.object({
+  id: z.string().default(() => randomUUID()),
+  scheduleId: z.string(),
+  userId: z.string(),
+  start: z.coerce.date(),
+  end: z.coerce.date(),
+  replaces: z.string().optional(), // Only cover while this user would be on call
+  reason: z.string().optional(),
+  createdBy: z.string().optional()
+}).refine(override => override.end > override.start, {
+  message: 'Override must end after it starts',
+  path: ['end']
+});
+
+export const HolidayCalendarSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  holidays: z.array(z.object({
+    date: z.string().regex(DATE_PATTERN), // yyyy-MM-dd in the schedule timezone
+    name: z.string(),
+    recurring: z.boolean().default(false) // Same month and day every year
+  }))
+});
+
+export type Weekday = z.infer<typeof WeekdaySchema>;
+export type OnCallLayer = z.infer<typeof OnCallLayerSchema>;
+export type OnCallSchedule = z.infer<typeof OnCallScheduleSchema>;
+export type OnCallOverride = z.infer<typeof OnCallOverrideSchema>;
+export type HolidayCalendar = z.infer<typeof HolidayCalendarSchema>;
+
+export interface OnCallAssignment {
+  scheduleId: string;
+  userId: string;
+  layerId?: string;
+  overrideId?: string;
+}
+
+export interface OnCallShift extends OnCallAssignment {
+  start: Date;
+  end: Date;
+}
+
+export interface OnCallHandoff {
+  scheduleId: string;
+  previousUserId?: string;
+  userId?: string;
+  at: Date;
+}
+
+export interface ICalendarOptions {
+  from?: Date;
+  to?: Date;
+  scheduleIds?: string[];
+  calendarName?: string;
+}
+
+interface ZonedParts {
+  day: number; // Days since the epoch for the local calendar date
+  minutes: number; // Minutes since local midnight
+}
+
+/**
+ * On-call Schedule Management
+ *
+ * Features:
+ * - Layered daily, weekly and fixed-length rotations
+ * - Handoff times evaluated in the schedule's own timezone, across DST changes
+ * - Temporary overrides, optionally scoped to a single participant's shifts
+ * - Holiday calendars that layers can skip or be limited to
+ * - Per-person shift timelines and iCalendar export
+ */
+export class OnCallScheduler extends EventEmitter {
+  private schedules: Map<string, OnCallSchedule> = new Map();
+  private overrides: Map<string, OnCallOverride> = new Map();
+  private calendars: Map<string, HolidayCalendar> = new Map();
+  private currentOnCall: Map<string, string | undefined> = new Map();
+  private handoffJob: cron.ScheduledTask;
+
+  constructor() {
+    super();
+    this.handoffJob = cron.schedule('* * * * *', () => {
+      this.checkHandoffs();
+    }, { scheduled: false });
+    this.handoffJob.start();
+  }
+
+  /**
+   * Register on-call schedule
+   */
+  public registerSchedule(schedule: z.input<typeof OnCallScheduleSchema>): OnCallSchedule {
+    const validated = OnCallScheduleSchema.parse(schedule);
+    this.schedules.set(validated.id, validated);
+    this.currentOnCall.set(validated.id, this.getOnCall(validated.id)?.userId);
+    this.emit('scheduleRegistered', validated);
+    return validated;
+  }
+
+  /**
+   * Remove schedule along with its overrides
+   */
+  public removeSchedule(scheduleId: string): boolean {
+    if (!this.schedules.delete(scheduleId)) return false;
+
+    for (const [id, override] of this.overrides.entries()) {
+      if (override.scheduleId === scheduleId) this.overrides.delete(id);
+    }
+    this.currentOnCall.delete(scheduleId);
+    this.emit('scheduleRemoved', scheduleId);
+    return true;
+  }
+
+  /**
+   * Register holiday calendar
+   */
+  public registerHolidayCalendar(calendar: z.input<typeof HolidayCalendarSchema>): HolidayCalendar {
+    const validated = HolidayCalendarSchema.parse(calendar);
+    this.calendars.set(validated.id, validated);
+    this.emit('holidayCalendarRegistered', validated);
+    return validated;
+  }
+
+  /**
+   * Add temporary override
+   */
+  public addOverride(override: z.input<typeof OnCallOverrideSchema>): OnCallOverride {
+    const validated = OnCallOverrideSchema.parse(override);
+    if (!this.schedules.has(validated.scheduleId)) {
+      throw new Error(`On-call schedule not found: ${validated.scheduleId}`);
+    }
+
+    this.overrides.set(validated.id, validated);
+    this.emit('overrideAdded', validated);
+    return validated;
+  }
+
+  /**
+   * Remove override
+   */
+  public removeOverride(overrideId: string): boolean {
+    const override = this.overrides.get(overrideId);
+    if (!override) return false;
+
+    this.overrides.delete(overrideId);
+    this.emit('overrideRemoved', override);
+    return true;
+  }
+
+  /**
+   * Resolve who is on call for a schedule at a point in time
+   */
+  public getOnCall(scheduleId: string, at: Date = new Date()): OnCallAssignment | undefined {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) return undefined;
+
+    const layered = this.resolveLayers(schedule, at);
+
+    // Most recently added override wins
+    const overrides = this.getOverrides(scheduleId).reverse();
+    const override = overrides.find(candidate =>
+      candidate.start <= at && at < candidate.end &&
+      (!candidate.replaces || candidate.replaces === layered?.userId)
+    );
+
+    if (override) {
+      return { scheduleId, userId: override.userId, overrideId: override.id };
+    }
+    return layered;
+  }
+
+  /**
+   * Build the effective on-call timeline for a schedule
+   */
+  public getShifts(scheduleId: string, from: Date, to: Date): OnCallShift[] {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) {
+      throw new Error(`On-call schedule not found: ${scheduleId}`);
+    }
+    if (to <= from) return [];
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new Error(`Shift range cannot exceed ${MAX_RANGE_DAYS} days`);
+    }
+
+    // Who is on call can only change at one of these instants
+    const boundaries = new Set<number>([from.getTime(), to.getTime()]);
+    for (const override of this.getOverrides(scheduleId)) {
+      boundaries.add(override.start.getTime());
+      boundaries.add(override.end.getTime());
+    }
+    for (const layer of schedule.layers) {
+      for (const instant of this.layerBoundaries(schedule, layer, from, to)) {
+        boundaries.add(instant);
+      }
+    }
+
+    const instants = Array.from(boundaries)
+      .filter(instant => instant >= from.getTime() && instant <= to.getTime())
+      .sort((a, b) => a - b);
+
+    const shifts: OnCallShift[] = [];
+    for (let i = 0; i < instants.length - 1; i++) {
+      const assignment = this.getOnCall(scheduleId, new Date(instants[i]));
+      if (!assignment) continue;
+
+      const previous = shifts[shifts.length - 1];
+      if (previous &&
+          previous.end.getTime() === instants[i] &&
+          previous.userId === assignment.userId &&
+          previous.layerId === assignment.layerId &&
+          previous.overrideId === assignment.overrideId) {
+        previous.end = new Date(instants[i + 1]);
+        continue;
+      }
+
+      shifts.push({ ...assignment, start: new Date(instants[i]), end: new Date(instants[i + 1]) });
+    }
+
+    return shifts;
+  }
+
+  /**
+   * Get every shift a person holds across schedules
+   */
+  public getUserShifts(userId: string, from: Date, to: Date, scheduleIds?: string[]): OnCallShift[] {
+    const ids = scheduleIds ?? Array.from(this.schedules.keys());
+
+    return ids
+      .flatMap(id => this.getShifts(id, from, to))
+      .filter(shift => shift.userId === userId)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Export a person's shifts as an iCalendar (RFC 5545) feed
+   */
+  public exportICalendar(userId: string, options: ICalendarOptions = {}): string {
+    const now = new Date();
+    const from = options.from ?? new Date(now.getTime() - 7 * DAY_MS);
+    const to = options.to ?? new Date(now.getTime() + 90 * DAY_MS);
+    const shifts = this.getUserShifts(userId, from, to, options.scheduleIds);
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//monitoring-service//alerts on-call//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeICalText(options.calendarName ?? `On-call shifts for ${userId}`)}`
+    ];
+
+    for (const shift of shifts) {
+      const schedule = this.schedules.get(shift.scheduleId)!;
+      const source = shift.overrideId
+        ? this.overrides.get(shift.overrideId)?.reason ?? 'Override'
+        : schedule.layers.find(layer => layer.id === shift.layerId)?.name ?? shift.layerId ?? '';
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${shift.scheduleId}-${shift.overrideId ?? shift.layerId}-${formatICalDate(shift.start)}@oncall.monitoring-service`,
+        `DTSTAMP:${formatICalDate(now)}`,
+        `DTSTART:${formatICalDate(shift.start)}`,
+        `DTEND:${formatICalDate(shift.end)}`,
+        `SUMMARY:${escapeICalText(`On call: ${schedule.name}`)}`,
+        `DESCRIPTION:${escapeICalText(`${schedule.name} (${schedule.timezone})${source ? ` - ${source}` : ''}`)}`,
+        'TRANSP:OPAQUE',
+        'END:VEVENT'
+      );
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldICalLine).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Emit handoff events for schedules whose on-call person changed
+   */
+  public checkHandoffs(at: Date = new Date()): OnCallHandoff[] {
+    const handoffs: OnCallHandoff[] = [];
+
+    for (const scheduleId of this.schedules.keys()) {
+      const previousUserId = this.currentOnCall.get(scheduleId);
+      const userId = this.getOnCall(scheduleId, at)?.userId;
+      if (previousUserId === userId) continue;
+
+      this.currentOnCall.set(scheduleId, userId);
+      const handoff: OnCallHandoff = { scheduleId, previousUserId, userId, at };
+      handoffs.push(handoff);
+      this.emit('handoff', handoff);
+    }
+
+    return handoffs;
+  }
+
+  /**
+   * Stop the handoff watcher
+   */
+  public stop(): void {
+    this.handoffJob.stop();
+  }
+
+  /**
+   * Get on-call schedules
+   */
+  public getSchedules(): OnCallSchedule[] {
+    return Array.from(this.schedules.values());
+  }
+
+  /**
+   * Get on-call schedule by ID
+   */
+  public getSchedule(id: string): OnCallSchedule | undefined {
+    return this.schedules.get(id);
+  }
+
+  /**
+   * Get overrides, oldest first
+   */
+  public getOverrides(scheduleId?: string): OnCallOverride[] {
+    const overrides = Array.from(this.overrides.values());
+    return scheduleId ? overrides.filter(o => o.scheduleId === scheduleId) : overrides;
+  }
+
+  /**
+   * Get holiday calendars
+   */
+  public getHolidayCalendars(): HolidayCalendar[] {
+    return Array.from(this.calendars.values());
+  }
+
+  /**
+   * Find the topmost layer covering the instant and its participant
+   */
+  private resolveLayers(schedule: OnCallSchedule, at: Date): OnCallAssignment | undefined {
+    const local = zonedParts(at, schedule.timezone);
+    const holiday = this.isHoliday(schedule, local.day);
+
+    for (let i = schedule.layers.length - 1; i >= 0; i--) {
+      const layer = schedule.layers[i];
+      if (!this.layerCovers(schedule, layer, at, local, holiday)) continue;
+
+      const index = this.rotationIndex(schedule, layer, at);
+      const userId = layer.participants[index % layer.participants.length];
+      return { scheduleId: schedule.id, userId, layerId: layer.id };
+    }
+
+    return undefined;
+  }
+
+  private layerCovers(schedule: OnCallSchedule, layer: OnCallLayer, at: Date, local: ZonedParts, holiday: boolean): boolean {
+    const handoff = parseTime(layer.handoffTime);
+    if (at < zonedTimeToUtc(parseDate(layer.startDate), handoff, schedule.timezone)) return false;
+    if (layer.endDate && at >= zonedTimeToUtc(parseDate(layer.endDate), handoff, schedule.timezone)) return false;
+
+    if (layer.holidays === 'exclude' && holiday) return false;
+    if (layer.holidays === 'only' && !holiday) return false;
+
+    if (layer.restrictions.length === 0) return true;
+
+    return layer.restrictions.some(restriction => {
+      const start = parseTime(restriction.startTime);
+      const end = parseTime(restriction.endTime);
+      const onDay = (day: number) => !restriction.days || restriction.days.includes(weekdayOf(day));
+
+      if (start === end) return onDay(local.day);
+      if (start < end) return onDay(local.day) && local.minutes >= start && local.minutes < end;
+
+      // Overnight window: the tail belongs to the previous day's restriction
+      return (onDay(local.day) && local.minutes >= start) ||
+             (onDay(local.day - 1) && local.minutes < end);
+    });
+  }
+
+  /**
+   * Number of handoffs since the layer started
+   */
+  private rotationIndex(schedule: OnCallSchedule, layer: OnCallLayer, at: Date): number {
+    const handoff = parseTime(layer.handoffTime);
+    const startDay = parseDate(layer.startDate);
+
+    if (layer.rotation === 'custom') {
+      const anchor = zonedTimeToUtc(startDay, handoff, schedule.timezone);
+      return Math.floor((at.getTime() - anchor.getTime()) / (layer.shiftLengthHours! * 60 * 60 * 1000));
+    }
+
+    const period = layer.rotation === 'daily' ? 1 : 7;
+    let day = zonedParts(at, schedule.timezone).day;
+    if (zonedTimeToUtc(day, handoff, schedule.timezone) > at) day--;
+
+    const shiftDay = this.alignToHandoffDay(layer, day);
+    const anchorDay = this.alignToHandoffDay(layer, startDay);
+    return Math.floor((shiftDay - anchorDay) / period);
+  }
+
+  private alignToHandoffDay(layer: OnCallLayer, day: number): number {
+    if (layer.rotation !== 'weekly') return day;
+    const offset = (WEEKDAYS.indexOf(weekdayOf(day)) - WEEKDAYS.indexOf(layer.handoffDay) + 7) % 7;
+    return day - offset;
+  }
+
+  /**
+   * Instants within the range where a layer may start or stop covering, or hand off
+   */
+  private layerBoundaries(schedule: OnCallSchedule, layer: OnCallLayer, from: Date, to: Date): number[] {
+    const { timezone } = schedule;
+    const handoff = parseTime(layer.handoffTime);
+    const startDay = parseDate(layer.startDate);
+    const instants: number[] = [zonedTimeToUtc(startDay, handoff, timezone).getTime()];
+
+    if (layer.endDate) {
+      instants.push(zonedTimeToUtc(parseDate(layer.endDate), handoff, timezone).getTime());
+    }
+
+    if (layer.rotation === 'custom') {
+      const anchor = zonedTimeToUtc(startDay, handoff, timezone).getTime();
+      const length = layer.shiftLengthHours! * 60 * 60 * 1000;
+      const first = Math.max(0, Math.ceil((from.getTime() - anchor) / length));
+      for (let instant = anchor + first * length; instant <= to.getTime(); instant += length) {
+        instants.push(instant);
+      }
+    }
+
+    const localTimes = new Set<number>();
+    if (layer.rotation !== 'custom') localTimes.add(handoff);
+    if (layer.holidays !== 'include') localTimes.add(0);
+    for (const restriction of layer.restrictions) {
+      localTimes.add(0);
+      localTimes.add(parseTime(restriction.startTime));
+      localTimes.add(parseTime(restriction.endTime));
+    }
+
+    const firstDay = zonedParts(from, timezone).day - 1;
+    const lastDay = zonedParts(to, timezone).day + 1;
+    for (let day = firstDay; day <= lastDay; day++) {
+      for (const minutes of localTimes) {
+        instants.push(zonedTimeToUtc(day, minutes, timezone).getTime());
+      }
+    }
+
+    return instants;
+  }
+
+  private isHoliday(schedule: OnCallSchedule, day: number): boolean {
+    if (schedule.holidayCalendars.length === 0) return false;
+
+    const date = formatDate(day);
+    return schedule.holidayCalendars.some(calendarId => {
+      const calendar = this.calendars.get(calendarId);
+      return calendar?.holidays.some(holiday =>
+        holiday.recurring ? holiday.date.slice(5) === date.slice(5) : holiday.date === date
+      ) ?? false;
+    });
+  }
+}
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+function zonedParts(date: Date, timezone: string): ZonedParts {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+
+  const day = Date.UTC(parts.year, parts.month - 1, parts.day) / DAY_MS;
+  return { day, minutes: (parts.hour % 24) * 60 + parts.minute };
+}
+
+/**
+ * Instant at which the wall clock in a timezone reads the given local date and time.
+ * Times skipped by a DST change resolve to the same offset as just before the change.
+ */
+function zonedTimeToUtc(day: number, minutes: number, timezone: string): Date {
+  const wall = day * DAY_MS + minutes * 60 * 1000;
+  const guess = wall - offsetAt(wall, timezone);
+  return new Date(wall - offsetAt(guess, timezone));
+}
+
+function offsetAt(instant: number, timezone: string): number {
+  const truncated = Math.floor(instant / 60000) * 60000;
+  const local = zonedParts(new Date(truncated), timezone);
+  return local.day * DAY_MS + local.minutes * 60 * 1000 - truncated;
+}
+
+function weekdayOf(day: number): Weekday {
+  return WEEKDAYS[new Date(day * DAY_MS).getUTCDay()];
+}
+
+function parseTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function parseDate(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function formatDate(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function formatICalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 section 3.1)
+ */
+function foldICalLine(line: string): string {
+  if (Buffer.byteLength(line) <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = '';
+  let limit = 75;
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = '';
+      limit = 74; // Continuation lines start with a space
+    }
+    current += char;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+export default OnCallScheduler;
@@ -0,0 +1,155 @@
+import { randomUUID } from 'crypto';
+import { AlertStateStore, StateChange, StateCollection, decodeState, encodeState } from './store';
+
+// Structural subset of pg's Pool and PoolClient, so callers can pass their own pool
+export interface PostgresQueryable {
+  query(text: string, params?: any[]): Promise<{ rows: any[] }>;
+}
+
+export interface PostgresNotification {
+  processId: number;
+  channel: string;
+  payload?: string | undefined;
+}
+
+export interface PostgresListenClient extends PostgresQueryable {
+  on(event: 'notification', listener: (message: PostgresNotification) => void): unknown;
+  release(): void;
+}
+
+export interface PostgresPool extends PostgresQueryable {
+  connect(): Promise<PostgresListenClient>;
+}
+
+export interface PostgresStateStoreOptions {
+  createSchema?: boolean; // default true; disable when tables come from migrations
+}
+
+const CHANNEL = 'alert_pipeline_state';
+
+export const ALERT_STATE_SCHEMA = `
+CREATE TABLE IF NOT EXISTS alert_pipeline_state (
+  collection TEXT NOT NULL,
+  id TEXT NOT NULL,
+  data JSONB NOT NULL,
+  updated_by TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (collection, id)
+);
+
+CREATE TABLE IF NOT EXISTS alert_pipeline_locks (
+  name TEXT PRIMARY KEY,
+  token TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+`;
+
+/**
+ * Postgres-backed state: JSONB rows, lease-style lock rows and LISTEN/NOTIFY change feed
+ */
+export class PostgresStateStore implements AlertStateStore {
+  private pool: PostgresPool;
+  private listener?: PostgresListenClient;
+  private createSchema: boolean;
+
+  constructor(pool: PostgresPool, options: PostgresStateStoreOptions = {}) {
+    this.pool = pool;
+    this.createSchema = options.createSchema ?? true;
+  }
+
+  async connect(): Promise<void> {
+    if (this.createSchema) {
+      await this.pool.query(ALERT_STATE_SCHEMA);
+    } else {
+      await this.pool.query('SELECT 1 FROM alert_pipeline_state LIMIT 1');
+    }
+  }
+
+  async get<T>(collection: StateCollection, id: string): Promise<T | undefined> {
+    const result = await this.pool.query(
+      'SELECT data::text AS data FROM alert_pipeline_state WHERE collection = $1 AND id = $2',
+      [collection, id]
+    );
+    return result.rows.length > 0 ? decodeState<T>(result.rows[0].data) : undefined;
+  }
+
+  async list<T>(collection: StateCollection): Promise<T[]> {
+    const result = await this.pool.query(
+      'SELECT data::text AS data FROM alert_pipeline_state WHERE collection = $1 ORDER BY updated_at',
+      [collection]
+    );
+    return result.rows.map(row => decodeState<T>(row.data));
+  }
+
+  async put(collection: StateCollection, id: string, data: unknown, replicaId: string): Promise<void> {
+    // Notify in the same statement so the change is only announced once written
+    await this.pool.query(
+      `WITH upserted AS (
+         INSERT INTO alert_pipeline_state (collection, id, data, updated_by, updated_at)
+         VALUES ($1, $2, $3::jsonb, $4, NOW())
+         ON CONFLICT (collection, id)
+         DO UPDATE SET data = EXCLUDED.data, updated_by = EXCLUDED.updated_by, updated_at = NOW()
+         RETURNING 1
+       )
+       SELECT pg_notify($5, $6) FROM upserted`,
+      [collection, id, encodeState(data), replicaId, CHANNEL, this.payload({ collection, id, deleted: false, replicaId })]
+    );
+  }
+
+  async delete(collection: StateCollection, id: string, replicaId: string): Promise<void> {
+    await this.pool.query(
+      `WITH deleted AS (
+         DELETE FROM alert_pipeline_state WHERE collection = $1 AND id = $2 RETURNING 1
+       )
+       SELECT pg_notify($3, $4) FROM deleted`,
+      [collection, id, CHANNEL, this.payload({ collection, id, deleted: true, replicaId })]
+    );
+  }
+
+  async acquireLock(name: string, ttlMs: number): Promise<string | undefined> {
+    // Session advisory locks would be tied to whichever pooled connection ran the query
+    const token = randomUUID();
+    const result = await this.pool.query(
+      `INSERT INTO alert_pipeline_locks (name, token, expires_at)
+       VALUES ($1, $2, NOW() + $3 * INTERVAL '1 millisecond')
+       ON CONFLICT (name) DO UPDATE SET token = EXCLUDED.token, expires_at = EXCLUDED.expires_at
+       WHERE alert_pipeline_locks.expires_at < NOW()
+       RETURNING token`,
+      [name, token, ttlMs]
+    );
+    return result.rows.length > 0 ? token : undefined;
+  }
+
+  async releaseLock(name: string, token: string): Promise<void> {
+    await this.pool.query('DELETE FROM alert_pipeline_locks WHERE name = $1 AND token = $2', [name, token]);
+  }
+
+  async subscribe(listener: (change: StateChange) => void): Promise<void> {
+    // LISTEN is per connection, so hold one client for the store's lifetime
+    if (!this.listener) {
+      this.listener = await this.pool.connect();
+      await this.listener.query(`LISTEN ${CHANNEL}`);
+    }
+
+    this.listener.on('notification', message => {
+      if (message.channel !== CHANNEL || !message.payload) return;
+      try {
+        listener(JSON.parse(message.payload));
+      } catch (error) {
+        console.error('Invalid alert state change notification:', error);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.listener) {
+      await this.listener.query(`UNLISTEN ${CHANNEL}`).catch(() => undefined);
+      this.listener.release();
+      this.listener = undefined;
+    }
+  }
+
+  private payload(change: StateChange): string {
+    return JSON.stringify(change);
+  }
+}
@@ -0,0 +1,101 @@
+import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+import { AlertStateStore, StateChange, StateCollection, decodeState, encodeState } from './store';
+
+export interface RedisStateStoreOptions {
+  keyPrefix?: string; // default 'alerts:state'
+}
+
+// Delete the lock only if this holder still owns it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Redis-backed state: one hash per collection, SET NX locks and pub/sub change feed
+ */
+export class RedisStateStore implements AlertStateStore {
+  private redis: Redis;
+  private subscriber?: Redis;
+  private prefix: string;
+
+  constructor(redis: Redis, options: RedisStateStoreOptions = {}) {
+    this.redis = redis;
+    this.prefix = options.keyPrefix ?? 'alerts:state';
+  }
+
+  async connect(): Promise<void> {
+    await this.redis.ping();
+  }
+
+  async get<T>(collection: StateCollection, id: string): Promise<T | undefined> {
+    const json = await this.redis.hget(this.collectionKey(collection), id);
+    return json === null ? undefined : decodeState<T>(json);
+  }
+
+  async list<T>(collection: StateCollection): Promise<T[]> {
+    const records = await this.redis.hvals(this.collectionKey(collection));
+    return records.map(json => decodeState<T>(json));
+  }
+
+  async put(collection: StateCollection, id: string, data: unknown, replicaId: string): Promise<void> {
+    await this.redis
+      .multi()
+      .hset(this.collectionKey(collection), id, encodeState(data))
+      .publish(this.channel, JSON.stringify({ collection, id, deleted: false, replicaId }))
+      .exec();
+  }
+
+  async delete(collection: StateCollection, id: string, replicaId: string): Promise<void> {
+    await this.redis
+      .multi()
+      .hdel(this.collectionKey(collection), id)
+      .publish(this.channel, JSON.stringify({ collection, id, deleted: true, replicaId }))
+      .exec();
+  }
+
+  async acquireLock(name: string, ttlMs: number): Promise<string | undefined> {
+    const token = randomUUID();
+    const result = await this.redis.set(`${this.prefix}:lock:${name}`, token, 'PX', ttlMs, 'NX');
+    return result === 'OK' ? token : undefined;
+  }
+
+  async releaseLock(name: string, token: string): Promise<void> {
+    await this.redis.eval(RELEASE_LOCK_SCRIPT, 1, `${this.prefix}:lock:${name}`, token);
+  }
+
+  async subscribe(listener: (change: StateChange) => void): Promise<void> {
+    // A subscribed connection cannot issue other commands
+    if (!this.subscriber) {
+      this.subscriber = this.redis.duplicate();
+      await this.subscriber.subscribe(this.channel);
+    }
+
+    this.subscriber.on('message', (channel: string, message: string) => {
+      if (channel !== this.channel) return;
+      try {
+        listener(JSON.parse(message));
+      } catch (error) {
+        console.error('Invalid alert state change message:', error);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.subscriber) {
+      await this.subscriber.quit();
+      this.subscriber = undefined;
+    }
+  }
+
+  private get channel(): string {
+    return `${this.prefix}:changes`;
+  }
+
+  private collectionKey(collection: StateCollection): string {
+    return `${this.prefix}:${collection}`;
+  }
+}
@@ -0,0 +1,143 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+
+// Persisted pipeline state, one record per ID within each collection
+export type StateCollection =
+  | 'dedup_groups'
+  | 'suppression_rules'
+  | 'suppression_instances'
+  | 'maintenance_windows'
+  | 'escalation_policies'
+  | 'escalation_roles'
+  | 'escalation_instances'
+  | 'templates';
+
+export const STATE_COLLECTIONS: StateCollection[] = [
+  'escalation_policies',
+  'escalation_roles',
+  'escalation_instances',
+  'suppression_rules',
+  'maintenance_windows',
+  'suppression_instances',
+  'dedup_groups',
+  'templates'
+];
+
+/**
+ * Published after every write. Carries no data: receivers read the record back,
+ * so notifications stay small and always reflect the latest write.
+ */
+export interface StateChange {
+  collection: StateCollection;
+  id: string;
+  deleted: boolean;
+  replicaId: string;
+}
+
+/**
+ * Storage backend for pipeline state shared between replicas
+ */
+export interface AlertStateStore {
+  /** Open connections and create storage if needed */
+  connect(): Promise<void>;
+  get<T>(collection: StateCollection, id: string): Promise<T | undefined>;
+  list<T>(collection: StateCollection): Promise<T[]>;
+  put(collection: StateCollection, id: string, data: unknown, replicaId: string): Promise<void>;
+  delete(collection: StateCollection, id: string, replicaId: string): Promise<void>;
+  /** Returns a token when acquired, undefined when another holder has it */
+  acquireLock(name: string, ttlMs: number): Promise<string | undefined>;
+  releaseLock(name: string, token: string): Promise<void>;
+  /** Receive changes written by any replica, including this one */
+  subscribe(listener: (change: StateChange) => void): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Handed to components so read-modify-write updates are atomic across replicas
+ */
+export interface StateCoordinator {
+  /** Run fn while holding a cluster-wide lock, waiting for other holders */
+  withLock<T>(name: string, fn: () => Promise<T>): Promise<T>;
+  load<T>(collection: StateCollection, id: string): Promise<T | undefined>;
+  save(collection: StateCollection, id: string, data: unknown): Promise<void>;
+}
+
+/**
+ * Serialize state as JSON, keeping Date values intact
+ */
+export function encodeState(data: unknown): string {
+  return JSON.stringify(data, function (this: any, key: string, value: unknown) {
+    const raw = this[key];
+    return raw instanceof Date ? { $date: raw.toISOString() } : value;
+  });
+}
+
+export function decodeState<T>(json: string): T {
+  return JSON.parse(json, (_key, value) => {
+    if (value && typeof value === 'object' && !Array.isArray(value) &&
+        typeof value.$date === 'string' && Object.keys(value).length === 1) {
+      return new Date(value.$date);
+    }
+    return value;
+  });
+}
+
+/**
+ * In-process store for single-replica deployments and tests
+ */
+export class MemoryStateStore implements AlertStateStore {
+  private records: Map<string, string> = new Map();
+  private locks: Map<string, { token: string; expiresAt: number }> = new Map();
+  private changes = new EventEmitter();
+
+  async connect(): Promise<void> {}
+
+  async get<T>(collection: StateCollection, id: string): Promise<T | undefined> {
+    const json = this.records.get(this.key(collection, id));
+    return json === undefined ? undefined : decodeState<T>(json);
+  }
+
+  async list<T>(collection: StateCollection): Promise<T[]> {
+    const prefix = `${collection}:`;
+    return Array.from(this.records.entries())
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([, json]) => decodeState<T>(json));
+  }
+
+  async put(collection: StateCollection, id: string, data: unknown, replicaId: string): Promise<void> {
+    this.records.set(this.key(collection, id), encodeState(data));
+    this.changes.emit('change', { collection, id, deleted: false, replicaId });
+  }
+
+  async delete(collection: StateCollection, id: string, replicaId: string): Promise<void> {
+    this.records.delete(this.key(collection, id));
+    this.changes.emit('change', { collection, id, deleted: true, replicaId });
+  }
+
+  async acquireLock(name: string, ttlMs: number): Promise<string | undefined> {
+    const held = this.locks.get(name);
+    if (held && held.expiresAt > Date.now()) return undefined;
+
+    const token = randomUUID();
+    this.locks.set(name, { token, expiresAt: Date.now() + ttlMs });
+    return token;
+  }
+
+  async releaseLock(name: string, token: string): Promise<void> {
+    if (this.locks.get(name)?.token === token) {
+      this.locks.delete(name);
+    }
+  }
+
+  async subscribe(listener: (change: StateChange) => void): Promise<void> {
+    this.changes.on('change', listener);
+  }
+
+  async close(): Promise<void> {
+    this.changes.removeAllListeners();
+  }
+
+  private key(collection: StateCollection, id: string): string {
+    return `${collection}:${id}`;
+  }
+}
@@ -0,0 +1,277 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import type { AlertDeduplication, AlertGroup } from '../deduplication';
+import type { AlertSuppressionEngine } from '../suppression';
+import type { EscalationManager } from '../escalation';
+import type { AlertTemplateManager } from '../templates';
+import {
+  AlertStateStore,
+  STATE_COLLECTIONS,
+  StateChange,
+  StateCollection,
+  StateCoordinator
+} from './store';
+
+export interface PipelineStateComponents {
+  deduplication?: AlertDeduplication;
+  suppression?: AlertSuppressionEngine;
+  escalation?: EscalationManager;
+  templates?: AlertTemplateManager;
+}
+
+export interface PipelineStateSyncOptions {
+  replicaId?: string; // defaults to a random ID per process
+  lockTtlMs?: number; // default 30000; a crashed holder blocks others at most this long
+  lockWaitMs?: number; // default 10000
+}
+
+type ListenerBinding = [EventEmitter, string, (...args: any[]) => void];
+
+/**
+ * Keeps pipeline components in step with a shared state store
+ *
+ * - Restores every collection into the components on start
+ * - Writes local changes as components emit them, in order per record
+ * - Applies changes written by other replicas
+ * - Serializes deduplication and escalation steps across replicas with store locks
+ */
+export class PipelineStateSync extends EventEmitter implements StateCoordinator {
+  public readonly replicaId: string;
+  private store: AlertStateStore;
+  private components: PipelineStateComponents;
+  private lockTtlMs: number;
+  private lockWaitMs: number;
+  private bindings: ListenerBinding[] = [];
+  private writes: Map<string, Promise<void>> = new Map();
+  private running = false;
+
+  constructor(store: AlertStateStore, components: PipelineStateComponents, options: PipelineStateSyncOptions = {}) {
+    super();
+    this.store = store;
+    this.components = components;
+    this.replicaId = options.replicaId ?? randomUUID();
+    this.lockTtlMs = options.lockTtlMs ?? 30000;
+    this.lockWaitMs = options.lockWaitMs ?? 10000;
+  }
+
+  /**
+   * Restore state and start syncing
+   */
+  public async start(): Promise<void> {
+    if (this.running) return;
+
+    await this.store.connect();
+
+    // Restored escalations resume straight away, so steps must already be coordinated
+    this.components.deduplication?.setCoordinator(this);
+    this.components.escalation?.setCoordinator(this);
+    this.running = true;
+
+    let restored = 0;
+    for (const collection of STATE_COLLECTIONS) {
+      const records = await this.store.list<any>(collection);
+      for (const record of records) {
+        this.apply(collection, this.recordId(collection, record), record);
+      }
+      restored += records.length;
+    }
+
+    this.attachListeners();
+    await this.store.subscribe(change => {
+      if (!this.running || change.replicaId === this.replicaId) return;
+      this.applyRemoteChange(change).catch(error => this.reportError(change.collection, change.id, error));
+    });
+
+    this.emit('restored', { replicaId: this.replicaId, records: restored });
+  }
+
+  /**
+   * Flush pending writes and stop syncing
+   */
+  public async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    this.components.deduplication?.setCoordinator(undefined);
+    this.components.escalation?.setCoordinator(undefined);
+    for (const [emitter, event, listener] of this.bindings) {
+      emitter.off(event, listener);
+    }
+    this.bindings = [];
+
+    await Promise.all(this.writes.values());
+    await this.store.close();
+  }
+
+  /**
+   * Run fn while holding a cluster-wide lock
+   */
+  public async withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    const deadline = Date.now() + this.lockWaitMs;
+    let delay = 25;
+    let token = await this.store.acquireLock(name, this.lockTtlMs);
+
+    while (!token) {
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for state lock: ${name}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay = Math.min(delay * 2, 500);
+      token = await this.store.acquireLock(name, this.lockTtlMs);
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await this.store.releaseLock(name, token);
+    }
+  }
+
+  public load<T>(collection: StateCollection, id: string): Promise<T | undefined> {
+    return this.store.get<T>(collection, id);
+  }
+
+  public save(collection: StateCollection, id: string, data: unknown): Promise<void> {
+    return this.enqueue(collection, id, () => this.store.put(collection, id, data, this.replicaId));
+  }
+
+  public remove(collection: StateCollection, id: string): Promise<void> {
+    return this.enqueue(collection, id, () => this.store.delete(collection, id, this.replicaId));
+  }
+
+  /**
+   * Persist component changes as they are emitted
+   */
+  private attachListeners(): void {
+    const { deduplication, suppression, escalation, templates } = this.components;
+    const save = (collection: StateCollection, id: string, data: unknown) => {
+      this.save(collection, id, data).catch(error => this.reportError(collection, id, error));
+    };
+    const remove = (collection: StateCollection, id: string) => {
+      this.remove(collection, id).catch(error => this.reportError(collection, id, error));
+    };
+
+    if (deduplication) {
+      const saveGroup = (group: AlertGroup) => save('dedup_groups', group.fingerprint, group);
+      this.bind(deduplication, 'newGroup', saveGroup);
+      this.bind(deduplication, 'groupUpdated', saveGroup);
+      this.bind(deduplication, 'groupSuppressed', ({ group }) => saveGroup(group));
+      this.bind(deduplication, 'groupUnsuppressed', saveGroup);
+      this.bind(deduplication, 'groupExpired', (group: AlertGroup) => remove('dedup_groups', group.fingerprint));
+    }
+
+    if (suppression) {
+      const saveRule = (rule: any) => save('suppression_rules', rule.id, rule);
+      const saveWindow = (window: any) => save('maintenance_windows', window.id, window);
+      const removeInstance = (instance: any) => remove('suppression_instances', instance.id);
+      this.bind(suppression, 'ruleRegistered', saveRule);
+      this.bind(suppression, 'ruleUpdated', saveRule);
+      this.bind(suppression, 'ruleDeleted', ({ id }) => remove('suppression_rules', id));
+      this.bind(suppression, 'maintenanceWindowCreated', saveWindow);
+      this.bind(suppression, 'maintenanceWindowActivated', saveWindow);
+      this.bind(suppression, 'maintenanceWindowCompleted', saveWindow);
+      this.bind(suppression, 'alertSuppressed', ({ instance }) => save('suppression_instances', instance.id, instance));
+      this.bind(suppression, 'suppressionCancelled', removeInstance);
+      this.bind(suppression, 'suppressionExpired', removeInstance);
+    }
+
+    if (escalation) {
+      const saveInstance = (instance: any) => save('escalation_instances', instance.id, instance);
+      const saveEventInstance = ({ instance }: { instance: any }) => saveInstance(instance);
+      this.bind(escalation, 'policyRegistered', policy => save('escalation_policies', policy.id, policy));
+      this.bind(escalation, 'roleRegistered', role => save('escalation_roles', role.id, role));
+      this.bind(escalation, 'escalationStarted', saveInstance);
+      this.bind(escalation, 'stepExecuted', saveEventInstance);
+      this.bind(escalation, 'actionExecuted', saveEventInstance);
+      this.bind(escalation, 'actionFailed', saveEventInstance);
+      this.bind(escalation, 'escalationAcknowledged', saveInstance);
+      this.bind(escalation, 'escalationResolved', saveInstance);
+      this.bind(escalation, 'escalationRequested', saveInstance);
+      this.bind(escalation, 'escalationCancelled', saveInstance);
+      this.bind(escalation, 'fallbackExecuted', saveInstance);
+      this.bind(escalation, 'fallbackFailed', saveEventInstance);
+      this.bind(escalation, 'escalationArchived', instance => remove('escalation_instances', instance.id));
+    }
+
+    if (templates) {
+      const saveTemplate = (template: any) => save('templates', template.id, template);
+      this.bind(templates, 'templateRegistered', saveTemplate);
+      this.bind(templates, 'templateUpdated', saveTemplate);
+      this.bind(templates, 'templateDeleted', ({ id }) => remove('templates', id));
+    }
+  }
+
+  private bind(emitter: EventEmitter, event: string, listener: (...args: any[]) => void): void {
+    emitter.on(event, listener);
+    this.bindings.push([emitter, event, listener]);
+  }
+
+  private async applyRemoteChange(change: StateChange): Promise<void> {
+    // Read back rather than trusting notification order
+    const record = change.deleted ? undefined : await this.store.get<any>(change.collection, change.id);
+    this.apply(change.collection, change.id, record);
+    this.emit('remoteChange', change);
+  }
+
+  /**
+   * Hand a stored record to its component; undefined removes it
+   */
+  private apply(collection: StateCollection, id: string, record: any): void {
+    const { deduplication, suppression, escalation, templates } = this.components;
+
+    switch (collection) {
+      case 'dedup_groups':
+        deduplication?.restoreGroup(id, record);
+        break;
+      case 'suppression_rules':
+        suppression?.restoreRule(id, record);
+        break;
+      case 'maintenance_windows':
+        suppression?.restoreMaintenanceWindow(id, record);
+        break;
+      case 'suppression_instances':
+        suppression?.restoreSuppression(id, record);
+        break;
+      case 'escalation_policies':
+        escalation?.restorePolicy(id, record);
+        break;
+      case 'escalation_roles':
+        escalation?.restoreRole(id, record);
+        break;
+      case 'escalation_instances':
+        escalation?.restoreInstance(id, record);
+        break;
+      case 'templates':
+        templates?.restoreTemplate(id, record);
+        break;
+    }
+  }
+
+  private recordId(collection: StateCollection, record: any): string {
+    return collection === 'dedup_groups' ? record.fingerprint : record.id;
+  }
+
+  /**
+   * Chain writes per record so a slower earlier write cannot land after a later one
+   */
+  private enqueue(collection: StateCollection, id: string, write: () => Promise<void>): Promise<void> {
+    const key = `${collection}:${id}`;
+    const previous = this.writes.get(key) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(write);
+
+    this.writes.set(key, next);
+    const cleanup = () => {
+      if (this.writes.get(key) === next) this.writes.delete(key);
+    };
+    next.then(cleanup, cleanup);
+
+    return next;
+  }
+
+  private reportError(collection: StateCollection, id: string, error: unknown): void {
+    console.error(`Failed to sync alert state ${collection}/${id}:`, error);
+    this.emit('syncError', { collection, id, error });
+  }
+}
+
+export default PipelineStateSync;
@@ -723,6 +723,45 @@ export class AlertSuppressionEngine extends EventEmitter {
     return true;
   }
 
+  /**
+   * Load a persisted rule, or drop it when undefined, without emitting events
+   */
+  public restoreRule(id: string, rule?: SuppressionRule): void {
+    if (rule) {
+      this.rules.set(id, rule);
+    } else {
+      this.rules.delete(id);
+    }
+  }
+
+  /**
+   * Load a persisted maintenance window, or drop it when undefined, without emitting events.
+   * Windows seen for the first time are scheduled.
+   */
+  public restoreMaintenanceWindow(id: string, window?: MaintenanceWindow): void {
+    if (!window) {
+      this.maintenanceWindows.delete(id);
+      return;
+    }
+
+    const known = this.maintenanceWindows.has(id);
+    this.maintenanceWindows.set(id, window);
+    if (!known && window.status !== 'completed' && window.status !== 'cancelled') {
+      this.scheduleMaintenanceWindow(window);
+    }
+  }
+
+  /**
+   * Load a persisted suppression, or drop it when undefined or no longer active, without emitting events
+   */
+  public restoreSuppression(id: string, instance?: SuppressionInstance): void {
+    if (instance?.status === 'active') {
+      this.activeSuppressions.set(id, instance);
+    } else {
+      this.activeSuppressions.delete(id);
+    }
+  }
+
   /**
    * Get active suppressions
    */
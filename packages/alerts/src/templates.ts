@@ -538,6 +538,17 @@ export class AlertTemplateManager extends EventEmitter {
     return true;
   }
 
+  /**
+   * Load a persisted template, or drop it when undefined, without emitting events
+   */
+  public restoreTemplate(id: string, template?: AlertTemplate): void {
+    if (template) {
+      this.templates.set(id, template);
+    } else {
+      this.templates.delete(id);
+    }
+  }
+
   /**
    * Get template by ID
    */
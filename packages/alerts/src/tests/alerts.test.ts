@@ -1,11 +1,16 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import { createHmac } from 'crypto';
 import AlertDeduplication from '../deduplication';
 import EscalationManager from '../escalation';
+import OnCallScheduler from '../oncall';
 import BusinessImpactScorer from '../scoring';
 import AlertTemplateManager from '../templates';
 import AlertEnrichment from '../enrichment';
 import AlertSuppressionEngine from '../suppression';
 import AlertAnalytics from '../analytics';
+import { MemoryStateStore, decodeState, encodeState } from '../persistence/store';
+import PipelineStateSync from '../persistence/sync';
 
 // Mock alert interface for testing
 interface TestAlert {
@@ -157,21 +162,36 @@ describe('AlertDeduplication', () => {
 describe('EscalationManager', () => {
   let escalation: EscalationManager;
 
+  const escalationConfig = {
+    defaultPolicy: 'default-policy',
+    businessHours: {
+      timezone: 'UTC',
+      days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+      startTime: '09:00',
+      endTime: '17:00'
+    },
+    maxEscalationSteps: 5,
+    acknowledgmentTimeout: 15,
+    autoResolveTimeout: 60,
+    retryAttempts: 3,
+    retryDelay: 30
+  };
+
+  const actionPolicy = (actions: any[]) => ({
+    id: 'action-policy',
+    name: 'Action Policy',
+    enabled: true,
+    steps: [{
+      id: 'step-1',
+      order: 1,
+      roles: [],
+      waitTimeMinutes: 0,
+      actions
+    }]
+  });
+
   beforeEach(() => {
-    escalation = new EscalationManager({
-      defaultPolicy: 'default-policy',
-      businessHours: {
-        timezone: 'UTC',
-        days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
-        startTime: '09:00',
-        endTime: '17:00'
-      },
-      maxEscalationSteps: 5,
-      acknowledgmentTimeout: 15,
-      autoResolveTimeout: 60,
-      retryAttempts: 3,
-      retryDelay: 30
-    });
+    escalation = new EscalationManager(escalationConfig);
 
     // Register test policy and role
     escalation.registerRole({
@@ -228,6 +248,28 @@ describe('EscalationManager', () => {
     expect(instance?.acknowledgedBy).toBe('user-123');
   });
 
+  it('should run the next step when escalation is requested', async () => {
+    escalation.registerPolicy({
+      id: 'two-step-policy',
+      name: 'Two Step Policy',
+      enabled: true,
+      steps: [
+        { id: 'step-1', order: 1, roles: ['ops-team'], waitTimeMinutes: 30, actions: [] },
+        { id: 'step-2', order: 2, roles: ['ops-team'], waitTimeMinutes: 30, actions: [] }
+      ]
+    });
+    const escalationId = await escalation.startEscalation('test-alert-123', 'critical', 'test-service', [], 'two-step-policy');
+
+    expect(await escalation.escalateNow(escalationId, 'user-123')).toBe(true);
+
+    const instance = escalation.getInstance(escalationId);
+    expect(instance?.currentStep).toBe(1);
+    expect(instance?.history.map(entry => entry.action)).toContain('Escalation requested by user-123');
+
+    await escalation.acknowledgeEscalation(escalationId, 'user-123');
+    expect(await escalation.escalateNow(escalationId, 'user-123')).toBe(false);
+  });
+
   it('should resolve escalation', async () => {
     const alertId = 'test-alert-123';
     const escalationId = await escalation.startEscalation(alertId, 'critical', 'test-service');
@@ -249,6 +291,357 @@ describe('EscalationManager', () => {
     expect(stats.activeEscalations).toBe(1);
     expect(stats.escalationsBySeverity.critical).toBe(1);
   });
+
+  it('should deliver signed webhooks and record the result', async () => {
+    const request = vi.spyOn(axios, 'request').mockResolvedValue({ status: 200 } as any);
+    const manager = new EscalationManager(escalationConfig, { webhookSecret: 'test-secret' });
+    manager.registerPolicy(actionPolicy([{ type: 'webhook', config: { url: 'https://hooks.example.com/escalations' } }]));
+
+    const escalationId = await manager.startEscalation('test-alert-123', 'critical', 'test-service', [], 'action-policy');
+    const instance = manager.getInstance(escalationId);
+
+    expect(instance?.actions[0]).toMatchObject({ type: 'webhook', status: 'succeeded', attempts: 1 });
+
+    const { data, headers } = request.mock.calls[0][0] as any;
+    const expected = createHmac('sha256', 'test-secret')
+      .update(`${headers['X-Escalation-Timestamp']}.${data}`)
+      .digest('hex');
+    expect(headers['X-Escalation-Signature']).toBe(`sha256=${expected}`);
+    expect(JSON.parse(data)).toMatchObject({ escalationId, alertId: 'test-alert-123', step: 1 });
+
+    request.mockRestore();
+  });
+
+  it('should create an incident and run the matching runbook', async () => {
+    const runbooks = {
+      findMatchingRunbooks: vi.fn().mockResolvedValue([{ runbook: { id: 'service-down-response' }, confidence: 0.8 }]),
+      executeRunbook: vi.fn().mockResolvedValue({ id: 'execution-1' })
+    };
+    const incidentManagement = {
+      createIncident: vi.fn().mockResolvedValue(undefined),
+      getRunbooks: () => runbooks
+    };
+    const manager = new EscalationManager(escalationConfig, { incidentManagement: incidentManagement as any });
+    manager.registerPolicy(actionPolicy([
+      { type: 'create_incident', config: { assignedTeam: 'sre' } },
+      { type: 'auto_remediate', config: {} }
+    ]));
+
+    const escalationId = await manager.startEscalation('test-alert-123', 'critical', 'test-service', [], 'action-policy', 'Service down');
+    const instance = manager.getInstance(escalationId)!;
+
+    expect(incidentManagement.createIncident).toHaveBeenCalledWith(expect.objectContaining({
+      severity: 'P1_CRITICAL',
+      assignedTeam: 'sre',
+      metadata: expect.objectContaining({ escalationId, alertId: 'test-alert-123' })
+    }));
+    expect(instance.incidentId).toBeDefined();
+    expect(runbooks.executeRunbook).toHaveBeenCalledWith(
+      'service-down-response',
+      instance.incidentId,
+      `escalation:${escalationId}`,
+      true,
+      expect.objectContaining({ dryRun: false })
+    );
+    expect(instance.actions.map(action => [action.type, action.status])).toEqual([
+      ['create_incident', 'succeeded'],
+      ['auto_remediate', 'succeeded']
+    ]);
+    expect(instance.actions[1].result).toMatchObject({ runbookId: 'service-down-response', executionId: 'execution-1' });
+  });
+
+  it('should reject policies with invalid action config', () => {
+    expect(() => escalation.registerPolicy(actionPolicy([
+      { type: 'webhook', config: { url: 'not-a-url' } }
+    ]))).toThrow();
+  });
+});
+
+describe('OnCallScheduler', () => {
+  let scheduler: OnCallScheduler;
+
+  beforeEach(() => {
+    scheduler = new OnCallScheduler();
+    scheduler.registerSchedule({
+      id: 'primary',
+      name: 'Primary On-call',
+      timezone: 'America/New_York',
+      layers: [{
+        id: 'weekly',
+        rotation: 'weekly',
+        handoffDay: 'monday',
+        handoffTime: '09:00',
+        startDate: '2024-01-01',
+        participants: ['alice', 'bob']
+      }]
+    });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  it('should hand off weekly in the schedule timezone across DST', () => {
+    const onCallAt = (iso: string) => scheduler.getOnCall('primary', new Date(iso))?.userId;
+
+    expect(onCallAt('2024-01-01T13:59:00Z')).toBeUndefined();
+    expect(onCallAt('2024-01-01T14:00:00Z')).toBe('alice');
+    expect(onCallAt('2024-01-08T13:59:00Z')).toBe('alice');
+    expect(onCallAt('2024-01-08T14:00:00Z')).toBe('bob');
+    // 09:00 EDT after the March DST change
+    expect(onCallAt('2024-03-11T12:59:00Z')).toBe('bob');
+    expect(onCallAt('2024-03-11T13:00:00Z')).toBe('alice');
+  });
+
+  it('should let restricted upper layers and holidays take precedence', () => {
+    scheduler.registerHolidayCalendar({
+      id: 'us',
+      name: 'US Holidays',
+      holidays: [{ date: '2023-12-25', name: 'Christmas', recurring: true }]
+    });
+    scheduler.registerSchedule({
+      id: 'layered',
+      name: 'Layered',
+      timezone: 'UTC',
+      holidayCalendars: ['us'],
+      layers: [
+        { id: 'base', rotation: 'daily', startDate: '2024-01-01', participants: ['alice', 'bob'], holidays: 'exclude' },
+        {
+          id: 'nights',
+          rotation: 'daily',
+          startDate: '2024-01-01',
+          participants: ['carol'],
+          restrictions: [{ startTime: '22:00', endTime: '06:00' }]
+        },
+        { id: 'holidays', rotation: 'daily', startDate: '2024-01-01', participants: ['erin'], holidays: 'only' }
+      ]
+    });
+
+    expect(scheduler.getOnCall('layered', new Date('2024-01-02T12:00:00Z'))).toMatchObject({ userId: 'bob', layerId: 'base' });
+    expect(scheduler.getOnCall('layered', new Date('2024-01-03T03:00:00Z'))?.userId).toBe('carol');
+    expect(scheduler.getOnCall('layered', new Date('2024-12-25T12:00:00Z'))?.userId).toBe('erin');
+  });
+
+  it('should apply overrides only where they replace the scheduled person', () => {
+    scheduler.addOverride({
+      scheduleId: 'primary',
+      userId: 'dave',
+      replaces: 'bob',
+      start: '2024-01-05T00:00:00Z',
+      end: '2024-01-10T00:00:00Z'
+    });
+
+    expect(scheduler.getOnCall('primary', new Date('2024-01-06T00:00:00Z'))?.userId).toBe('alice');
+    expect(scheduler.getOnCall('primary', new Date('2024-01-09T00:00:00Z'))?.overrideId).toBeDefined();
+    expect(scheduler.getOnCall('primary', new Date('2024-01-09T00:00:00Z'))?.userId).toBe('dave');
+
+    const shifts = scheduler.getShifts('primary', new Date('2024-01-01T00:00:00Z'), new Date('2024-01-15T00:00:00Z'));
+    expect(shifts.map(shift => [shift.userId, shift.start.toISOString(), shift.end.toISOString()])).toEqual([
+      ['alice', '2024-01-01T14:00:00.000Z', '2024-01-08T14:00:00.000Z'],
+      ['dave', '2024-01-08T14:00:00.000Z', '2024-01-10T00:00:00.000Z'],
+      ['bob', '2024-01-10T00:00:00.000Z', '2024-01-15T00:00:00.000Z']
+    ]);
+  });
+
+  it('should export shifts as an iCalendar feed', () => {
+    const ical = scheduler.exportICalendar('bob', {
+      from: new Date('2024-01-01T00:00:00Z'),
+      to: new Date('2024-01-29T00:00:00Z')
+    });
+
+    expect(ical.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ical.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(ical).toContain('DTSTART:20240108T140000Z');
+    expect(ical).toContain('DTEND:20240115T140000Z');
+    expect(ical).toContain('SUMMARY:On call: Primary On-call');
+  });
+
+  it('should emit handoffs when the on-call person changes', () => {
+    const handoff = vi.fn();
+    scheduler.on('handoff', handoff);
+
+    scheduler.checkHandoffs(new Date('2024-01-02T00:00:00Z'));
+    scheduler.checkHandoffs(new Date('2024-01-09T00:00:00Z'));
+
+    expect(handoff).toHaveBeenLastCalledWith(expect.objectContaining({ scheduleId: 'primary', previousUserId: 'alice', userId: 'bob' }));
+  });
+
+  it('should resolve escalation roles to the on-call person', async () => {
+    scheduler.registerSchedule({
+      id: 'always-bob',
+      name: 'Bob',
+      layers: [{ id: 'only', rotation: 'daily', startDate: '2024-01-01', participants: ['bob'] }]
+    });
+    const manager = new EscalationManager({
+      defaultPolicy: 'on-call-policy',
+      businessHours: { timezone: 'UTC', days: ['monday'], startTime: '09:00', endTime: '17:00' },
+      maxEscalationSteps: 5,
+      acknowledgmentTimeout: 15,
+      autoResolveTimeout: 60,
+      retryAttempts: 3,
+      retryDelay: 30
+    }, { onCall: scheduler });
+
+    manager.registerRole({
+      id: 'on-call',
+      name: 'On-call Engineer',
+      onCallScheduleId: 'always-bob',
+      contacts: [
+        { id: 'alice-email', userId: 'alice', name: 'Alice', type: 'email', address: 'alice@example.com', active: true },
+        { id: 'bob-email', userId: 'bob', name: 'Bob', type: 'email', address: 'bob@example.com', active: true },
+        { id: 'bob-sms', userId: 'bob', name: 'Bob', type: 'sms', address: '+15555550100', active: true }
+      ],
+      priority: 1
+    });
+    manager.registerPolicy({
+      id: 'on-call-policy',
+      name: 'On-call Policy',
+      enabled: true,
+      steps: [{ id: 'step-1', order: 1, roles: ['on-call'], waitTimeMinutes: 0, actions: [] }]
+    });
+
+    const notified = vi.fn();
+    manager.on('notificationsSent', notified);
+    await manager.startEscalation('test-alert-123', 'critical', 'test-service');
+
+    expect(notified).toHaveBeenCalledWith(expect.objectContaining({ roleId: 'on-call', totalContacts: 2, successCount: 2 }));
+  });
+});
+
+describe('PipelineStateSync', () => {
+  const escalationConfig = {
+    defaultPolicy: 'persisted-policy',
+    businessHours: { timezone: 'UTC', days: ['monday'], startTime: '09:00', endTime: '17:00' },
+    maxEscalationSteps: 5,
+    acknowledgmentTimeout: 15,
+    autoResolveTimeout: 60,
+    retryAttempts: 3,
+    retryDelay: 30
+  };
+
+  const dedupConfig = {
+    timeWindow: 5,
+    maxAlertsPerGroup: 10,
+    similarityThreshold: 0.7,
+    fingerprintFields: ['source', 'severity', 'message'],
+    enableMLClustering: false,
+    clusteringAlgorithm: 'kmeans' as const
+  };
+
+  const persistedPolicy = {
+    id: 'persisted-policy',
+    name: 'Persisted Policy',
+    enabled: true,
+    steps: [
+      { id: 'step-1', order: 1, roles: ['ops-team'], waitTimeMinutes: 10, actions: [] },
+      { id: 'step-2', order: 2, roles: ['ops-team'], waitTimeMinutes: 0, actions: [] }
+    ]
+  };
+
+  const opsRole = {
+    id: 'ops-team',
+    name: 'Operations Team',
+    contacts: [{ id: 'ops-email', name: 'Ops', type: 'email' as const, address: 'ops@example.com', active: true }],
+    priority: 1
+  };
+
+  let syncs: PipelineStateSync[];
+
+  beforeEach(() => {
+    // Locks and resumed steps wait on real timers
+    vi.useRealTimers();
+    syncs = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(syncs.map(sync => sync.stop()));
+  });
+
+  const startSync = async (store: MemoryStateStore, components: ConstructorParameters<typeof PipelineStateSync>[1], replicaId: string) => {
+    const sync = new PipelineStateSync(store, components, { replicaId });
+    syncs.push(sync);
+    await sync.start();
+    return sync;
+  };
+
+  it('should round-trip dates through the state encoding', () => {
+    const decoded = decodeState<any>(encodeState({ at: new Date('2024-01-01T00:00:00Z'), nested: [{ at: new Date(0) }] }));
+    expect(decoded.at).toBeInstanceOf(Date);
+    expect(decoded.at.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    expect(decoded.nested[0].at.getTime()).toBe(0);
+  });
+
+  it('should restore policies and open escalations after a restart', async () => {
+    const store = new MemoryStateStore();
+    const first = new EscalationManager(escalationConfig);
+    const firstSync = await startSync(store, { escalation: first }, 'replica-a');
+    first.registerRole(opsRole);
+    first.registerPolicy(persistedPolicy);
+    const escalationId = await first.startEscalation('test-alert-123', 'critical', 'test-service');
+    await firstSync.stop();
+
+    const second = new EscalationManager(escalationConfig);
+    await startSync(store, { escalation: second }, 'replica-b');
+
+    expect(second.getPolicies().map(policy => policy.id)).toEqual(['persisted-policy']);
+    const restored = second.getInstance(escalationId);
+    expect(restored?.status).toBe('active');
+    expect(restored?.createdAt).toBeInstanceOf(Date);
+    expect(second.getStats().activeEscalations).toBe(1);
+
+    expect(await second.acknowledgeEscalation(escalationId, 'oncall@example.com')).toBe(true);
+    await sleep(10);
+    expect((await store.get<any>('escalation_instances', escalationId))?.status).toBe('acknowledged');
+  });
+
+  it('should share deduplication groups between replicas', async () => {
+    const store = new MemoryStateStore();
+    const replicaA = new AlertDeduplication(dedupConfig);
+    const replicaB = new AlertDeduplication(dedupConfig);
+    await startSync(store, { deduplication: replicaA }, 'replica-a');
+    await startSync(store, { deduplication: replicaB }, 'replica-b');
+
+    const [resultA, resultB] = await Promise.all([
+      replicaA.processAlert(createTestAlert({ message: 'Disk full on db-1' }) as any),
+      replicaB.processAlert(createTestAlert({ message: 'Disk full on db-1' }) as any)
+    ]);
+
+    expect(resultB.groupId).toBe(resultA.groupId);
+    expect([resultA.isNew, resultB.isNew].filter(Boolean)).toHaveLength(1);
+    const groups = await store.list<any>('dedup_groups');
+    expect(groups).toHaveLength(1);
+    expect(groups[0].count).toBe(2);
+  });
+
+  it('should run a pending escalation step on only one replica', async () => {
+    const store = new MemoryStateStore();
+    const now = new Date();
+    await store.put('escalation_policies', persistedPolicy.id, persistedPolicy, 'seed');
+    await store.put('escalation_roles', opsRole.id, opsRole, 'seed');
+    await store.put('escalation_instances', 'esc_pending', {
+      id: 'esc_pending',
+      alertId: 'test-alert-123',
+      policyId: 'persisted-policy',
+      currentStep: 0,
+      status: 'active',
+      createdAt: now,
+      updatedAt: now,
+      actions: [],
+      history: [],
+      metadata: { severity: 'critical', source: 'test-service', tags: [] }
+    }, 'seed');
+
+    const managers = [new EscalationManager(escalationConfig), new EscalationManager(escalationConfig)];
+    const notified = vi.fn();
+    managers.forEach(manager => manager.on('notificationsSent', notified));
+
+    await Promise.all(managers.map((manager, index) => startSync(store, { escalation: manager }, `replica-${index}`)));
+    await sleep(100);
+
+    expect(notified).toHaveBeenCalledTimes(1);
+    const stored = await store.get<any>('escalation_instances', 'esc_pending');
+    expect(stored.history.filter((entry: any) => entry.step === 0)).toHaveLength(1);
+  });
 });
 
 describe('BusinessImpactScorer', () => {
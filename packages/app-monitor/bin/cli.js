@@ -721,6 +721,128 @@ program
     console.log(chalk.cyan('\n💡 App Monitor will automatically avoid these ports during initialization.'));
   });
 
+program
+  .command('upload-sourcemaps <directory>')
+  .description('Upload the source maps of a build so stack traces are shown with original files and lines')
+  .requiredOption('--release <release>', 'Release the build belongs to; send the same value as metadata.release on events')
+  .option('--url-prefix <prefix>', 'URL the build directory is served from, e.g. https://cdn.example.com/static or ~/static', '~/')
+  .option('--api-url <url>', 'Monitoring API URL (defaults to apiUrl in monitoring.config.js)')
+  .option('--api-key <key>', 'API key with sourcemaps:write (defaults to apiKey in monitoring.config.js)')
+  .action(async (directory, options) => {
+    let config = {};
+    try {
+      config = require(CONFIG_PATH);
+    } catch (err) {
+      // Flags and environment variables are enough without a config file
+    }
+
+    const apiUrl = options.apiUrl || process.env.MONITORING_API_URL || config.apiUrl;
+    const apiKey = options.apiKey || process.env.MONITORING_API_KEY || config.apiKey;
+    if (!apiUrl || !apiKey) {
+      console.log(chalk.red('❌ No API URL or key. Pass --api-url and --api-key, or run "npx app-monitor init" first.'));
+      process.exitCode = 1;
+      return;
+    }
+
+    const root = path.resolve(directory);
+    if (!fs.existsSync(root)) {
+      console.log(chalk.red(`❌ Directory not found: ${root}`));
+      process.exitCode = 1;
+      return;
+    }
+
+    const mapFiles = findSourceMaps(root);
+    if (mapFiles.length === 0) {
+      console.log(chalk.yellow(`⚠️  No .map files found in ${root}`));
+      return;
+    }
+
+    console.log(chalk.blue(`📦 Uploading ${mapFiles.length} source maps for release ${options.release}...`));
+
+    const prefix = options.urlPrefix.replace(/\/+$/, '');
+    let failed = 0;
+
+    for (const mapFile of mapFiles) {
+      // app.js.map belongs to app.js, served at the same relative path
+      const relative = path.relative(root, mapFile).split(path.sep).join('/').replace(/\.map$/, '');
+      const fileUrl = `${prefix}/${relative}`;
+
+      try {
+        const response = await postJson(`${apiUrl.replace(/\/+$/, '')}/sourcemaps`, apiKey, {
+          release: options.release,
+          fileUrl,
+          sourceMap: fs.readFileSync(mapFile, 'utf8'),
+        });
+
+        if (response.status === 201) {
+          console.log(chalk.green(`✓ ${fileUrl}`));
+        } else {
+          failed++;
+          console.log(chalk.red(`✗ ${fileUrl}: ${response.body.message || `HTTP ${response.status}`}`));
+        }
+      } catch (err) {
+        failed++;
+        console.log(chalk.red(`✗ ${fileUrl}: ${err.message}`));
+      }
+    }
+
+    if (failed > 0) {
+      console.log(chalk.red(`\n❌ ${failed} of ${mapFiles.length} source maps failed to upload`));
+      process.exitCode = 1;
+    } else {
+      console.log(chalk.green(`\n✅ Uploaded ${mapFiles.length} source maps`));
+    }
+  });
+
+function findSourceMaps(directory) {
+  const results = [];
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== 'node_modules') {
+        results.push(...findSourceMaps(fullPath));
+      }
+    } else if (entry.name.endsWith('.js.map') || entry.name.endsWith('.mjs.map') || entry.name.endsWith('.cjs.map')) {
+      results.push(fullPath);
+    }
+  }
+  return results;
+}
+
+// POST a JSON body with the http/https modules, which work on every supported Node version
+function postJson(url, apiKey, body) {
+  const target = new URL(url);
+  const transport = target.protocol === 'https:' ? require('https') : require('http');
+  const payload = JSON.stringify(body);
+
+  return new Promise((resolve, reject) => {
+    const request = transport.request(target, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(payload),
+        'X-API-Key': apiKey,
+      },
+    }, (response) => {
+      let data = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk) => { data += chunk; });
+      response.on('end', () => {
+        let parsed = {};
+        try {
+          parsed = JSON.parse(data);
+        } catch (err) {
+          // Non-JSON error pages only need the status code
+        }
+        resolve({ status: response.statusCode, body: parsed });
+      });
+    });
+
+    request.on('error', reject);
+    request.end(payload);
+  });
+}
+
 function generateApiKey() {
   return 'am_' + Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 }
@@ -25,6 +25,8 @@ import { EventList } from '@/components/monitoring/event-list';
 import { AlertsPanel } from '@/components/monitoring/alerts-panel';
 import { DashboardFiltersComponent } from '@/components/monitoring/dashboard-filters';
 import { UnifiedActivityPanel } from '@/components/monitoring/unified-activity-panel';
+import { QueryConsole } from '@/components/monitoring/query-console';
+import { ReleasesPanel } from '@/components/monitoring/releases-panel';
 import { ModeSwitcher } from '@/components/ui/mode-switcher';
 import { SmartNotifications, useSmartNotifications } from '@/components/ui/smart-notifications';
 import { ShortcutHelper } from '@/components/ui/shortcut-helper';
@@ -582,6 +584,22 @@ function DashboardContent() {
           />
           </section>
 
+          {/* Releases and deploy markers - Advanced and Expert modes only */}
+          {canShowFeature('advanced') && (
+            <section id="releases-section" aria-labelledby="releases-heading">
+              <h2 id="releases-heading" className="sr-only">Releases</h2>
+              <ReleasesPanel apiClient={apiClient} />
+            </section>
+          )}
+
+          {/* Query Console - Advanced and Expert modes only */}
+          {canShowFeature('advanced') && (
+            <section id="query-section" aria-labelledby="query-heading">
+              <h2 id="query-heading" className="sr-only">Query Console</h2>
+              <QueryConsole apiClient={apiClient} />
+            </section>
+          )}
+
           {/* OAuth Status - Advanced and Expert modes only */}
           <AnimatePresence>
             {metrics.oauth && canShowFeature('advanced') && (
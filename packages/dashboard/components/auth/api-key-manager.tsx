@@ -20,8 +20,10 @@ import { cn } from '@/lib/utils';
 interface ApiKey {
   id: string;
   name: string;
-  key: string;
+  prefix?: string;
+  key?: string; // Only returned by the server when the key is created
   permissions: string[];
+  roles?: string[];
   createdAt: string;
   lastUsed?: string;
   expiresAt?: string;
@@ -37,12 +39,15 @@ interface ApiKeyManagerProps {
   className?: string;
 }
 
+// Permission ids match the server's <resource>:<action> permissions
 const permissions = [
-  { id: 'read:metrics', label: 'Read Metrics', description: 'Access system metrics and performance data' },
-  { id: 'read:events', label: 'Read Events', description: 'Access event logs and activity data' },
-  { id: 'read:alerts', label: 'Read Alerts', description: 'Access alert information' },
-  { id: 'write:alerts', label: 'Manage Alerts', description: 'Create, update, and acknowledge alerts' },
-  { id: 'admin', label: 'Full Admin Access', description: 'Complete access to all dashboard features' }
+  { id: 'metrics:read', label: 'Read Metrics', description: 'Access system metrics and performance data' },
+  { id: 'events:read', label: 'Read Events', description: 'Access event logs and activity data' },
+  { id: 'alerts:read', label: 'Read Alerts', description: 'Access alert information' },
+  { id: 'alerts:acknowledge', label: 'Acknowledge Alerts', description: 'Acknowledge and resolve firing alerts' },
+  { id: 'alerts:write', label: 'Manage Alerts', description: 'Create and update alert rules' },
+  { id: 'dashboard:read', label: 'View Dashboards', description: 'Access dashboard overviews and widgets' },
+  { id: '*', label: 'Full Admin Access', description: 'Complete access to all dashboard features' }
 ];
 
 export function ApiKeyManager({
@@ -154,8 +159,8 @@ export function ApiKeyManager({
                 isCopied={copiedKey === apiKey.id}
                 isTesting={testingKeys.has(apiKey.id)}
                 onToggleVisibility={() => toggleKeyVisibility(apiKey.id)}
-                onCopy={() => copyToClipboard(apiKey.key, apiKey.id)}
-                onTest={() => testApiKey(apiKey.id, apiKey.key)}
+                onCopy={() => apiKey.key && copyToClipboard(apiKey.key, apiKey.id)}
+                onTest={() => apiKey.key && testApiKey(apiKey.id, apiKey.key)}
                 onUpdate={(updates) => onUpdateKey(apiKey.id, updates)}
                 onDelete={() => onDeleteKey(apiKey.id)}
                 maskKey={maskKey}
@@ -208,6 +213,11 @@ function ApiKeyCard({
 }: ApiKeyCardProps) {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
+  // Stored keys can only be identified by their public prefix
+  const displayKey = apiKey.key
+    ? (isVisible ? apiKey.key : maskKey(apiKey.key))
+    : `${apiKey.prefix ?? 'legacy key'}_${'•'.repeat(8)}`;
+
   const isExpired = apiKey.expiresAt && new Date(apiKey.expiresAt) < new Date();
   const isExpiringSoon = apiKey.expiresAt && 
     new Date(apiKey.expiresAt).getTime() - Date.now() < 7 * 24 * 60 * 60 * 1000; // 7 days
@@ -274,53 +284,57 @@ function ApiKeyCard({
           {/* API Key Display */}
           <div className="flex items-center gap-2 p-3 bg-black/20 rounded-lg border border-white/10">
             <code className="flex-1 text-sm text-gray-300 font-mono">
-              {isVisible ? apiKey.key : maskKey(apiKey.key)}
+              {displayKey}
             </code>
             
             <div className="flex items-center gap-2">
-              <motion.button
-                onClick={onToggleVisibility}
-                className="p-2 hover:bg-white/10 rounded-lg transition-colors"
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                title={isVisible ? 'Hide key' : 'Show key'}
-              >
-                {isVisible ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-              </motion.button>
+              {apiKey.key && (
+                <motion.button
+                  onClick={onToggleVisibility}
+                  className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  title={isVisible ? 'Hide key' : 'Show key'}
+                >
+                  {isVisible ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </motion.button>
+              )}
               
-              <motion.button
-                onClick={onCopy}
-                className="p-2 hover:bg-white/10 rounded-lg transition-colors"
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                title="Copy to clipboard"
-              >
-                <AnimatePresence mode="wait">
-                  {isCopied ? (
-                    <motion.div
-                      key="check"
-                      initial={{ scale: 0 }}
-                      animate={{ scale: 1 }}
-                      exit={{ scale: 0 }}
-                    >
-                      <Check className="w-4 h-4 text-green-400" />
-                    </motion.div>
-                  ) : (
-                    <motion.div
-                      key="copy"
-                      initial={{ scale: 0 }}
-                      animate={{ scale: 1 }}
-                      exit={{ scale: 0 }}
-                    >
-                      <Copy className="w-4 h-4" />
-                    </motion.div>
-                  )}
-                </AnimatePresence>
-              </motion.button>
+              {apiKey.key && (
+                <motion.button
+                  onClick={onCopy}
+                  className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  title="Copy to clipboard"
+                >
+                  <AnimatePresence mode="wait">
+                    {isCopied ? (
+                      <motion.div
+                        key="check"
+                        initial={{ scale: 0 }}
+                        animate={{ scale: 1 }}
+                        exit={{ scale: 0 }}
+                      >
+                        <Check className="w-4 h-4 text-green-400" />
+                      </motion.div>
+                    ) : (
+                      <motion.div
+                        key="copy"
+                        initial={{ scale: 0 }}
+                        animate={{ scale: 1 }}
+                        exit={{ scale: 0 }}
+                      >
+                        <Copy className="w-4 h-4" />
+                      </motion.div>
+                    )}
+                  </AnimatePresence>
+                </motion.button>
+              )}
               
               <motion.button
                 onClick={onTest}
-                disabled={isTesting || !apiKey.isActive}
+                disabled={isTesting || !apiKey.isActive || !apiKey.key}
                 className="p-2 hover:bg-white/10 rounded-lg transition-colors disabled:opacity-50"
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
@@ -344,6 +358,14 @@ function ApiKeyCard({
           <div>
             <h4 className="text-sm font-medium text-white mb-2">Permissions</h4>
             <div className="flex flex-wrap gap-2">
+              {apiKey.roles?.map(role => (
+                <span
+                  key={`role:${role}`}
+                  className="px-2 py-1 bg-purple-500/20 border border-purple-500/40 text-purple-300 text-xs rounded-full"
+                >
+                  Role: {role}
+                </span>
+              ))}
               {apiKey.permissions.map(permission => (
                 <span
                   key={permission}
@@ -359,6 +381,7 @@ function ApiKeyCard({
           <div className="flex items-center justify-between pt-2 border-t border-white/10">
             <div className="text-xs text-gray-400">
               ID: {apiKey.id}
+              {apiKey.prefix && <span> • Prefix: {apiKey.prefix}</span>}
             </div>
             
             <button
@@ -420,7 +443,7 @@ interface CreateApiKeyModalProps {
 
 function CreateApiKeyModal({ onClose, onCreate, permissions }: CreateApiKeyModalProps) {
   const [name, setName] = useState('');
-  const [selectedPermissions, setSelectedPermissions] = useState<string[]>(['read:metrics']);
+  const [selectedPermissions, setSelectedPermissions] = useState<string[]>(['metrics:read']);
   const [isCreating, setIsCreating] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
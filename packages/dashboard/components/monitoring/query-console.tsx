@@ -0,0 +1,217 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Terminal, Play, Download, AlertCircle, Loader2 } from 'lucide-react';
+import { GlassCard } from '@/components/ui/glass-card';
+import { ApiClient } from '@/lib/api-client';
+import { exportToCsv } from '@/lib/utils';
+import { QueryResult } from '@/types/monitoring';
+
+interface QueryConsoleProps {
+  apiClient: ApiClient;
+  className?: string;
+}
+
+const timeRanges = [
+  { value: '15m', label: 'Last 15 minutes', ms: 15 * 60 * 1000 },
+  { value: '1h', label: 'Last hour', ms: 60 * 60 * 1000 },
+  { value: '6h', label: 'Last 6 hours', ms: 6 * 60 * 60 * 1000 },
+  { value: '24h', label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  { value: '7d', label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+const examples = [
+  'events where level in (high,critical) | count() by source, bucket(5m)',
+  'events where metadata.route = "/checkout" | p95(metadata.duration), count() by source',
+  'metrics where name = "response_time" | avg(value), p99(value) by dimensions.endpoint | sort p99_value desc | limit 10',
+  'events where message contains "timeout" | limit 50',
+];
+
+// Rows rendered in the table; the full result is still available through CSV export
+const MAX_DISPLAY_ROWS = 200;
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? value.toString() : value.toFixed(2);
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function QueryConsole({ apiClient, className = "" }: QueryConsoleProps) {
+  const [query, setQuery] = useState(examples[0]);
+  const [timeRange, setTimeRange] = useState('1h');
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<QueryResult | null>(null);
+
+  const runQuery = async () => {
+    if (!query.trim() || running) return;
+
+    const range = timeRanges.find(r => r.value === timeRange) ?? timeRanges[1];
+    setRunning(true);
+    setError(null);
+
+    const response = await apiClient.runQuery(query, {
+      startTime: new Date(Date.now() - range.ms).toISOString(),
+      endTime: new Date().toISOString(),
+    });
+
+    if (response.success && response.data) {
+      setResult(response.data);
+    } else {
+      setResult(null);
+      setError(response.error || 'Query failed');
+    }
+    setRunning(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Ctrl/Cmd+Enter runs the query, like most SQL consoles
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      runQuery();
+    }
+  };
+
+  const handleExport = () => {
+    if (!result) return;
+    exportToCsv(
+      result.rows.map(row => Object.fromEntries(result.columns.map(column => [column, formatCell(row[column])]))),
+      `query-${result.source}-${new Date().toISOString().split('T')[0]}.csv`
+    );
+  };
+
+  return (
+    <GlassCard className={`p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Terminal className="w-6 h-6 text-purple-400" />
+          <h2 className="text-2xl font-semibold text-white">Query Console</h2>
+        </div>
+        <select
+          value={timeRange}
+          onChange={(e) => setTimeRange(e.target.value)}
+          className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          aria-label="Query time range"
+        >
+          {timeRanges.map(range => (
+            <option key={range.value} value={range.value} className="bg-gray-900">
+              {range.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <label htmlFor="query-console-input" className="sr-only">Query</label>
+      <textarea
+        id="query-console-input"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={3}
+        spellCheck={false}
+        className="w-full bg-black/30 border border-white/10 rounded-lg p-3 font-mono text-sm text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500 resize-y"
+        placeholder='events where level = high | count() by source, bucket(5m)'
+      />
+
+      <div className="flex flex-wrap items-center gap-2 mt-3">
+        <button
+          onClick={runQuery}
+          disabled={running || !query.trim()}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium transition-colors"
+        >
+          {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+          Run
+        </button>
+        <span className="text-xs text-gray-500 mr-2">Ctrl+Enter</span>
+        {examples.map(example => (
+          <button
+            key={example}
+            onClick={() => setQuery(example)}
+            className="px-2 py-1 rounded-md bg-white/5 hover:bg-white/10 border border-white/10 text-xs font-mono text-gray-400 truncate max-w-xs transition-colors"
+            title={example}
+          >
+            {example}
+          </button>
+        ))}
+      </div>
+
+      <AnimatePresence mode="wait">
+        {error && (
+          <motion.div
+            key="error"
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+            className="flex items-start gap-2 mt-4 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-300"
+            role="alert"
+          >
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span className="font-mono">{error}</span>
+          </motion.div>
+        )}
+
+        {result && (
+          <motion.div
+            key="result"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+            className="mt-4"
+          >
+            <div className="flex items-center justify-between mb-2 text-xs text-gray-400">
+              <span>
+                {result.rows.length} {result.rows.length === 1 ? 'row' : 'rows'} · {result.executionTimeMs} ms
+                {result.rows.length > MAX_DISPLAY_ROWS && ` · showing first ${MAX_DISPLAY_ROWS}`}
+              </span>
+              <button
+                onClick={handleExport}
+                disabled={result.rows.length === 0}
+                className="flex items-center gap-1 hover:text-white disabled:opacity-50 transition-colors"
+              >
+                <Download className="w-3 h-3" />
+                CSV
+              </button>
+            </div>
+
+            {result.rows.length === 0 ? (
+              <p className="py-6 text-center text-gray-500 text-sm">No rows matched</p>
+            ) : (
+              <div className="overflow-auto max-h-96 rounded-lg border border-white/10">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-gray-900/95">
+                    <tr>
+                      {result.columns.map(column => (
+                        <th key={column} className="px-3 py-2 text-left font-medium text-gray-300 whitespace-nowrap">
+                          {column}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.rows.slice(0, MAX_DISPLAY_ROWS).map((row, index) => (
+                      <tr key={index} className="border-t border-white/5 hover:bg-white/5">
+                        {result.columns.map(column => (
+                          <td
+                            key={column}
+                            className={`px-3 py-1.5 text-gray-200 font-mono text-xs max-w-md truncate ${typeof row[column] === 'number' ? 'text-right' : ''}`}
+                            title={formatCell(row[column])}
+                          >
+                            {formatCell(row[column])}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </GlassCard>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Rocket, AlertTriangle, CheckCircle, Loader2 } from 'lucide-react';
+import { GlassCard } from '@/components/ui/glass-card';
+import { TimeSeriesChart, ChartMarker } from '@/components/monitoring/timeseries-chart';
+import { ApiClient } from '@/lib/api-client';
+import { formatTimeAgo } from '@/lib/utils';
+import { Deploy, Release, ReleaseHealth, TimeSeriesPoint } from '@/types/monitoring';
+
+interface ReleasesPanelProps {
+  apiClient: ApiClient;
+  className?: string;
+}
+
+const timeRanges = [
+  { value: '24h', label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000, bucket: '1h' },
+  { value: '7d', label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000, bucket: '6h' },
+  { value: '30d', label: 'Last 30 days', ms: 30 * 24 * 60 * 60 * 1000, bucket: '1d' },
+];
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(rate < 0.01 ? 2 : 1)}%`;
+}
+
+function formatLatency(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value)}ms`;
+}
+
+export function ReleasesPanel({ apiClient, className = "" }: ReleasesPanelProps) {
+  const [timeRange, setTimeRange] = useState('24h');
+  const [chartWindow, setChartWindow] = useState(() => ({ startTime: new Date(Date.now() - timeRanges[0].ms).toISOString(), endTime: new Date().toISOString() }));
+  const [errors, setErrors] = useState<TimeSeriesPoint[]>([]);
+  const [deploys, setDeploys] = useState<Deploy[]>([]);
+  const [releases, setReleases] = useState<Release[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [health, setHealth] = useState<ReleaseHealth | null>(null);
+  const [loadingHealth, setLoadingHealth] = useState(false);
+
+  // Error counts and the deploys in the same window, so spikes can be read against deploys
+  useEffect(() => {
+    const range = timeRanges.find(r => r.value === timeRange) ?? timeRanges[0];
+    const endTime = new Date().toISOString();
+    const startTime = new Date(Date.now() - range.ms).toISOString();
+    setChartWindow({ startTime, endTime });
+
+    const load = async () => {
+      const [series, deployList, releaseList] = await Promise.all([
+        apiClient.runQuery(`events where type = error | count() as errors by bucket(${range.bucket})`, { startTime, endTime }),
+        apiClient.getDeploys({ startTime, endTime }),
+        apiClient.getReleases(10),
+      ]);
+
+      setErrors(series.success && series.data
+        ? series.data.rows.map(row => ({ timestamp: String(row.bucket), value: Number(row.errors) || 0 }))
+        : []);
+      setDeploys(deployList.data?.deploys ?? []);
+
+      const list = releaseList.data?.releases ?? [];
+      setReleases(list);
+      setSelected(current => current ?? list[0]?.version ?? null);
+    };
+
+    load();
+  }, [apiClient, timeRange]);
+
+  useEffect(() => {
+    if (!selected) return;
+
+    setLoadingHealth(true);
+    apiClient.getReleaseHealth(selected).then(response => {
+      setHealth(response.success && response.data ? response.data : null);
+      setLoadingHealth(false);
+    });
+  }, [apiClient, selected]);
+
+  const markers: ChartMarker[] = deploys.map(deploy => ({
+    timestamp: deploy.deployedAt,
+    label: deploy.environment === 'production' ? deploy.version : `${deploy.version} (${deploy.environment})`,
+    highlight: health?.version === deploy.version && health.regressed,
+  }));
+
+  return (
+    <GlassCard className={`p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Rocket className="w-6 h-6 text-amber-300" />
+          <h2 className="text-2xl font-semibold text-white">Releases</h2>
+        </div>
+        <select
+          value={timeRange}
+          onChange={(e) => setTimeRange(e.target.value)}
+          className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-amber-400"
+          aria-label="Release time range"
+        >
+          {timeRanges.map(range => (
+            <option key={range.value} value={range.value} className="bg-gray-900">
+              {range.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-gray-400 mb-2">Errors, with deploys marked</p>
+      <TimeSeriesChart
+        points={errors}
+        markers={markers}
+        startTime={chartWindow.startTime}
+        endTime={chartWindow.endTime}
+        label="Errors over time"
+        className="pt-4"
+      />
+
+      {releases.length === 0 ? (
+        <p className="py-6 text-center text-gray-500 text-sm">
+          No releases yet. Record deploys with POST /api/v1/releases, or set `release` in the SDK.
+        </p>
+      ) : (
+        <div className="grid md:grid-cols-3 gap-4 mt-6">
+          <ul className="space-y-1" aria-label="Recent releases">
+            {releases.map(release => (
+              <li key={release.id}>
+                <button
+                  onClick={() => setSelected(release.version)}
+                  aria-pressed={selected === release.version}
+                  className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+                    selected === release.version
+                      ? 'bg-white/10 border-amber-400/50'
+                      : 'bg-white/5 border-white/10 hover:bg-white/10'
+                  }`}
+                >
+                  <div className="font-mono text-sm text-white truncate">{release.version}</div>
+                  <div className="text-xs text-gray-400">
+                    {release.lastDeployedAt ? `Deployed ${formatTimeAgo(release.lastDeployedAt)}` : 'Not deployed'}
+                    {release.environments.length > 0 && ` · ${release.environments.join(', ')}`}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="md:col-span-2">
+            {loadingHealth ? (
+              <div className="flex items-center justify-center h-full text-gray-400">
+                <Loader2 className="w-5 h-5 animate-spin" />
+              </div>
+            ) : health ? (
+              <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-4">
+                <div className={`flex items-center gap-2 text-sm ${health.regressed ? 'text-red-300' : 'text-green-300'}`}>
+                  {health.regressed ? <AlertTriangle className="w-4 h-4" /> : <CheckCircle className="w-4 h-4" />}
+                  {health.regressed
+                    ? `${health.version} regressed${health.previous ? ` against ${health.previous.version}` : ''}`
+                    : `${health.version} is healthy`}
+                </div>
+
+                <dl className="grid grid-cols-3 gap-3 text-sm">
+                  <div className="rounded-lg bg-white/5 p-3">
+                    <dt className="text-xs text-gray-400">Error rate</dt>
+                    <dd className="text-white font-semibold">{formatRate(health.errorRate)}</dd>
+                    {health.previous && <dd className="text-xs text-gray-500">was {formatRate(health.previous.errorRate)}</dd>}
+                  </div>
+                  <div className="rounded-lg bg-white/5 p-3">
+                    <dt className="text-xs text-gray-400">p95 latency</dt>
+                    <dd className="text-white font-semibold">{formatLatency(health.latency.p95)}</dd>
+                    {health.previous && <dd className="text-xs text-gray-500">was {formatLatency(health.previous.latency.p95)}</dd>}
+                  </div>
+                  <div className="rounded-lg bg-white/5 p-3">
+                    <dt className="text-xs text-gray-400">Errors</dt>
+                    <dd className="text-white font-semibold">{health.errors}</dd>
+                    <dd className="text-xs text-gray-500">of {health.events} events</dd>
+                  </div>
+                </dl>
+
+                {health.regressions.length > 0 && (
+                  <ul className="space-y-1 text-sm text-red-300" aria-label="Regressions">
+                    {health.regressions.map(regression => (
+                      <li key={regression.kind}>• {regression.message}</li>
+                    ))}
+                  </ul>
+                )}
+
+                {health.newIssues.length > 0 && (
+                  <div>
+                    <h3 className="text-xs uppercase tracking-wide text-gray-400 mb-2">New in this release</h3>
+                    <ul className="space-y-1">
+                      {health.newIssues.map(issue => (
+                        <li key={issue.fingerprint} className="flex items-center justify-between gap-3 px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/20 text-sm">
+                          <div className="min-w-0">
+                            <div className="text-gray-100 truncate">{issue.title}</div>
+                            {issue.culprit && (
+                              <div className="text-xs text-gray-400 font-mono truncate">
+                                {issue.culprit.function ? `${issue.culprit.function} · ` : ''}{issue.culprit.file}:{issue.culprit.line}
+                              </div>
+                            )}
+                          </div>
+                          <span className="text-xs text-gray-400 whitespace-nowrap">{issue.occurrences}×</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </motion.div>
+            ) : (
+              <p className="text-sm text-gray-500">Health is unavailable for this release.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </GlassCard>
+  );
+}
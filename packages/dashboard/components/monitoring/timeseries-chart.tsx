@@ -0,0 +1,99 @@
+'use client';
+
+import React from 'react';
+import { TimeSeriesPoint } from '@/types/monitoring';
+
+export interface ChartMarker {
+  timestamp: string;
+  label: string;
+  /** Drawn in the regression color when set */
+  highlight?: boolean;
+}
+
+interface TimeSeriesChartProps {
+  points: TimeSeriesPoint[];
+  /** Vertical markers, e.g. deploys, drawn at their timestamps */
+  markers?: ChartMarker[];
+  startTime: string;
+  endTime: string;
+  label: string;
+  height?: number;
+  className?: string;
+}
+
+// Drawing space of the SVG; it is stretched to the container width
+const WIDTH = 600;
+
+export function TimeSeriesChart({
+  points,
+  markers = [],
+  startTime,
+  endTime,
+  label,
+  height = 160,
+  className = ""
+}: TimeSeriesChartProps) {
+  const start = new Date(startTime).getTime();
+  const end = new Date(endTime).getTime();
+  const span = Math.max(end - start, 1);
+  const max = Math.max(1, ...points.map(point => point.value));
+
+  const x = (timestamp: string) => ((new Date(timestamp).getTime() - start) / span) * WIDTH;
+  const y = (value: number) => height - (value / max) * (height - 8);
+
+  const sorted = [...points].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const line = sorted.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.timestamp).toFixed(1)},${y(point.value).toFixed(1)}`).join(' ');
+  const area = sorted.length > 0
+    ? `${line} L${x(sorted[sorted.length - 1].timestamp).toFixed(1)},${height} L${x(sorted[0].timestamp).toFixed(1)},${height} Z`
+    : '';
+  const visibleMarkers = markers.filter(marker => {
+    const time = new Date(marker.timestamp).getTime();
+    return time >= start && time <= end;
+  });
+
+  return (
+    <div
+      className={`relative ${className}`}
+      role="img"
+      aria-label={`${label}: ${points.length} points, peak ${max}${visibleMarkers.length > 0 ? `, ${visibleMarkers.length} deploys` : ''}`}
+    >
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} preserveAspectRatio="none" className="w-full" style={{ height }} aria-hidden="true">
+        <line x1={0} y1={height} x2={WIDTH} y2={height} className="stroke-white/10" />
+        {area && <path d={area} className="fill-purple-500/20" />}
+        {line && <path d={line} className="stroke-purple-400 fill-none" strokeWidth={2} vectorEffect="non-scaling-stroke" />}
+        {visibleMarkers.map(marker => (
+          <line
+            key={`${marker.timestamp}-${marker.label}`}
+            x1={x(marker.timestamp)}
+            y1={0}
+            x2={x(marker.timestamp)}
+            y2={height}
+            className={marker.highlight ? 'stroke-red-400' : 'stroke-amber-300'}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+          >
+            <title>{marker.label}</title>
+          </line>
+        ))}
+      </svg>
+
+      {/* Labels sit outside the SVG so the stretched viewBox does not distort the text */}
+      {visibleMarkers.map(marker => (
+        <span
+          key={`label-${marker.timestamp}-${marker.label}`}
+          className={`absolute top-0 -translate-x-1/2 px-1 rounded text-[10px] font-mono whitespace-nowrap bg-gray-900/80 ${
+            marker.highlight ? 'text-red-300' : 'text-amber-200'
+          }`}
+          style={{ left: `${(x(marker.timestamp) / WIDTH) * 100}%` }}
+          aria-hidden="true"
+        >
+          {marker.label}
+        </span>
+      ))}
+
+      {points.length === 0 && (
+        <p className="absolute inset-0 flex items-center justify-center text-sm text-gray-500">No data in range</p>
+      )}
+    </div>
+  );
+}
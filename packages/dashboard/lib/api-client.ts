@@ -6,6 +6,11 @@ import {
   MetricsResponse, 
   AlertsResponse, 
   EventsResponse,
+  QueryResponse,
+  QueryResult,
+  Release,
+  Deploy,
+  ReleaseHealth,
   DashboardConfig,
   DataSourceConfig
 } from '@/types/monitoring';
@@ -42,7 +47,9 @@ export class ApiClient {
       });
 
       if (!response.ok) {
-        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+        // Prefer the server's explanation (e.g. a query syntax error) over the status text
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.message || `API request failed: ${response.status} ${response.statusText}`);
       }
 
       const data = await response.json();
@@ -106,6 +113,36 @@ export class ApiClient {
     });
   }
 
+  async runQuery(query: string, params?: {
+    startTime?: string;
+    endTime?: string;
+  }): Promise<QueryResponse> {
+    return this.request<QueryResult>('/api/v1/query', {
+      method: 'POST',
+      body: JSON.stringify({ query, ...params }),
+    });
+  }
+
+  async getReleases(limit = 20): Promise<ApiResponse<{ releases: Release[] }>> {
+    return this.request(`/api/v1/releases?limit=${limit}`);
+  }
+
+  async getReleaseHealth(version: string): Promise<ApiResponse<ReleaseHealth>> {
+    return this.request(`/api/v1/releases/${encodeURIComponent(version)}/health`);
+  }
+
+  async getDeploys(params: {
+    startTime: string;
+    endTime: string;
+    environment?: string;
+  }): Promise<ApiResponse<{ deploys: Deploy[] }>> {
+    const searchParams = new URLSearchParams({ startTime: params.startTime, endTime: params.endTime });
+    if (params.environment) {
+      searchParams.append('environment', params.environment);
+    }
+    return this.request(`/api/v1/releases/deploys?${searchParams.toString()}`);
+  }
+
   async testConnection(): Promise<ApiResponse<{ status: string }>> {
     return this.request('/health');
   }
@@ -68,6 +68,70 @@ export interface MetricsResponse extends ApiResponse<SystemMetrics> {}
 export interface AlertsResponse extends ApiResponse<{ alerts: Alert[] }> {}
 export interface EventsResponse extends ApiResponse<{ events: Event[] }> {}
 
+// Result of POST /api/v1/query
+export interface QueryResult {
+  source: 'events' | 'metrics';
+  aggregated: boolean;
+  columns: string[];
+  rows: Array<Record<string, unknown>>;
+  executionTimeMs: number;
+}
+
+export interface QueryResponse extends ApiResponse<QueryResult> {}
+
+// Releases and deploys recorded through /api/v1/releases
+export interface Release {
+  id: string;
+  version: string;
+  commitSha: string | null;
+  createdAt: string;
+  firstDeployedAt: string | null;
+  lastDeployedAt: string | null;
+  environments: string[];
+}
+
+export interface Deploy {
+  id: string;
+  version: string;
+  environment: string;
+  url: string | null;
+  deployedAt: string;
+}
+
+export interface ReleaseStats {
+  version: string;
+  events: number;
+  errors: number;
+  errorRate: number;
+  latency: {
+    p50: number | null;
+    p95: number | null;
+    samples: number;
+  };
+}
+
+export interface ReleaseHealth extends ReleaseStats {
+  previous: ReleaseStats | null;
+  newIssues: Array<{
+    fingerprint: string;
+    title: string;
+    source: string;
+    culprit: { function?: string; file: string; line: number; column: number } | null;
+    firstSeen: string;
+    occurrences: number;
+  }>;
+  regressions: Array<{
+    kind: 'error_rate' | 'latency' | 'new_issues';
+    message: string;
+  }>;
+  regressed: boolean;
+}
+
+export interface TimeSeriesPoint {
+  timestamp: string;
+  value: number;
+}
+
 // Configuration types
 export interface DashboardConfig {
   apiUrl: string;
@@ -8,6 +8,14 @@
 import { EventEmitter } from 'events';
 import similarity from 'similarity';
 import { kmeans } from 'ml-kmeans';
+import {
+  MonitoringApiConfig,
+  parseStackTrace,
+  isBundleLocation,
+  normalizeSourcePath,
+  symbolicateError,
+  withOriginalLocation
+} from '../symbolication/stacks';
 
 export interface ErrorClusteringConfig {
   /** Minimum similarity threshold (0-1) */
@@ -26,6 +34,8 @@ export interface ErrorClusteringConfig {
   onlineLearning?: boolean;
   /** Similarity weight configuration */
   similarityWeights?: SimilarityWeights;
+  /** Monitoring server whose source maps symbolicate minified stacks before clustering */
+  monitoringApi?: MonitoringApiConfig;
 }
 
 export type ClusteringAlgorithm = 'kmeans' | 'dbscan' | 'hierarchical' | 'adaptive';
@@ -73,6 +83,8 @@ export interface ErrorData {
   context?: Record<string, any>;
   /** Error severity */
   severity?: 'low' | 'medium' | 'high' | 'critical';
+  /** Release the error was reported from, used to find its source maps */
+  release?: string;
 }
 
 export interface ErrorCluster {
@@ -160,7 +172,7 @@ export interface SimilarityScore {
 }
 
 export class ErrorClustering extends EventEmitter {
-  private config: Required<ErrorClusteringConfig>;
+  private config: Required<Omit<ErrorClusteringConfig, 'monitoringApi'>> & Pick<ErrorClusteringConfig, 'monitoringApi'>;
   private clusters: Map<string, ErrorCluster> = new Map();
   private errorIndex: Map<string, string> = new Map(); // errorId -> clusterId
   private featureCache: Map<string, ClusterFeatures> = new Map();
@@ -205,6 +217,12 @@ export class ErrorClustering extends EventEmitter {
    */
   async addError(error: ErrorData): Promise<ErrorCluster> {
     const startTime = Date.now();
+
+    // Cluster on original files and lines rather than bundle offsets, which change per build
+    if (this.config.monitoringApi) {
+      error = await symbolicateError(this.config.monitoringApi, error);
+    }
+    error = withOriginalLocation(error);
     
     // Extract features from error
     const features = await this.extractFeatures(error);
@@ -568,31 +586,33 @@ export class ErrorClustering extends EventEmitter {
     const lines = stackTrace.split('\n');
     const features: number[] = [];
 
-    // Extract function names, file patterns
-    const functionPattern = /at\s+([^\s]+)/g;
-    const filePattern = /\(([^:]+):/g;
-
-    // Function signature features
-    const functions = Array.from(stackTrace.matchAll(functionPattern))
-      .map(match => match[1])
-      .slice(0, 10); // Top 10 functions
-
-    // File pattern features
-    const files = Array.from(stackTrace.matchAll(filePattern))
-      .map(match => match[1])
-      .slice(0, 10);
+    const frames = parseStackTrace(stackTrace);
+    const functions = frames.filter(frame => frame.function).slice(0, 10); // Top 10 functions
+    const files = new Set(frames.map(frame => frame.file));
+    const appFrames = frames.filter(frame => frame.inApp);
 
     // Create binary features for common patterns
     features.push(
       functions.length,
-      files.length,
+      files.size,
       lines.length,
       stackTrace.includes('node_modules') ? 1 : 0,
       stackTrace.includes('webpack') ? 1 : 0,
       stackTrace.includes('async') ? 1 : 0,
-      stackTrace.includes('Promise') ? 1 : 0
+      stackTrace.includes('Promise') ? 1 : 0,
+      appFrames.length,
+      frames.filter(frame => isBundleLocation(frame.file)).length
     );
 
+    // Hashed buckets of the top in-app frames, so errors thrown from the same original
+    // code share features regardless of which build reported them
+    const buckets = new Array(32).fill(0);
+    appFrames.slice(0, 5).forEach((frame, index) => {
+      const key = `${normalizeSourcePath(frame.file)}:${frame.function || ''}`;
+      buckets[this.hashString(key) % buckets.length] += 1 / (index + 1);
+    });
+    features.push(...buckets);
+
     // Pad to fixed length
     while (features.length < 50) {
       features.push(0);
@@ -1241,6 +1261,14 @@ export class ErrorClustering extends EventEmitter {
   private generateClusterId(): string {
     return `cluster_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
+
+  private hashString(value: string): number {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+      hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+    }
+    return hash;
+  }
 }
 
 export default ErrorClustering;
\ No newline at end of file
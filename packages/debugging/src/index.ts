@@ -13,6 +13,7 @@ import type { CorrelationResult } from './correlation/logs';
 import type { CodeInsight } from './insights/code';
 import type { PerformanceProfile } from './profiling/performance';
 import type { TimelineData } from './timeline/visualizer';
+import type { MonitoringApiConfig } from './symbolication/stacks';
 
 // Import classes for implementation
 import { DistributedTracing } from './tracing/distributed';
@@ -30,6 +31,16 @@ export { ErrorClustering } from './clustering/errors';
 export { CodeInsights } from './insights/code';
 export { PerformanceProfiler } from './profiling/performance';
 
+// Stack trace symbolication
+export {
+  parseStackTrace,
+  normalizeSourcePath,
+  isBundleLocation,
+  getOriginalLocation,
+  withOriginalLocation,
+  symbolicateError
+} from './symbolication/stacks';
+
 // Timeline visualization
 export { 
   TimelineVisualizer,
@@ -82,9 +93,18 @@ export type {
   BlameInfo,
   FileChangeInfo,
   CodeInsight,
-  CodeHotspot
+  CodeHotspot,
+  ReleaseIssue,
+  ReleaseSummary,
+  ReleaseAnalysis
 } from './insights/code';
 
+export type {
+  StackFrame,
+  OriginalLocation,
+  MonitoringApiConfig
+} from './symbolication/stacks';
+
 export type {
   PerformanceProfilerConfig,
   ProfilingSession,
@@ -132,12 +152,16 @@ export interface DebugManagerConfig {
     minSimilarity?: number;
     maxClusters?: number;
     algorithm?: 'kmeans' | 'dbscan' | 'hierarchical' | 'adaptive';
+    /** Monitoring server used to symbolicate minified stacks */
+    monitoringApi?: MonitoringApiConfig;
   };
   /** Code insights configuration */
   codeInsights?: {
     enabled?: boolean;
     gitRepository?: string;
     includeBlame?: boolean;
+    /** Monitoring server used to symbolicate minified stacks */
+    monitoringApi?: MonitoringApiConfig;
   };
   /** Performance profiling configuration */
   profiling?: {
@@ -267,14 +291,16 @@ export class DebugManager {
       this.errorClustering = new ErrorClustering({
         minSimilarity: this.config.errorClustering.minSimilarity,
         maxClusters: this.config.errorClustering.maxClusters,
-        algorithm: this.config.errorClustering.algorithm
+        algorithm: this.config.errorClustering.algorithm,
+        monitoringApi: this.config.errorClustering.monitoringApi
       });
     }
 
     if (this.config.codeInsights.enabled && this.config.codeInsights.gitRepository) {
       this.codeInsights = new CodeInsights({
         gitRepository: this.config.codeInsights.gitRepository,
-        includeBlame: this.config.codeInsights.includeBlame
+        includeBlame: this.config.codeInsights.includeBlame,
+        monitoringApi: this.config.codeInsights.monitoringApi
       });
     }
 
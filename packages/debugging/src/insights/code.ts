@@ -8,6 +8,13 @@
 import { EventEmitter } from 'events';
 import { simpleGit, SimpleGit } from 'simple-git';
 import { ErrorData } from '../clustering/errors';
+import {
+  MonitoringApiConfig,
+  isBundleLocation,
+  normalizeSourcePath,
+  symbolicateError,
+  withOriginalLocation
+} from '../symbolication/stacks';
 
 export interface CodeInsightsConfig {
   /** Git repository path */
@@ -26,6 +33,8 @@ export interface CodeInsightsConfig {
   fileExtensions?: string[];
   /** Directories to exclude */
   excludeDirectories?: string[];
+  /** Monitoring server whose source maps resolve minified stacks to repository files */
+  monitoringApi?: MonitoringApiConfig;
 }
 
 export interface CommitInfo {
@@ -147,6 +156,49 @@ export interface CodeHotspot {
   }>;
 }
 
+export interface ReleaseIssue {
+  /** Issue title, usually the error message */
+  title: string;
+  /** Top in-app frame of the issue, resolved to a source path */
+  culprit: {
+    file: string;
+    line: number;
+    function?: string;
+  } | null;
+  /** Times the issue occurred */
+  occurrences?: number;
+}
+
+export interface ReleaseSummary {
+  /** Release version */
+  version: string;
+  /** Hashes of the commits shipped in the release */
+  commits: string[];
+  /** Issues first seen in the release */
+  newIssues?: ReleaseIssue[];
+  /** Whether the monitoring server flagged the release as a regression */
+  regressed?: boolean;
+}
+
+export interface ReleaseAnalysis {
+  /** Release version */
+  version: string;
+  /** Whether the release regressed */
+  regressed: boolean;
+  /** Commits of the release, most suspect first */
+  suspectCommits: Array<{
+    commit: CommitInfo;
+    /** Commit risk score (0-1) */
+    riskScore: number;
+    /** Titles of new issues whose culprit file the commit changed */
+    matchedIssues: string[];
+    /** Combined suspicion score (0-1) */
+    score: number;
+  }>;
+  /** Commits that could not be found in the repository */
+  missingCommits: string[];
+}
+
 interface CacheEntry {
   /** Cache key */
   key: string;
@@ -159,7 +211,7 @@ interface CacheEntry {
 }
 
 export class CodeInsights extends EventEmitter {
-  private config: Required<CodeInsightsConfig>;
+  private config: Required<Omit<CodeInsightsConfig, 'monitoringApi'>> & Pick<CodeInsightsConfig, 'monitoringApi'>;
   private git: SimpleGit;
   private cache: Map<string, CacheEntry> = new Map();
   private hotspots: Map<string, CodeHotspot> = new Map();
@@ -195,8 +247,13 @@ export class CodeInsights extends EventEmitter {
       }
     }
 
+    // Git history only knows original files, so resolve bundle locations first
+    const located = withOriginalLocation(
+      this.config.monitoringApi ? await symbolicateError(this.config.monitoringApi, error) : error
+    );
+
     // Perform analysis
-    const insight = await this.analyzeError(error);
+    const insight = await this.analyzeError(located);
     insight.metadata.analysisDuration = Date.now() - startTime;
 
     // Cache result
@@ -205,7 +262,7 @@ export class CodeInsights extends EventEmitter {
     }
 
     // Update hotspots
-    await this.updateHotspots(error, insight);
+    await this.updateHotspots(located, insight);
 
     this.emit('insightGenerated', insight);
     
@@ -299,10 +356,56 @@ export class CodeInsights extends EventEmitter {
     };
   }
 
+  /**
+   * Rank a release's commits by how likely they caused its regressions. A version string is
+   * looked up on the monitoring server, which requires monitoringApi.
+   */
+  async analyzeRelease(release: string | ReleaseSummary): Promise<ReleaseAnalysis> {
+    const summary = typeof release === 'string' ? await this.fetchRelease(release) : release;
+    const issues = (summary.newIssues ?? []).filter(issue => issue.culprit && !isBundleLocation(issue.culprit.file));
+
+    const suspectCommits: ReleaseAnalysis['suspectCommits'] = [];
+    const missingCommits: string[] = [];
+
+    for (const hash of summary.commits) {
+      const commit = await this.getCommitInfo(hash);
+      if (!commit) {
+        missingCommits.push(hash);
+        continue;
+      }
+
+      const riskScore = await this.calculateCommitRisk(commit);
+      const files = commit.files.map(normalizeSourcePath);
+      const matchedIssues = issues
+        .filter(issue => {
+          const file = normalizeSourcePath(issue.culprit!.file);
+          return files.some(changed => changed === file || file.endsWith(`/${changed}`) || changed.endsWith(`/${file}`));
+        })
+        .map(issue => issue.title);
+
+      // A commit that touched the file a new issue is thrown from outweighs size and message heuristics
+      const score = Math.min(1, riskScore * 0.4 + (matchedIssues.length > 0 ? 0.6 : 0));
+      suspectCommits.push({ commit, riskScore, matchedIssues, score });
+    }
+
+    suspectCommits.sort((a, b) => b.score - a.score);
+
+    return {
+      version: summary.version,
+      regressed: summary.regressed ?? issues.length > 0,
+      suspectCommits,
+      missingCommits
+    };
+  }
+
   /**
    * Get blame information for a file and line
    */
   async getBlameInfo(file: string, line: number): Promise<BlameInfo | null> {
+    // A bundle URL has no history to blame
+    if (isBundleLocation(file)) return null;
+    file = normalizeSourcePath(file);
+
     try {
       const blame = await this.git.raw(['blame', '-L', `${line},${line}`, file]);
       const blameMatch = blame.match(/^(\w+)\s+.*?\((.*?)\s+(\d{4}-\d{2}-\d{2}.*?)\)\s+(.*)$/);
@@ -451,6 +554,40 @@ export class CodeInsights extends EventEmitter {
     };
   }
 
+  private async fetchRelease(version: string): Promise<ReleaseSummary> {
+    const api = this.config.monitoringApi;
+    if (!api) {
+      throw new Error('monitoringApi is required to look up a release by version');
+    }
+
+    const base = `${api.url.replace(/\/$/, '')}/api/v1/releases/${encodeURIComponent(version)}`;
+    const headers = { 'X-API-Key': api.apiKey };
+    const [releaseResponse, healthResponse] = await Promise.all([
+      fetch(base, { headers }),
+      fetch(`${base}/health`, { headers })
+    ]);
+
+    if (!releaseResponse.ok) {
+      throw new Error(`Release ${version} not found`);
+    }
+
+    const data = await releaseResponse.json() as { version: string; commitSha: string | null; commits: Array<{ hash: string }> };
+    const health = healthResponse.ok
+      ? await healthResponse.json() as { regressed: boolean; newIssues: ReleaseIssue[] }
+      : null;
+
+    const commits = data.commits.map(commit => commit.hash);
+    if (commits.length === 0 && data.commitSha) {
+      commits.push(data.commitSha);
+    }
+
+    return {
+      version: data.version,
+      commits,
+      ...(health ? { newIssues: health.newIssues, regressed: health.regressed } : {})
+    };
+  }
+
   private async getCommitInfo(hash: string): Promise<CommitInfo | null> {
     try {
       const show = await this.git.show([hash, '--stat', '--format=fuller']);
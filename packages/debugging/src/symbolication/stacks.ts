@@ -0,0 +1,157 @@
+/**
+ * Stack Trace Symbolication
+ *
+ * Parses V8 and SpiderMonkey stack traces and maps minified bundle frames back to
+ * original source files through the monitoring server's uploaded source maps.
+ */
+
+import { ErrorData } from '../clustering/errors';
+
+export interface StackFrame {
+  /** Function name, when the frame has one */
+  function?: string;
+  /** File path or URL */
+  file: string;
+  /** Line number (1-based) */
+  line: number;
+  /** Column number (1-based) */
+  column: number;
+  /** False for dependency and runtime frames */
+  inApp: boolean;
+}
+
+export interface OriginalLocation {
+  /** Source path relative to the repository, as far as it can be recovered */
+  filename: string;
+  /** Line number (1-based) */
+  lineno: number;
+  /** Column number (1-based) */
+  colno?: number;
+  /** Function at the location */
+  function?: string;
+}
+
+export interface MonitoringApiConfig {
+  /** Server base URL, e.g. http://localhost:3001 */
+  url: string;
+  /** API key with the sourcemaps:read permission */
+  apiKey: string;
+}
+
+const V8_FRAME = /^\s*at (?:(?:async )?(.+?) \()?(.+?):(\d+):(\d+)\)?\s*$/;
+const GECKO_FRAME = /^\s*(.*?)@(.+?):(\d+):(\d+)\s*$/;
+const NON_APP_FILE = /(^|\/)node_modules\/|^node:|^internal\/|^native$|<anonymous>/;
+
+/**
+ * Parse every frame of a stack trace; lines that are not frames are skipped
+ */
+export function parseStackTrace(stackTrace: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+
+  for (const line of stackTrace.split('\n')) {
+    const match = V8_FRAME.exec(line) ?? GECKO_FRAME.exec(line);
+    if (!match) continue;
+
+    const [, fn, file, lineNumber, column] = match;
+    frames.push({
+      ...(fn ? { function: fn } : {}),
+      file,
+      line: Number(lineNumber),
+      column: Number(column),
+      inApp: !NON_APP_FILE.test(file)
+    });
+  }
+
+  return frames;
+}
+
+/**
+ * Turn a source map or stack trace path into a repository-relative one, e.g.
+ * `webpack://app/./src/cart.ts` becomes `src/cart.ts`
+ */
+export function normalizeSourcePath(file: string): string {
+  return file
+    .replace(/[?#].*$/, '')
+    .replace(/^webpack:\/\/[^/]*\//, '')
+    .replace(/^file:\/\//, '')
+    .replace(/^(\.\/)+/, '');
+}
+
+/**
+ * Whether a location is a served file (a bundle URL) rather than a source path
+ */
+export function isBundleLocation(file: string): boolean {
+  return /^(https?|blob):/.test(file);
+}
+
+/**
+ * Original file and line of an error: the top in-app frame of its stack that is not a
+ * bundle URL, otherwise the reported filename/lineno when those are not a bundle URL.
+ * Stacks that are still minified have no original location.
+ */
+export function getOriginalLocation(error: ErrorData): OriginalLocation | null {
+  if (error.stackTrace) {
+    const frame = parseStackTrace(error.stackTrace)
+      .find(candidate => candidate.inApp && !isBundleLocation(candidate.file));
+
+    if (frame) {
+      return {
+        filename: normalizeSourcePath(frame.file),
+        lineno: frame.line,
+        colno: frame.column,
+        ...(frame.function ? { function: frame.function } : {})
+      };
+    }
+  }
+
+  if (error.filename && error.lineno && !isBundleLocation(error.filename)) {
+    return {
+      filename: normalizeSourcePath(error.filename),
+      lineno: error.lineno,
+      ...(error.colno ? { colno: error.colno } : {})
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Copy of an error whose filename/lineno/colno point at its original location
+ */
+export function withOriginalLocation(error: ErrorData): ErrorData {
+  const location = getOriginalLocation(error);
+  if (!location) return error;
+
+  return {
+    ...error,
+    filename: location.filename,
+    lineno: location.lineno,
+    colno: location.colno
+  };
+}
+
+/**
+ * Symbolicate an error's stack against the source maps uploaded for its release. Errors
+ * without a release or stack, and failed requests, come back unchanged.
+ */
+export async function symbolicateError(api: MonitoringApiConfig, error: ErrorData): Promise<ErrorData> {
+  if (!error.release || !error.stackTrace) return error;
+
+  try {
+    const response = await fetch(`${api.url.replace(/\/$/, '')}/api/v1/sourcemaps/symbolicate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': api.apiKey
+      },
+      body: JSON.stringify({ release: error.release, stack: error.stackTrace })
+    });
+
+    if (!response.ok) return error;
+
+    const result = await response.json() as { stack: string; symbolicated: boolean };
+    return result.symbolicated ? { ...error, stackTrace: result.stack } : error;
+  } catch {
+    return error;
+  }
+}
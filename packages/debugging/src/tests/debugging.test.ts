@@ -12,6 +12,7 @@ import { LogCorrelation } from '../correlation/logs';
 import { ErrorClustering, type ErrorData } from '../clustering/errors';
 import { CodeInsights } from '../insights/code';
 import { PerformanceProfiler } from '../profiling/performance';
+import { parseStackTrace, getOriginalLocation, normalizeSourcePath } from '../symbolication/stacks';
 import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
 
 // Mock external dependencies
@@ -437,6 +438,20 @@ describe('Debugging Package Test Suite', () => {
         expect(mergedCluster.stats.count).toBe(2);
       }
     });
+
+    it('should cluster on original locations instead of bundle offsets', async () => {
+      const error = {
+        ...createErrorData('error1', 'Cart is empty'),
+        stackTrace: 'Error: Cart is empty\n    at checkout (webpack://app/./src/cart.ts:42:7)',
+        filename: 'https://cdn.example.com/main.3f2a.js',
+        lineno: 1
+      };
+
+      const cluster = await clustering.addError(error);
+
+      expect(cluster.errors[0].filename).toBe('src/cart.ts');
+      expect(cluster.errors[0].lineno).toBe(42);
+    });
   });
 
   describe('CodeInsights', () => {
@@ -522,6 +537,43 @@ describe('Debugging Package Test Suite', () => {
       expect(impact.impact.riskScore).toBeGreaterThanOrEqual(0);
     });
 
+    it('should rank release commits that touched a new issue first', async () => {
+      const createCommit = (hash: string, message: string, files: string[]) => ({
+        hash,
+        message,
+        author: { name: 'Test Author', email: 'test@example.com' },
+        date: new Date(),
+        files,
+        stats: { filesChanged: files.length, insertions: 10, deletions: 5 }
+      });
+
+      jest.spyOn(codeInsights as any, 'getCommitInfo')
+        .mockImplementation(async (hash: any) => {
+          if (hash === 'aaa111') return createCommit('aaa111', 'Refactor cart totals', ['src/cart.ts']);
+          if (hash === 'bbb222') return createCommit('bbb222', 'Update checkout copy', ['src/checkout.ts']);
+          return null;
+        });
+
+      const analysis = await codeInsights.analyzeRelease({
+        version: '1.4.0',
+        commits: ['aaa111', 'bbb222', 'ccc333'],
+        newIssues: [{
+          title: 'TypeError: Cannot read properties of undefined',
+          culprit: { file: 'webpack://app/./src/checkout.ts', line: 42 }
+        }]
+      });
+
+      expect(analysis.regressed).toBe(true);
+      expect(analysis.suspectCommits[0].commit.hash).toBe('bbb222');
+      expect(analysis.suspectCommits[0].matchedIssues).toHaveLength(1);
+      expect(analysis.suspectCommits[1].matchedIssues).toHaveLength(0);
+      expect(analysis.missingCommits).toEqual(['ccc333']);
+    });
+
+    it('should require monitoringApi to analyze a release by version', async () => {
+      await expect(codeInsights.analyzeRelease('1.4.0')).rejects.toThrow('monitoringApi');
+    });
+
     it('should get blame information', async () => {
       const blameOutput = 'abc123def test.js (Test Author 2023-01-01 12:00:00) console.log("test");';
       
@@ -539,6 +591,12 @@ describe('Debugging Package Test Suite', () => {
       }
     });
 
+    it('should not blame bundle URLs', async () => {
+      const blame = await codeInsights.getBlameInfo('https://cdn.example.com/main.3f2a.js', 1);
+
+      expect(blame).toBeNull();
+    });
+
     it('should analyze complexity trends', async () => {
       const trends = await codeInsights.analyzeComplexityTrends('test.js', 7);
       
@@ -548,6 +606,47 @@ describe('Debugging Package Test Suite', () => {
     });
   });
 
+  describe('Stack Symbolication', () => {
+    it('should parse V8 and Gecko frames', () => {
+      const frames = parseStackTrace([
+        'TypeError: x is undefined',
+        '    at render (https://cdn.example.com/main.js:1:2345)',
+        '    at async load (/app/node_modules/lib/index.js:10:5)',
+        'submit@https://cdn.example.com/main.js:1:678'
+      ].join('\n'));
+
+      expect(frames).toHaveLength(3);
+      expect(frames[0]).toEqual({
+        function: 'render',
+        file: 'https://cdn.example.com/main.js',
+        line: 1,
+        column: 2345,
+        inApp: true
+      });
+      expect(frames[1].inApp).toBe(false);
+      expect(frames[2].function).toBe('submit');
+    });
+
+    it('should normalize source map paths', () => {
+      expect(normalizeSourcePath('webpack://app/./src/cart.ts')).toBe('src/cart.ts');
+      expect(normalizeSourcePath('./src/cart.ts?v=2')).toBe('src/cart.ts');
+    });
+
+    it('should have no original location for a minified stack', () => {
+      const location = getOriginalLocation({
+        id: 'error1',
+        message: 'x is undefined',
+        type: 'TypeError',
+        timestamp: Date.now(),
+        stackTrace: 'TypeError: x is undefined\n    at a (https://cdn.example.com/main.js:1:2345)',
+        filename: 'https://cdn.example.com/main.js',
+        lineno: 1
+      });
+
+      expect(location).toBeNull();
+    });
+  });
+
   describe('PerformanceProfiler', () => {
     let profiler: PerformanceProfiler;
 
@@ -31,6 +31,13 @@ export interface TracingConfig {
   resourceAttributes?: Record<string, string>;
   /** Enable automatic instrumentation */
   autoInstrumentation?: boolean;
+  /** Monitoring server to load traces its OTLP receiver stored, when not buffered locally */
+  monitoringApi?: {
+    /** Server base URL, e.g. http://localhost:3001 */
+    url: string;
+    /** API key with the traces:read permission */
+    apiKey: string;
+  };
 }
 
 export interface TraceContext {
@@ -99,7 +106,7 @@ export interface TraceJourney {
 export class DistributedTracing extends EventEmitter {
   private sdk?: NodeSDK;
   private tracer: any;
-  private config: Required<TracingConfig>;
+  private config: Required<Omit<TracingConfig, 'monitoringApi'>> & Pick<TracingConfig, 'monitoringApi'>;
   private activeSpans: Map<string, Span> = new Map();
   private spanBuffer: SpanData[] = [];
 
@@ -339,7 +346,9 @@ export class DistributedTracing extends EventEmitter {
       this.getTraceIdFromSpan(span) === traceId
     );
 
-    if (spans.length === 0) return null;
+    if (spans.length === 0) {
+      return this.config.monitoringApi ? this.fetchTraceJourney(traceId) : null;
+    }
 
     // Find root span (no parent)
     const rootSpan = spans.find(span => !span.name.includes('.'));
@@ -416,6 +425,30 @@ export class DistributedTracing extends EventEmitter {
   }
 
   // Private methods
+
+  /**
+   * Load a trace from the monitoring server, which returns the TraceJourney shape
+   */
+  private async fetchTraceJourney(traceId: string): Promise<TraceJourney | null> {
+    const { url, apiKey } = this.config.monitoringApi!;
+
+    try {
+      const response = await fetch(`${url.replace(/\/$/, '')}/api/v1/traces/${traceId}`, {
+        headers: { 'X-API-Key': apiKey }
+      });
+
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Monitoring server responded with ${response.status}`);
+      }
+
+      return await response.json() as TraceJourney;
+    } catch (error) {
+      this.emit('error', error);
+      return null;
+    }
+  }
+
   private createExporter() {
     switch (this.config.exporterType) {
       case 'jaeger':
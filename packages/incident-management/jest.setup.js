@@ -1,4 +1,4 @@
-import '@testing-library/jest-dom';
+require('@testing-library/jest-dom');
 
 // Mock WebSocket for testing
 global.WebSocket = jest.fn().mockImplementation(() => ({
@@ -0,0 +1,30 @@
+import { AutomaticIncidentDetection } from './auto';
+import { IncidentSeverity } from '../types';
+import { createMockLogger, createMockRedis, mockConfig } from '../tests/fixtures';
+
+describe('AutomaticIncidentDetection', () => {
+  const logger = createMockLogger();
+  const detection = new AutomaticIncidentDetection(mockConfig, createMockRedis(), logger);
+
+  test('should reject rule with invalid expression', () => {
+    const rule = {
+      id: 'bad-expression-rule',
+      name: 'Bad Expression Rule',
+      description: 'Rule with a typo in its expression',
+      enabled: true,
+      conditions: {
+        alertPattern: 'error',
+        threshold: 1,
+        timeWindow: 60,
+        severity: IncidentSeverity.P2_HIGH,
+        expression: 'lables.env == "production"',
+      },
+      actions: {
+        createIncident: true,
+      },
+    };
+
+    expect(() => detection.addDetectionRule(rule)).toThrow("unknown alert field 'lables'");
+    expect(detection.getDetectionRules()).not.toContain(rule);
+  });
+});
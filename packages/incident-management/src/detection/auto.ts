@@ -14,6 +14,7 @@ import {
   ValidationError,
   TimelineEvent,
 } from '../types';
+import { compileExpression, CompiledExpression } from '../expressions/language';
 
 export interface DetectionRule {
   id: string;
@@ -25,6 +26,8 @@ export interface DetectionRule {
     threshold: number;
     timeWindow: number; // seconds
     severity: IncidentSeverity;
+    // Extra condition in the shared expression language, e.g. 'labels.env == "production"'
+    expression?: string;
   };
   actions: {
     createIncident: boolean;
@@ -48,6 +51,7 @@ export class AutomaticIncidentDetection extends EventEmitter {
   private logger: Logger;
   private config: IncidentManagementConfig;
   private detectionRules: Map<string, DetectionRule> = new Map();
+  private ruleExpressions: Map<string, CompiledExpression> = new Map();
   private alertBuffer: Map<string, Alert[]> = new Map();
   private correlationEngine: AlertCorrelationEngine;
   private isRunning = false;
@@ -155,7 +159,15 @@ export class AutomaticIncidentDetection extends EventEmitter {
    * Add or update detection rule
    */
   addDetectionRule(rule: DetectionRule): void {
+    // Compile first so an invalid expression leaves the existing rule in place
+    const expression = rule.conditions.expression ? compileExpression(rule.conditions.expression) : undefined;
+
     this.detectionRules.set(rule.id, rule);
+    if (expression) {
+      this.ruleExpressions.set(rule.id, expression);
+    } else {
+      this.ruleExpressions.delete(rule.id);
+    }
     this.logger.info(`Detection rule added/updated: ${rule.name}`);
     this.emit('rule_updated', rule);
   }
@@ -165,6 +177,7 @@ export class AutomaticIncidentDetection extends EventEmitter {
    */
   removeDetectionRule(ruleId: string): void {
     this.detectionRules.delete(ruleId);
+    this.ruleExpressions.delete(ruleId);
     this.logger.info(`Detection rule removed: ${ruleId}`);
     this.emit('rule_removed', ruleId);
   }
@@ -276,6 +289,12 @@ export class AutomaticIncidentDetection extends EventEmitter {
       return false;
     }
 
+    // Match expression
+    const expression = this.ruleExpressions.get(rule.id);
+    if (expression && !expression.evaluate({ alert })) {
+      return false;
+    }
+
     return true;
   }
 
@@ -0,0 +1,63 @@
+import { compileExpression } from './language';
+import { IncidentSeverity } from '../types';
+import { createMockAlert, createMockIncident } from '../tests/fixtures';
+
+describe('Expressions', () => {
+  const alert = () => createMockAlert({
+    title: 'API timeout',
+    severity: IncidentSeverity.P1_CRITICAL,
+    labels: { service: 'api', env: 'production' },
+  });
+
+  test('should evaluate comparisons, regex and membership over alert fields', () => {
+    const expression = compileExpression(
+      'severity == "P1_CRITICAL" and title =~ "timeout|down" and labels.service in ["api", "gateway"]'
+    );
+
+    expect(expression.evaluate({ alert: alert() })).toBe(true);
+    expect(expression.evaluate({ alert: { ...alert(), labels: { service: 'worker' } } })).toBe(false);
+  });
+
+  test('should evaluate incident metadata paths and time functions', () => {
+    const now = new Date('2024-01-01T12:00:00Z');
+    const incident = createMockIncident({
+      createdAt: new Date('2024-01-01T11:40:00Z'),
+      metadata: { region: 'eu-west-1' },
+      tags: ['database'],
+    });
+    const expression = compileExpression(
+      'incident.metadata.region == "eu-west-1" and "database" in incident.tags and age(incident.createdAt) > 15m and hour() == 12'
+    );
+
+    expect(expression.evaluate({ alert: alert(), incident, now })).toBe(true);
+    expect(expression.evaluate({ alert: alert(), now })).toBe(false);
+  });
+
+  test('should reject malformed and ill-typed expressions at parse time', () => {
+    expect(() => compileExpression('severity == "critical"')).toThrow('is not a valid severity');
+    expect(() => compileExpression('timestamp > 5m')).toThrow('cannot order time and number');
+    expect(() => compileExpression('title =~ "("')).toThrow('invalid pattern');
+    expect(() => compileExpression('labels.__proto__ == "x"')).toThrow("'__proto__' is not a field");
+  });
+
+  test('should match patterns in linear time over the whole value', () => {
+    const title = 'a'.repeat(200);
+    const started = Date.now();
+
+    expect(compileExpression('title =~ ".*.*.*.*x"').evaluate({ alert: { ...alert(), title } })).toBe(false);
+    expect(compileExpression('title =~ "(a+)+b"').evaluate({ alert: { ...alert(), title } })).toBe(false);
+    expect(Date.now() - started).toBeLessThan(1000);
+
+    const expression = compileExpression('description =~ "needle"');
+    expect(expression.evaluate({ alert: { ...alert(), description: 'x'.repeat(20000) + 'needle' } })).toBe(true);
+  });
+
+  test('should reject patterns outside RE2 syntax and the length limit', () => {
+    expect(() => compileExpression('title =~ "(a)\\\\1"')).toThrow('invalid pattern');
+    expect(() => compileExpression('title =~ "api(?=-)"')).toThrow('invalid pattern');
+    expect(() => compileExpression(`title =~ "${'a'.repeat(201)}"`)).toThrow('longer than 200 characters');
+
+    expect(compileExpression('title =~ "^(?:api|web)-[a-z]+ (timeout)?"').evaluate({ alert: alert() })).toBe(false);
+    expect(compileExpression('title =~ "(?<service>api) t[(]?imeout"').evaluate({ alert: alert() })).toBe(true);
+  });
+});
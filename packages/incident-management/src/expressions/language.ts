@@ -0,0 +1,661 @@
+import { RE2JS } from 're2js';
+import {
+  Alert,
+  AlertSource,
+  Incident,
+  IncidentSeverity,
+  IncidentStatus,
+  ValidationError,
+} from '../types';
+
+/**
+ * Condition language shared by runbook triggers and detection rules.
+ *
+ *   severity == "P1_CRITICAL" and labels.service in ["api", "gateway"]
+ *   title =~ "timeout|unavailable" and not resolved
+ *   incident.metadata.region == "eu-west-1" or age(incident.createdAt) > 15m
+ *
+ * Expressions are parsed and type-checked once, when the runbook or rule is saved,
+ * and evaluated against a plain alert/incident context. There is no access to
+ * anything outside the documented fields and functions. Patterns use RE2 syntax and
+ * match in linear time, so no pattern or alert text can stall the event loop.
+ */
+
+export type ExpressionType = 'string' | 'number' | 'boolean' | 'time' | 'list' | 'map' | 'null' | 'any';
+
+export interface ExpressionContext {
+  alert?: Alert;
+  incident?: Incident;
+  now?: Date;
+}
+
+export interface CompiledExpression {
+  source: string;
+  evaluate: (context: ExpressionContext) => boolean;
+}
+
+interface FieldSpec {
+  type: ExpressionType;
+  // Allowed literal values for enum-backed fields
+  values?: string[];
+  // Type of the entries of a map field; 'any' allows nested paths
+  entries?: ExpressionType;
+}
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_PATTERN_LENGTH = 200;
+const FORBIDDEN_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+
+const SEVERITIES = Object.values(IncidentSeverity) as string[];
+const SOURCES = Object.values(AlertSource) as string[];
+const STATUSES = Object.values(IncidentStatus) as string[];
+
+const ALERT_FIELDS: Record<string, FieldSpec> = {
+  id: { type: 'string' },
+  source: { type: 'string', values: SOURCES },
+  title: { type: 'string' },
+  description: { type: 'string' },
+  severity: { type: 'string', values: SEVERITIES },
+  timestamp: { type: 'time' },
+  labels: { type: 'map', entries: 'string' },
+  annotations: { type: 'map', entries: 'string' },
+  resolved: { type: 'boolean' },
+};
+
+const INCIDENT_FIELDS: Record<string, FieldSpec> = {
+  id: { type: 'string' },
+  title: { type: 'string' },
+  description: { type: 'string' },
+  status: { type: 'string', values: STATUSES },
+  severity: { type: 'string', values: SEVERITIES },
+  source: { type: 'string', values: SOURCES },
+  affectedComponents: { type: 'list' },
+  assignedTeam: { type: 'string' },
+  assignedUser: { type: 'string' },
+  createdAt: { type: 'time' },
+  updatedAt: { type: 'time' },
+  resolvedAt: { type: 'time' },
+  acknowledgedAt: { type: 'time' },
+  escalatedAt: { type: 'time' },
+  tags: { type: 'list' },
+  metadata: { type: 'map', entries: 'any' },
+};
+
+// Duration literals (30s, 5m, 1h, 2d) evaluate to seconds
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'ident'; value: string; pos: number }
+  | { kind: 'op'; value: string; pos: number }
+  | { kind: 'eof'; pos: number };
+
+type Node =
+  | { kind: 'literal'; type: ExpressionType; value: string | number | boolean | null }
+  | { kind: 'list'; type: 'list'; items: Node[] }
+  | { kind: 'path'; type: ExpressionType; root: 'alert' | 'incident'; segments: string[]; spec: FieldSpec | null }
+  | { kind: 'call'; type: ExpressionType; name: string; args: Node[] }
+  | { kind: 'not'; type: 'boolean'; operand: Node }
+  | { kind: 'logical'; type: 'boolean'; op: 'and' | 'or'; left: Node; right: Node }
+  | { kind: 'compare'; type: 'boolean'; op: string; left: Node; right: Node; regex?: RE2JS }
+  | { kind: 'in'; type: 'boolean'; negated: boolean; left: Node; right: Node };
+
+type Value = string | number | boolean | null | Value[] | { [key: string]: unknown };
+
+interface FunctionSpec {
+  minArgs: number;
+  maxArgs: number;
+  accepts: ExpressionType[];
+  returns: ExpressionType;
+  call: (args: Value[], now: number) => Value;
+}
+
+const FUNCTIONS: Record<string, FunctionSpec> = {
+  now: { minArgs: 0, maxArgs: 0, accepts: [], returns: 'time', call: (_args, now) => now },
+  // Seconds elapsed since a timestamp
+  age: {
+    minArgs: 1,
+    maxArgs: 1,
+    accepts: ['time'],
+    returns: 'number',
+    call: ([time], now) => (typeof time === 'number' ? Math.floor((now - time) / 1000) : null),
+  },
+  // UTC hour (0-23) and weekday (0 = Sunday) of a timestamp, or of now
+  hour: {
+    minArgs: 0,
+    maxArgs: 1,
+    accepts: ['time'],
+    returns: 'number',
+    call: (args, now) => timePart(args, now, date => date.getUTCHours()),
+  },
+  weekday: {
+    minArgs: 0,
+    maxArgs: 1,
+    accepts: ['time'],
+    returns: 'number',
+    call: (args, now) => timePart(args, now, date => date.getUTCDay()),
+  },
+  lower: {
+    minArgs: 1,
+    maxArgs: 1,
+    accepts: ['string'],
+    returns: 'string',
+    call: ([value]) => (typeof value === 'string' ? value.toLowerCase() : null),
+  },
+  upper: {
+    minArgs: 1,
+    maxArgs: 1,
+    accepts: ['string'],
+    returns: 'string',
+    call: ([value]) => (typeof value === 'string' ? value.toUpperCase() : null),
+  },
+  len: {
+    minArgs: 1,
+    maxArgs: 1,
+    accepts: ['string', 'list', 'map'],
+    returns: 'number',
+    call: ([value]) => {
+      if (typeof value === 'string' || Array.isArray(value)) return value.length;
+      if (value && typeof value === 'object') return Object.keys(value).length;
+      return null;
+    },
+  },
+  exists: {
+    minArgs: 1,
+    maxArgs: 1,
+    accepts: ['any'],
+    returns: 'boolean',
+    call: ([value]) => value !== null,
+  },
+};
+
+function timePart(args: Value[], now: number, part: (date: Date) => number): Value {
+  const time = args.length ? args[0] : now;
+  return typeof time === 'number' ? part(new Date(time)) : null;
+}
+
+function fail(source: string, message: string, position: number): never {
+  throw new ValidationError(`Invalid expression "${source}": ${message} at position ${position}`, {
+    expression: source,
+    position,
+  });
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^(\d+(?:\.\d+)?)([smhd](?![A-Za-z0-9_]))?/.exec(source.slice(pos))!;
+      const unit = match[2];
+      const value = Number(match[1]) * (unit ? DURATION_UNITS[unit] : 1);
+      tokens.push({ kind: 'number', value, pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = pos;
+      let value = '';
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\' && pos + 1 < source.length) {
+          pos++;
+          const escaped = source[pos];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+        } else {
+          value += source[pos];
+        }
+        pos++;
+      }
+      if (pos >= source.length) fail(source, 'unterminated string', start);
+      pos++;
+      tokens.push({ kind: 'string', value, pos: start });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(pos))!;
+      tokens.push({ kind: 'ident', value: match[0], pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    const twoChar = source.slice(pos, pos + 2);
+    if (['==', '!=', '<=', '>=', '=~', '!~', '&&', '||'].includes(twoChar)) {
+      tokens.push({ kind: 'op', value: twoChar, pos });
+      pos += 2;
+      continue;
+    }
+
+    if ('<>!()[],.'.includes(char)) {
+      tokens.push({ kind: 'op', value: char, pos });
+      pos++;
+      continue;
+    }
+
+    fail(source, `unexpected character '${char}'`, pos);
+  }
+
+  tokens.push({ kind: 'eof', pos: source.length });
+  return tokens;
+}
+
+const COMPARISON_OPS = ['==', '!=', '<', '<=', '>', '>=', '=~', '!~'];
+const KEYWORDS = new Set(['and', 'or', 'not', 'in', 'true', 'false', 'null']);
+
+class Parser {
+  private index = 0;
+
+  constructor(private source: string, private tokens: Token[]) {}
+
+  parse(): Node {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'eof') {
+      fail(this.source, `unexpected '${this.describe(next)}'`, next.pos);
+    }
+    if (node.type !== 'boolean' && node.type !== 'any') {
+      fail(this.source, `expression must be a condition, got ${node.type}`, 0);
+    }
+    return node;
+  }
+
+  private parseOr(): Node {
+    let left = this.parseAnd();
+    while (this.matchWord('or') || this.matchOp('||')) {
+      const right = this.parseAnd();
+      left = { kind: 'logical', type: 'boolean', op: 'or', left, right };
+    }
+    return left;
+  }
+
+  private parseAnd(): Node {
+    let left = this.parseNot();
+    while (this.matchWord('and') || this.matchOp('&&')) {
+      const right = this.parseNot();
+      left = { kind: 'logical', type: 'boolean', op: 'and', left, right };
+    }
+    return left;
+  }
+
+  private parseNot(): Node {
+    if (this.matchWord('not') || this.matchOp('!')) {
+      return { kind: 'not', type: 'boolean', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Node {
+    const left = this.parseOperand();
+    const token = this.peek();
+
+    if (token.kind === 'op' && COMPARISON_OPS.includes(token.value)) {
+      this.index++;
+      const right = this.parseOperand();
+      return this.checkComparison(token.value, left, right, token.pos);
+    }
+
+    const negated = token.kind === 'ident' && token.value === 'not' && this.peek(1).kind === 'ident'
+      && (this.peek(1) as { value: string }).value === 'in';
+    if (negated) this.index++;
+    if (this.matchWord('in')) {
+      const right = this.parseOperand();
+      return this.checkMembership(negated, left, right, token.pos);
+    }
+
+    return left;
+  }
+
+  private parseOperand(): Node {
+    const token = this.next();
+
+    switch (token.kind) {
+      case 'number':
+        return { kind: 'literal', type: 'number', value: token.value };
+      case 'string':
+        return { kind: 'literal', type: 'string', value: token.value };
+      case 'op':
+        if (token.value === '(') {
+          const inner = this.parseOr();
+          this.expectOp(')');
+          return inner;
+        }
+        if (token.value === '[') {
+          const items: Node[] = [];
+          if (!this.matchOp(']')) {
+            do {
+              const item = this.parseOperand();
+              if (item.kind !== 'literal') {
+                fail(this.source, 'lists may only contain literals', token.pos);
+              }
+              items.push(item);
+            } while (this.matchOp(','));
+            this.expectOp(']');
+          }
+          return { kind: 'list', type: 'list', items };
+        }
+        break;
+      case 'ident':
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', type: 'boolean', value: token.value === 'true' };
+        }
+        if (token.value === 'null') {
+          return { kind: 'literal', type: 'null', value: null };
+        }
+        if (KEYWORDS.has(token.value)) break;
+        if (this.matchOp('(')) {
+          return this.parseCall(token.value, token.pos);
+        }
+        return this.parsePath(token.value, token.pos);
+      case 'eof':
+        fail(this.source, 'unexpected end of expression', token.pos);
+    }
+
+    return fail(this.source, `unexpected '${this.describe(token)}'`, token.pos);
+  }
+
+  private parseCall(name: string, pos: number): Node {
+    const spec = Object.prototype.hasOwnProperty.call(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+    if (!spec) fail(this.source, `unknown function '${name}'`, pos);
+
+    const args: Node[] = [];
+    if (!this.matchOp(')')) {
+      do {
+        args.push(this.parseOperand());
+      } while (this.matchOp(','));
+      this.expectOp(')');
+    }
+
+    if (args.length < spec.minArgs || args.length > spec.maxArgs) {
+      const expected = spec.minArgs === spec.maxArgs ? `${spec.minArgs}` : `${spec.minArgs}-${spec.maxArgs}`;
+      fail(this.source, `${name}() takes ${expected} argument(s), got ${args.length}`, pos);
+    }
+    for (const arg of args) {
+      if (spec.accepts.includes('any') || arg.type === 'any' || spec.accepts.includes(arg.type)) continue;
+      fail(this.source, `${name}() does not accept ${arg.type}`, pos);
+    }
+    if (name === 'exists' && args[0].kind !== 'path') {
+      fail(this.source, 'exists() takes a field path', pos);
+    }
+
+    return { kind: 'call', type: spec.returns, name, args };
+  }
+
+  private parsePath(first: string, pos: number): Node {
+    const segments = [first];
+    while (this.matchOp('.')) {
+      const token = this.next();
+      if (token.kind !== 'ident') fail(this.source, 'expected field name after \'.\'', token.pos);
+      segments.push(token.value);
+    }
+    while (this.matchOp('[')) {
+      // labels["app.kubernetes.io/name"] for keys that are not identifiers
+      const token = this.next();
+      if (token.kind !== 'string') fail(this.source, 'expected string key inside []', token.pos);
+      this.expectOp(']');
+      segments.push(token.value);
+    }
+
+    for (const segment of segments) {
+      if (FORBIDDEN_SEGMENTS.has(segment)) fail(this.source, `'${segment}' is not a field`, pos);
+    }
+
+    // Bare fields (severity, labels.team) refer to the alert
+    const root = segments[0] === 'incident' ? 'incident' : 'alert';
+    const fieldPath = segments[0] === 'alert' || segments[0] === 'incident' ? segments.slice(1) : segments;
+    const fields = root === 'incident' ? INCIDENT_FIELDS : ALERT_FIELDS;
+
+    if (!fieldPath.length) fail(this.source, `'${segments[0]}' needs a field, e.g. ${segments[0]}.severity`, pos);
+
+    const spec = Object.prototype.hasOwnProperty.call(fields, fieldPath[0]) ? fields[fieldPath[0]] : undefined;
+    if (!spec) fail(this.source, `unknown ${root} field '${fieldPath[0]}'`, pos);
+
+    let type = spec.type;
+    if (fieldPath.length > 1) {
+      if (spec.type !== 'map') fail(this.source, `${root}.${fieldPath[0]} has no nested fields`, pos);
+      if (spec.entries !== 'any' && fieldPath.length > 2) {
+        fail(this.source, `${root}.${fieldPath[0]} values have no nested fields`, pos);
+      }
+      type = spec.entries ?? 'any';
+    }
+
+    return { kind: 'path', type, root, segments: fieldPath, spec: fieldPath.length === 1 ? spec : null };
+  }
+
+  private checkComparison(op: string, left: Node, right: Node, pos: number): Node {
+    if (op === '=~' || op === '!~') {
+      if (right.kind !== 'literal' || right.type !== 'string') {
+        fail(this.source, `${op} needs a string literal pattern`, pos);
+      }
+      if (!compatible(left.type, 'string')) fail(this.source, `${op} needs a string on the left, got ${left.type}`, pos);
+      if ((right.value as string).length > MAX_PATTERN_LENGTH) {
+        fail(this.source, `pattern is longer than ${MAX_PATTERN_LENGTH} characters`, pos);
+      }
+      let regex: RE2JS;
+      try {
+        regex = RE2JS.compile(right.value as string, RE2JS.CASE_INSENSITIVE);
+      } catch (error) {
+        return fail(this.source, `invalid pattern: ${(error as Error).message}`, pos);
+      }
+      return { kind: 'compare', type: 'boolean', op, left, right, regex };
+    }
+
+    if (op === '==' || op === '!=') {
+      if (left.type !== 'null' && right.type !== 'null' && !compatible(left.type, right.type)) {
+        fail(this.source, `cannot compare ${left.type} with ${right.type}`, pos);
+      }
+      this.checkEnumLiteral(left, right, pos);
+      this.checkEnumLiteral(right, left, pos);
+      return { kind: 'compare', type: 'boolean', op, left, right };
+    }
+
+    const ordered = ['number', 'string', 'time'];
+    if (!compatible(left.type, right.type) || ![left.type, right.type].some(type => ordered.includes(type) || type === 'any')) {
+      const hint = left.type === 'time' || right.type === 'time' ? ' (use age() to compare a timestamp with a duration)' : '';
+      fail(this.source, `cannot order ${left.type} and ${right.type}${hint}`, pos);
+    }
+    return { kind: 'compare', type: 'boolean', op, left, right };
+  }
+
+  private checkMembership(negated: boolean, left: Node, right: Node, pos: number): Node {
+    if (!['list', 'map', 'string', 'any'].includes(right.type)) {
+      fail(this.source, `'in' needs a list, map or string on the right, got ${right.type}`, pos);
+    }
+    if (right.kind === 'list') {
+      for (const item of right.items) {
+        if (item.type !== 'null' && !compatible(left.type, item.type)) {
+          fail(this.source, `cannot compare ${left.type} with ${item.type}`, pos);
+        }
+        this.checkEnumLiteral(left, item, pos);
+      }
+    }
+    return { kind: 'in', type: 'boolean', negated, left, right };
+  }
+
+  // Catch typos like severity == "critical" before they silently never match
+  private checkEnumLiteral(field: Node, literal: Node, pos: number): void {
+    if (field.kind !== 'path' || !field.spec?.values || literal.kind !== 'literal' || typeof literal.value !== 'string') {
+      return;
+    }
+    if (!field.spec.values.includes(literal.value)) {
+      fail(
+        this.source,
+        `"${literal.value}" is not a valid ${field.segments[0]} (expected one of ${field.spec.values.join(', ')})`,
+        pos
+      );
+    }
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== 'eof') this.index++;
+    return token;
+  }
+
+  private matchOp(value: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'op' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchWord(value: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'ident' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOp(value: string): void {
+    const token = this.peek();
+    if (!this.matchOp(value)) fail(this.source, `expected '${value}'`, token.pos);
+  }
+
+  private describe(token: Token): string {
+    return token.kind === 'eof' ? 'end of expression' : String(token.value);
+  }
+}
+
+function compatible(a: ExpressionType, b: ExpressionType): boolean {
+  return a === b || a === 'any' || b === 'any';
+}
+
+function resolvePath(node: Extract<Node, { kind: 'path' }>, context: ExpressionContext): Value {
+  let current: unknown = node.root === 'incident' ? context.incident : context.alert;
+
+  for (const segment of node.segments) {
+    if (current === null || typeof current !== 'object' || Array.isArray(current)) return null;
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) return null;
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return normalize(current, node.spec?.type === 'time');
+}
+
+// Dates become epoch milliseconds; timestamps deserialized from Redis arrive as strings
+function normalize(value: unknown, isTime: boolean): Value {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.getTime();
+  if (isTime && typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  if (typeof value === 'function') return null;
+  return value as Value;
+}
+
+function evaluateNode(node: Node, context: ExpressionContext, now: number): Value {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'list':
+      return node.items.map(item => evaluateNode(item, context, now));
+    case 'path':
+      return resolvePath(node, context);
+    case 'call':
+      return FUNCTIONS[node.name].call(node.args.map(arg => evaluateNode(arg, context, now)), now);
+    case 'not':
+      return !truthy(evaluateNode(node.operand, context, now));
+    case 'logical':
+      if (node.op === 'and') {
+        return truthy(evaluateNode(node.left, context, now)) && truthy(evaluateNode(node.right, context, now));
+      }
+      return truthy(evaluateNode(node.left, context, now)) || truthy(evaluateNode(node.right, context, now));
+    case 'compare':
+      return compare(node, evaluateNode(node.left, context, now), evaluateNode(node.right, context, now));
+    case 'in': {
+      const found = contains(evaluateNode(node.right, context, now), evaluateNode(node.left, context, now));
+      return node.negated ? !found : found;
+    }
+  }
+}
+
+function compare(node: Extract<Node, { kind: 'compare' }>, left: Value, right: Value): boolean {
+  switch (node.op) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case '=~':
+      return typeof left === 'string' && node.regex!.test(left);
+    case '!~':
+      return typeof left === 'string' && !node.regex!.test(left);
+  }
+
+  // Ordering between mismatched runtime types (e.g. metadata values) never matches
+  const comparable = (typeof left === 'number' && typeof right === 'number')
+    || (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) return false;
+
+  switch (node.op) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    default:
+      return left >= right;
+  }
+}
+
+function contains(collection: Value, item: Value): boolean {
+  if (Array.isArray(collection)) return collection.includes(item);
+  if (typeof collection === 'string') return typeof item === 'string' && collection.includes(item);
+  if (collection && typeof collection === 'object' && typeof item === 'string') {
+    return Object.prototype.hasOwnProperty.call(collection, item);
+  }
+  return false;
+}
+
+function truthy(value: Value): boolean {
+  return value === true;
+}
+
+/**
+ * Parse and type-check an expression. Throws ValidationError (with the offending
+ * position in details) when the expression is malformed or refers to unknown fields.
+ */
+export function compileExpression(source: string): CompiledExpression {
+  if (typeof source !== 'string' || !source.trim()) {
+    throw new ValidationError('Expression must be a non-empty string', { expression: source });
+  }
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ValidationError(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`, { expression: source });
+  }
+
+  const ast = new Parser(source, tokenize(source)).parse();
+
+  return {
+    source,
+    evaluate: (context: ExpressionContext) => {
+      const now = (context.now ?? new Date()).getTime();
+      return truthy(evaluateNode(ast, context, now));
+    },
+  };
+}
+
+/**
+ * Check an expression without keeping the compiled form
+ */
+export function validateExpression(source: string): void {
+  compileExpression(source);
+}
@@ -16,10 +16,19 @@ export type { PostMortemTemplate, PostMortemAnalysis } from './postmortem/genera
 export { RunbookIntegration } from './runbooks/integration';
 export type { 
   RunbookExecution, 
+  RunbookExecutionOptions,
   RunbookStepExecution, 
   RunbookMatch, 
-  AutomationProvider 
+  AutomationProvider,
+  RunbookAuditLog,
+  RunbookAuditOutcome
 } from './runbooks/integration';
+export { CommandSandbox, DEFAULT_RUNBOOK_EXECUTION_CONFIG } from './runbooks/sandbox';
+export type { PreparedCommand, CommandResult, TemplateVariables } from './runbooks/sandbox';
+
+// Expressions
+export { compileExpression, validateExpression } from './expressions/language';
+export type { CompiledExpression, ExpressionContext, ExpressionType } from './expressions/language';
 
 // Status Page
 export { StatusPage, StatusPageAPI } from './status/page';
@@ -53,7 +62,7 @@ import { EventEmitter } from 'events';
 
 import { AutomaticIncidentDetection } from './detection/auto';
 import { PostMortemGenerator } from './postmortem/generator';
-import { RunbookIntegration } from './runbooks/integration';
+import { RunbookIntegration, RunbookAuditLog } from './runbooks/integration';
 import { StatusPageAPI } from './status/page';
 import TimelineReconstructionEngine from './timeline/reconstruction';
 import MTTRTracker from './metrics/mttr';
@@ -66,6 +75,7 @@ export interface IncidentManagementSystemOptions {
   redis: Redis;
   logger: Logger;
   socketIO?: any; // Socket.IO server instance
+  auditTrail?: RunbookAuditLog; // records runbook executions and approvals, e.g. the security AuditTrail
 }
 
 /**
@@ -100,7 +110,7 @@ export class IncidentManagementSystem extends EventEmitter {
     // Initialize components
     this.detection = new AutomaticIncidentDetection(this.config, this.redis, this.logger);
     this.postMortem = new PostMortemGenerator(this.config, this.redis, this.logger);
-    this.runbooks = new RunbookIntegration(this.config, this.redis, this.logger);
+    this.runbooks = new RunbookIntegration(this.config, this.redis, this.logger, options.auditTrail);
     this.statusPage = new StatusPageAPI(this.redis, this.config);
     this.timeline = new TimelineReconstructionEngine(this.config, this.redis, this.logger);
     this.mttr = new MTTRTracker(this.config, this.redis, this.logger);
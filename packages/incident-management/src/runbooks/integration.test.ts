@@ -0,0 +1,119 @@
+import { RunbookIntegration, RunbookAuditLog } from './integration';
+import { Runbook } from '../types';
+import { createMockLogger, createMockRedis, mockConfig } from '../tests/fixtures';
+
+describe('RunbookIntegration', () => {
+  const redis = createMockRedis();
+  const logger = createMockLogger();
+  const auditTrail = { logEntry: jest.fn().mockResolvedValue(undefined) } satisfies RunbookAuditLog;
+  let runbooks: RunbookIntegration;
+
+  const createRunbook = (steps: Runbook['steps']): Runbook => ({
+    id: 'sandbox-runbook',
+    title: 'Sandbox Runbook',
+    description: 'Runbook exercising the command sandbox',
+    category: 'Testing',
+    tags: ['test'],
+    steps,
+    triggers: { alertPatterns: [], conditions: [] },
+    metadata: {
+      estimatedTime: 5,
+      skillLevel: 'beginner',
+      lastTested: new Date(),
+      successRate: 1.0,
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: '1.0',
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (redis.hset as jest.Mock).mockResolvedValue(1);
+    runbooks = new RunbookIntegration(
+      { ...mockConfig, runbooks: { httpBaseUrl: 'http://monitoring.internal' } },
+      redis,
+      logger,
+      auditTrail
+    );
+  });
+
+  test('should reject runbook with invalid trigger condition', async () => {
+    const runbook = {
+      ...createRunbook([{
+        id: 'step-1',
+        title: 'Test Step',
+        description: 'Test step description',
+        order: 1,
+        automatable: false,
+      }]),
+      triggers: { alertPatterns: ['test'], conditions: ['severity is critical'] },
+    };
+
+    await expect(runbooks.saveRunbook(runbook)).rejects.toThrow('Invalid trigger condition 1 in runbook sandbox-runbook');
+  });
+
+  test('should resolve commands without running them in dry-run mode', async () => {
+    await runbooks.saveRunbook(createRunbook([
+      {
+        id: 'check-health',
+        title: 'Check Health',
+        description: 'Query the health endpoint',
+        command: 'http:GET|/api/health/{{incident.id}}',
+        order: 1,
+        automatable: true,
+      },
+      {
+        id: 'wipe-disk',
+        title: 'Wipe Disk',
+        description: 'Not on the allowlist',
+        command: 'bash:rm -rf /',
+        order: 2,
+        automatable: true,
+      },
+    ]));
+
+    const finished = new Promise(resolve => runbooks.once('execution_failed', resolve));
+    const execution = await runbooks.executeRunbook('sandbox-runbook', 'incident-123', 'user-123', true, { dryRun: true });
+    await finished;
+
+    expect(execution.steps[0].status).toBe('completed');
+    expect(execution.steps[0].output).toBe('Would run: GET http://monitoring.internal/api/health/incident-123');
+    expect(execution.steps[1].status).toBe('failed');
+    expect(execution.steps[1].error).toBe('Command not allowlisted: rm');
+    expect(execution.status).toBe('failed');
+    expect(auditTrail.logEntry).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'runbook.step_dry_run',
+      outcome: 'denied',
+      userId: 'user-123',
+    }));
+  });
+
+  test('should hold non-automatable commands for approval and audit rejections', async () => {
+    await runbooks.saveRunbook(createRunbook([{
+      id: 'restart-service',
+      title: 'Restart Service',
+      description: 'Restart the API deployment',
+      command: 'k8s:kubectl rollout restart deployment/api',
+      order: 1,
+      automatable: false,
+    }]));
+
+    const approvalRequired = new Promise(resolve => runbooks.once('approval_required', resolve));
+    const execution = await runbooks.executeRunbook('sandbox-runbook', 'incident-123', 'user-123', true);
+    await approvalRequired;
+
+    expect(execution.steps[0].status).toBe('awaiting_approval');
+
+    const step = await runbooks.rejectStep(execution.id, 'restart-service', 'lead-456', 'Not during peak traffic');
+
+    expect(step.status).toBe('skipped');
+    expect(execution.status).toBe('completed');
+    expect(auditTrail.logEntry).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'runbook.step_rejected',
+      outcome: 'denied',
+      userId: 'lead-456',
+      resource: 'runbook:sandbox-runbook',
+    }));
+  });
+});
@@ -1,7 +1,6 @@
 import { EventEmitter } from 'events';
 import { Logger } from 'winston';
 import Redis from 'ioredis';
-import axios from 'axios';
 import { v4 as uuidv4 } from 'uuid';
 import {
   Alert,
@@ -9,8 +8,12 @@ import {
   Runbook,
   RunbookStep,
   IncidentManagementConfig,
+  PolicyViolationError,
   TimelineEvent,
+  ValidationError,
 } from '../types';
+import { compileExpression, CompiledExpression } from '../expressions/language';
+import { CommandSandbox, PreparedCommand, TemplateVariables } from './sandbox';
 
 export interface RunbookExecution {
   id: string;
@@ -28,13 +31,26 @@ export interface RunbookExecution {
 
 export interface RunbookStepExecution {
   stepId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+  status: 'pending' | 'running' | 'awaiting_approval' | 'completed' | 'failed' | 'skipped';
   startedAt?: Date;
   completedAt?: Date;
   output?: string;
   error?: string;
   manualInput?: any;
   automated: boolean;
+  command?: string; // command as resolved against the allowlist
+  exitCode?: number;
+  durationMs?: number;
+  outputTruncated?: boolean;
+  approvedBy?: string;
+  approvedAt?: Date;
+}
+
+export interface RunbookExecutionOptions {
+  // Resolve and validate every command without running anything
+  dryRun?: boolean;
+  // Extra values for {{name}} placeholders in step commands
+  variables?: TemplateVariables;
 }
 
 export interface RunbookMatch {
@@ -46,28 +62,47 @@ export interface RunbookMatch {
 
 export interface AutomationProvider {
   name: string;
-  executeCommand: (command: string, context: any) => Promise<{ success: boolean; output: string; error?: string }>;
+  prepareCommand: (command: string, variables: TemplateVariables, timeout?: number) => PreparedCommand;
   validateCommand: (command: string) => boolean;
 }
 
+export type RunbookAuditOutcome = 'success' | 'failure' | 'denied' | 'error';
+
+// Where runbook actions are recorded; the AuditTrail from @monitoring-service/security fits
+export interface RunbookAuditLog {
+  logEntry(entry: {
+    userId?: string;
+    action?: string;
+    resource?: string;
+    details?: Record<string, any>;
+    outcome?: string;
+  }): Promise<unknown>;
+}
+
 export class RunbookIntegration extends EventEmitter {
   private redis: Redis;
   private logger: Logger;
   private config: IncidentManagementConfig;
   private runbooks: Map<string, Runbook> = new Map();
+  private conditions: Map<string, CompiledExpression[]> = new Map();
   private executions: Map<string, RunbookExecution> = new Map();
   private automationProviders: Map<string, AutomationProvider> = new Map();
+  private sandbox: CommandSandbox;
+  private auditTrail?: RunbookAuditLog;
   private isInitialized = false;
 
   constructor(
     config: IncidentManagementConfig,
     redis: Redis,
-    logger: Logger
+    logger: Logger,
+    auditTrail?: RunbookAuditLog
   ) {
     super();
     this.config = config;
     this.redis = redis;
     this.logger = logger;
+    this.auditTrail = auditTrail;
+    this.sandbox = new CommandSandbox(config.runbooks);
     
     this.setupAutomationProviders();
   }
@@ -119,13 +154,15 @@ export class RunbookIntegration extends EventEmitter {
     runbookId: string,
     incidentId: string,
     executedBy: string,
-    automaticMode: boolean = false
+    automaticMode: boolean = false,
+    options: RunbookExecutionOptions = {}
   ): Promise<RunbookExecution> {
     const runbook = this.runbooks.get(runbookId);
     if (!runbook) {
       throw new Error(`Runbook not found: ${runbookId}`);
     }
 
+    const dryRun = options.dryRun ?? false;
     const execution: RunbookExecution = {
       id: uuidv4(),
       runbookId,
@@ -140,7 +177,7 @@ export class RunbookIntegration extends EventEmitter {
       })),
       outputs: {},
       errors: [],
-      metadata: { automaticMode },
+      metadata: { automaticMode, dryRun, variables: options.variables ?? {} },
     };
 
     this.executions.set(execution.id, execution);
@@ -156,10 +193,17 @@ export class RunbookIntegration extends EventEmitter {
       metadata: { 
         runbookId: runbook.id,
         executionId: execution.id,
-        automaticMode 
+        automaticMode,
+        dryRun,
       },
     });
 
+    await this.audit('runbook.execution_started', execution, {
+      title: runbook.title,
+      version: runbook.version,
+      automaticMode,
+    });
+
     this.logger.info(`Started runbook execution: ${execution.id} for incident: ${incidentId}`);
     this.emit('execution_started', execution);
 
@@ -237,6 +281,52 @@ export class RunbookIntegration extends EventEmitter {
     }
   }
 
+  /**
+   * Approve a step waiting at the approval gate and run its command
+   */
+  async approveStep(executionId: string, stepId: string, approvedBy: string): Promise<RunbookStepExecution> {
+    const { execution, step, runbookStep } = await this.getAwaitingStep(executionId, stepId);
+
+    step.approvedBy = approvedBy;
+    step.approvedAt = new Date();
+    step.status = 'running';
+
+    await this.audit('runbook.step_approved', execution, { stepId, command: runbookStep.command }, 'success', approvedBy);
+    this.emit('step_approved', { execution, step, runbookStep });
+
+    try {
+      await this.executeAutomatedStep(execution, step, runbookStep);
+    } catch (error) {
+      this.failStep(execution, step, runbookStep, error);
+    }
+
+    this.executions.set(executionId, execution);
+    await this.redis.hset('runbook_executions', executionId, JSON.stringify(execution));
+
+    await this.continueExecution(execution);
+    return step;
+  }
+
+  /**
+   * Reject a step waiting at the approval gate; the step is skipped
+   */
+  async rejectStep(executionId: string, stepId: string, rejectedBy: string, reason?: string): Promise<RunbookStepExecution> {
+    const { execution, step, runbookStep } = await this.getAwaitingStep(executionId, stepId);
+
+    step.status = 'skipped';
+    step.error = `Rejected by ${rejectedBy}${reason ? `: ${reason}` : ''}`;
+    step.completedAt = new Date();
+
+    await this.audit('runbook.step_rejected', execution, { stepId, command: runbookStep.command, reason }, 'denied', rejectedBy);
+    this.emit('step_rejected', { execution, step, runbookStep });
+
+    this.executions.set(executionId, execution);
+    await this.redis.hset('runbook_executions', executionId, JSON.stringify(execution));
+
+    await this.continueExecution(execution);
+    return step;
+  }
+
   /**
    * Cancel runbook execution
    */
@@ -255,7 +345,7 @@ export class RunbookIntegration extends EventEmitter {
 
     // Cancel any running steps
     execution.steps.forEach(step => {
-      if (step.status === 'running' || step.status === 'pending') {
+      if (step.status === 'running' || step.status === 'pending' || step.status === 'awaiting_approval') {
         step.status = 'skipped';
         step.completedAt = new Date();
       }
@@ -271,6 +361,8 @@ export class RunbookIntegration extends EventEmitter {
       metadata: { executionId, reason },
     });
 
+    await this.audit('runbook.execution_cancelled', execution, { reason });
+
     this.logger.info(`Cancelled runbook execution: ${executionId}`);
     this.emit('execution_cancelled', execution);
   }
@@ -280,9 +372,10 @@ export class RunbookIntegration extends EventEmitter {
    */
   async saveRunbook(runbook: Runbook): Promise<void> {
     // Validate runbook
-    this.validateRunbook(runbook);
+    const conditions = this.validateRunbook(runbook);
 
     this.runbooks.set(runbook.id, runbook);
+    this.conditions.set(runbook.id, conditions);
     await this.redis.hset('runbooks', runbook.id, JSON.stringify(runbook));
 
     this.logger.info(`Runbook saved: ${runbook.title} (${runbook.id})`);
@@ -294,6 +387,7 @@ export class RunbookIntegration extends EventEmitter {
    */
   async deleteRunbook(runbookId: string): Promise<void> {
     this.runbooks.delete(runbookId);
+    this.conditions.delete(runbookId);
     await this.redis.hdel('runbooks', runbookId);
 
     this.logger.info(`Runbook deleted: ${runbookId}`);
@@ -370,7 +464,14 @@ export class RunbookIntegration extends EventEmitter {
         this.emit('step_started', { execution, step, runbookStep });
 
         try {
-          if (step.automated && runbookStep.command) {
+          if (execution.metadata.dryRun) {
+            // Resolve the command without running it
+            await this.dryRunStep(execution, step, runbookStep);
+          } else if (runbookStep.command && this.needsApproval(step, runbookStep)) {
+            // Hold until approveStep or rejectStep
+            await this.requestApproval(execution, step, runbookStep);
+            break;
+          } else if (step.automated && runbookStep.command) {
             // Execute automated step
             await this.executeAutomatedStep(execution, step, runbookStep);
           } else {
@@ -379,14 +480,7 @@ export class RunbookIntegration extends EventEmitter {
             break; // Stop execution until manual step is completed
           }
         } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          step.status = 'failed';
-          step.error = errorMessage;
-          step.completedAt = new Date();
-          
-          execution.errors.push(`Step ${runbookStep.title}: ${errorMessage}`);
-          
-          this.emit('step_failed', { execution, step, runbookStep, error });
+          this.failStep(execution, step, runbookStep, error);
           
           // Optionally continue or stop on error
           if (runbookStep.title.toLowerCase().includes('critical')) {
@@ -418,9 +512,23 @@ export class RunbookIntegration extends EventEmitter {
           },
         });
 
+        await this.audit('runbook.execution_completed', execution, {
+          durationMs: execution.completedAt.getTime() - execution.startedAt.getTime(),
+        });
+
         this.emit('execution_completed', execution);
       }
 
+      // Every step has finished but some failed: close the execution out as failed
+      const failedSteps = execution.steps.filter(step => step.status === 'failed');
+      const allFinished = execution.steps.every(step =>
+        step.status === 'completed' || step.status === 'skipped' || step.status === 'failed'
+      );
+
+      if (allFinished && failedSteps.length > 0 && execution.status === 'running') {
+        throw new Error(`${failedSteps.length} step(s) failed`);
+      }
+
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       execution.status = 'failed';
@@ -438,6 +546,8 @@ export class RunbookIntegration extends EventEmitter {
         },
       });
 
+      await this.audit('runbook.execution_failed', execution, { error: errorMessage }, 'failure');
+
       this.emit('execution_failed', { execution, error });
     }
 
@@ -458,29 +568,199 @@ export class RunbookIntegration extends EventEmitter {
       throw new Error('No command specified for automated step');
     }
 
-    // Find appropriate automation provider
-    const provider = this.findAutomationProvider(runbookStep.command);
-    if (!provider) {
-      throw new Error(`No automation provider found for command: ${runbookStep.command}`);
+    let prepared: PreparedCommand;
+    try {
+      prepared = this.prepareCommand(execution, runbookStep);
+    } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        await this.audit('runbook.step_denied', execution, {
+          stepId: step.stepId,
+          command: runbookStep.command,
+          reason: error.message,
+        }, 'denied');
+      }
+      throw error;
     }
 
-    // Execute command
-    const result = await provider.executeCommand(runbookStep.command, {
-      incident: execution.incidentId,
-      execution: execution.id,
-      step: step.stepId,
-    });
+    step.command = prepared.display;
+    const result = await this.sandbox.run(prepared);
+
+    step.output = result.output;
+    step.durationMs = result.durationMs;
+    step.outputTruncated = result.truncated;
+    if (result.exitCode !== undefined) step.exitCode = result.exitCode;
 
     if (result.success) {
       step.status = 'completed';
-      step.output = result.output;
       execution.outputs[step.stepId] = result.output;
     } else {
       step.status = 'failed';
       step.error = result.error || 'Command execution failed';
+      execution.errors.push(`Step ${runbookStep.title}: ${step.error}`);
     }
 
     step.completedAt = new Date();
+
+    await this.audit('runbook.step_executed', execution, {
+      stepId: step.stepId,
+      command: prepared.display,
+      exitCode: result.exitCode,
+      durationMs: result.durationMs,
+      outputBytes: Buffer.byteLength(result.output),
+      truncated: result.truncated,
+      error: result.error,
+      approvedBy: step.approvedBy,
+    }, result.success ? 'success' : 'failure');
+  }
+
+  /**
+   * Resolve a step's command against the allowlist without running it
+   */
+  private async dryRunStep(
+    execution: RunbookExecution,
+    step: RunbookStepExecution,
+    runbookStep: RunbookStep
+  ): Promise<void> {
+    if (!runbookStep.command) {
+      step.status = 'skipped';
+      step.output = 'Manual step';
+      step.completedAt = new Date();
+      return;
+    }
+
+    try {
+      const prepared = this.prepareCommand(execution, runbookStep);
+      step.command = prepared.display;
+      step.status = 'completed';
+      step.output = `Would run: ${prepared.display}${this.needsApproval(step, runbookStep) ? ' (after approval)' : ''}`;
+      step.completedAt = new Date();
+
+      await this.audit('runbook.step_dry_run', execution, { stepId: step.stepId, command: prepared.display });
+    } catch (error) {
+      if (error instanceof PolicyViolationError) {
+        await this.audit('runbook.step_dry_run', execution, {
+          stepId: step.stepId,
+          command: runbookStep.command,
+          reason: error.message,
+        }, 'denied');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Hold a step until someone approves or rejects it
+   */
+  private async requestApproval(
+    execution: RunbookExecution,
+    step: RunbookStepExecution,
+    runbookStep: RunbookStep
+  ): Promise<void> {
+    step.status = 'awaiting_approval';
+
+    await this.logTimelineEvent(execution.incidentId, {
+      type: 'action',
+      title: 'Runbook Step Awaiting Approval',
+      description: `${runbookStep.title} needs approval before running: ${runbookStep.command}`,
+      metadata: { executionId: execution.id, stepId: step.stepId },
+    });
+
+    await this.audit('runbook.approval_requested', execution, { stepId: step.stepId, command: runbookStep.command });
+    this.emit('approval_required', { execution, step, runbookStep });
+  }
+
+  /**
+   * Steps that are not automatable (or explicitly flagged) must be approved before their command runs
+   */
+  private needsApproval(step: RunbookStepExecution, runbookStep: RunbookStep): boolean {
+    if (step.approvedBy) return false;
+    return runbookStep.requiresApproval === true || (!runbookStep.automatable && this.sandbox.requireApproval);
+  }
+
+  private prepareCommand(execution: RunbookExecution, runbookStep: RunbookStep): PreparedCommand {
+    const command = runbookStep.command!;
+    const provider = this.findAutomationProvider(command);
+    if (!provider) {
+      throw new PolicyViolationError(`No automation provider found for command: ${command}`);
+    }
+
+    const variables: TemplateVariables = {
+      ...execution.metadata.variables,
+      'incident.id': execution.incidentId,
+      'execution.id': execution.id,
+      'runbook.id': execution.runbookId,
+      user: execution.executedBy,
+    };
+
+    return provider.prepareCommand(command, variables, runbookStep.timeout);
+  }
+
+  private failStep(
+    execution: RunbookExecution,
+    step: RunbookStepExecution,
+    runbookStep: RunbookStep,
+    error: unknown
+  ): void {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    step.status = 'failed';
+    step.error = errorMessage;
+    step.completedAt = new Date();
+
+    execution.errors.push(`Step ${runbookStep.title}: ${errorMessage}`);
+
+    this.emit('step_failed', { execution, step, runbookStep, error });
+  }
+
+  private async getAwaitingStep(executionId: string, stepId: string): Promise<{
+    execution: RunbookExecution;
+    step: RunbookStepExecution;
+    runbookStep: RunbookStep;
+  }> {
+    const execution = await this.getExecution(executionId);
+    if (!execution) {
+      throw new Error(`Execution not found: ${executionId}`);
+    }
+
+    const step = execution.steps.find(s => s.stepId === stepId);
+    const runbookStep = this.runbooks.get(execution.runbookId)?.steps.find(s => s.id === stepId);
+    if (!step || !runbookStep) {
+      throw new Error(`Step not found: ${stepId}`);
+    }
+    if (step.status !== 'awaiting_approval') {
+      throw new ValidationError(`Step ${stepId} is not awaiting approval (status: ${step.status})`);
+    }
+
+    return { execution, step, runbookStep };
+  }
+
+  /**
+   * Record a runbook action in the security audit trail
+   */
+  private async audit(
+    action: string,
+    execution: RunbookExecution,
+    details: Record<string, any>,
+    outcome: RunbookAuditOutcome = 'success',
+    userId: string = execution.executedBy
+  ): Promise<void> {
+    if (!this.auditTrail) return;
+
+    try {
+      await this.auditTrail.logEntry({
+        userId,
+        action,
+        resource: `runbook:${execution.runbookId}`,
+        details: {
+          ...details,
+          executionId: execution.id,
+          incidentId: execution.incidentId,
+          dryRun: execution.metadata.dryRun === true,
+        },
+        outcome,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record audit entry ${action} for execution ${execution.id}:`, error);
+    }
   }
 
   /**
@@ -499,12 +779,11 @@ export class RunbookIntegration extends EventEmitter {
    * Continue execution after manual step completion
    */
   private async continueExecution(execution: RunbookExecution): Promise<void> {
-    // Find next pending step and continue processing
-    const nextPendingIndex = execution.steps.findIndex(s => s.status === 'pending');
-    if (nextPendingIndex >= 0) {
-      // Continue processing from where we left off
-      await this.processRunbookExecution(execution);
-    }
+    if (execution.status !== 'running') return;
+
+    // Continue processing from where we left off; with no pending steps left
+    // this marks the execution completed
+    await this.processRunbookExecution(execution);
   }
 
   /**
@@ -530,10 +809,10 @@ export class RunbookIntegration extends EventEmitter {
     }
 
     // Check condition matches
-    for (const condition of runbook.triggers.conditions) {
-      if (this.evaluateCondition(condition, alert, incident)) {
+    for (const condition of this.conditions.get(runbook.id) ?? []) {
+      if (condition.evaluate({ alert, ...(incident ? { incident } : {}) })) {
         confidence += 0.3;
-        matchReasons.push(`Condition match: ${condition}`);
+        matchReasons.push(`Condition match: ${condition.source}`);
       }
     }
 
@@ -559,25 +838,6 @@ export class RunbookIntegration extends EventEmitter {
     };
   }
 
-  /**
-   * Evaluate a condition against alert/incident
-   */
-  private evaluateCondition(condition: string, alert: Alert, incident?: Incident): boolean {
-    // Simple condition evaluation - in production, use a proper expression parser
-    const lowerCondition = condition.toLowerCase();
-    
-    if (lowerCondition.includes('severity') && lowerCondition.includes('critical')) {
-      return alert.severity === 'P1_CRITICAL';
-    }
-    
-    if (lowerCondition.includes('source') && lowerCondition.includes('monitoring')) {
-      return alert.source === 'monitoring';
-    }
-
-    // Add more condition evaluation logic as needed
-    return false;
-  }
-
   /**
    * Find automation provider for command
    */
@@ -591,9 +851,9 @@ export class RunbookIntegration extends EventEmitter {
   }
 
   /**
-   * Validate runbook structure
+   * Validate runbook structure and compile its trigger conditions
    */
-  private validateRunbook(runbook: Runbook): void {
+  private validateRunbook(runbook: Runbook): CompiledExpression[] {
     if (!runbook.id || !runbook.title || !runbook.steps.length) {
       throw new Error('Invalid runbook: missing required fields');
     }
@@ -608,6 +868,15 @@ export class RunbookIntegration extends EventEmitter {
         throw new Error(`Automatable step must have command: ${step.id}`);
       }
     }
+
+    return runbook.triggers.conditions.map((condition, index) => {
+      try {
+        return compileExpression(condition);
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+        throw new ValidationError(`Invalid trigger condition ${index + 1} in runbook ${runbook.id}: ${error.message}`, error.details);
+      }
+    });
   }
 
   /**
@@ -619,7 +888,9 @@ export class RunbookIntegration extends EventEmitter {
     for (const [id, data] of Object.entries(runbookData)) {
       try {
         const runbook: Runbook = JSON.parse(data);
+        const conditions = this.validateRunbook(runbook);
         this.runbooks.set(id, runbook);
+        this.conditions.set(id, conditions);
       } catch (error) {
         this.logger.error(`Error loading runbook ${id}:`, error);
       }
@@ -649,72 +920,38 @@ export class RunbookIntegration extends EventEmitter {
    * Setup automation providers
    */
   private setupAutomationProviders(): void {
-    // Shell/Bash provider
+    // Shell provider: allowlisted executables, run without a shell
     this.automationProviders.set('shell', {
       name: 'Shell Commands',
       validateCommand: (command: string) => {
         return command.startsWith('bash:') || command.startsWith('sh:') || command.startsWith('cmd:');
       },
-      executeCommand: async (command: string, context: any) => {
-        // In production, implement proper shell execution with safety measures
-        const cmd = command.split(':')[1];
-        this.logger.info(`Executing shell command: ${cmd}`);
-        
-        // Mock execution for safety
-        return {
-          success: true,
-          output: `Mock execution of: ${cmd}`,
-        };
+      prepareCommand: (command, variables, timeout) => {
+        return this.sandbox.prepareProcess(command.slice(command.indexOf(':') + 1), variables, timeout);
       },
     });
 
-    // HTTP API provider
+    // HTTP API provider: METHOD|url|json-body against allowlisted hosts
     this.automationProviders.set('http', {
       name: 'HTTP API Calls',
       validateCommand: (command: string) => {
         return command.startsWith('http:') || command.startsWith('https:');
       },
-      executeCommand: async (command: string, context: any) => {
-        try {
-          const [method, url, ...bodyParts] = command.split('|');
-          const body = bodyParts.length > 0 ? JSON.parse(bodyParts.join('|')) : undefined;
-          
-          const response = await axios({
-            method: method.split(':')[0] as any,
-            url: url,
-            data: body,
-            timeout: 30000,
-          });
-
-          return {
-            success: true,
-            output: JSON.stringify(response.data, null, 2),
-          };
-        } catch (error) {
-          return {
-            success: false,
-            error: error instanceof Error ? error.message : String(error),
-            output: '',
-          };
-        }
+      prepareCommand: (command, variables, timeout) => {
+        return this.sandbox.prepareHttp(command.slice(command.indexOf(':') + 1), variables, timeout);
       },
     });
 
-    // Kubernetes provider
+    // Kubernetes provider: kubectl through the same allowlist
     this.automationProviders.set('k8s', {
       name: 'Kubernetes Commands',
       validateCommand: (command: string) => {
         return command.startsWith('kubectl:') || command.startsWith('k8s:');
       },
-      executeCommand: async (command: string, context: any) => {
-        const cmd = command.split(':')[1];
-        this.logger.info(`Executing kubectl command: ${cmd}`);
-        
-        // Mock execution - in production, use kubernetes client
-        return {
-          success: true,
-          output: `Mock kubectl execution: ${cmd}`,
-        };
+      prepareCommand: (command, variables, timeout) => {
+        const cmd = command.slice(command.indexOf(':') + 1).trim();
+        const commandLine = cmd.startsWith('kubectl ') ? cmd : `kubectl ${cmd}`;
+        return this.sandbox.prepareProcess(commandLine, variables, timeout);
       },
     });
 
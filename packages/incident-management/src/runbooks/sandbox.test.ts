@@ -0,0 +1,51 @@
+import { CommandSandbox } from './sandbox';
+
+describe('CommandSandbox', () => {
+  const variables = { 'incident.id': 'incident-123', user: 'user-123' };
+
+  const sandbox = new CommandSandbox({
+    commands: [
+      { command: 'kubectl', subcommands: ['get', 'rollout'] },
+      { command: 'node', path: process.execPath },
+    ],
+    httpBaseUrl: 'http://monitoring.internal',
+    maxOutputBytes: 16,
+  });
+
+  test('should resolve HTTP steps against the base URL and host allowlist', () => {
+    const command = sandbox.prepareHttp('GET|/api/health/{{incident.id}}', variables);
+
+    expect(command.display).toBe('GET http://monitoring.internal/api/health/incident-123');
+    expect(() => sandbox.prepareHttp('GET|http://169.254.169.254/latest', variables)).toThrow('Host not allowlisted: 169.254.169.254');
+    expect(() => sandbox.prepareHttp('GET|/api/{{secret}}', variables)).toThrow('Unknown template variable: secret');
+  });
+
+  test('should only prepare allowlisted commands and subcommands', () => {
+    const command = sandbox.prepareProcess('kubectl get pods -l incident={{incident.id}}', variables);
+
+    expect(command.kind === 'process' && command.args).toEqual(['get', 'pods', '-l', 'incident=incident-123']);
+    expect(() => sandbox.prepareProcess('rm -rf /', variables)).toThrow('Command not allowlisted: rm');
+    expect(() => sandbox.prepareProcess('kubectl delete pods --all', variables)).toThrow('Subcommand not allowlisted for kubectl: delete');
+    expect(() => sandbox.prepareProcess('kubectl get pods | sh', variables)).toThrow('Shell operators are not supported');
+  });
+
+  test('should keep template values from adding arguments or options', () => {
+    expect(() => sandbox.prepareProcess('kubectl get {{user}}', { user: 'pods --all-namespaces' })).toThrow('Unsafe template value');
+    expect(() => sandbox.prepareProcess('kubectl get {{user}}', { user: '--all-namespaces' })).toThrow('Unsafe template value');
+  });
+
+  test('should run without a shell and cap captured output', async () => {
+    const result = await sandbox.run(sandbox.prepareProcess('node -e "process.stdout.write(\'x\'.repeat(64))"', variables));
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe('x'.repeat(16));
+    expect(result.truncated).toBe(true);
+  });
+
+  test('should kill commands that exceed the step timeout', async () => {
+    const result = await sandbox.run(sandbox.prepareProcess('node -e "setTimeout(() => {}, 5000)"', variables, 0.2));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Timed out after 0.2s');
+  });
+});
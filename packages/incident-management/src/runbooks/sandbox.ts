@@ -0,0 +1,362 @@
+import { spawn } from 'child_process';
+import axios from 'axios';
+import {
+  PolicyViolationError,
+  RunbookCommandRule,
+  RunbookExecutionConfig,
+} from '../types';
+
+export const DEFAULT_RUNBOOK_EXECUTION_CONFIG: RunbookExecutionConfig = {
+  commands: [],
+  httpAllowlist: [],
+  defaultTimeout: 60,
+  maxOutputBytes: 64 * 1024,
+  requireApproval: true,
+};
+
+// {{incident.id}}, {{execution.id}}, {{runbook.id}}, {{user}} plus caller-supplied variables
+export type TemplateVariables = Record<string, string>;
+
+export type PreparedCommand =
+  | {
+      kind: 'process';
+      display: string;
+      file: string;
+      args: string[];
+      env: Record<string, string>;
+      timeout: number; // seconds
+    }
+  | {
+      kind: 'http';
+      display: string;
+      method: string;
+      url: string;
+      body?: unknown;
+      timeout: number; // seconds
+    };
+
+export interface CommandResult {
+  success: boolean;
+  output: string;
+  error?: string;
+  exitCode?: number;
+  durationMs: number;
+  truncated: boolean;
+}
+
+const TEMPLATE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+// Values substituted into argv: no option injection, no whitespace, no shell syntax
+const SAFE_ARGUMENT = /^[A-Za-z0-9._:/@=,+-]*$/;
+const SHELL_OPERATORS = ['|', ';', '&', '>', '<', '`', '$('];
+const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Resolves runbook step commands against the execution allowlist and runs them
+ * without a shell, with a per-step timeout and bounded output capture
+ */
+export class CommandSandbox {
+  private config: RunbookExecutionConfig;
+
+  constructor(config: Partial<RunbookExecutionConfig> = {}) {
+    this.config = { ...DEFAULT_RUNBOOK_EXECUTION_CONFIG, ...config };
+  }
+
+  get requireApproval(): boolean {
+    return this.config.requireApproval;
+  }
+
+  /**
+   * Turn a command line into an allowlisted argv. Templates are expanded per
+   * argument after splitting, so a variable can never add arguments.
+   */
+  prepareProcess(commandLine: string, variables: TemplateVariables, stepTimeout?: number): PreparedCommand {
+    const [executable, ...rawArgs] = this.splitCommandLine(commandLine);
+    if (!executable) {
+      throw new PolicyViolationError('Empty command');
+    }
+
+    const rule = this.config.commands.find(candidate => candidate.command === executable);
+    if (!rule) {
+      throw new PolicyViolationError(`Command not allowlisted: ${executable}`, { command: executable });
+    }
+
+    const args = rawArgs.map(arg => this.renderArgument(arg, variables));
+    this.checkSubcommand(rule, args);
+
+    const timeout = stepTimeout ?? rule.timeout ?? this.config.defaultTimeout;
+
+    return {
+      kind: 'process',
+      display: [executable, ...args].join(' '),
+      file: rule.path ?? executable,
+      args,
+      env: {
+        PATH: process.env.PATH ?? '',
+        ...(process.env.HOME ? { HOME: process.env.HOME } : {}),
+        ...rule.env,
+      },
+      timeout,
+    };
+  }
+
+  /**
+   * Parse METHOD|url|json-body against the HTTP host allowlist
+   */
+  prepareHttp(spec: string, variables: TemplateVariables, stepTimeout?: number): PreparedCommand {
+    const [rawMethod, rawUrl, ...bodyParts] = spec.split('|');
+    const method = (rawMethod ?? '').trim().toUpperCase();
+
+    if (!HTTP_METHODS.includes(method)) {
+      throw new PolicyViolationError(`Unsupported HTTP method: ${rawMethod}`);
+    }
+    if (!rawUrl) {
+      throw new PolicyViolationError('HTTP step has no URL');
+    }
+
+    const renderedUrl = this.render(rawUrl.trim(), variables, encodeURIComponent);
+    let url: URL;
+    try {
+      url = this.config.httpBaseUrl ? new URL(renderedUrl, this.config.httpBaseUrl) : new URL(renderedUrl);
+    } catch {
+      throw new PolicyViolationError(`Invalid URL${this.config.httpBaseUrl ? '' : ' (relative URLs need runbooks.httpBaseUrl)'}: ${renderedUrl}`);
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new PolicyViolationError(`Unsupported protocol: ${url.protocol}`);
+    }
+    if (!this.isAllowedHost(url)) {
+      throw new PolicyViolationError(`Host not allowlisted: ${url.host}`, { host: url.host });
+    }
+
+    let body: unknown;
+    if (bodyParts.length > 0) {
+      const renderedBody = this.render(bodyParts.join('|'), variables, value => JSON.stringify(value).slice(1, -1));
+      try {
+        body = JSON.parse(renderedBody);
+      } catch {
+        throw new PolicyViolationError('HTTP step body is not valid JSON');
+      }
+    }
+
+    return {
+      kind: 'http',
+      display: `${method} ${url.toString()}`,
+      method,
+      url: url.toString(),
+      ...(body !== undefined ? { body } : {}),
+      timeout: stepTimeout ?? this.config.defaultTimeout,
+    };
+  }
+
+  /**
+   * Run a prepared command. Never throws; failures are reported in the result.
+   */
+  async run(command: PreparedCommand): Promise<CommandResult> {
+    return command.kind === 'process' ? this.runProcess(command) : this.runHttp(command);
+  }
+
+  private runProcess(command: Extract<PreparedCommand, { kind: 'process' }>): Promise<CommandResult> {
+    const startedAt = Date.now();
+
+    return new Promise(resolve => {
+      const output = new OutputBuffer(this.config.maxOutputBytes);
+      let timedOut = false;
+
+      const child = spawn(command.file, command.args, {
+        env: command.env,
+        shell: false,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, command.timeout * 1000);
+
+      child.stdout.on('data', (chunk: Buffer) => output.append(chunk));
+      child.stderr.on('data', (chunk: Buffer) => output.append(chunk));
+
+      child.on('error', error => {
+        clearTimeout(timer);
+        resolve({
+          success: false,
+          output: output.toString(),
+          error: error.message,
+          durationMs: Date.now() - startedAt,
+          truncated: output.truncated,
+        });
+      });
+
+      child.on('close', code => {
+        clearTimeout(timer);
+        const exitCode = code ?? undefined;
+        const success = !timedOut && code === 0;
+
+        resolve({
+          success,
+          output: output.toString(),
+          ...(success ? {} : { error: timedOut ? `Timed out after ${command.timeout}s` : `Exited with code ${code}` }),
+          ...(exitCode !== undefined ? { exitCode } : {}),
+          durationMs: Date.now() - startedAt,
+          truncated: output.truncated,
+        });
+      });
+    });
+  }
+
+  private async runHttp(command: Extract<PreparedCommand, { kind: 'http' }>): Promise<CommandResult> {
+    const startedAt = Date.now();
+
+    try {
+      const response = await axios({
+        method: command.method,
+        url: command.url,
+        data: command.body,
+        timeout: command.timeout * 1000,
+        // A redirect could leave the allowlist
+        maxRedirects: 0,
+        maxContentLength: this.config.maxOutputBytes,
+        responseType: 'text',
+        transformResponse: data => data,
+        validateStatus: () => true,
+      });
+
+      const output = new OutputBuffer(this.config.maxOutputBytes);
+      output.append(Buffer.from(String(response.data ?? '')));
+      const success = response.status < 400;
+
+      return {
+        success,
+        output: output.toString(),
+        ...(success ? {} : { error: `HTTP ${response.status}` }),
+        exitCode: response.status,
+        durationMs: Date.now() - startedAt,
+        truncated: output.truncated,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        output: '',
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt,
+        truncated: false,
+      };
+    }
+  }
+
+  private isAllowedHost(url: URL): boolean {
+    const allowed = [...this.config.httpAllowlist];
+    if (this.config.httpBaseUrl) {
+      allowed.push(new URL(this.config.httpBaseUrl).host);
+    }
+    return allowed.some(entry => entry === url.host || entry === url.hostname);
+  }
+
+  private checkSubcommand(rule: RunbookCommandRule, args: string[]): void {
+    if (!rule.subcommands) return;
+
+    // Flags must follow the subcommand so a value like `-n prod` cannot pose as one
+    const subcommand = args[0];
+    if (!subcommand || !rule.subcommands.includes(subcommand)) {
+      throw new PolicyViolationError(
+        `Subcommand not allowlisted for ${rule.command}: ${subcommand ?? '(none)'}`,
+        { command: rule.command, subcommand }
+      );
+    }
+  }
+
+  private renderArgument(arg: string, variables: TemplateVariables): string {
+    return this.render(arg, variables, value => {
+      if (!SAFE_ARGUMENT.test(value) || value.startsWith('-')) {
+        throw new PolicyViolationError(`Unsafe template value: ${JSON.stringify(value)}`);
+      }
+      return value;
+    });
+  }
+
+  private render(template: string, variables: TemplateVariables, encode: (value: string) => string): string {
+    return template.replace(TEMPLATE_PATTERN, (_match, name: string) => {
+      if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+        throw new PolicyViolationError(`Unknown template variable: ${name}`);
+      }
+      return encode(variables[name]);
+    });
+  }
+
+  /**
+   * Split a command line on whitespace, honouring single and double quotes.
+   * There is no shell, so pipes, redirects and substitutions are rejected.
+   */
+  private splitCommandLine(commandLine: string): string[] {
+    const args: string[] = [];
+    let current = '';
+    let quote: '"' | "'" | null = null;
+    let hasToken = false;
+
+    for (let i = 0; i < commandLine.length; i++) {
+      const char = commandLine[i];
+
+      if (quote) {
+        if (char === quote) {
+          quote = null;
+        } else if (char === '\\' && quote === '"' && i + 1 < commandLine.length) {
+          current += commandLine[++i];
+        } else {
+          current += char;
+        }
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        quote = char;
+        hasToken = true;
+      } else if (/\s/.test(char)) {
+        if (hasToken) args.push(current);
+        current = '';
+        hasToken = false;
+      } else {
+        if (SHELL_OPERATORS.some(operator => commandLine.startsWith(operator, i))) {
+          throw new PolicyViolationError(`Shell operators are not supported: ${commandLine}`);
+        }
+        current += char;
+        hasToken = true;
+      }
+    }
+
+    if (quote) {
+      throw new PolicyViolationError(`Unterminated quote in command: ${commandLine}`);
+    }
+    if (hasToken) args.push(current);
+
+    return args;
+  }
+}
+
+/**
+ * Keeps the first maxBytes of output and notes whether anything was dropped
+ */
+class OutputBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  truncated = false;
+
+  constructor(private maxBytes: number) {}
+
+  append(chunk: Buffer): void {
+    const remaining = this.maxBytes - this.size;
+    if (remaining <= 0) {
+      this.truncated = this.truncated || chunk.length > 0;
+      return;
+    }
+    if (chunk.length > remaining) {
+      this.truncated = true;
+      chunk = chunk.subarray(0, remaining);
+    }
+    this.chunks.push(chunk);
+    this.size += chunk.length;
+  }
+
+  toString(): string {
+    return Buffer.concat(this.chunks).toString('utf8');
+  }
+}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { format, formatDistanceToNow, subDays } from 'date-fns';
+import { format, formatDistanceToNow } from 'date-fns';
 import {
   Incident,
   Component,
@@ -42,6 +42,7 @@ interface UptimeData {
   percentage: number;
   incidents: number;
   downtime: number; // minutes
+  history?: { date: string; uptime: number }[]; // hourly for 24h, daily otherwise
 }
 
 export const StatusPage: React.FC<StatusPageProps> = ({
@@ -64,9 +65,17 @@ export const StatusPage: React.FC<StatusPageProps> = ({
     return () => clearInterval(interval);
   }, [selectedPeriod]);
 
+  const statusApi = `${config.statusPage.apiUrl ?? ''}/api/v1/status`;
+
   const fetchStatusData = async () => {
     try {
-      const response = await fetch(`/api/status${isPublic ? '/public' : ''}?period=${selectedPeriod}`);
+      const params = new URLSearchParams({ period: selectedPeriod });
+      if (isPublic && config.statusPage.project) {
+        params.set('project', config.statusPage.project);
+      }
+      const response = await fetch(`${statusApi}${isPublic ? '/public' : ''}?${params}`, {
+        headers: !isPublic && config.statusPage.apiKey ? { 'X-API-Key': config.statusPage.apiKey } : {},
+      });
       if (!response.ok) {
         throw new Error('Failed to fetch status data');
       }
@@ -154,16 +163,19 @@ export const StatusPage: React.FC<StatusPageProps> = ({
   const handleSubscribe = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
-      const response = await fetch('/api/status/subscribe', {
+      const response = await fetch(`${statusApi}/public/subscribe`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email: subscriberEmail }),
+        body: JSON.stringify({
+          email: subscriberEmail,
+          ...(config.statusPage.project ? { project: config.statusPage.project } : {}),
+        }),
       });
 
       if (response.ok) {
         setSubscriberEmail('');
         setShowSubscribeForm(false);
-        alert('Successfully subscribed to status updates!');
+        alert('Check your inbox and follow the link to confirm your subscription.');
       } else {
         throw new Error('Failed to subscribe');
       }
@@ -374,7 +386,7 @@ export const StatusPage: React.FC<StatusPageProps> = ({
 
           {/* Uptime Bar Chart */}
           <div className="mt-6">
-            <UptimeChart period={selectedPeriod} />
+            <UptimeChart period={selectedPeriod} history={data.uptime.history ?? []} />
           </div>
         </div>
 
@@ -512,25 +524,12 @@ const MaintenanceCard: React.FC<{
 // Uptime Chart Component
 const UptimeChart: React.FC<{
   period: '90d' | '30d' | '7d' | '24h';
-}> = ({ period }) => {
-  const [chartData, setChartData] = useState<{ date: string; uptime: number }[]>([]);
-
-  useEffect(() => {
-    // Generate mock uptime data - in production, fetch from API
-    const days = period === '90d' ? 90 : period === '30d' ? 30 : period === '7d' ? 7 : 1;
-    const data = [];
-    
-    for (let i = days - 1; i >= 0; i--) {
-      const date = subDays(new Date(), i);
-      const uptime = Math.random() * 5 + 95; // 95-100% uptime
-      data.push({
-        date: format(date, period === '24h' ? 'HH:mm' : 'MMM dd'),
-        uptime,
-      });
-    }
-    
-    setChartData(data);
-  }, [period]);
+  history: { date: string; uptime: number }[];
+}> = ({ period, history }) => {
+  const chartData = history.map(point => ({
+    date: format(new Date(point.date), period === '24h' ? 'HH:mm' : 'MMM dd'),
+    uptime: point.uptime,
+  }));
 
   return (
     <div className="h-20">
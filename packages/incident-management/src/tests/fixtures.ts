@@ -0,0 +1,93 @@
+import Redis from 'ioredis';
+import { Logger } from 'winston';
+import {
+  Alert,
+  AlertSource,
+  Incident,
+  IncidentManagementConfig,
+  IncidentSeverity,
+  IncidentStatus,
+} from '../types';
+
+// Shared mocks and test data factories for the incident management specs
+
+export const createMockRedis = (): Redis => ({
+  get: jest.fn(),
+  set: jest.fn(),
+  setex: jest.fn(),
+  hget: jest.fn(),
+  hset: jest.fn(),
+  hdel: jest.fn(),
+  hgetall: jest.fn(),
+  lpush: jest.fn(),
+  lrange: jest.fn(),
+  zadd: jest.fn(),
+  publish: jest.fn(),
+  subscribe: jest.fn(),
+  unsubscribe: jest.fn(),
+  on: jest.fn(),
+  hincrby: jest.fn(),
+  expire: jest.fn(),
+} as unknown as Redis);
+
+export const createMockLogger = (): Logger => ({
+  info: jest.fn(),
+  error: jest.fn(),
+  warn: jest.fn(),
+  debug: jest.fn(),
+} as unknown as Logger);
+
+export const mockConfig: IncidentManagementConfig = {
+  detection: {
+    thresholds: { 'error.rate': 10 },
+    cooldownPeriod: 300,
+    autoEscalation: true,
+    escalationTimeout: 900,
+  },
+  warRoom: {
+    maxParticipants: 50,
+    videoIntegration: 'zoom',
+    autoRecording: true,
+    sessionTimeout: 3600,
+  },
+  statusPage: {
+    publicUrl: 'https://status.example.com',
+    components: [],
+    maintenanceMode: false,
+  },
+  notifications: {
+    channels: ['email', 'slack'],
+    escalationRules: [],
+  },
+  integrations: {},
+};
+
+export const createMockIncident = (overrides?: Partial<Incident>): Incident => ({
+  id: 'incident-123',
+  title: 'Test Incident',
+  description: 'Test incident description',
+  status: IncidentStatus.INVESTIGATING,
+  severity: IncidentSeverity.P2_HIGH,
+  source: AlertSource.MONITORING,
+  affectedComponents: ['api', 'database'],
+  assignedTeam: 'platform',
+  assignedUser: 'user-123',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  tags: ['test'],
+  metadata: {},
+  ...overrides,
+});
+
+export const createMockAlert = (overrides?: Partial<Alert>): Alert => ({
+  id: 'alert-123',
+  source: AlertSource.MONITORING,
+  title: 'High Error Rate',
+  description: 'Error rate exceeded threshold',
+  severity: IncidentSeverity.P2_HIGH,
+  timestamp: new Date('2024-01-01T09:55:00Z'),
+  labels: { service: 'api', environment: 'production' },
+  annotations: { runbook: 'high-error-rate' },
+  resolved: false,
+  ...overrides,
+});
@@ -26,88 +26,16 @@ import {
   TimelineEvent,
 } from '../types';
 
-// Mock implementations
-const mockRedis = {
-  get: jest.fn(),
-  set: jest.fn(),
-  setex: jest.fn(),
-  hget: jest.fn(),
-  hset: jest.fn(),
-  hdel: jest.fn(),
-  hgetall: jest.fn(),
-  lpush: jest.fn(),
-  lrange: jest.fn(),
-  zadd: jest.fn(),
-  publish: jest.fn(),
-  subscribe: jest.fn(),
-  unsubscribe: jest.fn(),
-  on: jest.fn(),
-  hincrby: jest.fn(),
-  expire: jest.fn(),
-} as unknown as Redis;
-
-const mockLogger = {
-  info: jest.fn(),
-  error: jest.fn(),
-  warn: jest.fn(),
-  debug: jest.fn(),
-} as unknown as Logger;
-
-const mockConfig: IncidentManagementConfig = {
-  detection: {
-    thresholds: { 'error.rate': 10 },
-    cooldownPeriod: 300,
-    autoEscalation: true,
-    escalationTimeout: 900,
-  },
-  warRoom: {
-    maxParticipants: 50,
-    videoIntegration: 'zoom',
-    autoRecording: true,
-    sessionTimeout: 3600,
-  },
-  statusPage: {
-    publicUrl: 'https://status.example.com',
-    components: [],
-    maintenanceMode: false,
-  },
-  notifications: {
-    channels: ['email', 'slack'],
-    escalationRules: [],
-  },
-  integrations: {},
-};
-
-// Test data factories
-const createMockIncident = (overrides?: Partial<Incident>): Incident => ({
-  id: 'incident-123',
-  title: 'Test Incident',
-  description: 'Test incident description',
-  status: IncidentStatus.INVESTIGATING,
-  severity: IncidentSeverity.P2_HIGH,
-  source: AlertSource.MONITORING,
-  affectedComponents: ['api', 'database'],
-  assignedTeam: 'platform',
-  assignedUser: 'user-123',
-  createdAt: new Date('2024-01-01T10:00:00Z'),
-  updatedAt: new Date('2024-01-01T10:00:00Z'),
-  tags: ['test'],
-  metadata: {},
-  ...overrides,
-});
+import {
+  createMockAlert,
+  createMockIncident,
+  createMockLogger,
+  createMockRedis,
+  mockConfig,
+} from './fixtures';
 
-const createMockAlert = (overrides?: Partial<Alert>): Alert => ({
-  id: 'alert-123',
-  source: AlertSource.MONITORING,
-  title: 'High Error Rate',
-  description: 'Error rate exceeded threshold',
-  severity: IncidentSeverity.P2_HIGH,
-  timestamp: new Date('2024-01-01T09:55:00Z'),
-  labels: { service: 'api', environment: 'production' },
-  annotations: { runbook: 'high-error-rate' },
-  resolved: false,
-  ...overrides,
-});
+const mockRedis = createMockRedis();
+const mockLogger = createMockLogger();
 
 const createMockComponent = (overrides?: Partial<Component>): Component => ({
   id: 'component-123',
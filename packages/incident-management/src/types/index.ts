@@ -170,6 +170,8 @@ export interface RunbookStep {
   expectedOutput?: string;
   order: number;
   automatable: boolean;
+  timeout?: number; // seconds, overrides runbooks.defaultTimeout
+  requiresApproval?: boolean; // gate the command behind approveStep even when automatable
 }
 
 export interface Runbook {
@@ -255,6 +257,24 @@ export interface IntegrationConfig {
   };
 }
 
+// Runbook command allowlist entry
+export interface RunbookCommandRule {
+  command: string; // executable as written in the step, e.g. 'kubectl'
+  path?: string; // absolute path to run instead of resolving through PATH
+  subcommands?: string[]; // first argument must be one of these, e.g. ['get', 'describe']
+  env?: Record<string, string>;
+  timeout?: number; // seconds
+}
+
+export interface RunbookExecutionConfig {
+  commands: RunbookCommandRule[];
+  httpAllowlist: string[]; // hosts (optionally host:port) HTTP steps may call
+  httpBaseUrl?: string; // resolves relative URLs such as /api/health
+  defaultTimeout: number; // seconds
+  maxOutputBytes: number;
+  requireApproval: boolean; // non-automatable steps with a command wait for approveStep
+}
+
 // Configuration Types
 export interface IncidentManagementConfig {
   detection: {
@@ -271,6 +291,12 @@ export interface IncidentManagementConfig {
   };
   statusPage: {
     publicUrl: string;
+    /** Monitoring server serving /api/v1/status; defaults to the page's own origin */
+    apiUrl?: string;
+    /** API key with status:read, required for the internal (non-public) page */
+    apiKey?: string;
+    /** Project id or slug of the public page; defaults to the server's default project */
+    project?: string;
     components: Component[];
     maintenanceMode: boolean;
     customCSS?: string;
@@ -284,6 +310,7 @@ export interface IncidentManagementConfig {
     }[];
   };
   integrations: IntegrationConfig;
+  runbooks?: Partial<RunbookExecutionConfig>;
 }
 
 // API Response Types
@@ -377,6 +404,13 @@ export class UnauthorizedError extends IncidentManagementError {
   }
 }
 
+export class PolicyViolationError extends IncidentManagementError {
+  constructor(message: string, details?: any) {
+    super(message, 'POLICY_VIOLATION', 403, details);
+    this.name = 'PolicyViolationError';
+  }
+}
+
 // Utility Types
 export type DeepPartial<T> = {
   [P in keyof T]?: T[P] extends object ? DeepPartial<T[P]> : T[P];
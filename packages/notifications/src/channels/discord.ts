@@ -0,0 +1,209 @@
+/**
+ * Discord Notification Channel
+ *
+ * Features:
+ * - Incoming webhook delivery, one or many webhooks per notification
+ * - Rich embeds colored by severity with fields and tags
+ * - Role/user mentions per severity
+ * - Discord rate limit handling (429 retry_after)
+ */
+
+import {
+  BaseNotification,
+  DiscordConfig,
+  ChannelResult,
+  NotificationSeverity
+} from '../types/index.js';
+import { sendToTargets, TargetResult } from './fanout.js';
+import axios from 'axios';
+
+export interface DiscordEmbed {
+  title: string;
+  description: string;
+  url?: string;
+  color: number;
+  timestamp: string;
+  fields: Array<{ name: string; value: string; inline?: boolean }>;
+  footer: { text: string };
+}
+
+export interface DiscordMessage {
+  /** Message text, carries the mentions */
+  content?: string;
+  username?: string;
+  avatar_url?: string;
+  embeds: DiscordEmbed[];
+  allowed_mentions: { parse: Array<'roles' | 'users' | 'everyone'> };
+}
+
+// Discord embed limits
+const MAX_TITLE = 256;
+const MAX_DESCRIPTION = 4096;
+const MAX_FIELD_VALUE = 1024;
+const MAX_FIELDS = 25;
+
+export class DiscordChannel {
+  private config: DiscordConfig;
+
+  constructor(config: DiscordConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Send Discord notification to each webhook URL
+   */
+  async send(notification: BaseNotification, webhookUrls: string[] = []): Promise<ChannelResult> {
+    const targets = webhookUrls.length > 0
+      ? webhookUrls
+      : this.config.webhookUrl ? [this.config.webhookUrl] : [];
+    const message = this.buildMessage(notification);
+
+    return sendToTargets('discord', targets, webhookUrl => this.postToWebhook(webhookUrl, message));
+  }
+
+  /**
+   * Build webhook message with a severity-colored embed
+   */
+  buildMessage(notification: BaseNotification): DiscordMessage {
+    const fields = [
+      { name: 'Severity', value: notification.severity.toUpperCase(), inline: true },
+      { name: 'Source', value: this.truncate(notification.source, MAX_FIELD_VALUE), inline: true },
+      { name: 'Priority', value: `${notification.priority}/10`, inline: true },
+      ...Object.entries(notification.tags).map(([key, value]) => ({
+        name: this.truncate(key, MAX_TITLE),
+        value: this.truncate(value || '-', MAX_FIELD_VALUE),
+        inline: true
+      }))
+    ].slice(0, MAX_FIELDS);
+
+    const embed: DiscordEmbed = {
+      title: this.truncate(`${this.getSeverityEmoji(notification.severity)} ${notification.title}`, MAX_TITLE),
+      description: this.truncate(notification.message, MAX_DESCRIPTION),
+      color: this.getSeverityColor(notification.severity),
+      timestamp: new Date(notification.timestamp).toISOString(),
+      fields,
+      footer: { text: `Notification ${notification.id}` }
+    };
+
+    if (typeof notification.metadata.url === 'string') {
+      embed.url = notification.metadata.url;
+    }
+
+    const mentions = this.config.mentions?.[notification.severity] ?? [];
+
+    return {
+      ...(mentions.length > 0 && { content: mentions.join(' ') }),
+      ...(this.config.username && { username: this.config.username }),
+      ...(this.config.avatarUrl && { avatar_url: this.config.avatarUrl }),
+      embeds: [embed],
+      // Only ping the configured mentions, never @everyone from notification text
+      allowed_mentions: { parse: mentions.length > 0 ? ['roles', 'users'] : [] }
+    };
+  }
+
+  /**
+   * Post to one webhook; wait=true makes Discord return the created message
+   */
+  private async postToWebhook(webhookUrl: string, message: DiscordMessage): Promise<TargetResult> {
+    const url = `${webhookUrl}${webhookUrl.includes('?') ? '&' : '?'}wait=true`;
+    const response = await axios.post(url, message, {
+      timeout: 10000,
+      validateStatus: () => true
+    });
+    const target = this.describeWebhook(webhookUrl);
+
+    if (response.status >= 200 && response.status < 300) {
+      return { target, status: 'sent', messageId: response.data?.id };
+    }
+
+    if (response.status === 429) {
+      return {
+        target,
+        status: 'failed',
+        error: 'Rate limited by Discord',
+        retryAfter: Math.ceil(Number(response.data?.retry_after) || 1)
+      };
+    }
+
+    return {
+      target,
+      status: 'failed',
+      error: `Discord API error ${response.status}: ${response.data?.message || 'Unknown error'}`
+    };
+  }
+
+  /**
+   * Webhook URLs embed a secret token, so results only name the webhook ID
+   */
+  private describeWebhook(webhookUrl: string): string {
+    const match = webhookUrl.match(/\/webhooks\/(\d+)\//);
+    return match ? `webhook ${match[1]}` : 'webhook';
+  }
+
+  /**
+   * Test webhook configuration by fetching the webhook
+   */
+  async testConfiguration(): Promise<{ success: boolean; error?: string }> {
+    if (!this.config.webhookUrl) {
+      return { success: false, error: 'No default webhook URL configured' };
+    }
+
+    try {
+      const response = await axios.get(this.config.webhookUrl, { timeout: 10000, validateStatus: () => true });
+      return response.status === 200
+        ? { success: true }
+        : { success: false, error: `Discord API error ${response.status}` };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private truncate(text: string, max: number): string {
+    return text.length > max ? text.slice(0, max - 1) + '…' : text;
+  }
+
+  private getSeverityColor(severity: NotificationSeverity): number {
+    const colorMap: Record<NotificationSeverity, number> = {
+      info: 0x3498db,
+      warning: 0xf1c40f,
+      error: 0xe74c3c,
+      critical: 0x8e44ad
+    };
+    return colorMap[severity] ?? 0x95a5a6;
+  }
+
+  private getSeverityEmoji(severity: NotificationSeverity): string {
+    const emojiMap: Record<NotificationSeverity, string> = {
+      info: 'ℹ️',
+      warning: '⚠️',
+      error: '❌',
+      critical: '🚨'
+    };
+    return emojiMap[severity] || '🔔';
+  }
+}
+
+/**
+ * Discord Channel Factory
+ */
+export class DiscordChannelFactory {
+  static create(config: DiscordConfig): DiscordChannel {
+    return new DiscordChannel(config);
+  }
+
+  static validateConfig(config: DiscordConfig): {
+    valid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+
+    if (config.webhookUrl && !/^https:\/\/(discord|discordapp)\.com\/api\/webhooks\/\d+\/[\w-]+/.test(config.webhookUrl)) {
+      errors.push('Invalid Discord webhook URL');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors
+    };
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Delivery to several targets of one channel (webhooks, chats, push subscriptions)
+ *
+ * Sends to every target and folds the outcomes into a single ChannelResult:
+ * - Any success: sent, with the failures listed in `error`
+ * - Every target expired: expired
+ * - Otherwise a RateLimitError when a provider asked to back off, or a ChannelError
+ */
+
+import {
+  ChannelError,
+  ChannelResult,
+  DeliveryStatus,
+  NotificationChannel,
+  RateLimitError
+} from '../types/index.js';
+
+export interface TargetResult {
+  /** Target the message went to */
+  target: string;
+  /** Delivery status for this target */
+  status: DeliveryStatus;
+  /** Provider message ID */
+  messageId?: string;
+  /** Error message */
+  error?: string;
+  /** Seconds the provider asked to wait before retrying */
+  retryAfter?: number;
+}
+
+export async function sendToTargets(
+  channel: NotificationChannel,
+  targets: string[],
+  sendOne: (target: string) => Promise<TargetResult>
+): Promise<ChannelResult> {
+  const startTime = Date.now();
+  const uniqueTargets = Array.from(new Set(targets));
+
+  if (uniqueTargets.length === 0) {
+    throw new ChannelError(`No ${channel} targets configured`, 'NO_TARGETS', channel);
+  }
+
+  const results = await Promise.all(uniqueTargets.map(target =>
+    sendOne(target).catch((error): TargetResult => ({
+      target,
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }))
+  ));
+
+  const succeeded = results.filter(r => r.status === 'sent' || r.status === 'delivered');
+  const failed = results.filter(r => r.status !== 'sent' && r.status !== 'delivered');
+  const failureSummary = failed.map(r => `${r.target}: ${r.error || r.status}`).join('; ');
+
+  if (succeeded.length > 0) {
+    return {
+      channel,
+      status: succeeded.every(r => r.status === 'delivered') ? 'delivered' : 'sent',
+      messageId: succeeded.map(r => r.messageId).filter(Boolean).join(','),
+      latency: Date.now() - startTime,
+      error: failed.length > 0
+        ? `Failed for ${failed.length} of ${results.length} targets: ${failureSummary}`
+        : undefined
+    };
+  }
+
+  if (failed.every(r => r.status === 'expired')) {
+    return {
+      channel,
+      status: 'expired',
+      messageId: '',
+      latency: Date.now() - startTime,
+      error: failureSummary
+    };
+  }
+
+  const retryAfter = Math.max(0, ...failed.map(r => r.retryAfter ?? 0));
+  if (retryAfter > 0) {
+    throw new RateLimitError(`${channel} rate limited: ${failureSummary}`, channel, retryAfter);
+  }
+
+  throw new ChannelError(
+    `${channel} delivery failed: ${failureSummary}`,
+    `${channel.toUpperCase().replace('-', '_')}_SEND_FAILED`,
+    channel
+  );
+}
@@ -0,0 +1,353 @@
+/**
+ * In-App Notification Channel
+ *
+ * Features:
+ * - Persisted per-recipient inbox read by the dashboard NotificationCenter
+ * - Viewed/dismissed state with unread counts
+ * - Bounded inbox size and retention
+ * - Redis storage for multi-instance deployments, memory for development
+ */
+
+import {
+  BaseNotification,
+  InAppConfig,
+  ChannelResult,
+  JSONValue,
+  NotificationCategory,
+  NotificationSeverity,
+  UUID
+} from '../types/index.js';
+import { sendToTargets } from './fanout.js';
+import Redis from 'ioredis';
+
+export interface InAppMessage {
+  /** Inbox item ID (the notification ID, so redelivery does not duplicate) */
+  id: UUID;
+  /** Recipient the item belongs to */
+  recipient: string;
+  title: string;
+  message: string;
+  /** Severity, named as the dashboard Notification type expects */
+  type: NotificationSeverity;
+  category: NotificationCategory;
+  source: string;
+  priority: number;
+  timestamp: number;
+  url?: string;
+  metadata: Record<string, JSONValue>;
+  viewed: boolean;
+  viewedAt?: number;
+  dismissed: boolean;
+}
+
+export interface InAppListOptions {
+  /** Only items not yet viewed */
+  unreadOnly?: boolean;
+  /** Include dismissed items (default false) */
+  includeDismissed?: boolean;
+  /** Items before this timestamp, for paging */
+  before?: number;
+  /** Maximum items (default 50) */
+  limit?: number;
+}
+
+export interface InAppInbox {
+  /** Store an item in its recipient's inbox */
+  add(item: InAppMessage): Promise<void>;
+  /** List a recipient's items, newest first */
+  list(recipient: string, options?: InAppListOptions): Promise<InAppMessage[]>;
+  /** Count viewable items not yet viewed */
+  unreadCount(recipient: string): Promise<number>;
+  /** Mark items viewed, or every item when no IDs are given; returns the number changed */
+  markViewed(recipient: string, ids?: UUID[]): Promise<number>;
+  /** Dismiss items; returns the number changed */
+  dismiss(recipient: string, ids: UUID[]): Promise<number>;
+}
+
+const DEFAULT_MAX_ITEMS = 200;
+const DEFAULT_RETENTION_DAYS = 30;
+const DEFAULT_LIST_LIMIT = 50;
+
+function retentionCutoff(config: InAppConfig): number {
+  return Date.now() - (config.retentionDays ?? DEFAULT_RETENTION_DAYS) * 24 * 60 * 60 * 1000;
+}
+
+function matchesListOptions(item: InAppMessage, options: InAppListOptions): boolean {
+  if (item.dismissed && !options.includeDismissed) return false;
+  if (options.unreadOnly && item.viewed) return false;
+  if (options.before !== undefined && item.timestamp >= options.before) return false;
+  return true;
+}
+
+/**
+ * Redis inbox: a sorted set of item IDs by timestamp and a hash of items per recipient
+ */
+export class RedisInAppInbox implements InAppInbox {
+  private redis: Redis;
+  private keyPrefix: string = 'notifications:inbox';
+  private config: InAppConfig;
+
+  constructor(redisConfig: any, config: InAppConfig = {}) {
+    this.redis = new Redis(redisConfig);
+    this.config = config;
+  }
+
+  async add(item: InAppMessage): Promise<void> {
+    const { indexKey, itemsKey } = this.getKeys(item.recipient);
+    const ttl = (this.config.retentionDays ?? DEFAULT_RETENTION_DAYS) * 24 * 60 * 60;
+
+    const multi = this.redis.multi();
+    multi.zadd(indexKey, item.timestamp, item.id);
+    multi.hset(itemsKey, item.id, JSON.stringify(item));
+    multi.expire(indexKey, ttl);
+    multi.expire(itemsKey, ttl);
+    await multi.exec();
+
+    await this.prune(item.recipient);
+  }
+
+  async list(recipient: string, options: InAppListOptions = {}): Promise<InAppMessage[]> {
+    const items = await this.getAll(recipient);
+    return items
+      .filter(item => matchesListOptions(item, options))
+      .slice(0, options.limit ?? DEFAULT_LIST_LIMIT);
+  }
+
+  async unreadCount(recipient: string): Promise<number> {
+    const items = await this.getAll(recipient);
+    return items.filter(item => !item.viewed && !item.dismissed).length;
+  }
+
+  async markViewed(recipient: string, ids?: UUID[]): Promise<number> {
+    const viewedAt = Date.now();
+    return this.update(recipient, ids, item => {
+      if (item.viewed) return false;
+      item.viewed = true;
+      item.viewedAt = viewedAt;
+      return true;
+    });
+  }
+
+  async dismiss(recipient: string, ids: UUID[]): Promise<number> {
+    return this.update(recipient, ids, item => {
+      if (item.dismissed) return false;
+      item.dismissed = true;
+      return true;
+    });
+  }
+
+  private async update(
+    recipient: string,
+    ids: UUID[] | undefined,
+    apply: (item: InAppMessage) => boolean
+  ): Promise<number> {
+    const { itemsKey } = this.getKeys(recipient);
+    const items = ids ? await this.getItems(recipient, ids) : await this.getAll(recipient);
+    const changed = items.filter(apply);
+
+    if (changed.length > 0) {
+      await this.redis.hset(itemsKey, Object.fromEntries(changed.map(item => [item.id, JSON.stringify(item)])));
+    }
+    return changed.length;
+  }
+
+  private async getAll(recipient: string): Promise<InAppMessage[]> {
+    const { indexKey } = this.getKeys(recipient);
+    const ids = await this.redis.zrevrangebyscore(indexKey, '+inf', retentionCutoff(this.config));
+    return this.getItems(recipient, ids);
+  }
+
+  private async getItems(recipient: string, ids: UUID[]): Promise<InAppMessage[]> {
+    if (ids.length === 0) return [];
+
+    const { itemsKey } = this.getKeys(recipient);
+    const values = await this.redis.hmget(itemsKey, ...ids);
+    return values
+      .filter((value): value is string => value !== null)
+      .map(value => JSON.parse(value) as InAppMessage);
+  }
+
+  /**
+   * Drop items past retention or beyond the per-recipient limit
+   */
+  private async prune(recipient: string): Promise<void> {
+    const { indexKey, itemsKey } = this.getKeys(recipient);
+    const maxItems = this.config.maxItemsPerRecipient ?? DEFAULT_MAX_ITEMS;
+
+    const [expired, overflow] = await Promise.all([
+      this.redis.zrangebyscore(indexKey, '-inf', `(${retentionCutoff(this.config)}`),
+      this.redis.zrange(indexKey, 0, -(maxItems + 1))
+    ]);
+    const stale = Array.from(new Set([...expired, ...overflow]));
+
+    if (stale.length > 0) {
+      await this.redis.multi()
+        .zrem(indexKey, ...stale)
+        .hdel(itemsKey, ...stale)
+        .exec();
+    }
+  }
+
+  private getKeys(recipient: string): { indexKey: string; itemsKey: string } {
+    return {
+      indexKey: `${this.keyPrefix}:${recipient}:index`,
+      itemsKey: `${this.keyPrefix}:${recipient}:items`
+    };
+  }
+}
+
+/**
+ * Memory inbox for development and tests
+ */
+export class MemoryInAppInbox implements InAppInbox {
+  private inboxes: Map<string, Map<UUID, InAppMessage>> = new Map();
+  private config: InAppConfig;
+
+  constructor(config: InAppConfig = {}) {
+    this.config = config;
+  }
+
+  async add(item: InAppMessage): Promise<void> {
+    if (!this.inboxes.has(item.recipient)) {
+      this.inboxes.set(item.recipient, new Map());
+    }
+    this.inboxes.get(item.recipient)!.set(item.id, { ...item });
+    this.prune(item.recipient);
+  }
+
+  async list(recipient: string, options: InAppListOptions = {}): Promise<InAppMessage[]> {
+    return this.getAll(recipient)
+      .filter(item => matchesListOptions(item, options))
+      .slice(0, options.limit ?? DEFAULT_LIST_LIMIT)
+      .map(item => ({ ...item }));
+  }
+
+  async unreadCount(recipient: string): Promise<number> {
+    return this.getAll(recipient).filter(item => !item.viewed && !item.dismissed).length;
+  }
+
+  async markViewed(recipient: string, ids?: UUID[]): Promise<number> {
+    const viewedAt = Date.now();
+    let changed = 0;
+
+    for (const item of this.getSelected(recipient, ids)) {
+      if (!item.viewed) {
+        item.viewed = true;
+        item.viewedAt = viewedAt;
+        changed++;
+      }
+    }
+    return changed;
+  }
+
+  async dismiss(recipient: string, ids: UUID[]): Promise<number> {
+    let changed = 0;
+
+    for (const item of this.getSelected(recipient, ids)) {
+      if (!item.dismissed) {
+        item.dismissed = true;
+        changed++;
+      }
+    }
+    return changed;
+  }
+
+  private getAll(recipient: string): InAppMessage[] {
+    const cutoff = retentionCutoff(this.config);
+    return Array.from(this.inboxes.get(recipient)?.values() ?? [])
+      .filter(item => item.timestamp >= cutoff)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  private getSelected(recipient: string, ids?: UUID[]): InAppMessage[] {
+    const inbox = this.inboxes.get(recipient);
+    if (!inbox) return [];
+    return ids
+      ? ids.map(id => inbox.get(id)).filter((item): item is InAppMessage => item !== undefined)
+      : this.getAll(recipient);
+  }
+
+  private prune(recipient: string): void {
+    const inbox = this.inboxes.get(recipient)!;
+    const kept = new Set(this.getAll(recipient)
+      .slice(0, this.config.maxItemsPerRecipient ?? DEFAULT_MAX_ITEMS)
+      .map(item => item.id));
+
+    for (const id of inbox.keys()) {
+      if (!kept.has(id)) inbox.delete(id);
+    }
+  }
+}
+
+export class InAppChannel {
+  private inbox: InAppInbox;
+
+  constructor(inbox: InAppInbox) {
+    this.inbox = inbox;
+  }
+
+  /**
+   * Store the notification in each recipient's inbox
+   */
+  async send(notification: BaseNotification, recipients: string[]): Promise<ChannelResult> {
+    const item = this.buildMessage(notification);
+
+    return sendToTargets('in-app', recipients, async recipient => {
+      await this.inbox.add({ ...item, recipient });
+      return { target: recipient, status: 'delivered', messageId: `${recipient}:${item.id}` };
+    });
+  }
+
+  buildMessage(notification: BaseNotification): Omit<InAppMessage, 'recipient'> {
+    return {
+      id: notification.id,
+      title: notification.title,
+      message: notification.message,
+      type: notification.severity,
+      category: notification.category,
+      source: notification.source,
+      priority: notification.priority,
+      timestamp: notification.timestamp,
+      ...(typeof notification.metadata.url === 'string' && { url: notification.metadata.url }),
+      metadata: notification.metadata,
+      viewed: false,
+      dismissed: false
+    };
+  }
+
+  getInbox(): InAppInbox {
+    return this.inbox;
+  }
+}
+
+/**
+ * In-App Channel Factory
+ */
+export class InAppChannelFactory {
+  static create(config: InAppConfig, redisConfig?: any): InAppChannel {
+    const inbox = redisConfig
+      ? new RedisInAppInbox(redisConfig, config)
+      : new MemoryInAppInbox(config);
+    return new InAppChannel(inbox);
+  }
+
+  static validateConfig(config: InAppConfig): {
+    valid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+
+    if (config.maxItemsPerRecipient !== undefined && config.maxItemsPerRecipient < 1) {
+      errors.push('maxItemsPerRecipient must be at least 1');
+    }
+
+    if (config.retentionDays !== undefined && config.retentionDays <= 0) {
+      errors.push('retentionDays must be positive');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors
+    };
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * Web Push Notification Channel
+ *
+ * Features:
+ * - Web Push protocol delivery to browser subscriptions (RFC 8030)
+ * - VAPID application server authentication (RFC 8292)
+ * - aes128gcm payload encryption (RFC 8188 / RFC 8291)
+ * - Urgency by severity and configurable TTL
+ * - Expired subscription detection (404/410)
+ */
+
+import {
+  BaseNotification,
+  PushConfig,
+  PushSubscription,
+  ChannelResult,
+  ChannelError,
+  NotificationSeverity
+} from '../types/index.js';
+import { sendToTargets, TargetResult } from './fanout.js';
+import axios from 'axios';
+import {
+  createCipheriv,
+  createECDH,
+  createPrivateKey,
+  hkdfSync,
+  randomBytes,
+  sign
+} from 'crypto';
+
+export interface PushPayload {
+  id: string;
+  title: string;
+  body: string;
+  severity: NotificationSeverity;
+  source: string;
+  timestamp: number;
+  icon?: string;
+  url?: string;
+  /** Same-tag notifications replace each other in the browser */
+  tag: string;
+  requireInteraction: boolean;
+}
+
+// Push services accept at least 4096 bytes of encrypted payload
+const MAX_PAYLOAD_BYTES = 3993;
+const RECORD_SIZE = 4096;
+const VAPID_EXPIRATION_SECONDS = 12 * 60 * 60;
+
+export class PushChannel {
+  private config: PushConfig;
+
+  constructor(config: PushConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Send Web Push notification to each subscription (JSON encoded PushSubscription)
+   */
+  async send(notification: BaseNotification, subscriptions: string[]): Promise<ChannelResult> {
+    const payload = Buffer.from(JSON.stringify(this.buildPayload(notification)));
+
+    return sendToTargets('push', subscriptions, contact =>
+      this.sendToSubscription(this.parseSubscription(contact), payload, notification.severity)
+    );
+  }
+
+  /**
+   * Build the payload the service worker receives in its push event
+   */
+  buildPayload(notification: BaseNotification): PushPayload {
+    const payload: PushPayload = {
+      id: notification.id,
+      title: notification.title,
+      body: notification.message,
+      severity: notification.severity,
+      source: notification.source,
+      timestamp: notification.timestamp,
+      tag: notification.alertId || notification.id,
+      requireInteraction: notification.severity === 'critical'
+    };
+
+    if (this.config.icon) {
+      payload.icon = this.config.icon;
+    }
+    if (typeof notification.metadata.url === 'string') {
+      payload.url = notification.metadata.url;
+    }
+
+    // Shorten the body rather than have the push service reject the message
+    const overflow = Buffer.byteLength(JSON.stringify(payload)) - MAX_PAYLOAD_BYTES;
+    if (overflow > 0) {
+      payload.body = Buffer.from(payload.body).subarray(0, Math.max(Buffer.byteLength(payload.body) - overflow - 3, 0))
+        .toString()
+        .replace(/\uFFFD$/, '') + '…';
+    }
+
+    return payload;
+  }
+
+  /**
+   * Encrypt a payload for one subscription using aes128gcm (RFC 8291)
+   */
+  encryptPayload(subscription: PushSubscription, payload: Buffer): Buffer {
+    const userAgentPublicKey = Buffer.from(subscription.keys.p256dh, 'base64url');
+    const authSecret = Buffer.from(subscription.keys.auth, 'base64url');
+
+    const ecdh = createECDH('prime256v1');
+    const serverPublicKey = ecdh.generateKeys();
+    const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+    const salt = randomBytes(16);
+
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+    const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+    const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+    const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+    // Single record, terminated by the 0x02 padding delimiter
+    const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+    const ciphertext = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final()]);
+
+    const header = Buffer.alloc(21);
+    salt.copy(header, 0);
+    header.writeUInt32BE(RECORD_SIZE, 16);
+    header.writeUInt8(serverPublicKey.length, 20);
+
+    return Buffer.concat([header, serverPublicKey, ciphertext, cipher.getAuthTag()]);
+  }
+
+  /**
+   * Create the VAPID Authorization header for a push service origin
+   */
+  createVapidAuthorization(endpoint: string): string {
+    const { subject, publicKey, privateKey } = this.config.vapid;
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    const unsignedToken = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(Date.now() / 1000) + VAPID_EXPIRATION_SECONDS,
+      sub: subject
+    })}`;
+
+    const signature = sign('sha256', Buffer.from(unsignedToken), {
+      key: this.getSigningKey(publicKey, privateKey),
+      dsaEncoding: 'ieee-p1363'
+    });
+
+    return `vapid t=${unsignedToken}.${signature.toString('base64url')}, k=${publicKey}`;
+  }
+
+  /**
+   * Validate VAPID keys by signing a test token
+   */
+  async testConfiguration(): Promise<{ success: boolean; error?: string }> {
+    try {
+      this.createVapidAuthorization('https://push.example.com');
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private async sendToSubscription(
+    subscription: PushSubscription,
+    payload: Buffer,
+    severity: NotificationSeverity
+  ): Promise<TargetResult> {
+    const target = this.describeSubscription(subscription.endpoint);
+
+    if (subscription.expirationTime && subscription.expirationTime < Date.now()) {
+      return { target, status: 'expired', error: 'Subscription expired' };
+    }
+
+    const response = await axios.post(subscription.endpoint, this.encryptPayload(subscription, payload), {
+      headers: {
+        'Authorization': this.createVapidAuthorization(subscription.endpoint),
+        'Content-Type': 'application/octet-stream',
+        'Content-Encoding': 'aes128gcm',
+        'TTL': String(this.config.ttl ?? 86400),
+        'Urgency': this.getUrgency(severity)
+      },
+      timeout: 10000,
+      validateStatus: () => true
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      const location = response.headers?.location;
+      return { target, status: 'sent', messageId: typeof location === 'string' ? location : '' };
+    }
+
+    // The browser unsubscribed; the subscription should be removed
+    if (response.status === 404 || response.status === 410) {
+      return { target, status: 'expired', error: `Subscription gone (${response.status})` };
+    }
+
+    if (response.status === 429) {
+      return {
+        target,
+        status: 'failed',
+        error: 'Rate limited by push service',
+        retryAfter: Number(response.headers?.['retry-after']) || 60
+      };
+    }
+
+    return { target, status: 'failed', error: `Push service error ${response.status}` };
+  }
+
+  private parseSubscription(contact: string): PushSubscription {
+    let subscription: PushSubscription;
+    try {
+      subscription = JSON.parse(contact);
+    } catch {
+      throw new ChannelError('Push contact is not a JSON subscription', 'INVALID_SUBSCRIPTION', 'push');
+    }
+
+    if (!subscription?.endpoint || !subscription.keys?.p256dh || !subscription.keys?.auth) {
+      throw new ChannelError('Push subscription is missing endpoint or keys', 'INVALID_SUBSCRIPTION', 'push');
+    }
+    return subscription;
+  }
+
+  /**
+   * Endpoints are capability URLs, so results only name the push service
+   */
+  private describeSubscription(endpoint: string): string {
+    try {
+      return `subscription at ${new URL(endpoint).host}`;
+    } catch {
+      return 'subscription';
+    }
+  }
+
+  private getSigningKey(publicKey: string, privateKey: string) {
+    const point = Buffer.from(publicKey, 'base64url');
+    return createPrivateKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: point.subarray(1, 33).toString('base64url'),
+        y: point.subarray(33, 65).toString('base64url'),
+        d: privateKey
+      },
+      format: 'jwk'
+    });
+  }
+
+  private getUrgency(severity: NotificationSeverity): string {
+    const urgencyMap: Record<NotificationSeverity, string> = {
+      info: 'low',
+      warning: 'normal',
+      error: 'high',
+      critical: 'high'
+    };
+    return urgencyMap[severity] || 'normal';
+  }
+}
+
+/**
+ * Push Channel Factory
+ */
+export class PushChannelFactory {
+  static create(config: PushConfig): PushChannel {
+    return new PushChannel(config);
+  }
+
+  /**
+   * Generate a VAPID key pair (base64url, raw P-256)
+   */
+  static generateVapidKeys(): { publicKey: string; privateKey: string } {
+    const ecdh = createECDH('prime256v1');
+    ecdh.generateKeys();
+    return {
+      publicKey: ecdh.getPublicKey().toString('base64url'),
+      // getPrivateKey drops leading zero bytes
+      privateKey: Buffer.from(ecdh.getPrivateKey('hex').padStart(64, '0'), 'hex').toString('base64url')
+    };
+  }
+
+  static validateConfig(config: PushConfig): {
+    valid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+
+    if (!config.vapid?.subject || !/^(mailto:|https:\/\/)/.test(config.vapid.subject)) {
+      errors.push('VAPID subject must be a mailto: or https: URL');
+    }
+
+    if (!config.vapid?.publicKey || Buffer.from(config.vapid.publicKey, 'base64url').length !== 65) {
+      errors.push('VAPID public key must be a base64url encoded uncompressed P-256 point');
+    }
+
+    if (!config.vapid?.privateKey || Buffer.from(config.vapid.privateKey, 'base64url').length !== 32) {
+      errors.push('VAPID private key must be a base64url encoded 32 byte P-256 key');
+    }
+
+    if (config.ttl !== undefined && config.ttl < 0) {
+      errors.push('Push TTL must not be negative');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors
+    };
+  }
+}
@@ -3,7 +3,7 @@
  * 
  * Features:
  * - Rich message formatting with blocks and attachments
- * - Interactive buttons for acknowledgment and escalation
+ * - Interactive buttons to acknowledge, escalate and resolve alerts
  * - Thread management for follow-up messages
  * - File attachments and screenshots
  * - Channel and user mentions
@@ -21,6 +21,8 @@ import {
 import { WebClient as SlackWebClient } from '@slack/web-api';
 import { Client as GraphClient } from '@microsoft/microsoft-graph-client';
 import axios from 'axios';
+import { parseSlackInteraction, parseTeamsAction, SLACK_ESCALATION_BLOCK_PREFIX } from '../chatops/inbound.js';
+import { verifySlackSignature, BotFrameworkVerifier } from '../chatops/verify.js';
 
 export interface SlackMessageOptions {
   /** Channel to send to */
@@ -180,10 +182,14 @@ export class SlackChannel {
       } as any);
     }
 
-    // Add interactive buttons if enabled
+    // Add interactive buttons if enabled; the block carries the escalation so clicks can act on it
     if (this.config.enableButtons) {
+      const escalationId = notification.metadata.escalationId;
+      const hasEscalation = typeof escalationId === 'string';
+
       blocks.push({
         type: 'actions',
+        ...(hasEscalation && { block_id: `${SLACK_ESCALATION_BLOCK_PREFIX}${escalationId}` }),
         elements: [
           {
             type: 'button',
@@ -207,6 +213,16 @@ export class SlackChannel {
             action_id: 'escalate',
             value: notification.id
           },
+          ...(hasEscalation ? [{
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '✔️ Resolve',
+              emoji: true
+            },
+            action_id: 'resolve',
+            value: notification.id
+          }] : []),
           {
             type: 'button',
             text: {
@@ -267,6 +283,7 @@ export class SlackChannel {
     userId: string;
     channel: string;
     messageId: string;
+    escalationId?: string;
   }> {
     const action = payload.actions?.[0];
     const user = payload.user;
@@ -277,15 +294,27 @@ export class SlackChannel {
       throw new Error('Invalid interaction payload');
     }
 
+    const escalationId = parseSlackInteraction(payload)?.escalationId;
     return {
       action: action.action_id,
       notificationId: action.value,
       userId: user.id,
       channel: channel.id,
-      messageId: message.ts
+      messageId: message.ts,
+      ...(escalationId && { escalationId })
     };
   }
 
+  /**
+   * Verify an interaction or slash command request with the app's signing secret
+   */
+  verifyRequest(rawBody: string, timestamp: string, signature: string): boolean {
+    if (!this.config.signingSecret) {
+      throw new Error('Slack signing secret not configured');
+    }
+    return verifySlackSignature(this.config.signingSecret, rawBody, timestamp, signature);
+  }
+
 
   private getSeverityEmoji(severity: string): string {
     const emojiMap: Record<string, string> = {
@@ -301,9 +330,13 @@ export class SlackChannel {
 export class TeamsChannel {
   private graphClient: GraphClient;
   private config: TeamsConfig;
+  private verifier?: BotFrameworkVerifier;
 
   constructor(config: TeamsConfig) {
     this.config = config;
+    if (config.botAppId) {
+      this.verifier = new BotFrameworkVerifier(config.botAppId);
+    }
     
     // Initialize Graph client with app-only authentication
     this.graphClient = GraphClient.init({
@@ -359,6 +392,12 @@ export class TeamsChannel {
    */
   private buildTeamsMessage(notification: BaseNotification): TeamsMessageOptions {
     const importance = this.getImportance(notification.severity);
+    const escalationId = notification.metadata.escalationId;
+    const actionData = (action: string) => ({
+      action,
+      notificationId: notification.id,
+      ...(typeof escalationId === 'string' && { escalationId })
+    });
     
     const adaptiveCard = {
       type: 'AdaptiveCard',
@@ -409,19 +448,18 @@ export class TeamsChannel {
         {
           type: 'Action.Submit',
           title: '✅ Acknowledge',
-          data: {
-            action: 'acknowledge',
-            notificationId: notification.id
-          }
+          data: actionData('acknowledge')
         },
         {
           type: 'Action.Submit',
           title: '🚨 Escalate',
-          data: {
-            action: 'escalate',
-            notificationId: notification.id
-          }
+          data: actionData('escalate')
         },
+        ...(typeof escalationId === 'string' ? [{
+          type: 'Action.Submit',
+          title: '✔️ Resolve',
+          data: actionData('resolve')
+        }] : []),
         {
           type: 'Action.OpenUrl',
           title: '🔗 View Details',
@@ -439,6 +477,16 @@ export class TeamsChannel {
     };
   }
 
+  /**
+   * Verify the Bot Framework bearer token sent with card actions
+   */
+  async verifyRequest(authorization: string | undefined): Promise<boolean> {
+    if (!this.verifier) {
+      throw new Error('Teams bot app ID not configured');
+    }
+    return this.verifier.verify(authorization);
+  }
+
   /**
    * Get access token for Microsoft Graph
    */
@@ -576,6 +624,7 @@ export class ChatChannel {
     notificationId: string;
     userId: string;
     platform: string;
+    escalationId?: string;
   }> {
     if (platform === 'slack' && this.slackChannel) {
       const result = await this.slackChannel.handleInteraction(payload);
@@ -584,12 +633,13 @@ export class ChatChannel {
         platform: 'slack'
       };
     } else if (platform === 'teams') {
-      // Teams webhook handling would be implemented here
+      const command = parseTeamsAction(payload);
       return {
-        action: payload.data?.action || 'unknown',
-        notificationId: payload.data?.notificationId || '',
-        userId: payload.from?.user?.id || '',
-        platform: 'teams'
+        action: command?.action || 'unknown',
+        notificationId: command?.notificationId || '',
+        userId: command?.userId || '',
+        platform: 'teams',
+        ...(command?.escalationId && { escalationId: command.escalationId })
       };
     }
 
@@ -10,6 +10,7 @@
  * - International number formatting
  * - Message splitting for long content
  * - Rich media support for WhatsApp
+ * - Reply codes so recipients can ACK, ESC or RES an alert by text
  */
 
 import { 
@@ -20,6 +21,10 @@ import {
 } from '../types/index.js';
 import { Twilio } from 'twilio';
 import { SNS } from '@aws-sdk/client-sns';
+import { ChatOpsCommand } from '../chatops/handler.js';
+import { ReplyReferenceStore } from '../chatops/replies.js';
+import { parseTwilioReply } from '../chatops/inbound.js';
+import { verifyTwilioSignature } from '../chatops/verify.js';
 
 export interface SmsOptions {
   /** Phone number to send to */
@@ -58,9 +63,11 @@ export class SmsChannel {
   private twilioClient?: Twilio;
   private snsClient?: SNS;
   private config: SmsConfig;
+  private replies?: ReplyReferenceStore;
 
-  constructor(config: SmsConfig) {
+  constructor(config: SmsConfig, replies?: ReplyReferenceStore) {
     this.config = config;
+    this.replies = replies;
     
     if (config.provider === 'twilio') {
       this.twilioClient = new Twilio(
@@ -89,8 +96,19 @@ export class SmsChannel {
     const startTime = Date.now();
     
     try {
-      const message = this.formatMessage(notification, type);
       const formattedNumber = this.formatPhoneNumber(recipient);
+      let message = this.formatMessage(notification, type);
+
+      // Inbound replies arrive through Twilio's messaging webhook
+      if (this.replies && this.config.provider === 'twilio') {
+        const escalationId = notification.metadata.escalationId;
+        const code = await this.replies.register(formattedNumber, {
+          notificationId: notification.id,
+          ...(typeof escalationId === 'string' && { escalationId })
+        });
+        const hint = `\n\n${this.formatReplyHint(code, typeof escalationId === 'string')}`;
+        message = this.enforceMessageLimits(message, type, hint.length) + hint;
+      }
       
       const options: SmsOptions = {
         to: formattedNumber,
@@ -259,6 +277,15 @@ export class SmsChannel {
     return this.enforceMessageLimits(message, type);
   }
 
+  /**
+   * Reply instructions; escalating and resolving need an escalation
+   */
+  private formatReplyHint(code: number, escalation: boolean): string {
+    return escalation
+      ? `Reply ACK ${code}, ESC ${code} or RES ${code}`
+      : `Reply ACK ${code} to acknowledge`;
+  }
+
   /**
    * Get emoji for severity level
    */
@@ -287,13 +314,13 @@ export class SmsChannel {
   /**
    * Enforce message length limits
    */
-  private enforceMessageLimits(message: string, type: 'sms' | 'whatsapp'): string {
+  private enforceMessageLimits(message: string, type: 'sms' | 'whatsapp', reserved: number = 0): string {
     const limits = {
       sms: 1600, // 10 SMS segments (160 chars each)
       whatsapp: 4096 // WhatsApp limit
     };
     
-    const limit = limits[type];
+    const limit = limits[type] - reserved;
     return message.length > limit 
       ? message.substring(0, limit - 3) + '...'
       : message;
@@ -400,6 +427,27 @@ export class SmsChannel {
     };
   }
 
+  /**
+   * Handle an inbound SMS or WhatsApp reply; returns null for messages that aren't
+   * a reply keyword or whose code is unknown
+   */
+  async handleReply(payload: Record<string, string>): Promise<ChatOpsCommand | null> {
+    if (!this.replies) {
+      throw new Error('SMS replies not enabled');
+    }
+    return parseTwilioReply(payload, this.replies);
+  }
+
+  /**
+   * Verify the X-Twilio-Signature of an inbound webhook against the account auth token
+   */
+  verifyWebhook(url: string, params: Record<string, string>, signature: string): boolean {
+    const authToken = this.config.config.authToken;
+    return this.config.provider === 'twilio' && typeof authToken === 'string'
+      ? verifyTwilioSignature(authToken, url, params, signature)
+      : false;
+  }
+
   /**
    * Send bulk SMS messages
    */
@@ -0,0 +1,237 @@
+/**
+ * Telegram Notification Channel
+ *
+ * Features:
+ * - Telegram Bot API delivery to users, groups and channels
+ * - HTML formatted messages with severity emoji
+ * - Silent delivery for low severities
+ * - Inline acknowledge button with callback query handling
+ * - Bot API rate limit handling (429 retry_after)
+ */
+
+import {
+  BaseNotification,
+  TelegramConfig,
+  ChannelResult,
+  NotificationSeverity
+} from '../types/index.js';
+import { sendToTargets, TargetResult } from './fanout.js';
+import axios from 'axios';
+
+export interface TelegramMessageOptions {
+  chat_id: string;
+  text: string;
+  parse_mode: 'HTML';
+  disable_notification: boolean;
+  disable_web_page_preview: boolean;
+  reply_markup?: {
+    inline_keyboard: Array<Array<{ text: string; callback_data?: string; url?: string }>>;
+  };
+}
+
+// Telegram limits
+const MAX_MESSAGE_LENGTH = 4096;
+const MAX_CALLBACK_DATA_BYTES = 64;
+
+const SEVERITY_LEVELS: Record<NotificationSeverity, number> = { info: 0, warning: 1, error: 2, critical: 3 };
+
+export class TelegramChannel {
+  private config: TelegramConfig;
+
+  constructor(config: TelegramConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Send Telegram notification to each chat ID
+   */
+  async send(notification: BaseNotification, chatIds: string[] = []): Promise<ChannelResult> {
+    const targets = chatIds.length > 0
+      ? chatIds
+      : this.config.defaultChatId ? [this.config.defaultChatId] : [];
+
+    return sendToTargets('telegram', targets, chatId =>
+      this.sendMessage(this.buildMessage(notification, chatId))
+    );
+  }
+
+  /**
+   * Build HTML message with optional inline buttons
+   */
+  buildMessage(notification: BaseNotification, chatId: string): TelegramMessageOptions {
+    const header = `${this.getSeverityEmoji(notification.severity)} <b>${this.escapeHtml(notification.title)}</b>`;
+    const details = [
+      `<b>Severity:</b> ${notification.severity.toUpperCase()}`,
+      `<b>Source:</b> ${this.escapeHtml(notification.source)}`,
+      `<b>Priority:</b> ${notification.priority}/10`
+    ];
+
+    const tags = Object.entries(notification.tags);
+    if (tags.length > 0) {
+      details.push(`<i>${this.escapeHtml(tags.map(([key, value]) => `${key}: ${value}`).join(' • '))}</i>`);
+    }
+
+    // Only the body is shortened, so the HTML markup around it stays intact
+    const budget = MAX_MESSAGE_LENGTH - header.length - details.join('\n').length - 4;
+    const body = this.truncateEscaped(this.escapeHtml(notification.message), Math.max(budget, 0));
+
+    const silentBelow = this.config.silentBelow;
+    const message: TelegramMessageOptions = {
+      chat_id: chatId,
+      text: [header, '', body, '', ...details].join('\n'),
+      parse_mode: 'HTML',
+      disable_notification: silentBelow !== undefined &&
+        SEVERITY_LEVELS[notification.severity] < SEVERITY_LEVELS[silentBelow],
+      disable_web_page_preview: true
+    };
+
+    const buttons: Array<{ text: string; callback_data?: string; url?: string }> = [];
+    const callbackData = `ack:${notification.id}`;
+    if (this.config.enableButtons && Buffer.byteLength(callbackData) <= MAX_CALLBACK_DATA_BYTES) {
+      buttons.push({ text: '✅ Acknowledge', callback_data: callbackData });
+    }
+    if (typeof notification.metadata.url === 'string') {
+      buttons.push({ text: '🔗 View Details', url: notification.metadata.url });
+    }
+    if (buttons.length > 0) {
+      message.reply_markup = { inline_keyboard: [buttons] };
+    }
+
+    return message;
+  }
+
+  /**
+   * Parse a callback query from the bot's webhook or getUpdates
+   */
+  handleCallback(update: any): {
+    action: string;
+    notificationId: string;
+    userId: string;
+    chatId: string;
+    messageId: string;
+    callbackQueryId: string;
+  } {
+    const query = update?.callback_query;
+    const [action, ...rest] = String(query?.data || '').split(':');
+
+    if (!query || action !== 'ack' || rest.length === 0) {
+      throw new Error('Invalid Telegram callback payload');
+    }
+
+    return {
+      action: 'acknowledge',
+      notificationId: rest.join(':'),
+      userId: String(query.from?.id ?? ''),
+      chatId: String(query.message?.chat?.id ?? ''),
+      messageId: String(query.message?.message_id ?? ''),
+      callbackQueryId: String(query.id)
+    };
+  }
+
+  /**
+   * Confirm a button press so the client stops its loading indicator
+   */
+  async answerCallback(callbackQueryId: string, text: string): Promise<void> {
+    await this.callApi('answerCallbackQuery', { callback_query_id: callbackQueryId, text });
+  }
+
+  /**
+   * Test bot token with getMe
+   */
+  async testConfiguration(): Promise<{ success: boolean; botUsername?: string; error?: string }> {
+    try {
+      const response = await this.callApi('getMe', {});
+      if (response.data?.ok) {
+        return { success: true, botUsername: response.data.result?.username };
+      }
+      return { success: false, error: response.data?.description || `Telegram API error ${response.status}` };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  private async sendMessage(message: TelegramMessageOptions): Promise<TargetResult> {
+    const response = await this.callApi('sendMessage', message);
+    const target = `chat ${message.chat_id}`;
+
+    if (response.data?.ok) {
+      return { target, status: 'sent', messageId: String(response.data.result?.message_id ?? '') };
+    }
+
+    const description = response.data?.description || 'Unknown error';
+    if (response.status === 429) {
+      return {
+        target,
+        status: 'failed',
+        error: description,
+        retryAfter: Number(response.data?.parameters?.retry_after) || 1
+      };
+    }
+
+    return { target, status: 'failed', error: `Telegram API error ${response.status}: ${description}` };
+  }
+
+  private callApi(method: string, body: object) {
+    const apiUrl = this.config.apiUrl || 'https://api.telegram.org';
+    return axios.post(`${apiUrl}/bot${this.config.botToken}/${method}`, body, {
+      timeout: 10000,
+      validateStatus: () => true
+    });
+  }
+
+  private truncateEscaped(text: string, max: number): string {
+    if (text.length <= max) return text;
+
+    let cut = text.slice(0, Math.max(max - 1, 0));
+    // Don't split an entity such as &amp;
+    const ampersand = cut.lastIndexOf('&');
+    if (ampersand !== -1 && !cut.includes(';', ampersand)) {
+      cut = cut.slice(0, ampersand);
+    }
+    return cut + '…';
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  private getSeverityEmoji(severity: NotificationSeverity): string {
+    const emojiMap: Record<NotificationSeverity, string> = {
+      info: 'ℹ️',
+      warning: '⚠️',
+      error: '❌',
+      critical: '🚨'
+    };
+    return emojiMap[severity] || '🔔';
+  }
+}
+
+/**
+ * Telegram Channel Factory
+ */
+export class TelegramChannelFactory {
+  static create(config: TelegramConfig): TelegramChannel {
+    return new TelegramChannel(config);
+  }
+
+  static validateConfig(config: TelegramConfig): {
+    valid: boolean;
+    errors: string[];
+  } {
+    const errors: string[] = [];
+
+    if (!config.botToken) {
+      errors.push('Telegram bot token is required');
+    } else if (!/^\d+:[\w-]+$/.test(config.botToken)) {
+      errors.push('Invalid Telegram bot token format');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors
+    };
+  }
+}
@@ -17,6 +17,8 @@ import {
   DeliveryStatus
 } from '../types/index.js';
 import { Twilio } from 'twilio';
+import { ChatOpsCommand } from '../chatops/handler.js';
+import { parseVoiceGather } from '../chatops/inbound.js';
 
 export interface VoiceCallOptions {
   /** Phone number to call */
@@ -37,6 +39,8 @@ export interface VoiceCallOptions {
   interactive?: boolean;
   /** Callback URL for status updates */
   statusCallback?: string;
+  /** Alert references passed back with key presses */
+  gatherParams?: Record<string, string>;
 }
 
 export interface VoiceCallResult {
@@ -85,7 +89,13 @@ export class VoiceChannel {
         language: 'en-US',
         timeout: 30,
         interactive: notification.severity === 'critical',
-        statusCallback: this.config.config.statusCallback as string
+        statusCallback: this.config.config.statusCallback as string,
+        gatherParams: {
+          notificationId: notification.id,
+          ...(typeof notification.metadata.escalationId === 'string' && {
+            escalationId: notification.metadata.escalationId
+          })
+        }
       };
 
       const result = await this.makeCall(options);
@@ -150,8 +160,10 @@ export class VoiceChannel {
       </Say>`;
 
     if (options.interactive) {
+      const query = new URLSearchParams(options.gatherParams).toString();
+      const action = `${options.statusCallback}/acknowledge${query ? `?${query}` : ''}`;
       twiml += `
-      <Gather timeout="10" numDigits="1" action="${options.statusCallback}/acknowledge">
+      <Gather timeout="10" numDigits="1" action="${this.escapeXml(action)}">
         <Say voice="${options.voice}" language="${options.language}">
           Press 1 to acknowledge this alert, or press 2 to escalate.
         </Say>
@@ -269,45 +281,29 @@ export class VoiceChannel {
   }
 
   /**
-   * Handle webhook callbacks from Twilio
+   * Handle webhook callbacks from Twilio. Key presses come back as a chat ops
+   * command (1 = acknowledge, 2 = escalate) for a ChatOpsHandler to apply; merge the
+   * Gather action URL's query parameters into the payload so the command names the alert.
    */
   async handleWebhook(payload: Record<string, any>): Promise<{
     callSid: string;
     status: string;
     acknowledged?: boolean;
+    command?: ChatOpsCommand;
   }> {
     const callSid = payload.CallSid;
     const status = payload.CallStatus;
     const digits = payload.Digits;
-
-    let acknowledged: boolean | undefined;
-    
-    // Handle acknowledgment
-    if (digits) {
-      acknowledged = digits === '1'; // 1 = acknowledged, 2 = escalate
-      
-      if (digits === '2') {
-        // Handle escalation request
-        await this.handleEscalationRequest(callSid);
-      }
-    }
+    const command = digits ? parseVoiceGather(payload) : null;
 
     return {
       callSid,
       status,
-      acknowledged
+      ...(digits && { acknowledged: digits === '1' }),
+      ...(command && { command })
     };
   }
 
-  /**
-   * Handle escalation request
-   */
-  private async handleEscalationRequest(callSid: string): Promise<void> {
-    // This would typically trigger an escalation process
-    console.log(`Escalation requested for call ${callSid}`);
-    // Implementation depends on the escalation system
-  }
-
   /**
    * Test voice configuration
    */
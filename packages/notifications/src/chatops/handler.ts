@@ -0,0 +1,124 @@
+/**
+ * Chat Ops
+ *
+ * Features:
+ * - Acknowledge, escalate and resolve alerts from Slack, Teams, SMS and voice replies
+ * - Notification acknowledgments recorded with the delivery tracker
+ * - Escalation actions forwarded to the alerts escalation manager
+ * - Reply text for the person who acted
+ */
+
+import { NotificationChannel, UUID } from '../types/index.js';
+
+export type ChatOpsAction = 'acknowledge' | 'escalate' | 'resolve';
+
+export interface ChatOpsCommand {
+  action: ChatOpsAction;
+  /** Channel the command came from */
+  channel: NotificationChannel;
+  /** Platform user ID, or the phone number for SMS and voice */
+  userId: string;
+  /** Notification the command refers to */
+  notificationId?: UUID;
+  /** Escalation the command refers to */
+  escalationId?: string;
+  notes?: string;
+}
+
+export interface ChatOpsResult {
+  command: ChatOpsCommand;
+  success: boolean;
+  /** Reply for the person who sent the command */
+  message: string;
+}
+
+/** Structural subset of NotificationService */
+export interface NotificationAcknowledger {
+  acknowledge(notificationId: UUID, userId: string, notes?: string, channel?: NotificationChannel): Promise<void>;
+}
+
+/** Structural subset of the alerts EscalationManager */
+export interface EscalationActions {
+  acknowledgeEscalation(escalationId: string, acknowledgedBy: string): Promise<boolean>;
+  resolveEscalation(escalationId: string, resolvedBy: string): Promise<boolean>;
+  escalateNow(escalationId: string, requestedBy: string): Promise<boolean>;
+}
+
+const ACTION_KEYWORDS: Record<string, ChatOpsAction> = {
+  ack: 'acknowledge',
+  acknowledge: 'acknowledge',
+  esc: 'escalate',
+  escalate: 'escalate',
+  res: 'resolve',
+  resolve: 'resolve'
+};
+
+/**
+ * Map a reply keyword or button action (ACK, escalate, ...) to its action
+ */
+export function parseChatOpsAction(keyword: string): ChatOpsAction | null {
+  return ACTION_KEYWORDS[keyword.trim().toLowerCase()] ?? null;
+}
+
+export class ChatOpsHandler {
+  private notifications: NotificationAcknowledger;
+  private escalations?: EscalationActions;
+
+  constructor(notifications: NotificationAcknowledger, escalations?: EscalationActions) {
+    this.notifications = notifications;
+    this.escalations = escalations;
+  }
+
+  /**
+   * Apply a command; failures are reported in the result rather than thrown
+   */
+  async execute(command: ChatOpsCommand): Promise<ChatOpsResult> {
+    const { action, notificationId, escalationId, userId } = command;
+    const reference = escalationId || notificationId;
+    const fail = (message: string): ChatOpsResult => ({ command, success: false, message });
+
+    if (!reference) {
+      return fail('No alert found for this reply');
+    }
+    if (action !== 'acknowledge' && !escalationId) {
+      return fail(`Alert ${reference} has no escalation to ${action}`);
+    }
+    if (escalationId && !this.escalations && action !== 'acknowledge') {
+      return fail(`Escalations are not connected, so alert ${reference} cannot be ${action}d`);
+    }
+
+    try {
+      switch (action) {
+        case 'acknowledge': {
+          if (notificationId) {
+            await this.notifications.acknowledge(notificationId, userId, command.notes, command.channel);
+          }
+          // The escalation may already be acknowledged; the notification receipt still counts
+          const acknowledged = escalationId && this.escalations
+            ? await this.escalations.acknowledgeEscalation(escalationId, userId)
+            : false;
+          return acknowledged || notificationId
+            ? { command, success: true, message: `Alert ${reference} acknowledged by ${userId}` }
+            : fail(`Alert ${reference} is not active`);
+        }
+
+        case 'escalate':
+          return await this.escalations!.escalateNow(escalationId!, userId)
+            ? { command, success: true, message: `Alert ${reference} escalated by ${userId}` }
+            : fail(`Alert ${reference} is not active`);
+
+        case 'resolve': {
+          const resolved = await this.escalations!.resolveEscalation(escalationId!, userId);
+          if (resolved && notificationId) {
+            await this.notifications.acknowledge(notificationId, userId, command.notes, command.channel);
+          }
+          return resolved
+            ? { command, success: true, message: `Alert ${reference} resolved by ${userId}` }
+            : fail(`Alert ${reference} is already resolved`);
+        }
+      }
+    } catch (error) {
+      return fail(`Could not ${action} alert ${reference}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
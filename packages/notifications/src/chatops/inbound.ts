@@ -0,0 +1,119 @@
+/**
+ * Inbound Chat Ops Parsers
+ *
+ * Turn platform callbacks (Slack block actions and slash commands, Teams card
+ * actions, Twilio SMS replies and voice key presses) into chat ops commands.
+ * Callers verify the request first; see verify.ts.
+ */
+
+import { ChatOpsCommand, parseChatOpsAction } from './handler.js';
+import { ReplyReferenceStore, parseReplyKeyword } from './replies.js';
+
+/** Slack actions blocks carry the escalation in their block_id */
+export const SLACK_ESCALATION_BLOCK_PREFIX = 'escalation:';
+
+const VOICE_DIGIT_ACTIONS: Record<string, ChatOpsCommand['action']> = {
+  '1': 'acknowledge',
+  '2': 'escalate'
+};
+
+/**
+ * Parse a Slack block_actions payload; returns null for buttons that don't change state
+ */
+export function parseSlackInteraction(payload: any): ChatOpsCommand | null {
+  const button = payload?.actions?.[0];
+  const userId = payload?.user?.id;
+  const action = button?.action_id ? parseChatOpsAction(button.action_id) : null;
+  if (!action || !userId) return null;
+
+  const blockId: string | undefined = button.block_id;
+  const escalationId = blockId?.startsWith(SLACK_ESCALATION_BLOCK_PREFIX)
+    ? blockId.slice(SLACK_ESCALATION_BLOCK_PREFIX.length)
+    : undefined;
+
+  return {
+    action,
+    channel: 'slack',
+    userId,
+    ...(button.value && { notificationId: button.value }),
+    ...(escalationId && { escalationId })
+  };
+}
+
+/**
+ * Parse a slash command such as `/alert ack <escalationId> looking into it`
+ */
+export function parseSlackCommand(params: Record<string, string>): ChatOpsCommand | null {
+  const [keyword = '', escalationId, ...notes] = (params.text || '').trim().split(/\s+/);
+  const action = parseChatOpsAction(keyword);
+  if (!action || !escalationId || !params.user_id) return null;
+
+  return {
+    action,
+    channel: 'slack',
+    userId: params.user_id,
+    escalationId,
+    ...(notes.length > 0 && { notes: notes.join(' ') })
+  };
+}
+
+/**
+ * Parse a Teams invoke or message activity from an adaptive card button.
+ * Action.Submit puts the card data in `value`; Action.Execute nests it in `value.action.data`.
+ */
+export function parseTeamsAction(activity: any): ChatOpsCommand | null {
+  const data = activity?.value?.action?.data ?? activity?.value;
+  const userId = activity?.from?.aadObjectId || activity?.from?.id;
+  const action = typeof data?.action === 'string' ? parseChatOpsAction(data.action) : null;
+  if (!action || !userId) return null;
+
+  return {
+    action,
+    channel: 'teams',
+    userId,
+    ...(data.notificationId && { notificationId: data.notificationId }),
+    ...(data.escalationId && { escalationId: data.escalationId })
+  };
+}
+
+/**
+ * Parse an inbound Twilio SMS or WhatsApp message ("ACK 12", "res")
+ */
+export async function parseTwilioReply(
+  params: Record<string, string>,
+  replies: ReplyReferenceStore
+): Promise<ChatOpsCommand | null> {
+  const from = params.From || '';
+  const whatsapp = from.startsWith('whatsapp:');
+  const contact = whatsapp ? from.slice('whatsapp:'.length) : from;
+  const reply = parseReplyKeyword(params.Body || '');
+  if (!reply || !contact) return null;
+
+  const reference = await replies.resolve(contact, reply.code);
+  if (!reference) return null;
+
+  return {
+    action: reply.action,
+    channel: whatsapp ? 'whatsapp' : 'sms',
+    userId: contact,
+    notificationId: reference.notificationId,
+    ...(reference.escalationId && { escalationId: reference.escalationId }),
+    ...(reply.notes && { notes: reply.notes })
+  };
+}
+
+/**
+ * Parse a Twilio Gather callback; the alert references come from the action URL's query string
+ */
+export function parseVoiceGather(params: Record<string, string>): ChatOpsCommand | null {
+  const action = VOICE_DIGIT_ACTIONS[params.Digits || ''];
+  if (!action || !params.To) return null;
+
+  return {
+    action,
+    channel: 'voice',
+    userId: params.To,
+    ...(params.notificationId && { notificationId: params.notificationId }),
+    ...(params.escalationId && { escalationId: params.escalationId })
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Reply References
+ *
+ * SMS and WhatsApp replies carry no thread, so each alert sent to a contact gets a
+ * short code ("Reply ACK 12") that maps the reply back to its notification and escalation.
+ */
+
+import Redis from 'ioredis';
+import { UUID } from '../types/index.js';
+import { ChatOpsAction, parseChatOpsAction } from './handler.js';
+
+export interface ReplyReference {
+  notificationId: UUID;
+  escalationId?: string;
+}
+
+export interface ReplyReferenceStore {
+  /** Remember an alert sent to a contact; returns the code to reply with */
+  register(contact: string, reference: ReplyReference): Promise<number>;
+  /** Look up a code, or the contact's latest alert when no code was given */
+  resolve(contact: string, code?: number): Promise<ReplyReference | null>;
+}
+
+export interface ParsedReply {
+  action: ChatOpsAction;
+  code?: number;
+  notes?: string;
+}
+
+/** How long a reply code stays valid */
+export const REPLY_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const MAX_REPLY_CODE = 999;
+const REPLY_PATTERN = /^\s*(ack|acknowledge|esc|escalate|res|resolve)\b\s*(\d+)?\s*(.*)$/i;
+
+/**
+ * Parse "ACK 12 on it" style replies; returns null for anything else
+ */
+export function parseReplyKeyword(text: string): ParsedReply | null {
+  const match = REPLY_PATTERN.exec(text);
+  if (!match) return null;
+
+  const action = parseChatOpsAction(match[1]!);
+  if (!action) return null;
+
+  const notes = match[3]?.trim();
+  return {
+    action,
+    ...(match[2] && { code: parseInt(match[2], 10) }),
+    ...(notes && { notes })
+  };
+}
+
+export class RedisReplyReferenceStore implements ReplyReferenceStore {
+  private redis: Redis;
+  private keyPrefix: string = 'notifications:replies';
+
+  constructor(redisConfig: any) {
+    this.redis = new Redis(redisConfig);
+  }
+
+  async register(contact: string, reference: ReplyReference): Promise<number> {
+    const key = `${this.keyPrefix}:${contact}`;
+    const sequence = await this.redis.hincrby(key, 'sequence', 1);
+    const code = ((sequence - 1) % MAX_REPLY_CODE) + 1;
+
+    await this.redis.multi()
+      .hset(key, String(code), JSON.stringify(reference), 'latest', String(code))
+      .expire(key, REPLY_TTL_SECONDS)
+      .exec();
+    return code;
+  }
+
+  async resolve(contact: string, code?: number): Promise<ReplyReference | null> {
+    const key = `${this.keyPrefix}:${contact}`;
+    const field = code !== undefined ? String(code) : await this.redis.hget(key, 'latest');
+    if (!field) return null;
+
+    const data = await this.redis.hget(key, field);
+    return data ? JSON.parse(data) as ReplyReference : null;
+  }
+}
+
+/**
+ * Memory reply store for development and tests
+ */
+export class MemoryReplyReferenceStore implements ReplyReferenceStore {
+  private contacts: Map<string, { sequence: number; latest: number; codes: Map<number, ReplyReference> }> = new Map();
+
+  async register(contact: string, reference: ReplyReference): Promise<number> {
+    let entry = this.contacts.get(contact);
+    if (!entry) {
+      entry = { sequence: 0, latest: 0, codes: new Map() };
+      this.contacts.set(contact, entry);
+    }
+
+    const code = (entry.sequence % MAX_REPLY_CODE) + 1;
+    entry.sequence++;
+    entry.latest = code;
+    entry.codes.set(code, { ...reference });
+    return code;
+  }
+
+  async resolve(contact: string, code?: number): Promise<ReplyReference | null> {
+    const entry = this.contacts.get(contact);
+    if (!entry) return null;
+
+    return entry.codes.get(code ?? entry.latest) ?? null;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Chat Ops Request Verification
+ *
+ * Inbound button clicks and replies change alert state, so every platform's
+ * request is authenticated before it is acted on:
+ * - Slack: v0 HMAC-SHA256 signing secret
+ * - Twilio: X-Twilio-Signature HMAC-SHA1 over the URL and form parameters
+ * - Teams: Bot Framework JWT signed with a key from the Bot Framework JWKS
+ */
+
+import axios from 'axios';
+import crypto from 'crypto';
+
+/** Slack rejects signatures older than five minutes to stop replays */
+const SLACK_MAX_AGE_SECONDS = 5 * 60;
+
+const BOT_FRAMEWORK_OPENID_URL = 'https://login.botframework.com/v1/.well-known/openidconfiguration';
+const BOT_FRAMEWORK_ISSUER = 'https://api.botframework.com';
+const JWKS_CACHE_MS = 24 * 60 * 60 * 1000;
+const JWKS_MIN_REFRESH_MS = 5 * 60 * 1000;
+const CLOCK_LEEWAY_SECONDS = 5 * 60;
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * Verify the X-Slack-Signature header of an interaction or slash command request
+ */
+export function verifySlackSignature(
+  signingSecret: string,
+  rawBody: string,
+  timestamp: string,
+  signature: string,
+  now: number = Date.now()
+): boolean {
+  const requestTime = parseInt(timestamp, 10);
+  if (!Number.isFinite(requestTime) || Math.abs(now / 1000 - requestTime) > SLACK_MAX_AGE_SECONDS) {
+    return false;
+  }
+
+  const expected = 'v0=' + crypto
+    .createHmac('sha256', signingSecret)
+    .update(`v0:${timestamp}:${rawBody}`)
+    .digest('hex');
+  return safeEqual(signature, expected);
+}
+
+/**
+ * Verify the X-Twilio-Signature header of an SMS or voice webhook.
+ * `url` must be the full public URL Twilio called, including the query string.
+ */
+export function verifyTwilioSignature(
+  authToken: string,
+  url: string,
+  params: Record<string, string>,
+  signature: string
+): boolean {
+  const data = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+
+  const expected = crypto
+    .createHmac('sha1', authToken)
+    .update(data, 'utf8')
+    .digest('base64');
+  return safeEqual(signature, expected);
+}
+
+interface JsonWebKeyWithId extends crypto.JsonWebKey {
+  kid?: string;
+}
+
+/**
+ * Verifies the bearer token Bot Framework sends with Teams activities
+ */
+export class BotFrameworkVerifier {
+  private appId: string;
+  private openIdUrl: string;
+  private keys?: { fetchedAt: number; keys: JsonWebKeyWithId[] };
+
+  constructor(appId: string, openIdUrl: string = BOT_FRAMEWORK_OPENID_URL) {
+    this.appId = appId;
+    this.openIdUrl = openIdUrl;
+  }
+
+  /**
+   * Verify an Authorization header; returns false for missing, expired or forged tokens
+   */
+  async verify(authorization: string | undefined, now: number = Date.now()): Promise<boolean> {
+    const token = authorization?.startsWith('Bearer ') ? authorization.slice(7) : undefined;
+    const parts = token?.split('.');
+    if (!parts || parts.length !== 3) {
+      return false;
+    }
+
+    try {
+      const [encodedHeader, encodedPayload, encodedSignature] = parts as [string, string, string];
+      const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString());
+      const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+      if (header.alg !== 'RS256') {
+        return false;
+      }
+
+      const jwk = await this.getKey(header.kid, now);
+      if (!jwk) {
+        return false;
+      }
+
+      const valid = crypto
+        .createVerify('RSA-SHA256')
+        .update(`${encodedHeader}.${encodedPayload}`)
+        .verify(crypto.createPublicKey({ key: jwk, format: 'jwk' }), Buffer.from(encodedSignature, 'base64url'));
+
+      const seconds = now / 1000;
+      return valid &&
+        payload.iss === BOT_FRAMEWORK_ISSUER &&
+        payload.aud === this.appId &&
+        typeof payload.exp === 'number' && payload.exp + CLOCK_LEEWAY_SECONDS > seconds &&
+        (payload.nbf === undefined || payload.nbf - CLOCK_LEEWAY_SECONDS <= seconds);
+    } catch {
+      return false;
+    }
+  }
+
+  private async getKey(kid: string | undefined, now: number): Promise<JsonWebKeyWithId | undefined> {
+    const find = () => this.keys?.keys.find(key => key.kid === kid);
+
+    // Keys rotate, so an unknown kid also refreshes the set, at most every few minutes
+    const age = this.keys ? now - this.keys.fetchedAt : Infinity;
+    if (age > JWKS_CACHE_MS || (!find() && age > JWKS_MIN_REFRESH_MS)) {
+      const config = await axios.get(this.openIdUrl);
+      const jwks = await axios.get(config.data.jwks_uri);
+      this.keys = { fetchedAt: now, keys: jwks.data.keys ?? [] };
+    }
+    return find();
+  }
+}
@@ -0,0 +1,405 @@
+/**
+ * Digests and Quiet Hours
+ *
+ * Features:
+ * - Per-recipient quiet hours in the recipient's timezone, with severity overrides
+ * - Hourly and daily digests batching info/warning notifications
+ * - Critical notifications always delivered immediately
+ * - Digest rendering through the template engine
+ * - Redis queue shared between instances, memory for development
+ */
+
+import {
+  BaseNotification,
+  DeferredDelivery,
+  DeliveryConfig,
+  DigestPreference,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationRecipient,
+  NotificationSeverity,
+  QuietHours,
+  UUID
+} from '../types/index.js';
+import { TemplateEngine } from '../templates/engine.js';
+import Redis from 'ioredis';
+
+export interface DigestConfig {
+  /** How often due digests are sent, in milliseconds (default 60000) */
+  flushInterval?: number;
+  /** Registered template for the digest body; the built-in layout is used otherwise */
+  templateName?: string;
+}
+
+export interface DigestEntry {
+  /** Held notification */
+  notificationId: UUID;
+  /** Recipient as routed when the notification was held */
+  recipient: NotificationRecipient;
+  title: string;
+  message: string;
+  severity: NotificationSeverity;
+  priority: number;
+  category: NotificationCategory;
+  source: string;
+  timestamp: number;
+  /** Channels the notification was routed to */
+  channels: NotificationChannel[];
+  reason: DeferredDelivery['reason'];
+  dueAt: number;
+}
+
+export interface Digest {
+  recipient: NotificationRecipient;
+  entries: DigestEntry[];
+  subject: string;
+  body: string;
+}
+
+export interface DigestPreview extends Digest {
+  /** When the digest goes out; null when nothing is queued */
+  dueAt: number | null;
+  severityCounts: Record<NotificationSeverity, number>;
+}
+
+export interface DigestStore {
+  /** Queue an entry; a notification is held once per recipient */
+  add(entry: DigestEntry): Promise<void>;
+  /** Entries queued for a recipient */
+  list(recipientId: string): Promise<DigestEntry[]>;
+  /** Recipients with an entry due at or before `now` */
+  due(now: number): Promise<string[]>;
+  /** Remove and return a recipient's entries */
+  take(recipientId: string): Promise<DigestEntry[]>;
+}
+
+// Error and critical are never batched
+const DIGEST_SEVERITIES: NotificationSeverity[] = ['info', 'warning'];
+const SEVERITY_LEVELS: Record<NotificationSeverity, number> = { info: 0, warning: 1, error: 2, critical: 3 };
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTE = 60 * 1000;
+
+const DEFAULT_SUBJECT_TEMPLATE =
+  '{{count}} {{#if (eq count 1)}}notification{{else}}notifications{{/if}} from {{source}}';
+
+const DEFAULT_BODY_TEMPLATE = `{{#each entries}}
+{{severityIcon severity}} [{{upper severity}}] {{title}}
+{{message}}
+{{source}} · {{formatDate timestamp}}{{#if (eq reason "quiet-hours")}} · held for quiet hours{{/if}}
+
+{{/each}}`;
+
+/**
+ * Redis digest queue: a hash of entries per recipient and one sorted set of
+ * recipients scored by their earliest due time
+ */
+export class RedisDigestStore implements DigestStore {
+  private redis: Redis;
+  private keyPrefix: string = 'notifications:digest';
+
+  constructor(redisConfig: any) {
+    this.redis = new Redis(redisConfig);
+  }
+
+  async add(entry: DigestEntry): Promise<void> {
+    await this.redis.multi()
+      .hset(this.getEntriesKey(entry.recipient.id), entry.notificationId, JSON.stringify(entry))
+      // LT keeps the earliest due time when the recipient is already queued
+      .zadd(`${this.keyPrefix}:due`, 'LT', entry.dueAt, entry.recipient.id)
+      .exec();
+  }
+
+  async list(recipientId: string): Promise<DigestEntry[]> {
+    const values = await this.redis.hvals(this.getEntriesKey(recipientId));
+    return values.map(value => JSON.parse(value) as DigestEntry);
+  }
+
+  async due(now: number): Promise<string[]> {
+    return this.redis.zrangebyscore(`${this.keyPrefix}:due`, '-inf', now);
+  }
+
+  async take(recipientId: string): Promise<DigestEntry[]> {
+    // One transaction, so two instances flushing together don't both send
+    const results = await this.redis.multi()
+      .hvals(this.getEntriesKey(recipientId))
+      .del(this.getEntriesKey(recipientId))
+      .zrem(`${this.keyPrefix}:due`, recipientId)
+      .exec();
+
+    const values = (results?.[0]?.[1] as string[] | undefined) ?? [];
+    return values.map(value => JSON.parse(value) as DigestEntry);
+  }
+
+  private getEntriesKey(recipientId: string): string {
+    return `${this.keyPrefix}:recipients:${recipientId}`;
+  }
+}
+
+/**
+ * Memory digest queue for development and tests
+ */
+export class MemoryDigestStore implements DigestStore {
+  private entries: Map<string, Map<UUID, DigestEntry>> = new Map();
+
+  async add(entry: DigestEntry): Promise<void> {
+    if (!this.entries.has(entry.recipient.id)) {
+      this.entries.set(entry.recipient.id, new Map());
+    }
+    this.entries.get(entry.recipient.id)!.set(entry.notificationId, entry);
+  }
+
+  async list(recipientId: string): Promise<DigestEntry[]> {
+    return Array.from(this.entries.get(recipientId)?.values() ?? []);
+  }
+
+  async due(now: number): Promise<string[]> {
+    return Array.from(this.entries.entries())
+      .filter(([, entries]) => Array.from(entries.values()).some(entry => entry.dueAt <= now))
+      .map(([recipientId]) => recipientId);
+  }
+
+  async take(recipientId: string): Promise<DigestEntry[]> {
+    const entries = await this.list(recipientId);
+    this.entries.delete(recipientId);
+    return entries;
+  }
+}
+
+export class DigestScheduler {
+  private config: DigestConfig;
+  private store: DigestStore;
+  private templateEngine: TemplateEngine;
+
+  constructor(config: DigestConfig, store: DigestStore, templateEngine: TemplateEngine) {
+    this.config = config;
+    this.store = store;
+    this.templateEngine = templateEngine;
+  }
+
+  /**
+   * Decide whether a recipient gets the notification now; returns the deferral when held
+   */
+  getDeferral(
+    notification: BaseNotification,
+    recipient: NotificationRecipient,
+    now: number = Date.now()
+  ): DeferredDelivery | null {
+    // Critical pages always go out
+    if (notification.severity === 'critical') return null;
+
+    // Quiet hours that apply to this severity
+    const quietHours = recipient.quietHours &&
+      !(recipient.quietHours.allowSeverities ?? []).includes(notification.severity)
+      ? recipient.quietHours
+      : undefined;
+
+    if (recipient.digest && this.isDigestSeverity(recipient.digest, notification.severity)) {
+      let dueAt = this.getNextDigestTime(recipient.digest, now, recipient.timezone);
+      if (quietHours && this.isQuietAt(quietHours, dueAt, recipient.timezone)) {
+        dueAt = this.getQuietHoursEnd(quietHours, dueAt, recipient.timezone);
+      }
+      return { recipientId: recipient.id, reason: 'digest', dueAt };
+    }
+
+    if (quietHours && this.isQuietAt(quietHours, now, recipient.timezone)) {
+      return {
+        recipientId: recipient.id,
+        reason: 'quiet-hours',
+        dueAt: this.getQuietHoursEnd(quietHours, now, recipient.timezone)
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Queue a held notification for its recipient
+   */
+  async hold(notification: BaseNotification, recipient: NotificationRecipient, deferral: DeferredDelivery): Promise<void> {
+    await this.store.add({
+      notificationId: notification.id,
+      recipient,
+      title: notification.title,
+      message: notification.message,
+      severity: notification.severity,
+      priority: notification.priority,
+      category: notification.category,
+      source: notification.source,
+      timestamp: notification.timestamp,
+      channels: notification.delivery.channels,
+      reason: deferral.reason,
+      dueAt: deferral.dueAt
+    });
+  }
+
+  /**
+   * Render what a recipient's next digest will contain, without sending it
+   */
+  async preview(recipientId: string): Promise<DigestPreview | null> {
+    const entries = await this.store.list(recipientId);
+    if (entries.length === 0) return null;
+
+    const digest = await this.render(entries);
+    const severityCounts: Record<NotificationSeverity, number> = { info: 0, warning: 0, error: 0, critical: 0 };
+    entries.forEach(entry => severityCounts[entry.severity]++);
+
+    return {
+      ...digest,
+      dueAt: Math.min(...entries.map(entry => entry.dueAt)),
+      severityCounts
+    };
+  }
+
+  /**
+   * Take and render every digest due by `now`; everything queued for a due recipient goes out together
+   */
+  async takeDue(now: number = Date.now()): Promise<Digest[]> {
+    const digests: Digest[] = [];
+
+    for (const recipientId of await this.store.due(now)) {
+      const entries = await this.store.take(recipientId);
+      if (entries.length > 0) {
+        digests.push(await this.render(entries));
+      }
+    }
+
+    return digests;
+  }
+
+  /**
+   * Put a digest's entries back, e.g. after a failed send
+   */
+  async requeue(digest: Digest, dueAt: number): Promise<void> {
+    for (const entry of digest.entries) {
+      await this.store.add({ ...entry, dueAt });
+    }
+  }
+
+  /**
+   * Build the notification that delivers a digest
+   */
+  buildNotification(digest: Digest, delivery: Pick<DeliveryConfig, 'retry' | 'timeout'>): BaseNotification {
+    const { entries } = digest;
+    const severity = entries.reduce<NotificationSeverity>(
+      (highest, entry) => SEVERITY_LEVELS[entry.severity] > SEVERITY_LEVELS[highest] ? entry.severity : highest,
+      'info'
+    );
+    const categories = new Set(entries.map(entry => entry.category));
+
+    // The digest must not be held again
+    const { quietHours: _quietHours, digest: _digest, ...recipient } = digest.recipient;
+
+    return {
+      id: `digest-${digest.recipient.id}-${Date.now()}`,
+      title: digest.subject,
+      message: digest.body,
+      severity,
+      priority: Math.min(...entries.map(entry => entry.priority)),
+      category: categories.size === 1 ? entries[0].category : 'system',
+      source: 'digest',
+      timestamp: Date.now(),
+      tags: { digest: digest.recipient.digest?.frequency ?? 'quiet-hours' },
+      metadata: {
+        digest: true,
+        notificationIds: entries.map(entry => entry.notificationId)
+      },
+      recipients: [recipient],
+      delivery: {
+        channels: Array.from(new Set(entries.flatMap(entry => entry.channels))),
+        retry: delivery.retry,
+        timeout: delivery.timeout
+      }
+    };
+  }
+
+  getFlushInterval(): number {
+    return this.config.flushInterval ?? MINUTE;
+  }
+
+  private async render(entries: DigestEntry[]): Promise<Digest> {
+    const sorted = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+    // The latest routing of the recipient wins
+    const recipient = sorted[sorted.length - 1].recipient;
+    const sources = new Set(sorted.map(entry => entry.source));
+
+    const variables = {
+      recipient,
+      entries: sorted,
+      count: sorted.length,
+      frequency: recipient.digest?.frequency,
+      source: sources.size === 1 ? sorted[0].source : `${sources.size} sources`,
+      since: sorted[0].timestamp
+    };
+
+    const subject = await this.templateEngine.compile(DEFAULT_SUBJECT_TEMPLATE, variables);
+    const body = this.config.templateName
+      ? await this.templateEngine.render(this.config.templateName, variables)
+      : await this.templateEngine.compile(DEFAULT_BODY_TEMPLATE, variables);
+
+    return { recipient, entries: sorted, subject, body: body.trim() };
+  }
+
+  private isDigestSeverity(preference: DigestPreference, severity: NotificationSeverity): boolean {
+    return (preference.severities ?? DIGEST_SEVERITIES)
+      .filter(s => DIGEST_SEVERITIES.includes(s))
+      .includes(severity);
+  }
+
+  private getNextDigestTime(preference: DigestPreference, now: number, timezone?: string): number {
+    const { minutes } = this.getLocalTime(now, timezone);
+
+    const wait = preference.frequency === 'hourly'
+      ? 60 - (minutes % 60)
+      : this.minutesUntil(minutes, this.parseTime(preference.deliveryTime ?? '09:00')) || MINUTES_PER_DAY;
+
+    return this.startOfMinute(now) + wait * MINUTE;
+  }
+
+  private isQuietAt(quietHours: QuietHours, time: number, timezone?: string): boolean {
+    const { day, minutes } = this.getLocalTime(time, timezone);
+    const start = this.parseTime(quietHours.startTime);
+    const end = this.parseTime(quietHours.endTime);
+    const startsOn = (d: number) => !quietHours.daysOfWeek || quietHours.daysOfWeek.includes(d);
+
+    if (start < end) {
+      return startsOn(day) && minutes >= start && minutes < end;
+    }
+    // Overnight: the part after midnight belongs to the previous day's quiet hours
+    return (startsOn(day) && minutes >= start) || (startsOn((day + 6) % 7) && minutes < end);
+  }
+
+  private getQuietHoursEnd(quietHours: QuietHours, time: number, timezone?: string): number {
+    const { minutes } = this.getLocalTime(time, timezone);
+    return this.startOfMinute(time) + this.minutesUntil(minutes, this.parseTime(quietHours.endTime)) * MINUTE;
+  }
+
+  private getLocalTime(time: number, timezone?: string): { day: number; minutes: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone || 'UTC',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(new Date(time));
+    const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+
+    return {
+      day: WEEKDAYS.indexOf(part('weekday')),
+      minutes: Number(part('hour')) * 60 + Number(part('minute'))
+    };
+  }
+
+  private parseTime(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private minutesUntil(from: number, to: number): number {
+    return (to - from + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  }
+
+  private startOfMinute(time: number): number {
+    return time - (time % MINUTE);
+  }
+}
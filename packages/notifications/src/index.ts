@@ -34,6 +34,23 @@ export type {
 export { EmailChannel, EmailChannelFactory } from './channels/email.js';
 export type { EmailOptions, EmailAttachment, EmailResult } from './channels/email.js';
 
+export { DiscordChannel, DiscordChannelFactory } from './channels/discord.js';
+export type { DiscordEmbed, DiscordMessage } from './channels/discord.js';
+
+export { TelegramChannel, TelegramChannelFactory } from './channels/telegram.js';
+export type { TelegramMessageOptions } from './channels/telegram.js';
+
+export { PushChannel, PushChannelFactory } from './channels/push.js';
+export type { PushPayload } from './channels/push.js';
+
+export {
+  InAppChannel,
+  InAppChannelFactory,
+  RedisInAppInbox,
+  MemoryInAppInbox
+} from './channels/in-app.js';
+export type { InAppInbox, InAppMessage, InAppListOptions } from './channels/in-app.js';
+
 // Export webhook management
 export { WebhookManager, WebhookManagerFactory } from './webhooks/manager.js';
 export type { 
@@ -80,6 +97,60 @@ export type {
   FixedWindowConfig
 } from './rate-limiting/limiter.js';
 
+// Export digests and quiet hours
+export { DigestScheduler, RedisDigestStore, MemoryDigestStore } from './digest/scheduler.js';
+export type {
+  DigestConfig,
+  DigestEntry,
+  Digest,
+  DigestPreview,
+  DigestStore
+} from './digest/scheduler.js';
+
+// Export notification outbox
+export {
+  MemoryOutbox,
+  createOutboxMessage,
+  outboxIdempotencyKey
+} from './outbox/outbox.js';
+export type {
+  NotificationOutbox,
+  OutboxMessage,
+  OutboxStatus,
+  OutboxStats
+} from './outbox/outbox.js';
+export { RedisOutbox } from './outbox/redis.js';
+export { PostgresOutbox, NOTIFICATION_OUTBOX_SCHEMA } from './outbox/postgres.js';
+export type { PostgresQueryable, PostgresOutboxOptions } from './outbox/postgres.js';
+export { OutboxWorker, getBackoffDelay } from './outbox/worker.js';
+export type { OutboxConfig, OutboxWorkerConfig, OutboxDeliver } from './outbox/worker.js';
+
+// Export chat ops
+export { ChatOpsHandler, parseChatOpsAction } from './chatops/handler.js';
+export type {
+  ChatOpsAction,
+  ChatOpsCommand,
+  ChatOpsResult,
+  NotificationAcknowledger,
+  EscalationActions
+} from './chatops/handler.js';
+export {
+  RedisReplyReferenceStore,
+  MemoryReplyReferenceStore,
+  parseReplyKeyword,
+  REPLY_TTL_SECONDS
+} from './chatops/replies.js';
+export type { ReplyReference, ReplyReferenceStore, ParsedReply } from './chatops/replies.js';
+export {
+  parseSlackInteraction,
+  parseSlackCommand,
+  parseTeamsAction,
+  parseTwilioReply,
+  parseVoiceGather,
+  SLACK_ESCALATION_BLOCK_PREFIX
+} from './chatops/inbound.js';
+export { verifySlackSignature, verifyTwilioSignature, BotFrameworkVerifier } from './chatops/verify.js';
+
 // Export main notification service
 export { NotificationService } from './service.js';
 export type { NotificationServiceConfig } from './service.js';
\ No newline at end of file
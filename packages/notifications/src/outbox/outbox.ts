@@ -0,0 +1,182 @@
+/**
+ * Notification Outbox
+ *
+ * Features:
+ * - One durable message per notification, channel and target
+ * - Idempotency keys so a notification is never queued twice for the same target
+ * - Leased claims, so a crashed worker's messages are picked up again
+ * - Dead-letter queue for messages that exhaust their attempts, with replay
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import {
+  BaseNotification,
+  NotificationChannel,
+  UUID
+} from '../types/index.js';
+
+/** Lifecycle of an outbox message; completed messages are no longer stored */
+export type OutboxStatus = 'pending' | 'processing' | 'completed' | 'dead';
+
+export interface OutboxMessage {
+  /** Message ID */
+  id: UUID;
+  /** Notification, channel and target; a second enqueue with the same key is ignored */
+  idempotencyKey: string;
+  /** Notification ID */
+  notificationId: UUID;
+  /** Channel to deliver through */
+  channel: NotificationChannel;
+  /** Recipient contact, webhook ID, or '*' for channels with a fixed destination */
+  target: string;
+  /** Routed notification */
+  notification: BaseNotification;
+  status: OutboxStatus;
+  /** Delivery attempts made so far */
+  attempts: number;
+  /** Attempts before the message is dead-lettered */
+  maxAttempts: number;
+  /** Earliest time of the next attempt */
+  nextAttemptAt: number;
+  /** Lease expiry while a worker holds the message */
+  lockedUntil?: number;
+  /** Error from the latest attempt */
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OutboxStats {
+  pending: number;
+  processing: number;
+  dead: number;
+}
+
+export interface NotificationOutbox {
+  /** Store a message; returns false when its idempotency key was already queued */
+  enqueue(message: OutboxMessage): Promise<boolean>;
+  /** Lease up to `limit` due messages, including messages whose lease expired */
+  claim(limit: number, leaseMs: number, now?: number): Promise<OutboxMessage[]>;
+  /** Record a worker's outcome: pending to retry, completed to remove, dead to dead-letter */
+  save(message: OutboxMessage): Promise<void>;
+  /** Get a queued or dead-lettered message */
+  get(id: UUID): Promise<OutboxMessage | null>;
+  /** Dead-lettered messages, most recent first */
+  listDeadLetters(limit?: number): Promise<OutboxMessage[]>;
+  /** Move a dead-lettered message back to pending with fresh attempts */
+  replay(id: UUID, now?: number): Promise<boolean>;
+  getStats(): Promise<OutboxStats>;
+}
+
+/** How long a delivered message's idempotency key keeps duplicates out */
+export const IDEMPOTENCY_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Idempotency key for a notification target; contacts are hashed so keys don't carry them
+ */
+export function outboxIdempotencyKey(
+  notificationId: UUID,
+  channel: NotificationChannel,
+  target: string
+): string {
+  const targetHash = createHash('sha256').update(target).digest('hex').slice(0, 16);
+  return `${notificationId}:${channel}:${targetHash}`;
+}
+
+export function createOutboxMessage(
+  notification: BaseNotification,
+  channel: NotificationChannel,
+  target: string,
+  now: number = Date.now()
+): OutboxMessage {
+  return {
+    id: randomUUID(),
+    idempotencyKey: outboxIdempotencyKey(notification.id, channel, target),
+    notificationId: notification.id,
+    channel,
+    target,
+    notification,
+    status: 'pending',
+    attempts: 0,
+    maxAttempts: Math.max(notification.delivery.retry.maxAttempts, 1),
+    nextAttemptAt: now,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Memory outbox for development and tests; messages do not survive a restart
+ */
+export class MemoryOutbox implements NotificationOutbox {
+  private messages: Map<UUID, OutboxMessage> = new Map();
+  private idempotencyKeys: Map<string, number> = new Map();
+
+  async enqueue(message: OutboxMessage): Promise<boolean> {
+    const expiresAt = this.idempotencyKeys.get(message.idempotencyKey);
+    if (expiresAt !== undefined && expiresAt > Date.now()) {
+      return false;
+    }
+
+    this.idempotencyKeys.set(message.idempotencyKey, Date.now() + IDEMPOTENCY_TTL_SECONDS * 1000);
+    this.messages.set(message.id, { ...message, status: 'pending' });
+    return true;
+  }
+
+  async claim(limit: number, leaseMs: number, now: number = Date.now()): Promise<OutboxMessage[]> {
+    const due = Array.from(this.messages.values())
+      .filter(message =>
+        (message.status === 'pending' && message.nextAttemptAt <= now) ||
+        (message.status === 'processing' && (message.lockedUntil ?? 0) <= now)
+      )
+      .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt)
+      .slice(0, limit);
+
+    return due.map(message => {
+      message.status = 'processing';
+      message.lockedUntil = now + leaseMs;
+      return { ...message };
+    });
+  }
+
+  async save(message: OutboxMessage): Promise<void> {
+    if (message.status === 'completed') {
+      this.messages.delete(message.id);
+      return;
+    }
+
+    const { lockedUntil, ...saved } = message;
+    this.messages.set(message.id, saved);
+  }
+
+  async get(id: UUID): Promise<OutboxMessage | null> {
+    const message = this.messages.get(id);
+    return message ? { ...message } : null;
+  }
+
+  async listDeadLetters(limit: number = 100): Promise<OutboxMessage[]> {
+    return Array.from(this.messages.values())
+      .filter(message => message.status === 'dead')
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, limit)
+      .map(message => ({ ...message }));
+  }
+
+  async replay(id: UUID, now: number = Date.now()): Promise<boolean> {
+    const message = this.messages.get(id);
+    if (!message || message.status !== 'dead') {
+      return false;
+    }
+
+    Object.assign(message, { status: 'pending', attempts: 0, nextAttemptAt: now, updatedAt: now });
+    return true;
+  }
+
+  async getStats(): Promise<OutboxStats> {
+    const stats: OutboxStats = { pending: 0, processing: 0, dead: 0 };
+    for (const message of this.messages.values()) {
+      if (message.status !== 'completed') stats[message.status]++;
+    }
+    return stats;
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Postgres Notification Outbox
+ *
+ * Workers claim rows with FOR UPDATE SKIP LOCKED, so replicas never lease the same message.
+ * Completed rows are kept for the idempotency window instead of being deleted.
+ */
+
+import { UUID } from '../types/index.js';
+import {
+  NotificationOutbox,
+  OutboxMessage,
+  OutboxStats,
+  IDEMPOTENCY_TTL_SECONDS
+} from './outbox.js';
+
+// Structural subset of pg's Pool, so callers can pass their own pool
+export interface PostgresQueryable {
+  query(text: string, params?: any[]): Promise<{ rows: any[] }>;
+}
+
+export interface PostgresOutboxOptions {
+  createSchema?: boolean; // default true; disable when tables come from migrations
+}
+
+export const NOTIFICATION_OUTBOX_SCHEMA = `
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id TEXT PRIMARY KEY,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  notification_id TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  target TEXT NOT NULL,
+  notification JSONB NOT NULL,
+  status TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL,
+  next_attempt_at TIMESTAMPTZ NOT NULL,
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS notification_outbox_due
+  ON notification_outbox (next_attempt_at) WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS notification_outbox_dead
+  ON notification_outbox (updated_at) WHERE status = 'dead';
+`;
+
+export class PostgresOutbox implements NotificationOutbox {
+  private pool: PostgresQueryable;
+  private createSchema: boolean;
+  private ready?: Promise<void>;
+
+  constructor(pool: PostgresQueryable, options: PostgresOutboxOptions = {}) {
+    this.pool = pool;
+    this.createSchema = options.createSchema ?? true;
+  }
+
+  async connect(): Promise<void> {
+    this.ready ??= this.createSchema
+      ? this.pool.query(NOTIFICATION_OUTBOX_SCHEMA).then(() => undefined)
+      : this.pool.query('SELECT 1 FROM notification_outbox LIMIT 1').then(() => undefined);
+
+    try {
+      await this.ready;
+    } catch (error) {
+      this.ready = undefined;
+      throw error;
+    }
+  }
+
+  async enqueue(message: OutboxMessage): Promise<boolean> {
+    await this.connect();
+
+    // A completed row past the idempotency window no longer blocks its key
+    await this.pool.query(
+      `DELETE FROM notification_outbox
+       WHERE idempotency_key = $1 AND status = 'completed' AND updated_at < $2`,
+      [message.idempotencyKey, new Date(Date.now() - IDEMPOTENCY_TTL_SECONDS * 1000)]
+    );
+
+    const result = await this.pool.query(
+      `INSERT INTO notification_outbox
+         (id, idempotency_key, notification_id, channel, target, notification, status,
+          attempts, max_attempts, next_attempt_at, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, 'pending', $7, $8, $9, $10, $11)
+       ON CONFLICT (idempotency_key) DO NOTHING
+       RETURNING id`,
+      [
+        message.id,
+        message.idempotencyKey,
+        message.notificationId,
+        message.channel,
+        message.target,
+        JSON.stringify(message.notification),
+        message.attempts,
+        message.maxAttempts,
+        new Date(message.nextAttemptAt),
+        new Date(message.createdAt),
+        new Date(message.updatedAt)
+      ]
+    );
+    return result.rows.length > 0;
+  }
+
+  async claim(limit: number, leaseMs: number, now: number = Date.now()): Promise<OutboxMessage[]> {
+    await this.connect();
+
+    const result = await this.pool.query(
+      `UPDATE notification_outbox
+       SET status = 'processing', locked_until = $2
+       WHERE id IN (
+         SELECT id FROM notification_outbox
+         WHERE (status = 'pending' AND next_attempt_at <= $1)
+            OR (status = 'processing' AND locked_until <= $1)
+         ORDER BY next_attempt_at
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [new Date(now), new Date(now + leaseMs), limit]
+    );
+    return result.rows
+      .map(row => this.fromRow(row))
+      .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt);
+  }
+
+  async save(message: OutboxMessage): Promise<void> {
+    await this.connect();
+
+    await this.pool.query(
+      `UPDATE notification_outbox
+       SET status = $2, attempts = $3, next_attempt_at = $4, locked_until = NULL,
+           last_error = $5, updated_at = $6
+       WHERE id = $1`,
+      [
+        message.id,
+        message.status === 'processing' ? 'pending' : message.status,
+        message.attempts,
+        new Date(message.nextAttemptAt),
+        message.lastError ?? null,
+        new Date(message.updatedAt)
+      ]
+    );
+  }
+
+  async get(id: UUID): Promise<OutboxMessage | null> {
+    await this.connect();
+
+    const result = await this.pool.query(
+      `SELECT * FROM notification_outbox WHERE id = $1 AND status <> 'completed'`,
+      [id]
+    );
+    return result.rows.length > 0 ? this.fromRow(result.rows[0]) : null;
+  }
+
+  async listDeadLetters(limit: number = 100): Promise<OutboxMessage[]> {
+    await this.connect();
+
+    const result = await this.pool.query(
+      `SELECT * FROM notification_outbox WHERE status = 'dead' ORDER BY updated_at DESC LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map(row => this.fromRow(row));
+  }
+
+  async replay(id: UUID, now: number = Date.now()): Promise<boolean> {
+    await this.connect();
+
+    const result = await this.pool.query(
+      `UPDATE notification_outbox
+       SET status = 'pending', attempts = 0, next_attempt_at = $2, updated_at = $2
+       WHERE id = $1 AND status = 'dead'
+       RETURNING id`,
+      [id, new Date(now)]
+    );
+    return result.rows.length > 0;
+  }
+
+  async getStats(): Promise<OutboxStats> {
+    await this.connect();
+
+    const result = await this.pool.query(
+      `SELECT status, COUNT(*)::int AS count FROM notification_outbox
+       WHERE status <> 'completed' GROUP BY status`
+    );
+    const stats: OutboxStats = { pending: 0, processing: 0, dead: 0 };
+    for (const row of result.rows) {
+      if (row.status in stats) stats[row.status as keyof OutboxStats] = Number(row.count);
+    }
+    return stats;
+  }
+
+  private fromRow(row: any): OutboxMessage {
+    const time = (value: any): number => new Date(value).getTime();
+
+    return {
+      id: row.id,
+      idempotencyKey: row.idempotency_key,
+      notificationId: row.notification_id,
+      channel: row.channel,
+      target: row.target,
+      notification: typeof row.notification === 'string' ? JSON.parse(row.notification) : row.notification,
+      status: row.status,
+      attempts: Number(row.attempts),
+      maxAttempts: Number(row.max_attempts),
+      nextAttemptAt: time(row.next_attempt_at),
+      ...(row.locked_until && { lockedUntil: time(row.locked_until) }),
+      ...(row.last_error && { lastError: row.last_error }),
+      createdAt: time(row.created_at),
+      updatedAt: time(row.updated_at)
+    };
+  }
+}
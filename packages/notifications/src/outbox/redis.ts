@@ -0,0 +1,159 @@
+/**
+ * Redis Notification Outbox
+ *
+ * Messages live in a hash; sorted sets order them by next attempt (pending),
+ * lease expiry (processing) and dead-letter time (dead).
+ */
+
+import Redis from 'ioredis';
+import { UUID } from '../types/index.js';
+import {
+  NotificationOutbox,
+  OutboxMessage,
+  OutboxStats,
+  IDEMPOTENCY_TTL_SECONDS
+} from './outbox.js';
+
+// Requeues expired leases, then moves due messages from pending to processing
+const CLAIM_SCRIPT = `
+local expired = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', ARGV[1])
+for _, id in ipairs(expired) do
+  redis.call('ZREM', KEYS[2], id)
+  redis.call('ZADD', KEYS[1], ARGV[1], id)
+end
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, ARGV[2])
+local claimed = {}
+for _, id in ipairs(ids) do
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('ZADD', KEYS[2], ARGV[3], id)
+  local data = redis.call('HGET', KEYS[3], id)
+  if data then table.insert(claimed, data) end
+end
+return claimed
+`;
+
+export class RedisOutbox implements NotificationOutbox {
+  private redis: Redis;
+  private keyPrefix: string = 'notifications:outbox';
+
+  constructor(redisConfig: any) {
+    this.redis = new Redis(redisConfig);
+  }
+
+  async enqueue(message: OutboxMessage): Promise<boolean> {
+    const reserved = await this.redis.set(
+      `${this.keyPrefix}:keys:${message.idempotencyKey}`,
+      message.id,
+      'EX',
+      IDEMPOTENCY_TTL_SECONDS,
+      'NX'
+    );
+    if (reserved === null) {
+      return false;
+    }
+
+    await this.redis.multi()
+      .hset(this.key('messages'), message.id, JSON.stringify({ ...message, status: 'pending' }))
+      .zadd(this.key('pending'), message.nextAttemptAt, message.id)
+      .exec();
+    return true;
+  }
+
+  async claim(limit: number, leaseMs: number, now: number = Date.now()): Promise<OutboxMessage[]> {
+    const lockedUntil = now + leaseMs;
+    const claimed = await this.redis.eval(
+      CLAIM_SCRIPT,
+      3,
+      this.key('pending'),
+      this.key('processing'),
+      this.key('messages'),
+      now,
+      limit,
+      lockedUntil
+    ) as string[];
+
+    return claimed.map(data => ({
+      ...JSON.parse(data) as OutboxMessage,
+      status: 'processing' as const,
+      lockedUntil
+    }));
+  }
+
+  async save(message: OutboxMessage): Promise<void> {
+    const multi = this.redis.multi().zrem(this.key('processing'), message.id);
+    const { lockedUntil, ...saved } = message;
+
+    switch (message.status) {
+      case 'completed':
+        // The idempotency key stays behind so the notification is not queued again
+        multi.hdel(this.key('messages'), message.id);
+        break;
+      case 'dead':
+        multi.hset(this.key('messages'), message.id, JSON.stringify(saved));
+        multi.zadd(this.key('dead'), message.updatedAt, message.id);
+        break;
+      default:
+        multi.hset(this.key('messages'), message.id, JSON.stringify({ ...saved, status: 'pending' }));
+        multi.zadd(this.key('pending'), message.nextAttemptAt, message.id);
+    }
+
+    await multi.exec();
+  }
+
+  async get(id: UUID): Promise<OutboxMessage | null> {
+    const [data, lockedUntil] = await Promise.all([
+      this.redis.hget(this.key('messages'), id),
+      this.redis.zscore(this.key('processing'), id)
+    ]);
+    if (!data) return null;
+
+    const message = JSON.parse(data) as OutboxMessage;
+    return lockedUntil === null
+      ? message
+      : { ...message, status: 'processing', lockedUntil: Number(lockedUntil) };
+  }
+
+  async listDeadLetters(limit: number = 100): Promise<OutboxMessage[]> {
+    const ids = await this.redis.zrevrange(this.key('dead'), 0, limit - 1);
+    if (ids.length === 0) return [];
+
+    const values = await this.redis.hmget(this.key('messages'), ...ids);
+    return values
+      .filter((value): value is string => value !== null)
+      .map(value => JSON.parse(value) as OutboxMessage);
+  }
+
+  async replay(id: UUID, now: number = Date.now()): Promise<boolean> {
+    const removed = await this.redis.zrem(this.key('dead'), id);
+    if (removed === 0) return false;
+
+    const data = await this.redis.hget(this.key('messages'), id);
+    if (!data) return false;
+
+    const message: OutboxMessage = {
+      ...JSON.parse(data) as OutboxMessage,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      updatedAt: now
+    };
+    await this.redis.multi()
+      .hset(this.key('messages'), id, JSON.stringify(message))
+      .zadd(this.key('pending'), now, id)
+      .exec();
+    return true;
+  }
+
+  async getStats(): Promise<OutboxStats> {
+    const [pending, processing, dead] = await Promise.all([
+      this.redis.zcard(this.key('pending')),
+      this.redis.zcard(this.key('processing')),
+      this.redis.zcard(this.key('dead'))
+    ]);
+    return { pending, processing, dead };
+  }
+
+  private key(name: string): string {
+    return `${this.keyPrefix}:${name}`;
+  }
+}
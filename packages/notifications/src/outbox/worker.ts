@@ -0,0 +1,184 @@
+/**
+ * Outbox Worker
+ *
+ * Polls the outbox, delivers leased messages and reschedules failures with
+ * exponential backoff until they are delivered or dead-lettered. Every attempt
+ * is recorded with the delivery tracker.
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  ChannelResult,
+  ChannelError,
+  DeliveryAttempt,
+  RateLimitError,
+  RetryConfig
+} from '../types/index.js';
+import { DeliveryTracker } from '../tracking/delivery.js';
+import { NotificationOutbox, OutboxMessage } from './outbox.js';
+import { PostgresQueryable } from './postgres.js';
+
+export interface OutboxWorkerConfig {
+  /** Poll interval in milliseconds (default 1000) */
+  pollInterval?: number;
+  /** Messages claimed per poll (default 20) */
+  batchSize?: number;
+  /** How long a claimed message is held before another worker may take it (default 60000) */
+  leaseMs?: number;
+}
+
+export interface OutboxConfig extends OutboxWorkerConfig {
+  /** Storage backend; redis uses the service's redis configuration */
+  backend: 'redis' | 'postgres' | 'memory';
+  /** Pool for the postgres backend */
+  postgres?: PostgresQueryable;
+  /** Create the outbox table on first use (default true) */
+  createSchema?: boolean;
+}
+
+/** Deliver one message; throw or return a failed result to retry it */
+export type OutboxDeliver = (message: OutboxMessage) => Promise<ChannelResult>;
+
+const DEFAULT_POLL_INTERVAL = 1000;
+const DEFAULT_BATCH_SIZE = 20;
+const DEFAULT_LEASE_MS = 60000;
+
+/**
+ * Delay before the next attempt after `attempts` failed ones
+ */
+export function getBackoffDelay(retry: RetryConfig, attempts: number): number {
+  const delay = Math.min(
+    retry.initialDelay * Math.pow(retry.backoffMultiplier, Math.max(attempts - 1, 0)),
+    retry.maxDelay
+  );
+  return Math.round(delay + delay * retry.jitter * Math.random());
+}
+
+export class OutboxWorker {
+  private outbox: NotificationOutbox;
+  private deliver: OutboxDeliver;
+  private tracker: DeliveryTracker;
+  private config: Required<OutboxWorkerConfig>;
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<number>;
+
+  constructor(
+    outbox: NotificationOutbox,
+    deliver: OutboxDeliver,
+    tracker: DeliveryTracker,
+    config: OutboxWorkerConfig = {}
+  ) {
+    this.outbox = outbox;
+    this.deliver = deliver;
+    this.tracker = tracker;
+    this.config = {
+      pollInterval: config.pollInterval ?? DEFAULT_POLL_INTERVAL,
+      batchSize: config.batchSize ?? DEFAULT_BATCH_SIZE,
+      leaseMs: config.leaseMs ?? DEFAULT_LEASE_MS
+    };
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.processBatch().catch(error => console.error('Failed to process notification outbox:', error));
+    }, this.config.pollInterval);
+    this.timer.unref();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.running?.catch(() => undefined);
+  }
+
+  /**
+   * Claim and deliver one batch of due messages; returns how many were processed.
+   * Overlapping calls share the batch already in flight.
+   */
+  processBatch(now: number = Date.now()): Promise<number> {
+    this.running ??= this.runBatch(now).finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  private async runBatch(now: number): Promise<number> {
+    const messages = await this.outbox.claim(this.config.batchSize, this.config.leaseMs, now);
+    await Promise.all(messages.map(message => this.process(message, now)));
+    return messages.length;
+  }
+
+  private async process(message: OutboxMessage, now: number): Promise<void> {
+    const startTime = Date.now();
+    message.attempts++;
+
+    let attempt: DeliveryAttempt;
+    try {
+      const result = await this.deliver(message);
+      if (result.status === 'failed') {
+        throw new ChannelError(result.error || 'Delivery failed', 'DELIVERY_FAILED', message.channel);
+      }
+
+      message.status = 'completed';
+      delete message.lastError;
+      attempt = this.createAttempt(message, result.status, result.latency, {
+        messageId: result.messageId,
+        ...(result.error && { error: result.error })
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      message.lastError = errorMessage;
+
+      if (error instanceof RateLimitError) {
+        // Throttling is not the target failing, so it does not use up an attempt
+        message.attempts--;
+        message.status = 'pending';
+        message.nextAttemptAt = now + error.retryAfter * 1000;
+      } else if (message.attempts >= message.maxAttempts) {
+        message.status = 'dead';
+        console.warn(
+          `Notification ${message.notificationId} dead-lettered for ${message.channel} after ${message.attempts} attempts: ${errorMessage}`
+        );
+      } else {
+        message.status = 'pending';
+        message.nextAttemptAt = now + getBackoffDelay(message.notification.delivery.retry, message.attempts);
+      }
+
+      attempt = this.createAttempt(message, 'failed', Date.now() - startTime, { error: errorMessage });
+      if (message.status === 'pending') {
+        attempt.nextRetryAt = message.nextAttemptAt;
+      }
+    }
+
+    message.updatedAt = Date.now();
+    await this.outbox.save(message);
+    await this.tracker.trackAttempt(attempt).catch(error =>
+      console.error(`Failed to track outbox delivery ${message.id}:`, error)
+    );
+  }
+
+  private createAttempt(
+    message: OutboxMessage,
+    status: DeliveryAttempt['status'],
+    latency: number,
+    providerResponse: DeliveryAttempt['providerResponse']
+  ): DeliveryAttempt {
+    return {
+      id: randomUUID(),
+      notificationId: message.notificationId,
+      channel: message.channel,
+      timestamp: Date.now(),
+      status,
+      latency,
+      attemptNumber: message.attempts,
+      providerResponse: {
+        ...providerResponse,
+        metadata: { outboxId: message.id }
+      }
+    };
+  }
+}
@@ -8,6 +8,8 @@
  * - Rate limiting per channel
  * - Template engine for customization
  * - Webhook management
+ * - Durable outbox with backoff retries and a dead-letter queue
+ * - Chat ops: acknowledge, escalate and resolve from chat, SMS and voice
  * - Performance monitoring and SLA tracking
  */
 
@@ -23,7 +25,9 @@ import {
   DeliveryAttempt,
   UUID,
   ChannelResult,
-  NotificationError
+  NotificationError,
+  RateLimitError,
+  DeferredDelivery
 } from './types/index.js';
 
 import { SmartRouter, SmartRoutingConfig } from './routing/smart.js';
@@ -31,10 +35,37 @@ import { VoiceChannel } from './channels/voice.js';
 import { SmsChannel } from './channels/sms.js';
 import { ChatChannel } from './channels/slack.js';
 import { EmailChannel } from './channels/email.js';
+import { DiscordChannel, DiscordChannelFactory } from './channels/discord.js';
+import { TelegramChannel, TelegramChannelFactory } from './channels/telegram.js';
+import { PushChannel, PushChannelFactory } from './channels/push.js';
+import { InAppChannel, InAppInbox, InAppChannelFactory } from './channels/in-app.js';
 import { WebhookManager } from './webhooks/manager.js';
 import { DeliveryTracker, RedisDeliveryTracker, MemoryDeliveryTracker } from './tracking/delivery.js';
 import { HandlebarsTemplateEngine } from './templates/engine.js';
 import { RateLimitManager, TokenBucketLimiter } from './rate-limiting/limiter.js';
+import {
+  DigestScheduler,
+  DigestConfig,
+  DigestPreview,
+  RedisDigestStore,
+  MemoryDigestStore
+} from './digest/scheduler.js';
+import {
+  NotificationOutbox,
+  OutboxMessage,
+  OutboxStats,
+  MemoryOutbox,
+  createOutboxMessage
+} from './outbox/outbox.js';
+import { RedisOutbox } from './outbox/redis.js';
+import { PostgresOutbox } from './outbox/postgres.js';
+import { OutboxWorker, OutboxConfig } from './outbox/worker.js';
+import { ChatOpsHandler, EscalationActions } from './chatops/handler.js';
+import {
+  ReplyReferenceStore,
+  RedisReplyReferenceStore,
+  MemoryReplyReferenceStore
+} from './chatops/replies.js';
 
 export interface NotificationServiceConfig {
   /** Notification channels configuration */
@@ -60,6 +91,14 @@ export interface NotificationServiceConfig {
   defaultTimeout: number;
   /** Enable performance monitoring */
   enableMonitoring: boolean;
+  /** Digest and quiet hours configuration */
+  digests?: DigestConfig;
+  /** Durable outbox; when set, sends are queued and delivered by a background worker */
+  outbox?: OutboxConfig;
+  /** Chat ops; smsReplies adds reply codes (ACK 12) to SMS and WhatsApp alerts */
+  chatOps?: {
+    smsReplies?: boolean;
+  };
 }
 
 export class NotificationService implements INotificationService {
@@ -69,12 +108,21 @@ export class NotificationService implements INotificationService {
   private rateLimitManager: RateLimitManager;
   private templateEngine?: HandlebarsTemplateEngine;
   private webhookManager: WebhookManager;
+  private digestScheduler?: DigestScheduler;
+  private digestTimer?: NodeJS.Timeout;
+  private outbox?: NotificationOutbox;
+  private outboxWorker?: OutboxWorker;
+  private replyReferences?: ReplyReferenceStore;
   
   // Channel instances
   private voiceChannel?: VoiceChannel;
   private smsChannel?: SmsChannel;
   private chatChannel?: ChatChannel;
   private emailChannel?: EmailChannel;
+  private discordChannel?: DiscordChannel;
+  private telegramChannel?: TelegramChannel;
+  private pushChannel?: PushChannel;
+  private inAppChannel?: InAppChannel;
 
   // Performance metrics
   private metrics = {
@@ -116,8 +164,24 @@ export class NotificationService implements INotificationService {
       this.templateEngine = new HandlebarsTemplateEngine(this.config.templates);
     }
 
+    // Initialize digests and quiet hours; digests are rendered with the template engine
+    if (this.templateEngine) {
+      this.digestScheduler = new DigestScheduler(
+        this.config.digests || {},
+        this.config.redis ? new RedisDigestStore(this.config.redis) : new MemoryDigestStore(),
+        this.templateEngine
+      );
+      this.digestTimer = setInterval(() => {
+        this.flushDigests().catch(error => console.error('Failed to flush notification digests:', error));
+      }, this.digestScheduler.getFlushInterval());
+      this.digestTimer.unref();
+    }
+
     // Initialize channels
     this.initializeChannels();
+
+    // Initialize outbox and its delivery worker
+    this.initializeOutbox();
   }
 
   /**
@@ -129,7 +193,12 @@ export class NotificationService implements INotificationService {
     }
 
     if (this.config.channels.sms) {
-      this.smsChannel = new SmsChannel(this.config.channels.sms);
+      if (this.config.chatOps?.smsReplies) {
+        this.replyReferences = this.config.redis
+          ? new RedisReplyReferenceStore(this.config.redis)
+          : new MemoryReplyReferenceStore();
+      }
+      this.smsChannel = new SmsChannel(this.config.channels.sms, this.replyReferences);
     }
 
     if (this.config.channels.slack || this.config.channels.teams) {
@@ -142,6 +211,59 @@ export class NotificationService implements INotificationService {
     if (this.config.channels.email) {
       this.emailChannel = new EmailChannel(this.config.channels.email);
     }
+
+    if (this.config.channels.discord) {
+      this.discordChannel = new DiscordChannel(this.config.channels.discord);
+    }
+
+    if (this.config.channels.telegram) {
+      this.telegramChannel = new TelegramChannel(this.config.channels.telegram);
+    }
+
+    if (this.config.channels.push) {
+      this.pushChannel = new PushChannel(this.config.channels.push);
+    }
+
+    if (this.config.channels.inApp) {
+      this.inAppChannel = InAppChannelFactory.create(this.config.channels.inApp, this.config.redis);
+    }
+  }
+
+  /**
+   * Initialize the outbox backend and start its worker
+   */
+  private initializeOutbox(): void {
+    const config = this.config.outbox;
+    if (!config) return;
+
+    switch (config.backend) {
+      case 'redis':
+        if (!this.config.redis) {
+          throw new NotificationError('Redis outbox requires redis configuration', 'INVALID_OUTBOX_CONFIG');
+        }
+        this.outbox = new RedisOutbox(this.config.redis);
+        break;
+
+      case 'postgres':
+        if (!config.postgres) {
+          throw new NotificationError('Postgres outbox requires a postgres pool', 'INVALID_OUTBOX_CONFIG');
+        }
+        this.outbox = new PostgresOutbox(config.postgres, {
+          ...(config.createSchema !== undefined && { createSchema: config.createSchema })
+        });
+        break;
+
+      default:
+        this.outbox = new MemoryOutbox();
+    }
+
+    this.outboxWorker = new OutboxWorker(
+      this.outbox,
+      message => this.deliverOutboxMessage(message),
+      this.deliveryTracker,
+      config
+    );
+    this.outboxWorker.start();
   }
 
   /**
@@ -167,15 +289,40 @@ export class NotificationService implements INotificationService {
    * Send a notification through appropriate channels
    */
   async send(notification: BaseNotification): Promise<NotificationResult> {
+    return this.dispatch(notification, true);
+  }
+
+  /**
+   * Route and deliver a notification; digests skip the quiet hours and digest check
+   */
+  private async dispatch(notification: BaseNotification, applyDeferrals: boolean): Promise<NotificationResult> {
     const startTime = Date.now();
     
     try {
       // Apply smart routing
       const routedNotification = await this.smartRouter.route(notification);
+
+      // Hold recipients in quiet hours or receiving digests
+      const deferred = applyDeferrals ? await this.deferRecipients(routedNotification) : [];
+      if (deferred.length > 0 && routedNotification.recipients.length === 0) {
+        return {
+          notificationId: routedNotification.id,
+          status: 'deferred',
+          channels: [],
+          attempts: [],
+          errors: [],
+          deferred
+        };
+      }
       
       // Track notification
       this.metrics.totalNotifications++;
 
+      // Hand delivery to the outbox worker when it is enabled
+      if (this.outbox) {
+        return this.enqueue(routedNotification, deferred);
+      }
+
       // Send through each channel
       const channelResults: ChannelResult[] = [];
       const deliveryAttempts: DeliveryAttempt[] = [];
@@ -267,7 +414,8 @@ export class NotificationService implements INotificationService {
         status: overallStatus,
         channels: channelResults,
         attempts: deliveryAttempts,
-        errors: failedChannels.map(c => c.error || 'Unknown error')
+        errors: failedChannels.map(c => c.error || 'Unknown error'),
+        ...(deferred.length > 0 && { deferred })
       };
 
     } catch (error) {
@@ -280,6 +428,105 @@ export class NotificationService implements INotificationService {
     }
   }
 
+  /**
+   * Queue one outbox message per channel target
+   */
+  private async enqueue(notification: BaseNotification, deferred: DeferredDelivery[]): Promise<NotificationResult> {
+    const channelResults: ChannelResult[] = [];
+    const queued: UUID[] = [];
+    const now = Date.now();
+
+    for (const channel of notification.delivery.channels) {
+      const targets = this.getOutboxTargets(notification, channel);
+      if (targets.length === 0) {
+        channelResults.push({
+          channel,
+          status: 'failed',
+          messageId: '',
+          latency: 0,
+          error: channel === 'webhook' ? 'No webhooks configured' : 'No recipients configured for this channel'
+        });
+        continue;
+      }
+
+      for (const target of targets) {
+        const message = createOutboxMessage(notification, channel, target, now);
+        if (await this.outbox!.enqueue(message)) {
+          queued.push(message.id);
+        }
+      }
+      channelResults.push({ channel, status: 'pending', messageId: '', latency: 0 });
+    }
+
+    const failedChannels = channelResults.filter(r => r.status === 'failed');
+    const allFailed = failedChannels.length > 0 && failedChannels.length === channelResults.length;
+    if (allFailed) {
+      this.metrics.failedDeliveries++;
+    }
+
+    return {
+      notificationId: notification.id,
+      status: allFailed ? 'failed' : 'queued',
+      channels: channelResults,
+      attempts: [],
+      errors: failedChannels.map(c => c.error || 'Unknown error'),
+      queued,
+      ...(deferred.length > 0 && { deferred })
+    };
+  }
+
+  /**
+   * Deliver one outbox message; called by the outbox worker
+   */
+  private async deliverOutboxMessage(message: OutboxMessage): Promise<ChannelResult> {
+    const { notification, channel, target } = message;
+    const startTime = Date.now();
+
+    try {
+      await this.rateLimitManager.isAllowed(channel, target);
+
+      const result = channel === 'webhook'
+        ? await this.webhookManager.deliver(target, notification)
+        : await this.sendToRecipients(notification, channel, [target]);
+
+      this.updateChannelMetrics(channel, result.status !== 'failed', result.latency);
+      return result;
+    } catch (error) {
+      if (!(error instanceof RateLimitError)) {
+        this.updateChannelMetrics(channel, false, Date.now() - startTime);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deliver due outbox messages now rather than on the worker's next poll
+   */
+  async processOutbox(now: number = Date.now()): Promise<number> {
+    return this.outboxWorker ? this.outboxWorker.processBatch(now) : 0;
+  }
+
+  /**
+   * Get notifications that exhausted their delivery attempts
+   */
+  async getDeadLetters(limit?: number): Promise<OutboxMessage[]> {
+    return this.outbox ? this.outbox.listDeadLetters(limit) : [];
+  }
+
+  /**
+   * Queue a dead-lettered notification for delivery again
+   */
+  async replayDeadLetter(id: UUID): Promise<boolean> {
+    return this.outbox ? this.outbox.replay(id) : false;
+  }
+
+  /**
+   * Get outbox queue sizes
+   */
+  async getOutboxStats(): Promise<OutboxStats | null> {
+    return this.outbox ? this.outbox.getStats() : null;
+  }
+
   /**
    * Send bulk notifications
    */
@@ -312,6 +559,48 @@ export class NotificationService implements INotificationService {
     return results;
   }
 
+  /**
+   * Send every digest that is due; digests that fail are queued again for the next flush
+   */
+  async flushDigests(now: number = Date.now()): Promise<NotificationResult[]> {
+    if (!this.digestScheduler) return [];
+
+    const results: NotificationResult[] = [];
+    for (const digest of await this.digestScheduler.takeDue(now)) {
+      const notification = this.digestScheduler.buildNotification(digest, {
+        retry: this.config.defaultRetry,
+        timeout: this.config.defaultTimeout
+      });
+
+      let result: NotificationResult;
+      try {
+        result = await this.dispatch(notification, false);
+      } catch (error) {
+        result = {
+          notificationId: notification.id,
+          status: 'failed',
+          channels: [],
+          attempts: [],
+          errors: [error instanceof Error ? error.message : 'Unknown error']
+        };
+      }
+
+      if (result.status === 'failed') {
+        await this.digestScheduler.requeue(digest, now + this.digestScheduler.getFlushInterval());
+      }
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Preview a recipient's next digest without sending it
+   */
+  async previewDigest(recipientId: string): Promise<DigestPreview | null> {
+    return this.digestScheduler ? this.digestScheduler.preview(recipientId) : null;
+  }
+
   /**
    * Get notification status and delivery tracking
    */
@@ -322,19 +611,39 @@ export class NotificationService implements INotificationService {
   /**
    * Acknowledge notification
    */
-  async acknowledge(notificationId: UUID, userId: string, notes?: string): Promise<void> {
+  async acknowledge(
+    notificationId: UUID,
+    userId: string,
+    notes?: string,
+    channel: NotificationChannel = 'in-app'
+  ): Promise<void> {
     const acknowledgment = {
       id: this.generateId(),
       notificationId,
       acknowledgedBy: userId,
       timestamp: Date.now(),
-      channel: 'in-app' as NotificationChannel,
+      channel,
       notes
     };
 
     await this.deliveryTracker.recordAcknowledgment(acknowledgment);
   }
 
+  /**
+   * Create a chat ops handler that acknowledges through this service;
+   * pass the alerts escalation manager to also escalate and resolve
+   */
+  createChatOpsHandler(escalations?: EscalationActions): ChatOpsHandler {
+    return new ChatOpsHandler(this, escalations);
+  }
+
+  /**
+   * Reply code store for SMS and WhatsApp replies, when chatOps.smsReplies is enabled
+   */
+  getReplyReferences(): ReplyReferenceStore | undefined {
+    return this.replyReferences;
+  }
+
   /**
    * Get delivery statistics
    */
@@ -361,6 +670,31 @@ export class NotificationService implements INotificationService {
       };
     }
 
+    if (channel === 'webhook') {
+      const webhookResults = await this.webhookManager.sendNotification(notification);
+      if (webhookResults.length === 0) {
+        return {
+          channel,
+          status: 'failed',
+          messageId: '',
+          latency: 0,
+          error: 'No webhooks configured'
+        };
+      }
+      return webhookResults[0]; // Return first webhook result
+    }
+
+    return this.sendToRecipients(notification, channel, recipients);
+  }
+
+  /**
+   * Send notification to recipients of a channel; Slack and Teams post to their configured webhooks
+   */
+  private async sendToRecipients(
+    notification: BaseNotification,
+    channel: NotificationChannel,
+    recipients: string[]
+  ): Promise<ChannelResult> {
     switch (channel) {
       case 'voice':
         if (!this.voiceChannel) throw new Error('Voice channel not configured');
@@ -386,24 +720,67 @@ export class NotificationService implements INotificationService {
         if (!this.chatChannel) throw new Error('Teams channel not configured');
         return this.chatChannel.sendTeams(notification);
 
-      case 'webhook':
-        const webhookResults = await this.webhookManager.sendNotification(notification);
-        if (webhookResults.length === 0) {
-          return {
-            channel,
-            status: 'failed',
-            messageId: '',
-            latency: 0,
-            error: 'No webhooks configured'
-          };
-        }
-        return webhookResults[0]; // Return first webhook result
+      case 'discord':
+        if (!this.discordChannel) throw new Error('Discord channel not configured');
+        return this.discordChannel.send(notification, recipients);
+
+      case 'telegram':
+        if (!this.telegramChannel) throw new Error('Telegram channel not configured');
+        return this.telegramChannel.send(notification, recipients);
+
+      case 'push':
+        if (!this.pushChannel) throw new Error('Push channel not configured');
+        return this.pushChannel.send(notification, recipients);
+
+      case 'in-app':
+        if (!this.inAppChannel) throw new Error('In-app channel not configured');
+        return this.inAppChannel.send(notification, recipients);
 
       default:
         throw new Error(`Unsupported notification channel: ${channel}`);
     }
   }
 
+  /**
+   * Queue recipients that should not be notified now and remove them from the notification
+   */
+  private async deferRecipients(notification: BaseNotification): Promise<DeferredDelivery[]> {
+    if (!this.digestScheduler) return [];
+
+    const deferred: DeferredDelivery[] = [];
+    const now = Date.now();
+
+    notification.recipients = (await Promise.all(notification.recipients.map(async recipient => {
+      const deferral = this.digestScheduler!.getDeferral(notification, recipient, now);
+      if (!deferral) return recipient;
+
+      await this.digestScheduler!.hold(notification, recipient, deferral);
+      deferred.push(deferral);
+      return null;
+    }))).filter((recipient): recipient is NonNullable<typeof recipient> => recipient !== null);
+
+    return deferred;
+  }
+
+  /**
+   * Outbox targets for a channel: recipient contacts, matching webhook IDs,
+   * or a single '*' target for Slack and Teams, which post to their configured webhooks
+   */
+  private getOutboxTargets(notification: BaseNotification, channel: NotificationChannel): string[] {
+    const recipients = this.getRecipientsForChannel(notification, channel);
+    if (recipients.length === 0) return [];
+
+    switch (channel) {
+      case 'webhook':
+        return this.webhookManager.findMatchingWebhooks(notification).map(webhook => webhook.id);
+      case 'slack':
+      case 'teams':
+        return ['*'];
+      default:
+        return Array.from(new Set(recipients));
+    }
+  }
+
   /**
    * Get recipients for specific channel
    */
@@ -503,6 +880,33 @@ export class NotificationService implements INotificationService {
       }
     }
 
+    if (this.discordChannel) {
+      try {
+        const test = await this.discordChannel.testConfiguration();
+        channelHealth.discord = test.success;
+      } catch {
+        channelHealth.discord = false;
+      }
+    }
+
+    if (this.telegramChannel) {
+      try {
+        const test = await this.telegramChannel.testConfiguration();
+        channelHealth.telegram = test.success;
+      } catch {
+        channelHealth.telegram = false;
+      }
+    }
+
+    if (this.pushChannel) {
+      try {
+        const test = await this.pushChannel.testConfiguration();
+        channelHealth.push = test.success;
+      } catch {
+        channelHealth.push = false;
+      }
+    }
+
     // Check rate limiting health
     const rateLimitHealth = await this.rateLimitManager.getHealth();
     
@@ -528,6 +932,13 @@ export class NotificationService implements INotificationService {
     };
   }
 
+  /**
+   * Get the in-app inbox the dashboard reads from
+   */
+  getInbox(): InAppInbox | undefined {
+    return this.inAppChannel?.getInbox();
+  }
+
   /**
    * Get service performance metrics
    */
@@ -575,7 +986,13 @@ export class NotificationService implements INotificationService {
     }
 
     // Clear any intervals or timeouts
-    // Implementation would clear timers
+    if (this.digestTimer) {
+      clearInterval(this.digestTimer);
+      this.digestTimer = undefined;
+    }
+
+    // Let the outbox worker finish its current batch; undelivered messages stay queued
+    await this.outboxWorker?.stop();
 
     console.log('Notification service shut down successfully');
   }
@@ -630,6 +1047,24 @@ export class NotificationServiceFactory {
       // SMS validation would go here
     }
 
+    const channelValidations = [
+      config.channels.discord && DiscordChannelFactory.validateConfig(config.channels.discord),
+      config.channels.telegram && TelegramChannelFactory.validateConfig(config.channels.telegram),
+      config.channels.push && PushChannelFactory.validateConfig(config.channels.push),
+      config.channels.inApp && InAppChannelFactory.validateConfig(config.channels.inApp)
+    ];
+    channelValidations.forEach(result => {
+      if (result) errors.push(...result.errors);
+    });
+
+    if (config.outbox?.backend === 'redis' && !config.redis) {
+      errors.push('Redis outbox requires redis configuration');
+    }
+
+    if (config.outbox?.backend === 'postgres' && !config.outbox.postgres) {
+      errors.push('Postgres outbox requires a postgres pool');
+    }
+
     return {
       valid: errors.length === 0,
       errors
@@ -696,6 +1131,26 @@ export class NotificationServiceFactory {
             rateLimit: { max: 200, windowMs: 60000 }, 
             windowMs: 60000,
             burst: 20 
+          },
+          discord: {
+            rateLimit: { max: 30, windowMs: 60000 },
+            windowMs: 60000,
+            burst: 5
+          },
+          telegram: {
+            rateLimit: { max: 20, windowMs: 60000 },
+            windowMs: 60000,
+            burst: 5
+          },
+          push: {
+            rateLimit: { max: 100, windowMs: 60000 },
+            windowMs: 60000,
+            burst: 20
+          },
+          'in-app': {
+            rateLimit: { max: 500, windowMs: 60000 },
+            windowMs: 60000,
+            burst: 50
           }
         } as any
       },
@@ -3,10 +3,13 @@
  * 
  * Test Coverage:
  * - Smart routing with all conditions and actions
- * - All notification channels (voice, SMS, email, Slack, Teams, webhooks)
+ * - All notification channels (voice, SMS, email, Slack, Teams, Discord, Telegram, push, in-app, webhooks)
  * - Delivery tracking and acknowledgments
  * - Rate limiting with different algorithms
  * - Template engine with multiple scenarios
+ * - Digests and quiet hours
+ * - Durable outbox with retries and dead-lettering
+ * - Chat ops commands from Slack, Teams, SMS and voice
  * - Error handling and edge cases
  * - Performance and load testing scenarios
  */
@@ -19,9 +22,20 @@ import { VoiceChannel, VoiceChannelFactory } from '../channels/voice.js';
 import { SmsChannel, SmsChannelFactory } from '../channels/sms.js';
 import { ChatChannel, SlackChannel, TeamsChannel, ChatChannelFactory } from '../channels/slack.js';
 import { EmailChannel, EmailChannelFactory } from '../channels/email.js';
+import { DiscordChannel, DiscordChannelFactory } from '../channels/discord.js';
+import { TelegramChannel, TelegramChannelFactory } from '../channels/telegram.js';
+import { PushChannel, PushChannelFactory } from '../channels/push.js';
+import { InAppChannel, MemoryInAppInbox } from '../channels/in-app.js';
 import { WebhookManager, WebhookManagerFactory } from '../webhooks/manager.js';
 import { RedisDeliveryTracker, MemoryDeliveryTracker, DeliveryTrackerFactory } from '../tracking/delivery.js';
 import { HandlebarsTemplateEngine, TemplateEngineFactory } from '../templates/engine.js';
+import { DigestScheduler, MemoryDigestStore } from '../digest/scheduler.js';
+import { MemoryOutbox, createOutboxMessage } from '../outbox/outbox.js';
+import { OutboxWorker } from '../outbox/worker.js';
+import { ChatOpsHandler, EscalationActions } from '../chatops/handler.js';
+import { MemoryReplyReferenceStore, parseReplyKeyword } from '../chatops/replies.js';
+import { parseSlackInteraction, parseSlackCommand, parseTeamsAction } from '../chatops/inbound.js';
+import { verifySlackSignature, verifyTwilioSignature, BotFrameworkVerifier } from '../chatops/verify.js';
 import { 
   TokenBucketLimiter, 
   SlidingWindowLimiter, 
@@ -35,6 +49,7 @@ import {
   BaseNotification,
   NotificationSeverity,
   NotificationChannel,
+  NotificationRecipient,
   VoiceConfig,
   SmsConfig,
   SlackConfig,
@@ -45,8 +60,23 @@ import {
   TemplateEngineConfig,
   DeliveryAttempt,
   DeliveryReceipt,
-  AcknowledgmentReceipt
+  AcknowledgmentReceipt,
+  ChannelResult,
+  ChannelError,
+  RateLimitError
 } from '../types/index.js';
+import axios from 'axios';
+import {
+  createDecipheriv,
+  createECDH,
+  createHmac,
+  createPublicKey,
+  createSign,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+  verify
+} from 'crypto';
 
 // Mock dependencies
 jest.mock('twilio');
@@ -660,6 +690,411 @@ describe('Slack/Teams Channel', () => {
   });
 });
 
+describe('Discord Channel', () => {
+  const webhookUrl = 'https://discord.com/api/webhooks/123456/secret-token';
+  let discordChannel: DiscordChannel;
+
+  beforeEach(() => {
+    discordChannel = new DiscordChannel({
+      webhookUrl,
+      mentions: { critical: ['<@&987654>'] }
+    });
+    (axios.post as jest.Mock).mockReset();
+  });
+
+  test('should send embed colored by severity', async () => {
+    (axios.post as jest.Mock<any>).mockResolvedValue({ status: 200, data: { id: 'msg-1' } });
+    const notification = TestDataFactory.createNotification({
+      severity: 'critical',
+      title: 'Database Down',
+      tags: { region: 'us-east-1' }
+    });
+
+    const result = await discordChannel.send(notification);
+
+    expect(result.status).toBe('sent');
+    expect(result.messageId).toBe('msg-1');
+    expect(axios.post).toHaveBeenCalledWith(
+      `${webhookUrl}?wait=true`,
+      expect.objectContaining({
+        content: '<@&987654>',
+        allowed_mentions: { parse: ['roles', 'users'] },
+        embeds: [expect.objectContaining({
+          title: expect.stringContaining('Database Down'),
+          color: 0x8e44ad,
+          fields: expect.arrayContaining([{ name: 'region', value: 'us-east-1', inline: true }])
+        })]
+      }),
+      expect.any(Object)
+    );
+  });
+
+  test('should surface Discord rate limits', async () => {
+    (axios.post as jest.Mock<any>).mockResolvedValue({ status: 429, data: { retry_after: 2.5 } });
+
+    await expect(discordChannel.send(TestDataFactory.createNotification()))
+      .rejects.toMatchObject({ name: 'RateLimitError', retryAfter: 3 });
+  });
+
+  test('should not expose webhook tokens in results', async () => {
+    (axios.post as jest.Mock<any>).mockResolvedValueOnce({ status: 200, data: { id: 'msg-1' } })
+      .mockResolvedValueOnce({ status: 404, data: { message: 'Unknown Webhook' } });
+
+    const result = await discordChannel.send(TestDataFactory.createNotification(), [
+      webhookUrl,
+      'https://discord.com/api/webhooks/777/other-token'
+    ]);
+
+    expect(result.status).toBe('sent');
+    expect(result.error).toContain('webhook 777');
+    expect(result.error).not.toContain('other-token');
+  });
+
+  test('should validate webhook URL', () => {
+    expect(DiscordChannelFactory.validateConfig({ webhookUrl }).valid).toBe(true);
+    expect(DiscordChannelFactory.validateConfig({ webhookUrl: 'https://example.com/hook' }).valid).toBe(false);
+  });
+});
+
+describe('Telegram Channel', () => {
+  let telegramChannel: TelegramChannel;
+
+  beforeEach(() => {
+    telegramChannel = new TelegramChannel({
+      botToken: '123456:ABC-token',
+      enableButtons: true,
+      silentBelow: 'error'
+    });
+    (axios.post as jest.Mock).mockReset();
+  });
+
+  test('should send escaped HTML message with acknowledge button', async () => {
+    (axios.post as jest.Mock<any>).mockResolvedValue({ status: 200, data: { ok: true, result: { message_id: 42 } } });
+    const notification = TestDataFactory.createNotification({
+      id: 'notif-1',
+      severity: 'critical',
+      title: 'Latency <p99> high'
+    });
+
+    const result = await telegramChannel.send(notification, ['-100123']);
+
+    expect(result.status).toBe('sent');
+    expect(result.messageId).toBe('42');
+    expect(axios.post).toHaveBeenCalledWith(
+      'https://api.telegram.org/bot123456:ABC-token/sendMessage',
+      expect.objectContaining({
+        chat_id: '-100123',
+        parse_mode: 'HTML',
+        disable_notification: false,
+        text: expect.stringContaining('Latency &lt;p99&gt; high'),
+        reply_markup: {
+          inline_keyboard: [[
+            { text: '✅ Acknowledge', callback_data: 'ack:notif-1' },
+            { text: '🔗 View Details', url: 'https://test.example.com' }
+          ]]
+        }
+      }),
+      expect.any(Object)
+    );
+  });
+
+  test('should deliver low severities silently', () => {
+    const message = telegramChannel.buildMessage(TestDataFactory.createNotification({ severity: 'warning' }), '1');
+    expect(message.disable_notification).toBe(true);
+  });
+
+  test('should keep HTML intact when truncating long messages', () => {
+    const message = telegramChannel.buildMessage(
+      TestDataFactory.createNotification({ message: '&'.repeat(5000) }),
+      '1'
+    );
+
+    expect(message.text.length).toBeLessThanOrEqual(4096);
+    expect(message.text).toContain('&amp;…');
+    expect(message.text).toContain('<b>Severity:</b>');
+  });
+
+  test('should parse acknowledge callbacks', () => {
+    const callback = telegramChannel.handleCallback({
+      callback_query: {
+        id: 'cb-1',
+        data: 'ack:notif-1',
+        from: { id: 555 },
+        message: { message_id: 42, chat: { id: -100123 } }
+      }
+    });
+
+    expect(callback).toEqual({
+      action: 'acknowledge',
+      notificationId: 'notif-1',
+      userId: '555',
+      chatId: '-100123',
+      messageId: '42',
+      callbackQueryId: 'cb-1'
+    });
+  });
+
+  test('should validate bot token format', () => {
+    expect(TelegramChannelFactory.validateConfig({ botToken: '123:abc', enableButtons: false }).valid).toBe(true);
+    expect(TelegramChannelFactory.validateConfig({ botToken: 'invalid', enableButtons: false }).valid).toBe(false);
+  });
+});
+
+describe('Push Channel', () => {
+  const vapidKeys = PushChannelFactory.generateVapidKeys();
+  let pushChannel: PushChannel;
+  let userAgent: ReturnType<typeof createECDH>;
+  let authSecret: Buffer;
+  let subscription: { endpoint: string; keys: { p256dh: string; auth: string } };
+
+  beforeEach(() => {
+    pushChannel = new PushChannel({
+      vapid: { subject: 'mailto:ops@example.com', ...vapidKeys }
+    });
+    userAgent = createECDH('prime256v1');
+    authSecret = randomBytes(16);
+    subscription = {
+      endpoint: 'https://push.example.com/send/abc123',
+      keys: {
+        p256dh: userAgent.generateKeys().toString('base64url'),
+        auth: authSecret.toString('base64url')
+      }
+    };
+    (axios.post as jest.Mock).mockReset();
+  });
+
+  test('should encrypt payloads the subscriber can decrypt', () => {
+    const body = pushChannel.encryptPayload(subscription, Buffer.from('{"title":"Disk full"}'));
+
+    const salt = body.subarray(0, 16);
+    const keyLength = body.readUInt8(20);
+    const serverPublicKey = body.subarray(21, 21 + keyLength);
+    const encrypted = body.subarray(21 + keyLength);
+
+    const sharedSecret = userAgent.computeSecret(serverPublicKey);
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgent.getPublicKey(), serverPublicKey]);
+    const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+    const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+    const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+    const decipher = createDecipheriv('aes-128-gcm', contentKey, nonce);
+    decipher.setAuthTag(encrypted.subarray(-16));
+    const plaintext = Buffer.concat([decipher.update(encrypted.subarray(0, -16)), decipher.final()]);
+
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(plaintext.toString()).toBe('{"title":"Disk full"}\u0002');
+  });
+
+  test('should sign VAPID token for the push service origin', () => {
+    const header = pushChannel.createVapidAuthorization(subscription.endpoint);
+    const [, token, key] = header.match(/^vapid t=([^,]+), k=(.+)$/)!;
+    const [encodedHeader, encodedClaims, signature] = token.split('.');
+
+    const claims = JSON.parse(Buffer.from(encodedClaims, 'base64url').toString());
+    expect(claims.aud).toBe('https://push.example.com');
+    expect(claims.sub).toBe('mailto:ops@example.com');
+    expect(key).toBe(vapidKeys.publicKey);
+
+    const point = Buffer.from(key, 'base64url');
+    const publicKey = createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: point.subarray(1, 33).toString('base64url'),
+        y: point.subarray(33, 65).toString('base64url')
+      },
+      format: 'jwk'
+    });
+    expect(verify(
+      'sha256',
+      Buffer.from(`${encodedHeader}.${encodedClaims}`),
+      { key: publicKey, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature, 'base64url')
+    )).toBe(true);
+  });
+
+  test('should send with urgency and report gone subscriptions as expired', async () => {
+    (axios.post as jest.Mock<any>).mockResolvedValue({ status: 410, headers: {} });
+
+    const result = await pushChannel.send(
+      TestDataFactory.createNotification({ severity: 'critical' }),
+      [JSON.stringify(subscription)]
+    );
+
+    expect(result.status).toBe('expired');
+    expect(axios.post).toHaveBeenCalledWith(
+      subscription.endpoint,
+      expect.any(Buffer),
+      expect.objectContaining({
+        headers: expect.objectContaining({ 'Content-Encoding': 'aes128gcm', 'Urgency': 'high', 'TTL': '86400' })
+      })
+    );
+  });
+
+  test('should reject contacts that are not subscriptions', async () => {
+    await expect(pushChannel.send(TestDataFactory.createNotification(), ['not-json']))
+      .rejects.toThrow('not a JSON subscription');
+  });
+
+  test('should validate VAPID keys', () => {
+    expect(PushChannelFactory.validateConfig({ vapid: { subject: 'mailto:ops@example.com', ...vapidKeys } }).valid)
+      .toBe(true);
+    expect(PushChannelFactory.validateConfig({ vapid: { subject: 'ops', publicKey: 'x', privateKey: 'y' } }).errors)
+      .toHaveLength(3);
+  });
+});
+
+describe('In-App Channel', () => {
+  let inbox: MemoryInAppInbox;
+  let inAppChannel: InAppChannel;
+
+  beforeEach(() => {
+    inbox = new MemoryInAppInbox({ maxItemsPerRecipient: 2 });
+    inAppChannel = new InAppChannel(inbox);
+  });
+
+  test('should store notification in each recipient inbox', async () => {
+    const notification = TestDataFactory.createNotification({ id: 'notif-1', severity: 'error' });
+
+    const result = await inAppChannel.send(notification, ['user-1', 'user-2']);
+
+    expect(result.status).toBe('delivered');
+    expect(await inbox.unreadCount('user-1')).toBe(1);
+    expect((await inbox.list('user-2'))[0]).toMatchObject({ id: 'notif-1', type: 'error', viewed: false });
+  });
+
+  test('should track viewed and dismissed items', async () => {
+    await inAppChannel.send(TestDataFactory.createNotification({ id: 'a', timestamp: 1000 + Date.now() }), ['user-1']);
+    await inAppChannel.send(TestDataFactory.createNotification({ id: 'b', timestamp: 2000 + Date.now() }), ['user-1']);
+
+    expect(await inbox.markViewed('user-1', ['a'])).toBe(1);
+    expect((await inbox.list('user-1', { unreadOnly: true })).map(item => item.id)).toEqual(['b']);
+
+    expect(await inbox.dismiss('user-1', ['b'])).toBe(1);
+    expect(await inbox.unreadCount('user-1')).toBe(0);
+    expect((await inbox.list('user-1')).map(item => item.id)).toEqual(['a']);
+    expect(await inbox.list('user-1', { includeDismissed: true })).toHaveLength(2);
+  });
+
+  test('should drop oldest items beyond the inbox limit', async () => {
+    for (const [index, id] of ['a', 'b', 'c'].entries()) {
+      await inAppChannel.send(TestDataFactory.createNotification({ id, timestamp: Date.now() + index }), ['user-1']);
+    }
+
+    expect((await inbox.list('user-1')).map(item => item.id)).toEqual(['c', 'b']);
+  });
+});
+
+describe('Digests and Quiet Hours', () => {
+  // Monday 2026-01-05 23:30 UTC, Tuesday 00:30 in Berlin
+  const lateNight = Date.UTC(2026, 0, 5, 23, 30);
+  let scheduler: DigestScheduler;
+
+  const createRecipient = (overrides: Partial<NotificationRecipient> = {}): NotificationRecipient => ({
+    type: 'user',
+    id: 'user-1',
+    name: 'On-call Engineer',
+    timezone: 'Europe/Berlin',
+    channels: [{ channel: 'email', contact: 'oncall@example.com', minSeverity: 'info', enabled: true }],
+    ...overrides
+  });
+
+  beforeEach(() => {
+    scheduler = new DigestScheduler({}, new MemoryDigestStore(), new HandlebarsTemplateEngine({
+      directory: './templates',
+      engine: 'handlebars',
+      cache: true,
+      hotReload: false,
+      defaultLanguage: 'en',
+      languages: ['en'],
+      themes: {}
+    }));
+  });
+
+  test('should hold notifications until quiet hours end in the recipient timezone', () => {
+    const recipient = createRecipient({ quietHours: { startTime: '22:00', endTime: '07:00' } });
+
+    const deferral = scheduler.getDeferral(TestDataFactory.createNotification({ severity: 'error' }), recipient, lateNight);
+
+    expect(deferral).toEqual({ recipientId: 'user-1', reason: 'quiet-hours', dueAt: Date.UTC(2026, 0, 6, 6, 0) });
+  });
+
+  test('should let critical and allowed severities through quiet hours', () => {
+    const recipient = createRecipient({
+      quietHours: { startTime: '22:00', endTime: '07:00', allowSeverities: ['error'] }
+    });
+
+    expect(scheduler.getDeferral(TestDataFactory.createNotification({ severity: 'critical' }), recipient, lateNight))
+      .toBeNull();
+    expect(scheduler.getDeferral(TestDataFactory.createNotification({ severity: 'error' }), recipient, lateNight))
+      .toBeNull();
+    expect(scheduler.getDeferral(TestDataFactory.createNotification({ severity: 'warning' }), recipient, lateNight))
+      .toMatchObject({ reason: 'quiet-hours' });
+  });
+
+  test('should apply quiet hours only on configured start days', () => {
+    // Overnight quiet hours starting Saturdays; Tuesday early morning is not covered
+    const recipient = createRecipient({ quietHours: { startTime: '22:00', endTime: '07:00', daysOfWeek: [6] } });
+
+    expect(scheduler.getDeferral(TestDataFactory.createNotification({ severity: 'error' }), recipient, lateNight))
+      .toBeNull();
+  });
+
+  test('should schedule hourly and daily digests for info and warning only', () => {
+    const morning = Date.UTC(2026, 0, 5, 10, 15);
+    const hourly = createRecipient({ timezone: 'UTC', digest: { frequency: 'hourly' } });
+    const daily = createRecipient({ timezone: 'UTC', digest: { frequency: 'daily', severities: ['info', 'error'] } });
+
+    expect(scheduler.getDeferral(TestDataFactory.createNotification({ severity: 'warning' }), hourly, morning))
+      .toEqual({ recipientId: 'user-1', reason: 'digest', dueAt: Date.UTC(2026, 0, 5, 11, 0) });
+    expect(scheduler.getDeferral(TestDataFactory.createNotification({ severity: 'info' }), daily, morning))
+      .toEqual({ recipientId: 'user-1', reason: 'digest', dueAt: Date.UTC(2026, 0, 6, 9, 0) });
+    expect(scheduler.getDeferral(TestDataFactory.createNotification({ severity: 'error' }), daily, morning))
+      .toBeNull();
+  });
+
+  test('should move digests that fall in quiet hours to their end', () => {
+    const recipient = createRecipient({
+      digest: { frequency: 'hourly' },
+      quietHours: { startTime: '22:00', endTime: '07:00' }
+    });
+
+    expect(scheduler.getDeferral(TestDataFactory.createNotification({ severity: 'info' }), recipient, lateNight))
+      .toEqual({ recipientId: 'user-1', reason: 'digest', dueAt: Date.UTC(2026, 0, 6, 6, 0) });
+  });
+
+  test('should preview, take and build due digests', async () => {
+    const recipient = createRecipient({ timezone: 'UTC', digest: { frequency: 'hourly' } });
+    const now = Date.UTC(2026, 0, 5, 10, 15);
+
+    for (const [id, severity] of [['n-1', 'info'], ['n-2', 'warning']] as const) {
+      const notification = TestDataFactory.createNotification({ id, severity, title: `Disk ${id}`, timestamp: now });
+      await scheduler.hold(notification, recipient, scheduler.getDeferral(notification, recipient, now)!);
+    }
+
+    const preview = await scheduler.preview('user-1');
+    expect(preview).toMatchObject({
+      dueAt: Date.UTC(2026, 0, 5, 11, 0),
+      subject: '2 notifications from test-suite',
+      severityCounts: { info: 1, warning: 1, error: 0, critical: 0 }
+    });
+    expect(preview!.body).toContain('[WARNING] Disk n-2');
+
+    expect(await scheduler.takeDue(now)).toEqual([]);
+    const [digest] = await scheduler.takeDue(Date.UTC(2026, 0, 5, 11, 0));
+    expect(await scheduler.preview('user-1')).toBeNull();
+
+    const notification = scheduler.buildNotification(digest, {
+      retry: TestDataFactory.createNotification().delivery.retry,
+      timeout: 30000
+    });
+    expect(notification.severity).toBe('warning');
+    expect(notification.metadata.notificationIds).toEqual(['n-1', 'n-2']);
+    expect(notification.recipients[0].digest).toBeUndefined();
+    expect(notification.recipients[0].quietHours).toBeUndefined();
+  });
+});
+
 describe('Webhook Manager', () => {
   let webhookManager: WebhookManager;
 
@@ -757,6 +1192,341 @@ describe('Webhook Manager', () => {
   });
 });
 
+describe('Notification Outbox', () => {
+  let outbox: MemoryOutbox;
+  let tracker: MemoryDeliveryTracker;
+  const sent: ChannelResult = { channel: 'email', status: 'sent', messageId: 'msg-1', latency: 5 };
+
+  beforeEach(() => {
+    outbox = new MemoryOutbox();
+    tracker = new MemoryDeliveryTracker();
+  });
+
+  test('should ignore a second enqueue for the same notification target', async () => {
+    const notification = TestDataFactory.createNotification();
+
+    expect(await outbox.enqueue(createOutboxMessage(notification, 'email', 'test@example.com'))).toBe(true);
+    expect(await outbox.enqueue(createOutboxMessage(notification, 'email', 'test@example.com'))).toBe(false);
+    expect(await outbox.enqueue(createOutboxMessage(notification, 'sms', '+1234567890'))).toBe(true);
+    expect(await outbox.getStats()).toEqual({ pending: 2, processing: 0, dead: 0 });
+  });
+
+  test('should deliver due messages and remove them', async () => {
+    const notification = TestDataFactory.createNotification();
+    await outbox.enqueue(createOutboxMessage(notification, 'email', 'test@example.com'));
+    const deliver = jest.fn(async () => sent);
+
+    const worker = new OutboxWorker(outbox, deliver, tracker);
+    expect(await worker.processBatch()).toBe(1);
+
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect(await outbox.getStats()).toEqual({ pending: 0, processing: 0, dead: 0 });
+
+    const status = await tracker.getStatus(notification.id);
+    expect(status.attempts).toHaveLength(1);
+    expect(status.attempts[0]).toMatchObject({ status: 'sent', attemptNumber: 1 });
+  });
+
+  test('should reschedule failures with exponential backoff', async () => {
+    const notification = TestDataFactory.createNotification();
+    const message = createOutboxMessage(notification, 'email', 'test@example.com');
+    await outbox.enqueue(message);
+    const deliver = jest.fn(async (): Promise<ChannelResult> => {
+      throw new ChannelError('SMTP unavailable', 'EMAIL_SEND_FAILED', 'email');
+    });
+    const worker = new OutboxWorker(outbox, deliver, tracker);
+
+    const now = Date.now();
+    await worker.processBatch(now);
+    const first = await outbox.get(message.id);
+    expect(first).toMatchObject({ status: 'pending', attempts: 1, lastError: 'SMTP unavailable' });
+    expect(first!.nextAttemptAt - now).toBeGreaterThanOrEqual(1000);
+    expect(first!.nextAttemptAt - now).toBeLessThanOrEqual(1100);
+
+    // Not due yet
+    expect(await worker.processBatch(now + 500)).toBe(0);
+
+    await worker.processBatch(first!.nextAttemptAt);
+    const second = await outbox.get(message.id);
+    expect(second!.attempts).toBe(2);
+    expect(second!.nextAttemptAt - first!.nextAttemptAt).toBeGreaterThanOrEqual(2000);
+    expect(second!.nextAttemptAt - first!.nextAttemptAt).toBeLessThanOrEqual(2200);
+
+    const status = await tracker.getStatus(notification.id);
+    expect(status.attempts.map(attempt => attempt.attemptNumber)).toEqual([1, 2]);
+    expect(status.attempts.every(attempt => attempt.nextRetryAt !== undefined)).toBe(true);
+  });
+
+  test('should dead-letter exhausted messages and replay them', async () => {
+    const notification = TestDataFactory.createNotification();
+    const message = createOutboxMessage(notification, 'email', 'test@example.com');
+    await outbox.enqueue(message);
+    let failing = true;
+    const deliver = jest.fn(async (): Promise<ChannelResult> =>
+      failing ? { channel: 'email', status: 'failed', messageId: '', latency: 1, error: 'Mailbox full' } : sent
+    );
+    const worker = new OutboxWorker(outbox, deliver, tracker);
+
+    const hour = 60 * 60 * 1000;
+    const later = Date.now() + hour;
+    for (let i = 0; i < 3; i++) {
+      await worker.processBatch(later + i * hour);
+    }
+
+    const deadLetters = await outbox.listDeadLetters();
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0]).toMatchObject({ id: message.id, status: 'dead', attempts: 3, lastError: 'Mailbox full' });
+    expect(await worker.processBatch(later + 3 * hour)).toBe(0);
+
+    failing = false;
+    expect(await outbox.replay(message.id)).toBe(true);
+    expect(await outbox.replay(message.id)).toBe(false);
+    expect(await worker.processBatch()).toBe(1);
+    expect(await outbox.listDeadLetters()).toHaveLength(0);
+  });
+
+  test('should not count rate limited attempts', async () => {
+    const notification = TestDataFactory.createNotification();
+    const message = createOutboxMessage(notification, 'sms', '+1234567890');
+    await outbox.enqueue(message);
+    const deliver = jest.fn(async (): Promise<ChannelResult> => {
+      throw new RateLimitError('Rate limit exceeded for sms', 'sms', 30);
+    });
+    const worker = new OutboxWorker(outbox, deliver, tracker);
+
+    const now = Date.now();
+    await worker.processBatch(now);
+
+    const saved = await outbox.get(message.id);
+    expect(saved).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(saved!.nextAttemptAt).toBe(now + 30000);
+  });
+
+  test('should reclaim messages whose lease expired', async () => {
+    const notification = TestDataFactory.createNotification();
+    const now = Date.now();
+    await outbox.enqueue(createOutboxMessage(notification, 'email', 'test@example.com', now));
+
+    expect(await outbox.claim(10, 1000, now)).toHaveLength(1);
+    expect(await outbox.claim(10, 1000, now + 500)).toHaveLength(0);
+    expect(await outbox.claim(10, 1000, now + 1000)).toHaveLength(1);
+  });
+});
+
+describe('Chat Ops', () => {
+  let escalations: { [K in keyof EscalationActions]: jest.Mock<EscalationActions[K]> };
+  let acknowledger: { acknowledge: jest.Mock<any> };
+  let handler: ChatOpsHandler;
+
+  beforeEach(() => {
+    escalations = {
+      acknowledgeEscalation: jest.fn(async () => true),
+      resolveEscalation: jest.fn(async () => true),
+      escalateNow: jest.fn(async () => true)
+    };
+    acknowledger = { acknowledge: jest.fn(async () => undefined) };
+    handler = new ChatOpsHandler(acknowledger, escalations);
+  });
+
+  test('should parse reply keywords with codes and notes', () => {
+    expect(parseReplyKeyword('ACK 12 on it')).toEqual({ action: 'acknowledge', code: 12, notes: 'on it' });
+    expect(parseReplyKeyword(' esc')).toEqual({ action: 'escalate' });
+    expect(parseReplyKeyword('Resolve 3')).toEqual({ action: 'resolve', code: 3 });
+    expect(parseReplyKeyword('acked')).toBeNull();
+    expect(parseReplyKeyword('thanks')).toBeNull();
+  });
+
+  test('should acknowledge the notification and its escalation', async () => {
+    const result = await handler.execute({
+      action: 'acknowledge',
+      channel: 'slack',
+      userId: 'U123',
+      notificationId: 'notif-1',
+      escalationId: 'esc-1'
+    });
+
+    expect(result.success).toBe(true);
+    expect(acknowledger.acknowledge).toHaveBeenCalledWith('notif-1', 'U123', undefined, 'slack');
+    expect(escalations.acknowledgeEscalation).toHaveBeenCalledWith('esc-1', 'U123');
+  });
+
+  test('should escalate and resolve only alerts with an escalation', async () => {
+    const missing = await handler.execute({ action: 'escalate', channel: 'sms', userId: '+15551234567', notificationId: 'notif-1' });
+    expect(missing.success).toBe(false);
+    expect(escalations.escalateNow).not.toHaveBeenCalled();
+
+    const escalated = await handler.execute({ action: 'escalate', channel: 'voice', userId: '+15551234567', escalationId: 'esc-1' });
+    expect(escalated).toMatchObject({ success: true, message: 'Alert esc-1 escalated by +15551234567' });
+    expect(escalations.escalateNow).toHaveBeenCalledWith('esc-1', '+15551234567');
+
+    escalations.resolveEscalation.mockResolvedValueOnce(false);
+    const resolved = await handler.execute({ action: 'resolve', channel: 'teams', userId: 'aad-1', notificationId: 'notif-1', escalationId: 'esc-1' });
+    expect(resolved).toMatchObject({ success: false, message: 'Alert esc-1 is already resolved' });
+    expect(acknowledger.acknowledge).not.toHaveBeenCalled();
+  });
+
+  test('should report escalation errors in the result', async () => {
+    escalations.escalateNow.mockRejectedValueOnce(new Error('Redis unavailable'));
+
+    const result = await handler.execute({ action: 'escalate', channel: 'slack', userId: 'U123', escalationId: 'esc-1' });
+
+    expect(result).toMatchObject({ success: false, message: 'Could not escalate alert esc-1: Redis unavailable' });
+  });
+
+  test('should verify Slack signatures and reject stale or forged requests', () => {
+    const secret = 'slack-signing-secret';
+    const body = 'payload=%7B%22type%22%3A%22block_actions%22%7D';
+    const now = Date.now();
+    const timestamp = String(Math.floor(now / 1000));
+    const signature = 'v0=' + createHmac('sha256', secret).update(`v0:${timestamp}:${body}`).digest('hex');
+
+    expect(verifySlackSignature(secret, body, timestamp, signature, now)).toBe(true);
+    expect(verifySlackSignature(secret, body + 'x', timestamp, signature, now)).toBe(false);
+    expect(verifySlackSignature(secret, body, timestamp, signature, now + 10 * 60 * 1000)).toBe(false);
+    expect(verifySlackSignature('other-secret', body, timestamp, signature, now)).toBe(false);
+  });
+
+  test('should verify Twilio signatures', () => {
+    const url = 'https://mycompany.com/myapp.php?foo=1&bar=2';
+    const params = {
+      CallSid: 'CA1234567890ABCDE',
+      Caller: '+14158675309',
+      Digits: '1234',
+      From: '+14158675309',
+      To: '+18005551212'
+    };
+
+    expect(verifyTwilioSignature('12345', url, params, 'RSOYDt4T1cUTdK1PDd93/VVr8B8=')).toBe(true);
+    expect(verifyTwilioSignature('12345', url, { ...params, Digits: '1' }, 'RSOYDt4T1cUTdK1PDd93/VVr8B8=')).toBe(false);
+  });
+
+  test('should map SMS replies back to the alert through reply codes', async () => {
+    const replies = new MemoryReplyReferenceStore();
+    const smsChannel = new SmsChannel(TestDataFactory.createSmsConfig(), replies);
+    const create = jest.fn(async (_message: any) => ({ sid: 'test-sms-sid', status: 'queued', numSegments: '1' }));
+    (smsChannel as any).twilioClient = { messages: { create } };
+
+    const first = TestDataFactory.createNotification({ id: 'notif-1', metadata: { escalationId: 'esc-1' } });
+    const second = TestDataFactory.createNotification({ id: 'notif-2', metadata: {} });
+    await smsChannel.send(first, '+15551234567');
+    await smsChannel.send(second, '+15551234567');
+
+    expect(create.mock.calls[0]![0].body).toContain('Reply ACK 1, ESC 1 or RES 1');
+    expect(create.mock.calls[1]![0].body).toContain('Reply ACK 2 to acknowledge');
+
+    expect(await smsChannel.handleReply({ From: '+15551234567', Body: 'ESC 1 paging db team' })).toEqual({
+      action: 'escalate',
+      channel: 'sms',
+      userId: '+15551234567',
+      notificationId: 'notif-1',
+      escalationId: 'esc-1',
+      notes: 'paging db team'
+    });
+    expect(await smsChannel.handleReply({ From: 'whatsapp:+15551234567', Body: 'ack' })).toMatchObject({
+      action: 'acknowledge',
+      channel: 'whatsapp',
+      notificationId: 'notif-2'
+    });
+    expect(await smsChannel.handleReply({ From: '+15551234567', Body: 'ACK 7' })).toBeNull();
+    expect(await smsChannel.handleReply({ From: '+15550000000', Body: 'ACK' })).toBeNull();
+  });
+
+  test('should parse Slack and Teams actions with their escalation', () => {
+    expect(parseSlackInteraction({
+      user: { id: 'U123' },
+      actions: [{ action_id: 'resolve', block_id: 'escalation:esc-1', value: 'notif-1' }]
+    })).toEqual({ action: 'resolve', channel: 'slack', userId: 'U123', notificationId: 'notif-1', escalationId: 'esc-1' });
+    expect(parseSlackInteraction({
+      user: { id: 'U123' },
+      actions: [{ action_id: 'view_details', value: 'notif-1' }]
+    })).toBeNull();
+
+    expect(parseSlackCommand({ text: 'ack esc-1 looking now', user_id: 'U123' })).toEqual({
+      action: 'acknowledge',
+      channel: 'slack',
+      userId: 'U123',
+      escalationId: 'esc-1',
+      notes: 'looking now'
+    });
+    expect(parseSlackCommand({ text: 'ack', user_id: 'U123' })).toBeNull();
+
+    expect(parseTeamsAction({
+      type: 'invoke',
+      from: { id: '29:abc', aadObjectId: 'aad-1' },
+      value: { action: { type: 'Action.Execute', data: { action: 'escalate', notificationId: 'notif-1', escalationId: 'esc-1' } } }
+    })).toEqual({ action: 'escalate', channel: 'teams', userId: 'aad-1', notificationId: 'notif-1', escalationId: 'esc-1' });
+  });
+
+  test('should carry the escalation in Slack buttons', async () => {
+    const slackChannel = new SlackChannel(TestDataFactory.createSlackConfig());
+    const postMessage = jest.fn(async (_message: any) => ({ ok: true, ts: '1234567890.123456' }));
+    (slackChannel as any).client = { chat: { postMessage } };
+
+    await slackChannel.send(TestDataFactory.createNotification({ metadata: { escalationId: 'esc-1' } }), '#alerts');
+
+    const actions = postMessage.mock.calls[0]![0].blocks.find((block: any) => block.type === 'actions');
+    expect(actions.block_id).toBe('escalation:esc-1');
+    expect(actions.elements.map((element: any) => element.action_id))
+      .toEqual(['acknowledge', 'escalate', 'resolve', 'view_details']);
+  });
+
+  test('should verify Bot Framework tokens against the published keys', async () => {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1' };
+    (axios.get as jest.Mock<any>).mockImplementation(async (url: string) =>
+      url.endsWith('openidconfiguration')
+        ? { data: { jwks_uri: 'https://login.botframework.com/v1/.well-known/keys' } }
+        : { data: { keys: [jwk] } }
+    );
+
+    const now = Date.now();
+    const sign = (claims: Record<string, unknown>, kid: string = 'key-1') => {
+      const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+      const unsigned = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(claims)}`;
+      return `Bearer ${unsigned}.${createSign('RSA-SHA256').update(unsigned).sign(privateKey).toString('base64url')}`;
+    };
+    const claims = { iss: 'https://api.botframework.com', aud: 'bot-app-id', exp: Math.floor(now / 1000) + 3600 };
+
+    const verifier = new BotFrameworkVerifier('bot-app-id');
+    expect(await verifier.verify(sign(claims), now)).toBe(true);
+    expect(await verifier.verify(sign({ ...claims, aud: 'other-app' }), now)).toBe(false);
+    expect(await verifier.verify(sign({ ...claims, exp: Math.floor(now / 1000) - 3600 }), now)).toBe(false);
+    expect(await verifier.verify(sign(claims, 'unknown-key'), now)).toBe(false);
+    expect(await verifier.verify(undefined, now)).toBe(false);
+    expect(axios.get).toHaveBeenCalledTimes(2);
+  });
+
+  test('should turn voice key presses into commands for the called alert', async () => {
+    const voiceChannel = new VoiceChannel(TestDataFactory.createVoiceConfig());
+    const twiml = (voiceChannel as any).generateTwiML({
+      message: 'Database down',
+      voice: 'woman',
+      language: 'en-US',
+      interactive: true,
+      statusCallback: 'https://monitor.example.com/twilio/voice',
+      gatherParams: { notificationId: 'notif-1', escalationId: 'esc-1' }
+    });
+    expect(twiml).toContain('action="https://monitor.example.com/twilio/voice/acknowledge?notificationId=notif-1&amp;escalationId=esc-1"');
+
+    const result = await voiceChannel.handleWebhook({
+      CallSid: 'CA123',
+      CallStatus: 'in-progress',
+      Digits: '2',
+      To: '+15551234567',
+      notificationId: 'notif-1',
+      escalationId: 'esc-1'
+    });
+    expect(result.acknowledged).toBe(false);
+    expect(result.command).toEqual({
+      action: 'escalate',
+      channel: 'voice',
+      userId: '+15551234567',
+      notificationId: 'notif-1',
+      escalationId: 'esc-1'
+    });
+  });
+});
+
 describe('Delivery Tracking', () => {
   let deliveryTracker: MemoryDeliveryTracker;
 
@@ -2,6 +2,7 @@
  * Type definitions for the notifications system
  */
 
+import type { LookupFunction } from 'net';
 import { JSONValue, Timestamp, UUID, ErrorSeverity } from '@monitoring-service/core';
 
 // Re-export commonly used types from core
@@ -56,6 +57,32 @@ export interface NotificationRecipient {
   timezone?: string;
   /** On-call schedule reference */
   scheduleId?: string;
+  /** Hold notifications during these hours */
+  quietHours?: QuietHours;
+  /** Batch low severity notifications into a digest */
+  digest?: DigestPreference;
+}
+
+export interface QuietHours {
+  /** Start time (HH:mm format, recipient timezone) */
+  startTime: string;
+  /** End time (HH:mm format); before startTime means overnight */
+  endTime: string;
+  /** Days quiet hours start on (0-6, 0 = Sunday; default every day) */
+  daysOfWeek?: number[];
+  /** Severities delivered during quiet hours anyway; critical always is */
+  allowSeverities?: NotificationSeverity[];
+}
+
+export type DigestFrequency = 'hourly' | 'daily';
+
+export interface DigestPreference {
+  /** How often the digest goes out */
+  frequency: DigestFrequency;
+  /** Severities batched into the digest (default info and warning; only these two can be batched) */
+  severities?: NotificationSeverity[];
+  /** Time of day the daily digest goes out (HH:mm format, default 09:00) */
+  deliveryTime?: string;
 }
 
 export interface ChannelPreference {
@@ -224,6 +251,8 @@ export interface SlackConfig {
   enableButtons: boolean;
   /** Custom blocks template */
   customBlocks?: boolean;
+  /** Signing secret for verifying button and slash command requests */
+  signingSecret?: string;
 }
 
 export interface TeamsConfig {
@@ -234,6 +263,8 @@ export interface TeamsConfig {
   /** Default team/channel */
   defaultTeam?: string;
   defaultChannel?: string;
+  /** Bot Framework app ID that card actions are addressed to */
+  botAppId?: string;
 }
 
 export interface WebhookConfig {
@@ -256,6 +287,65 @@ export interface WebhookConfig {
   timeout: number;
   /** Custom payload template */
   template?: string;
+  /** Follow HTTP redirects (default: true); disable when the URL has been vetted up front */
+  followRedirects?: boolean;
+  /** Resolve the host for each connection; lets callers pin delivery to addresses they have vetted */
+  lookup?: LookupFunction;
+}
+
+export interface DiscordConfig {
+  /** Default webhook URL, used when no recipient has its own */
+  webhookUrl?: string;
+  /** Override the webhook's display name */
+  username?: string;
+  /** Override the webhook's avatar */
+  avatarUrl?: string;
+  /** Mentions added per severity, e.g. { critical: ['<@&role-id>'] } */
+  mentions?: Partial<Record<NotificationSeverity, string[]>>;
+}
+
+export interface TelegramConfig {
+  /** Bot token from BotFather */
+  botToken: string;
+  /** Default chat ID, used when no recipient has its own */
+  defaultChatId?: string;
+  /** Enable the acknowledge button */
+  enableButtons: boolean;
+  /** Deliver silently below this severity */
+  silentBelow?: NotificationSeverity;
+  /** Bot API base URL (default https://api.telegram.org) */
+  apiUrl?: string;
+}
+
+export interface PushConfig {
+  /** VAPID application server keys (base64url, raw P-256) */
+  vapid: {
+    /** Contact for the push service: mailto: or https: URL */
+    subject: string;
+    publicKey: string;
+    privateKey: string;
+  };
+  /** Seconds the push service keeps an undelivered message (default 86400) */
+  ttl?: number;
+  /** Notification icon URL */
+  icon?: string;
+}
+
+/** Browser PushSubscription as returned by PushSubscription.toJSON() */
+export interface PushSubscription {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export interface InAppConfig {
+  /** Items kept per recipient, oldest dropped first (default 200) */
+  maxItemsPerRecipient?: number;
+  /** Days items are kept (default 30) */
+  retentionDays?: number;
 }
 
 // Template types
@@ -460,6 +550,10 @@ export interface NotificationConfig {
     slack?: SlackConfig;
     teams?: TeamsConfig;
     webhook?: WebhookConfig;
+    discord?: DiscordConfig;
+    telegram?: TelegramConfig;
+    push?: PushConfig;
+    inApp?: InAppConfig;
   };
   /** Default delivery configuration */
   defaults: {
@@ -494,8 +588,8 @@ export interface NotificationService {
   sendBulk(notifications: BaseNotification[]): Promise<NotificationResult[]>;
   /** Get notification status */
   getStatus(notificationId: UUID): Promise<NotificationStatusResult>;
-  /** Acknowledge notification */
-  acknowledge(notificationId: UUID, userId: string, notes?: string): Promise<void>;
+  /** Acknowledge notification from the channel the user acted in */
+  acknowledge(notificationId: UUID, userId: string, notes?: string, channel?: NotificationChannel): Promise<void>;
   /** Get delivery statistics */
   getStatistics(filters?: StatisticsFilters): Promise<DeliveryStatistics>;
 }
@@ -503,14 +597,30 @@ export interface NotificationService {
 export interface NotificationResult {
   /** Notification ID */
   notificationId: UUID;
-  /** Overall status */
-  status: 'sent' | 'partial' | 'failed';
+  /**
+   * Overall status; deferred when every recipient is held for a digest or quiet hours,
+   * queued when delivery was handed to the outbox
+   */
+  status: 'sent' | 'partial' | 'failed' | 'deferred' | 'queued';
   /** Channel results */
   channels: ChannelResult[];
   /** Delivery attempts */
   attempts: DeliveryAttempt[];
   /** Error messages */
   errors: string[];
+  /** Recipients held for a digest or quiet hours */
+  deferred?: DeferredDelivery[];
+  /** Outbox message IDs; targets already queued for this notification are left out */
+  queued?: UUID[];
+}
+
+export interface DeferredDelivery {
+  /** Recipient ID */
+  recipientId: string;
+  /** Why delivery was held */
+  reason: 'digest' | 'quiet-hours';
+  /** When the held notification goes out */
+  dueAt: Timestamp;
 }
 
 export interface ChannelResult {
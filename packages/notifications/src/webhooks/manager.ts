@@ -20,6 +20,8 @@ import {
 } from '../types/index.js';
 import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
 import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
 import handlebars from 'handlebars';
 
 export interface WebhookEndpoint {
@@ -197,29 +199,47 @@ export class WebhookManager {
     const results: ChannelResult[] = [];
 
     for (const webhook of matchingWebhooks) {
-      try {
-        const result = await this.sendToWebhook(webhook, notification);
-        results.push({
-          channel: 'webhook',
-          status: result.status === 'success' ? 'sent' : 'failed',
-          messageId: `${webhook.id}-${Date.now()}`,
-          latency: result.responseTime,
-          error: result.error
-        });
-      } catch (error) {
-        results.push({
-          channel: 'webhook',
-          status: 'failed',
-          messageId: `${webhook.id}-${Date.now()}`,
-          latency: 0,
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
-      }
+      results.push(await this.deliver(webhook.id, notification));
     }
 
     return results;
   }
 
+  /**
+   * Send notification to one webhook by ID, as a channel result for the outbox worker
+   */
+  async deliver(id: string, notification: BaseNotification): Promise<ChannelResult> {
+    const webhook = this.webhooks.get(id);
+    if (!webhook || !webhook.enabled) {
+      return {
+        channel: 'webhook',
+        status: 'failed',
+        messageId: '',
+        latency: 0,
+        error: webhook ? `Webhook ${id} is disabled` : `Webhook ${id} not found`
+      };
+    }
+
+    try {
+      const result = await this.sendToWebhook(webhook, notification);
+      return {
+        channel: 'webhook',
+        status: result.status === 'success' ? 'sent' : 'failed',
+        messageId: `${webhook.id}-${Date.now()}`,
+        latency: result.responseTime,
+        error: result.error
+      };
+    } catch (error) {
+      return {
+        channel: 'webhook',
+        status: 'failed',
+        messageId: `${webhook.id}-${Date.now()}`,
+        latency: 0,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   /**
    * Send notification to specific webhook
    */
@@ -277,7 +297,8 @@ export class WebhookManager {
   }
 
   /**
-   * Send notification to webhook with retry
+   * Send notification to webhook with retry; retries block the caller and are lost on restart,
+   * so NotificationService queues webhook deliveries through its outbox instead
    */
   async sendWithRetry(
     webhook: WebhookEndpoint,
@@ -373,7 +394,7 @@ export class WebhookManager {
   /**
    * Find webhooks matching notification filters
    */
-  private findMatchingWebhooks(notification: BaseNotification): WebhookEndpoint[] {
+  findMatchingWebhooks(notification: BaseNotification): WebhookEndpoint[] {
     return Array.from(this.webhooks.values()).filter(webhook => {
       return webhook.enabled && this.passesFilters(notification, webhook.filters);
     });
@@ -481,7 +502,12 @@ export class WebhookManager {
         ...config.headers
       },
       timeout: config.timeout,
-      validateStatus: (status) => status < 500 // Retry on 5xx errors
+      validateStatus: (status) => status < 500, // Retry on 5xx errors
+      ...(config.followRedirects === false && { maxRedirects: 0 }),
+      ...(config.lookup && {
+        httpAgent: new http.Agent({ lookup: config.lookup }),
+        httpsAgent: new https.Agent({ lookup: config.lookup })
+      })
     };
 
     // Add authentication
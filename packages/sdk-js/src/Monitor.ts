@@ -48,6 +48,7 @@ export class Monitor {
       projectId: config.projectId,
       apiUrl: config.apiUrl || 'https://api.monitoring-service.com',
       environment: config.environment || 'production',
+      release: config.release || '',
       autoCapture: {
         errors: true,
         performance: true,
@@ -482,6 +483,11 @@ export class Monitor {
 
   /** Queue event for sending */
   private queueEvent(event: MonitorEvent): void {
+    // Every event carries the release so the server can attribute errors and latency to deploys
+    if (this.config.release) {
+      event.release = this.config.release;
+    }
+
     this.eventQueue.push(event);
     
     // Auto-flush if queue is getting large
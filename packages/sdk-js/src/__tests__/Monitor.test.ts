@@ -194,6 +194,24 @@ describe('Monitor', () => {
       expect(fetch).toHaveBeenCalled();
     });
 
+    it('should stamp the release on every event', async () => {
+      monitor.stop();
+      monitor = new Monitor({ ...config, release: '1.4.2' });
+
+      // Installed after the monitor, as in beforeEach, so network capture doesn't wrap it
+      const fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve({}) });
+      global.fetch = fetchMock;
+
+      monitor.track('test_event');
+      monitor.trackPageView('/test-page');
+      await monitor.flush();
+
+      // The monitor records the initial page view itself when it starts
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.events.map((event: { type: string }) => event.type)).toEqual(['pageview', 'custom', 'pageview']);
+      expect(body.events.every((event: { release?: string }) => event.release === '1.4.2')).toBe(true);
+    });
+
     it('should handle flush failure', async () => {
       global.fetch = jest.fn().mockResolvedValue({
         ok: false,
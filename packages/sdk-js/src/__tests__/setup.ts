@@ -11,12 +11,15 @@ Object.defineProperty(global, 'performance', {
   },
 });
 
+// A class rather than jest.fn().mockImplementation, which resetMocks clears between tests
+class MockPerformanceObserver {
+  observe = jest.fn();
+  disconnect = jest.fn();
+}
+
 Object.defineProperty(global, 'PerformanceObserver', {
   writable: true,
-  value: jest.fn().mockImplementation(() => ({
-    observe: jest.fn(),
-    disconnect: jest.fn(),
-  })),
+  value: MockPerformanceObserver,
 });
 
 Object.defineProperty(global, 'localStorage', {
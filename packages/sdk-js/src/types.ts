@@ -5,6 +5,8 @@ export interface MonitorConfig {
   apiUrl?: string;
   /** Environment name (development, staging, production) */
   environment?: string;
+  /** Release the running build belongs to; stamped on every event and matched against uploaded source maps */
+  release?: string;
   /** Enable/disable auto error capture */
   autoCapture?: {
     errors?: boolean;
@@ -37,6 +39,8 @@ export interface MonitorEvent {
   context?: Record<string, any> | undefined;
   /** Breadcrumbs leading to this event */
   breadcrumbs?: Breadcrumb[] | undefined;
+  /** Release the event was reported from */
+  release?: string | undefined;
 }
 
 export interface UserContext {
@@ -0,0 +1,160 @@
+import * as crypto from 'crypto';
+import { CryptoUtils } from '../utils';
+
+/**
+ * Signed Merkle-root checkpoint over a contiguous range of the audit chain.
+ * Signing the last hash commits to every entry before it, and a checkpoint
+ * past the stored head shows the chain was truncated.
+ */
+export interface AuditCheckpoint {
+  id: string;
+  fromSequence: number;
+  toSequence: number;
+  lastHash: string;
+  merkleRoot: string;
+  createdAt: Date;
+  keyId: string;
+  signature: string;
+}
+
+export type UnsignedCheckpoint = Omit<AuditCheckpoint, 'keyId' | 'signature'>;
+
+/**
+ * Generate an Ed25519 key pair for signing checkpoints, as PEM strings
+ */
+export function generateCheckpointKeyPair(): { privateKey: string; publicKey: string } {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  return {
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString()
+  };
+}
+
+/**
+ * Signs checkpoints with a private key (Ed25519, RSA or EC)
+ */
+export class CheckpointSigner {
+  readonly keyId: string;
+  private privateKey: crypto.KeyObject;
+  private publicKey: crypto.KeyObject;
+
+  constructor(privateKey: string | crypto.KeyObject) {
+    this.privateKey = typeof privateKey === 'string' ? crypto.createPrivateKey(privateKey) : privateKey;
+    this.publicKey = crypto.createPublicKey(this.privateKey);
+    this.keyId = getKeyId(this.publicKey);
+  }
+
+  /**
+   * Public key as PEM, for handing to verifiers
+   */
+  getPublicKey(): string {
+    return this.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  }
+
+  sign(checkpoint: UnsignedCheckpoint): AuditCheckpoint {
+    const payload = checkpointPayload({ ...checkpoint, keyId: this.keyId });
+    const signature = crypto.sign(digestFor(this.privateKey), Buffer.from(payload), this.privateKey);
+
+    return {
+      ...checkpoint,
+      keyId: this.keyId,
+      signature: signature.toString('base64')
+    };
+  }
+}
+
+/**
+ * Verifies checkpoint signatures against one or more public keys, so old
+ * checkpoints stay verifiable after the signing key is rotated
+ */
+export class CheckpointVerifier {
+  private keys: Map<string, crypto.KeyObject> = new Map();
+
+  constructor(publicKeys: Array<string | crypto.KeyObject>) {
+    for (const publicKey of publicKeys) {
+      const key = typeof publicKey === 'string' ? crypto.createPublicKey(publicKey) : publicKey;
+      this.keys.set(getKeyId(key), key);
+    }
+  }
+
+  verify(checkpoint: AuditCheckpoint): boolean {
+    const key = this.keys.get(checkpoint.keyId);
+    if (!key) return false;
+
+    try {
+      return crypto.verify(
+        digestFor(key),
+        Buffer.from(checkpointPayload(checkpoint)),
+        key,
+        Buffer.from(checkpoint.signature, 'base64')
+      );
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Merkle tree for efficient verification
+ */
+export class MerkleTree {
+  private leaves: string[] = [];
+  private tree: string[][] = [];
+
+  addLeaf(hash: string): void {
+    this.leaves.push(hash);
+    this.rebuildTree();
+  }
+
+  build(hashes: string[]): void {
+    this.leaves = [...hashes];
+    this.rebuildTree();
+  }
+
+  getRoot(): string {
+    if (this.tree.length === 0) return '';
+    return this.tree[this.tree.length - 1][0] || '';
+  }
+
+  private rebuildTree(): void {
+    if (this.leaves.length === 0) return;
+
+    this.tree = [this.leaves];
+
+    while (this.tree[this.tree.length - 1].length > 1) {
+      const currentLevel = this.tree[this.tree.length - 1];
+      const nextLevel: string[] = [];
+
+      for (let i = 0; i < currentLevel.length; i += 2) {
+        const left = currentLevel[i];
+        const right = currentLevel[i + 1] || left; // Duplicate if odd number
+        const combined = CryptoUtils.generateHash(left + right);
+        nextLevel.push(combined);
+      }
+
+      this.tree.push(nextLevel);
+    }
+  }
+}
+
+function checkpointPayload(checkpoint: Omit<AuditCheckpoint, 'signature'>): string {
+  return [
+    checkpoint.id,
+    checkpoint.fromSequence,
+    checkpoint.toSequence,
+    checkpoint.lastHash,
+    checkpoint.merkleRoot,
+    checkpoint.createdAt.toISOString(),
+    checkpoint.keyId
+  ].join('|');
+}
+
+// Ed25519 and Ed448 hash internally and take no digest
+function digestFor(key: crypto.KeyObject): string | null {
+  return key.asymmetricKeyType === 'ed25519' || key.asymmetricKeyType === 'ed448' ? null : 'sha256';
+}
+
+function getKeyId(publicKey: crypto.KeyObject): string {
+  const der = publicKey.export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
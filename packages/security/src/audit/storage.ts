@@ -0,0 +1,361 @@
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { AuditEntry, AuditOutcome } from '../types';
+import { AuditCheckpoint } from './checkpoints';
+
+/**
+ * Append-only storage for audit entries and their checkpoints.
+ * Stores keep entries exactly as they were hashed and return them in chain order.
+ */
+export interface AuditStore {
+  initialize(): Promise<void>;
+  append(entry: AuditEntry): Promise<void>;
+  /** Last entry in the chain, or null for an empty store */
+  getHead(): Promise<AuditEntry | null>;
+  /** Entries in sequence order, starting after `afterSequence` */
+  readEntries(afterSequence?: number): AsyncIterable<AuditEntry>;
+  appendCheckpoint(checkpoint: AuditCheckpoint): Promise<void>;
+  readCheckpoints(): Promise<AuditCheckpoint[]>;
+}
+
+/**
+ * Thrown by a store when another writer already took an entry's sequence, or already
+ * checkpointed part of a range. The writer reloads the head and tries again.
+ */
+export class AuditSequenceConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuditSequenceConflictError';
+  }
+}
+
+/**
+ * Minimal query interface, satisfied by a pg Pool or Client
+ */
+export interface AuditQueryable {
+  query(text: string, params?: any[]): Promise<{ rows: any[] }>;
+}
+
+export function serializeAuditEntry(entry: AuditEntry): string {
+  return JSON.stringify({ ...entry, timestamp: entry.timestamp.toISOString() });
+}
+
+export function deserializeAuditEntry(line: string): AuditEntry {
+  const raw = JSON.parse(line);
+  return { ...raw, timestamp: new Date(raw.timestamp) };
+}
+
+function serializeCheckpoint(checkpoint: AuditCheckpoint): string {
+  return JSON.stringify({ ...checkpoint, createdAt: checkpoint.createdAt.toISOString() });
+}
+
+function deserializeCheckpoint(line: string): AuditCheckpoint {
+  const raw = JSON.parse(line);
+  return { ...raw, createdAt: new Date(raw.createdAt) };
+}
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Postgres store. Expects the audit_entries and audit_checkpoints tables, with
+ * triggers that reject UPDATE, DELETE and TRUNCATE (see the README for the schema).
+ * Replicas sharing the tables append through the sequence primary key: a writer whose
+ * head is stale gets an AuditSequenceConflictError instead of forking the chain.
+ */
+export class PostgresAuditStore implements AuditStore {
+  private db: AuditQueryable;
+
+  constructor(db: AuditQueryable) {
+    this.db = db;
+  }
+
+  async initialize(): Promise<void> {
+    // Tables are created by migrations
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    await this.insert(`
+      INSERT INTO audit_entries (
+        sequence, id, timestamp, user_id, action, resource, details,
+        ip_address, user_agent, session_id, outcome, hash, previous_hash
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+    `, [
+      entry.sequence,
+      entry.id,
+      entry.timestamp,
+      entry.userId ?? null,
+      entry.action,
+      entry.resource,
+      JSON.stringify(entry.details),
+      entry.ipAddress ?? null,
+      entry.userAgent ?? null,
+      entry.sessionId ?? null,
+      entry.outcome,
+      entry.hash,
+      entry.previousHash ?? null
+    ], `Audit sequence ${entry.sequence} is already taken`);
+  }
+
+  async getHead(): Promise<AuditEntry | null> {
+    const result = await this.db.query('SELECT * FROM audit_entries ORDER BY sequence DESC LIMIT 1');
+    return result.rows[0] ? this.mapEntry(result.rows[0]) : null;
+  }
+
+  async *readEntries(afterSequence: number = 0): AsyncIterable<AuditEntry> {
+    let cursor = afterSequence;
+
+    while (true) {
+      const result = await this.db.query(
+        'SELECT * FROM audit_entries WHERE sequence > $1 ORDER BY sequence LIMIT $2',
+        [cursor, PAGE_SIZE]
+      );
+
+      for (const row of result.rows) {
+        const entry = this.mapEntry(row);
+        cursor = entry.sequence!;
+        yield entry;
+      }
+
+      if (result.rows.length < PAGE_SIZE) return;
+    }
+  }
+
+  async appendCheckpoint(checkpoint: AuditCheckpoint): Promise<void> {
+    await this.insert(`
+      INSERT INTO audit_checkpoints (
+        id, from_sequence, to_sequence, last_hash, merkle_root, created_at, key_id, signature
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    `, [
+      checkpoint.id,
+      checkpoint.fromSequence,
+      checkpoint.toSequence,
+      checkpoint.lastHash,
+      checkpoint.merkleRoot,
+      checkpoint.createdAt,
+      checkpoint.keyId,
+      checkpoint.signature
+    ], `Audit sequences ${checkpoint.fromSequence}-${checkpoint.toSequence} are already checkpointed`);
+  }
+
+  // Unique (23505) and exclusion (23P01) violations mean another replica got there first
+  private async insert(text: string, params: any[], conflict: string): Promise<void> {
+    try {
+      await this.db.query(text, params);
+    } catch (error: any) {
+      if (error?.code === '23505' || error?.code === '23P01') {
+        throw new AuditSequenceConflictError(conflict);
+      }
+      throw error;
+    }
+  }
+
+  async readCheckpoints(): Promise<AuditCheckpoint[]> {
+    const result = await this.db.query('SELECT * FROM audit_checkpoints ORDER BY from_sequence');
+    return result.rows.map(row => ({
+      id: row.id,
+      fromSequence: Number(row.from_sequence),
+      toSequence: Number(row.to_sequence),
+      lastHash: row.last_hash,
+      merkleRoot: row.merkle_root,
+      createdAt: new Date(row.created_at),
+      keyId: row.key_id,
+      signature: row.signature
+    }));
+  }
+
+  private mapEntry(row: any): AuditEntry {
+    // details is a json column (not jsonb) so key order, and with it the hash, survives the round trip
+    return {
+      id: row.id,
+      sequence: Number(row.sequence),
+      timestamp: new Date(row.timestamp),
+      userId: row.user_id ?? undefined,
+      action: row.action,
+      resource: row.resource,
+      details: typeof row.details === 'string' ? JSON.parse(row.details) : row.details,
+      ipAddress: row.ip_address ?? undefined,
+      userAgent: row.user_agent ?? undefined,
+      sessionId: row.session_id ?? undefined,
+      outcome: row.outcome as AuditOutcome,
+      hash: row.hash,
+      previousHash: row.previous_hash ?? undefined
+    };
+  }
+}
+
+export interface FileAuditStoreOptions {
+  directory: string;
+  /** Start a new file once the current one reaches this size (default: 50MB) */
+  maxFileBytes?: number;
+}
+
+const ENTRY_FILE_PATTERN = /^audit-(\d{4}-\d{2}-\d{2})-(\d{4})\.jsonl$/;
+const CHECKPOINT_FILE = 'checkpoints.jsonl';
+const DEFAULT_MAX_FILE_BYTES = 50 * 1024 * 1024;
+
+/**
+ * JSON Lines files rotated daily and by size: audit-<date>-<n>.jsonl.
+ * Files are only ever appended to, and are made read-only once rotated out.
+ */
+export class FileAuditStore implements AuditStore {
+  private directory: string;
+  private maxFileBytes: number;
+  private currentFile?: { name: string; date: string; index: number; size: number };
+  private head: AuditEntry | null = null;
+
+  constructor(options: FileAuditStoreOptions) {
+    this.directory = options.directory;
+    this.maxFileBytes = options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+  }
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const files = await this.listEntryFiles();
+    const latest = files[files.length - 1];
+    if (!latest) return;
+
+    const match = ENTRY_FILE_PATTERN.exec(latest)!;
+    const stat = await fs.stat(path.join(this.directory, latest));
+    this.currentFile = { name: latest, date: match[1], index: parseInt(match[2], 10), size: stat.size };
+
+    for await (const entry of this.readFile(latest)) {
+      this.head = entry;
+    }
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    const line = serializeAuditEntry(entry) + '\n';
+    const file = await this.fileFor(Buffer.byteLength(line));
+
+    await fs.appendFile(path.join(this.directory, file.name), line);
+    file.size += Buffer.byteLength(line);
+    this.head = entry;
+  }
+
+  async getHead(): Promise<AuditEntry | null> {
+    return this.head;
+  }
+
+  async *readEntries(afterSequence: number = 0): AsyncIterable<AuditEntry> {
+    for (const file of await this.listEntryFiles()) {
+      for await (const entry of this.readFile(file)) {
+        if ((entry.sequence ?? 0) > afterSequence) {
+          yield entry;
+        }
+      }
+    }
+  }
+
+  async appendCheckpoint(checkpoint: AuditCheckpoint): Promise<void> {
+    await fs.appendFile(path.join(this.directory, CHECKPOINT_FILE), serializeCheckpoint(checkpoint) + '\n');
+  }
+
+  async readCheckpoints(): Promise<AuditCheckpoint[]> {
+    const checkpoints: AuditCheckpoint[] = [];
+    try {
+      for await (const line of this.readLines(CHECKPOINT_FILE)) {
+        checkpoints.push(deserializeCheckpoint(line));
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    return checkpoints;
+  }
+
+  /**
+   * File to append to, rotating on a new UTC day or when it would grow past the limit.
+   * File names sort in chain order, so the date never moves backwards with the clock.
+   */
+  private async fileFor(bytes: number): Promise<{ name: string; size: number }> {
+    const current = this.currentFile;
+    const today = new Date().toISOString().slice(0, 10);
+    const date = current && current.date > today ? current.date : today;
+
+    if (current && current.date === date && (current.size === 0 || current.size + bytes <= this.maxFileBytes)) {
+      return current;
+    }
+
+    if (current) {
+      await fs.chmod(path.join(this.directory, current.name), 0o444);
+    }
+
+    const index = current && current.date === date ? current.index + 1 : 1;
+    this.currentFile = {
+      name: `audit-${date}-${String(index).padStart(4, '0')}.jsonl`,
+      date,
+      index,
+      size: 0
+    };
+    return this.currentFile;
+  }
+
+  private async listEntryFiles(): Promise<string[]> {
+    const files = await fs.readdir(this.directory);
+    return files.filter(file => ENTRY_FILE_PATTERN.test(file)).sort();
+  }
+
+  private async *readFile(file: string): AsyncIterable<AuditEntry> {
+    for await (const line of this.readLines(file)) {
+      yield deserializeAuditEntry(line);
+    }
+  }
+
+  private async *readLines(file: string): AsyncIterable<string> {
+    const stream = createReadStream(path.join(this.directory, file), { encoding: 'utf8' });
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+
+    for await (const line of lines) {
+      if (line.trim()) yield line;
+    }
+  }
+}
+
+/**
+ * In-memory store for development and tests
+ */
+export class MemoryAuditStore implements AuditStore {
+  private entries: string[] = [];
+  private checkpoints: AuditCheckpoint[] = [];
+
+  async initialize(): Promise<void> {}
+
+  async append(entry: AuditEntry): Promise<void> {
+    // Checked and pushed without yielding, so concurrent writers cannot both take a sequence
+    const last = this.entries[this.entries.length - 1];
+    if (last && (entry.sequence ?? 0) <= (deserializeAuditEntry(last).sequence ?? 0)) {
+      throw new AuditSequenceConflictError(`Audit sequence ${entry.sequence} is already taken`);
+    }
+    this.entries.push(serializeAuditEntry(entry));
+  }
+
+  async getHead(): Promise<AuditEntry | null> {
+    const last = this.entries[this.entries.length - 1];
+    return last ? deserializeAuditEntry(last) : null;
+  }
+
+  async *readEntries(afterSequence: number = 0): AsyncIterable<AuditEntry> {
+    for (const line of this.entries) {
+      const entry = deserializeAuditEntry(line);
+      if ((entry.sequence ?? 0) > afterSequence) {
+        yield entry;
+      }
+    }
+  }
+
+  async appendCheckpoint(checkpoint: AuditCheckpoint): Promise<void> {
+    if (this.checkpoints.some(existing =>
+      existing.fromSequence <= checkpoint.toSequence && checkpoint.fromSequence <= existing.toSequence
+    )) {
+      throw new AuditSequenceConflictError(
+        `Audit sequences ${checkpoint.fromSequence}-${checkpoint.toSequence} are already checkpointed`
+      );
+    }
+    this.checkpoints.push({ ...checkpoint });
+  }
+
+  async readCheckpoints(): Promise<AuditCheckpoint[]> {
+    return this.checkpoints.map(checkpoint => ({ ...checkpoint }));
+  }
+}
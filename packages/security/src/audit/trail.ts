@@ -8,10 +8,27 @@ import {
   EncryptionConfig
 } from '../types';
 import { CryptoUtils, TimeUtils } from '../utils';
+import { AuditCheckpoint, CheckpointSigner, CheckpointVerifier, MerkleTree } from './checkpoints';
+import { AuditSequenceConflictError, AuditStore } from './storage';
+import { StorageVerificationResult, calculateAuditEntryHash, verifyAuditStore } from './verify';
+
+export interface AuditTrailOptions {
+  /** Append-only stores every entry is written to; the first one holds the chain head */
+  stores?: AuditStore[];
+  /** Signs periodic Merkle-root checkpoints of newly stored entries */
+  signer?: CheckpointSigner;
+  /** Milliseconds between checkpoints (default: 1 hour) */
+  checkpointInterval?: number;
+}
+
+const DEFAULT_CHECKPOINT_INTERVAL = 60 * 60 * 1000;
+// Retries after losing the sequence to another process before logEntry fails
+const MAX_APPEND_ATTEMPTS = 10;
 
 /**
  * Tamper-proof audit trail system with blockchain integration
- * Provides immutable audit logging with cryptographic verification
+ * Provides immutable audit logging with cryptographic verification,
+ * append-only storage and signed Merkle-root checkpoints
  */
 export class AuditTrail extends EventEmitter {
   private config: AuditTrailConfig;
@@ -22,13 +39,25 @@ export class AuditTrail extends EventEmitter {
   private isRunning = false;
   private batchTimer?: NodeJS.Timeout;
   private pendingEntries: AuditEntry[] = [];
-
-  constructor(config: AuditTrailConfig) {
+  private stores: AuditStore[];
+  private signer?: CheckpointSigner;
+  private checkpointInterval: number;
+  private checkpointTimer?: NodeJS.Timeout;
+  private sequence = 0;
+  private lastHash?: string;
+  // Appends and checkpoints run one at a time so the chain has a single order; other
+  // processes sharing the primary store are ordered by its sequence conflicts
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(config: AuditTrailConfig, options: AuditTrailOptions = {}) {
     super();
     this.config = config;
     this.blockchain = new BlockchainIntegration(config.blockchain);
     this.encryption = new EncryptionManager(config.encryption);
     this.merkleTree = new MerkleTree();
+    this.stores = options.stores ?? [];
+    this.signer = options.signer;
+    this.checkpointInterval = options.checkpointInterval ?? DEFAULT_CHECKPOINT_INTERVAL;
   }
 
   /**
@@ -40,9 +69,11 @@ export class AuditTrail extends EventEmitter {
     this.isRunning = true;
     await this.blockchain.initialize();
     await this.encryption.initialize();
+    await this.loadChainHead();
 
     // Start batch processing
     this.startBatchProcessing();
+    this.startCheckpointing();
 
     this.emit('audit:started');
   }
@@ -58,11 +89,19 @@ export class AuditTrail extends EventEmitter {
       this.batchTimer = undefined;
     }
 
+    if (this.checkpointTimer) {
+      clearTimeout(this.checkpointTimer);
+      this.checkpointTimer = undefined;
+    }
+
     // Process remaining entries
     if (this.pendingEntries.length > 0) {
       await this.processBatch();
     }
 
+    // Cover entries written since the last checkpoint
+    await this.createCheckpoint();
+
     await this.blockchain.disconnect();
     this.emit('audit:stopped');
   }
@@ -71,28 +110,7 @@ export class AuditTrail extends EventEmitter {
    * Log an audit entry
    */
   async logEntry(entry: Partial<AuditEntry>): Promise<AuditEntry> {
-    const auditEntry: AuditEntry = {
-      id: entry.id || CryptoUtils.generateSecureId(),
-      timestamp: entry.timestamp || new Date(),
-      userId: entry.userId,
-      action: entry.action || 'unknown',
-      resource: entry.resource || 'unknown',
-      details: entry.details || {},
-      ipAddress: entry.ipAddress,
-      userAgent: entry.userAgent,
-      sessionId: entry.sessionId,
-      outcome: entry.outcome || AuditOutcome.SUCCESS,
-      hash: '',
-      previousHash: this.getLastHash(),
-      blockchainTxId: undefined
-    };
-
-    // Calculate entry hash
-    auditEntry.hash = this.calculateEntryHash(auditEntry);
-
-    // Add to pending entries for batch processing
-    this.pendingEntries.push(auditEntry);
-    this.auditEntries.set(auditEntry.id, auditEntry);
+    const auditEntry = await this.enqueue(() => this.appendEntry(entry));
 
     // Emit event
     this.emit('audit:entry', auditEntry);
@@ -105,6 +123,32 @@ export class AuditTrail extends EventEmitter {
     return auditEntry;
   }
 
+  /**
+   * Sign a checkpoint over the entries stored since the last one.
+   * Returns null when there is nothing new, no signer or no store.
+   */
+  async createCheckpoint(): Promise<AuditCheckpoint | null> {
+    return this.enqueue(() => this.writeCheckpoint());
+  }
+
+  /**
+   * Re-verify the chain and checkpoints as stored, from the first entry.
+   * Defaults to the primary store, checking signatures with this trail's signer.
+   */
+  async verifyStorage(store?: AuditStore, verifier?: CheckpointVerifier): Promise<StorageVerificationResult> {
+    const target = store ?? this.stores[0];
+    if (!target) {
+      throw new Error('Audit trail has no storage to verify');
+    }
+
+    const result = await verifyAuditStore(target, {
+      verifier: verifier ?? (this.signer ? new CheckpointVerifier([this.signer.getPublicKey()]) : undefined)
+    });
+
+    this.emit('audit:storage_verification', result);
+    return result;
+  }
+
   /**
    * Log from security event
    */
@@ -186,9 +230,9 @@ export class AuditTrail extends EventEmitter {
       blockchainVerification: null
     };
 
-    // Sort entries by timestamp
-    const sortedEntries = entriesToVerify.sort((a, b) => 
-      a.timestamp.getTime() - b.timestamp.getTime()
+    // Sort entries by chain position, falling back to timestamp
+    const sortedEntries = entriesToVerify.sort((a, b) =>
+      (a.sequence ?? 0) - (b.sequence ?? 0) || a.timestamp.getTime() - b.timestamp.getTime()
     );
 
     let previousHash: string | undefined;
@@ -317,29 +361,17 @@ export class AuditTrail extends EventEmitter {
    * Calculate hash for an audit entry
    */
   private calculateEntryHash(entry: AuditEntry): string {
-    const hashInput = [
-      entry.id,
-      entry.timestamp.toISOString(),
-      entry.userId || '',
-      entry.action,
-      entry.resource,
-      JSON.stringify(entry.details),
-      entry.ipAddress || '',
-      entry.userAgent || '',
-      entry.sessionId || '',
-      entry.outcome,
-      entry.previousHash || ''
-    ].join('|');
-
-    return CryptoUtils.generateHash(hashInput, 'sha256');
+    return calculateAuditEntryHash(entry);
   }
 
   /**
    * Verify a single audit entry
    */
   private async verifyEntry(entry: AuditEntry, expectedPreviousHash?: string): Promise<boolean> {
-    // Verify hash
-    const calculatedHash = this.calculateEntryHash(entry);
+    // Verify hash; details are hashed before they are encrypted
+    const plaintext = { ...entry };
+    await this.encryption.decryptEntry(plaintext);
+    const calculatedHash = this.calculateEntryHash(plaintext);
     if (calculatedHash !== entry.hash) {
       return false;
     }
@@ -357,20 +389,6 @@ export class AuditTrail extends EventEmitter {
     return true;
   }
 
-  /**
-   * Get the hash of the last audit entry
-   */
-  private getLastHash(): string | undefined {
-    const entries = Array.from(this.auditEntries.values());
-    if (entries.length === 0) return undefined;
-
-    const lastEntry = entries.sort((a, b) => 
-      b.timestamp.getTime() - a.timestamp.getTime()
-    )[0];
-
-    return lastEntry.hash;
-  }
-
   /**
    * Process a single entry
    */
@@ -397,6 +415,156 @@ export class AuditTrail extends EventEmitter {
     }
   }
 
+  /**
+   * Chain, hash and store an entry; the head only moves once the primary store has it.
+   * When another process appended first, the head is reloaded and the entry re-chained.
+   */
+  private async appendEntry(entry: Partial<AuditEntry>): Promise<AuditEntry> {
+    const auditEntry: AuditEntry = {
+      id: entry.id || CryptoUtils.generateSecureId(),
+      timestamp: entry.timestamp || new Date(),
+      userId: entry.userId,
+      action: entry.action || 'unknown',
+      resource: entry.resource || 'unknown',
+      details: entry.details || {},
+      ipAddress: entry.ipAddress,
+      userAgent: entry.userAgent,
+      sessionId: entry.sessionId,
+      outcome: entry.outcome || AuditOutcome.SUCCESS,
+      hash: '',
+      previousHash: undefined,
+      blockchainTxId: undefined
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      auditEntry.sequence = this.sequence + 1;
+      auditEntry.previousHash = this.lastHash;
+      auditEntry.hash = this.calculateEntryHash(auditEntry);
+
+      try {
+        await this.persistEntry(auditEntry);
+        break;
+      } catch (error) {
+        if (!(error instanceof AuditSequenceConflictError) || attempt >= MAX_APPEND_ATTEMPTS) {
+          throw error;
+        }
+        await this.reloadHead();
+      }
+    }
+
+    this.sequence = auditEntry.sequence!;
+    this.lastHash = auditEntry.hash;
+
+    // Add to pending entries for batch processing
+    this.pendingEntries.push(auditEntry);
+    this.auditEntries.set(auditEntry.id, auditEntry);
+
+    return auditEntry;
+  }
+
+  /**
+   * Write to the primary store, then to the others. A failed secondary write
+   * leaves a gap that verifying that store will report.
+   */
+  private async persistEntry(entry: AuditEntry): Promise<void> {
+    const [primary, ...secondaries] = this.stores;
+    if (!primary) return;
+
+    await primary.append(entry);
+    await Promise.all(secondaries.map(store =>
+      store.append(entry).catch(error => this.emit('audit:error', { entry, error }))
+    ));
+  }
+
+  /**
+   * Sign the entries after the last stored checkpoint. The range is read back from the
+   * primary store, so it includes entries other processes appended; when one of them
+   * checkpoints the range first, this one is skipped.
+   */
+  private async writeCheckpoint(): Promise<AuditCheckpoint | null> {
+    const [primary, ...secondaries] = this.stores;
+    if (!this.signer || !primary) {
+      return null;
+    }
+
+    const checkpoints = await primary.readCheckpoints();
+    const covered = checkpoints.reduce((max, checkpoint) => Math.max(max, checkpoint.toSequence), 0);
+    const hashes: string[] = [];
+    let last: AuditEntry | undefined;
+    for await (const entry of primary.readEntries(covered)) {
+      hashes.push(entry.hash);
+      last = entry;
+    }
+    if (!last) {
+      return null;
+    }
+
+    const tree = new MerkleTree();
+    tree.build(hashes);
+
+    const checkpoint = this.signer.sign({
+      id: CryptoUtils.generateSecureId(),
+      fromSequence: covered + 1,
+      toSequence: last.sequence!,
+      lastHash: last.hash,
+      merkleRoot: tree.getRoot(),
+      createdAt: new Date()
+    });
+
+    try {
+      await primary.appendCheckpoint(checkpoint);
+    } catch (error) {
+      if (error instanceof AuditSequenceConflictError) {
+        return null;
+      }
+      throw error;
+    }
+    await Promise.all(secondaries.map(store =>
+      store.appendCheckpoint(checkpoint).catch(error => this.emit('audit:error', { checkpoint, error }))
+    ));
+
+    this.emit('audit:checkpoint', checkpoint);
+    return checkpoint;
+  }
+
+  /**
+   * Continue the stored chain
+   */
+  private async loadChainHead(): Promise<void> {
+    await Promise.all(this.stores.map(store => store.initialize()));
+    await this.reloadHead();
+  }
+
+  private async reloadHead(): Promise<void> {
+    const primary = this.stores[0];
+    if (!primary) return;
+
+    const head = await primary.getHead();
+    this.sequence = head?.sequence ?? 0;
+    this.lastHash = head?.hash;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private startCheckpointing(): void {
+    if (!this.signer || this.stores.length === 0) return;
+
+    this.checkpointTimer = setTimeout(async () => {
+      if (this.isRunning) {
+        try {
+          await this.createCheckpoint();
+        } catch (error) {
+          this.emit('audit:error', { error });
+        }
+        this.startCheckpointing();
+      }
+    }, this.checkpointInterval);
+  }
+
   /**
    * Start batch processing
    */
@@ -639,49 +807,6 @@ class EncryptionManager {
   }
 }
 
-/**
- * Merkle tree for efficient verification
- */
-class MerkleTree {
-  private leaves: string[] = [];
-  private tree: string[][] = [];
-
-  addLeaf(hash: string): void {
-    this.leaves.push(hash);
-    this.rebuildTree();
-  }
-
-  build(hashes: string[]): void {
-    this.leaves = [...hashes];
-    this.rebuildTree();
-  }
-
-  getRoot(): string {
-    if (this.tree.length === 0) return '';
-    return this.tree[this.tree.length - 1][0] || '';
-  }
-
-  private rebuildTree(): void {
-    if (this.leaves.length === 0) return;
-
-    this.tree = [this.leaves];
-
-    while (this.tree[this.tree.length - 1].length > 1) {
-      const currentLevel = this.tree[this.tree.length - 1];
-      const nextLevel: string[] = [];
-
-      for (let i = 0; i < currentLevel.length; i += 2) {
-        const left = currentLevel[i];
-        const right = currentLevel[i + 1] || left; // Duplicate if odd number
-        const combined = CryptoUtils.generateHash(left + right);
-        nextLevel.push(combined);
-      }
-
-      this.tree.push(nextLevel);
-    }
-  }
-}
-
 // Supporting interfaces
 interface AuditQuery {
   userId?: string;
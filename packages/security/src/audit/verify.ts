@@ -0,0 +1,149 @@
+import { AuditEntry } from '../types';
+import { CryptoUtils } from '../utils';
+import { AuditCheckpoint, CheckpointVerifier, MerkleTree } from './checkpoints';
+import { AuditStore } from './storage';
+
+export interface StorageVerificationResult {
+  isValid: boolean;
+  totalEntries: number;
+  headHash?: string;
+  checkpoints: number;
+  /** Checkpoints whose signature was checked against a trusted key */
+  verifiedCheckpoints: number;
+  /** Entries after the last checkpoint, covered by the hash chain alone */
+  uncheckpointedEntries: number;
+  errors: StorageVerificationError[];
+}
+
+export interface StorageVerificationError {
+  sequence?: number;
+  checkpointId?: string;
+  reason: string;
+}
+
+export interface StorageVerificationOptions {
+  /** Without a verifier, checkpoint roots are still recomputed but signatures are not checked */
+  verifier?: CheckpointVerifier;
+  /** Stop collecting errors after this many (default: 100) */
+  maxErrors?: number;
+}
+
+/**
+ * Hash an audit entry over its content and the previous entry's hash
+ */
+export function calculateAuditEntryHash(entry: AuditEntry): string {
+  const hashInput = [
+    entry.id,
+    entry.timestamp.toISOString(),
+    entry.userId || '',
+    entry.action,
+    entry.resource,
+    JSON.stringify(entry.details),
+    entry.ipAddress || '',
+    entry.userAgent || '',
+    entry.sessionId || '',
+    entry.outcome,
+    entry.previousHash || ''
+  ].join('|');
+
+  return CryptoUtils.generateHash(hashInput, 'sha256');
+}
+
+/**
+ * Re-verify a stored audit chain from the first entry: every hash, every link,
+ * sequence gaps, and each checkpoint's range, Merkle root and signature
+ */
+export async function verifyAuditStore(
+  store: AuditStore,
+  options: StorageVerificationOptions = {}
+): Promise<StorageVerificationResult> {
+  const maxErrors = options.maxErrors ?? 100;
+  const checkpoints = (await store.readCheckpoints()).sort((a, b) => a.fromSequence - b.fromSequence);
+  const result: StorageVerificationResult = {
+    isValid: true,
+    totalEntries: 0,
+    checkpoints: checkpoints.length,
+    verifiedCheckpoints: 0,
+    uncheckpointedEntries: 0,
+    errors: []
+  };
+
+  const fail = (error: StorageVerificationError) => {
+    result.isValid = false;
+    if (result.errors.length < maxErrors) {
+      result.errors.push(error);
+    }
+  };
+
+  const checkCheckpoint = (checkpoint: AuditCheckpoint, hashes: string[], last: AuditEntry) => {
+    const tree = new MerkleTree();
+    tree.build(hashes);
+
+    if (hashes.length !== checkpoint.toSequence - checkpoint.fromSequence + 1) {
+      fail({ checkpointId: checkpoint.id, reason: 'Checkpoint covers entries missing from storage' });
+    } else if (checkpoint.lastHash !== last.hash || checkpoint.merkleRoot !== tree.getRoot()) {
+      fail({ checkpointId: checkpoint.id, reason: 'Checkpoint does not match stored entries' });
+    }
+
+    if (options.verifier) {
+      if (options.verifier.verify(checkpoint)) {
+        result.verifiedCheckpoints++;
+      } else {
+        fail({ checkpointId: checkpoint.id, reason: 'Invalid checkpoint signature' });
+      }
+    }
+  };
+
+  let expectedSequence = 1;
+  let previousHash: string | undefined;
+  let checkpointIndex = 0;
+  let rangeHashes: string[] = [];
+  let lastCheckpointed = 0;
+
+  for await (const entry of store.readEntries()) {
+    const sequence = entry.sequence ?? expectedSequence;
+    result.totalEntries++;
+
+    if (sequence !== expectedSequence) {
+      fail({ sequence, reason: `Expected sequence ${expectedSequence}; entries are missing or out of order` });
+    }
+    if (calculateAuditEntryHash(entry) !== entry.hash) {
+      fail({ sequence, reason: 'Entry hash does not match its content' });
+    }
+    if (entry.previousHash !== previousHash) {
+      fail({ sequence, reason: 'Previous hash does not match the preceding entry' });
+    }
+
+    // Checkpoints that end before this entry covered entries that are no longer stored
+    while (checkpoints[checkpointIndex] && checkpoints[checkpointIndex].toSequence < sequence) {
+      fail({ checkpointId: checkpoints[checkpointIndex].id, reason: 'Checkpoint covers entries missing from storage' });
+      checkpointIndex++;
+      rangeHashes = [];
+    }
+
+    const checkpoint = checkpoints[checkpointIndex];
+    if (checkpoint && sequence >= checkpoint.fromSequence) {
+      rangeHashes.push(entry.hash);
+      if (sequence === checkpoint.toSequence) {
+        checkCheckpoint(checkpoint, rangeHashes, entry);
+        lastCheckpointed = sequence;
+        checkpointIndex++;
+        rangeHashes = [];
+      }
+    }
+
+    expectedSequence = sequence + 1;
+    previousHash = entry.hash;
+  }
+
+  // A signed checkpoint past the stored head means the tail was truncated
+  for (const checkpoint of checkpoints.slice(checkpointIndex)) {
+    fail({ checkpointId: checkpoint.id, reason: 'Checkpoint covers entries missing from storage' });
+  }
+
+  if (previousHash) {
+    result.headHash = previousHash;
+  }
+  result.uncheckpointedEntries = expectedSequence - 1 - lastCheckpointed;
+  return result;
+}
@@ -17,7 +17,31 @@
 // Core security classes
 export { ThreatDetector } from './threats/detector';
 export { ComplianceMonitor } from './compliance/monitor';
-export { AuditTrail } from './audit/trail';
+export { AuditTrail, AuditTrailOptions } from './audit/trail';
+export {
+  AuditStore,
+  AuditQueryable,
+  PostgresAuditStore,
+  FileAuditStore,
+  FileAuditStoreOptions,
+  MemoryAuditStore,
+  AuditSequenceConflictError,
+  serializeAuditEntry,
+  deserializeAuditEntry
+} from './audit/storage';
+export {
+  AuditCheckpoint,
+  CheckpointSigner,
+  CheckpointVerifier,
+  generateCheckpointKeyPair
+} from './audit/checkpoints';
+export {
+  StorageVerificationResult,
+  StorageVerificationError,
+  StorageVerificationOptions,
+  calculateAuditEntryHash,
+  verifyAuditStore
+} from './audit/verify';
 export { AccessAnomalyDetector } from './anomalies/access';
 export { DDoSDetector } from './ddos/detection';
 export { SecurityScoreCalculator } from './scoring/calculator';
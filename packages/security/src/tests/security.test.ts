@@ -5,7 +5,13 @@ import {
   AccessAnomalyDetector,
   DDoSDetector,
   SecurityScoreCalculator,
-  VulnerabilityScanner
+  VulnerabilityScanner,
+  FileAuditStore,
+  MemoryAuditStore,
+  CheckpointSigner,
+  CheckpointVerifier,
+  generateCheckpointKeyPair,
+  verifyAuditStore
 } from '../index';
 
 import {
@@ -26,6 +32,9 @@ import {
   VulnerabilityStatus,
   VulnerabilitySeverity
 } from '../types';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 describe('Security System Integration Tests', () => {
   let securityConfig: SecurityConfiguration;
@@ -440,6 +449,203 @@ describe('Security System Integration Tests', () => {
     });
   });
 
+  describe('Audit trail storage', () => {
+    let directory: string;
+    let keys: { privateKey: string; publicKey: string };
+
+    const logActions = async (trail: AuditTrail, count: number) => {
+      for (let i = 0; i < count; i++) {
+        await trail.logEntry({
+          action: 'admin_action',
+          resource: `/admin/item/${i}`,
+          details: { index: i, nested: { b: 2, a: 1 } },
+          outcome: AuditOutcome.SUCCESS
+        });
+      }
+    };
+
+    const entryFiles = async () =>
+      (await fs.readdir(directory)).filter(file => file.startsWith('audit-')).sort();
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-trail-'));
+      keys = generateCheckpointKeyPair();
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    test('should continue the stored chain after a restart', async () => {
+      const first = new AuditTrail(securityConfig.auditTrail, {
+        stores: [new FileAuditStore({ directory })]
+      });
+      await first.start();
+      await logActions(first, 3);
+      await first.stop();
+
+      const second = new AuditTrail(securityConfig.auditTrail, {
+        stores: [new FileAuditStore({ directory })]
+      });
+      await second.start();
+      const entry = await second.logEntry({ action: 'key_created', resource: '/admin/api-keys' });
+      await second.stop();
+
+      expect(entry.sequence).toBe(4);
+
+      const result = await verifyAuditStore(new FileAuditStore({ directory }));
+      expect(result.isValid).toBe(true);
+      expect(result.totalEntries).toBe(4);
+      expect(result.headHash).toBe(entry.hash);
+    });
+
+    test('should write to every store and keep concurrent entries in chain order', async () => {
+      const memory = new MemoryAuditStore();
+      const trail = new AuditTrail(securityConfig.auditTrail, {
+        stores: [memory, new FileAuditStore({ directory })]
+      });
+      await trail.start();
+
+      const entries = await Promise.all(
+        Array.from({ length: 5 }, (_, i) => trail.logEntry({ action: `concurrent_${i}`, resource: 'test' }))
+      );
+      await trail.stop();
+
+      expect(entries.map(entry => entry.sequence)).toEqual([1, 2, 3, 4, 5]);
+      expect((await verifyAuditStore(memory)).isValid).toBe(true);
+      expect((await verifyAuditStore(new FileAuditStore({ directory }))).totalEntries).toBe(5);
+    });
+
+    test('should share one chain between trails appending to the same store', async () => {
+      const store = new MemoryAuditStore();
+      const trails = [0, 1].map(() => new AuditTrail(securityConfig.auditTrail, {
+        stores: [store],
+        signer: new CheckpointSigner(keys.privateKey)
+      }));
+      await Promise.all(trails.map(trail => trail.start()));
+
+      await logActions(trails[0], 2);
+      await logActions(trails[1], 2);
+      const entries = await Promise.all(
+        Array.from({ length: 6 }, (_, i) => trails[i % 2].logEntry({ action: `replica_${i}`, resource: 'test' }))
+      );
+      const checkpoint = await trails[0].createCheckpoint();
+      await logActions(trails[0], 1);
+      await Promise.all(trails.map(trail => trail.stop()));
+
+      expect(entries.map(entry => entry.sequence).sort((a, b) => a! - b!)).toEqual([5, 6, 7, 8, 9, 10]);
+      expect(checkpoint).toMatchObject({ fromSequence: 1, toSequence: 10 });
+
+      const result = await verifyAuditStore(store, {
+        verifier: new CheckpointVerifier([keys.publicKey])
+      });
+      expect(result.isValid).toBe(true);
+      expect(result.totalEntries).toBe(11);
+      expect(result.checkpoints).toBe(2);
+      expect(result.uncheckpointedEntries).toBe(0);
+    });
+
+    test('should sign checkpoints and verify them from storage', async () => {
+      const trail = new AuditTrail(securityConfig.auditTrail, {
+        stores: [new FileAuditStore({ directory })],
+        signer: new CheckpointSigner(keys.privateKey)
+      });
+      await trail.start();
+      await logActions(trail, 3);
+      const checkpoint = await trail.createCheckpoint();
+      await logActions(trail, 2);
+      await trail.stop();
+
+      expect(checkpoint).toMatchObject({ fromSequence: 1, toSequence: 3 });
+      expect(await trail.createCheckpoint()).toBeNull();
+
+      const result = await verifyAuditStore(new FileAuditStore({ directory }), {
+        verifier: new CheckpointVerifier([keys.publicKey])
+      });
+      expect(result.isValid).toBe(true);
+      expect(result.checkpoints).toBe(2);
+      expect(result.verifiedCheckpoints).toBe(2);
+      expect(result.uncheckpointedEntries).toBe(0);
+    });
+
+    test('should detect modified entries', async () => {
+      const trail = new AuditTrail(securityConfig.auditTrail, {
+        stores: [new FileAuditStore({ directory })]
+      });
+      await trail.start();
+      await logActions(trail, 3);
+      await trail.stop();
+
+      const [file] = await entryFiles();
+      const filePath = path.join(directory, file);
+      const content = await fs.readFile(filePath, 'utf8');
+      await fs.writeFile(filePath, content.replace('/admin/item/1', '/admin/item/9'));
+
+      const result = await verifyAuditStore(new FileAuditStore({ directory }));
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        { sequence: 2, reason: 'Entry hash does not match its content' }
+      ]);
+    });
+
+    test('should detect truncation past a signed checkpoint', async () => {
+      const trail = new AuditTrail(securityConfig.auditTrail, {
+        stores: [new FileAuditStore({ directory })],
+        signer: new CheckpointSigner(keys.privateKey)
+      });
+      await trail.start();
+      await logActions(trail, 4);
+      await trail.stop();
+
+      const [file] = await entryFiles();
+      const filePath = path.join(directory, file);
+      const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n');
+      await fs.writeFile(filePath, lines.slice(0, 2).join('\n') + '\n');
+
+      const result = await verifyAuditStore(new FileAuditStore({ directory }), {
+        verifier: new CheckpointVerifier([keys.publicKey])
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].reason).toBe('Checkpoint covers entries missing from storage');
+    });
+
+    test('should reject checkpoints signed with an untrusted key', async () => {
+      const store = new MemoryAuditStore();
+      const trail = new AuditTrail(securityConfig.auditTrail, {
+        stores: [store],
+        signer: new CheckpointSigner(keys.privateKey)
+      });
+      await trail.start();
+      await logActions(trail, 2);
+      await trail.stop();
+
+      const result = await verifyAuditStore(store, {
+        verifier: new CheckpointVerifier([generateCheckpointKeyPair().publicKey])
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].reason).toBe('Invalid checkpoint signature');
+    });
+
+    test('should rotate files by size and make rotated files read-only', async () => {
+      const trail = new AuditTrail(securityConfig.auditTrail, {
+        stores: [new FileAuditStore({ directory, maxFileBytes: 1024 })]
+      });
+      await trail.start();
+      await logActions(trail, 6);
+      await trail.stop();
+
+      const files = await entryFiles();
+      expect(files.length).toBeGreaterThan(1);
+
+      const rotated = await fs.stat(path.join(directory, files[0]));
+      expect(rotated.mode & 0o222).toBe(0);
+
+      const result = await trail.verifyStorage();
+      expect(result.isValid).toBe(true);
+      expect(result.totalEntries).toBe(6);
+    });
+  });
+
   describe('AccessAnomalyDetector', () => {
     let detector: AccessAnomalyDetector;
 
@@ -112,6 +112,7 @@ export interface AuditEntry {
   hash: string;
   previousHash?: string;
   blockchainTxId?: string;
+  sequence?: number; // Position in the hash chain, starting at 1
 }
 
 export enum AuditOutcome {
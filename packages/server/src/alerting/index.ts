@@ -0,0 +1,420 @@
+import { randomUUID } from 'crypto';
+import type { AlertProcessingPipeline } from '@monitoring/alerts';
+import { getDatabase } from '../database';
+import { getRedis } from '../redis';
+import { AlertConfig, ServerStats } from '../types';
+import { AlertPipelineDecision, processTriggeredAlert, resolveEscalation } from './pipeline';
+
+interface AlertEvaluatorConfig {
+  checkInterval: number;
+  stats?: ServerStats;
+  pipeline?: AlertProcessingPipeline;
+}
+
+interface AlertConfigRow {
+  id: string;
+  project_id: string;
+  name: string;
+  severity: AlertConfig['severity'];
+  tags: string[] | null;
+  cooldown: number;
+  conditions: AlertConfig['conditions'] & { aggregation?: 'avg' | 'min' | 'max' | 'count' };
+  actions: AlertConfig['actions'];
+}
+
+interface WindowEvaluation {
+  conditionMet: boolean;
+  value: number;
+  breaches: number;
+  samples: number;
+}
+
+// SQL comparison operators for alert conditions (never interpolate user input directly)
+const SQL_OPERATORS: Record<AlertConfig['conditions']['operator'], string> = {
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  eq: '=',
+  ne: '<>',
+};
+
+// Evaluate alert condition
+export function evaluateCondition(value: number, conditions: Pick<AlertConfig['conditions'], 'operator' | 'threshold'>): boolean {
+  const threshold = conditions.threshold;
+
+  switch (conditions.operator) {
+    case 'gt':
+      return value > threshold;
+    case 'gte':
+      return value >= threshold;
+    case 'lt':
+      return value < threshold;
+    case 'lte':
+      return value <= threshold;
+    case 'eq':
+      return value === threshold;
+    case 'ne':
+      return value !== threshold;
+    default:
+      return false;
+  }
+}
+
+export class AlertEvaluator {
+  private db = getDatabase();
+  private redis = getRedis();
+  private checkTimer: NodeJS.Timeout | null = null;
+  private isChecking = false;
+  private config: AlertEvaluatorConfig;
+
+  constructor(config: AlertEvaluatorConfig) {
+    this.config = config;
+  }
+
+  // Start periodic evaluation of enabled alert configurations
+  start(): void {
+    if (this.checkTimer) return;
+
+    this.checkTimer = setInterval(() => {
+      this.checkAlerts().catch(error => {
+        console.error('Error in alert evaluation:', error);
+      });
+    }, this.config.checkInterval);
+
+    console.log(`Alert evaluator started (${this.config.checkInterval}ms interval)`);
+  }
+
+  stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+      console.log('Alert evaluator stopped');
+    }
+  }
+
+  // Evaluate all enabled alert configurations once
+  async checkAlerts(): Promise<void> {
+    // Skip if the previous run is still in progress on this node
+    if (this.isChecking) return;
+
+    // Only one clustered instance evaluates per interval; the lock is left to expire
+    const lockTtl = Math.max(this.config.checkInterval - 1000, 1000);
+    const lockToken = await this.redis.acquireLock('alerts:evaluator', lockTtl);
+    if (!lockToken) return;
+
+    this.isChecking = true;
+    try {
+      const alertConfigs = await this.db.query(`
+        SELECT id, project_id, name, severity, tags, cooldown, conditions, actions
+        FROM alert_configs WHERE enabled = true
+      `);
+
+      for (const config of alertConfigs.rows as AlertConfigRow[]) {
+        await this.checkSingleAlert(config);
+      }
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  // Check a single alert configuration
+  private async checkSingleAlert(config: AlertConfigRow): Promise<void> {
+    try {
+      const evaluation = await this.evaluateWindow(config);
+      if (!evaluation) return; // No data available
+
+      const activeInstance = await this.db.query(`
+        SELECT id FROM alert_instances
+        WHERE alert_config_id = $1 AND status = 'active'
+        ORDER BY triggered_at DESC
+        LIMIT 1
+      `, [config.id]);
+
+      if (!evaluation.conditionMet) {
+        if (activeInstance.rows.length > 0) {
+          await this.resolveAlert(config, activeInstance.rows[0].id, evaluation.value);
+        }
+        return;
+      }
+
+      // Already firing, nothing new to report
+      if (activeInstance.rows.length > 0) return;
+
+      // Check for cooldown period
+      const lastAlert = await this.db.query(`
+        SELECT triggered_at FROM alert_instances
+        WHERE alert_config_id = $1
+        ORDER BY triggered_at DESC
+        LIMIT 1
+      `, [config.id]);
+
+      if (lastAlert.rows.length > 0) {
+        const lastAlertTime = new Date(lastAlert.rows[0].triggered_at);
+        const cooldownExpiry = new Date(lastAlertTime.getTime() + (config.cooldown ?? 300) * 1000);
+
+        if (new Date() < cooldownExpiry) {
+          return; // Still in cooldown period
+        }
+      }
+
+      await this.triggerAlert(config, evaluation);
+    } catch (error) {
+      console.error(`Error checking alert ${config.name}:`, error);
+    }
+  }
+
+  // Aggregate the metric over the condition's time window and count threshold breaches
+  private async evaluateWindow(config: AlertConfigRow): Promise<WindowEvaluation | null> {
+    const conditions = config.conditions;
+    const operator = SQL_OPERATORS[conditions.operator];
+    if (!operator) {
+      console.warn(`Alert ${config.name} has unsupported operator: ${conditions.operator}`);
+      return null;
+    }
+
+    const timeWindow = conditions.timeWindow || 300; // Default 5 minutes
+    const now = new Date();
+    const checkTime = new Date(now.getTime() - timeWindow * 1000);
+
+    const result = await this.db.query(`
+      SELECT
+        AVG(value) as avg_value,
+        MAX(value) as max_value,
+        MIN(value) as min_value,
+        COUNT(*) as count,
+        COUNT(*) FILTER (WHERE value ${operator} $4) as breaches
+      FROM metrics
+      WHERE name = $1 AND timestamp >= $2 AND timestamp <= $3 AND project_id = $5
+    `, [conditions.metric, checkTime.toISOString(), now.toISOString(), conditions.threshold, config.project_id]);
+
+    const data = result.rows[0];
+    const samples = data ? parseInt(data.count) : 0;
+    if (samples === 0) return null;
+
+    let value: number;
+    switch (conditions.aggregation || 'avg') {
+      case 'max':
+        value = parseFloat(data.max_value);
+        break;
+      case 'min':
+        value = parseFloat(data.min_value);
+        break;
+      case 'count':
+        value = samples;
+        break;
+      default:
+        value = parseFloat(data.avg_value);
+    }
+
+    const breaches = parseInt(data.breaches);
+    const occurrences = conditions.occurrences || 1;
+
+    // With a single occurrence the aggregated value decides; otherwise require N breaching samples
+    const conditionMet = occurrences > 1
+      ? breaches >= occurrences
+      : evaluateCondition(value, conditions);
+
+    return { conditionMet, value, breaches, samples };
+  }
+
+  // Run the alert through the pipeline, store the instance with its decisions and notify
+  private async triggerAlert(config: AlertConfigRow, evaluation: WindowEvaluation): Promise<void> {
+    const { conditions } = config;
+    const message = `Alert ${config.name} triggered: value ${evaluation.value} ${conditions.operator} ${conditions.threshold}`;
+    const instanceId = randomUUID();
+    const decision = await this.runPipeline(instanceId, config, evaluation);
+
+    const instanceResult = await this.db.query(`
+      INSERT INTO alert_instances (
+        id, alert_config_id, triggered_at, status, trigger_value, message, metadata,
+        suppressed, suppressed_by, dedup_group_id, impact_score, escalation_id, pipeline
+      ) VALUES ($1, $2, NOW(), 'active', $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING id, triggered_at
+    `, [
+      instanceId,
+      config.id,
+      evaluation.value,
+      message,
+      JSON.stringify({
+        conditions,
+        breaches: evaluation.breaches,
+        samples: evaluation.samples,
+      }),
+      decision?.suppressed ?? false,
+      decision?.suppressedBy ?? null,
+      decision?.dedupGroupId ?? null,
+      decision?.impactScore ?? null,
+      decision?.escalationId ?? null,
+      decision ? JSON.stringify(decision.details) : null,
+    ]);
+
+    const instance = instanceResult.rows[0];
+
+    if (this.config.stats) {
+      this.config.stats.alertsTriggered++;
+    }
+
+    // WebSocket manager relays this channel to subscribed clients
+    await this.redis.publish('alerts:realtime', {
+      instanceId: instance.id,
+      configId: config.id,
+      projectId: config.project_id,
+      name: config.name,
+      severity: config.severity,
+      status: 'active',
+      triggerValue: evaluation.value,
+      message: `Alert ${config.name} triggered`,
+      triggeredAt: new Date(instance.triggered_at).toISOString(),
+      suppressed: decision?.suppressed ?? false,
+      suppressedBy: decision?.suppressedBy ?? null,
+      dedupGroupId: decision?.dedupGroupId ?? null,
+      impactScore: decision?.impactScore ?? null,
+      escalationId: decision?.escalationId ?? null,
+    });
+
+    // Suppressed and throttled duplicates are recorded but don't notify
+    if (decision?.suppressed) {
+      console.log(`Alert suppressed: ${config.name} (value: ${evaluation.value})`);
+      return;
+    }
+
+    for (const action of config.actions || []) {
+      await this.executeAlertAction(action, config, evaluation.value);
+    }
+
+    console.log(`Alert triggered: ${config.name} (value: ${evaluation.value})`);
+  }
+
+  // A pipeline failure must not swallow the alert, so it then notifies without decisions
+  private async runPipeline(
+    instanceId: string,
+    config: AlertConfigRow,
+    evaluation: WindowEvaluation
+  ): Promise<AlertPipelineDecision | null> {
+    if (!this.config.pipeline) return null;
+
+    try {
+      return await processTriggeredAlert(this.config.pipeline, {
+        instanceId,
+        configId: config.id,
+        projectId: config.project_id,
+        name: config.name,
+        severity: config.severity,
+        metric: config.conditions.metric,
+        tags: config.tags ?? [],
+        triggerValue: evaluation.value,
+        threshold: config.conditions.threshold,
+        operator: config.conditions.operator,
+      });
+    } catch (error) {
+      console.error(`Alert pipeline failed for ${config.name}:`, error);
+      return null;
+    }
+  }
+
+  // Resolve an active instance once its condition has cleared
+  private async resolveAlert(config: AlertConfigRow, instanceId: string, value: number): Promise<void> {
+    const result = await this.db.query(`
+      UPDATE alert_instances
+      SET status = 'resolved',
+          resolved_at = NOW(),
+          metadata = COALESCE(metadata, '{}'::jsonb) || $2::jsonb
+      WHERE id = $1 AND status = 'active'
+      RETURNING resolved_at, escalation_id
+    `, [instanceId, JSON.stringify({ resolvedBy: 'evaluator', resolveValue: value })]);
+
+    if (result.rows.length === 0) return;
+
+    await resolveEscalation(result.rows[0].escalation_id, 'evaluator');
+
+    await this.redis.publish('alerts:realtime', {
+      instanceId,
+      configId: config.id,
+      projectId: config.project_id,
+      name: config.name,
+      severity: config.severity,
+      status: 'resolved',
+      resolveValue: value,
+      resolvedAt: new Date(result.rows[0].resolved_at).toISOString(),
+    });
+
+    console.log(`Alert resolved: ${config.name} (value: ${value})`);
+  }
+
+  // Execute alert action (webhook, email, etc.)
+  private async executeAlertAction(
+    action: AlertConfig['actions'][number],
+    config: AlertConfigRow,
+    triggerValue: number
+  ): Promise<void> {
+    try {
+      const payload = {
+        alert: {
+          name: config.name,
+          severity: config.severity,
+          triggerValue,
+          threshold: config.conditions.threshold,
+          operator: config.conditions.operator,
+          metric: config.conditions.metric,
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      switch (action.type) {
+        case 'webhook':
+          console.log(`Sending webhook to ${action.endpoint}:`, payload);
+          break;
+
+        case 'slack':
+          console.log(`Sending Slack notification:`, payload);
+          break;
+
+        case 'discord':
+          console.log(`Sending Discord notification:`, payload);
+          break;
+
+        case 'email':
+          console.log(`Sending email notification:`, payload);
+          break;
+
+        case 'pagerduty':
+          console.log(`Sending PagerDuty alert:`, payload);
+          break;
+
+        default:
+          console.warn(`Unknown alert action type: ${action.type}`);
+      }
+    } catch (error) {
+      console.error(`Error executing alert action ${action.type}:`, error);
+    }
+  }
+}
+
+let alertEvaluator: AlertEvaluator;
+
+export function initAlertEvaluator(config: AlertEvaluatorConfig): AlertEvaluator {
+  if (!alertEvaluator) {
+    alertEvaluator = new AlertEvaluator(config);
+    alertEvaluator.start();
+  }
+  return alertEvaluator;
+}
+
+export function getAlertEvaluator(): AlertEvaluator {
+  if (!alertEvaluator) {
+    throw new Error('Alert evaluator not initialized. Call initAlertEvaluator first.');
+  }
+  return alertEvaluator;
+}
+
+export {
+  initAlertPipeline,
+  getAlertPipeline,
+  shutdownAlertPipeline,
+  resolveEscalation,
+  acknowledgeEscalation,
+  escalateNow,
+  resolveEscalatedInstance,
+} from './pipeline';
+export type { AlertPipelineDecision, AlertPipelineOptions } from './pipeline';
@@ -0,0 +1,252 @@
+import {
+  AlertProcessingPipeline,
+  PostgresStateStore,
+  type AlertPipelineConfig,
+  type ProcessedAlert,
+} from '@monitoring/alerts';
+import { getDatabase } from '../database';
+import { getWebSocketManager } from '../websocket';
+import { AlertConfig } from '../types';
+
+export interface AlertPipelineOptions {
+  // Escalation runs only with a policy; policies live in the shared pipeline state
+  escalationPolicy?: string;
+}
+
+// A triggered alert as the pipeline sees it
+export interface PipelineAlert {
+  instanceId: string;
+  configId: string;
+  projectId: string;
+  name: string;
+  severity: AlertConfig['severity'];
+  metric: string;
+  tags: string[];
+  triggerValue: number;
+  threshold: number;
+  operator: string;
+}
+
+// Pipeline decisions stored on the alert instance
+export interface AlertPipelineDecision {
+  suppressed: boolean;
+  suppressedBy: string | null;
+  dedupGroupId: string | null;
+  impactScore: number | null;
+  escalationId: string | null;
+  details: {
+    steps: string[];
+    errors: string[];
+    processingTime: number;
+    deduplication?: { isNew: boolean; suppressed: boolean; similarAlerts: number };
+    suppression?: { rules: Array<{ id: string; name: string }>; reasons: string[] };
+    impact?: { breakdown: unknown; factors: unknown };
+    escalationPolicy?: string;
+  };
+}
+
+function buildConfig(options: AlertPipelineOptions): AlertPipelineConfig {
+  return {
+    deduplication: {
+      enabled: true,
+      timeWindow: 60,
+      maxAlertsPerGroup: 10,
+      similarityThreshold: 0.8,
+      enableMLClustering: false,
+    },
+    scoring: {
+      enabled: true,
+      enableMLLearning: false,
+      weights: {
+        severity: 0.3,
+        serviceImportance: 0.2,
+        userImpact: 0.2,
+        revenueImpact: 0.15,
+        frequency: 0.1,
+        duration: 0.05,
+      },
+    },
+    enrichment: {
+      enabled: true,
+      maxConcurrentEnrichments: 10,
+      timeoutMs: 2000,
+      enableAIAnalysis: false,
+    },
+    suppression: {
+      enabled: true,
+      enableTimeBasedSuppression: true,
+      enableFrequencyBasedSuppression: true,
+      maxSuppressionDuration: 1440,
+    },
+    escalation: {
+      enabled: Boolean(options.escalationPolicy),
+      defaultPolicy: options.escalationPolicy ?? '',
+      maxEscalationSteps: 5,
+      acknowledgmentTimeout: 15,
+    },
+    analytics: {
+      enabled: true,
+      enablePatternDetection: true,
+      retentionDays: 7,
+    },
+    performance: {
+      maxProcessingTimeMs: 500,
+      enableCaching: true,
+      cacheExpirationMinutes: 5,
+      enableBatching: false,
+      batchSize: 100,
+      batchTimeoutMs: 1000,
+    },
+  };
+}
+
+// Run a triggered alert through dedup, scoring, suppression, enrichment and escalation
+export async function processTriggeredAlert(
+  pipeline: AlertProcessingPipeline,
+  alert: PipelineAlert
+): Promise<AlertPipelineDecision> {
+  const processed = await pipeline.processAlert({
+    id: alert.instanceId,
+    timestamp: new Date(),
+    severity: alert.severity,
+    // Project and metric keep groups from spanning projects; the message leaves out the
+    // value so repeat triggers of one alert share a fingerprint
+    source: `${alert.projectId}/${alert.metric}`,
+    message: `Alert ${alert.name} triggered`,
+    tags: alert.tags,
+    metadata: {
+      projectId: alert.projectId,
+      alertConfigId: alert.configId,
+      metric: alert.metric,
+      triggerValue: alert.triggerValue,
+      threshold: alert.threshold,
+      operator: alert.operator,
+    },
+  });
+
+  return toDecision(processed);
+}
+
+export function toDecision(processed: ProcessedAlert): AlertPipelineDecision {
+  const { deduplication, suppression, businessImpactScore, escalation } = processed;
+  const rules: Array<{ id: string; name: string }> = (suppression?.rules ?? [])
+    .map(rule => ({ id: rule.id, name: rule.name }));
+
+  const details: AlertPipelineDecision['details'] = {
+    steps: processed.pipeline.steps,
+    errors: processed.pipeline.errors,
+    processingTime: processed.processingTime,
+  };
+  if (deduplication) {
+    details.deduplication = {
+      isNew: deduplication.isNew,
+      suppressed: deduplication.suppressed,
+      similarAlerts: deduplication.similarAlerts.length,
+    };
+  }
+  if (suppression) {
+    details.suppression = { rules, reasons: suppression.reasons };
+  }
+  if (businessImpactScore) {
+    details.impact = { breakdown: businessImpactScore.breakdown, factors: businessImpactScore.factors };
+  }
+  if (escalation) {
+    details.escalationPolicy = escalation.policy;
+  }
+
+  return {
+    suppressed: Boolean(deduplication?.suppressed || suppression?.suppressed),
+    suppressedBy: suppression?.suppressed ? rules[0]?.id ?? null : null,
+    dedupGroupId: deduplication?.groupId ?? null,
+    impactScore: businessImpactScore?.score ?? null,
+    escalationId: escalation?.escalationId ?? null,
+    details,
+  };
+}
+
+let alertPipeline: AlertProcessingPipeline | undefined;
+
+// Create the pipeline and restore its shared state from Postgres
+export async function initAlertPipeline(options: AlertPipelineOptions = {}): Promise<AlertProcessingPipeline> {
+  if (!alertPipeline) {
+    const pipeline = new AlertProcessingPipeline(buildConfig(options));
+    const db = getDatabase();
+
+    // Tables come from migration 0010
+    const store = new PostgresStateStore({
+      query: (text, params) => db.query(text, params),
+      connect: () => db.getClient(),
+    }, { createSchema: false });
+
+    await pipeline.enablePersistence(store);
+    alertPipeline = pipeline;
+  }
+  return alertPipeline;
+}
+
+export function getAlertPipeline(): AlertProcessingPipeline {
+  if (!alertPipeline) {
+    throw new Error('Alert pipeline not initialized. Call initAlertPipeline first.');
+  }
+  return alertPipeline;
+}
+
+export async function shutdownAlertPipeline(): Promise<void> {
+  if (alertPipeline) {
+    await alertPipeline.shutdown();
+    alertPipeline = undefined;
+  }
+}
+
+// Stop paging for a resolved instance; a no-op for instances that never escalated
+export async function resolveEscalation(escalationId: string | null, resolvedBy: string): Promise<void> {
+  if (!escalationId || !alertPipeline) return;
+
+  try {
+    await alertPipeline.resolveEscalation(escalationId, resolvedBy);
+  } catch (error) {
+    console.error(`Failed to resolve escalation ${escalationId}:`, error);
+  }
+}
+
+// Acknowledge from chat ops; false when the escalation is unknown or already acknowledged
+export async function acknowledgeEscalation(escalationId: string, acknowledgedBy: string): Promise<boolean> {
+  return alertPipeline ? alertPipeline.acknowledgeEscalation(escalationId, acknowledgedBy) : false;
+}
+
+// Page the next escalation step now instead of waiting out the current one
+export async function escalateNow(escalationId: string, requestedBy: string): Promise<boolean> {
+  return alertPipeline ? alertPipeline.escalateNow(escalationId, requestedBy) : false;
+}
+
+// Resolve the active instance behind an escalation, as the resolve route does for an instance ID
+export async function resolveEscalatedInstance(escalationId: string, resolvedBy: string): Promise<boolean> {
+  const result = await getDatabase().query(`
+    UPDATE alert_instances
+    SET status = 'resolved', resolved_at = NOW()
+    WHERE escalation_id = $1 AND status = 'active'
+    RETURNING id, (
+      SELECT project_id FROM alert_configs WHERE id = alert_instances.alert_config_id
+    ) as project_id
+  `, [escalationId]);
+
+  if (result.rows.length === 0) {
+    return false;
+  }
+
+  await resolveEscalation(escalationId, resolvedBy);
+
+  const wsManager = getWebSocketManager();
+  for (const row of result.rows) {
+    wsManager.broadcast('alerts:realtime', {
+      type: 'alert',
+      data: {
+        instanceId: row.id,
+        projectId: row.project_id,
+        status: 'resolved',
+        resolvedAt: new Date().toISOString(),
+      },
+    });
+  }
+  return true;
+}
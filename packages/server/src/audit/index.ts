@@ -0,0 +1,129 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import {
+  AuditOutcome,
+  AuditTrail,
+  CheckpointSigner,
+  FileAuditStore,
+  PostgresAuditStore,
+  type AuditQueryable,
+  type AuditStore,
+  type AuditTrailConfig,
+  type StorageVerificationResult,
+} from '@monitoring-service/security';
+import { getDatabase } from '../database';
+
+export interface AuditConfig {
+  // Mirror entries to rotated JSON Lines files in this directory
+  logDirectory?: string;
+  // PEM private key for signing checkpoints; without it the chain is stored unsigned
+  signingKey?: string;
+  checkpointInterval: number;
+}
+
+export interface NamedAuditStore {
+  name: 'postgres' | 'files';
+  store: AuditStore;
+}
+
+// Entries are persisted as hashed; blockchain anchoring is not used
+const TRAIL_CONFIG: AuditTrailConfig = {
+  enabled: true,
+  blockchain: { enabled: false, network: 'none', confirmations: 0 },
+  retention: 'forever',
+  encryption: { algorithm: 'aes-256-cbc', keyRotation: 'none', keyManagement: 'local' },
+  immutable: true,
+};
+
+const STATE_CHANGING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+let auditTrail: AuditTrail;
+let auditStores: NamedAuditStore[] = [];
+
+// Keys passed through environment variables usually arrive with escaped newlines
+export function parsePemKey(key: string): string {
+  return key.replace(/\\n/g, '\n');
+}
+
+// Postgres is the primary copy; the files are a local mirror that survives a lost database
+export function createAuditStores(db: AuditQueryable, logDirectory?: string): NamedAuditStore[] {
+  return [
+    { name: 'postgres', store: new PostgresAuditStore(db) },
+    ...(logDirectory ? [{ name: 'files' as const, store: new FileAuditStore({ directory: logDirectory }) }] : []),
+  ];
+}
+
+export async function initAuditTrail(config: AuditConfig): Promise<AuditTrail> {
+  if (!auditTrail) {
+    auditStores = createAuditStores(getDatabase(), config.logDirectory);
+    auditTrail = new AuditTrail(TRAIL_CONFIG, {
+      stores: auditStores.map(({ store }) => store),
+      checkpointInterval: config.checkpointInterval,
+      ...(config.signingKey && { signer: new CheckpointSigner(parsePemKey(config.signingKey)) }),
+    });
+    await auditTrail.start();
+  }
+  return auditTrail;
+}
+
+export function getAuditTrail(): AuditTrail {
+  if (!auditTrail) {
+    throw new Error('Audit trail not initialized. Call initAuditTrail first.');
+  }
+  return auditTrail;
+}
+
+// Writes the final checkpoint; call before the database closes
+export async function shutdownAuditTrail(): Promise<void> {
+  if (auditTrail) {
+    await auditTrail.stop();
+  }
+}
+
+// Re-reads every store from its first entry
+export async function verifyAuditStorage(): Promise<Array<{ store: string } & StorageVerificationResult>> {
+  const trail = getAuditTrail();
+  const results = [];
+  for (const { name, store } of auditStores) {
+    results.push({ store: name, ...await trail.verifyStorage(store) });
+  }
+  return results;
+}
+
+function auditOutcome(statusCode: number): AuditOutcome {
+  if (statusCode === 401 || statusCode === 403) return AuditOutcome.DENIED;
+  if (statusCode >= 500) return AuditOutcome.ERROR;
+  if (statusCode >= 400) return AuditOutcome.FAILURE;
+  return AuditOutcome.SUCCESS;
+}
+
+// onResponse hook recording every state-changing admin request, including denied ones.
+// JSON bodies are kept; streamed bodies such as imports are not.
+export async function auditAdminRequest(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  if (!STATE_CHANGING_METHODS.has(request.method)) return;
+
+  const body = request.body;
+  const userAgent = request.headers['user-agent'];
+
+  try {
+    await getAuditTrail().logEntry({
+      action: 'admin_action',
+      resource: request.routeOptions.url ?? request.url,
+      outcome: auditOutcome(reply.statusCode),
+      ipAddress: request.ip,
+      sessionId: request.id,
+      ...(request.apiKey?.id && { userId: request.apiKey.id }),
+      ...(userAgent && { userAgent }),
+      details: {
+        method: request.method,
+        url: request.url,
+        statusCode: reply.statusCode,
+        params: request.params ?? {},
+        projectId: request.projectId ?? null,
+        ...(request.apiKey && { apiKeyName: request.apiKey.name }),
+        ...(body !== null && typeof body === 'object' && Object.getPrototypeOf(body) === Object.prototype && { body }),
+      },
+    });
+  } catch (error) {
+    request.log.error({ error }, 'Failed to write admin audit entry');
+  }
+}
@@ -0,0 +1,100 @@
+import { config } from 'dotenv';
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import {
+  CheckpointSigner,
+  CheckpointVerifier,
+  FileAuditStore,
+  PostgresAuditStore,
+  verifyAuditStore,
+  type AuditStore,
+} from '@monitoring-service/security';
+import { EnvSchema } from '../types';
+import { DatabaseManager } from '../database';
+import { parsePemKey } from './index';
+
+// Usage: node dist/audit/verify.js [--files <directory>] [--public-key <pem file>]...
+// Re-verifies the stored audit trail from Postgres, or from the rotated files with --files.
+// Checkpoint signatures are checked against the given public keys, falling back to the
+// key derived from AUDIT_SIGNING_KEY. Exits with 1 when the trail fails verification.
+async function main(): Promise<void> {
+  config();
+
+  const { values } = parseArgs({
+    options: {
+      files: { type: 'string' },
+      'public-key': { type: 'string', multiple: true },
+    },
+  });
+
+  const env = EnvSchema.pick({
+    DATABASE_HOST: true,
+    DATABASE_PORT: true,
+    DATABASE_NAME: true,
+    DATABASE_USER: true,
+    DATABASE_PASSWORD: true,
+    DATABASE_SSL: true,
+    AUDIT_SIGNING_KEY: true,
+  }).partial({ DATABASE_PASSWORD: true }).parse(process.env);
+
+  const publicKeys = values['public-key']?.map(file => readFileSync(file, 'utf8')) ?? [];
+  if (publicKeys.length === 0 && env.AUDIT_SIGNING_KEY) {
+    publicKeys.push(new CheckpointSigner(parsePemKey(env.AUDIT_SIGNING_KEY)).getPublicKey());
+  }
+  if (publicKeys.length === 0) {
+    console.warn('No public key given; checkpoint signatures will not be checked');
+  }
+
+  let db: DatabaseManager | undefined;
+  let store: AuditStore;
+
+  if (values.files) {
+    store = new FileAuditStore({ directory: values.files });
+  } else {
+    if (env.DATABASE_PASSWORD === undefined) {
+      throw new Error('DATABASE_PASSWORD is required to verify the Postgres audit trail');
+    }
+    db = new DatabaseManager({
+      host: env.DATABASE_HOST,
+      port: env.DATABASE_PORT,
+      database: env.DATABASE_NAME,
+      username: env.DATABASE_USER,
+      password: env.DATABASE_PASSWORD,
+      ssl: env.DATABASE_SSL,
+      poolMin: 1,
+      poolMax: 2,
+      idleTimeoutMillis: 30000,
+      connectionTimeoutMillis: 5000,
+      autoMigrate: false,
+    });
+    await db.connect();
+    store = new PostgresAuditStore(db);
+  }
+
+  try {
+    const result = await verifyAuditStore(store, {
+      ...(publicKeys.length > 0 && { verifier: new CheckpointVerifier(publicKeys) }),
+    });
+
+    console.log(`Entries:      ${result.totalEntries}`);
+    console.log(`Head hash:    ${result.headHash ?? '-'}`);
+    console.log(`Checkpoints:  ${result.checkpoints} (${result.verifiedCheckpoints} signatures verified)`);
+    console.log(`Unchecked:    ${result.uncheckpointedEntries} entries after the last checkpoint`);
+    result.errors.forEach(error => {
+      const where = error.sequence !== undefined ? `entry ${error.sequence}` : `checkpoint ${error.checkpointId}`;
+      console.error(`  INVALID  ${where}: ${error.reason}`);
+    });
+    console.log(result.isValid ? 'Audit trail is intact' : 'Audit trail FAILED verification');
+
+    if (!result.isValid) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await db?.end();
+  }
+}
+
+main().catch(error => {
+  console.error('Audit verification failed:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
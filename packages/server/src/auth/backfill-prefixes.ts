@@ -0,0 +1,85 @@
+import bcrypt from 'bcrypt';
+import { config } from 'dotenv';
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { EnvSchema } from '../types';
+import { DatabaseManager } from '../database';
+import { getApiKeyPrefix } from './index';
+
+// Usage: node dist/auth/backfill-prefixes.js [--file <keys file>]
+// Optional one-shot step for API keys issued before prefixes existed. Reads legacy keys,
+// one per line, from --file or stdin, matches each against the unprefixed rows and records
+// its digest-derived prefix, then lists the keys still unprefixed. Those are matched by a
+// bounded scan on first use unless API_KEY_REQUIRE_PREFIX=true, which rejects them.
+async function main(): Promise<void> {
+  config();
+
+  const { values } = parseArgs({
+    options: {
+      file: { type: 'string' },
+    },
+  });
+
+  const env = EnvSchema.pick({
+    DATABASE_HOST: true,
+    DATABASE_PORT: true,
+    DATABASE_NAME: true,
+    DATABASE_USER: true,
+    DATABASE_PASSWORD: true,
+    DATABASE_SSL: true,
+  }).parse(process.env);
+
+  const keys = readFileSync(values.file ?? 0, 'utf8')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+
+  const db = new DatabaseManager({
+    host: env.DATABASE_HOST,
+    port: env.DATABASE_PORT,
+    database: env.DATABASE_NAME,
+    username: env.DATABASE_USER,
+    password: env.DATABASE_PASSWORD,
+    ssl: env.DATABASE_SSL,
+    poolMin: 1,
+    poolMax: 2,
+    idleTimeoutMillis: 30000,
+    connectionTimeoutMillis: 5000,
+    autoMigrate: false,
+  });
+  await db.connect();
+
+  try {
+    const result = await db.query(`
+      SELECT id, name, key_hash FROM api_keys WHERE key_prefix IS NULL AND is_active = true
+    `);
+    const remaining = new Map<string, { name: string; hash: string }>(
+      result.rows.map((row: any) => [row.id, { name: row.name, hash: row.key_hash }])
+    );
+
+    let matched = 0;
+    for (const key of keys) {
+      for (const [id, row] of remaining) {
+        if (await bcrypt.compare(key, row.hash)) {
+          await db.query(`
+            UPDATE api_keys SET key_prefix = $1 WHERE id = $2 AND key_prefix IS NULL
+          `, [getApiKeyPrefix(key), id]);
+          remaining.delete(id);
+          matched++;
+          break;
+        }
+      }
+    }
+
+    console.log(`Backfilled:   ${matched} of ${keys.length} presented keys`);
+    console.log(`Unprefixed:   ${remaining.size} active keys; re-issue them before setting API_KEY_REQUIRE_PREFIX`);
+    remaining.forEach((row, id) => console.log(`  ${id}  ${row.name}`));
+  } finally {
+    await db.end();
+  }
+}
+
+main().catch(error => {
+  console.error('API key prefix backfill failed:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
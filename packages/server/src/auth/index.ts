@@ -3,7 +3,34 @@ import { randomBytes, createHash } from 'crypto';
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { getDatabase } from '../database';
 import { getRedis } from '../redis';
+import { DEFAULT_PROJECT_ID } from '../projects';
 import { ApiKey, ApiKeySchema } from '../types';
+import { Permission, getRoleManager, grantsFullAccess, permissionMatches } from './roles';
+
+export { PERMISSIONS, BUILT_IN_ROLES, getRoleManager } from './roles';
+export type { Permission } from './roles';
+
+// New keys look like mk_<key id>_<secret>; only the "mk_<key id>" prefix is stored in clear
+const API_KEY_PREFIX = 'mk';
+const API_KEY_ID_BYTES = 6;
+const API_KEY_SECRET_BYTES = 32;
+const API_KEY_PATTERN = /^(mk_[0-9a-f]{12})_[0-9a-f]{64}$/;
+const LEGACY_PREFIX = 'legacy_';
+// Scans for unprefixed keys cost one bcrypt compare per row, so misses are remembered
+// and scans are capped across all callers
+const LEGACY_MISS_TTL = 3600; // seconds
+const LEGACY_SCAN_LIMIT = 30;
+const LEGACY_SCAN_WINDOW = 60 * 1000;
+
+// Public, indexed lookup id for a presented key. Keys without an embedded id (issued
+// before prefixes, or set via ADMIN_API_KEY) derive one from their digest.
+export function getApiKeyPrefix(key: string): string {
+  const match = key.match(API_KEY_PATTERN);
+  if (match) return match[1];
+
+  const digest = createHash('sha256').update(key).digest('hex');
+  return `${LEGACY_PREFIX}${digest.substring(0, 16)}`;
+}
 
 export class AuthManager {
   private db = getDatabase();
@@ -14,11 +41,13 @@ export class AuthManager {
     name: string,
     permissions: string[] = ['read'],
     rateLimit?: number,
-    expiresAt?: string
+    expiresAt?: string,
+    projectId?: string | null,
+    roles: string[] = []
   ): Promise<{ key: string; apiKey: ApiKey }> {
-    // Generate a secure random key
-    const keyLength = 32;
-    const key = randomBytes(keyLength).toString('hex');
+    // Generate a secure random key with a public, indexed key id in front of the secret
+    const prefix = `${API_KEY_PREFIX}_${randomBytes(API_KEY_ID_BYTES).toString('hex')}`;
+    const key = `${prefix}_${randomBytes(API_KEY_SECRET_BYTES).toString('hex')}`;
     
     // Create a hash of the key for storage
     const hash = await this.hashApiKey(key);
@@ -27,8 +56,12 @@ export class AuthManager {
     const apiKeyData = {
       name,
       key, // This won't be stored in DB
+      prefix,
       hash,
+      // Only admin keys may be left unscoped to see every project
+      projectId: projectId ?? (grantsFullAccess(permissions, roles) ? null : DEFAULT_PROJECT_ID),
       permissions,
+      roles,
       rateLimit,
       expiresAt,
       isActive: true,
@@ -39,13 +72,17 @@ export class AuthManager {
 
     // Store in database
     const result = await this.db.query(`
-      INSERT INTO api_keys (name, key_hash, permissions, rate_limit, expires_at, is_active)
-      VALUES ($1, $2, $3, $4, $5, $6)
-      RETURNING id, name, key_hash as hash, permissions, rate_limit, expires_at, created_at, is_active
+      INSERT INTO api_keys (name, key_prefix, key_hash, project_id, permissions, roles, rate_limit, expires_at, is_active)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING id, name, key_prefix as prefix, key_hash as hash, project_id as "projectId",
+                permissions, roles, rate_limit, expires_at, created_at, is_active
     `, [
       validatedApiKey.name,
+      validatedApiKey.prefix,
       validatedApiKey.hash,
+      validatedApiKey.projectId,
       validatedApiKey.permissions,
+      validatedApiKey.roles,
       validatedApiKey.rateLimit,
       validatedApiKey.expiresAt,
       validatedApiKey.isActive,
@@ -87,7 +124,9 @@ export class AuthManager {
         name: 'Dashboard Admin',
         key: key,
         hash: 'admin',
+        projectId: null,
         permissions: ['read', 'write', 'admin'],
+        roles: [],
         rateLimit: 10000,
         isActive: true,
         createdAt: new Date().toISOString(),
@@ -103,47 +142,89 @@ export class AuthManager {
         return cached;
       }
 
-      // If not in cache, query database
+      // If not in cache, look the key up by its prefix and verify a single hash
+      const prefix = getApiKeyPrefix(key);
       const result = await this.db.query(`
-        SELECT id, name, key_hash as hash, permissions, rate_limit, expires_at, 
+        SELECT id, name, key_prefix, key_hash as hash, project_id, permissions, roles, rate_limit, expires_at, 
                created_at, last_used_at, is_active
         FROM api_keys
-        WHERE is_active = true AND (expires_at IS NULL OR expires_at > NOW())
-      `);
+        WHERE key_prefix = $1 AND is_active = true AND (expires_at IS NULL OR expires_at > NOW())
+      `, [prefix]);
 
-      for (const row of result.rows) {
-        const isValid = await this.verifyApiKey(key, row.hash);
-        if (isValid) {
-          const apiKey: ApiKey = {
-            id: row.id,
-            name: row.name,
-            key,
-            hash: row.hash,
-            permissions: row.permissions,
-            rateLimit: row.rate_limit,
-            expiresAt: row.expires_at,
-            createdAt: row.created_at,
-            lastUsedAt: row.last_used_at,
-            isActive: row.is_active,
-          };
-
-          // Cache for future use
-          await this.cacheApiKey(apiKey);
-          
-          // Update last used timestamp
-          await this.updateLastUsed(apiKey.id!);
-
-          return apiKey;
-        }
+      let row = result.rows[0];
+      if (row && !(await this.verifyApiKey(key, row.hash))) {
+        row = undefined;
       }
 
-      return null;
+      // Keys issued before prefixes existed are found once by a bounded scan, then backfilled.
+      // API_KEY_REQUIRE_PREFIX=true turns the scan off once every key has a prefix.
+      if (!row && prefix.startsWith(LEGACY_PREFIX) && process.env.API_KEY_REQUIRE_PREFIX !== 'true') {
+        row = await this.findLegacyApiKey(key, prefix);
+      }
+
+      if (!row) return null;
+
+      const apiKey: ApiKey = {
+        id: row.id,
+        name: row.name,
+        key,
+        prefix: row.key_prefix,
+        hash: row.hash,
+        projectId: row.project_id,
+        permissions: row.permissions,
+        roles: row.roles ?? [],
+        rateLimit: row.rate_limit,
+        expiresAt: row.expires_at,
+        createdAt: row.created_at,
+        lastUsedAt: row.last_used_at,
+        isActive: row.is_active,
+      };
+
+      // Cache for future use
+      await this.cacheApiKey(apiKey);
+      
+      // Update last used timestamp
+      await this.updateLastUsed(apiKey.id!);
+
+      return apiKey;
     } catch (error) {
       console.error('Error authenticating API key:', error);
       return null;
     }
   }
 
+  // Match a pre-prefix key against unmigrated rows, record its legacy prefix and flag it
+  // for rotation. Misses are cached per prefix so repeated garbage keys scan only once.
+  private async findLegacyApiKey(key: string, prefix: string): Promise<any | null> {
+    const missKey = `apikey:legacy-miss:${prefix}`;
+    if (await this.redis.get(missKey)) return null;
+
+    const result = await this.db.query(`
+      SELECT id, name, key_hash as hash, project_id, permissions, roles, rate_limit, expires_at, 
+             created_at, last_used_at, is_active
+      FROM api_keys
+      WHERE key_prefix IS NULL AND is_active = true AND (expires_at IS NULL OR expires_at > NOW())
+    `);
+    if (result.rows.length === 0) return null;
+
+    const limit = await this.redis.checkRateLimit('ratelimit:legacy-api-key-scan', LEGACY_SCAN_LIMIT, LEGACY_SCAN_WINDOW);
+    if (!limit.allowed) return null;
+
+    for (const row of result.rows) {
+      if (await this.verifyApiKey(key, row.hash)) {
+        await this.db.query(`
+          UPDATE api_keys SET key_prefix = $1, rotation_required = true WHERE id = $2 AND key_prefix IS NULL
+        `, [prefix, row.id]);
+        console.warn(`API key ${row.id} was issued before key prefixes and should be rotated`);
+
+        return { ...row, key_prefix: prefix };
+      }
+    }
+
+    await this.redis.set(missKey, '1', LEGACY_MISS_TTL);
+    return null;
+  }
+
   // Cache API key in Redis for faster lookups
   private async cacheApiKey(apiKey: ApiKey): Promise<void> {
     try {
@@ -154,6 +235,11 @@ export class AuthManager {
         ...apiKey,
         key: undefined, // Don't cache the actual key
       }, ttl);
+
+      // Reverse lookup so revocations and access changes can evict the entry by key id
+      if (apiKey.id) {
+        await this.redis.set(this.getCacheRefKey(apiKey.id), cacheKey, ttl);
+      }
     } catch (error) {
       console.error('Error caching API key:', error);
     }
@@ -183,6 +269,10 @@ export class AuthManager {
     return `apikey:${hash.substring(0, 16)}`;
   }
 
+  private getCacheRefKey(apiKeyId: string): string {
+    return `apikey:ref:${apiKeyId}`;
+  }
+
   // Update last used timestamp
   private async updateLastUsed(apiKeyId: string): Promise<void> {
     try {
@@ -195,17 +285,17 @@ export class AuthManager {
   }
 
   // Revoke API key
-  async revokeApiKey(apiKeyId: string): Promise<boolean> {
+  async revokeApiKey(apiKeyId: string, projectId?: string | null): Promise<boolean> {
     try {
       const result = await this.db.query(`
-        UPDATE api_keys SET is_active = false WHERE id = $1
-        RETURNING key_hash
-      `, [apiKeyId]);
+        UPDATE api_keys SET is_active = false
+        WHERE id = $1 AND ($2::uuid IS NULL OR project_id = $2)
+        RETURNING id
+      `, [apiKeyId, projectId ?? null]);
 
       if (result.rows.length > 0) {
         // Remove from cache
-        const keyHash = result.rows[0].key_hash;
-        await this.invalidateCache(keyHash);
+        await this.invalidateCache(result.rows[0].id);
         return true;
       }
 
@@ -217,35 +307,43 @@ export class AuthManager {
   }
 
   // Invalidate cache for API key
-  private async invalidateCache(keyHash: string): Promise<void> {
+  private async invalidateCache(apiKeyId: string): Promise<void> {
     try {
-      // We need to find the cache key, which is tricky since we hash the actual key
-      // For now, we'll just let it expire naturally or implement a reverse lookup
-      console.log('API key cache invalidation requested for hash:', keyHash.substring(0, 8));
+      const refKey = this.getCacheRefKey(apiKeyId);
+      const cacheKey = await this.redis.get(refKey);
+      if (cacheKey) {
+        await this.redis.del(cacheKey);
+      }
+      await this.redis.del(refKey);
     } catch (error) {
       console.error('Error invalidating API key cache:', error);
     }
   }
 
-  // List all API keys (without actual keys)
-  async listApiKeys(): Promise<Omit<ApiKey, 'key' | 'hash'>[]> {
+  // List API keys (without actual keys), optionally limited to one project
+  async listApiKeys(projectId?: string | null): Promise<Omit<ApiKey, 'key' | 'hash'>[]> {
     try {
       const result = await this.db.query(`
-        SELECT id, name, permissions, rate_limit, expires_at, 
-               created_at, last_used_at, is_active
+        SELECT id, name, key_prefix, project_id, permissions, roles, rate_limit, expires_at, 
+               created_at, last_used_at, is_active, rotation_required
         FROM api_keys
+        ${projectId ? 'WHERE project_id = $1' : ''}
         ORDER BY created_at DESC
-      `);
+      `, projectId ? [projectId] : []);
 
       return result.rows.map((row: any) => ({
         id: row.id,
         name: row.name,
+        prefix: row.key_prefix ?? undefined,
+        projectId: row.project_id,
         permissions: row.permissions,
+        roles: row.roles ?? [],
         rateLimit: row.rate_limit,
         expiresAt: row.expires_at,
         createdAt: row.created_at,
         lastUsedAt: row.last_used_at,
         isActive: row.is_active,
+        rotationRequired: row.rotation_required,
       }));
     } catch (error) {
       console.error('Error listing API keys:', error);
@@ -253,10 +351,37 @@ export class AuthManager {
     }
   }
 
-  // Check if API key has required permission
-  hasPermission(apiKey: ApiKey, requiredPermission: 'read' | 'write' | 'admin'): boolean {
-    return apiKey.permissions.includes('admin') || 
-           apiKey.permissions.includes(requiredPermission);
+  // Check if API key has required permission through its direct grants or roles
+  async hasPermission(apiKey: ApiKey, requiredPermission: Permission): Promise<boolean> {
+    const granted = await getRoleManager().resolvePermissions(apiKey.permissions, apiKey.roles);
+    for (const permission of granted) {
+      if (permissionMatches(permission, requiredPermission)) return true;
+    }
+    return false;
+  }
+
+  // Grants in the request that the granting key does not hold itself, so keys cannot
+  // mint or upgrade other keys beyond their own access. Unknown role names are rejected.
+  async findUngrantable(
+    grantor: ApiKey,
+    access: { permissions?: string[] | undefined; roles?: string[] | undefined }
+  ): Promise<string[]> {
+    const roles = getRoleManager();
+    const held = await roles.resolvePermissions(grantor.permissions, grantor.roles);
+    const ungrantable: string[] = [];
+
+    for (const name of access.roles || []) {
+      if (!(await roles.getRole(name))) ungrantable.push(name);
+    }
+
+    const requested = await roles.resolvePermissions(access.permissions || [], access.roles || []);
+    for (const permission of requested) {
+      if (!Array.from(held).some(grant => permissionMatches(grant, permission))) {
+        ungrantable.push(permission);
+      }
+    }
+
+    return ungrantable;
   }
 
   // Check rate limit for API key
@@ -304,24 +429,30 @@ export class AuthManager {
     }
   }
 
-  // Update API key permissions
-  async updateApiKeyPermissions(apiKeyId: string, permissions: string[]): Promise<boolean> {
+  // Update API key permissions and/or roles, optionally limited to one project
+  async updateApiKeyAccess(
+    apiKeyId: string,
+    access: { permissions?: string[] | undefined; roles?: string[] | undefined },
+    projectId?: string | null
+  ): Promise<boolean> {
     try {
       const result = await this.db.query(`
-        UPDATE api_keys SET permissions = $1 WHERE id = $2
-        RETURNING key_hash
-      `, [permissions, apiKeyId]);
+        UPDATE api_keys
+        SET permissions = COALESCE($1::text[], permissions),
+            roles = COALESCE($2::text[], roles)
+        WHERE id = $3 AND ($4::uuid IS NULL OR project_id = $4)
+        RETURNING id
+      `, [access.permissions ?? null, access.roles ?? null, apiKeyId, projectId ?? null]);
 
       if (result.rows.length > 0) {
         // Invalidate cache
-        const keyHash = result.rows[0].key_hash;
-        await this.invalidateCache(keyHash);
+        await this.invalidateCache(result.rows[0].id);
         return true;
       }
 
       return false;
     } catch (error) {
-      console.error('Error updating API key permissions:', error);
+      console.error('Error updating API key access:', error);
       return false;
     }
   }
@@ -342,13 +473,22 @@ export async function authenticateRequest(
   request: FastifyRequest,
   reply: FastifyReply
 ): Promise<void> {
-  // Skip authentication for health check and docs
-  if (request.url === '/health' || request.url.startsWith('/docs')) {
+  // Skip authentication for health check, docs and the public status page. Chat ops
+  // callbacks come from Slack, Teams and Twilio, which verify by signature instead.
+  if (
+    request.url === '/health' ||
+    request.url.startsWith('/docs') ||
+    request.url.startsWith('/api/v1/status/public') ||
+    request.url.startsWith('/api/v1/chatops/')
+  ) {
     return;
   }
 
-  const apiKey = request.headers['x-api-key'] as string;
-  
+  // Prometheus and other scrapers can only send credentials as a bearer token
+  const authorization = request.headers.authorization;
+  const apiKey = (request.headers['x-api-key'] as string | undefined)
+    || (authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : undefined);
+
   if (!apiKey) {
     reply.code(401).send({
       error: 'Unauthorized',
@@ -382,7 +522,7 @@ export async function authenticateRequest(
 }
 
 // Middleware to check permissions
-export function requirePermission(permission: 'read' | 'write' | 'admin') {
+export function requirePermission(permission: Permission) {
   return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
     if (!request.apiKey) {
       reply.code(401).send({
@@ -393,7 +533,7 @@ export function requirePermission(permission: 'read' | 'write' | 'admin') {
     }
 
     const auth = getAuthManager();
-    if (!auth.hasPermission(request.apiKey, permission)) {
+    if (!(await auth.hasPermission(request.apiKey, permission))) {
       reply.code(403).send({
         error: 'Forbidden',
         message: `Permission '${permission}' is required`,
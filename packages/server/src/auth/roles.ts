@@ -0,0 +1,230 @@
+import { getDatabase } from '../database';
+import { Role, RoleSchema } from '../types';
+
+// Every permission a route can require, as <resource>:<action>
+export const PERMISSIONS = [
+  'events:read',
+  'events:write',
+  'events:delete',
+  'metrics:read',
+  'metrics:write',
+  'metrics:delete',
+  'traces:read',
+  'traces:write',
+  'alerts:read',
+  'alerts:write',
+  'alerts:acknowledge',
+  'alerts:delete',
+  'dashboard:read',
+  'dashboard:write',
+  'projects:read',
+  'projects:manage',
+  'sourcemaps:read',
+  'sourcemaps:write',
+  'releases:read',
+  'releases:write',
+  'status:read',
+  'status:write',
+  'notifications:read',
+  'admin:stats',
+  'admin:export',
+  'admin:import',
+  'admin:clear',
+  'admin:retention',
+  'admin:migrations',
+  'admin:api-keys',
+  'admin:roles',
+  'admin:audit',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const READ_PERMISSIONS: Permission[] = [
+  'events:read',
+  'metrics:read',
+  'traces:read',
+  'alerts:read',
+  'dashboard:read',
+  'projects:read',
+  'sourcemaps:read',
+  'releases:read',
+  'status:read',
+  'notifications:read',
+];
+
+// Built-in roles. read/write/admin keep the meaning of the original permission strings,
+// so keys created before roles existed resolve to the same access they always had.
+export const BUILT_IN_ROLES: Role[] = [
+  {
+    name: 'read',
+    description: 'Read events, metrics, alerts and dashboards',
+    permissions: READ_PERMISSIONS,
+    builtIn: true,
+  },
+  {
+    name: 'write',
+    description: 'Read access plus ingesting data, managing alerts and dashboard widgets',
+    permissions: [
+      ...READ_PERMISSIONS,
+      'events:write',
+      'metrics:write',
+      'traces:write',
+      'alerts:write',
+      'alerts:acknowledge',
+      'dashboard:write',
+      'sourcemaps:write',
+      'releases:write',
+      'status:write',
+    ],
+    builtIn: true,
+  },
+  {
+    name: 'responder',
+    description: 'Read access plus acknowledging and resolving alerts',
+    permissions: [...READ_PERMISSIONS, 'alerts:acknowledge'],
+    builtIn: true,
+  },
+  {
+    name: 'admin',
+    description: 'Full access',
+    permissions: ['*'],
+    builtIn: true,
+  },
+];
+
+// Custom roles are re-read at most this often on each server instance
+const ROLE_CACHE_TTL_MS = 30000;
+
+// Whether a granted permission (exact, "<resource>:*" or "*") covers the required one
+export function permissionMatches(granted: string, required: string): boolean {
+  if (granted === '*' || granted === required) return true;
+  if (granted.endsWith(':*')) {
+    return required.startsWith(granted.slice(0, -1));
+  }
+  return false;
+}
+
+// Full-access keys may be left unscoped to see every project
+export function grantsFullAccess(permissions: string[], roles: string[] = []): boolean {
+  return permissions.includes('admin') || permissions.includes('*') || roles.includes('admin');
+}
+
+export class RoleManager {
+  private db = getDatabase();
+  private cache: Map<string, Role> | null = null;
+  private cacheLoadedAt = 0;
+
+  // Built-in roles followed by custom roles
+  async listRoles(): Promise<Role[]> {
+    const roles = await this.getRoleMap();
+    return Array.from(roles.values());
+  }
+
+  async getRole(name: string): Promise<Role | null> {
+    const roles = await this.getRoleMap();
+    return roles.get(name) || null;
+  }
+
+  // Create or replace a custom role
+  async saveRole(data: { name: string; description?: string; permissions: string[] }): Promise<Role> {
+    const validated = RoleSchema.parse({ ...data, builtIn: false });
+
+    if (BUILT_IN_ROLES.some(role => role.name === validated.name)) {
+      throw new Error(`Built-in role '${validated.name}' cannot be modified`);
+    }
+
+    const result = await this.db.query(`
+      INSERT INTO roles (name, description, permissions)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (name) DO UPDATE
+      SET description = EXCLUDED.description,
+          permissions = EXCLUDED.permissions,
+          updated_at = NOW()
+      RETURNING name, description, permissions
+    `, [validated.name, validated.description ?? null, validated.permissions]);
+
+    this.cache = null;
+    return this.toRole(result.rows[0]);
+  }
+
+  async deleteRole(name: string): Promise<boolean> {
+    if (BUILT_IN_ROLES.some(role => role.name === name)) {
+      throw new Error(`Built-in role '${name}' cannot be deleted`);
+    }
+
+    const result = await this.db.query(`DELETE FROM roles WHERE name = $1`, [name]);
+
+    // Keys holding the role lose it rather than keeping a dangling reference
+    await this.db.query(`
+      UPDATE api_keys SET roles = array_remove(roles, $1) WHERE $1 = ANY(roles)
+    `, [name]);
+
+    this.cache = null;
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Permissions granted by a key's direct grants plus its roles. Legacy
+  // read/write/admin entries in the permissions column resolve as roles.
+  async resolvePermissions(grants: string[], roleNames: string[] = []): Promise<Set<string>> {
+    const roles = await this.getRoleMap();
+    const resolved = new Set<string>();
+
+    for (const entry of [...grants, ...roleNames]) {
+      const role = roles.get(entry);
+      if (role) {
+        role.permissions.forEach(permission => resolved.add(permission));
+      } else if (entry.includes(':') || entry === '*') {
+        resolved.add(entry);
+      }
+    }
+
+    return resolved;
+  }
+
+  private async getRoleMap(): Promise<Map<string, Role>> {
+    if (this.cache && Date.now() - this.cacheLoadedAt < ROLE_CACHE_TTL_MS) {
+      return this.cache;
+    }
+
+    const roles = new Map<string, Role>();
+    BUILT_IN_ROLES.forEach(role => roles.set(role.name, role));
+
+    try {
+      const result = await this.db.query(`
+        SELECT name, description, permissions FROM roles ORDER BY name
+      `);
+      for (const row of result.rows) {
+        if (!roles.has(row.name)) {
+          roles.set(row.name, this.toRole(row));
+        }
+      }
+    } catch (error) {
+      // Fall back to built-in roles only; custom roles resolve once the table is reachable
+      console.error('Error loading custom roles:', error);
+      return roles;
+    }
+
+    this.cache = roles;
+    this.cacheLoadedAt = Date.now();
+    return roles;
+  }
+
+  private toRole(row: any): Role {
+    return {
+      name: row.name,
+      description: row.description ?? undefined,
+      permissions: row.permissions,
+      builtIn: false,
+    };
+  }
+}
+
+// Singleton instance
+let roleManager: RoleManager;
+
+export function getRoleManager(): RoleManager {
+  if (!roleManager) {
+    roleManager = new RoleManager();
+  }
+  return roleManager;
+}
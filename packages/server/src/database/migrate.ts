@@ -0,0 +1,78 @@
+import { config } from 'dotenv';
+import { EnvSchema } from '../types';
+import { DatabaseManager } from './index';
+import { Migrator } from './migrator';
+
+// Usage: node dist/database/migrate.js [status|up|down [steps]]
+async function main(): Promise<void> {
+  config();
+
+  const env = EnvSchema.pick({
+    DATABASE_HOST: true,
+    DATABASE_PORT: true,
+    DATABASE_NAME: true,
+    DATABASE_USER: true,
+    DATABASE_PASSWORD: true,
+    DATABASE_SSL: true,
+  }).parse(process.env);
+
+  const [command = 'up', stepsArg] = process.argv.slice(2);
+
+  // "down 0" or "down abc" must never fall through to reverting everything
+  if (command === 'down' && stepsArg !== undefined && !/^[1-9]\d*$/.test(stepsArg)) {
+    console.error(`Invalid steps: ${stepsArg}. Expected a positive integer.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const db = new DatabaseManager({
+    host: env.DATABASE_HOST,
+    port: env.DATABASE_PORT,
+    database: env.DATABASE_NAME,
+    username: env.DATABASE_USER,
+    password: env.DATABASE_PASSWORD,
+    ssl: env.DATABASE_SSL,
+    poolMin: 1,
+    poolMax: 2,
+    idleTimeoutMillis: 30000,
+    connectionTimeoutMillis: 5000,
+    autoMigrate: false,
+  });
+
+  try {
+    await db.connect();
+    const migrator = new Migrator(db);
+
+    switch (command) {
+      case 'status': {
+        const status = await migrator.status();
+        status.applied.forEach(m => console.log(`  applied  ${m.name}`));
+        status.pending.forEach(name => console.log(`  pending  ${name}`));
+        status.mismatched.forEach(name => console.log(`  CHANGED  ${name} (checksum mismatch)`));
+        status.missing.forEach(name => console.log(`  MISSING  ${name} (applied but not on disk)`));
+        break;
+      }
+      case 'up': {
+        const applied = await migrator.migrate();
+        console.log(applied.length > 0 ? `Applied: ${applied.join(', ')}` : 'Database is up to date');
+        break;
+      }
+      case 'down': {
+        const steps = stepsArg ? Number(stepsArg) : 1;
+        const reverted = await migrator.rollback(steps);
+        console.log(reverted.length > 0 ? `Reverted: ${reverted.join(', ')}` : 'Nothing to revert');
+        break;
+      }
+      default:
+        console.error(`Unknown command: ${command}. Expected status, up or down.`);
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await db.end();
+  }
+}
+
+void main();
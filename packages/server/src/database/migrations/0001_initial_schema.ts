@@ -0,0 +1,143 @@
+import { MigrationScript } from '../migrator';
+
+// Baseline schema. Every statement is idempotent so installs that were
+// bootstrapped before versioned migrations can adopt it without changes.
+const migration: MigrationScript = {
+  up: `
+    CREATE EXTENSION IF NOT EXISTS timescaledb CASCADE;
+    CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+    CREATE TABLE IF NOT EXISTS api_keys (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      name VARCHAR(255) NOT NULL,
+      key_hash VARCHAR(255) UNIQUE NOT NULL,
+      permissions TEXT[] NOT NULL DEFAULT '{}',
+      rate_limit INTEGER,
+      expires_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      last_used_at TIMESTAMPTZ,
+      is_active BOOLEAN DEFAULT true,
+      metadata JSONB DEFAULT '{}'
+    );
+
+    CREATE TABLE IF NOT EXISTS events (
+      id UUID DEFAULT uuid_generate_v4(),
+      timestamp TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      type VARCHAR(50) NOT NULL,
+      level VARCHAR(20) NOT NULL DEFAULT 'info',
+      source VARCHAR(255) NOT NULL,
+      message TEXT NOT NULL,
+      metadata JSONB DEFAULT '{}',
+      user_id VARCHAR(255),
+      session_id VARCHAR(255),
+      request_id VARCHAR(255),
+      tags TEXT[] DEFAULT '{}',
+      stack TEXT,
+      url TEXT,
+      user_agent TEXT,
+      ip INET,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      PRIMARY KEY (id, timestamp)
+    );
+
+    CREATE TABLE IF NOT EXISTS metrics (
+      id UUID DEFAULT uuid_generate_v4(),
+      name VARCHAR(255) NOT NULL,
+      value DOUBLE PRECISION NOT NULL,
+      timestamp TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      unit VARCHAR(50),
+      dimensions JSONB DEFAULT '{}',
+      source VARCHAR(255) NOT NULL,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      PRIMARY KEY (id, timestamp)
+    );
+
+    -- Hypertables are optional; plain tables still work without TimescaleDB
+    DO $$
+    BEGIN
+      PERFORM create_hypertable('events', 'timestamp', if_not_exists => TRUE);
+      PERFORM create_hypertable('metrics', 'timestamp', if_not_exists => TRUE);
+    EXCEPTION WHEN others THEN
+      RAISE NOTICE 'Skipping hypertable creation: %', SQLERRM;
+    END $$;
+
+    CREATE TABLE IF NOT EXISTS alert_configs (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      name VARCHAR(255) NOT NULL,
+      description TEXT,
+      enabled BOOLEAN DEFAULT true,
+      conditions JSONB NOT NULL,
+      actions JSONB NOT NULL DEFAULT '[]',
+      cooldown INTEGER DEFAULT 300,
+      severity VARCHAR(20) DEFAULT 'medium',
+      tags TEXT[] DEFAULT '{}',
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS alert_instances (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      alert_config_id UUID REFERENCES alert_configs(id) ON DELETE CASCADE,
+      triggered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      resolved_at TIMESTAMPTZ,
+      status VARCHAR(20) DEFAULT 'active',
+      trigger_value DOUBLE PRECISION,
+      message TEXT,
+      metadata JSONB DEFAULT '{}'
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_events_timestamp ON events (timestamp DESC);
+    CREATE INDEX IF NOT EXISTS idx_events_type ON events (type);
+    CREATE INDEX IF NOT EXISTS idx_events_source ON events (source);
+    CREATE INDEX IF NOT EXISTS idx_events_level ON events (level);
+    CREATE INDEX IF NOT EXISTS idx_events_user_id ON events (user_id);
+    CREATE INDEX IF NOT EXISTS idx_events_tags ON events USING gin(tags);
+
+    CREATE INDEX IF NOT EXISTS idx_metrics_timestamp ON metrics (timestamp DESC);
+    CREATE INDEX IF NOT EXISTS idx_metrics_name ON metrics (name);
+    CREATE INDEX IF NOT EXISTS idx_metrics_source ON metrics (source);
+    CREATE INDEX IF NOT EXISTS idx_metrics_dimensions ON metrics USING gin(dimensions);
+
+    CREATE INDEX IF NOT EXISTS idx_alert_configs_enabled ON alert_configs (enabled);
+    CREATE INDEX IF NOT EXISTS idx_alert_instances_status ON alert_instances (status);
+    CREATE INDEX IF NOT EXISTS idx_alert_instances_triggered_at ON alert_instances (triggered_at DESC);
+
+    CREATE MATERIALIZED VIEW IF NOT EXISTS hourly_metrics AS
+    SELECT
+      name,
+      source,
+      time_bucket('1 hour', timestamp) as hour,
+      avg(value) as avg_value,
+      min(value) as min_value,
+      max(value) as max_value,
+      count(*) as count
+    FROM metrics
+    GROUP BY name, source, hour
+    WITH NO DATA;
+
+    CREATE MATERIALIZED VIEW IF NOT EXISTS daily_events AS
+    SELECT
+      type,
+      level,
+      source,
+      date_trunc('day', timestamp) as day,
+      count(*) as event_count
+    FROM events
+    GROUP BY type, level, source, day
+    WITH NO DATA;
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_hourly_metrics_unique ON hourly_metrics (name, source, hour);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_events_unique ON daily_events (type, level, source, day);
+  `,
+  down: `
+    DROP MATERIALIZED VIEW IF EXISTS daily_events;
+    DROP MATERIALIZED VIEW IF EXISTS hourly_metrics;
+    DROP TABLE IF EXISTS alert_instances;
+    DROP TABLE IF EXISTS alert_configs;
+    DROP TABLE IF EXISTS metrics;
+    DROP TABLE IF EXISTS events;
+    DROP TABLE IF EXISTS api_keys;
+  `,
+};
+
+export default migration;
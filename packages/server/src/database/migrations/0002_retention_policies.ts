@@ -0,0 +1,17 @@
+import { MigrationScript } from '../migrator';
+
+const migration: MigrationScript = {
+  up: `
+    CREATE TABLE IF NOT EXISTS retention_policies (
+      target VARCHAR(64) PRIMARY KEY,
+      retention_days INTEGER NOT NULL CHECK (retention_days > 0),
+      compress_after_days INTEGER CHECK (compress_after_days > 0),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS retention_policies;
+  `,
+};
+
+export default migration;
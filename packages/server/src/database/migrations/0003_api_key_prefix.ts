@@ -0,0 +1,16 @@
+import { MigrationScript } from '../migrator';
+
+// Keys created before this migration keep a NULL prefix until their first successful
+// authentication, when AuthManager backfills a digest-derived legacy prefix
+const migration: MigrationScript = {
+  up: `
+    ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_prefix VARCHAR(64);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_key_prefix ON api_keys (key_prefix);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_api_keys_key_prefix;
+    ALTER TABLE api_keys DROP COLUMN IF EXISTS key_prefix;
+  `,
+};
+
+export default migration;
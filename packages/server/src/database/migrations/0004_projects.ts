@@ -0,0 +1,63 @@
+import { MigrationScript } from '../migrator';
+
+// Existing data is assigned to a fixed "default" project. Using a constant id lets the
+// project_id columns be added with a default instead of rewriting large hypertables.
+// The metric rollup views are dropped so the retention manager recreates them per project.
+const migration: MigrationScript = {
+  up: `
+    CREATE TABLE IF NOT EXISTS projects (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      slug VARCHAR(64) UNIQUE NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    );
+
+    INSERT INTO projects (id, slug, name)
+    VALUES ('00000000-0000-0000-0000-000000000001', 'default', 'Default')
+    ON CONFLICT (id) DO NOTHING;
+
+    ALTER TABLE events
+      ADD COLUMN IF NOT EXISTS project_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+    ALTER TABLE metrics
+      ADD COLUMN IF NOT EXISTS project_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+    ALTER TABLE alert_configs
+      ADD COLUMN IF NOT EXISTS project_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001'
+      REFERENCES projects(id) ON DELETE CASCADE;
+    ALTER TABLE api_keys
+      ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES projects(id) ON DELETE CASCADE;
+
+    -- Non-admin keys become scoped to the default project; admin keys stay cross-project
+    UPDATE api_keys
+    SET project_id = '00000000-0000-0000-0000-000000000001'
+    WHERE project_id IS NULL AND NOT ('admin' = ANY(permissions));
+
+    CREATE INDEX IF NOT EXISTS idx_events_project_timestamp ON events (project_id, timestamp DESC);
+    CREATE INDEX IF NOT EXISTS idx_metrics_project_name_timestamp ON metrics (project_id, name, timestamp DESC);
+    CREATE INDEX IF NOT EXISTS idx_alert_configs_project ON alert_configs (project_id);
+    CREATE INDEX IF NOT EXISTS idx_api_keys_project ON api_keys (project_id);
+
+    DROP MATERIALIZED VIEW IF EXISTS metrics_1d;
+    DROP MATERIALIZED VIEW IF EXISTS metrics_1h;
+    DROP MATERIALIZED VIEW IF EXISTS metrics_1m;
+  `,
+  down: `
+    DROP MATERIALIZED VIEW IF EXISTS metrics_1d;
+    DROP MATERIALIZED VIEW IF EXISTS metrics_1h;
+    DROP MATERIALIZED VIEW IF EXISTS metrics_1m;
+
+    DROP INDEX IF EXISTS idx_api_keys_project;
+    DROP INDEX IF EXISTS idx_alert_configs_project;
+    DROP INDEX IF EXISTS idx_metrics_project_name_timestamp;
+    DROP INDEX IF EXISTS idx_events_project_timestamp;
+
+    ALTER TABLE api_keys DROP COLUMN IF EXISTS project_id;
+    ALTER TABLE alert_configs DROP COLUMN IF EXISTS project_id;
+    ALTER TABLE metrics DROP COLUMN IF EXISTS project_id;
+    ALTER TABLE events DROP COLUMN IF EXISTS project_id;
+
+    DROP TABLE IF EXISTS projects;
+  `,
+};
+
+export default migration;
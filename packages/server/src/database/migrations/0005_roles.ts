@@ -0,0 +1,23 @@
+import { MigrationScript } from '../migrator';
+
+// Custom roles only; the built-in read/write/responder/admin roles are defined in code.
+// Existing keys keep their legacy permission strings, which resolve as built-in roles.
+const migration: MigrationScript = {
+  up: `
+    CREATE TABLE IF NOT EXISTS roles (
+      name VARCHAR(64) PRIMARY KEY,
+      description VARCHAR(255),
+      permissions TEXT[] NOT NULL DEFAULT '{}',
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    );
+
+    ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS roles TEXT[] NOT NULL DEFAULT '{}';
+  `,
+  down: `
+    ALTER TABLE api_keys DROP COLUMN IF EXISTS roles;
+    DROP TABLE IF EXISTS roles;
+  `,
+};
+
+export default migration;
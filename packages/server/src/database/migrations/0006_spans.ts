@@ -0,0 +1,44 @@
+import { MigrationScript } from '../migrator';
+
+// Spans received through the OTLP traces receiver. `timestamp` is the span start time and
+// `source` the service.name resource attribute, matching the events and metrics tables so
+// the retention manager can treat spans like any other hypertable.
+const migration: MigrationScript = {
+  up: `
+    CREATE TABLE IF NOT EXISTS spans (
+      trace_id CHAR(32) NOT NULL,
+      span_id CHAR(16) NOT NULL,
+      parent_span_id CHAR(16),
+      project_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001',
+      timestamp TIMESTAMPTZ NOT NULL,
+      end_time TIMESTAMPTZ,
+      duration_ms DOUBLE PRECISION,
+      name VARCHAR(255) NOT NULL,
+      kind SMALLINT NOT NULL DEFAULT 0,
+      source VARCHAR(255) NOT NULL,
+      status_code SMALLINT NOT NULL DEFAULT 0,
+      status_message TEXT,
+      attributes JSONB DEFAULT '{}',
+      resource JSONB DEFAULT '{}',
+      events JSONB DEFAULT '[]',
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      PRIMARY KEY (trace_id, span_id, timestamp)
+    );
+
+    DO $$
+    BEGIN
+      PERFORM create_hypertable('spans', 'timestamp', if_not_exists => TRUE);
+    EXCEPTION WHEN others THEN
+      RAISE NOTICE 'Skipping hypertable creation: %', SQLERRM;
+    END $$;
+
+    CREATE INDEX IF NOT EXISTS idx_spans_project_trace ON spans (project_id, trace_id);
+    CREATE INDEX IF NOT EXISTS idx_spans_project_timestamp ON spans (project_id, timestamp DESC);
+    CREATE INDEX IF NOT EXISTS idx_spans_source_timestamp ON spans (source, timestamp DESC);
+  `,
+  down: `
+    DROP TABLE IF EXISTS spans;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,27 @@
+import { MigrationScript } from '../migrator';
+
+// Source maps uploaded per release. `file_url` is the URL of the minified file the map belongs
+// to, either absolute or `~/path` to match that path on any origin; stack frames are looked up
+// by (project, release, file URL).
+const migration: MigrationScript = {
+  up: `
+    CREATE TABLE IF NOT EXISTS source_maps (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      release VARCHAR(255) NOT NULL,
+      file_url TEXT NOT NULL,
+      source_map TEXT NOT NULL,
+      size_bytes INTEGER NOT NULL,
+      source_count INTEGER NOT NULL DEFAULT 0,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      UNIQUE (project_id, release, file_url)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_source_maps_project_release ON source_maps (project_id, release);
+  `,
+  down: `
+    DROP TABLE IF EXISTS source_maps;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,60 @@
+import { MigrationScript } from '../migrator';
+
+// Releases and their deploys, plus one row per distinct error (issue) so a release can list
+// the issues first seen in it. Events record the release they were reported from; existing
+// events keep a NULL release.
+const migration: MigrationScript = {
+  up: `
+    ALTER TABLE events ADD COLUMN IF NOT EXISTS release VARCHAR(255);
+    CREATE INDEX IF NOT EXISTS idx_events_project_release_timestamp
+      ON events (project_id, release, timestamp DESC) WHERE release IS NOT NULL;
+
+    CREATE TABLE IF NOT EXISTS releases (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      version VARCHAR(255) NOT NULL,
+      commit_sha VARCHAR(64),
+      commits JSONB NOT NULL DEFAULT '[]',
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      UNIQUE (project_id, version)
+    );
+
+    CREATE TABLE IF NOT EXISTS deploys (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      release_id UUID NOT NULL REFERENCES releases(id) ON DELETE CASCADE,
+      environment VARCHAR(64) NOT NULL DEFAULT 'production',
+      url TEXT,
+      deployed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_deploys_project_deployed_at ON deploys (project_id, deployed_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_deploys_release ON deploys (release_id);
+
+    CREATE TABLE IF NOT EXISTS issues (
+      project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      fingerprint CHAR(40) NOT NULL,
+      title TEXT NOT NULL,
+      type VARCHAR(50) NOT NULL,
+      source VARCHAR(255) NOT NULL,
+      culprit JSONB,
+      first_release VARCHAR(255),
+      last_release VARCHAR(255),
+      first_seen TIMESTAMPTZ NOT NULL,
+      last_seen TIMESTAMPTZ NOT NULL,
+      occurrences BIGINT NOT NULL DEFAULT 0,
+      PRIMARY KEY (project_id, fingerprint)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_issues_project_first_release ON issues (project_id, first_release);
+  `,
+  down: `
+    DROP TABLE IF EXISTS issues;
+    DROP TABLE IF EXISTS deploys;
+    DROP TABLE IF EXISTS releases;
+    DROP INDEX IF EXISTS idx_events_project_release_timestamp;
+    ALTER TABLE events DROP COLUMN IF EXISTS release;
+  `,
+};
+
+export default migration;
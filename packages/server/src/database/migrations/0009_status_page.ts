@@ -0,0 +1,82 @@
+import { MigrationScript } from '../migrator';
+
+// Status page: components, the incidents and maintenance posted against them, and
+// subscribers who confirmed (double opt-in) that they want status updates. Uptime is
+// computed from incident history, so each incident keeps the status it gave each component.
+const migration: MigrationScript = {
+  up: `
+    CREATE TABLE IF NOT EXISTS status_components (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      name VARCHAR(255) NOT NULL,
+      description TEXT,
+      status VARCHAR(32) NOT NULL DEFAULT 'operational',
+      group_name VARCHAR(255),
+      position INTEGER NOT NULL DEFAULT 0,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW(),
+      UNIQUE (project_id, name)
+    );
+
+    CREATE TABLE IF NOT EXISTS status_incidents (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      title VARCHAR(255) NOT NULL,
+      description TEXT NOT NULL,
+      status VARCHAR(32) NOT NULL DEFAULT 'investigating',
+      severity VARCHAR(32) NOT NULL,
+      component_impacts JSONB NOT NULL DEFAULT '{}',
+      tags TEXT[] NOT NULL DEFAULT '{}',
+      started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      resolved_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      updated_at TIMESTAMPTZ DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_status_incidents_project_started_at ON status_incidents (project_id, started_at DESC);
+
+    CREATE TABLE IF NOT EXISTS status_incident_updates (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      incident_id UUID NOT NULL REFERENCES status_incidents(id) ON DELETE CASCADE,
+      status VARCHAR(32) NOT NULL,
+      message TEXT NOT NULL,
+      created_at TIMESTAMPTZ DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_status_incident_updates_incident ON status_incident_updates (incident_id, created_at);
+
+    CREATE TABLE IF NOT EXISTS status_maintenances (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      title VARCHAR(255) NOT NULL,
+      description TEXT NOT NULL DEFAULT '',
+      component_ids UUID[] NOT NULL DEFAULT '{}',
+      scheduled_start TIMESTAMPTZ NOT NULL,
+      scheduled_end TIMESTAMPTZ NOT NULL,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      CHECK (scheduled_end > scheduled_start)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_status_maintenances_project_end ON status_maintenances (project_id, scheduled_end);
+
+    CREATE TABLE IF NOT EXISTS status_subscribers (
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      kind VARCHAR(16) NOT NULL CHECK (kind IN ('email', 'webhook')),
+      target TEXT NOT NULL,
+      token CHAR(64) NOT NULL UNIQUE,
+      confirmed_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ DEFAULT NOW(),
+      UNIQUE (project_id, kind, target)
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS status_subscribers;
+    DROP TABLE IF EXISTS status_maintenances;
+    DROP TABLE IF EXISTS status_incident_updates;
+    DROP TABLE IF EXISTS status_incidents;
+    DROP TABLE IF EXISTS status_components;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,46 @@
+import { MigrationScript } from '../migrator';
+
+// Triggered alerts run through the @monitoring/alerts pipeline. Each instance keeps the
+// pipeline's decisions so the dashboard can explain why it paged or didn't; instances from
+// before the pipeline keep NULL decisions. The pipeline shares its dedup, suppression and
+// escalation state between server replicas through the state and lock tables.
+const migration: MigrationScript = {
+  up: `
+    ALTER TABLE alert_instances ADD COLUMN IF NOT EXISTS suppressed BOOLEAN NOT NULL DEFAULT false;
+    ALTER TABLE alert_instances ADD COLUMN IF NOT EXISTS suppressed_by VARCHAR(255);
+    ALTER TABLE alert_instances ADD COLUMN IF NOT EXISTS dedup_group_id VARCHAR(255);
+    ALTER TABLE alert_instances ADD COLUMN IF NOT EXISTS impact_score DOUBLE PRECISION;
+    ALTER TABLE alert_instances ADD COLUMN IF NOT EXISTS escalation_id VARCHAR(255);
+    ALTER TABLE alert_instances ADD COLUMN IF NOT EXISTS pipeline JSONB;
+    CREATE INDEX IF NOT EXISTS idx_alert_instances_dedup_group
+      ON alert_instances (dedup_group_id) WHERE dedup_group_id IS NOT NULL;
+
+    CREATE TABLE IF NOT EXISTS alert_pipeline_state (
+      collection TEXT NOT NULL,
+      id TEXT NOT NULL,
+      data JSONB NOT NULL,
+      updated_by TEXT NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (collection, id)
+    );
+
+    CREATE TABLE IF NOT EXISTS alert_pipeline_locks (
+      name TEXT PRIMARY KEY,
+      token TEXT NOT NULL,
+      expires_at TIMESTAMPTZ NOT NULL
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS alert_pipeline_locks;
+    DROP TABLE IF EXISTS alert_pipeline_state;
+    DROP INDEX IF EXISTS idx_alert_instances_dedup_group;
+    ALTER TABLE alert_instances DROP COLUMN IF EXISTS pipeline;
+    ALTER TABLE alert_instances DROP COLUMN IF EXISTS escalation_id;
+    ALTER TABLE alert_instances DROP COLUMN IF EXISTS impact_score;
+    ALTER TABLE alert_instances DROP COLUMN IF EXISTS dedup_group_id;
+    ALTER TABLE alert_instances DROP COLUMN IF EXISTS suppressed_by;
+    ALTER TABLE alert_instances DROP COLUMN IF EXISTS suppressed;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,15 @@
+import { MigrationScript } from '../migrator';
+
+// Chat ops replies name an alert by its escalation, so resolving from Slack, Teams, SMS or
+// voice looks instances up by escalation_id.
+const migration: MigrationScript = {
+  up: `
+    CREATE INDEX IF NOT EXISTS idx_alert_instances_escalation
+      ON alert_instances (escalation_id) WHERE escalation_id IS NOT NULL;
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_alert_instances_escalation;
+  `,
+};
+
+export default migration;
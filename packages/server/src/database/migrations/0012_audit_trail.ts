@@ -0,0 +1,73 @@
+import { MigrationScript } from '../migrator';
+
+// Tamper-evident audit trail for admin actions. Entries are hash-chained by sequence and
+// periodically covered by signed Merkle-root checkpoints. Both tables are append-only:
+// triggers reject UPDATE, DELETE and TRUNCATE, so rewriting history means dropping the
+// triggers first. details is json rather than jsonb because the hash covers its key order.
+const migration: MigrationScript = {
+  up: `
+    CREATE TABLE IF NOT EXISTS audit_entries (
+      sequence BIGINT PRIMARY KEY,
+      id TEXT NOT NULL UNIQUE,
+      timestamp TIMESTAMPTZ NOT NULL,
+      user_id TEXT,
+      action TEXT NOT NULL,
+      resource TEXT NOT NULL,
+      details JSON NOT NULL,
+      ip_address TEXT,
+      user_agent TEXT,
+      session_id TEXT,
+      outcome VARCHAR(16) NOT NULL,
+      hash CHAR(64) NOT NULL,
+      previous_hash CHAR(64),
+      recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_audit_entries_timestamp ON audit_entries (timestamp DESC);
+    CREATE INDEX IF NOT EXISTS idx_audit_entries_user ON audit_entries (user_id, timestamp DESC);
+
+    CREATE TABLE IF NOT EXISTS audit_checkpoints (
+      id TEXT PRIMARY KEY,
+      from_sequence BIGINT NOT NULL,
+      to_sequence BIGINT NOT NULL UNIQUE,
+      last_hash CHAR(64) NOT NULL,
+      merkle_root CHAR(64) NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL,
+      key_id TEXT NOT NULL,
+      signature TEXT NOT NULL
+    );
+
+    CREATE OR REPLACE FUNCTION reject_audit_modification() RETURNS trigger AS $$
+    BEGIN
+      RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS audit_entries_append_only ON audit_entries;
+    CREATE TRIGGER audit_entries_append_only
+      BEFORE UPDATE OR DELETE ON audit_entries
+      FOR EACH ROW EXECUTE FUNCTION reject_audit_modification();
+
+    DROP TRIGGER IF EXISTS audit_entries_no_truncate ON audit_entries;
+    CREATE TRIGGER audit_entries_no_truncate
+      BEFORE TRUNCATE ON audit_entries
+      FOR EACH STATEMENT EXECUTE FUNCTION reject_audit_modification();
+
+    DROP TRIGGER IF EXISTS audit_checkpoints_append_only ON audit_checkpoints;
+    CREATE TRIGGER audit_checkpoints_append_only
+      BEFORE UPDATE OR DELETE ON audit_checkpoints
+      FOR EACH ROW EXECUTE FUNCTION reject_audit_modification();
+
+    DROP TRIGGER IF EXISTS audit_checkpoints_no_truncate ON audit_checkpoints;
+    CREATE TRIGGER audit_checkpoints_no_truncate
+      BEFORE TRUNCATE ON audit_checkpoints
+      FOR EACH STATEMENT EXECUTE FUNCTION reject_audit_modification();
+  `,
+  down: `
+    DROP TABLE IF EXISTS audit_checkpoints;
+    DROP TABLE IF EXISTS audit_entries;
+    DROP FUNCTION IF EXISTS reject_audit_modification();
+  `,
+};
+
+export default migration;
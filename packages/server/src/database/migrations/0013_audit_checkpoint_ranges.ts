@@ -0,0 +1,16 @@
+import { MigrationScript } from '../migrator';
+
+// Replicas sharing the audit trail each checkpoint the entries after the last stored
+// checkpoint; rejecting overlapping ranges lets the first one win and the others skip.
+const migration: MigrationScript = {
+  up: `
+    ALTER TABLE audit_checkpoints DROP CONSTRAINT IF EXISTS audit_checkpoints_no_overlap;
+    ALTER TABLE audit_checkpoints ADD CONSTRAINT audit_checkpoints_no_overlap
+      EXCLUDE USING gist (int8range(from_sequence, to_sequence, '[]') WITH &&);
+  `,
+  down: `
+    ALTER TABLE audit_checkpoints DROP CONSTRAINT IF EXISTS audit_checkpoints_no_overlap;
+  `,
+};
+
+export default migration;
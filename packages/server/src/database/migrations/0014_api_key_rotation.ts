@@ -0,0 +1,14 @@
+import { MigrationScript } from '../migrator';
+
+// Keys issued before prefixes existed are matched by a bounded scan on first use, given
+// their legacy prefix and flagged here so admins can see which keys to re-issue.
+const migration: MigrationScript = {
+  up: `
+    ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rotation_required BOOLEAN NOT NULL DEFAULT false;
+  `,
+  down: `
+    ALTER TABLE api_keys DROP COLUMN IF EXISTS rotation_required;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,236 @@
+import { createHash } from 'crypto';
+import { readdirSync } from 'fs';
+import { join } from 'path';
+import { PoolClient } from 'pg';
+import type { DatabaseManager } from './index';
+
+// Shape of a file in ./migrations; `down` must undo `up`
+export interface MigrationScript {
+  up: string;
+  down: string;
+}
+
+export interface Migration extends MigrationScript {
+  name: string;
+  // Covers both `up` and `down`, so an edited rollback is detected too
+  checksum: string;
+  // Checksum of `up` alone, as recorded before `down` was included
+  legacyChecksum: string;
+}
+
+export interface MigrationStatus {
+  applied: Array<{ name: string; checksum: string | null; appliedAt: string }>;
+  pending: string[];
+  mismatched: string[];
+  missing: string[];
+}
+
+// Arbitrary constant shared by every server instance contending for the migration lock
+const MIGRATION_LOCK_ID = 727_431_001;
+
+const MIGRATION_FILE_PATTERN = /^(\d{4}_[a-z0-9_]+)\.(ts|js)$/;
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+// Load migrations from disk, ordered by their numeric prefix
+export function loadMigrations(directory: string = join(__dirname, 'migrations')): Migration[] {
+  const files = readdirSync(directory)
+    .filter(file => !file.endsWith('.d.ts') && MIGRATION_FILE_PATTERN.test(file))
+    .sort();
+
+  const migrations: Migration[] = [];
+  const seen = new Set<string>();
+
+  for (const file of files) {
+    const name = file.match(MIGRATION_FILE_PATTERN)![1];
+    if (seen.has(name)) continue; // Same migration present as both .ts and .js
+    seen.add(name);
+
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const module = require(join(directory, file));
+    const script: MigrationScript = module.default ?? module;
+
+    if (typeof script.up !== 'string' || typeof script.down !== 'string') {
+      throw new MigrationError(`Migration ${name} must export "up" and "down" SQL strings`);
+    }
+
+    migrations.push({
+      name,
+      up: script.up,
+      down: script.down,
+      checksum: createHash('sha256').update(script.up).update('\0').update(script.down).digest('hex'),
+      legacyChecksum: createHash('sha256').update(script.up).digest('hex'),
+    });
+  }
+
+  return migrations;
+}
+
+export class Migrator {
+  private db: DatabaseManager;
+  private migrations: Migration[];
+
+  constructor(db: DatabaseManager, migrations: Migration[] = loadMigrations()) {
+    this.db = db;
+    this.migrations = migrations;
+  }
+
+  // Report applied, pending and tampered migrations without changing anything
+  async status(): Promise<MigrationStatus> {
+    return this.withLock(async (client) => this.readStatus(client));
+  }
+
+  // Apply all pending migrations in order, each in its own transaction
+  async migrate(): Promise<string[]> {
+    return this.withLock(async (client) => {
+      const status = await this.readStatus(client);
+      this.assertConsistent(status);
+      await this.upgradeLegacyChecksums(client, status);
+
+      const applied: string[] = [];
+      for (const migration of this.migrations) {
+        if (!status.pending.includes(migration.name)) continue;
+
+        console.log(`Applying migration: ${migration.name}`);
+        await this.inTransaction(client, async () => {
+          await client.query(migration.up);
+          await client.query(
+            'INSERT INTO migrations (name, checksum) VALUES ($1, $2)',
+            [migration.name, migration.checksum]
+          );
+        });
+        applied.push(migration.name);
+      }
+
+      if (applied.length > 0) {
+        console.log(`Applied ${applied.length} migration(s)`);
+      }
+      return applied;
+    });
+  }
+
+  // Revert the most recently applied migrations
+  async rollback(steps: number = 1): Promise<string[]> {
+    // slice(-0) or slice(NaN) below would select every applied migration
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new MigrationError(`Rollback steps must be a positive integer, got ${steps}`);
+    }
+
+    return this.withLock(async (client) => {
+      const status = await this.readStatus(client);
+      this.assertConsistent(status);
+
+      const toRevert = status.applied.slice(-steps).reverse();
+      const reverted: string[] = [];
+
+      for (const entry of toRevert) {
+        const migration = this.migrations.find(m => m.name === entry.name)!;
+
+        console.log(`Reverting migration: ${migration.name}`);
+        await this.inTransaction(client, async () => {
+          await client.query(migration.down);
+          await client.query('DELETE FROM migrations WHERE name = $1', [migration.name]);
+        });
+        reverted.push(migration.name);
+      }
+
+      return reverted;
+    });
+  }
+
+  private async readStatus(client: PoolClient): Promise<MigrationStatus> {
+    await this.ensureMigrationsTable(client);
+
+    const result = await client.query(`
+      SELECT name, checksum, applied_at FROM migrations ORDER BY name
+    `);
+
+    const known = new Map(this.migrations.map(m => [m.name, m]));
+    const appliedNames = new Set<string>();
+    const status: MigrationStatus = { applied: [], pending: [], mismatched: [], missing: [] };
+
+    for (const row of result.rows) {
+      appliedNames.add(row.name);
+      status.applied.push({ name: row.name, checksum: row.checksum, appliedAt: row.applied_at });
+
+      const migration = known.get(row.name);
+      if (!migration) {
+        status.missing.push(row.name);
+      } else if (row.checksum && row.checksum !== migration.checksum && row.checksum !== migration.legacyChecksum) {
+        status.mismatched.push(row.name);
+      }
+    }
+
+    status.pending = this.migrations
+      .filter(m => !appliedNames.has(m.name))
+      .map(m => m.name);
+
+    return status;
+  }
+
+  // Refuse to run when applied migrations were edited or removed after deployment
+  private assertConsistent(status: MigrationStatus): void {
+    if (status.mismatched.length > 0) {
+      throw new MigrationError(`Checksum mismatch for applied migration(s): ${status.mismatched.join(', ')}`);
+    }
+    if (status.missing.length > 0) {
+      throw new MigrationError(`Applied migration(s) not found on disk: ${status.missing.join(', ')}`);
+    }
+  }
+
+  // Re-record up-only checksums from before `down` was covered; their rollbacks were never checked
+  private async upgradeLegacyChecksums(client: PoolClient, status: MigrationStatus): Promise<void> {
+    for (const entry of status.applied) {
+      const migration = this.migrations.find(m => m.name === entry.name);
+      if (migration && entry.checksum === migration.legacyChecksum) {
+        await client.query(
+          'UPDATE migrations SET checksum = $1 WHERE name = $2 AND checksum = $3',
+          [migration.checksum, migration.name, migration.legacyChecksum]
+        );
+      }
+    }
+  }
+
+  private async ensureMigrationsTable(client: PoolClient): Promise<void> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS migrations (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) UNIQUE NOT NULL,
+        applied_at TIMESTAMPTZ DEFAULT NOW()
+      )
+    `);
+    // Tables created by the old runMigration helper have no checksum column
+    await client.query(`ALTER TABLE migrations ADD COLUMN IF NOT EXISTS checksum VARCHAR(64)`);
+  }
+
+  // Serialize migration work across clustered instances with a session-level advisory lock
+  private async withLock<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.db.getClient();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+      try {
+        return await callback(client);
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  private async inTransaction(client: PoolClient, callback: () => Promise<void>): Promise<void> {
+    await client.query('BEGIN');
+    try {
+      await callback();
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+}
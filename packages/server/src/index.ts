@@ -11,12 +11,27 @@ import { EnvSchema, type Env, type ServerStats } from './types';
 import { initDatabase } from './database';
 import { initRedis } from './redis';
 import { initWebSocket } from './websocket';
-import { authMiddleware, rateLimitMiddleware } from './middleware';
+import { initAlertEvaluator, getAlertEvaluator, initAlertPipeline, shutdownAlertPipeline } from './alerting';
+import { initRetentionManager, getRetentionManager } from './retention';
+import { initStatusNotifier } from './status/notifier';
+import { initChatOps, initDigestPreview } from './notifications';
+import { initAuditTrail, shutdownAuditTrail } from './audit';
+import { authMiddleware, projectScopeMiddleware, rateLimitMiddleware } from './middleware';
 import eventsRoutes from './routes/events';
 import metricsRoutes from './routes/metrics';
 import dashboardRoutes from './routes/dashboard';
 import alertsRoutes from './routes/alerts';
 import adminRoutes from './routes/admin';
+import projectsRoutes from './routes/projects';
+import tracesRoutes from './routes/traces';
+import queryRoutes from './routes/query';
+import sourceMapsRoutes from './routes/sourcemaps';
+import releasesRoutes from './routes/releases';
+import statusRoutes from './routes/status';
+import otlpRoutes from './routes/otlp';
+import prometheusRoutes from './routes/prometheus';
+import notificationsRoutes from './routes/notifications';
+import chatOpsRoutes from './routes/chatops';
 
 // Load environment variables
 config();
@@ -68,6 +83,18 @@ const gracefulShutdown = async (signal: string) => {
   server.log.info(`Received ${signal}, shutting down gracefully`);
   
   try {
+    // Stop background jobs
+    try {
+      getRetentionManager().stop();
+      getAlertEvaluator().stop();
+    } catch {
+      // Jobs were never started
+    }
+
+    // Flush pipeline state and checkpoint the audit trail before the database closes
+    await shutdownAlertPipeline();
+    await shutdownAuditTrail();
+
     // Close WebSocket connections
     if (server.wsClients) {
       server.wsClients.forEach((ws) => ws.close());
@@ -214,6 +241,12 @@ async function start() {
     });
     server.decorate('db', db);
 
+    // Apply data retention policies and metric rollup tiers
+    server.log.info('Applying retention policies...');
+    await initRetentionManager({
+      defaultRetentionDays: env.RETENTION_DAYS,
+    });
+
     // Initialize Redis connection
     server.log.info('Connecting to Redis...');
     const redisConfig = {
@@ -233,14 +266,65 @@ async function start() {
     const wsClients = await initWebSocket(server, {
       heartbeatInterval: env.WS_HEARTBEAT_INTERVAL,
       maxConnections: env.WS_MAX_CONNECTIONS,
+      clusterMode: env.CLUSTER_MODE,
     });
     server.decorate('wsClients', wsClients);
 
     // Add server stats
     server.decorate('stats', serverStats);
 
+    // Triggered alerts go through dedup, suppression, scoring and escalation
+    server.log.info('Restoring alert pipeline state...');
+    const alertPipeline = await initAlertPipeline({
+      ...(env.ALERT_ESCALATION_POLICY && { escalationPolicy: env.ALERT_ESCALATION_POLICY }),
+    });
+
+    // Start background alert rule evaluation
+    server.log.info('Starting alert evaluator...');
+    initAlertEvaluator({
+      checkInterval: env.ALERT_CHECK_INTERVAL,
+      stats: serverStats,
+      pipeline: alertPipeline,
+    });
+
+    // Status page subscriber notifications
+    initStatusNotifier({
+      publicUrl: env.STATUS_PAGE_URL ?? `http://localhost:${env.PORT}`,
+      webhookTimeout: env.WEBHOOK_TIMEOUT,
+      ...(env.SMTP_HOST ? {
+        smtp: {
+          host: env.SMTP_HOST,
+          port: env.SMTP_PORT,
+          secure: env.SMTP_SECURE,
+          user: env.SMTP_USER,
+          password: env.SMTP_PASSWORD,
+          from: env.SMTP_FROM,
+        },
+      } : {}),
+    });
+
+    // Digest previews read the queue notification workers share through Redis
+    initDigestPreview(redisConfig);
+
+    // Acknowledge, escalate and resolve alerts from Slack, Teams, SMS and voice
+    initChatOps(redisConfig, {
+      publicUrl: env.CHATOPS_PUBLIC_URL ?? `http://localhost:${env.PORT}`,
+      ...(env.SLACK_SIGNING_SECRET && { slackSigningSecret: env.SLACK_SIGNING_SECRET }),
+      ...(env.TEAMS_BOT_APP_ID && { teamsBotAppId: env.TEAMS_BOT_APP_ID }),
+      ...(env.TWILIO_AUTH_TOKEN && { twilioAuthToken: env.TWILIO_AUTH_TOKEN }),
+    });
+
+    // Tamper-evident trail of admin actions
+    server.log.info('Loading audit trail...');
+    await initAuditTrail({
+      checkpointInterval: env.AUDIT_CHECKPOINT_INTERVAL,
+      ...(env.AUDIT_LOG_DIR && { logDirectory: env.AUDIT_LOG_DIR }),
+      ...(env.AUDIT_SIGNING_KEY && { signingKey: env.AUDIT_SIGNING_KEY }),
+    });
+
     // Register middleware
     server.addHook('preHandler', authMiddleware);
+    server.addHook('preHandler', projectScopeMiddleware);
     server.addHook('preHandler', rateLimitMiddleware);
 
     // Health check endpoint
@@ -334,6 +418,20 @@ async function start() {
     await server.register(dashboardRoutes, { prefix: '/api/v1/dashboard' });
     await server.register(alertsRoutes, { prefix: '/api/v1/alerts' });
     await server.register(adminRoutes, { prefix: '/api/v1/admin' });
+    await server.register(projectsRoutes, { prefix: '/api/v1/projects' });
+    await server.register(tracesRoutes, { prefix: '/api/v1/traces' });
+    await server.register(queryRoutes, { prefix: '/api/v1/query' });
+    await server.register(sourceMapsRoutes, { prefix: '/api/v1/sourcemaps' });
+    await server.register(releasesRoutes, { prefix: '/api/v1/releases' });
+    await server.register(statusRoutes, { prefix: '/api/v1/status' });
+    await server.register(notificationsRoutes, { prefix: '/api/v1/notifications' });
+    await server.register(chatOpsRoutes, { prefix: '/api/v1/chatops' });
+
+    // OTLP/HTTP receivers live at the paths OpenTelemetry exporters expect
+    await server.register(otlpRoutes);
+
+    // Prometheus scrape endpoint and remote-write receiver
+    await server.register(prometheusRoutes);
 
     // Start server
     await server.listen({
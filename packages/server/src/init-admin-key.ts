@@ -1,4 +1,4 @@
-import { getAuthManager } from './auth';
+import { getAuthManager, getApiKeyPrefix } from './auth';
 import { getDatabase } from './database';
 
 export async function initializeAdminApiKey(): Promise<void> {
@@ -37,9 +37,10 @@ export async function initializeAdminApiKey(): Promise<void> {
     // This is a special case for the admin key
     await db.query(`
       UPDATE api_keys 
-      SET key_hash = crypt($1, gen_salt('bf', 12))
+      SET key_hash = crypt($1, gen_salt('bf', 12)),
+          key_prefix = $3
       WHERE id = $2
-    `, [adminKey, apiKey.id]);
+    `, [adminKey, apiKey.id, getApiKeyPrefix(adminKey)]);
     
     console.log('✓ Admin API key initialized successfully');
     console.log(`  Name: ${apiKey.name}`);
@@ -1,6 +1,7 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { getAuthManager, authenticateRequest } from '../auth';
+import { getAuthManager, authenticateRequest, requirePermission } from '../auth';
 import { getRedis } from '../redis';
+import { resolveProjectScope } from '../projects';
 
 // Request timing middleware
 export async function requestTimingMiddleware(
@@ -39,6 +40,22 @@ export async function authMiddleware(
   }
 }
 
+// Project scoping middleware (wrapper for the projects module)
+export async function projectScopeMiddleware(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    await resolveProjectScope(request, reply);
+  } catch (error) {
+    (request.log as any).error({ error: error instanceof Error ? error.message : String(error) }, 'Project resolution error');
+    reply.code(500).send({
+      error: 'Internal Server Error',
+      message: 'Project resolution error',
+    });
+  }
+}
+
 // Rate limiting middleware
 export async function rateLimitMiddleware(
   request: FastifyRequest,
@@ -130,25 +147,21 @@ export function validateRequest(schema: any) {
   };
 }
 
-// Permission checking middleware
-export function requirePermission(permission: 'read' | 'write' | 'admin') {
+// Permission checking middleware; routes declare the <resource>:<action> permission they need
+export { requirePermission };
+
+// Restrict deployment-wide operations to admin keys that are not scoped to a project
+export function requireCrossProjectAccess() {
   return async (
     request: FastifyRequest,
     reply: FastifyReply
   ): Promise<void> => {
-    if (!request.apiKey) {
-      reply.code(401).send({
-        error: 'Unauthorized',
-        message: 'Authentication required',
-      });
-      return;
-    }
+    if (reply.sent) return; // Already rejected by an earlier check
 
-    const auth = getAuthManager();
-    if (!auth.hasPermission(request.apiKey, permission)) {
+    if (request.apiKey?.projectId) {
       reply.code(403).send({
         error: 'Forbidden',
-        message: `Permission '${permission}' is required`,
+        message: 'This operation is not available to project-scoped API keys',
       });
       return;
     }
@@ -304,28 +317,6 @@ export async function healthCheckMiddleware(
   }
 }
 
-// WebSocket connection middleware
-export function websocketConnectionMiddleware() {
-  return async (connection: any, request: FastifyRequest): Promise<void> => {
-    const redis = getRedis();
-    const connectionId = `ws_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
-    
-    // Store connection metadata
-    await redis.addWebSocketConnection(connectionId, {
-      connectedAt: new Date().toISOString(),
-      ip: request.ip,
-      userAgent: request.headers['user-agent'],
-    });
-
-    connection.on('close', async () => {
-      await redis.removeWebSocketConnection(connectionId);
-    });
-
-    // Add connection ID to connection object
-    (connection as any).connectionId = connectionId;
-  };
-}
-
 // Metrics collection middleware
 export async function metricsMiddleware(
   request: FastifyRequest,
@@ -466,7 +457,6 @@ export const middleware = {
   errorHandling: errorHandlingMiddleware,
   requestLogging: requestLoggingMiddleware,
   healthCheck: healthCheckMiddleware,
-  websocketConnection: websocketConnectionMiddleware,
   metrics: metricsMiddleware,
   batchProcessing: batchProcessingMiddleware,
   onResponseLogging: onResponseLoggingHook,
@@ -0,0 +1,115 @@
+import { randomUUID } from 'crypto';
+import {
+  BotFrameworkVerifier,
+  ChatOpsHandler,
+  DigestPreview,
+  DigestScheduler,
+  HandlebarsTemplateEngine,
+  RedisDeliveryTracker,
+  RedisDigestStore,
+  RedisReplyReferenceStore,
+  type ReplyReferenceStore,
+} from '@monitoring-service/notifications';
+import { acknowledgeEscalation, escalateNow, resolveEscalatedInstance } from '../alerting';
+import { RedisConfig } from '../types';
+
+// Reads the digest queue notification service workers share through Redis; previews use
+// the built-in digest layout
+let digestScheduler: DigestScheduler;
+
+export function initDigestPreview(redis: RedisConfig): DigestScheduler {
+  if (!digestScheduler) {
+    const templates = new HandlebarsTemplateEngine({
+      directory: 'templates/notifications',
+      engine: 'handlebars',
+      cache: true,
+      hotReload: false,
+      defaultLanguage: 'en',
+      languages: ['en'],
+      themes: {},
+    });
+
+    digestScheduler = new DigestScheduler(
+      {},
+      new RedisDigestStore({
+        host: redis.host,
+        port: redis.port,
+        db: redis.db,
+        ...(redis.password && { password: redis.password }),
+      }),
+      templates
+    );
+  }
+  return digestScheduler;
+}
+
+export function getDigestPreview(): DigestScheduler {
+  if (!digestScheduler) {
+    throw new Error('Digest preview not initialized. Call initDigestPreview first.');
+  }
+  return digestScheduler;
+}
+
+// What the recipient's next digest will contain; null when nothing is queued
+export async function previewDigest(recipientId: string): Promise<DigestPreview | null> {
+  return getDigestPreview().preview(recipientId);
+}
+
+export interface ChatOpsOptions {
+  // Externally visible base URL; Twilio signs the URL it called
+  publicUrl: string;
+  slackSigningSecret?: string;
+  teamsBotAppId?: string;
+  twilioAuthToken?: string;
+}
+
+export interface ChatOps {
+  handler: ChatOpsHandler;
+  // Reply codes the notification workers hand out with SMS alerts
+  replies: ReplyReferenceStore;
+  teamsVerifier?: BotFrameworkVerifier;
+  options: ChatOpsOptions;
+}
+
+let chatOps: ChatOps;
+
+// Acknowledgments land in the delivery tracker notification workers share through Redis;
+// escalation actions go through the alert pipeline
+export function initChatOps(redis: RedisConfig, options: ChatOpsOptions): ChatOps {
+  if (!chatOps) {
+    const redisOptions = {
+      host: redis.host,
+      port: redis.port,
+      db: redis.db,
+      ...(redis.password && { password: redis.password }),
+    };
+    const tracker = new RedisDeliveryTracker(redisOptions);
+
+    chatOps = {
+      handler: new ChatOpsHandler(
+        {
+          acknowledge: (notificationId, userId, notes, channel = 'in-app') => tracker.recordAcknowledgment({
+            id: randomUUID(),
+            notificationId,
+            acknowledgedBy: userId,
+            timestamp: Date.now(),
+            channel,
+            ...(notes && { notes }),
+          }),
+        },
+        { acknowledgeEscalation, escalateNow, resolveEscalation: resolveEscalatedInstance }
+      ),
+      replies: new RedisReplyReferenceStore(redisOptions),
+      ...(options.teamsBotAppId && { teamsVerifier: new BotFrameworkVerifier(options.teamsBotAppId) }),
+      options,
+    };
+  }
+  return chatOps;
+}
+
+export function getChatOps(): ChatOps {
+  if (!chatOps) {
+    throw new Error('Chat ops not initialized. Call initChatOps first.');
+  }
+  return chatOps;
+}
@@ -0,0 +1,515 @@
+import { getDatabase } from '../database';
+import { getRedis } from '../redis';
+import { getReleaseTracker } from '../releases';
+import { Event, EventSchema, Metric, MetricSchema } from '../types';
+
+export { decodeExportRequest, encodeExportResponse } from './protobuf';
+export type { OtlpSignal } from './protobuf';
+
+// OTLP/JSON request shapes (protobuf requests are decoded into the same shape). 64-bit
+// integers may arrive as strings or numbers, so they are typed loosely.
+type OtlpInteger = string | number;
+
+interface OtlpAnyValue {
+  stringValue?: string;
+  boolValue?: boolean;
+  intValue?: OtlpInteger;
+  doubleValue?: number;
+  arrayValue?: { values?: OtlpAnyValue[] };
+  kvlistValue?: { values?: OtlpKeyValue[] };
+  bytesValue?: string;
+}
+
+interface OtlpKeyValue {
+  key: string;
+  value?: OtlpAnyValue;
+}
+
+interface OtlpResource {
+  attributes?: OtlpKeyValue[];
+}
+
+interface OtlpScope {
+  name?: string;
+  version?: string;
+}
+
+interface OtlpSpan {
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  name?: string;
+  kind?: number;
+  startTimeUnixNano?: OtlpInteger;
+  endTimeUnixNano?: OtlpInteger;
+  attributes?: OtlpKeyValue[];
+  events?: Array<{ timeUnixNano?: OtlpInteger; name?: string; attributes?: OtlpKeyValue[] }>;
+  status?: { code?: number; message?: string };
+}
+
+interface OtlpNumberDataPoint {
+  attributes?: OtlpKeyValue[];
+  timeUnixNano?: OtlpInteger;
+  asDouble?: number;
+  asInt?: OtlpInteger;
+}
+
+interface OtlpHistogramDataPoint {
+  attributes?: OtlpKeyValue[];
+  timeUnixNano?: OtlpInteger;
+  count?: OtlpInteger;
+  sum?: number;
+  min?: number;
+  max?: number;
+}
+
+interface OtlpSummaryDataPoint {
+  attributes?: OtlpKeyValue[];
+  timeUnixNano?: OtlpInteger;
+  count?: OtlpInteger;
+  sum?: number;
+  quantileValues?: Array<{ quantile?: number; value?: number }>;
+}
+
+interface OtlpMetric {
+  name?: string;
+  unit?: string;
+  gauge?: { dataPoints?: OtlpNumberDataPoint[] };
+  sum?: { dataPoints?: OtlpNumberDataPoint[] };
+  histogram?: { dataPoints?: OtlpHistogramDataPoint[] };
+  exponentialHistogram?: { dataPoints?: OtlpHistogramDataPoint[] };
+  summary?: { dataPoints?: OtlpSummaryDataPoint[] };
+}
+
+interface OtlpLogRecord {
+  timeUnixNano?: OtlpInteger;
+  observedTimeUnixNano?: OtlpInteger;
+  severityNumber?: number;
+  severityText?: string;
+  body?: OtlpAnyValue;
+  attributes?: OtlpKeyValue[];
+  traceId?: string;
+  spanId?: string;
+  eventName?: string;
+}
+
+export interface OtlpTracesRequest {
+  resourceSpans?: Array<{
+    resource?: OtlpResource;
+    scopeSpans?: Array<{ scope?: OtlpScope; spans?: OtlpSpan[] }>;
+  }>;
+}
+
+export interface OtlpMetricsRequest {
+  resourceMetrics?: Array<{
+    resource?: OtlpResource;
+    scopeMetrics?: Array<{ scope?: OtlpScope; metrics?: OtlpMetric[] }>;
+  }>;
+}
+
+export interface OtlpLogsRequest {
+  resourceLogs?: Array<{
+    resource?: OtlpResource;
+    scopeLogs?: Array<{ scope?: OtlpScope; logRecords?: OtlpLogRecord[] }>;
+  }>;
+}
+
+// Stored span, shaped after the debugging package's SpanData
+export interface SpanRecord {
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  name: string;
+  kind: number; // @opentelemetry/api SpanKind (OTLP kind - 1)
+  source: string;
+  timestamp: Date;
+  endTime: Date | null;
+  durationMs: number | null;
+  statusCode: number; // @opentelemetry/api SpanStatusCode (same values as OTLP)
+  statusMessage: string | null;
+  attributes: Record<string, unknown>;
+  resource: Record<string, unknown>;
+  events: Array<{ name: string; timestamp: number; attributes: Record<string, unknown> }>;
+}
+
+export interface IngestResult {
+  accepted: number;
+  rejected: number;
+  errorMessage?: string;
+}
+
+const UNKNOWN_SERVICE = 'unknown_service';
+
+function anyValueToJs(value: OtlpAnyValue | undefined): unknown {
+  if (!value) return null;
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.boolValue !== undefined) return value.boolValue;
+  if (value.intValue !== undefined) return Number(value.intValue);
+  if (value.doubleValue !== undefined) return Number(value.doubleValue);
+  if (value.arrayValue) return (value.arrayValue.values || []).map(anyValueToJs);
+  if (value.kvlistValue) return attributesToRecord(value.kvlistValue.values);
+  if (value.bytesValue !== undefined) return value.bytesValue;
+  return null;
+}
+
+function attributesToRecord(attributes: OtlpKeyValue[] | undefined): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (const attribute of attributes || []) {
+    record[attribute.key] = anyValueToJs(attribute.value);
+  }
+  return record;
+}
+
+// Metric dimensions only hold strings
+function toDimensions(...records: Array<Record<string, unknown>>): Record<string, string> {
+  const dimensions: Record<string, string> = {};
+  for (const record of records) {
+    for (const [key, value] of Object.entries(record)) {
+      if (value === null || value === undefined) continue;
+      dimensions[key] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+  }
+  return dimensions;
+}
+
+// Resource attributes: service.name becomes the source, everything else a dimension
+function splitResource(resource: OtlpResource | undefined): {
+  source: string;
+  attributes: Record<string, unknown>;
+} {
+  const { 'service.name': serviceName, ...attributes } = attributesToRecord(resource?.attributes);
+  return {
+    source: typeof serviceName === 'string' && serviceName ? serviceName : UNKNOWN_SERVICE,
+    attributes,
+  };
+}
+
+// Unix nanoseconds to a Date; missing or zero timestamps fall back to receipt time
+function nanosToDate(nanos: OtlpInteger | undefined, fallback: Date = new Date()): Date {
+  if (nanos === undefined || nanos === null || nanos === '' || Number(nanos) === 0) return fallback;
+  return new Date(Number(BigInt(nanos) / 1000000n));
+}
+
+// OTLP/JSON ids are hex, but some exporters send base64
+function normalizeId(id: string | undefined, hexLength: number): string | null {
+  if (!id) return null;
+  if (new RegExp(`^[0-9a-fA-F]{${hexLength}}$`).test(id)) return id.toLowerCase();
+
+  const hex = Buffer.from(id, 'base64').toString('hex');
+  return hex.length === hexLength && !/^0+$/.test(hex) ? hex : null;
+}
+
+// OTLP severity numbers: 1-4 TRACE, 5-8 DEBUG, 9-12 INFO, 13-16 WARN, 17-20 ERROR, 21-24 FATAL
+function severityToEvent(severityNumber: number | undefined): Pick<Event, 'type' | 'level'> {
+  const severity = severityNumber || 9;
+  if (severity >= 21) return { type: 'error', level: 'critical' };
+  if (severity >= 17) return { type: 'error', level: 'high' };
+  if (severity >= 13) return { type: 'warning', level: 'medium' };
+  if (severity >= 9) return { type: 'info', level: 'info' };
+  return { type: 'debug', level: 'low' };
+}
+
+export function mapSpans(request: OtlpTracesRequest): { spans: SpanRecord[]; rejected: number } {
+  const spans: SpanRecord[] = [];
+  let rejected = 0;
+
+  for (const resourceSpans of request.resourceSpans || []) {
+    const { source, attributes: resource } = splitResource(resourceSpans.resource);
+
+    for (const scopeSpans of resourceSpans.scopeSpans || []) {
+      for (const span of scopeSpans.spans || []) {
+        const traceId = normalizeId(span.traceId, 32);
+        const spanId = normalizeId(span.spanId, 16);
+        if (!traceId || !spanId) {
+          rejected++;
+          continue;
+        }
+
+        const timestamp = nanosToDate(span.startTimeUnixNano);
+        const endTime = span.endTimeUnixNano ? nanosToDate(span.endTimeUnixNano, timestamp) : null;
+
+        spans.push({
+          traceId,
+          spanId,
+          parentSpanId: normalizeId(span.parentSpanId, 16),
+          name: span.name || 'unnamed',
+          kind: Math.max((span.kind || 1) - 1, 0),
+          source,
+          timestamp,
+          endTime,
+          durationMs: endTime ? endTime.getTime() - timestamp.getTime() : null,
+          statusCode: span.status?.code || 0,
+          statusMessage: span.status?.message || null,
+          // trace.id/span.id/service.name are what the debugging tracing views key on
+          attributes: {
+            ...attributesToRecord(span.attributes),
+            'service.name': source,
+            'trace.id': traceId,
+            'span.id': spanId,
+            ...(scopeSpans.scope?.name ? { 'otel.scope.name': scopeSpans.scope.name } : {}),
+          },
+          resource,
+          events: (span.events || []).map(event => ({
+            name: event.name || '',
+            timestamp: nanosToDate(event.timeUnixNano, timestamp).getTime(),
+            attributes: attributesToRecord(event.attributes),
+          })),
+        });
+      }
+    }
+  }
+
+  return { spans, rejected };
+}
+
+export function mapMetrics(request: OtlpMetricsRequest): { metrics: Metric[]; rejected: number } {
+  const metrics: Metric[] = [];
+  let rejected = 0;
+
+  const push = (
+    name: string,
+    value: number | undefined,
+    point: { timeUnixNano?: OtlpInteger; attributes?: OtlpKeyValue[] },
+    source: string,
+    resource: Record<string, unknown>,
+    unit: string | undefined,
+    extra: Record<string, string> = {}
+  ) => {
+    if (value === undefined || !Number.isFinite(value)) return;
+
+    const metric: Metric = {
+      name,
+      value,
+      timestamp: nanosToDate(point.timeUnixNano).toISOString(),
+      dimensions: { ...toDimensions(resource, attributesToRecord(point.attributes)), ...extra },
+      source,
+    };
+    if (unit) metric.unit = unit;
+
+    metrics.push(metric);
+  };
+
+  for (const resourceMetrics of request.resourceMetrics || []) {
+    const { source, attributes: resource } = splitResource(resourceMetrics.resource);
+
+    for (const scopeMetrics of resourceMetrics.scopeMetrics || []) {
+      for (const metric of scopeMetrics.metrics || []) {
+        const name = metric.name;
+        if (!name) {
+          rejected++;
+          continue;
+        }
+
+        const numberPoints = metric.gauge?.dataPoints || metric.sum?.dataPoints || [];
+        for (const point of numberPoints) {
+          const value = point.asDouble !== undefined ? Number(point.asDouble) : Number(point.asInt);
+          push(name, value, point, source, resource, metric.unit);
+        }
+
+        // Histograms are stored as their count/sum/min/max series, like Prometheus
+        const histogramPoints = metric.histogram?.dataPoints || metric.exponentialHistogram?.dataPoints || [];
+        for (const point of histogramPoints) {
+          push(`${name}_count`, Number(point.count ?? 0), point, source, resource, undefined);
+          push(`${name}_sum`, point.sum, point, source, resource, metric.unit);
+          push(`${name}_min`, point.min, point, source, resource, metric.unit);
+          push(`${name}_max`, point.max, point, source, resource, metric.unit);
+        }
+
+        for (const point of metric.summary?.dataPoints || []) {
+          push(`${name}_count`, Number(point.count ?? 0), point, source, resource, undefined);
+          push(`${name}_sum`, point.sum, point, source, resource, metric.unit);
+          for (const quantile of point.quantileValues || []) {
+            push(name, quantile.value, point, source, resource, metric.unit, {
+              quantile: String(quantile.quantile ?? 0),
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return { metrics, rejected };
+}
+
+export function mapLogs(request: OtlpLogsRequest): { events: Event[]; rejected: number } {
+  const events: Event[] = [];
+  let rejected = 0;
+
+  for (const resourceLogs of request.resourceLogs || []) {
+    const { source, attributes: resource } = splitResource(resourceLogs.resource);
+    const release = resource['service.version'];
+
+    for (const scopeLogs of resourceLogs.scopeLogs || []) {
+      for (const record of scopeLogs.logRecords || []) {
+        const body = anyValueToJs(record.body);
+        const message = typeof body === 'string'
+          ? body
+          : body !== null ? JSON.stringify(body) : record.eventName || record.severityText || '';
+
+        if (!message) {
+          rejected++;
+          continue;
+        }
+
+        const timestamp = nanosToDate(record.timeUnixNano, nanosToDate(record.observedTimeUnixNano));
+        const traceId = normalizeId(record.traceId, 32);
+        const spanId = normalizeId(record.spanId, 16);
+
+        const metadata: Record<string, unknown> = {
+          ...attributesToRecord(record.attributes),
+          resource,
+        };
+        if (record.severityText) metadata['severityText'] = record.severityText;
+        if (record.severityNumber) metadata['severityNumber'] = record.severityNumber;
+        if (scopeLogs.scope?.name) metadata['scope'] = scopeLogs.scope.name;
+        if (traceId) metadata['traceId'] = traceId;
+        if (spanId) metadata['spanId'] = spanId;
+
+        events.push({
+          ...severityToEvent(record.severityNumber),
+          timestamp: timestamp.toISOString(),
+          source,
+          message,
+          metadata,
+          tags: ['otlp'],
+          // service.version is the OpenTelemetry equivalent of an SDK release
+          ...(typeof release === 'string' && release ? { release } : {}),
+        });
+      }
+    }
+  }
+
+  return { events, rejected };
+}
+
+export class OtlpReceiver {
+  private db = getDatabase();
+  private redis = getRedis();
+  private releases = getReleaseTracker();
+
+  async ingestTraces(request: OtlpTracesRequest, projectId: string): Promise<IngestResult> {
+    const { spans, rejected } = mapSpans(request);
+
+    if (spans.length > 0) {
+      await this.db.transaction(async (client) => {
+        for (const span of spans) {
+          // Exporters retry whole batches, so duplicate spans are ignored
+          await client.query(`
+            INSERT INTO spans (
+              trace_id, span_id, parent_span_id, project_id, timestamp, end_time, duration_ms,
+              name, kind, source, status_code, status_message, attributes, resource, events
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+            ON CONFLICT DO NOTHING
+          `, [
+            span.traceId,
+            span.spanId,
+            span.parentSpanId,
+            projectId,
+            span.timestamp,
+            span.endTime,
+            span.durationMs,
+            span.name,
+            span.kind,
+            span.source,
+            span.statusCode,
+            span.statusMessage,
+            JSON.stringify(span.attributes),
+            JSON.stringify(span.resource),
+            JSON.stringify(span.events),
+          ]);
+        }
+      });
+    }
+
+    return this.result(spans.length, rejected, 'spans without a valid trace or span id');
+  }
+
+  async ingestMetrics(request: OtlpMetricsRequest, projectId: string): Promise<IngestResult> {
+    const mapped = mapMetrics(request);
+    const metrics = mapped.metrics.map(metric => MetricSchema.parse(metric));
+
+    if (metrics.length > 0) {
+      await this.db.transaction(async (client) => {
+        for (const metric of metrics) {
+          const result = await client.query(`
+            INSERT INTO metrics (name, value, timestamp, unit, dimensions, source, project_id)
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
+            RETURNING id
+          `, [
+            metric.name,
+            metric.value,
+            metric.timestamp,
+            metric.unit,
+            JSON.stringify(metric.dimensions || {}),
+            metric.source,
+            projectId,
+          ]);
+
+          await this.redis.publish('metrics:realtime', {
+            ...metric,
+            id: result.rows[0].id,
+            projectId,
+          });
+
+          const cacheKey = `metric:${projectId}:${metric.name}:${metric.source}:latest`;
+          await this.redis.setJSON(cacheKey, { ...metric, id: result.rows[0].id, projectId }, 3600);
+        }
+      });
+    }
+
+    return this.result(metrics.length, mapped.rejected, 'metrics without a name');
+  }
+
+  async ingestLogs(request: OtlpLogsRequest, projectId: string): Promise<IngestResult> {
+    const mapped = mapLogs(request);
+    const events = mapped.events.map(event => EventSchema.parse(event));
+
+    if (events.length > 0) {
+      await this.db.transaction(async (client) => {
+        for (const event of events) {
+          const result = await client.query(`
+            INSERT INTO events (timestamp, type, level, source, message, metadata, tags, project_id, release)
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+            RETURNING id
+          `, [
+            event.timestamp,
+            event.type,
+            event.level,
+            event.source,
+            event.message,
+            JSON.stringify(event.metadata || {}),
+            event.tags || [],
+            projectId,
+            event.release,
+          ]);
+
+          await this.redis.publish('events:realtime', {
+            ...event,
+            id: result.rows[0].id,
+            projectId,
+          });
+        }
+      });
+
+      await this.releases.trackEvents(events, projectId);
+    }
+
+    return this.result(events.length, mapped.rejected, 'log records without a body');
+  }
+
+  private result(accepted: number, rejected: number, reason: string): IngestResult {
+    return rejected > 0
+      ? { accepted, rejected, errorMessage: `Rejected ${rejected} ${reason}` }
+      : { accepted, rejected };
+  }
+}
+
+// Singleton instance
+let otlpReceiver: OtlpReceiver;
+
+export function getOtlpReceiver(): OtlpReceiver {
+  if (!otlpReceiver) {
+    otlpReceiver = new OtlpReceiver();
+  }
+  return otlpReceiver;
+}
@@ -0,0 +1,185 @@
+// OTLP export requests decoded into the OTLP/JSON shape (camelCase fields, hex trace/span
+// ids, 64-bit integers as strings) so both encodings share one mapping path
+
+import { MessageSpec, WIRE_VARINT, decodeMessage, encodeLengthDelimited, encodeVarint } from '../protobuf';
+
+// opentelemetry/proto/common/v1/common.proto
+const AnyValue: MessageSpec = {};
+const KeyValue: MessageSpec = {
+  1: ['key', 'string'],
+  2: ['value', AnyValue],
+};
+Object.assign(AnyValue, {
+  1: ['stringValue', 'string'],
+  2: ['boolValue', 'bool'],
+  3: ['intValue', 'int64'],
+  4: ['doubleValue', 'double'],
+  5: ['arrayValue', { 1: ['values', AnyValue, true] }],
+  6: ['kvlistValue', { 1: ['values', KeyValue, true] }],
+  7: ['bytesValue', 'base64'],
+});
+
+const InstrumentationScope: MessageSpec = {
+  1: ['name', 'string'],
+  2: ['version', 'string'],
+  3: ['attributes', KeyValue, true],
+};
+
+// opentelemetry/proto/resource/v1/resource.proto
+const Resource: MessageSpec = {
+  1: ['attributes', KeyValue, true],
+};
+
+// opentelemetry/proto/trace/v1/trace.proto
+const Span: MessageSpec = {
+  1: ['traceId', 'hex'],
+  2: ['spanId', 'hex'],
+  3: ['traceState', 'string'],
+  4: ['parentSpanId', 'hex'],
+  5: ['name', 'string'],
+  6: ['kind', 'enum'],
+  7: ['startTimeUnixNano', 'fixed64'],
+  8: ['endTimeUnixNano', 'fixed64'],
+  9: ['attributes', KeyValue, true],
+  11: ['events', {
+    1: ['timeUnixNano', 'fixed64'],
+    2: ['name', 'string'],
+    3: ['attributes', KeyValue, true],
+  }, true],
+  15: ['status', {
+    2: ['message', 'string'],
+    3: ['code', 'enum'],
+  }],
+};
+
+const ExportTraceServiceRequest: MessageSpec = {
+  1: ['resourceSpans', {
+    1: ['resource', Resource],
+    2: ['scopeSpans', {
+      1: ['scope', InstrumentationScope],
+      2: ['spans', Span, true],
+    }, true],
+  }, true],
+};
+
+// opentelemetry/proto/metrics/v1/metrics.proto
+const NumberDataPoint: MessageSpec = {
+  7: ['attributes', KeyValue, true],
+  2: ['startTimeUnixNano', 'fixed64'],
+  3: ['timeUnixNano', 'fixed64'],
+  4: ['asDouble', 'double'],
+  6: ['asInt', 'sfixed64'],
+};
+
+const HistogramDataPoint: MessageSpec = {
+  9: ['attributes', KeyValue, true],
+  2: ['startTimeUnixNano', 'fixed64'],
+  3: ['timeUnixNano', 'fixed64'],
+  4: ['count', 'fixed64'],
+  5: ['sum', 'double'],
+  11: ['min', 'double'],
+  12: ['max', 'double'],
+};
+
+const ExponentialHistogramDataPoint: MessageSpec = {
+  1: ['attributes', KeyValue, true],
+  2: ['startTimeUnixNano', 'fixed64'],
+  3: ['timeUnixNano', 'fixed64'],
+  4: ['count', 'fixed64'],
+  5: ['sum', 'double'],
+  6: ['scale', 'sint32'],
+  12: ['min', 'double'],
+  13: ['max', 'double'],
+};
+
+const SummaryDataPoint: MessageSpec = {
+  7: ['attributes', KeyValue, true],
+  2: ['startTimeUnixNano', 'fixed64'],
+  3: ['timeUnixNano', 'fixed64'],
+  4: ['count', 'fixed64'],
+  5: ['sum', 'double'],
+  6: ['quantileValues', {
+    1: ['quantile', 'double'],
+    2: ['value', 'double'],
+  }, true],
+};
+
+const Metric: MessageSpec = {
+  1: ['name', 'string'],
+  2: ['description', 'string'],
+  3: ['unit', 'string'],
+  5: ['gauge', { 1: ['dataPoints', NumberDataPoint, true] }],
+  7: ['sum', {
+    1: ['dataPoints', NumberDataPoint, true],
+    2: ['aggregationTemporality', 'enum'],
+    3: ['isMonotonic', 'bool'],
+  }],
+  9: ['histogram', {
+    1: ['dataPoints', HistogramDataPoint, true],
+    2: ['aggregationTemporality', 'enum'],
+  }],
+  10: ['exponentialHistogram', {
+    1: ['dataPoints', ExponentialHistogramDataPoint, true],
+    2: ['aggregationTemporality', 'enum'],
+  }],
+  11: ['summary', { 1: ['dataPoints', SummaryDataPoint, true] }],
+};
+
+const ExportMetricsServiceRequest: MessageSpec = {
+  1: ['resourceMetrics', {
+    1: ['resource', Resource],
+    2: ['scopeMetrics', {
+      1: ['scope', InstrumentationScope],
+      2: ['metrics', Metric, true],
+    }, true],
+  }, true],
+};
+
+// opentelemetry/proto/logs/v1/logs.proto
+const LogRecord: MessageSpec = {
+  1: ['timeUnixNano', 'fixed64'],
+  11: ['observedTimeUnixNano', 'fixed64'],
+  2: ['severityNumber', 'enum'],
+  3: ['severityText', 'string'],
+  5: ['body', AnyValue],
+  6: ['attributes', KeyValue, true],
+  9: ['traceId', 'hex'],
+  10: ['spanId', 'hex'],
+  12: ['eventName', 'string'],
+};
+
+const ExportLogsServiceRequest: MessageSpec = {
+  1: ['resourceLogs', {
+    1: ['resource', Resource],
+    2: ['scopeLogs', {
+      1: ['scope', InstrumentationScope],
+      2: ['logRecords', LogRecord, true],
+    }, true],
+  }, true],
+};
+
+export const OTLP_REQUEST_SPECS = {
+  traces: ExportTraceServiceRequest,
+  metrics: ExportMetricsServiceRequest,
+  logs: ExportLogsServiceRequest,
+};
+
+export type OtlpSignal = keyof typeof OTLP_REQUEST_SPECS;
+
+export function decodeExportRequest(signal: OtlpSignal, buf: Buffer): Record<string, any> {
+  return decodeMessage(buf, OTLP_REQUEST_SPECS[signal]);
+}
+
+// Export*ServiceResponse. Every signal's partial_success message is
+// { int64 rejected_<items> = 1; string error_message = 2; } in field 1.
+export function encodeExportResponse(rejected: number, errorMessage?: string): Buffer {
+  if (rejected === 0) return Buffer.alloc(0);
+
+  const partialSuccess = Buffer.concat([
+    encodeVarint((1 << 3) | WIRE_VARINT),
+    encodeVarint(rejected),
+    errorMessage ? encodeLengthDelimited(2, Buffer.from(errorMessage, 'utf8')) : Buffer.alloc(0),
+  ]);
+
+  return encodeLengthDelimited(1, partialSuccess);
+}
@@ -0,0 +1,171 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { getDatabase } from '../database';
+import { getRedis } from '../redis';
+import { grantsFullAccess } from '../auth/roles';
+import { ApiKey, Project, ProjectSchema } from '../types';
+
+// Project that pre-existing data and unscoped writes belong to (seeded by migration 0004)
+export const DEFAULT_PROJECT_ID = '00000000-0000-0000-0000-000000000001';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class ProjectManager {
+  private db = getDatabase();
+  private redis = getRedis();
+
+  // Per-project activity over the last 24 hours for cross-project admin views
+  async getProjectUsage(projectId?: string | null): Promise<Array<Project & {
+    eventsLast24h: number;
+    metricsLast24h: number;
+    activeAlerts: number;
+    apiKeys: number;
+  }>> {
+    const result = await this.db.query(`
+      SELECT
+        p.id, p.slug, p.name, p.created_at, p.updated_at,
+        (SELECT COUNT(*) FROM events e
+          WHERE e.project_id = p.id AND e.timestamp >= NOW() - INTERVAL '24 hours') as events_24h,
+        (SELECT COUNT(*) FROM metrics m
+          WHERE m.project_id = p.id AND m.timestamp >= NOW() - INTERVAL '24 hours') as metrics_24h,
+        (SELECT COUNT(*) FROM alert_instances ai
+          JOIN alert_configs ac ON ai.alert_config_id = ac.id
+          WHERE ac.project_id = p.id AND ai.status = 'active') as active_alerts,
+        (SELECT COUNT(*) FROM api_keys k
+          WHERE k.project_id = p.id AND k.is_active = true) as api_keys
+      FROM projects p
+      WHERE ($1::uuid IS NULL OR p.id = $1)
+      ORDER BY p.created_at
+    `, [projectId ?? null]);
+
+    return result.rows.map((row: any) => ({
+      ...this.toProject(row),
+      eventsLast24h: parseInt(row.events_24h),
+      metricsLast24h: parseInt(row.metrics_24h),
+      activeAlerts: parseInt(row.active_alerts),
+      apiKeys: parseInt(row.api_keys),
+    }));
+  }
+
+  // Look a project up by id or slug; the SDK's projectId may be either
+  async getProject(idOrSlug: string): Promise<Project | null> {
+    const cacheKey = `project:${idOrSlug}`;
+    const cached = await this.redis.getJSON<Project>(cacheKey);
+    if (cached) return cached;
+
+    const column = UUID_PATTERN.test(idOrSlug) ? 'id' : 'slug';
+    const result = await this.db.query(`
+      SELECT id, slug, name, created_at, updated_at
+      FROM projects WHERE ${column} = $1
+    `, [idOrSlug]);
+
+    if (result.rows.length === 0) return null;
+
+    const project = this.toProject(result.rows[0]);
+    await this.redis.setJSON(cacheKey, project, 300);
+    return project;
+  }
+
+  async createProject(data: { slug: string; name: string }): Promise<Project> {
+    const validated = ProjectSchema.parse(data);
+
+    const result = await this.db.query(`
+      INSERT INTO projects (slug, name)
+      VALUES ($1, $2)
+      RETURNING id, slug, name, created_at, updated_at
+    `, [validated.slug, validated.name]);
+
+    return this.toProject(result.rows[0]);
+  }
+
+  // Delete a project with its alert configs and scoped API keys; events and metrics
+  // are left for retention to expire since hypertables carry no foreign key
+  async deleteProject(id: string): Promise<boolean> {
+    if (id === DEFAULT_PROJECT_ID) {
+      throw new Error('The default project cannot be deleted');
+    }
+
+    const result = await this.db.query(`
+      DELETE FROM projects WHERE id = $1
+      RETURNING id, slug
+    `, [id]);
+
+    if (result.rows.length === 0) return false;
+
+    await this.redis.del(`project:${result.rows[0].id}`);
+    await this.redis.del(`project:${result.rows[0].slug}`);
+    return true;
+  }
+
+  private toProject(row: any): Project {
+    return {
+      id: row.id,
+      slug: row.slug,
+      name: row.name,
+      createdAt: new Date(row.created_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+    };
+  }
+}
+
+// Singleton instance
+let projectManager: ProjectManager;
+
+export function getProjectManager(): ProjectManager {
+  if (!projectManager) {
+    projectManager = new ProjectManager();
+  }
+  return projectManager;
+}
+
+// Project to attribute writes to when the caller is not scoped to one
+export function getWriteProjectId(request: FastifyRequest): string {
+  return request.projectId || DEFAULT_PROJECT_ID;
+}
+
+// Project an API key is limited to, or null for cross-project admin keys
+export function getKeyProjectScope(apiKey: ApiKey): string | null {
+  if (apiKey.projectId) return apiKey.projectId;
+  return grantsFullAccess(apiKey.permissions, apiKey.roles) ? null : DEFAULT_PROJECT_ID;
+}
+
+// Fastify middleware resolving which project a request may see. Project-scoped keys are
+// pinned to their project; admin keys without a project see every project unless they
+// narrow the view with the X-Project-ID header or a projectId query/body field.
+export async function resolveProjectScope(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  if (!request.apiKey) return; // Unauthenticated routes (health, docs)
+
+  const body = request.body as { projectId?: unknown } | undefined;
+  const query = request.query as { projectId?: unknown } | undefined;
+  const requested = (request.headers['x-project-id'] as string | undefined)
+    || (typeof query?.projectId === 'string' ? query.projectId : undefined)
+    || (typeof body?.projectId === 'string' ? body.projectId : undefined);
+
+  const keyProjectId = getKeyProjectScope(request.apiKey);
+
+  if (!requested) {
+    request.projectId = keyProjectId;
+    return;
+  }
+
+  const project = await getProjectManager().getProject(requested);
+  if (!project) {
+    reply.code(404).send({
+      error: 'Not Found',
+      message: `Project ${requested} not found`,
+    });
+    return;
+  }
+
+  if (keyProjectId && project.id !== keyProjectId) {
+    reply.code(403).send({
+      error: 'Forbidden',
+      message: 'API key is not authorized for this project',
+    });
+    return;
+  }
+
+  request.projectId = project.id!;
+}
@@ -0,0 +1,259 @@
+import { getDatabase } from '../database';
+import { MessageSpec, decodeMessage } from '../protobuf';
+import { ServerStats } from '../types';
+
+export { MAX_UNCOMPRESSED_LENGTH, snappyDecompress } from './snappy';
+
+// prometheus/prompb/remote.proto and types.proto (remote write 1.0)
+const WriteRequest: MessageSpec = {
+  1: ['timeseries', {
+    1: ['labels', {
+      1: ['name', 'string'],
+      2: ['value', 'string'],
+    }, true],
+    2: ['samples', {
+      1: ['value', 'double'],
+      2: ['timestamp', 'int64'],
+    }, true],
+  }, true],
+  3: ['metadata', {
+    1: ['type', 'enum'],
+    2: ['metricFamilyName', 'string'],
+    4: ['help', 'string'],
+    5: ['unit', 'string'],
+  }, true],
+};
+
+interface PrometheusWriteRequest {
+  timeseries?: Array<{
+    labels?: Array<{ name?: string; value?: string }>;
+    samples?: Array<{ value?: number; timestamp?: string }>;
+  }>;
+  metadata?: Array<{ metricFamilyName?: string; unit?: string }>;
+}
+
+interface MetricRow {
+  name: string;
+  value: number;
+  timestamp: string;
+  unit: string | null;
+  dimensions: Record<string, string>;
+  source: string;
+}
+
+export interface StoredSeries {
+  name: string;
+  source: string;
+  dimensions: Record<string, string>;
+  value: number;
+  timestamp: Date;
+}
+
+// Rows are written with one multi-row INSERT per chunk
+const INSERT_CHUNK_SIZE = 1000;
+const MAX_NAME_LENGTH = 255;
+const DEFAULT_SOURCE = 'prometheus';
+
+export function decodeWriteRequest(buf: Buffer): PrometheusWriteRequest {
+  return decodeMessage(buf, WriteRequest) as PrometheusWriteRequest;
+}
+
+// One metrics row per sample: __name__ is the metric name, the job label the source and
+// every other label a dimension. Stale markers (NaN) and infinite values are skipped.
+export function mapWriteRequest(request: PrometheusWriteRequest): { rows: MetricRow[]; rejected: number } {
+  const units = new Map<string, string>();
+  for (const metadata of request.metadata || []) {
+    if (metadata.metricFamilyName && metadata.unit) {
+      units.set(metadata.metricFamilyName, metadata.unit);
+    }
+  }
+
+  const rows: MetricRow[] = [];
+  let rejected = 0;
+
+  for (const series of request.timeseries || []) {
+    const dimensions: Record<string, string> = {};
+    let name: string | undefined;
+    let source = DEFAULT_SOURCE;
+
+    for (const label of series.labels || []) {
+      if (!label.name) continue;
+      if (label.name === '__name__') {
+        name = label.value;
+      } else if (label.name === 'job') {
+        source = label.value || DEFAULT_SOURCE;
+      } else {
+        dimensions[label.name] = label.value ?? '';
+      }
+    }
+
+    if (!name || name.length > MAX_NAME_LENGTH || source.length > MAX_NAME_LENGTH) {
+      rejected += (series.samples || []).length;
+      continue;
+    }
+
+    for (const sample of series.samples || []) {
+      const value = sample.value ?? 0;
+      if (!Number.isFinite(value)) continue;
+
+      rows.push({
+        name,
+        value,
+        timestamp: new Date(Number(sample.timestamp ?? Date.now())).toISOString(),
+        unit: units.get(name) ?? null,
+        dimensions,
+        source,
+      });
+    }
+  }
+
+  return { rows, rejected };
+}
+
+function sanitizeMetricName(name: string): string {
+  const sanitized = name.replace(/[^a-zA-Z0-9_:]/g, '_');
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+function sanitizeLabelName(name: string): string {
+  const sanitized = name.replace(/[^a-zA-Z0-9_]/g, '_');
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+// Text exposition format 0.0.4 for the server's own statistics
+export function renderServerStats(stats: ServerStats): string {
+  const memory = process.memoryUsage();
+  const cpu = process.cpuUsage();
+
+  const families: Array<[name: string, type: 'gauge' | 'counter', help: string, value: number]> = [
+    ['monitoring_uptime_seconds', 'gauge', 'Seconds since the server started', (Date.now() - stats.uptime) / 1000],
+    ['monitoring_events_processed_total', 'counter', 'Events ingested since start', stats.eventsProcessed],
+    ['monitoring_metrics_processed_total', 'counter', 'Metrics ingested since start', stats.metricsProcessed],
+    ['monitoring_alerts_triggered_total', 'counter', 'Alerts triggered since start', stats.alertsTriggered],
+    ['monitoring_active_connections', 'gauge', 'Open WebSocket connections', stats.activeConnections],
+    ['monitoring_error_rate', 'gauge', 'Smoothed rate of error responses', stats.errorRate],
+    ['monitoring_average_response_time_ms', 'gauge', 'Smoothed average response time in milliseconds', stats.averageResponseTime],
+    ['process_resident_memory_bytes', 'gauge', 'Resident memory size in bytes', memory.rss],
+    ['nodejs_heap_size_used_bytes', 'gauge', 'V8 heap used in bytes', memory.heapUsed],
+    ['nodejs_heap_size_total_bytes', 'gauge', 'V8 heap size in bytes', memory.heapTotal],
+    ['process_cpu_user_seconds_total', 'counter', 'User CPU time spent in seconds', cpu.user / 1e6],
+    ['process_cpu_system_seconds_total', 'counter', 'System CPU time spent in seconds', cpu.system / 1e6],
+  ];
+
+  return families
+    .map(([name, type, help, value]) => `# HELP ${name} ${help}\n# TYPE ${name} ${type}\n${name} ${formatValue(value)}\n`)
+    .join('');
+}
+
+// Stored series as untyped samples carrying their original timestamps. The source
+// becomes a "source" label; dimensions become labels unless they would replace it.
+export function renderStoredSeries(series: StoredSeries[]): string {
+  const byName = new Map<string, string[]>();
+
+  for (const entry of series) {
+    const name = sanitizeMetricName(entry.name);
+    const labels: Record<string, string> = { source: entry.source };
+    for (const [key, value] of Object.entries(entry.dimensions || {})) {
+      const labelName = sanitizeLabelName(key);
+      if (labelName in labels || labelName.startsWith('__')) continue;
+      labels[labelName] = String(value);
+    }
+
+    const lines = byName.get(name) || [];
+    lines.push(`${name}${formatLabels(labels)} ${formatValue(entry.value)} ${entry.timestamp.getTime()}`);
+    byName.set(name, lines);
+  }
+
+  let output = '';
+  for (const [name, lines] of byName) {
+    output += `# TYPE ${name} untyped\n${lines.join('\n')}\n`;
+  }
+  return output;
+}
+
+export class PrometheusManager {
+  private db = getDatabase();
+
+  async ingestWriteRequest(
+    request: PrometheusWriteRequest,
+    projectId: string
+  ): Promise<{ accepted: number; rejected: number }> {
+    const { rows, rejected } = mapWriteRequest(request);
+
+    await this.db.transaction(async (client) => {
+      for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+        const chunk = rows.slice(i, i + INSERT_CHUNK_SIZE);
+        await client.query(`
+          INSERT INTO metrics (name, value, timestamp, unit, dimensions, source, project_id)
+          SELECT name, value, timestamp, unit, dimensions, source, $7
+          FROM unnest($1::text[], $2::float8[], $3::timestamptz[], $4::text[], $5::jsonb[], $6::text[])
+            AS rows(name, value, timestamp, unit, dimensions, source)
+        `, [
+          chunk.map(row => row.name),
+          chunk.map(row => row.value),
+          chunk.map(row => row.timestamp),
+          chunk.map(row => row.unit),
+          chunk.map(row => JSON.stringify(row.dimensions)),
+          chunk.map(row => row.source),
+          projectId,
+        ]);
+      }
+    });
+
+    return { accepted: rows.length, rejected };
+  }
+
+  // Latest sample of each series of the named metrics within the window
+  async getLatestSeries(
+    names: string[],
+    windowMinutes: number,
+    projectId?: string | null
+  ): Promise<StoredSeries[]> {
+    if (names.length === 0) return [];
+
+    const result = await this.db.query(`
+      SELECT DISTINCT ON (name, source, dimensions)
+        name, source, dimensions, value, timestamp
+      FROM metrics
+      WHERE name = ANY($1)
+        AND timestamp >= NOW() - make_interval(mins => $2::int)
+        AND ($3::uuid IS NULL OR project_id = $3)
+      ORDER BY name, source, dimensions, timestamp DESC
+    `, [names, windowMinutes, projectId ?? null]);
+
+    return result.rows.map((row: any) => ({
+      name: row.name,
+      source: row.source,
+      dimensions: row.dimensions || {},
+      value: parseFloat(row.value),
+      timestamp: new Date(row.timestamp),
+    }));
+  }
+}
+
+// Singleton instance
+let prometheusManager: PrometheusManager;
+
+export function getPrometheusManager(): PrometheusManager {
+  if (!prometheusManager) {
+    prometheusManager = new PrometheusManager();
+  }
+  return prometheusManager;
+}
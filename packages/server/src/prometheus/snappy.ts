@@ -0,0 +1,87 @@
+// Snappy block-format decompression, as used by Prometheus remote write (the block
+// format, not the framed stream format)
+
+// Also caps gzip-compressed OTLP bodies
+export const MAX_UNCOMPRESSED_LENGTH = 64 * 1024 * 1024;
+
+export function snappyDecompress(input: Buffer): Buffer {
+  let pos = 0;
+
+  // Preamble: uncompressed length as a varint
+  let length = 0;
+  let shift = 0;
+  for (;;) {
+    if (pos >= input.length) throw new Error('Truncated snappy preamble');
+    const byte = input[pos++]!;
+    length += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) break;
+    shift += 7;
+    if (shift > 28) throw new Error('Invalid snappy preamble');
+  }
+
+  if (length > MAX_UNCOMPRESSED_LENGTH) {
+    throw new Error(`Snappy payload too large (${length} bytes)`);
+  }
+
+  const output = Buffer.alloc(length);
+  let out = 0;
+
+  const readLE = (bytes: number): number => {
+    if (pos + bytes > input.length) throw new Error('Truncated snappy element');
+    let value = 0;
+    for (let i = 0; i < bytes; i++) {
+      value += input[pos++]! * 2 ** (8 * i);
+    }
+    return value;
+  };
+
+  while (pos < input.length) {
+    const tag = input[pos++]!;
+
+    if ((tag & 0x03) === 0) {
+      // Literal; lengths of 61+ bytes are stored in the following 1-4 bytes
+      let literalLength = tag >> 2;
+      if (literalLength >= 60) {
+        literalLength = readLE(literalLength - 59);
+      }
+      literalLength += 1;
+
+      if (pos + literalLength > input.length || out + literalLength > length) {
+        throw new Error('Invalid snappy literal');
+      }
+      input.copy(output, out, pos, pos + literalLength);
+      pos += literalLength;
+      out += literalLength;
+      continue;
+    }
+
+    let copyLength: number;
+    let offset: number;
+    switch (tag & 0x03) {
+      case 1:
+        copyLength = 4 + ((tag >> 2) & 0x07);
+        offset = ((tag >> 5) << 8) | readLE(1);
+        break;
+      case 2:
+        copyLength = 1 + (tag >> 2);
+        offset = readLE(2);
+        break;
+      default:
+        copyLength = 1 + (tag >> 2);
+        offset = readLE(4);
+        break;
+    }
+
+    if (offset === 0 || offset > out || out + copyLength > length) {
+      throw new Error('Invalid snappy copy');
+    }
+
+    // Copies may overlap their own output, so go byte by byte
+    for (let i = 0; i < copyLength; i++, out++) {
+      output[out] = output[out - offset]!;
+    }
+  }
+
+  if (out !== length) throw new Error('Snappy payload shorter than its declared length');
+  return output;
+}
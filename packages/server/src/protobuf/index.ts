@@ -0,0 +1,163 @@
+// Minimal protobuf wire-format codec. Messages are described by field specs and decoded
+// into plain objects; fields missing from a spec are skipped. 64-bit integers decode to
+// strings and bytes to hex or base64 depending on the spec.
+
+export const WIRE_VARINT = 0;
+export const WIRE_FIXED64 = 1;
+export const WIRE_LENGTH_DELIMITED = 2;
+export const WIRE_FIXED32 = 5;
+
+export type ScalarType =
+  | 'string'
+  | 'bool'
+  | 'enum'
+  | 'int64'
+  | 'sint32'
+  | 'fixed64'
+  | 'sfixed64'
+  | 'fixed32'
+  | 'double'
+  | 'hex'
+  | 'base64';
+
+export interface MessageSpec {
+  [field: number]: [name: string, type: ScalarType | MessageSpec, repeated?: boolean];
+}
+
+class ProtobufReader {
+  private pos: number;
+
+  constructor(private buf: Buffer, start = 0, private end = buf.length) {
+    this.pos = start;
+  }
+
+  eof(): boolean {
+    return this.pos >= this.end;
+  }
+
+  varint(): bigint {
+    let result = 0n;
+    let shift = 0n;
+    for (;;) {
+      if (this.pos >= this.end) throw new Error('Truncated varint');
+      const byte = this.buf[this.pos++]!;
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += 7n;
+      if (shift > 63n) throw new Error('Varint too long');
+    }
+  }
+
+  fixed64(): Buffer {
+    return this.take(8);
+  }
+
+  fixed32(): Buffer {
+    return this.take(4);
+  }
+
+  lengthDelimited(): Buffer {
+    const length = Number(this.varint());
+    return this.take(length);
+  }
+
+  skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.varint();
+        break;
+      case WIRE_FIXED64:
+        this.take(8);
+        break;
+      case WIRE_LENGTH_DELIMITED:
+        this.lengthDelimited();
+        break;
+      case WIRE_FIXED32:
+        this.take(4);
+        break;
+      default:
+        throw new Error(`Unsupported wire type ${wireType}`);
+    }
+  }
+
+  private take(length: number): Buffer {
+    if (length < 0 || this.pos + length > this.end) throw new Error('Truncated message');
+    const slice = this.buf.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return slice;
+  }
+}
+
+function decodeScalar(reader: ProtobufReader, wireType: number, type: ScalarType): unknown {
+  switch (type) {
+    case 'string':
+      return reader.lengthDelimited().toString('utf8');
+    case 'hex':
+      return reader.lengthDelimited().toString('hex');
+    case 'base64':
+      return reader.lengthDelimited().toString('base64');
+    case 'bool':
+      return reader.varint() !== 0n;
+    case 'enum':
+      return Number(BigInt.asIntN(32, reader.varint()));
+    case 'int64':
+      return BigInt.asIntN(64, reader.varint()).toString();
+    case 'sint32': {
+      const value = Number(reader.varint());
+      return (value >>> 1) ^ -(value & 1);
+    }
+    case 'fixed64':
+      return reader.fixed64().readBigUInt64LE().toString();
+    case 'sfixed64':
+      return reader.fixed64().readBigInt64LE().toString();
+    case 'fixed32':
+      return reader.fixed32().readUInt32LE();
+    case 'double':
+      return wireType === WIRE_FIXED64 ? reader.fixed64().readDoubleLE() : 0;
+  }
+}
+
+export function decodeMessage(buf: Buffer, spec: MessageSpec): Record<string, any> {
+  const reader = new ProtobufReader(buf);
+  const message: Record<string, any> = {};
+
+  while (!reader.eof()) {
+    const tag = Number(reader.varint());
+    const field = tag >>> 3;
+    const wireType = tag & 0x07;
+    const entry = spec[field];
+
+    if (!entry) {
+      reader.skip(wireType);
+      continue;
+    }
+
+    const [name, type, repeated] = entry;
+    const value = typeof type === 'object'
+      ? decodeMessage(reader.lengthDelimited(), type)
+      : decodeScalar(reader, wireType, type);
+
+    if (repeated) {
+      (message[name] ||= []).push(value);
+    } else {
+      message[name] = value;
+    }
+  }
+
+  return message;
+}
+
+export function encodeVarint(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining > 0x7f) {
+    bytes.push((remaining & 0x7f) | 0x80);
+    remaining = Math.floor(remaining / 128);
+  }
+  bytes.push(remaining);
+  return Buffer.from(bytes);
+}
+
+export function encodeLengthDelimited(field: number, payload: Buffer): Buffer {
+  return Buffer.concat([encodeVarint((field << 3) | WIRE_LENGTH_DELIMITED), encodeVarint(payload.length), payload]);
+}
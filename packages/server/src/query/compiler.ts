@@ -0,0 +1,405 @@
+import {
+  Aggregation,
+  ComparisonOperator,
+  FilterExpression,
+  GroupKey,
+  Literal,
+  QueryAst,
+  QueryError,
+  QuerySource,
+} from './parser';
+
+// Compiles a parsed query into parameterized SQL. Only column names from the catalog
+// below and validated aliases are ever interpolated; every value, JSON path and bucket
+// size is passed as a parameter.
+
+type FieldType = 'text' | 'number' | 'timestamp' | 'array' | 'json';
+
+interface SourceCatalog {
+  table: string;
+  // Query field name -> column and type
+  fields: Record<string, { column: string; type: FieldType }>;
+  // JSON column addressed as <prefix>.<path>
+  json: { prefix: string; column: string };
+  // Columns returned by queries without an aggregation stage, as output name -> column
+  rawColumns: Record<string, string>;
+}
+
+const CATALOG: Record<QuerySource, SourceCatalog> = {
+  events: {
+    table: 'events',
+    fields: {
+      timestamp: { column: 'timestamp', type: 'timestamp' },
+      type: { column: 'type', type: 'text' },
+      level: { column: 'level', type: 'text' },
+      source: { column: 'source', type: 'text' },
+      message: { column: 'message', type: 'text' },
+      userId: { column: 'user_id', type: 'text' },
+      sessionId: { column: 'session_id', type: 'text' },
+      requestId: { column: 'request_id', type: 'text' },
+      url: { column: 'url', type: 'text' },
+      release: { column: 'release', type: 'text' },
+      tags: { column: 'tags', type: 'array' },
+    },
+    json: { prefix: 'metadata', column: 'metadata' },
+    rawColumns: {
+      id: 'id',
+      timestamp: 'timestamp',
+      type: 'type',
+      level: 'level',
+      source: 'source',
+      message: 'message',
+      metadata: 'metadata',
+      tags: 'tags',
+      userId: 'user_id',
+      requestId: 'request_id',
+      release: 'release',
+    },
+  },
+  metrics: {
+    table: 'metrics',
+    fields: {
+      timestamp: { column: 'timestamp', type: 'timestamp' },
+      name: { column: 'name', type: 'text' },
+      value: { column: 'value', type: 'number' },
+      unit: { column: 'unit', type: 'text' },
+      source: { column: 'source', type: 'text' },
+    },
+    json: { prefix: 'dimensions', column: 'dimensions' },
+    rawColumns: {
+      id: 'id',
+      timestamp: 'timestamp',
+      name: 'name',
+      value: 'value',
+      unit: 'unit',
+      source: 'source',
+      dimensions: 'dimensions',
+    },
+  },
+};
+
+export const DEFAULT_RAW_LIMIT = 100;
+export const DEFAULT_AGGREGATE_LIMIT = 1000;
+export const MAX_QUERY_ROWS = 10000;
+
+export interface CompileOptions {
+  projectId: string | null;
+  startTime: string;
+  endTime: string;
+}
+
+export interface CompiledQuery {
+  sql: string;
+  params: unknown[];
+  columns: string[];
+  // Output columns holding aggregate values, which pg may return as strings
+  numericColumns: string[];
+}
+
+interface ResolvedField {
+  type: FieldType;
+  // Expression for comparisons, grouping and output
+  sql: string;
+  // Numeric view of a JSON value (null unless the value is a JSON number)
+  numericSql?: string;
+  // The raw jsonb value, for existence checks
+  jsonSql?: string;
+}
+
+const COMPARISON_SQL: Record<ComparisonOperator, string> = {
+  '=': '=',
+  '!=': 'IS DISTINCT FROM',
+  '>': '>',
+  '>=': '>=',
+  '<': '<',
+  '<=': '<=',
+};
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+class QueryCompiler {
+  private params: unknown[] = [];
+  private catalog: SourceCatalog;
+
+  constructor(private ast: QueryAst) {
+    this.catalog = CATALOG[ast.source];
+  }
+
+  compile(options: CompileOptions): CompiledQuery {
+    const conditions = [
+      `(${this.param(options.projectId)}::uuid IS NULL OR project_id = ${this.lastParam()})`,
+      `timestamp >= ${this.param(options.startTime)}::timestamptz`,
+      `timestamp <= ${this.param(options.endTime)}::timestamptz`,
+    ];
+    if (this.ast.filter) {
+      conditions.push(this.compileFilter(this.ast.filter));
+    }
+    const where = conditions.join('\n        AND ');
+
+    return this.ast.aggregations.length > 0
+      ? this.compileAggregate(where)
+      : this.compileRaw(where);
+  }
+
+  private compileRaw(where: string): CompiledQuery {
+    const columns = Object.keys(this.catalog.rawColumns);
+    const select = Object.entries(this.catalog.rawColumns)
+      .map(([name, column]) => `${column} AS ${quoteIdentifier(name)}`)
+      .join(', ');
+
+    let orderBy = 'timestamp DESC';
+    if (this.ast.sort) {
+      orderBy = `${this.resolveField(this.ast.sort.key).sql} ${this.ast.sort.direction.toUpperCase()}`;
+    }
+
+    return {
+      sql: `SELECT ${select}
+      FROM ${this.catalog.table}
+      WHERE ${where}
+      ORDER BY ${orderBy}
+      LIMIT ${this.param(Math.min(this.ast.limit ?? DEFAULT_RAW_LIMIT, MAX_QUERY_ROWS))}`,
+      params: this.params,
+      columns,
+      numericColumns: [],
+    };
+  }
+
+  private compileAggregate(where: string): CompiledQuery {
+    const selects: string[] = [];
+    const columns: string[] = [];
+
+    const addColumn = (name: string, sql: string) => {
+      if (columns.includes(name)) {
+        throw new QueryError(`Duplicate output column '${name}'; use 'as' to rename it`);
+      }
+      columns.push(name);
+      selects.push(`${sql} AS ${quoteIdentifier(name)}`);
+    };
+
+    for (const key of this.ast.groupBy) {
+      addColumn(key.kind === 'bucket' ? 'bucket' : key.field, this.compileGroupKey(key));
+    }
+    const groupCount = columns.length;
+
+    for (const aggregation of this.ast.aggregations) {
+      addColumn(aggregation.alias, this.compileAggregation(aggregation));
+    }
+
+    let orderBy: string;
+    if (this.ast.sort) {
+      if (!columns.includes(this.ast.sort.key)) {
+        throw new QueryError(`Cannot sort by '${this.ast.sort.key}'; sort by a group or aggregation column`);
+      }
+      orderBy = `${quoteIdentifier(this.ast.sort.key)} ${this.ast.sort.direction.toUpperCase()}`;
+    } else if (this.ast.groupBy.some(key => key.kind === 'bucket')) {
+      orderBy = '"bucket" ASC';
+    } else {
+      orderBy = `${quoteIdentifier(this.ast.aggregations[0]!.alias)} DESC`;
+    }
+
+    const groupBy = groupCount > 0
+      ? `\n      GROUP BY ${Array.from({ length: groupCount }, (_, i) => i + 1).join(', ')}`
+      : '';
+
+    return {
+      sql: `SELECT ${selects.join(', ')}
+      FROM ${this.catalog.table}
+      WHERE ${where}${groupBy}
+      ORDER BY ${orderBy}
+      LIMIT ${this.param(Math.min(this.ast.limit ?? DEFAULT_AGGREGATE_LIMIT, MAX_QUERY_ROWS))}`,
+      params: this.params,
+      columns,
+      numericColumns: this.ast.aggregations.map(aggregation => aggregation.alias),
+    };
+  }
+
+  private compileGroupKey(key: GroupKey): string {
+    if (key.kind === 'bucket') {
+      const seconds = this.param(key.seconds);
+      return `to_timestamp(floor(extract(epoch FROM timestamp) / ${seconds}::int) * ${seconds}::int)`;
+    }
+
+    const field = this.resolveField(key.field);
+    if (field.type === 'array') {
+      throw new QueryError(`Cannot group by '${key.field}'`);
+    }
+    return field.sql;
+  }
+
+  private compileAggregation(aggregation: Aggregation): string {
+    if (aggregation.fn === 'count' && !aggregation.field) {
+      return 'COUNT(*)';
+    }
+
+    const field = this.resolveField(aggregation.field!);
+    switch (aggregation.fn) {
+      case 'count':
+        return `COUNT(${field.sql})`;
+      case 'count_distinct':
+        return `COUNT(DISTINCT ${field.sql})`;
+      case 'min':
+      case 'max':
+        if (field.type === 'timestamp') return `${aggregation.fn.toUpperCase()}(${field.sql})`;
+        return `${aggregation.fn.toUpperCase()}(${this.numeric(field, aggregation)})`;
+      case 'sum':
+      case 'avg':
+        return `${aggregation.fn.toUpperCase()}(${this.numeric(field, aggregation)})`;
+      case 'percentile':
+        return `percentile_cont(${this.param(aggregation.percentile! / 100)}::float8) WITHIN GROUP (ORDER BY ${this.numeric(field, aggregation)})`;
+    }
+  }
+
+  private numeric(field: ResolvedField, aggregation: Aggregation): string {
+    if (field.type === 'number') return field.sql;
+    if (field.numericSql) return field.numericSql;
+    throw new QueryError(`${aggregation.fn}() needs a numeric field, '${aggregation.field}' is not`);
+  }
+
+  // Every predicate is two-valued (NULL counts as false) so `not` behaves as expected
+  private compileFilter(expression: FilterExpression): string {
+    switch (expression.kind) {
+      case 'and':
+      case 'or':
+        return `(${this.compileFilter(expression.left)} ${expression.kind.toUpperCase()} ${this.compileFilter(expression.right)})`;
+      case 'not':
+        return `NOT ${this.compileFilter(expression.operand)}`;
+      case 'compare':
+        return `COALESCE(${this.compileComparison(expression.field, expression.operator, expression.value)}, false)`;
+      case 'in':
+        return this.negate(this.compileIn(expression.field, expression.values), expression.negated);
+      case 'contains':
+        return this.negate(this.compileContains(expression.field, expression.value), expression.negated);
+      case 'exists':
+        return this.negate(this.compileExists(expression.field), expression.negated);
+    }
+  }
+
+  private negate(predicate: string, negated: boolean): string {
+    const twoValued = `COALESCE(${predicate}, false)`;
+    return negated ? `NOT ${twoValued}` : twoValued;
+  }
+
+  private compileComparison(name: string, operator: ComparisonOperator, value: Literal): string {
+    const field = this.resolveField(name);
+    const sqlOperator = COMPARISON_SQL[operator];
+    const isEquality = operator === '=' || operator === '!=';
+
+    if (value === null) {
+      if (!isEquality) throw new QueryError(`Cannot compare '${name}' with null using ${operator}`);
+      return `${field.sql} ${operator === '=' ? 'IS NULL' : 'IS NOT NULL'}`;
+    }
+
+    switch (field.type) {
+      case 'array':
+        if (!isEquality) throw new QueryError(`Operator ${operator} is not supported for '${name}'`);
+        return `${operator === '=' ? '' : 'NOT '}(${this.param(String(value))} = ANY(${field.sql}))`;
+
+      case 'number':
+        if (typeof value !== 'number') throw new QueryError(`'${name}' must be compared with a number`);
+        return `${field.sql} ${sqlOperator} ${this.param(value)}::float8`;
+
+      case 'timestamp':
+        if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+          throw new QueryError(`'${name}' must be compared with an ISO 8601 timestamp`);
+        }
+        return `${field.sql} ${sqlOperator} ${this.param(value)}::timestamptz`;
+
+      case 'json':
+        if (typeof value === 'number') {
+          return `${field.numericSql} ${sqlOperator} ${this.param(value)}::float8`;
+        }
+        if (typeof value === 'boolean') {
+          if (!isEquality) throw new QueryError(`Cannot order '${name}' by a boolean`);
+          return `${field.jsonSql} ${sqlOperator} ${this.param(JSON.stringify(value))}::jsonb`;
+        }
+        return `${field.sql} ${sqlOperator} ${this.param(value)}`;
+
+      case 'text':
+        return `${field.sql} ${sqlOperator} ${this.param(String(value))}`;
+    }
+  }
+
+  private compileIn(name: string, values: Literal[]): string {
+    const field = this.resolveField(name);
+
+    if (values.some(value => value === null || typeof value === 'boolean')) {
+      throw new QueryError(`'in' only accepts strings and numbers`);
+    }
+
+    switch (field.type) {
+      case 'array':
+        return `${field.sql} && ${this.param(values.map(String))}::text[]`;
+      case 'number':
+        if (values.some(value => typeof value !== 'number')) {
+          throw new QueryError(`'${name}' must be compared with numbers`);
+        }
+        return `${field.sql} = ANY(${this.param(values)}::float8[])`;
+      case 'timestamp':
+        throw new QueryError(`'in' is not supported for '${name}'`);
+      default:
+        return `${field.sql} = ANY(${this.param(values.map(String))}::text[])`;
+    }
+  }
+
+  private compileContains(name: string, value: string): string {
+    const field = this.resolveField(name);
+    const pattern = this.param(`%${escapeLike(value)}%`);
+
+    switch (field.type) {
+      case 'array':
+        return `EXISTS (SELECT 1 FROM unnest(${field.sql}) AS element WHERE element ILIKE ${pattern})`;
+      case 'text':
+      case 'json':
+        return `${field.sql} ILIKE ${pattern}`;
+      default:
+        throw new QueryError(`'contains' is not supported for '${name}'`);
+    }
+  }
+
+  private compileExists(name: string): string {
+    const field = this.resolveField(name);
+    if (field.type === 'array') return `cardinality(${field.sql}) > 0`;
+    return `${field.jsonSql ?? field.sql} IS NOT NULL`;
+  }
+
+  private resolveField(name: string): ResolvedField {
+    const known = this.catalog.fields[name];
+    if (known) {
+      return { type: known.type, sql: known.column };
+    }
+
+    const [prefix, ...path] = name.split('.');
+    if (prefix === this.catalog.json.prefix && path.length > 0) {
+      const column = this.catalog.json.column;
+      const pathParam = `${this.param(path)}::text[]`;
+      return {
+        type: 'json',
+        sql: `(${column} #>> ${pathParam})`,
+        jsonSql: `(${column} #> ${pathParam})`,
+        numericSql: `(CASE WHEN jsonb_typeof(${column} #> ${pathParam}) = 'number' THEN (${column} #>> ${pathParam})::float8 END)`,
+      };
+    }
+
+    const available = [...Object.keys(this.catalog.fields), `${this.catalog.json.prefix}.<path>`];
+    throw new QueryError(`Unknown field '${name}' for ${this.ast.source}; available: ${available.join(', ')}`);
+  }
+
+  private param(value: unknown): string {
+    this.params.push(value);
+    return `$${this.params.length}`;
+  }
+
+  private lastParam(): string {
+    return `$${this.params.length}`;
+  }
+}
+
+export function compileQuery(ast: QueryAst, options: CompileOptions): CompiledQuery {
+  return new QueryCompiler(ast).compile(options);
+}
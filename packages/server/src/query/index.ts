@@ -0,0 +1,67 @@
+import { getDatabase } from '../database';
+import { compileQuery, CompileOptions } from './compiler';
+import { QueryAst } from './parser';
+
+export { parseQuery, QueryError } from './parser';
+export type { QueryAst, QuerySource } from './parser';
+export { MAX_QUERY_ROWS } from './compiler';
+
+export interface QueryResult {
+  source: QueryAst['source'];
+  aggregated: boolean;
+  columns: string[];
+  rows: Array<Record<string, unknown>>;
+  executionTimeMs: number;
+}
+
+// Ad-hoc queries run with a statement timeout so a broad query cannot hold a connection
+const STATEMENT_TIMEOUT_MS = 10000;
+
+export class QueryEngine {
+  private db = getDatabase();
+
+  async execute(ast: QueryAst, options: CompileOptions): Promise<QueryResult> {
+    const compiled = compileQuery(ast, options);
+    const started = Date.now();
+
+    const result = await this.db.transaction(async (client) => {
+      await client.query(`SET LOCAL statement_timeout = ${STATEMENT_TIMEOUT_MS}`);
+      return client.query(compiled.sql, compiled.params);
+    });
+
+    const numericColumns = new Set(compiled.numericColumns);
+    const rows = result.rows.map((row: Record<string, unknown>) => {
+      const output: Record<string, unknown> = {};
+      for (const column of compiled.columns) {
+        const value = row[column];
+        if (value instanceof Date) {
+          output[column] = value.toISOString();
+        } else if (numericColumns.has(column) && typeof value === 'string') {
+          // COUNT returns bigint, which pg hands back as a string
+          output[column] = Number(value);
+        } else {
+          output[column] = value;
+        }
+      }
+      return output;
+    });
+
+    return {
+      source: ast.source,
+      aggregated: ast.aggregations.length > 0,
+      columns: compiled.columns,
+      rows,
+      executionTimeMs: Date.now() - started,
+    };
+  }
+}
+
+// Singleton instance
+let queryEngine: QueryEngine;
+
+export function getQueryEngine(): QueryEngine {
+  if (!queryEngine) {
+    queryEngine = new QueryEngine();
+  }
+  return queryEngine;
+}
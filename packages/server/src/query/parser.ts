@@ -0,0 +1,399 @@
+// Parser for the ad-hoc query language:
+//
+//   events where level in (high, critical) and metadata.route = "/checkout"
+//     | count(), p95(metadata.duration) by source, bucket(5m)
+//     | sort count desc
+//     | limit 20
+//
+// The parser only builds an AST; turning it into SQL (and checking field names against
+// the table being queried) is the compiler's job.
+
+export type QuerySource = 'events' | 'metrics';
+export type Literal = string | number | boolean | null;
+export type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export type FilterExpression =
+  | { kind: 'and' | 'or'; left: FilterExpression; right: FilterExpression }
+  | { kind: 'not'; operand: FilterExpression }
+  | { kind: 'compare'; field: string; operator: ComparisonOperator; value: Literal }
+  | { kind: 'in'; field: string; values: Literal[]; negated: boolean }
+  | { kind: 'contains'; field: string; value: string; negated: boolean }
+  | { kind: 'exists'; field: string; negated: boolean };
+
+export type AggregateFunction = 'count' | 'count_distinct' | 'sum' | 'avg' | 'min' | 'max' | 'percentile';
+
+export interface Aggregation {
+  fn: AggregateFunction;
+  field?: string;
+  percentile?: number;
+  alias: string;
+}
+
+export type GroupKey =
+  | { kind: 'field'; field: string }
+  | { kind: 'bucket'; seconds: number };
+
+export interface QueryAst {
+  source: QuerySource;
+  filter?: FilterExpression;
+  aggregations: Aggregation[];
+  groupBy: GroupKey[];
+  sort?: { key: string; direction: 'asc' | 'desc' };
+  limit?: number;
+}
+
+// Raised for queries that do not parse or do not compile against the queried table;
+// the message is safe to return to the client
+export class QueryError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(position === undefined ? message : `${message} at position ${position}`);
+    this.name = 'QueryError';
+  }
+}
+
+type TokenType = 'ident' | 'string' | 'number' | 'duration' | 'punct' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const MAX_QUERY_LENGTH = 4000;
+const PUNCTUATION = ['!=', '>=', '<=', '=', '>', '<', '(', ')', ',', '|'];
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+const PERCENTILE_FUNCTION = /^p(\d{1,2}(?:\.\d+)?)$/;
+
+function tokenize(input: string): Token[] {
+  if (input.length > MAX_QUERY_LENGTH) {
+    throw new QueryError(`Query exceeds ${MAX_QUERY_LENGTH} characters`, MAX_QUERY_LENGTH);
+  }
+
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < input.length) {
+    const char = input[pos]!;
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    // Quoted strings, with backslash escapes for the quote character and backslash
+    if (char === '"' || char === "'") {
+      const start = pos++;
+      let value = '';
+      while (pos < input.length && input[pos] !== char) {
+        if (input[pos] === '\\' && pos + 1 < input.length) pos++;
+        value += input[pos++];
+      }
+      if (pos >= input.length) throw new QueryError('Unterminated string', start);
+      pos++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    // Numbers, or durations such as 5m when directly followed by a unit
+    const number = /^-?\d+(\.\d+)?/.exec(input.slice(pos));
+    if (number) {
+      const start = pos;
+      pos += number[0].length;
+      const unit = input[pos];
+      if (unit && unit in DURATION_UNITS && !/[A-Za-z0-9_]/.test(input[pos + 1] ?? '')) {
+        pos++;
+        tokens.push({ type: 'duration', value: number[0] + unit, position: start });
+      } else {
+        tokens.push({ type: 'number', value: number[0], position: start });
+      }
+      continue;
+    }
+
+    // Identifiers, including dotted JSON paths such as metadata.http.route
+    const ident = /^[A-Za-z_][A-Za-z0-9_-]*(\.[A-Za-z0-9_-]+)*/.exec(input.slice(pos));
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0], position: pos });
+      pos += ident[0].length;
+      continue;
+    }
+
+    const punct = PUNCTUATION.find(p => input.startsWith(p, pos));
+    if (punct) {
+      tokens.push({ type: 'punct', value: punct, position: pos });
+      pos += punct.length;
+      continue;
+    }
+
+    throw new QueryError(`Unexpected character '${char}'`, pos);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: input.length });
+  return tokens;
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): QueryAst {
+    const sourceToken = this.expect('ident');
+    const source = sourceToken.value.toLowerCase();
+    if (source !== 'events' && source !== 'metrics') {
+      throw new QueryError(`Unknown source '${sourceToken.value}', expected events or metrics`, sourceToken.position);
+    }
+
+    const ast: QueryAst = { source, aggregations: [], groupBy: [] };
+
+    if (this.acceptKeyword('where')) {
+      ast.filter = this.parseOr();
+    }
+
+    while (this.acceptPunct('|')) {
+      if (this.acceptKeyword('sort')) {
+        if (ast.sort) throw this.error('Duplicate sort stage');
+        const key = this.expect('ident').value;
+        let direction: 'asc' | 'desc' = 'desc';
+        if (this.acceptKeyword('asc')) {
+          direction = 'asc';
+        } else {
+          this.acceptKeyword('desc');
+        }
+        ast.sort = { key, direction };
+      } else if (this.acceptKeyword('limit')) {
+        if (ast.limit !== undefined) throw this.error('Duplicate limit stage');
+        const token = this.expect('number');
+        const limit = Number(token.value);
+        if (!Number.isInteger(limit) || limit < 1) {
+          throw new QueryError('Limit must be a positive integer', token.position);
+        }
+        ast.limit = limit;
+      } else {
+        if (ast.aggregations.length > 0) throw this.error('Only one aggregation stage is allowed');
+        this.parseAggregationStage(ast);
+      }
+    }
+
+    if (this.peek().type !== 'eof') {
+      throw this.error(`Unexpected '${this.peek().value}'`);
+    }
+
+    return ast;
+  }
+
+  private parseAggregationStage(ast: QueryAst): void {
+    do {
+      ast.aggregations.push(this.parseAggregation());
+    } while (this.acceptPunct(','));
+
+    if (this.acceptKeyword('by')) {
+      do {
+        ast.groupBy.push(this.parseGroupKey());
+      } while (this.acceptPunct(','));
+    }
+  }
+
+  private parseAggregation(): Aggregation {
+    const nameToken = this.expect('ident');
+    const name = nameToken.value.toLowerCase();
+    this.expectPunct('(');
+
+    let aggregation: Omit<Aggregation, 'alias'>;
+    const percentile = PERCENTILE_FUNCTION.exec(name);
+
+    if (name === 'count' && this.peekPunct(')')) {
+      aggregation = { fn: 'count' };
+    } else if (percentile) {
+      aggregation = { fn: 'percentile', field: this.expect('ident').value, percentile: Number(percentile[1]) };
+    } else if (name === 'percentile') {
+      const field = this.expect('ident').value;
+      this.expectPunct(',');
+      const token = this.expect('number');
+      aggregation = { fn: 'percentile', field, percentile: Number(token.value) };
+    } else if (['count', 'count_distinct', 'sum', 'avg', 'min', 'max'].includes(name)) {
+      aggregation = { fn: name as AggregateFunction, field: this.expect('ident').value };
+    } else {
+      throw new QueryError(`Unknown aggregation '${nameToken.value}'`, nameToken.position);
+    }
+
+    if (aggregation.percentile !== undefined && (aggregation.percentile <= 0 || aggregation.percentile >= 100)) {
+      throw new QueryError('Percentile must be between 0 and 100', nameToken.position);
+    }
+
+    this.expectPunct(')');
+
+    const alias = this.acceptKeyword('as')
+      ? this.expect('ident').value
+      : defaultAlias(aggregation);
+    if (alias.includes('.')) {
+      throw this.error(`Invalid alias '${alias}'`);
+    }
+
+    return { ...aggregation, alias };
+  }
+
+  private parseGroupKey(): GroupKey {
+    const token = this.expect('ident');
+    if (token.value.toLowerCase() === 'bucket' && this.acceptPunct('(')) {
+      const duration = this.expect('duration');
+      this.expectPunct(')');
+      const amount = Number(duration.value.slice(0, -1));
+      const seconds = amount * DURATION_UNITS[duration.value.slice(-1)]!;
+      if (!Number.isInteger(seconds) || seconds < 1) {
+        throw new QueryError('Bucket size must be at least 1s', duration.position);
+      }
+      return { kind: 'bucket', seconds };
+    }
+    return { kind: 'field', field: token.value };
+  }
+
+  private parseOr(): FilterExpression {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('or')) {
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterExpression {
+    let left = this.parseNot();
+    while (this.acceptKeyword('and')) {
+      left = { kind: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): FilterExpression {
+    if (this.acceptKeyword('not')) {
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    if (this.acceptPunct('(')) {
+      const expression = this.parseOr();
+      this.expectPunct(')');
+      return expression;
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): FilterExpression {
+    const field = this.expect('ident').value;
+    const negated = this.acceptKeyword('not');
+
+    if (this.acceptKeyword('in')) {
+      this.expectPunct('(');
+      const values: Literal[] = [];
+      do {
+        values.push(this.parseLiteral());
+      } while (this.acceptPunct(','));
+      this.expectPunct(')');
+      return { kind: 'in', field, values, negated };
+    }
+
+    if (this.acceptKeyword('contains')) {
+      const value = this.parseLiteral();
+      if (value === null || typeof value === 'boolean') {
+        throw this.error('contains expects a string');
+      }
+      return { kind: 'contains', field, value: String(value), negated };
+    }
+
+    if (this.acceptKeyword('exists')) {
+      return { kind: 'exists', field, negated };
+    }
+
+    if (negated) {
+      throw this.error("Expected 'in', 'contains' or 'exists' after 'not'");
+    }
+
+    const operator = this.peek();
+    if (operator.type !== 'punct' || !['=', '!=', '>', '>=', '<', '<='].includes(operator.value)) {
+      throw this.error(`Expected a comparison after '${field}'`);
+    }
+    this.pos++;
+
+    return { kind: 'compare', field, operator: operator.value as ComparisonOperator, value: this.parseLiteral() };
+  }
+
+  // Bare identifiers are string values, so `level = high` works without quotes
+  private parseLiteral(): Literal {
+    const token = this.peek();
+    switch (token.type) {
+      case 'string':
+        this.pos++;
+        return token.value;
+      case 'number':
+        this.pos++;
+        return Number(token.value);
+      case 'duration':
+        this.pos++;
+        return token.value;
+      case 'ident': {
+        this.pos++;
+        const lower = token.value.toLowerCase();
+        if (lower === 'true') return true;
+        if (lower === 'false') return false;
+        if (lower === 'null') return null;
+        return token.value;
+      }
+      default:
+        throw this.error('Expected a value');
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos]!;
+  }
+
+  private peekPunct(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punct' && token.value === value;
+  }
+
+  private acceptPunct(value: string): boolean {
+    if (!this.peekPunct(value)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type !== 'ident' || token.value.toLowerCase() !== keyword) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expect(type: TokenType): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw this.error(`Expected ${type === 'ident' ? 'a name' : `a ${type}`}`);
+    }
+    this.pos++;
+    return token;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.acceptPunct(value)) {
+      throw this.error(`Expected '${value}'`);
+    }
+  }
+
+  private error(message: string): QueryError {
+    return new QueryError(message, this.peek().position);
+  }
+}
+
+function defaultAlias(aggregation: Omit<Aggregation, 'alias'>): string {
+  const field = aggregation.field?.replace(/[.-]/g, '_');
+  switch (aggregation.fn) {
+    case 'count':
+      return field ? `count_${field}` : 'count';
+    case 'percentile':
+      return `p${String(aggregation.percentile).replace('.', '_')}_${field}`;
+    default:
+      return `${aggregation.fn}_${field}`;
+  }
+}
+
+export function parseQuery(input: string): QueryAst {
+  return new Parser(tokenize(input)).parse();
+}
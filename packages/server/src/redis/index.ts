@@ -140,6 +140,9 @@ class MockRedisManager {
 }
 
 
+const WS_CONNECTIONS_KEY = 'ws:connections';
+const WS_CONNECTION_METADATA_KEY = 'ws:connection-metadata';
+
 export class RedisManager {
   private client: Redis;
   private subscriber: Redis;
@@ -483,6 +486,13 @@ export class RedisManager {
     return { allowed, remaining, resetTime };
   }
 
+  // Distributed locking (SET NX with expiry) for work that must run on one node at a time
+  async acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    const token = `${process.pid}:${Date.now()}:${Math.random().toString(36).substring(2, 11)}`;
+    const result = await this.client.set(`lock:${key}`, token, 'PX', ttlMs, 'NX');
+    return result === 'OK' ? token : null;
+  }
+
   // Session support
   async getSession(sessionId: string): Promise<any> {
     return this.getJSON(`session:${sessionId}`);
@@ -496,18 +506,69 @@ export class RedisManager {
     return this.del(`session:${sessionId}`);
   }
 
-  // WebSocket connection tracking
-  async addWebSocketConnection(connectionId: string, metadata: any): Promise<'OK'> {
-    return this.setJSON(`ws:${connectionId}`, metadata);
+  // WebSocket connection tracking. Connections live in a sorted set scored by when their
+  // node last saw them, so connections of a node that died age out instead of counting
+  // against the cluster-wide limit forever. Metadata (including the owning node) is kept
+  // in a hash next to it.
+  async registerWebSocketConnection(
+    connectionId: string,
+    metadata: Record<string, unknown>,
+    maxConnections: number,
+    staleBefore: number
+  ): Promise<boolean> {
+    const admitted = await this.client.eval(
+      `
+      local stale = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[2])
+      for _, id in ipairs(stale) do
+        redis.call('HDEL', KEYS[2], id)
+      end
+      redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[2])
+      if redis.call('ZCARD', KEYS[1]) >= tonumber(ARGV[3]) then
+        return 0
+      end
+      redis.call('ZADD', KEYS[1], ARGV[1], ARGV[4])
+      redis.call('HSET', KEYS[2], ARGV[4], ARGV[5])
+      return 1
+      `,
+      2,
+      WS_CONNECTIONS_KEY,
+      WS_CONNECTION_METADATA_KEY,
+      Date.now(),
+      staleBefore,
+      maxConnections,
+      connectionId,
+      JSON.stringify(metadata)
+    );
+    return admitted === 1;
+  }
+
+  // Mark connections as still alive (only updates connections that are registered)
+  async touchWebSocketConnections(connectionIds: string[]): Promise<void> {
+    if (connectionIds.length === 0) return;
+    const now = Date.now();
+    const args = connectionIds.flatMap(id => [now, id]);
+    await this.client.zadd(WS_CONNECTIONS_KEY, 'XX', ...args);
   }
 
   async removeWebSocketConnection(connectionId: string): Promise<number> {
-    return this.del(`ws:${connectionId}`);
+    const results = await this.client.multi()
+      .zrem(WS_CONNECTIONS_KEY, connectionId)
+      .hdel(WS_CONNECTION_METADATA_KEY, connectionId)
+      .exec();
+    return (results?.[0]?.[1] as number) ?? 0;
+  }
+
+  async getWebSocketConnection(connectionId: string): Promise<Record<string, any> | null> {
+    const value = await this.client.hget(WS_CONNECTION_METADATA_KEY, connectionId);
+    return value ? JSON.parse(value) : null;
+  }
+
+  async getWebSocketConnections(staleBefore: number = 0): Promise<string[]> {
+    return this.client.zrangebyscore(WS_CONNECTIONS_KEY, `(${staleBefore}`, '+inf');
   }
 
-  async getWebSocketConnections(): Promise<string[]> {
-    const keys = await this.client.keys('ws:*');
-    return keys.map(key => key.replace('ws:', ''));
+  async countWebSocketConnections(staleBefore: number = 0): Promise<number> {
+    return this.client.zcount(WS_CONNECTIONS_KEY, `(${staleBefore}`, '+inf');
   }
 
   // Metrics aggregation support
@@ -0,0 +1,516 @@
+import { createHash } from 'crypto';
+import { getDatabase } from '../database';
+import { parseStackLine, StackFrame } from '../sourcemaps';
+import { Event } from '../types';
+
+export interface ReleaseCommit {
+  hash: string;
+  message?: string;
+  author?: string;
+}
+
+export interface Release {
+  id: string;
+  projectId: string;
+  version: string;
+  commitSha: string | null;
+  commits: ReleaseCommit[];
+  createdAt: string;
+  firstDeployedAt: string | null;
+  lastDeployedAt: string | null;
+  environments: string[];
+}
+
+export interface Deploy {
+  id: string;
+  releaseId: string;
+  version: string;
+  environment: string;
+  url: string | null;
+  deployedAt: string;
+}
+
+// Distinct error, identified by a fingerprint of its type, source, message shape and top frame
+export interface Issue {
+  fingerprint: string;
+  title: string;
+  type: string;
+  source: string;
+  culprit: StackFrame | null;
+  firstRelease: string | null;
+  lastRelease: string | null;
+  firstSeen: string;
+  lastSeen: string;
+  occurrences: number;
+}
+
+export interface ReleaseStats {
+  version: string;
+  events: number;
+  errors: number;
+  // Share of the release's events that are errors (0-1)
+  errorRate: number;
+  latency: {
+    p50: number | null;
+    p95: number | null;
+    samples: number;
+  };
+  firstEvent: string | null;
+  lastEvent: string | null;
+}
+
+export interface Regression {
+  kind: 'error_rate' | 'latency' | 'new_issues';
+  message: string;
+  current: number;
+  previous: number | null;
+}
+
+export interface ReleaseHealth extends ReleaseStats {
+  previous: ReleaseStats | null;
+  newIssues: Issue[];
+  regressions: Regression[];
+  regressed: boolean;
+}
+
+export class ReleaseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReleaseError';
+  }
+}
+
+// Regression thresholds against the previous release. Small samples are too noisy to compare.
+const ERROR_RATE_FACTOR = 1.5;
+const MIN_ERRORS = 10;
+const LATENCY_FACTOR = 1.25;
+const MIN_LATENCY_SAMPLES = 20;
+const MAX_NEW_ISSUES = 50;
+// Releases already known to exist, so ingest does not re-register them on every batch
+const KNOWN_RELEASES_LIMIT = 1000;
+
+const RELEASE_COLUMNS = `
+  r.id, r.project_id, r.version, r.commit_sha, r.commits, r.created_at,
+  MIN(d.deployed_at) AS first_deployed_at,
+  MAX(d.deployed_at) AS last_deployed_at,
+  COALESCE(array_agg(DISTINCT d.environment) FILTER (WHERE d.environment IS NOT NULL), '{}') AS environments
+`;
+
+export class ReleaseTracker {
+  private db = getDatabase();
+  private knownReleases: Set<string> = new Set();
+
+  // Record a deploy, creating the release on its first deploy. Commits given on a later
+  // deploy replace the stored list; omitted ones keep it.
+  async recordDeploy(data: {
+    projectId: string;
+    version: string;
+    environment: string;
+    commitSha?: string;
+    commits?: ReleaseCommit[];
+    url?: string;
+    deployedAt?: string;
+  }): Promise<{ release: Release; deploy: Deploy }> {
+    const deployId = await this.db.transaction(async (client) => {
+      const release = await client.query(`
+        INSERT INTO releases (project_id, version, commit_sha, commits)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (project_id, version) DO UPDATE
+        SET commit_sha = COALESCE(EXCLUDED.commit_sha, releases.commit_sha),
+            commits = CASE WHEN jsonb_array_length(EXCLUDED.commits) > 0
+              THEN EXCLUDED.commits ELSE releases.commits END
+        RETURNING id
+      `, [data.projectId, data.version, data.commitSha ?? null, JSON.stringify(data.commits ?? [])]);
+
+      const deploy = await client.query(`
+        INSERT INTO deploys (project_id, release_id, environment, url, deployed_at)
+        VALUES ($1, $2, $3, $4, COALESCE($5::timestamptz, NOW()))
+        RETURNING id
+      `, [data.projectId, release.rows[0].id, data.environment, data.url ?? null, data.deployedAt ?? null]);
+
+      return deploy.rows[0].id as string;
+    });
+
+    this.knownReleases.add(`${data.projectId}:${data.version}`);
+
+    const release = await this.getRelease(data.projectId, data.version);
+    const deploy = await this.db.query(`
+      SELECT d.id, d.release_id, r.version, d.environment, d.url, d.deployed_at
+      FROM deploys d JOIN releases r ON r.id = d.release_id
+      WHERE d.id = $1
+    `, [deployId]);
+
+    return { release: release!, deploy: this.toDeploy(deploy.rows[0]) };
+  }
+
+  // Releases, most recently deployed first
+  async listReleases(projectId: string | null, limit: number): Promise<Release[]> {
+    const result = await this.db.query(`
+      SELECT ${RELEASE_COLUMNS}
+      FROM releases r
+      LEFT JOIN deploys d ON d.release_id = r.id
+      WHERE ($1::uuid IS NULL OR r.project_id = $1)
+      GROUP BY r.id
+      ORDER BY COALESCE(MAX(d.deployed_at), r.created_at) DESC
+      LIMIT $2
+    `, [projectId, limit]);
+
+    return result.rows.map((row: any) => this.toRelease(row));
+  }
+
+  async getRelease(projectId: string, version: string): Promise<Release | null> {
+    const result = await this.db.query(`
+      SELECT ${RELEASE_COLUMNS}
+      FROM releases r
+      LEFT JOIN deploys d ON d.release_id = r.id
+      WHERE r.project_id = $1 AND r.version = $2
+      GROUP BY r.id
+    `, [projectId, version]);
+
+    return result.rows.length > 0 ? this.toRelease(result.rows[0]) : null;
+  }
+
+  // Deploys in a time range, oldest first, for drawing markers on timeseries
+  async listDeploys(options: {
+    projectId: string | null;
+    startTime: string;
+    endTime: string;
+    environment?: string;
+    version?: string;
+  }): Promise<Deploy[]> {
+    const result = await this.db.query(`
+      SELECT d.id, d.release_id, r.version, d.environment, d.url, d.deployed_at
+      FROM deploys d JOIN releases r ON r.id = d.release_id
+      WHERE ($1::uuid IS NULL OR d.project_id = $1)
+        AND d.deployed_at >= $2 AND d.deployed_at <= $3
+        AND ($4::text IS NULL OR d.environment = $4)
+        AND ($5::text IS NULL OR r.version = $5)
+      ORDER BY d.deployed_at ASC
+      LIMIT 1000
+    `, [options.projectId, options.startTime, options.endTime, options.environment ?? null, options.version ?? null]);
+
+    return result.rows.map((row: any) => this.toDeploy(row));
+  }
+
+  // Error and latency health of a release compared with the release deployed before it, and
+  // the issues first seen in it
+  async getHealth(projectId: string, version: string): Promise<ReleaseHealth> {
+    const release = await this.getRelease(projectId, version);
+    if (!release) {
+      throw new ReleaseError(`Release ${version} not found`);
+    }
+
+    const previousVersion = await this.getPreviousVersion(projectId, release);
+    const stats = await this.getStats(projectId, previousVersion ? [version, previousVersion] : [version]);
+    const current = stats.get(version) ?? this.emptyStats(version);
+    const previous = previousVersion ? stats.get(previousVersion) ?? this.emptyStats(previousVersion) : null;
+
+    const issues = await this.db.query(`
+      SELECT * FROM issues
+      WHERE project_id = $1 AND first_release = $2
+      ORDER BY occurrences DESC, first_seen ASC
+      LIMIT ${MAX_NEW_ISSUES}
+    `, [projectId, version]);
+    const newIssues = issues.rows.map((row: any) => this.toIssue(row));
+
+    const regressions = this.detectRegressions(current, previous, newIssues);
+
+    return {
+      ...current,
+      previous,
+      newIssues,
+      regressions,
+      regressed: regressions.length > 0,
+    };
+  }
+
+  // Register the releases events were reported from and update the issues their errors
+  // belong to. Called after events are stored; failures are logged and never reject ingest.
+  async trackEvents(events: Event[], projectId: string): Promise<void> {
+    try {
+      await this.registerReleases(events, projectId);
+      await this.recordIssues(events, projectId);
+    } catch (error) {
+      console.error('Release tracking failed:', error);
+    }
+  }
+
+  private async registerReleases(events: Event[], projectId: string): Promise<void> {
+    const versions = [...new Set(events.map(event => event.release).filter((v): v is string => !!v))]
+      .filter(version => !this.knownReleases.has(`${projectId}:${version}`));
+    if (versions.length === 0) return;
+
+    await this.db.query(`
+      INSERT INTO releases (project_id, version)
+      SELECT $1::uuid, unnest($2::text[])
+      ON CONFLICT (project_id, version) DO NOTHING
+    `, [projectId, versions]);
+
+    if (this.knownReleases.size + versions.length > KNOWN_RELEASES_LIMIT) {
+      this.knownReleases.clear();
+    }
+    versions.forEach(version => this.knownReleases.add(`${projectId}:${version}`));
+  }
+
+  private async recordIssues(events: Event[], projectId: string): Promise<void> {
+    // Rows of one upsert must be distinct, so occurrences in the batch are folded first
+    const issues = new Map<string, {
+      fingerprint: string;
+      title: string;
+      type: string;
+      source: string;
+      culprit: StackFrame | null;
+      release: string | null;
+      firstSeen: string;
+      lastSeen: string;
+      occurrences: number;
+    }>();
+
+    for (const event of events) {
+      if (event.type !== 'error') continue;
+
+      const culprit = topFrame(event.stack);
+      const fingerprint = fingerprintEvent(event, culprit);
+      const seenAt = event.timestamp ?? new Date().toISOString();
+      const existing = issues.get(fingerprint);
+
+      if (existing) {
+        existing.occurrences++;
+        existing.lastSeen = seenAt > existing.lastSeen ? seenAt : existing.lastSeen;
+        existing.release = event.release ?? existing.release;
+      } else {
+        issues.set(fingerprint, {
+          fingerprint,
+          title: event.message.slice(0, 500),
+          type: event.type,
+          source: event.source,
+          culprit,
+          release: event.release ?? null,
+          firstSeen: seenAt,
+          lastSeen: seenAt,
+          occurrences: 1,
+        });
+      }
+    }
+
+    if (issues.size === 0) return;
+
+    // first_release is kept from the first occurrence; an issue is only new in one release
+    await this.db.query(`
+      INSERT INTO issues (
+        project_id, fingerprint, title, type, source, culprit,
+        first_release, last_release, first_seen, last_seen, occurrences
+      )
+      SELECT $1::uuid, i.fingerprint, i.title, i.type, i.source, i.culprit,
+        i.release, i.release, i."firstSeen", i."lastSeen", i.occurrences
+      FROM jsonb_to_recordset($2::jsonb) AS i(
+        fingerprint text, title text, type text, source text, culprit jsonb, release text,
+        "firstSeen" timestamptz, "lastSeen" timestamptz, occurrences bigint
+      )
+      ON CONFLICT (project_id, fingerprint) DO UPDATE
+      SET last_seen = GREATEST(issues.last_seen, EXCLUDED.last_seen),
+          last_release = COALESCE(EXCLUDED.last_release, issues.last_release),
+          culprit = COALESCE(EXCLUDED.culprit, issues.culprit),
+          occurrences = issues.occurrences + EXCLUDED.occurrences
+    `, [projectId, JSON.stringify([...issues.values()])]);
+  }
+
+  // Release deployed (or, without deploys, created) most recently before this one
+  private async getPreviousVersion(projectId: string, release: Release): Promise<string | null> {
+    const result = await this.db.query(`
+      SELECT r.version
+      FROM releases r
+      LEFT JOIN deploys d ON d.release_id = r.id
+      WHERE r.project_id = $1 AND r.id != $2
+      GROUP BY r.id
+      HAVING COALESCE(MIN(d.deployed_at), r.created_at) < $3
+      ORDER BY COALESCE(MIN(d.deployed_at), r.created_at) DESC
+      LIMIT 1
+    `, [projectId, release.id, release.firstDeployedAt ?? release.createdAt]);
+
+    return result.rows[0]?.version ?? null;
+  }
+
+  // Latency is taken from performance events carrying a numeric `metadata.duration`, the
+  // same field the SDKs report request and timing durations in
+  private async getStats(projectId: string, versions: string[]): Promise<Map<string, ReleaseStats>> {
+    const result = await this.db.query(`
+      SELECT
+        release,
+        COUNT(*) AS events,
+        COUNT(*) FILTER (WHERE type = 'error') AS errors,
+        COUNT(*) FILTER (WHERE type = 'performance' AND jsonb_typeof(metadata->'duration') = 'number') AS latency_samples,
+        percentile_cont(0.5) WITHIN GROUP (ORDER BY CASE
+          WHEN type = 'performance' AND jsonb_typeof(metadata->'duration') = 'number'
+          THEN (metadata->>'duration')::double precision END) AS p50,
+        percentile_cont(0.95) WITHIN GROUP (ORDER BY CASE
+          WHEN type = 'performance' AND jsonb_typeof(metadata->'duration') = 'number'
+          THEN (metadata->>'duration')::double precision END) AS p95,
+        MIN(timestamp) AS first_event,
+        MAX(timestamp) AS last_event
+      FROM events
+      WHERE project_id = $1 AND release = ANY($2::text[])
+      GROUP BY release
+    `, [projectId, versions]);
+
+    const stats = new Map<string, ReleaseStats>();
+    for (const row of result.rows) {
+      const events = parseInt(row.events);
+      const errors = parseInt(row.errors);
+      stats.set(row.release, {
+        version: row.release,
+        events,
+        errors,
+        errorRate: events > 0 ? errors / events : 0,
+        latency: {
+          p50: row.p50 === null ? null : parseFloat(row.p50),
+          p95: row.p95 === null ? null : parseFloat(row.p95),
+          samples: parseInt(row.latency_samples),
+        },
+        firstEvent: row.first_event ? new Date(row.first_event).toISOString() : null,
+        lastEvent: row.last_event ? new Date(row.last_event).toISOString() : null,
+      });
+    }
+    return stats;
+  }
+
+  private detectRegressions(current: ReleaseStats, previous: ReleaseStats | null, newIssues: Issue[]): Regression[] {
+    const regressions: Regression[] = [];
+
+    if (current.errors >= MIN_ERRORS) {
+      const previousRate = previous && previous.events > 0 ? previous.errorRate : null;
+      if (previousRate === null || current.errorRate > previousRate * ERROR_RATE_FACTOR) {
+        regressions.push({
+          kind: 'error_rate',
+          message: previousRate === null
+            ? `${current.errors} errors (${formatPercent(current.errorRate)} of events) with no previous release to compare`
+            : `Error rate rose from ${formatPercent(previousRate)} to ${formatPercent(current.errorRate)}`,
+          current: current.errorRate,
+          previous: previousRate,
+        });
+      }
+    }
+
+    if (
+      previous &&
+      current.latency.p95 !== null && previous.latency.p95 !== null &&
+      current.latency.samples >= MIN_LATENCY_SAMPLES && previous.latency.samples >= MIN_LATENCY_SAMPLES &&
+      current.latency.p95 > previous.latency.p95 * LATENCY_FACTOR
+    ) {
+      regressions.push({
+        kind: 'latency',
+        message: `p95 latency rose from ${Math.round(previous.latency.p95)}ms to ${Math.round(current.latency.p95)}ms`,
+        current: current.latency.p95,
+        previous: previous.latency.p95,
+      });
+    }
+
+    if (newIssues.length > 0) {
+      regressions.push({
+        kind: 'new_issues',
+        message: `${newIssues.length} ${newIssues.length === 1 ? 'issue' : 'issues'} first seen in this release`,
+        current: newIssues.length,
+        previous: null,
+      });
+    }
+
+    return regressions;
+  }
+
+  private emptyStats(version: string): ReleaseStats {
+    return {
+      version,
+      events: 0,
+      errors: 0,
+      errorRate: 0,
+      latency: { p50: null, p95: null, samples: 0 },
+      firstEvent: null,
+      lastEvent: null,
+    };
+  }
+
+  private toRelease(row: any): Release {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      version: row.version,
+      commitSha: row.commit_sha,
+      commits: row.commits || [],
+      createdAt: new Date(row.created_at).toISOString(),
+      firstDeployedAt: row.first_deployed_at ? new Date(row.first_deployed_at).toISOString() : null,
+      lastDeployedAt: row.last_deployed_at ? new Date(row.last_deployed_at).toISOString() : null,
+      environments: row.environments || [],
+    };
+  }
+
+  private toDeploy(row: any): Deploy {
+    return {
+      id: row.id,
+      releaseId: row.release_id,
+      version: row.version,
+      environment: row.environment,
+      url: row.url,
+      deployedAt: new Date(row.deployed_at).toISOString(),
+    };
+  }
+
+  private toIssue(row: any): Issue {
+    return {
+      fingerprint: row.fingerprint,
+      title: row.title,
+      type: row.type,
+      source: row.source,
+      culprit: row.culprit,
+      firstRelease: row.first_release,
+      lastRelease: row.last_release,
+      firstSeen: new Date(row.first_seen).toISOString(),
+      lastSeen: new Date(row.last_seen).toISOString(),
+      occurrences: parseInt(row.occurrences),
+    };
+  }
+}
+
+// First frame outside dependencies, which is where the error is attributed
+function topFrame(stack: string | undefined): StackFrame | null {
+  if (!stack) return null;
+
+  let first: StackFrame | null = null;
+  for (const line of stack.split('\n')) {
+    const frame = parseStackLine(line);
+    if (!frame) continue;
+    if (!/node_modules\/|^node:|^internal\//.test(frame.file)) return frame;
+    first = first ?? frame;
+  }
+  return first;
+}
+
+// Variable parts of messages (ids, numbers) and of file names (build hashes, query strings)
+// are masked so occurrences of one error share a fingerprint across requests and releases
+function fingerprintEvent(event: Event, culprit: StackFrame | null): string {
+  const message = event.message
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/\d+/g, '<n>');
+  const file = culprit?.file
+    .replace(/[?#].*$/, '')
+    .replace(/^[a-z]+:\/\/[^/]+/i, '')
+    .replace(/[.-][0-9a-f]{6,}(?=\.)/gi, '');
+
+  return createHash('sha1')
+    .update([event.type, event.source, message, culprit?.function ?? '', file ?? ''].join('\n'))
+    .digest('hex');
+}
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(rate < 0.01 ? 2 : 1)}%`;
+}
+
+// Singleton instance
+let releaseTracker: ReleaseTracker;
+
+export function getReleaseTracker(): ReleaseTracker {
+  if (!releaseTracker) {
+    releaseTracker = new ReleaseTracker();
+  }
+  return releaseTracker;
+}
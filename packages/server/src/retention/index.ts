@@ -0,0 +1,374 @@
+import * as cron from 'node-cron';
+import { getDatabase } from '../database';
+
+export const RETENTION_TARGETS = [
+  'events',
+  'metrics',
+  'metrics_1m',
+  'metrics_1h',
+  'metrics_1d',
+  'spans',
+  'alert_instances',
+] as const;
+
+export type RetentionTarget = typeof RETENTION_TARGETS[number];
+
+export interface RetentionPolicy {
+  target: RetentionTarget;
+  retentionDays: number;
+  compressAfterDays: number | null;
+  updatedAt: string;
+}
+
+interface RetentionConfig {
+  defaultRetentionDays: number;
+  pruneSchedule?: string;
+}
+
+export interface MetricTier {
+  table: 'metrics_1m' | 'metrics_1h' | 'metrics_1d';
+  bucket: string;
+  refreshStartOffset: string;
+  refreshEndOffset: string;
+  refreshSchedule: string;
+  defaultRetentionDays: number;
+}
+
+// Continuous aggregates that roll raw metrics into coarser tiers
+export const METRIC_TIERS: MetricTier[] = [
+  {
+    table: 'metrics_1m',
+    bucket: '1 minute',
+    refreshStartOffset: '1 hour',
+    refreshEndOffset: '1 minute',
+    refreshSchedule: '1 minute',
+    defaultRetentionDays: 30,
+  },
+  {
+    table: 'metrics_1h',
+    bucket: '1 hour',
+    refreshStartOffset: '1 day',
+    refreshEndOffset: '1 hour',
+    refreshSchedule: '30 minutes',
+    defaultRetentionDays: 180,
+  },
+  {
+    table: 'metrics_1d',
+    bucket: '1 day',
+    refreshStartOffset: '3 days',
+    refreshEndOffset: '1 day',
+    refreshSchedule: '1 hour',
+    defaultRetentionDays: 730,
+  },
+];
+
+// Dashboard/metrics query intervals mapped to the coarsest tier that can serve them
+const INTERVAL_TIERS: Record<string, MetricTier['table']> = {
+  '1m': 'metrics_1m',
+  '5m': 'metrics_1m',
+  '15m': 'metrics_1m',
+  '1h': 'metrics_1h',
+  '6h': 'metrics_1h',
+  '1d': 'metrics_1d',
+  hour: 'metrics_1h',
+  day: 'metrics_1d',
+  week: 'metrics_1d',
+  month: 'metrics_1d',
+};
+
+// Re-aggregate rolled-up columns so results match aggregating the raw rows
+export function rollupAggregate(aggregation: 'avg' | 'sum' | 'min' | 'max' | 'count'): string {
+  switch (aggregation) {
+    case 'sum':
+      return 'SUM(sum_value)';
+    case 'min':
+      return 'MIN(min_value)';
+    case 'max':
+      return 'MAX(max_value)';
+    case 'count':
+      return 'SUM(sample_count)';
+    default:
+      return 'SUM(sum_value) / NULLIF(SUM(sample_count), 0)';
+  }
+}
+
+export class RetentionManager {
+  private db = getDatabase();
+  private config: RetentionConfig;
+  private pruneTask: cron.ScheduledTask | null = null;
+  private timescaleManaged = new Set<RetentionTarget>();
+  private rollupsAvailable = false;
+
+  constructor(config: RetentionConfig) {
+    this.config = config;
+  }
+
+  // Seed default policies and create rollup tiers, then apply stored policies
+  async initialize(): Promise<void> {
+    await this.seedDefaultPolicies();
+    await this.createRollupTiers();
+
+    const policies = await this.getPolicies();
+    for (const policy of policies) {
+      await this.applyPolicy(policy);
+    }
+
+    console.log('Retention policies initialized');
+  }
+
+  // Start the periodic prune job for data TimescaleDB does not manage
+  start(): void {
+    if (this.pruneTask) return;
+
+    this.pruneTask = cron.schedule(this.config.pruneSchedule || '0 * * * *', () => {
+      this.prune().catch(error => {
+        console.error('Error in retention prune job:', error);
+      });
+    });
+
+    console.log('Retention prune job scheduled');
+  }
+
+  stop(): void {
+    if (this.pruneTask) {
+      this.pruneTask.stop();
+      this.pruneTask = null;
+    }
+  }
+
+  async getPolicies(): Promise<RetentionPolicy[]> {
+    const result = await this.db.query(`
+      SELECT target, retention_days, compress_after_days, updated_at
+      FROM retention_policies
+      ORDER BY target
+    `);
+
+    return result.rows.map((row: any) => ({
+      target: row.target,
+      retentionDays: row.retention_days,
+      compressAfterDays: row.compress_after_days,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  async updatePolicy(
+    target: RetentionTarget,
+    changes: { retentionDays?: number; compressAfterDays?: number | null }
+  ): Promise<RetentionPolicy | null> {
+    const result = await this.db.query(`
+      UPDATE retention_policies
+      SET retention_days = COALESCE($2::int, retention_days),
+          compress_after_days = CASE WHEN $3 THEN $4::int ELSE compress_after_days END,
+          updated_at = NOW()
+      WHERE target = $1
+      RETURNING target, retention_days, compress_after_days, updated_at
+    `, [
+      target,
+      changes.retentionDays ?? null,
+      changes.compressAfterDays !== undefined,
+      changes.compressAfterDays ?? null,
+    ]);
+
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    const policy: RetentionPolicy = {
+      target: row.target,
+      retentionDays: row.retention_days,
+      compressAfterDays: row.compress_after_days,
+      updatedAt: row.updated_at,
+    };
+
+    await this.applyPolicy(policy);
+    return policy;
+  }
+
+  // Rollup tier to read for a query interval, or null when only raw metrics are available
+  resolveMetricTier(interval: string): MetricTier | null {
+    if (!this.rollupsAvailable) return null;
+
+    const table = INTERVAL_TIERS[interval];
+    return METRIC_TIERS.find(tier => tier.table === table) || null;
+  }
+
+  getStatus(): { rollupsAvailable: boolean; timescalePolicies: RetentionTarget[]; tiers: MetricTier[] } {
+    return {
+      rollupsAvailable: this.rollupsAvailable,
+      timescalePolicies: Array.from(this.timescaleManaged),
+      tiers: METRIC_TIERS,
+    };
+  }
+
+  // Delete expired rows for targets without a TimescaleDB retention policy
+  async prune(): Promise<Record<string, number>> {
+    const policies = await this.getPolicies();
+    const deleted: Record<string, number> = {};
+
+    for (const policy of policies) {
+      if (this.timescaleManaged.has(policy.target)) continue;
+
+      try {
+        let result;
+        switch (policy.target) {
+          case 'alert_instances':
+            // Only resolved instances expire; active alerts are kept regardless of age
+            result = await this.db.query(`
+              DELETE FROM alert_instances
+              WHERE status = 'resolved' AND resolved_at < NOW() - make_interval(days => $1::int)
+            `, [policy.retentionDays]);
+            break;
+          case 'events':
+          case 'metrics':
+          case 'spans':
+            result = await this.db.query(`
+              DELETE FROM ${policy.target}
+              WHERE timestamp < NOW() - make_interval(days => $1::int)
+            `, [policy.retentionDays]);
+            break;
+          default:
+            continue;
+        }
+
+        deleted[policy.target] = result.rowCount || 0;
+      } catch (error) {
+        console.error(`Failed to prune ${policy.target}:`, error);
+      }
+    }
+
+    const total = Object.values(deleted).reduce((sum, count) => sum + count, 0);
+    if (total > 0) {
+      console.log('Retention prune removed rows:', deleted);
+    }
+
+    return deleted;
+  }
+
+  private async seedDefaultPolicies(): Promise<void> {
+    const defaults: Array<[RetentionTarget, number, number | null]> = [
+      ['events', this.config.defaultRetentionDays, 7],
+      ['metrics', this.config.defaultRetentionDays, 7],
+      ['spans', this.config.defaultRetentionDays, 7],
+      ['alert_instances', this.config.defaultRetentionDays, null],
+      ...METRIC_TIERS.map(tier => [tier.table, tier.defaultRetentionDays, null] as [RetentionTarget, number, null]),
+    ];
+
+    for (const [target, retentionDays, compressAfterDays] of defaults) {
+      await this.db.query(`
+        INSERT INTO retention_policies (target, retention_days, compress_after_days)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (target) DO NOTHING
+      `, [target, retentionDays, compressAfterDays]);
+    }
+  }
+
+  private async createRollupTiers(): Promise<void> {
+    try {
+      for (const tier of METRIC_TIERS) {
+        const existing = await this.db.query(`SELECT to_regclass($1) AS oid`, [tier.table]);
+        const isNew = !existing.rows[0].oid;
+
+        await this.db.query(`
+          CREATE MATERIALIZED VIEW IF NOT EXISTS ${tier.table}
+          WITH (timescaledb.continuous) AS
+          SELECT
+            time_bucket(INTERVAL '${tier.bucket}', timestamp) AS bucket,
+            project_id,
+            name,
+            source,
+            AVG(value) AS avg_value,
+            MIN(value) AS min_value,
+            MAX(value) AS max_value,
+            SUM(value) AS sum_value,
+            COUNT(*) AS sample_count
+          FROM metrics
+          GROUP BY bucket, project_id, name, source
+          WITH NO DATA
+        `);
+
+        // Real-time aggregation: buckets the refresh policy hasn't materialized yet are computed
+        // from raw metrics at query time, so recent data isn't missing from short windows
+        await this.db.query(`ALTER MATERIALIZED VIEW ${tier.table} SET (timescaledb.materialized_only = false)`);
+
+        // Backfill a freshly created tier from the raw metrics still retained
+        if (isNew) {
+          await this.db.query(`CALL refresh_continuous_aggregate($1, NULL, NOW() - INTERVAL '${tier.refreshEndOffset}')`, [tier.table]);
+        }
+
+        await this.db.query(`
+          SELECT add_continuous_aggregate_policy('${tier.table}',
+            start_offset => INTERVAL '${tier.refreshStartOffset}',
+            end_offset => INTERVAL '${tier.refreshEndOffset}',
+            schedule_interval => INTERVAL '${tier.refreshSchedule}',
+            if_not_exists => TRUE)
+        `);
+      }
+
+      this.rollupsAvailable = true;
+      console.log('Metric rollup tiers created or exist');
+    } catch (error) {
+      this.rollupsAvailable = false;
+      console.warn('Failed to create metric rollup tiers (TimescaleDB continuous aggregates may not be available):', error);
+    }
+  }
+
+  // Replace TimescaleDB retention/compression jobs for a target with the stored policy
+  private async applyPolicy(policy: RetentionPolicy): Promise<void> {
+    if (policy.target === 'alert_instances') return; // Plain table, pruned by the job
+
+    const isTier = METRIC_TIERS.some(tier => tier.table === policy.target);
+    if (isTier && !this.rollupsAvailable) return;
+
+    try {
+      await this.db.query(`SELECT remove_retention_policy($1::regclass, if_exists => TRUE)`, [policy.target]);
+      await this.db.query(
+        `SELECT add_retention_policy($1::regclass, make_interval(days => $2::int))`,
+        [policy.target, policy.retentionDays]
+      );
+      this.timescaleManaged.add(policy.target);
+    } catch (error) {
+      this.timescaleManaged.delete(policy.target);
+      console.warn(`Failed to apply retention policy for ${policy.target}, falling back to prune job:`, error);
+      return;
+    }
+
+    if (isTier) return;
+
+    try {
+      await this.db.query(`SELECT remove_compression_policy($1::regclass, if_exists => TRUE)`, [policy.target]);
+
+      if (policy.compressAfterDays) {
+        const segmentBy = policy.target === 'metrics' ? 'name, source' : 'source';
+        await this.db.query(`
+          ALTER TABLE ${policy.target} SET (
+            timescaledb.compress,
+            timescaledb.compress_segmentby = '${segmentBy}'
+          )
+        `);
+        await this.db.query(
+          `SELECT add_compression_policy($1::regclass, make_interval(days => $2::int))`,
+          [policy.target, policy.compressAfterDays]
+        );
+      }
+    } catch (error) {
+      console.warn(`Failed to apply compression policy for ${policy.target}:`, error);
+    }
+  }
+}
+
+let retentionManager: RetentionManager;
+
+export async function initRetentionManager(config: RetentionConfig): Promise<RetentionManager> {
+  if (!retentionManager) {
+    retentionManager = new RetentionManager(config);
+    await retentionManager.initialize();
+    retentionManager.start();
+  }
+  return retentionManager;
+}
+
+export function getRetentionManager(): RetentionManager {
+  if (!retentionManager) {
+    throw new Error('Retention manager not initialized. Call initRetentionManager first.');
+  }
+  return retentionManager;
+}
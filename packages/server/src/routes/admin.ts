@@ -1,13 +1,45 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { getDatabase } from '../database';
+import { Readable } from 'stream';
+import { z } from 'zod';
+import { getDatabase, Migrator, MigrationError } from '../database';
 import { getRedis } from '../redis';
-import { requirePermission } from '../middleware';
+import { getAuthManager, getRoleManager, PERMISSIONS } from '../auth';
+import { requirePermission, requireCrossProjectAccess } from '../middleware';
+import { getRetentionManager, RETENTION_TARGETS, RetentionTarget } from '../retention';
+import { auditAdminRequest, verifyAuditStorage } from '../audit';
+import {
+  getDataTransfer,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  ExportOptions,
+  TRANSFER_TABLES,
+  TransferError,
+} from '../transfer';
 
 // Admin route interfaces (schemas not used in this implementation)
 
+// Permission grants accepted on API keys and roles (mirrors PermissionGrantSchema)
+const PERMISSION_GRANT_PATTERN = '^(\\*|read|write|admin|[a-z-]+:(\\*|[a-z-]+))$';
+
+const roleProperties = {
+  name: { type: 'string' },
+  description: { type: 'string' },
+  permissions: { type: 'array', items: { type: 'string' } },
+  builtIn: { type: 'boolean' },
+};
+
 export default async function adminRoutes(fastify: FastifyInstance): Promise<void> {
   const db = getDatabase();
   const redis = getRedis();
+  const transfer = getDataTransfer();
+
+  // Imports are read line by line from the request stream rather than buffered
+  fastify.addContentTypeParser('application/x-ndjson', (_request, payload, done) => {
+    done(null, payload);
+  });
+
+  // Every state-changing admin request goes to the tamper-evident audit trail
+  fastify.addHook('onResponse', auditAdminRequest);
 
   // Clear all monitoring data
   fastify.post('/clear', {
@@ -23,7 +55,7 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
             type: 'array', 
             items: { 
               type: 'string', 
-              enum: ['events', 'metrics', 'alerts', 'all'] 
+              enum: ['events', 'metrics', 'spans', 'alerts', 'all'] 
             } 
           },
         },
@@ -40,32 +72,50 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
         },
       },
     },
-    preHandler: [requirePermission('admin')],
+    preHandler: [requirePermission('admin:clear')],
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const body = (request.body as any) || {};
       const tables = body.tables || ['all'];
       const recordsDeleted: { [key: string]: number } = {};
       const clearedTables: string[] = [];
+      const projectId = request.projectId ?? null;
 
       // Clear events table
       if (tables.includes('events') || tables.includes('all')) {
-        const result = await db.query('DELETE FROM events');
+        const result = await db.query('DELETE FROM events WHERE ($1::uuid IS NULL OR project_id = $1)', [projectId]);
         recordsDeleted.events = result.rowCount || 0;
         clearedTables.push('events');
+
+        // Issues are derived from error events, so they go with them
+        const issues = await db.query('DELETE FROM issues WHERE ($1::uuid IS NULL OR project_id = $1)', [projectId]);
+        recordsDeleted.issues = issues.rowCount || 0;
+        clearedTables.push('issues');
       }
 
       // Clear metrics table
       if (tables.includes('metrics') || tables.includes('all')) {
-        const result = await db.query('DELETE FROM metrics');
+        const result = await db.query('DELETE FROM metrics WHERE ($1::uuid IS NULL OR project_id = $1)', [projectId]);
         recordsDeleted.metrics = result.rowCount || 0;
         clearedTables.push('metrics');
       }
 
+      // Clear spans table
+      if (tables.includes('spans') || tables.includes('all')) {
+        const result = await db.query('DELETE FROM spans WHERE ($1::uuid IS NULL OR project_id = $1)', [projectId]);
+        recordsDeleted.spans = result.rowCount || 0;
+        clearedTables.push('spans');
+      }
+
       // Clear alerts table (if it exists)
       if (tables.includes('alerts') || tables.includes('all')) {
         try {
-          const result = await db.query('DELETE FROM alert_instances');
+          const result = await db.query(`
+            DELETE FROM alert_instances
+            WHERE ($1::uuid IS NULL OR alert_config_id IN (
+              SELECT id FROM alert_configs WHERE project_id = $1
+            ))
+          `, [projectId]);
           recordsDeleted.alert_instances = result.rowCount || 0;
           clearedTables.push('alert_instances');
         } catch (error) {
@@ -74,9 +124,9 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
         }
       }
 
-      // Clear Redis cache
+      // Clear Redis cache (shared by all projects, so only on a deployment-wide clear)
       try {
-        const keys = await (redis as any).client.keys('monitoring:*');
+        const keys = projectId ? [] : await (redis as any).client.keys('monitoring:*');
         if (keys.length > 0) {
           await (redis as any).client.del(...keys);
           recordsDeleted.redis_keys = keys.length;
@@ -86,7 +136,7 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
       }
 
       // Reset server statistics
-      if (fastify.stats) {
+      if (fastify.stats && !projectId) {
         fastify.stats.eventsProcessed = 0;
         fastify.stats.metricsProcessed = 0;
         fastify.stats.alertsTriggered = 0;
@@ -134,7 +184,7 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
         },
       },
     },
-    preHandler: [requirePermission('admin')],
+    preHandler: [requirePermission('admin:clear')],
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       const body = (request.body as any) || {};
@@ -179,10 +229,10 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
     }
   });
 
-  // Export monitoring data
+  // Stream monitoring data as NDJSON, CSV or Parquet
   fastify.get('/export', {
     schema: {
-      description: 'Export monitoring data',
+      description: 'Stream an export of monitoring data; resume an interrupted or limited export with its cursor',
       tags: ['admin'],
       security: [{ apiKey: [] }],
       querystring: {
@@ -190,125 +240,133 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
         properties: {
           startTime: { type: 'string', format: 'date-time' },
           endTime: { type: 'string', format: 'date-time' },
-          format: { type: 'string', enum: ['json', 'csv'], default: 'json' },
-          tables: { 
-            type: 'array', 
-            items: { 
-              type: 'string', 
-              enum: ['events', 'metrics', 'alerts'] 
-            } 
+          format: { type: 'string', enum: [...EXPORT_FORMATS], default: 'ndjson' },
+          tables: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: [...TRANSFER_TABLES]
+            }
           },
+          cursor: { type: 'string' },
+          limit: { type: 'integer', minimum: 1 },
+        },
+      },
+    },
+    preHandler: [requirePermission('admin:export')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = (request.query as any) || {};
+    const options: ExportOptions = {
+      tables: query.tables || ['events', 'metrics'],
+      format: query.format || 'ndjson',
+      projectId: request.projectId ?? null,
+      // Default to last 7 days if no time range specified
+      startTime: query.startTime || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
+      endTime: query.endTime || new Date().toISOString(),
+      ...(query.cursor ? { cursor: query.cursor } : {}),
+      ...(query.limit ? { limit: query.limit } : {}),
+    };
+
+    try {
+      transfer.validateExport(options);
+    } catch (error) {
+      if (error instanceof TransferError) {
+        reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message,
+        });
+        return;
+      }
+      throw error;
+    }
+
+    // Failures after the first byte can only end the stream; clients resume from the last checkpoint
+    const stream = Readable.from(transfer.export(options));
+    stream.on('error', (error) => {
+      fastify.log.error({ error }, 'Error streaming export');
+    });
+
+    const extension = options.format === 'parquet' ? `${options.tables[0]}.parquet` : options.format;
+    reply
+      .type(EXPORT_CONTENT_TYPES[options.format])
+      .header('Content-Disposition', `attachment; filename="export-${new Date().toISOString().split('T')[0]}.${extension}"`);
+    return reply.send(stream);
+  });
+
+  // Restore data from an NDJSON export
+  fastify.post('/import', {
+    schema: {
+      description: 'Import an NDJSON export; rows are validated and existing rows are left untouched',
+      tags: ['admin'],
+      security: [{ apiKey: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          dryRun: { type: 'boolean', default: false },
+          onError: { type: 'string', enum: ['skip', 'abort'], default: 'skip' },
         },
       },
       response: {
         200: {
           type: 'object',
-          additionalProperties: true,
+          properties: {
+            dryRun: { type: 'boolean' },
+            aborted: { type: 'boolean' },
+            lines: { type: 'number' },
+            imported: { type: 'object', additionalProperties: { type: 'number' } },
+            duplicates: { type: 'object', additionalProperties: { type: 'number' } },
+            skipped: { type: 'object', additionalProperties: { type: 'number' } },
+            rejected: { type: 'number' },
+            errors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  line: { type: 'number' },
+                  table: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
         },
       },
     },
-    preHandler: [requirePermission('admin')],
+    preHandler: [requirePermission('admin:import')],
   }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const query = (request.query as any) || {};
-      const format = query.format || 'json';
-      const tables = query.tables || ['events', 'metrics'];
-      
-      // Default to last 7 days if no time range specified
-      const endTime = query.endTime || new Date().toISOString();
-      const startTime = query.startTime || new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
-
-      const exportData: { [key: string]: any[] } = {};
-
-      // Export events
-      if (tables.includes('events')) {
-        const eventsResult = await db.query(`
-          SELECT * FROM events 
-          WHERE timestamp >= $1 AND timestamp <= $2 
-          ORDER BY timestamp DESC
-        `, [startTime, endTime]);
-        exportData.events = eventsResult.rows;
-      }
-
-      // Export metrics
-      if (tables.includes('metrics')) {
-        const metricsResult = await db.query(`
-          SELECT * FROM metrics 
-          WHERE timestamp >= $1 AND timestamp <= $2 
-          ORDER BY timestamp DESC
-        `, [startTime, endTime]);
-        exportData.metrics = metricsResult.rows;
-      }
-
-      // Export alerts (if table exists)
-      if (tables.includes('alerts')) {
-        try {
-          const alertsResult = await db.query(`
-            SELECT * FROM alert_instances 
-            WHERE triggered_at >= $1 AND triggered_at <= $2 
-            ORDER BY triggered_at DESC
-          `, [startTime, endTime]);
-          exportData.alerts = alertsResult.rows;
-        } catch (error) {
-          fastify.log.warn('Alert instances table not found');
-          exportData.alerts = [];
-        }
+      if (!(request.body instanceof Readable)) {
+        reply.code(415).send({
+          error: 'Unsupported Media Type',
+          message: 'Send the export as application/x-ndjson',
+        });
+        return;
       }
 
-      // Add metadata
-      const metadata = {
-        exportedAt: new Date().toISOString(),
-        timeRange: { startTime, endTime },
-        tables: Object.keys(exportData),
-        recordCounts: Object.fromEntries(
-          Object.entries(exportData).map(([table, data]) => [table, data.length])
-        ),
-      };
+      const query = (request.query as any) || {};
+      const result = await transfer.import(request.body, {
+        projectId: request.projectId ?? null,
+        dryRun: query.dryRun === true,
+        onError: query.onError === 'abort' ? 'abort' : 'skip',
+      });
 
-      if (format === 'json') {
-        reply.type('application/json');
-        reply.send({
-          metadata,
-          data: exportData,
+      if (result.aborted) {
+        reply.code(400).send({
+          error: 'Import Aborted',
+          message: `Line ${result.errors[0]?.line}: ${result.errors[0]?.message}`,
+          ...result,
         });
-      } else if (format === 'csv') {
-        // For CSV, we'll export each table separately in a simple format
-        reply.type('text/csv');
-        
-        let csvContent = '';
-        
-        for (const [tableName, tableData] of Object.entries(exportData)) {
-          if (tableData.length === 0) continue;
-          
-          csvContent += `\n# ${tableName.toUpperCase()}\n`;
-          
-          // Get headers from first row
-          const headers = Object.keys(tableData[0]);
-          csvContent += headers.join(',') + '\n';
-          
-          // Add data rows
-          for (const row of tableData) {
-            const values = headers.map(header => {
-              const value = row[header];
-              // Escape commas and quotes in CSV
-              if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
-                return `"${value.replace(/"/g, '""')}"`;
-              }
-              return value || '';
-            });
-            csvContent += values.join(',') + '\n';
-          }
-        }
-        
-        reply.send(csvContent);
+        return;
       }
 
+      reply.send(result);
+
     } catch (error) {
-      fastify.log.error({ error }, 'Error exporting data');
+      fastify.log.error({ error }, 'Error importing data');
       reply.code(500).send({
         success: false,
         error: 'Internal Server Error',
-        message: 'Failed to export data',
+        message: 'Failed to import data',
       });
     }
   });
@@ -353,9 +411,11 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
         },
       },
     },
-    preHandler: [requirePermission('admin')],
-  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    preHandler: [requirePermission('admin:stats')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
+      const projectId = request.projectId ?? null;
+
       // Database statistics
       const [eventsStats, metricsStats] = await Promise.all([
         db.query(`
@@ -366,7 +426,8 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
             MIN(timestamp) as oldest,
             MAX(timestamp) as newest
           FROM events
-        `),
+          WHERE ($1::uuid IS NULL OR project_id = $1)
+        `, [projectId]),
         db.query(`
           SELECT 
             COUNT(*) as total,
@@ -375,7 +436,8 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
             MIN(timestamp) as oldest,
             MAX(timestamp) as newest
           FROM metrics
-        `),
+          WHERE ($1::uuid IS NULL OR project_id = $1)
+        `, [projectId]),
       ]);
 
       let alertStats = { rows: [{ total: 0, active: 0, last_24h: 0 }] };
@@ -383,10 +445,12 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
         alertStats = await db.query(`
           SELECT 
             COUNT(*) as total,
-            COUNT(*) FILTER (WHERE status = 'active') as active,
-            COUNT(*) FILTER (WHERE triggered_at >= NOW() - INTERVAL '24 hours') as last_24h
-          FROM alert_instances
-        `);
+            COUNT(*) FILTER (WHERE ai.status = 'active') as active,
+            COUNT(*) FILTER (WHERE ai.triggered_at >= NOW() - INTERVAL '24 hours') as last_24h
+          FROM alert_instances ai
+          JOIN alert_configs ac ON ai.alert_config_id = ac.id
+          WHERE ($1::uuid IS NULL OR ac.project_id = $1)
+        `, [projectId]);
       } catch (error) {
         // Alert table doesn't exist
       }
@@ -477,7 +541,7 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
         },
       },
     },
-    preHandler: [requirePermission('admin')],
+    preHandler: [requirePermission('admin:stats')],
   }, async (_request: FastifyRequest, reply: FastifyReply) => {
     try {
       const components = {
@@ -582,4 +646,670 @@ export default async function adminRoutes(fastify: FastifyInstance): Promise<voi
       });
     }
   });
-}
\ No newline at end of file
+
+  // Get data retention policies and rollup tier status
+  fastify.get('/retention', {
+    schema: {
+      description: 'Get data retention policies',
+      tags: ['admin'],
+      security: [{ apiKey: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            policies: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  target: { type: 'string' },
+                  retentionDays: { type: 'number' },
+                  compressAfterDays: { type: ['number', 'null'] },
+                  updatedAt: { type: 'string' },
+                },
+              },
+            },
+            rollupsAvailable: { type: 'boolean' },
+            timescalePolicies: { type: 'array', items: { type: 'string' } },
+            tiers: { type: 'array', items: { type: 'object', additionalProperties: true } },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('admin:retention')],
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const retention = getRetentionManager();
+      const policies = await retention.getPolicies();
+
+      reply.send({
+        policies,
+        ...retention.getStatus(),
+      });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error getting retention policies');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to get retention policies',
+      });
+    }
+  });
+
+  // Update the retention policy for a table or rollup tier
+  fastify.put('/retention/:target', {
+    schema: {
+      description: 'Update a data retention policy',
+      tags: ['admin'],
+      security: [{ apiKey: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          target: { type: 'string', enum: [...RETENTION_TARGETS] },
+        },
+        required: ['target'],
+      },
+      body: {
+        type: 'object',
+        properties: {
+          retentionDays: { type: 'integer', minimum: 1 },
+          compressAfterDays: { type: ['integer', 'null'], minimum: 1 },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            policy: { type: 'object', additionalProperties: true },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('admin:retention'), requireCrossProjectAccess()],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { target } = request.params as { target: RetentionTarget };
+      const body = (request.body as any) || {};
+
+      if (body.retentionDays === undefined && body.compressAfterDays === undefined) {
+        reply.code(400).send({
+          error: 'Bad Request',
+          message: 'No fields to update',
+        });
+        return;
+      }
+
+      const policy = await getRetentionManager().updatePolicy(target, {
+        retentionDays: body.retentionDays,
+        compressAfterDays: body.compressAfterDays,
+      });
+
+      if (!policy) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: `Retention policy for ${target} not found`,
+        });
+        return;
+      }
+
+      reply.send({
+        success: true,
+        policy,
+      });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error updating retention policy');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update retention policy',
+      });
+    }
+  });
+
+  // Report applied and pending schema migrations
+  fastify.get('/migrations', {
+    schema: {
+      description: 'Get schema migration status',
+      tags: ['admin'],
+      security: [{ apiKey: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            applied: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  checksum: { type: ['string', 'null'] },
+                  appliedAt: { type: 'string' },
+                },
+              },
+            },
+            pending: { type: 'array', items: { type: 'string' } },
+            mismatched: { type: 'array', items: { type: 'string' } },
+            missing: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('admin:migrations')],
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const status = await new Migrator(db).status();
+      reply.send(status);
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error getting migration status');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to get migration status',
+      });
+    }
+  });
+
+  // Apply pending schema migrations
+  fastify.post('/migrations/apply', {
+    schema: {
+      description: 'Apply pending schema migrations',
+      tags: ['admin'],
+      security: [{ apiKey: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            applied: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('admin:migrations'), requireCrossProjectAccess()],
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const applied = await new Migrator(db).migrate();
+      reply.send({
+        success: true,
+        applied,
+      });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error applying migrations');
+
+      if (error instanceof MigrationError) {
+        reply.code(409).send({
+          error: 'Conflict',
+          message: error.message,
+        });
+        return;
+      }
+
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to apply migrations',
+      });
+    }
+  });
+
+  // List API keys with their public prefix (secrets and hashes are never returned)
+  fastify.get('/api-keys', {
+    schema: {
+      description: 'List API keys',
+      tags: ['admin'],
+      security: [{ apiKey: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            apiKeys: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  name: { type: 'string' },
+                  prefix: { type: 'string' },
+                  projectId: { type: ['string', 'null'] },
+                  permissions: { type: 'array', items: { type: 'string' } },
+                  roles: { type: 'array', items: { type: 'string' } },
+                  rateLimit: { type: ['number', 'null'] },
+                  expiresAt: { type: ['string', 'null'] },
+                  createdAt: { type: 'string' },
+                  lastUsedAt: { type: ['string', 'null'] },
+                  isActive: { type: 'boolean' },
+                  rotationRequired: { type: 'boolean' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('admin:api-keys')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const apiKeys = await getAuthManager().listApiKeys(request.projectId);
+      reply.send({ apiKeys });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error listing API keys');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to list API keys',
+      });
+    }
+  });
+
+  // Create an API key; the full key is only returned in this response. The key is scoped
+  // to the resolved request project, so a project-scoped admin can only mint keys for it.
+  fastify.post('/api-keys', {
+    schema: {
+      description: 'Create an API key',
+      tags: ['admin'],
+      security: [{ apiKey: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          permissions: {
+            type: 'array',
+            items: { type: 'string', pattern: PERMISSION_GRANT_PATTERN },
+          },
+          roles: { type: 'array', items: { type: 'string' } },
+          rateLimit: { type: 'integer', minimum: 1 },
+          expiresAt: { type: 'string', format: 'date-time' },
+          projectId: { type: 'string' },
+        },
+        required: ['name'],
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            key: { type: 'string' },
+            apiKey: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                name: { type: 'string' },
+                prefix: { type: 'string' },
+                projectId: { type: ['string', 'null'] },
+                permissions: { type: 'array', items: { type: 'string' } },
+                roles: { type: 'array', items: { type: 'string' } },
+                rateLimit: { type: ['number', 'null'] },
+                expiresAt: { type: ['string', 'null'] },
+                createdAt: { type: 'string' },
+                isActive: { type: 'boolean' },
+              },
+            },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('admin:api-keys')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = request.body as {
+        name: string;
+        permissions?: string[];
+        roles?: string[];
+        rateLimit?: number;
+        expiresAt?: string;
+      };
+
+      const auth = getAuthManager();
+      const permissions = body.permissions ?? (body.roles?.length ? [] : ['read']);
+      const ungrantable = await auth.findUngrantable(request.apiKey!, { permissions, roles: body.roles });
+      if (ungrantable.length > 0) {
+        reply.code(403).send({
+          error: 'Forbidden',
+          message: `Cannot grant access this API key does not hold: ${ungrantable.join(', ')}`,
+        });
+        return;
+      }
+
+      const { key, apiKey } = await auth.generateApiKey(
+        body.name,
+        permissions,
+        body.rateLimit,
+        body.expiresAt,
+        request.projectId,
+        body.roles
+      );
+
+      reply.code(201).send({ key, apiKey });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error creating API key');
+
+      if (error instanceof z.ZodError) {
+        reply.code(400).send({
+          error: 'Validation Error',
+          message: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+        });
+        return;
+      }
+
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create API key',
+      });
+    }
+  });
+
+  // Revoke an API key
+  fastify.delete('/api-keys/:id', {
+    schema: {
+      description: 'Revoke an API key',
+      tags: ['admin'],
+      security: [{ apiKey: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+        required: ['id'],
+      },
+    },
+    preHandler: [requirePermission('admin:api-keys')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const revoked = await getAuthManager().revokeApiKey(id, request.projectId);
+
+      if (!revoked) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: `API key ${id} not found`,
+        });
+        return;
+      }
+
+      reply.send({ success: true });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error revoking API key');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to revoke API key',
+      });
+    }
+  });
+
+  // Change the direct permissions and/or roles of an API key
+  fastify.patch('/api-keys/:id', {
+    schema: {
+      description: 'Update the permissions and roles of an API key',
+      tags: ['admin'],
+      security: [{ apiKey: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+        required: ['id'],
+      },
+      body: {
+        type: 'object',
+        properties: {
+          permissions: {
+            type: 'array',
+            items: { type: 'string', pattern: PERMISSION_GRANT_PATTERN },
+          },
+          roles: { type: 'array', items: { type: 'string' } },
+        },
+      },
+    },
+    preHandler: [requirePermission('admin:api-keys')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const body = request.body as { permissions?: string[]; roles?: string[] };
+
+      const auth = getAuthManager();
+      const ungrantable = await auth.findUngrantable(request.apiKey!, body);
+      if (ungrantable.length > 0) {
+        reply.code(403).send({
+          error: 'Forbidden',
+          message: `Cannot grant access this API key does not hold: ${ungrantable.join(', ')}`,
+        });
+        return;
+      }
+
+      const updated = await auth.updateApiKeyAccess(id, body, request.projectId);
+      if (!updated) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: `API key ${id} not found`,
+        });
+        return;
+      }
+
+      reply.send({ success: true });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error updating API key');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update API key',
+      });
+    }
+  });
+
+  // List built-in and custom roles along with every permission routes can require
+  fastify.get('/roles', {
+    schema: {
+      description: 'List roles and available permissions',
+      tags: ['admin'],
+      security: [{ apiKey: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            roles: {
+              type: 'array',
+              items: { type: 'object', properties: roleProperties },
+            },
+            permissions: { type: 'array', items: { type: 'string' } },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('admin:roles')],
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const roles = await getRoleManager().listRoles();
+      reply.send({ roles, permissions: PERMISSIONS });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error listing roles');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to list roles',
+      });
+    }
+  });
+
+  // Create or replace a custom role. Roles are shared by every project.
+  fastify.put('/roles/:name', {
+    schema: {
+      description: 'Create or update a custom role',
+      tags: ['admin'],
+      security: [{ apiKey: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', pattern: '^[a-z0-9][a-z0-9-]*$', maxLength: 64 },
+        },
+        required: ['name'],
+      },
+      body: {
+        type: 'object',
+        properties: {
+          description: { type: 'string', maxLength: 255 },
+          permissions: {
+            type: 'array',
+            minItems: 1,
+            items: { type: 'string', pattern: PERMISSION_GRANT_PATTERN },
+          },
+        },
+        required: ['permissions'],
+      },
+      response: {
+        200: { type: 'object', properties: roleProperties },
+      },
+    },
+    preHandler: [requirePermission('admin:roles'), requireCrossProjectAccess()],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { name } = request.params as { name: string };
+      const body = request.body as { description?: string; permissions: string[] };
+      const roles = getRoleManager();
+
+      const existing = await roles.getRole(name);
+      if (existing?.builtIn) {
+        reply.code(400).send({
+          error: 'Bad Request',
+          message: `Built-in role '${name}' cannot be modified`,
+        });
+        return;
+      }
+
+      const ungrantable = await getAuthManager().findUngrantable(request.apiKey!, { permissions: body.permissions });
+      if (ungrantable.length > 0) {
+        reply.code(403).send({
+          error: 'Forbidden',
+          message: `Cannot grant access this API key does not hold: ${ungrantable.join(', ')}`,
+        });
+        return;
+      }
+
+      const role = await roles.saveRole({ name, ...body });
+      reply.send(role);
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error saving role');
+
+      if (error instanceof z.ZodError) {
+        reply.code(400).send({
+          error: 'Validation Error',
+          message: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+        });
+        return;
+      }
+
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to save role',
+      });
+    }
+  });
+
+  // Delete a custom role; API keys holding it lose the role
+  fastify.delete('/roles/:name', {
+    schema: {
+      description: 'Delete a custom role',
+      tags: ['admin'],
+      security: [{ apiKey: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+        },
+        required: ['name'],
+      },
+    },
+    preHandler: [requirePermission('admin:roles'), requireCrossProjectAccess()],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { name } = request.params as { name: string };
+      const roles = getRoleManager();
+
+      const existing = await roles.getRole(name);
+      if (existing?.builtIn) {
+        reply.code(400).send({
+          error: 'Bad Request',
+          message: `Built-in role '${name}' cannot be deleted`,
+        });
+        return;
+      }
+
+      const deleted = await roles.deleteRole(name);
+      if (!deleted) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: `Role ${name} not found`,
+        });
+        return;
+      }
+
+      reply.send({ success: true });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error deleting role');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete role',
+      });
+    }
+  });
+
+  // Re-verify the audit trail as stored: hashes, links, sequence gaps and signed checkpoints.
+  // Reads every entry, so it takes a while on long trails.
+  fastify.get('/audit/verify', {
+    schema: {
+      description: 'Verify the stored admin audit trail',
+      tags: ['admin'],
+      security: [{ apiKey: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            valid: { type: 'boolean' },
+            stores: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  store: { type: 'string' },
+                  isValid: { type: 'boolean' },
+                  totalEntries: { type: 'number' },
+                  headHash: { type: 'string' },
+                  checkpoints: { type: 'number' },
+                  verifiedCheckpoints: { type: 'number' },
+                  uncheckpointedEntries: { type: 'number' },
+                  errors: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        sequence: { type: 'number' },
+                        checkpointId: { type: 'string' },
+                        reason: { type: 'string' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('admin:audit'), requireCrossProjectAccess()],
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const stores = await verifyAuditStorage();
+      reply.send({ valid: stores.every(result => result.isValid), stores });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error verifying audit trail');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to verify audit trail',
+      });
+    }
+  });
+}
@@ -5,7 +5,8 @@ import { getRedis } from '../redis';
 import { getWebSocketManager } from '../websocket';
 import { requirePermission } from '../middleware';
 import { AlertConfigSchema } from '../types';
-import * as cron from 'node-cron';
+import { evaluateCondition, resolveEscalation } from '../alerting';
+import { getWriteProjectId } from '../projects';
 
 // Request schemas
 const CreateAlertSchema = z.object({
@@ -30,6 +31,7 @@ const QueryAlertInstancesSchema = z.object({
   query: z.object({
     alertConfigId: z.string().uuid().optional(),
     status: z.enum(['active', 'resolved']).optional(),
+    suppressed: z.coerce.boolean().optional(),
     startTime: z.string().datetime().optional(),
     endTime: z.string().datetime().optional(),
     severity: z.array(z.string()).or(z.string()).optional(),
@@ -48,13 +50,6 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
   const db = getDatabase();
   const redis = getRedis();
 
-  // Initialize alert checking cron job
-  cron.schedule('* * * * *', () => {
-    checkAlerts().catch(error => {
-      console.error('Error in alert checking cron job:', error);
-    });
-  });
-
   // Create alert configuration
   fastify.post<{ Body: z.infer<typeof CreateAlertSchema.shape.body> }>('/', {
     schema: {
@@ -110,19 +105,20 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
         },
       },
     } as any,
-    preHandler: [requirePermission('write')],
+    preHandler: [requirePermission('alerts:write')],
   }, async (request, reply) => {
     try {
       const { body } = CreateAlertSchema.parse(request);
       
       // Validate alert configuration
       const validatedAlert = AlertConfigSchema.parse(body);
+      const projectId = getWriteProjectId(request);
 
       // Store in database
       const result = await db.query(`
         INSERT INTO alert_configs (
-          name, description, enabled, conditions, actions, cooldown, severity, tags
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          name, description, enabled, conditions, actions, cooldown, severity, tags, project_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
         RETURNING id
       `, [
         validatedAlert.name,
@@ -133,6 +129,7 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
         validatedAlert.cooldown,
         validatedAlert.severity,
         validatedAlert.tags || [],
+        projectId,
       ]);
 
       const alertId = result.rows[0].id;
@@ -141,6 +138,7 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
       await redis.setJSON(`alert:config:${alertId}`, {
         ...validatedAlert,
         id: alertId,
+        projectId,
       });
 
       reply.code(201).send({
@@ -213,7 +211,7 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
         },
       },
     } as any,
-    preHandler: [requirePermission('read')],
+    preHandler: [requirePermission('alerts:read')],
   }, async (request, reply) => {
     try {
       const { query } = QueryAlertsSchema.parse(request);
@@ -223,6 +221,11 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
       const params: any[] = [];
       let paramCount = 0;
 
+      if (request.projectId) {
+        conditions.push(`project_id = $${++paramCount}`);
+        params.push(request.projectId);
+      }
+
       if (query.enabled !== undefined) {
         conditions.push(`enabled = $${++paramCount}`);
         params.push(query.enabled);
@@ -253,7 +256,7 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
       const alertsResult = await db.query(`
         SELECT 
           id, name, description, enabled, conditions, actions, 
-          cooldown, severity, tags, created_at, updated_at
+          cooldown, severity, tags, project_id, created_at, updated_at
         FROM alert_configs 
         ${whereClause}
         ORDER BY created_at DESC
@@ -301,6 +304,7 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
             cooldown: { type: 'number' },
             severity: { type: 'string' },
             tags: { type: 'array', items: { type: 'string' } },
+            project_id: { type: 'string' },
           },
         },
         404: {
@@ -312,15 +316,15 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
         },
       },
     } as any,
-    preHandler: [requirePermission('read')],
+    preHandler: [requirePermission('alerts:read')],
   }, async (request, reply) => {
     try {
       const result = await db.query(`
         SELECT 
           id, name, description, enabled, conditions, actions,
-          cooldown, severity, tags, created_at, updated_at
-        FROM alert_configs WHERE id = $1
-      `, [request.params.id]);
+          cooldown, severity, tags, project_id, created_at, updated_at
+        FROM alert_configs WHERE id = $1 AND ($2::uuid IS NULL OR project_id = $2)
+      `, [request.params.id, request.projectId ?? null]);
 
       if (result.rows.length === 0) {
         reply.code(404).send({
@@ -402,13 +406,13 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
         },
       },
     } as any,
-    preHandler: [requirePermission('write')],
+    preHandler: [requirePermission('alerts:write')],
   }, async (request, reply) => {
     try {
       const { body } = UpdateAlertSchema.parse(request);
       const updateFields: string[] = [];
-      const params: any[] = [request.params.id];
-      let paramCount = 1;
+      const params: any[] = [request.params.id, request.projectId ?? null];
+      let paramCount = 2;
 
       // Build dynamic UPDATE query
       if (body.name !== undefined) {
@@ -464,7 +468,7 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
       const result = await db.query(`
         UPDATE alert_configs 
         SET ${updateFields.join(', ')}
-        WHERE id = $1
+        WHERE id = $1 AND ($2::uuid IS NULL OR project_id = $2)
         RETURNING id
       `, params);
 
@@ -526,10 +530,13 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
         },
       },
     } as any,
-    preHandler: [requirePermission('admin')],
+    preHandler: [requirePermission('alerts:delete')],
   }, async (request, reply) => {
     try {
-      const result = await db.query('DELETE FROM alert_configs WHERE id = $1', [request.params.id]);
+      const result = await db.query(
+        'DELETE FROM alert_configs WHERE id = $1 AND ($2::uuid IS NULL OR project_id = $2)',
+        [request.params.id, request.projectId ?? null]
+      );
 
       if (result.rowCount === 0) {
         reply.code(404).send({
@@ -586,13 +593,14 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
         },
       },
     } as any,
-    preHandler: [requirePermission('write')],
+    preHandler: [requirePermission('alerts:write')],
   }, async (request, reply) => {
     try {
       // Get alert configuration
       const alertResult = await db.query(`
-        SELECT * FROM alert_configs WHERE id = $1 AND enabled = true
-      `, [request.params.id]);
+        SELECT * FROM alert_configs
+        WHERE id = $1 AND enabled = true AND ($2::uuid IS NULL OR project_id = $2)
+      `, [request.params.id, request.projectId ?? null]);
 
       if (alertResult.rows.length === 0) {
         reply.code(404).send({
@@ -613,10 +621,10 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
         // Get latest metric value from database
         const metricResult = await db.query(`
           SELECT value FROM metrics 
-          WHERE name = $1 
+          WHERE name = $1 AND project_id = $2
           ORDER BY timestamp DESC 
           LIMIT 1
-        `, [conditions.metric]);
+        `, [conditions.metric, alertConfig.project_id]);
 
         if (metricResult.rows.length === 0) {
           reply.code(400).send({
@@ -663,6 +671,7 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
         properties: {
           alertConfigId: { type: 'string', format: 'uuid' },
           status: { type: 'string', enum: ['active', 'resolved'] },
+          suppressed: { type: 'boolean' },
           startTime: { type: 'string', format: 'date-time' },
           endTime: { type: 'string', format: 'date-time' },
           severity: { oneOf: [{ type: 'array', items: { type: 'string' } }, { type: 'string' }] },
@@ -687,6 +696,13 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
                   trigger_value: { type: 'number' },
                   message: { type: 'string' },
                   metadata: { type: 'object' },
+                  // Alert pipeline decisions; NULL for instances from before the pipeline
+                  suppressed: { type: 'boolean' },
+                  suppressed_by: { type: ['string', 'null'] },
+                  dedup_group_id: { type: ['string', 'null'] },
+                  impact_score: { type: ['number', 'null'] },
+                  escalation_id: { type: ['string', 'null'] },
+                  pipeline: { type: ['object', 'null'] },
                 },
               },
             },
@@ -702,7 +718,7 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
         },
       },
     } as any,
-    preHandler: [requirePermission('read')],
+    preHandler: [requirePermission('alerts:read')],
   }, async (request, reply) => {
     try {
       const { query } = QueryAlertInstancesSchema.parse(request);
@@ -712,6 +728,11 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
       const params: any[] = [];
       let paramCount = 0;
 
+      if (request.projectId) {
+        conditions.push(`ac.project_id = $${++paramCount}`);
+        params.push(request.projectId);
+      }
+
       if (query.alertConfigId) {
         conditions.push(`ai.alert_config_id = $${++paramCount}`);
         params.push(query.alertConfigId);
@@ -722,6 +743,11 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
         params.push(query.status);
       }
 
+      if (query.suppressed !== undefined) {
+        conditions.push(`ai.suppressed = $${++paramCount}`);
+        params.push(query.suppressed);
+      }
+
       if (query.startTime) {
         conditions.push(`ai.triggered_at >= $${++paramCount}`);
         params.push(query.startTime);
@@ -755,7 +781,9 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
         SELECT 
           ai.id, ai.alert_config_id, ai.triggered_at, ai.resolved_at,
           ai.status, ai.trigger_value, ai.message, ai.metadata,
-          ac.name as alert_name, ac.severity
+          ai.suppressed, ai.suppressed_by, ai.dedup_group_id, ai.impact_score,
+          ai.escalation_id, ai.pipeline,
+          ac.name as alert_name, ac.severity, ac.project_id
         FROM alert_instances ai 
         LEFT JOIN alert_configs ac ON ai.alert_config_id = ac.id
         ${whereClause}
@@ -802,15 +830,20 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
         },
       },
     } as any,
-    preHandler: [requirePermission('write')],
+    preHandler: [requirePermission('alerts:acknowledge')],
   }, async (request, reply) => {
     try {
       const result = await db.query(`
         UPDATE alert_instances 
         SET status = 'resolved', resolved_at = NOW()
         WHERE id = $1 AND status = 'active'
-        RETURNING id
-      `, [request.params.id]);
+          AND ($2::uuid IS NULL OR alert_config_id IN (
+            SELECT id FROM alert_configs WHERE project_id = $2
+          ))
+        RETURNING id, escalation_id, (
+          SELECT project_id FROM alert_configs WHERE id = alert_instances.alert_config_id
+        ) as project_id
+      `, [request.params.id, request.projectId ?? null]);
 
       if (result.rows.length === 0) {
         reply.code(404).send({
@@ -820,12 +853,15 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
         return;
       }
 
+      await resolveEscalation(result.rows[0].escalation_id, request.apiKey?.name ?? 'api');
+
       // Publish resolution to WebSocket
       const wsManager = getWebSocketManager();
       wsManager.broadcast('alerts:realtime', {
         type: 'alert',
         data: {
           instanceId: request.params.id,
+          projectId: result.rows[0].project_id,
           status: 'resolved',
           resolvedAt: new Date().toISOString(),
         },
@@ -843,211 +879,4 @@ export default async function alertsRoutes(fastify: FastifyInstance): Promise<vo
       });
     }
   });
-
-  // Alert checking function (called by cron job)
-  async function checkAlerts(): Promise<void> {
-    try {
-      // Get all enabled alert configurations
-      const alertConfigs = await db.query(`
-        SELECT * FROM alert_configs WHERE enabled = true
-      `);
-
-      for (const config of alertConfigs.rows) {
-        await checkSingleAlert(config);
-      }
-    } catch (error) {
-      console.error('Error in alert checking:', error);
-    }
-  }
-
-  // Check a single alert configuration
-  async function checkSingleAlert(config: any): Promise<void> {
-    try {
-      const conditions = config.conditions;
-      const now = new Date();
-      const timeWindow = conditions.timeWindow || 300; // Default 5 minutes
-      const checkTime = new Date(now.getTime() - timeWindow * 1000);
-
-      // Get metric data for the time window
-      const metricResult = await db.query(`
-        SELECT AVG(value) as avg_value, MAX(value) as max_value, MIN(value) as min_value, COUNT(*) as count
-        FROM metrics 
-        WHERE name = $1 AND timestamp >= $2 AND timestamp <= $3
-      `, [conditions.metric, checkTime.toISOString(), now.toISOString()]);
-
-      if (metricResult.rows.length === 0 || metricResult.rows[0].count === 0) {
-        return; // No data available
-      }
-
-      const data = metricResult.rows[0];
-      let value: number;
-
-      // Determine which value to use based on aggregation (default to average)
-      switch (conditions.aggregation || 'avg') {
-        case 'max':
-          value = parseFloat(data.max_value);
-          break;
-        case 'min':
-          value = parseFloat(data.min_value);
-          break;
-        case 'count':
-          value = parseInt(data.count);
-          break;
-        default:
-          value = parseFloat(data.avg_value);
-      }
-
-      // Check if condition is met
-      const conditionMet = evaluateCondition(value, conditions);
-
-      if (conditionMet) {
-        // Check for cooldown period
-        const lastAlert = await db.query(`
-          SELECT triggered_at FROM alert_instances 
-          WHERE alert_config_id = $1 
-          ORDER BY triggered_at DESC 
-          LIMIT 1
-        `, [config.id]);
-
-        if (lastAlert.rows.length > 0) {
-          const lastAlertTime = new Date(lastAlert.rows[0].triggered_at);
-          const cooldownExpiry = new Date(lastAlertTime.getTime() + config.cooldown * 1000);
-          
-          if (now < cooldownExpiry) {
-            return; // Still in cooldown period
-          }
-        }
-
-        // Trigger alert
-        await triggerAlert(config, value);
-      }
-    } catch (error) {
-      console.error(`Error checking alert ${config.name}:`, error);
-    }
-  }
-
-  // Evaluate alert condition
-  function evaluateCondition(value: number, conditions: any): boolean {
-    const threshold = conditions.threshold;
-    
-    switch (conditions.operator) {
-      case 'gt':
-        return value > threshold;
-      case 'gte':
-        return value >= threshold;
-      case 'lt':
-        return value < threshold;
-      case 'lte':
-        return value <= threshold;
-      case 'eq':
-        return value === threshold;
-      case 'ne':
-        return value !== threshold;
-      default:
-        return false;
-    }
-  }
-
-  // Trigger alert
-  async function triggerAlert(config: any, triggerValue: number): Promise<void> {
-    try {
-      // Create alert instance
-      const instanceResult = await db.query(`
-        INSERT INTO alert_instances (
-          alert_config_id, triggered_at, status, trigger_value, message, metadata
-        ) VALUES ($1, NOW(), 'active', $2, $3, $4)
-        RETURNING id
-      `, [
-        config.id,
-        triggerValue,
-        `Alert ${config.name} triggered: value ${triggerValue} ${config.conditions.operator} ${config.conditions.threshold}`,
-        JSON.stringify({ conditions: config.conditions }),
-      ]);
-
-      const instanceId = instanceResult.rows[0].id;
-
-      // Update server stats
-      if (fastify.stats) {
-        fastify.stats.alertsTriggered++;
-      }
-
-      // Publish to Redis and WebSocket
-      const alertData = {
-        instanceId,
-        configId: config.id,
-        name: config.name,
-        severity: config.severity,
-        triggerValue,
-        message: `Alert ${config.name} triggered`,
-        triggeredAt: new Date().toISOString(),
-      };
-
-      await redis.publish('alerts:realtime', alertData);
-
-      const wsManager = getWebSocketManager();
-      wsManager.broadcast('alerts:realtime', {
-        type: 'alert',
-        data: alertData,
-      });
-
-      // Execute alert actions
-      for (const action of config.actions) {
-        await executeAlertAction(action, config, triggerValue);
-      }
-
-      console.log(`Alert triggered: ${config.name} (value: ${triggerValue})`);
-    } catch (error) {
-      console.error(`Error triggering alert ${config.name}:`, error);
-    }
-  }
-
-  // Execute alert action (webhook, email, etc.)
-  async function executeAlertAction(action: any, config: any, triggerValue: number): Promise<void> {
-    try {
-      const payload = {
-        alert: {
-          name: config.name,
-          severity: config.severity,
-          triggerValue,
-          threshold: config.conditions.threshold,
-          operator: config.conditions.operator,
-          metric: config.conditions.metric,
-        },
-        timestamp: new Date().toISOString(),
-      };
-
-      switch (action.type) {
-        case 'webhook':
-          // Send webhook (using fetch or axios)
-          console.log(`Sending webhook to ${action.endpoint}:`, payload);
-          // Implementation would depend on chosen HTTP client
-          break;
-          
-        case 'slack':
-          // Send Slack notification
-          console.log(`Sending Slack notification:`, payload);
-          break;
-          
-        case 'discord':
-          // Send Discord notification
-          console.log(`Sending Discord notification:`, payload);
-          break;
-          
-        case 'email':
-          // Send email notification
-          console.log(`Sending email notification:`, payload);
-          break;
-          
-        case 'pagerduty':
-          // Send PagerDuty alert
-          console.log(`Sending PagerDuty alert:`, payload);
-          break;
-          
-        default:
-          console.warn(`Unknown alert action type: ${action.type}`);
-      }
-    } catch (error) {
-      console.error(`Error executing alert action ${action.type}:`, error);
-    }
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,259 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import {
+  parseSlackCommand,
+  parseSlackInteraction,
+  parseTeamsAction,
+  parseTwilioReply,
+  parseVoiceGather,
+  verifySlackSignature,
+  verifyTwilioSignature,
+  type ChatOpsCommand,
+  type ChatOpsResult,
+} from '@monitoring-service/notifications';
+import { getChatOps } from '../notifications';
+
+const SLACK_USAGE = 'Usage: /alert ack|esc|res <escalationId> [notes]';
+const SMS_USAGE = 'Reply ACK, ESC or RES with the alert code, e.g. ACK 12';
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function formParams(body: string): Record<string, string> {
+  return Object.fromEntries(new URLSearchParams(body));
+}
+
+function sendTwiml(reply: FastifyReply, verb: 'Message' | 'Say', text: string): void {
+  reply
+    .type('text/xml')
+    .send(`<?xml version="1.0" encoding="UTF-8"?><Response><${verb}>${escapeXml(text)}</${verb}></Response>`);
+}
+
+// Inbound chat ops: buttons, slash commands, SMS replies and key presses that acknowledge,
+// escalate or resolve alerts. Platforms can't send API keys, so each request is checked
+// against its platform's signature instead, and endpoints stay 404 until their credential is set.
+export default async function chatOpsRoutes(fastify: FastifyInstance): Promise<void> {
+  const chatOps = getChatOps();
+  const { slackSigningSecret, twilioAuthToken, publicUrl } = chatOps.options;
+
+  // Signatures cover the exact bytes sent, so bodies are parsed in the handlers.
+  // Parsers registered here only apply to this plugin's routes.
+  const rawBody = (_request: FastifyRequest, body: string, done: (err: Error | null, body?: string) => void) => {
+    done(null, body);
+  };
+  fastify.removeContentTypeParser('application/json');
+  fastify.addContentTypeParser('application/json', { parseAs: 'string' }, rawBody);
+  fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, rawBody);
+
+  const execute = async (request: FastifyRequest, command: ChatOpsCommand): Promise<ChatOpsResult> => {
+    const result = await chatOps.handler.execute(command);
+    request.log.info({ command, success: result.success }, 'Chat ops command');
+    return result;
+  };
+
+  const verifySlack = (request: FastifyRequest, reply: FastifyReply): boolean => {
+    if (!slackSigningSecret) {
+      reply.code(404).send({ error: 'Not Found', message: 'Slack chat ops not configured' });
+      return false;
+    }
+    const valid = verifySlackSignature(
+      slackSigningSecret,
+      (request.body as string | undefined) ?? '',
+      String(request.headers['x-slack-request-timestamp'] ?? ''),
+      String(request.headers['x-slack-signature'] ?? '')
+    );
+    if (!valid) {
+      reply.code(401).send({ error: 'Unauthorized', message: 'Invalid Slack signature' });
+    }
+    return valid;
+  };
+
+  const verifyTwilio = (request: FastifyRequest, reply: FastifyReply, params: Record<string, string>): boolean => {
+    if (!twilioAuthToken) {
+      reply.code(404).send({ error: 'Not Found', message: 'Twilio chat ops not configured' });
+      return false;
+    }
+    const valid = verifyTwilioSignature(
+      twilioAuthToken,
+      `${publicUrl.replace(/\/$/, '')}${request.url}`,
+      params,
+      String(request.headers['x-twilio-signature'] ?? '')
+    );
+    if (!valid) {
+      reply.code(401).send({ error: 'Unauthorized', message: 'Invalid Twilio signature' });
+    }
+    return valid;
+  };
+
+  // Slack interactivity: Acknowledge, Escalate and Resolve buttons
+  fastify.post('/slack/actions', {
+    schema: {
+      description: 'Slack interactivity requests from alert buttons',
+      tags: ['chatops'],
+    },
+  }, async (request, reply) => {
+    if (!verifySlack(request, reply)) return;
+
+    let payload: any;
+    try {
+      payload = JSON.parse(formParams(request.body as string).payload ?? '');
+    } catch {
+      reply.code(400).send({ error: 'Bad Request', message: 'Invalid Slack interaction payload' });
+      return;
+    }
+
+    const command = parseSlackInteraction(payload);
+    if (!command) {
+      reply.code(200).send();
+      return;
+    }
+
+    // Slack ignores the response body for block actions; replies go to the response URL
+    const result = await execute(request, command);
+    if (typeof payload.response_url === 'string' && payload.response_url.startsWith('https://hooks.slack.com/')) {
+      await fetch(payload.response_url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          response_type: result.success ? 'in_channel' : 'ephemeral',
+          replace_original: false,
+          text: result.message,
+        }),
+      }).catch(error => request.log.warn({ error }, 'Failed to post Slack chat ops reply'));
+    }
+    reply.code(200).send();
+  });
+
+  // Slack slash command: /alert ack|esc|res <escalationId> [notes]
+  fastify.post('/slack/commands', {
+    schema: {
+      description: 'Slack slash command to acknowledge, escalate or resolve an alert',
+      tags: ['chatops'],
+    },
+  }, async (request, reply) => {
+    if (!verifySlack(request, reply)) return;
+
+    const command = parseSlackCommand(formParams(request.body as string));
+    if (!command) {
+      reply.send({ response_type: 'ephemeral', text: SLACK_USAGE });
+      return;
+    }
+
+    const result = await execute(request, command);
+    reply.send({ response_type: result.success ? 'in_channel' : 'ephemeral', text: result.message });
+  });
+
+  // Teams adaptive card actions delivered by Bot Framework
+  fastify.post('/teams/actions', {
+    schema: {
+      description: 'Bot Framework activities from Teams alert cards',
+      tags: ['chatops'],
+    },
+  }, async (request, reply) => {
+    if (!chatOps.teamsVerifier) {
+      reply.code(404).send({ error: 'Not Found', message: 'Teams chat ops not configured' });
+      return;
+    }
+    if (!await chatOps.teamsVerifier.verify(request.headers.authorization)) {
+      reply.code(401).send({ error: 'Unauthorized', message: 'Invalid Bot Framework token' });
+      return;
+    }
+
+    let activity: any;
+    try {
+      activity = JSON.parse((request.body as string | undefined) || '{}');
+    } catch {
+      reply.code(400).send({ error: 'Bad Request', message: 'Invalid Teams activity' });
+      return;
+    }
+
+    const command = parseTeamsAction(activity);
+    if (!command) {
+      reply.code(200).send();
+      return;
+    }
+
+    const result = await execute(request, command);
+
+    // Action.Execute expects an invoke response; Action.Submit only needs the 200
+    if (activity.type === 'invoke') {
+      reply.send({
+        statusCode: 200,
+        type: 'application/vnd.microsoft.activity.message',
+        value: result.message,
+      });
+      return;
+    }
+    reply.code(200).send();
+  });
+
+  // Twilio messaging webhook: SMS and WhatsApp replies such as "ACK 12"
+  fastify.post('/twilio/sms', {
+    schema: {
+      description: 'Inbound SMS and WhatsApp replies from Twilio',
+      tags: ['chatops'],
+    },
+  }, async (request, reply) => {
+    const params = formParams((request.body as string | undefined) ?? '');
+    if (!verifyTwilio(request, reply, params)) return;
+
+    const command = await parseTwilioReply(params, chatOps.replies);
+    if (!command) {
+      sendTwiml(reply, 'Message', SMS_USAGE);
+      return;
+    }
+
+    const result = await execute(request, command);
+    sendTwiml(reply, 'Message', result.message);
+  });
+
+  // Twilio voice status callbacks; call status is tracked by the notification workers
+  fastify.post('/twilio/voice', {
+    schema: {
+      description: 'Twilio voice call status callbacks',
+      tags: ['chatops'],
+    },
+  }, async (request, reply) => {
+    const params = formParams((request.body as string | undefined) ?? '');
+    if (!verifyTwilio(request, reply, params)) return;
+
+    reply.code(204).send();
+  });
+
+  // Key presses gathered during an alert call: 1 acknowledges, 2 escalates
+  fastify.post<{ Querystring: Record<string, string> }>('/twilio/voice/acknowledge', {
+    schema: {
+      description: 'Key presses from Twilio alert calls',
+      tags: ['chatops'],
+      querystring: {
+        type: 'object',
+        properties: {
+          notificationId: { type: 'string' },
+          escalationId: { type: 'string' },
+        },
+      },
+    } as any,
+  }, async (request, reply) => {
+    const params = formParams((request.body as string | undefined) ?? '');
+    if (!verifyTwilio(request, reply, params)) return;
+
+    const { notificationId, escalationId } = request.query;
+    const command = parseVoiceGather({
+      ...params,
+      ...(notificationId && { notificationId }),
+      ...(escalationId && { escalationId }),
+    });
+    if (!command) {
+      sendTwiml(reply, 'Say', 'No action taken. This alert will remain active.');
+      return;
+    }
+
+    const result = await execute(request, command);
+    sendTwiml(reply, 'Say', result.success ? `${result.message}. Goodbye.` : result.message);
+  });
+}
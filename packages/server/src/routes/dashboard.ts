@@ -3,6 +3,8 @@ import { z } from 'zod';
 import { getDatabase } from '../database';
 import { getRedis } from '../redis';
 import { requirePermission } from '../middleware';
+import { getRetentionManager, rollupAggregate } from '../retention';
+import { DEFAULT_PROJECT_ID, getWriteProjectId } from '../projects';
 // Dashboard route interfaces
 interface OverviewQueryInterface extends RouteGenericInterface {
   Querystring: z.infer<typeof OverviewStatsSchema.shape.query>;
@@ -119,7 +121,7 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
         },
       },
     },
-    preHandler: [requirePermission('read')],
+    preHandler: [requirePermission('dashboard:read')],
   }, async (request: FastifyRequest<OverviewQueryInterface>, reply: FastifyReply) => {
     try {
       const query = request.query;
@@ -132,6 +134,7 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
       const duration = new Date(endTime).getTime() - new Date(startTime).getTime();
       const previousStartTime = new Date(new Date(startTime).getTime() - duration).toISOString();
       const previousEndTime = startTime;
+      const projectId = request.projectId ?? null;
 
       // Get current period stats
       const [eventsResult, metricsResult, alertsResult] = await Promise.all([
@@ -143,7 +146,8 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
             AVG(EXTRACT(EPOCH FROM (NOW() - timestamp))) as avg_age
           FROM events 
           WHERE timestamp >= $1 AND timestamp <= $2
-        `, [startTime, endTime]),
+            AND ($3::uuid IS NULL OR project_id = $3)
+        `, [startTime, endTime, projectId]),
 
         // Total metrics in current period  
         db.query(`
@@ -152,14 +156,17 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
             AVG(value) FILTER (WHERE name LIKE '%response_time%') as avg_response_time
           FROM metrics 
           WHERE timestamp >= $1 AND timestamp <= $2
-        `, [startTime, endTime]),
+            AND ($3::uuid IS NULL OR project_id = $3)
+        `, [startTime, endTime, projectId]),
 
         // Active alerts
         db.query(`
           SELECT COUNT(*) as active_alerts
-          FROM alert_instances 
-          WHERE status = 'active'
-        `),
+          FROM alert_instances ai
+          JOIN alert_configs ac ON ai.alert_config_id = ac.id
+          WHERE ai.status = 'active'
+            AND ($1::uuid IS NULL OR ac.project_id = $1)
+        `, [projectId]),
       ]);
 
       // Get previous period stats for trends
@@ -168,7 +175,8 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
           SELECT COUNT(*) as total
           FROM events 
           WHERE timestamp >= $1 AND timestamp <= $2
-        `, [previousStartTime, previousEndTime]),
+            AND ($3::uuid IS NULL OR project_id = $3)
+        `, [previousStartTime, previousEndTime, projectId]),
 
         db.query(`
           SELECT 
@@ -176,7 +184,8 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
             AVG(value) FILTER (WHERE name LIKE '%response_time%') as avg_response_time
           FROM metrics 
           WHERE timestamp >= $1 AND timestamp <= $2
-        `, [previousStartTime, previousEndTime]),
+            AND ($3::uuid IS NULL OR project_id = $3)
+        `, [previousStartTime, previousEndTime, projectId]),
       ]);
 
       // Get top sources
@@ -189,17 +198,19 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
           SELECT source, COUNT(*) as event_count
           FROM events 
           WHERE timestamp >= $1 AND timestamp <= $2
+            AND ($3::uuid IS NULL OR project_id = $3)
           GROUP BY source
         ) e
         FULL OUTER JOIN (
           SELECT source, COUNT(*) as metric_count
           FROM metrics 
           WHERE timestamp >= $1 AND timestamp <= $2
+            AND ($3::uuid IS NULL OR project_id = $3)
           GROUP BY source
         ) m ON e.source = m.source
         ORDER BY (COALESCE(e.event_count, 0) + COALESCE(m.metric_count, 0)) DESC
         LIMIT 10
-      `, [startTime, endTime]);
+      `, [startTime, endTime, projectId]);
 
       // Calculate summary
       const currentStats = {
@@ -287,7 +298,7 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
         },
       },
     },
-    preHandler: [requirePermission('read')],
+    preHandler: [requirePermission('dashboard:read')],
   }, async (request: FastifyRequest<TimeSeriesQueryInterface>, reply: FastifyReply) => {
     try {
       const query = request.query;
@@ -303,17 +314,25 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
       };
 
       const bucketInterval = intervalMap[query.interval];
-      const aggFunction = query.aggregation === 'count' ? 'COUNT(*)' : `${query.aggregation.toUpperCase()}(value)`;
 
-      // Build WHERE clause for sources
+      // Read from the rollup tier matching the interval when one is available
+      const tier = getRetentionManager().resolveMetricTier(query.interval);
+      const table = tier ? tier.table : 'metrics';
+      const timeColumn = tier ? 'bucket' : 'timestamp';
+      const aggFunction = tier
+        ? rollupAggregate(query.aggregation)
+        : query.aggregation === 'count' ? 'COUNT(*)' : `${query.aggregation.toUpperCase()}(value)`;
+
+      // Build WHERE clause for sources (parameter positions account for the metric name inserted below)
       const sourceCondition = query.sources && query.sources.length > 0 
-        ? `AND source = ANY($4)` 
+        ? `AND source = ANY($6)` 
         : '';
       
       const params = [
         bucketInterval,
         query.startTime,
         query.endTime,
+        request.projectId ?? null,
         ...(query.sources && query.sources.length > 0 ? [query.sources] : []),
       ];
 
@@ -326,15 +345,16 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
 
         const result = await db.query(`
           SELECT 
-            time_bucket($1, timestamp) as timestamp,
+            time_bucket($1, ${timeColumn}) as timestamp,
             source,
             ${aggFunction} as value
-          FROM metrics 
+          FROM ${table} 
           WHERE name = $2 
-            AND timestamp >= $3 
-            AND timestamp <= $4
+            AND ${timeColumn} >= $3 
+            AND ${timeColumn} <= $4
+            AND ($5::uuid IS NULL OR project_id = $5)
             ${sourceCondition}
-          GROUP BY time_bucket($1, timestamp), source
+          GROUP BY time_bucket($1, ${timeColumn}), source
           ORDER BY timestamp, source
         `, metricParams);
 
@@ -423,7 +443,7 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
         },
       },
     },
-    preHandler: [requirePermission('read')],
+    preHandler: [requirePermission('dashboard:read')],
   }, async (request: FastifyRequest<TopListParamsInterface>, reply: FastifyReply) => {
     try {
       const { type } = request.params;
@@ -433,6 +453,7 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
       const endTime = query.endTime || new Date().toISOString();
       const startTime = query.startTime || new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
       const limit = query.limit || 10;
+      const projectId = request.projectId ?? null;
 
       let result;
       
@@ -448,10 +469,11 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
             WHERE timestamp >= $1 
               AND timestamp <= $2 
               AND level IN ('critical', 'high', 'error')
+              AND ($4::uuid IS NULL OR project_id = $4)
             GROUP BY message, source, level
             ORDER BY value DESC
             LIMIT $3
-          `, [startTime, endTime, limit]);
+          `, [startTime, endTime, limit, projectId]);
           break;
 
         case 'slow_requests':
@@ -464,10 +486,11 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
             WHERE timestamp >= $1 
               AND timestamp <= $2 
               AND name LIKE '%response_time%'
+              AND ($4::uuid IS NULL OR project_id = $4)
             GROUP BY dimensions->>'endpoint'
             ORDER BY value DESC
             LIMIT $3
-          `, [startTime, endTime, limit]);
+          `, [startTime, endTime, limit, projectId]);
           break;
 
         case 'traffic_sources':
@@ -480,10 +503,11 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
             WHERE timestamp >= $1 
               AND timestamp <= $2 
               AND type = 'user_action'
+              AND ($4::uuid IS NULL OR project_id = $4)
             GROUP BY source
             ORDER BY value DESC
             LIMIT $3
-          `, [startTime, endTime, limit]);
+          `, [startTime, endTime, limit, projectId]);
           break;
 
         case 'user_agents':
@@ -496,10 +520,11 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
             WHERE timestamp >= $1 
               AND timestamp <= $2 
               AND user_agent IS NOT NULL
+              AND ($4::uuid IS NULL OR project_id = $4)
             GROUP BY user_agent
             ORDER BY value DESC
             LIMIT $3
-          `, [startTime, endTime, limit]);
+          `, [startTime, endTime, limit, projectId]);
           break;
 
         default:
@@ -572,7 +597,7 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
         },
       },
     },
-    preHandler: [requirePermission('read')],
+    preHandler: [requirePermission('dashboard:read')],
   }, async (request: FastifyRequest<HeatmapQueryInterface>, reply: FastifyReply) => {
     try {
       const query = request.query;
@@ -584,11 +609,12 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
         week: 'week',
       };
 
-      const sourceCondition = query.source ? `AND source = $4` : '';
+      const sourceCondition = query.source ? `AND source = $5` : '';
       const params = [
         query.metric,
         query.startTime,
         query.endTime,
+        request.projectId ?? null,
         ...(query.source ? [query.source] : []),
       ];
 
@@ -602,6 +628,7 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
         WHERE name = $1 
           AND timestamp >= $2 
           AND timestamp <= $3
+          AND ($4::uuid IS NULL OR project_id = $4)
           ${sourceCondition}
         GROUP BY date_trunc('${xAxisMap[query.xAxis]}', timestamp), dimensions->>'${query.yAxis}'
         ORDER BY x_value, y_value
@@ -661,8 +688,8 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
         },
       },
     },
-    preHandler: [requirePermission('read')],
-  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    preHandler: [requirePermission('dashboard:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       // Get recent metrics from Redis (faster than database)
       const [eventsPerSec, metricsPerSec, errorRate] = await Promise.all([
@@ -676,9 +703,10 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
         SELECT value
         FROM metrics 
         WHERE name LIKE '%response_time%' 
+          AND ($1::uuid IS NULL OR project_id = $1)
         ORDER BY timestamp DESC 
         LIMIT 1
-      `);
+      `, [request.projectId ?? null]);
 
       const avgResponseTime = responseTimeResult.rows.length > 0 
         ? parseFloat(responseTimeResult.rows[0].value) 
@@ -737,7 +765,7 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
         },
       },
     },
-    preHandler: [requirePermission('write')],
+    preHandler: [requirePermission('dashboard:write')],
   }, async (request: FastifyRequest<CreateWidgetInterface>, reply: FastifyReply) => {
     try {
       const body = request.body;
@@ -750,6 +778,7 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
         type: body.type,
         query: body.query,
         config: body.config || {},
+        projectId: getWriteProjectId(request),
         createdAt: new Date().toISOString(),
         createdBy: (request as any).apiKey?.name || 'unknown',
       };
@@ -797,8 +826,8 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
         },
       },
     },
-    preHandler: [requirePermission('read')],
-  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    preHandler: [requirePermission('dashboard:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
     try {
       // Get widget keys from Redis
       const keys = await (redis as any).client.keys('dashboard:widget:*');
@@ -807,6 +836,11 @@ export default async function dashboardRoutes(fastify: FastifyInstance): Promise
       for (const key of keys) {
         const widget = await redis.getJSON(key);
         if (widget && typeof widget === 'object') {
+          // Widgets saved before projects existed belong to the default project
+          const widgetProject = (widget as any).projectId || DEFAULT_PROJECT_ID;
+          if (request.projectId && widgetProject !== request.projectId) continue;
+
+
           // Don't expose the full query in list view
           widgets.push({
             id: (widget as any).id,
@@ -2,8 +2,10 @@ import { FastifyInstance, FastifyRequest, FastifyReply, RouteGenericInterface }
 import { z } from 'zod';
 import { getDatabase } from '../database';
 import { getRedis } from '../redis';
-import { getWebSocketManager } from '../websocket';
 import { requirePermission } from '../middleware';
+import { getWriteProjectId } from '../projects';
+import { getReleaseTracker } from '../releases';
+import { getSourceMapStore } from '../sourcemaps';
 import { Event, EventSchema } from '../types';
 
 
@@ -49,6 +51,7 @@ const QueryEventsSchema = z.object({
     userId: z.string().optional(),
     sessionId: z.string().optional(),
     requestId: z.string().optional(),
+    release: z.string().optional(),
     tags: z.array(z.string()).or(z.string()).optional(),
     search: z.string().optional(),
     limit: z.coerce.number().min(1).max(10000).default(100),
@@ -72,6 +75,8 @@ const EventStatsSchema = z.object({
 export default async function eventsRoutes(fastify: FastifyInstance): Promise<void> {
   const db = getDatabase();
   const redis = getRedis();
+  const sourceMaps = getSourceMapStore();
+  const releases = getReleaseTracker();
 
   // Create single event
   fastify.post<CreateEventRequest>('/', {
@@ -94,7 +99,8 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
           stack: { type: 'string' },
           url: { type: 'string' },
           userAgent: { type: 'string' },
-          ip: { type: 'string' }
+          ip: { type: 'string' },
+          release: { type: 'string', maxLength: 255 }
         },
         required: ['type', 'source', 'message']
       },
@@ -115,7 +121,7 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
         },
       },
     } as any,
-    preHandler: [requirePermission('write')],
+    preHandler: [requirePermission('events:write')],
   }, async (request: FastifyRequest<CreateEventRequest>, reply: FastifyReply) => {
     try {
       const { body } = CreateEventSchema.parse(request);
@@ -128,16 +134,18 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
         userAgent: request.headers['user-agent'],
       };
 
-      // Validate event
-      const validatedEvent = EventSchema.parse(event);
+      const projectId = getWriteProjectId(request);
+
+      // Validate event, mapping minified stack frames back to source when a release is given
+      const validatedEvent = await sourceMaps.symbolicateEvent(EventSchema.parse(event), projectId);
 
       // Store in database
       const result = await db.query(`
         INSERT INTO events (
           timestamp, type, level, source, message, metadata,
-          user_id, session_id, request_id, tags, stack, url, user_agent, ip
+          user_id, session_id, request_id, tags, stack, url, user_agent, ip, project_id, release
         ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
         ) RETURNING id
       `, [
         validatedEvent.timestamp,
@@ -154,14 +162,18 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
         validatedEvent.url,
         validatedEvent.userAgent,
         validatedEvent.ip,
+        projectId,
+        validatedEvent.release,
       ]);
 
       const eventId = result.rows[0].id;
+      await releases.trackEvents([validatedEvent], projectId);
 
       // Publish to Redis for real-time updates
       await redis.publish('events:realtime', {
         ...validatedEvent,
         id: eventId,
+        projectId,
       });
 
       // Update server stats
@@ -169,13 +181,6 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
         fastify.stats.eventsProcessed++;
       }
 
-      // Send to WebSocket subscribers
-      const wsManager = getWebSocketManager();
-      wsManager.broadcast('events:realtime', {
-        type: 'event',
-        data: { ...validatedEvent, id: eventId },
-      });
-
       reply.code(201).send({
         id: eventId,
         message: 'Event created successfully',
@@ -226,7 +231,8 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
                 stack: { type: 'string' },
                 url: { type: 'string' },
                 userAgent: { type: 'string' },
-                ip: { type: 'string' }
+                ip: { type: 'string' },
+                release: { type: 'string', maxLength: 255 }
               },
               required: ['type', 'source', 'message']
             }
@@ -244,7 +250,7 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
         },
       },
     } as any,
-    preHandler: [requirePermission('write')],
+    preHandler: [requirePermission('events:write')],
   }, async (request: FastifyRequest<BulkCreateEventsRequest>, reply: FastifyReply) => {
     try {
       const { body } = BulkCreateEventsSchema.parse(request);
@@ -257,26 +263,32 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
         return;
       }
 
+      const projectId = getWriteProjectId(request);
+
+      // Symbolicate before the transaction so source map lookups do not hold it open
+      const validatedEvents = await Promise.all(body.events.map(eventData => {
+        const event: Event = {
+          ...eventData,
+          timestamp: new Date().toISOString(),
+          ip: request.ip,
+          userAgent: request.headers['user-agent'],
+        };
+
+        return sourceMaps.symbolicateEvent(EventSchema.parse(event), projectId);
+      }));
+
       // Process events in transaction
       const createdIds = await db.transaction(async (client) => {
         const ids: string[] = [];
         
-        for (const eventData of body.events) {
-          const event: Event = {
-            ...eventData,
-            timestamp: new Date().toISOString(),
-            ip: request.ip,
-            userAgent: request.headers['user-agent'],
-          };
-
-          const validatedEvent = EventSchema.parse(event);
+        for (const validatedEvent of validatedEvents) {
 
           const result = await client.query(`
             INSERT INTO events (
               timestamp, type, level, source, message, metadata,
-              user_id, session_id, request_id, tags, stack, url, user_agent, ip
+              user_id, session_id, request_id, tags, stack, url, user_agent, ip, project_id, release
             ) VALUES (
-              $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14
+              $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
             ) RETURNING id
           `, [
             validatedEvent.timestamp,
@@ -293,6 +305,8 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
             validatedEvent.url,
             validatedEvent.userAgent,
             validatedEvent.ip,
+            projectId,
+            validatedEvent.release,
           ]);
 
           ids.push(result.rows[0].id);
@@ -301,12 +315,15 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
           await redis.publish('events:realtime', {
             ...validatedEvent,
             id: result.rows[0].id,
+            projectId,
           });
         }
 
         return ids;
       });
 
+      await releases.trackEvents(validatedEvents, projectId);
+
       // Update server stats
       if (fastify.stats) {
         fastify.stats.eventsProcessed += createdIds.length;
@@ -352,6 +369,7 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
           userId: { type: 'string' },
           sessionId: { type: 'string' },
           requestId: { type: 'string' },
+          release: { type: 'string' },
           tags: { oneOf: [{ type: 'array', items: { type: 'string' } }, { type: 'string' }] },
           search: { type: 'string' },
           limit: { type: 'number', minimum: 1, maximum: 10000, default: 100 },
@@ -380,6 +398,8 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
                   session_id: { type: 'string' },
                   request_id: { type: 'string' },
                   tags: { type: 'array', items: { type: 'string' } },
+                  project_id: { type: 'string' },
+                  release: { type: 'string' },
                 },
               },
             },
@@ -395,7 +415,7 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
         },
       },
     } as any,
-    preHandler: [requirePermission('read')],
+    preHandler: [requirePermission('events:read')],
   }, async (request: FastifyRequest<QueryEventsRequest>, reply: FastifyReply) => {
     try {
       const { query } = QueryEventsSchema.parse(request);
@@ -405,6 +425,11 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
       const params: any[] = [];
       let paramCount = 0;
 
+      if (request.projectId) {
+        conditions.push(`project_id = $${++paramCount}`);
+        params.push(request.projectId);
+      }
+
       if (query.startTime) {
         conditions.push(`timestamp >= $${++paramCount}`);
         params.push(query.startTime);
@@ -448,6 +473,11 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
         params.push(query.requestId);
       }
 
+      if (query.release) {
+        conditions.push(`release = $${++paramCount}`);
+        params.push(query.release);
+      }
+
       if (query.tags) {
         const tags = Array.isArray(query.tags) ? query.tags : [query.tags];
         conditions.push(`tags && $${++paramCount}`);
@@ -472,7 +502,7 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
       const eventsResult = await db.query(`
         SELECT 
           id, timestamp, type, level, source, message, metadata,
-          user_id, session_id, request_id, tags, stack, url, user_agent, ip
+          user_id, session_id, request_id, tags, stack, url, user_agent, ip, project_id, release
         FROM events 
         ${whereClause}
         ORDER BY ${query.orderBy} ${query.order}
@@ -530,6 +560,8 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
             source: { type: 'string' },
             message: { type: 'string' },
             metadata: { type: 'object' },
+            project_id: { type: 'string' },
+            release: { type: 'string' },
           },
         },
         404: {
@@ -541,15 +573,15 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
         },
       },
     } as any,
-    preHandler: [requirePermission('read')],
+    preHandler: [requirePermission('events:read')],
   }, async (request: FastifyRequest<EventByIdRequest>, reply: FastifyReply) => {
     try {
       const result = await db.query(`
         SELECT 
           id, timestamp, type, level, source, message, metadata,
-          user_id, session_id, request_id, tags, stack, url, user_agent, ip
-        FROM events WHERE id = $1
-      `, [request.params.id]);
+          user_id, session_id, request_id, tags, stack, url, user_agent, ip, project_id, release
+        FROM events WHERE id = $1 AND ($2::uuid IS NULL OR project_id = $2)
+      `, [request.params.id, request.projectId ?? null]);
 
       if (result.rows.length === 0) {
         reply.code(404).send({
@@ -608,7 +640,7 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
         },
       },
     } as any,
-    preHandler: [requirePermission('read')],
+    preHandler: [requirePermission('events:read')],
   }, async (request: FastifyRequest<EventStatsRequest>, reply: FastifyReply) => {
     try {
       const { query } = EventStatsSchema.parse(request);
@@ -617,6 +649,11 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
       const params: any[] = [];
       let paramCount = 0;
 
+      if (request.projectId) {
+        conditions.push(`project_id = $${++paramCount}`);
+        params.push(request.projectId);
+      }
+
       if (query.startTime) {
         conditions.push(`timestamp >= $${++paramCount}`);
         params.push(query.startTime);
@@ -699,10 +736,10 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
     }
   });
 
-  // Delete event (admin only)
+  // Delete event
   fastify.delete<EventByIdRequest>('/:id', {
     schema: {
-      description: 'Delete event by ID (admin only)',
+      description: 'Delete event by ID',
       tags: ['events'],
       security: [{ apiKey: [] }],
       params: {
@@ -728,10 +765,13 @@ export default async function eventsRoutes(fastify: FastifyInstance): Promise<vo
         },
       },
     } as any,
-    preHandler: [requirePermission('admin')],
+    preHandler: [requirePermission('events:delete')],
   }, async (request: FastifyRequest<EventByIdRequest>, reply: FastifyReply) => {
     try {
-      const result = await db.query('DELETE FROM events WHERE id = $1', [request.params.id]);
+      const result = await db.query(
+        'DELETE FROM events WHERE id = $1 AND ($2::uuid IS NULL OR project_id = $2)',
+        [request.params.id, request.projectId ?? null]
+      );
 
       if (result.rowCount === 0) {
         reply.code(404).send({
@@ -2,8 +2,9 @@ import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
 import { getDatabase } from '../database';
 import { getRedis } from '../redis';
-import { getWebSocketManager } from '../websocket';
 import { requirePermission } from '../middleware';
+import { getRetentionManager } from '../retention';
+import { getWriteProjectId } from '../projects';
 import { Metric, MetricSchema } from '../types';
 
 // Request schemas
@@ -83,7 +84,7 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
         },
       },
     },
-    preHandler: [requirePermission('write')],
+    preHandler: [requirePermission('metrics:write')],
   }, async (request, reply) => {
     try {
       const { body } = CreateMetricSchema.parse(request);
@@ -96,11 +97,12 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
 
       // Validate metric
       const validatedMetric = MetricSchema.parse(metric);
+      const projectId = getWriteProjectId(request);
 
       // Store in database
       const result = await db.query(`
-        INSERT INTO metrics (name, value, timestamp, unit, dimensions, source)
-        VALUES ($1, $2, $3, $4, $5, $6)
+        INSERT INTO metrics (name, value, timestamp, unit, dimensions, source, project_id)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
         RETURNING id
       `, [
         validatedMetric.name,
@@ -109,6 +111,7 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
         validatedMetric.unit,
         JSON.stringify(validatedMetric.dimensions || {}),
         validatedMetric.source,
+        projectId,
       ]);
 
       const metricId = result.rows[0].id;
@@ -117,24 +120,18 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
       await redis.publish('metrics:realtime', {
         ...validatedMetric,
         id: metricId,
+        projectId,
       });
 
       // Store in Redis for fast access (with TTL)
-      const cacheKey = `metric:${validatedMetric.name}:${validatedMetric.source}:latest`;
-      await redis.setJSON(cacheKey, { ...validatedMetric, id: metricId }, 3600); // 1 hour TTL
+      const cacheKey = `metric:${projectId}:${validatedMetric.name}:${validatedMetric.source}:latest`;
+      await redis.setJSON(cacheKey, { ...validatedMetric, id: metricId, projectId }, 3600); // 1 hour TTL
 
       // Update server stats
       if (fastify.stats) {
         fastify.stats.metricsProcessed++;
       }
 
-      // Send to WebSocket subscribers
-      const wsManager = getWebSocketManager();
-      wsManager.broadcast('metrics:realtime', {
-        type: 'metric',
-        data: { ...validatedMetric, id: metricId },
-      });
-
       reply.code(201).send({
         id: metricId,
         message: 'Metric created successfully',
@@ -197,7 +194,7 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
         },
       },
     },
-    preHandler: [requirePermission('write')],
+    preHandler: [requirePermission('metrics:write')],
   }, async (request, reply) => {
     try {
       const { body } = BulkCreateMetricsSchema.parse(request);
@@ -210,6 +207,8 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
         return;
       }
 
+      const projectId = getWriteProjectId(request);
+
       // Process metrics in transaction
       const createdIds = await db.transaction(async (client) => {
         const ids: string[] = [];
@@ -224,8 +223,8 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
           const validatedMetric = MetricSchema.parse(metric);
 
           const result = await client.query(`
-            INSERT INTO metrics (name, value, timestamp, unit, dimensions, source)
-            VALUES ($1, $2, $3, $4, $5, $6)
+            INSERT INTO metrics (name, value, timestamp, unit, dimensions, source, project_id)
+            VALUES ($1, $2, $3, $4, $5, $6, $7)
             RETURNING id
           `, [
             validatedMetric.name,
@@ -234,6 +233,7 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
             validatedMetric.unit,
             JSON.stringify(validatedMetric.dimensions || {}),
             validatedMetric.source,
+            projectId,
           ]);
 
           ids.push(result.rows[0].id);
@@ -242,11 +242,12 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
           await redis.publish('metrics:realtime', {
             ...validatedMetric,
             id: result.rows[0].id,
+            projectId,
           });
 
           // Cache latest value
-          const cacheKey = `metric:${validatedMetric.name}:${validatedMetric.source}:latest`;
-          await redis.setJSON(cacheKey, { ...validatedMetric, id: result.rows[0].id }, 3600);
+          const cacheKey = `metric:${projectId}:${validatedMetric.name}:${validatedMetric.source}:latest`;
+          await redis.setJSON(cacheKey, { ...validatedMetric, id: result.rows[0].id, projectId }, 3600);
         }
 
         return ids;
@@ -334,7 +335,7 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
         },
       },
     },
-    preHandler: [requirePermission('read')],
+    preHandler: [requirePermission('metrics:read')],
   }, async (request, reply) => {
     try {
       const { query } = QueryMetricsSchema.parse(request);
@@ -344,6 +345,11 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
       const params: any[] = [];
       let paramCount = 0;
 
+      if (request.projectId) {
+        conditions.push(`project_id = $${++paramCount}`);
+        params.push(request.projectId);
+      }
+
       if (query.startTime) {
         conditions.push(`timestamp >= $${++paramCount}`);
         params.push(query.startTime);
@@ -492,7 +498,7 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
         },
       },
     },
-    preHandler: [requirePermission('read')],
+    preHandler: [requirePermission('metrics:read')],
   }, async (request, reply) => {
     try {
       const query = request.query;
@@ -502,6 +508,11 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
       const params: any[] = [];
       let paramCount = 0;
 
+      if (request.projectId) {
+        conditions.push(`project_id = $${++paramCount}`);
+        params.push(request.projectId);
+      }
+
       if (query.name) {
         const names = Array.isArray(query.name) ? query.name : [query.name];
         conditions.push(`name = ANY($${++paramCount})`);
@@ -556,13 +567,14 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
         },
       },
     },
-    preHandler: [requirePermission('read')],
+    preHandler: [requirePermission('metrics:read')],
   }, async (request, reply) => {
     try {
       const result = await db.query(`
         SELECT DISTINCT name FROM metrics 
+        WHERE ($1::uuid IS NULL OR project_id = $1)
         ORDER BY name
-      `);
+      `, [request.projectId ?? null]);
 
       reply.send({
         names: result.rows.map((row: any) => row.name),
@@ -595,13 +607,14 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
         },
       },
     },
-    preHandler: [requirePermission('read')],
+    preHandler: [requirePermission('metrics:read')],
   }, async (request, reply) => {
     try {
       const result = await db.query(`
         SELECT DISTINCT source FROM metrics 
+        WHERE ($1::uuid IS NULL OR project_id = $1)
         ORDER BY source
-      `);
+      `, [request.projectId ?? null]);
 
       reply.send({
         sources: result.rows.map((row: any) => row.source),
@@ -657,22 +670,31 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
         },
       },
     },
-    preHandler: [requirePermission('read')],
+    preHandler: [requirePermission('metrics:read')],
   }, async (request, reply) => {
     try {
       const { query } = MetricStatsSchema.parse(request);
 
+      // Read from the rollup tier matching the grouping when one is available
+      const tier = getRetentionManager().resolveMetricTier(query.groupBy);
+      const timeColumn = tier ? 'bucket' : 'timestamp';
+
       const conditions: string[] = [];
       const params: any[] = [];
       let paramCount = 0;
 
+      if (request.projectId) {
+        conditions.push(`project_id = $${++paramCount}`);
+        params.push(request.projectId);
+      }
+
       if (query.startTime) {
-        conditions.push(`timestamp >= $${++paramCount}`);
+        conditions.push(`${timeColumn} >= $${++paramCount}`);
         params.push(query.startTime);
       }
 
       if (query.endTime) {
-        conditions.push(`timestamp <= $${++paramCount}`);
+        conditions.push(`${timeColumn} <= $${++paramCount}`);
         params.push(query.endTime);
       }
 
@@ -698,16 +720,25 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
         month: '1 month',
       };
 
-      const result = await db.query(`
-        SELECT 
-          time_bucket('${timeBucketMap[query.groupBy]}', timestamp) AS period,
-          COUNT(*) as total_metrics,
+      const aggregates = tier
+        ? `SUM(sample_count) as total_metrics,
+          COUNT(DISTINCT name) as unique_names,
+          COUNT(DISTINCT source) as unique_sources,
+          SUM(sum_value) / NULLIF(SUM(sample_count), 0) as avg_value,
+          MIN(min_value) as min_value,
+          MAX(max_value) as max_value`
+        : `COUNT(*) as total_metrics,
           COUNT(DISTINCT name) as unique_names,
           COUNT(DISTINCT source) as unique_sources,
           AVG(value) as avg_value,
           MIN(value) as min_value,
-          MAX(value) as max_value
-        FROM metrics ${whereClause}
+          MAX(value) as max_value`;
+
+      const result = await db.query(`
+        SELECT 
+          time_bucket('${timeBucketMap[query.groupBy]}', ${timeColumn}) AS period,
+          ${aggregates}
+        FROM ${tier ? tier.table : 'metrics'} ${whereClause}
         GROUP BY period
         ORDER BY period DESC
         LIMIT 100
@@ -734,12 +765,12 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
     }
   });
 
-  // Delete metric (admin only)
+  // Delete metric
   fastify.delete<{
     Params: { id: string };
   }>('/:id', {
     schema: {
-      description: 'Delete metric by ID (admin only)',
+      description: 'Delete metric by ID',
       tags: ['metrics'],
       security: [{ apiKey: [] }],
       params: {
@@ -765,10 +796,13 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
         },
       },
     },
-    preHandler: [requirePermission('admin')],
+    preHandler: [requirePermission('metrics:delete')],
   }, async (request, reply) => {
     try {
-      const result = await db.query('DELETE FROM metrics WHERE id = $1', [request.params.id]);
+      const result = await db.query(
+        'DELETE FROM metrics WHERE id = $1 AND ($2::uuid IS NULL OR project_id = $2)',
+        [request.params.id, request.projectId ?? null]
+      );
 
       if (result.rowCount === 0) {
         reply.code(404).send({
@@ -826,7 +860,7 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
         },
       },
     },
-    preHandler: [requirePermission('write')],
+    preHandler: [requirePermission('metrics:write')],
   }, async (request, reply) => {
     try {
       const { name } = request.params;
@@ -842,11 +876,12 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
       };
 
       const validatedMetric = MetricSchema.parse(metric);
+      const projectId = getWriteProjectId(request);
 
       // Store in database
       const result = await db.query(`
-        INSERT INTO metrics (name, value, timestamp, unit, dimensions, source)
-        VALUES ($1, $2, $3, $4, $5, $6)
+        INSERT INTO metrics (name, value, timestamp, unit, dimensions, source, project_id)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
         RETURNING id
       `, [
         validatedMetric.name,
@@ -855,16 +890,18 @@ export default async function metricsRoutes(fastify: FastifyInstance): Promise<v
         validatedMetric.unit,
         JSON.stringify(validatedMetric.dimensions || {}),
         validatedMetric.source,
+        projectId,
       ]);
 
       // Also increment in Redis for fast access
-      const redisKey = `metric:counter:${name}:${source}`;
+      const redisKey = `metric:counter:${projectId}:${name}:${source}`;
       const newValue = await redis.incrementMetric(redisKey, value);
 
       // Publish to Redis for real-time updates
       await redis.publish('metrics:realtime', {
         ...validatedMetric,
         id: result.rows[0].id,
+        projectId,
       });
 
       reply.send({
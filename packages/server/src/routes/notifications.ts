@@ -0,0 +1,65 @@
+import { FastifyInstance } from 'fastify';
+import { requirePermission } from '../middleware';
+import { previewDigest } from '../notifications';
+
+const entryProperties = {
+  notificationId: { type: 'string' },
+  title: { type: 'string' },
+  message: { type: 'string' },
+  severity: { type: 'string' },
+  source: { type: 'string' },
+  timestamp: { type: 'number' },
+  reason: { type: 'string' },
+  dueAt: { type: 'number' },
+};
+
+export default async function notificationsRoutes(fastify: FastifyInstance): Promise<void> {
+  // Preview the next digest for a recipient: everything held for a digest or quiet hours
+  fastify.get<{ Params: { recipientId: string } }>('/digests/:recipientId/preview', {
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          recipientId: { type: 'string', minLength: 1 },
+        },
+        required: ['recipientId'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            recipientId: { type: 'string' },
+            dueAt: { type: ['string', 'null'] },
+            count: { type: 'number' },
+            severityCounts: { type: 'object', additionalProperties: { type: 'number' } },
+            subject: { type: ['string', 'null'] },
+            body: { type: ['string', 'null'] },
+            entries: { type: 'array', items: { type: 'object', properties: entryProperties } },
+          },
+        },
+      },
+    } as any,
+    preHandler: [requirePermission('notifications:read')],
+  }, async (request, reply) => {
+    try {
+      const preview = await previewDigest(request.params.recipientId);
+
+      reply.send({
+        recipientId: request.params.recipientId,
+        dueAt: preview?.dueAt ? new Date(preview.dueAt).toISOString() : null,
+        count: preview?.entries.length ?? 0,
+        severityCounts: preview?.severityCounts ?? { info: 0, warning: 0, error: 0, critical: 0 },
+        subject: preview?.subject ?? null,
+        body: preview?.body ?? null,
+        entries: preview?.entries ?? [],
+      });
+
+    } catch (error) {
+      console.error('Error previewing notification digest:', error);
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to preview digest',
+      });
+    }
+  });
+}
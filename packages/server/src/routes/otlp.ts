@@ -0,0 +1,132 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { promisify } from 'util';
+import { gunzip } from 'zlib';
+import { z } from 'zod';
+import { requirePermission } from '../middleware';
+import { getWriteProjectId } from '../projects';
+import { Permission } from '../auth';
+import {
+  decodeExportRequest,
+  encodeExportResponse,
+  getOtlpReceiver,
+  IngestResult,
+  OtlpSignal,
+} from '../otlp';
+import { MAX_UNCOMPRESSED_LENGTH } from '../prometheus';
+
+const gunzipAsync = promisify(gunzip);
+
+const PROTOBUF_CONTENT_TYPE = 'application/x-protobuf';
+
+// Field of ExportPartialSuccess counting rejected items, per signal
+const REJECTED_FIELDS: Record<OtlpSignal, string> = {
+  traces: 'rejectedSpans',
+  metrics: 'rejectedDataPoints',
+  logs: 'rejectedLogRecords',
+};
+
+const RECEIVERS: Array<{ signal: OtlpSignal; permission: Permission; description: string }> = [
+  { signal: 'traces', permission: 'traces:write', description: 'Receive OTLP/HTTP spans' },
+  { signal: 'metrics', permission: 'metrics:write', description: 'Receive OTLP/HTTP metrics' },
+  { signal: 'logs', permission: 'events:write', description: 'Receive OTLP/HTTP log records as events' },
+];
+
+// OTLP/HTTP receivers (/v1/traces, /v1/metrics, /v1/logs) accepting protobuf or JSON,
+// optionally gzip-compressed, as sent by OpenTelemetry SDKs and collectors
+export default async function otlpRoutes(fastify: FastifyInstance): Promise<void> {
+  const receiver = getOtlpReceiver();
+
+  // Bodies are decoded in the handlers so compressed and protobuf payloads share one path.
+  // Parsers registered here only apply to this plugin's routes.
+  const rawBody = (_request: FastifyRequest, body: Buffer, done: (err: Error | null, body?: Buffer) => void) => {
+    done(null, body);
+  };
+  fastify.removeContentTypeParser('application/json');
+  fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, rawBody);
+  fastify.addContentTypeParser(PROTOBUF_CONTENT_TYPE, { parseAs: 'buffer' }, rawBody);
+
+  for (const { signal, permission, description } of RECEIVERS) {
+    fastify.post(`/v1/${signal}`, {
+      schema: {
+        description,
+        tags: ['otlp'],
+        security: [{ apiKey: [] }],
+      },
+      preHandler: [requirePermission(permission)],
+    }, async (request: FastifyRequest, reply: FastifyReply) => {
+      const isProtobuf = (request.headers['content-type'] || '').includes(PROTOBUF_CONTENT_TYPE);
+
+      let payload: any;
+      try {
+        let body = request.body as Buffer | undefined;
+        if (!body || body.length === 0) {
+          body = Buffer.alloc(0);
+        } else if (request.headers['content-encoding'] === 'gzip') {
+          body = await gunzipAsync(body, { maxOutputLength: MAX_UNCOMPRESSED_LENGTH });
+        }
+
+        payload = isProtobuf
+          ? decodeExportRequest(signal, body)
+          : body.length > 0 ? JSON.parse(body.toString('utf8')) : {};
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          reply.code(413).send({
+            error: 'Payload Too Large',
+            message: `Decompressed OTLP ${signal} payload exceeds ${MAX_UNCOMPRESSED_LENGTH} bytes`,
+          });
+          return;
+        }
+        reply.code(400).send({
+          error: 'Bad Request',
+          message: `Invalid OTLP ${signal} payload: ${error instanceof Error ? error.message : String(error)}`,
+        });
+        return;
+      }
+
+      try {
+        const projectId = getWriteProjectId(request);
+        let result: IngestResult;
+        switch (signal) {
+          case 'traces':
+            result = await receiver.ingestTraces(payload, projectId);
+            break;
+          case 'metrics':
+            result = await receiver.ingestMetrics(payload, projectId);
+            if (fastify.stats) fastify.stats.metricsProcessed += result.accepted;
+            break;
+          case 'logs':
+            result = await receiver.ingestLogs(payload, projectId);
+            if (fastify.stats) fastify.stats.eventsProcessed += result.accepted;
+            break;
+        }
+
+        if (isProtobuf) {
+          reply
+            .header('content-type', PROTOBUF_CONTENT_TYPE)
+            .send(encodeExportResponse(result.rejected, result.errorMessage));
+          return;
+        }
+
+        reply.send(result.rejected > 0
+          ? { partialSuccess: { [REJECTED_FIELDS[signal]]: result.rejected, errorMessage: result.errorMessage } }
+          : {});
+
+      } catch (error) {
+        fastify.log.error({ error }, `Error ingesting OTLP ${signal}`);
+
+        if (error instanceof z.ZodError) {
+          reply.code(400).send({
+            error: 'Validation Error',
+            message: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+          });
+          return;
+        }
+
+        reply.code(500).send({
+          error: 'Internal Server Error',
+          message: `Failed to ingest OTLP ${signal}`,
+        });
+      }
+    });
+  }
+}
@@ -0,0 +1,161 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { requirePermission, requireCrossProjectAccess } from '../middleware';
+import { DEFAULT_PROJECT_ID, getProjectManager } from '../projects';
+
+const projectProperties = {
+  id: { type: 'string' },
+  slug: { type: 'string' },
+  name: { type: 'string' },
+  createdAt: { type: 'string' },
+  updatedAt: { type: 'string' },
+};
+
+export default async function projectsRoutes(fastify: FastifyInstance): Promise<void> {
+  const projects = getProjectManager();
+
+  // List projects with recent activity; project-scoped keys only see their own project
+  fastify.get('/', {
+    schema: {
+      description: 'List projects with usage over the last 24 hours',
+      tags: ['projects'],
+      security: [{ apiKey: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            projects: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  ...projectProperties,
+                  eventsLast24h: { type: 'number' },
+                  metricsLast24h: { type: 'number' },
+                  activeAlerts: { type: 'number' },
+                  apiKeys: { type: 'number' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('projects:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const usage = await projects.getProjectUsage(request.projectId);
+      reply.send({ projects: usage });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error listing projects');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to list projects',
+      });
+    }
+  });
+
+  // Create a project
+  fastify.post('/', {
+    schema: {
+      description: 'Create a project',
+      tags: ['projects'],
+      security: [{ apiKey: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          slug: { type: 'string', pattern: '^[a-z0-9][a-z0-9-]*$', maxLength: 64 },
+          name: { type: 'string', minLength: 1, maxLength: 255 },
+        },
+        required: ['slug', 'name'],
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: projectProperties,
+        },
+      },
+    },
+    preHandler: [requirePermission('projects:manage'), requireCrossProjectAccess()],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = request.body as { slug: string; name: string };
+      const project = await projects.createProject(body);
+
+      reply.code(201).send(project);
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error creating project');
+
+      if (error instanceof z.ZodError) {
+        reply.code(400).send({
+          error: 'Validation Error',
+          message: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+        });
+        return;
+      }
+
+      // Unique violation on slug
+      if ((error as any)?.code === '23505') {
+        reply.code(409).send({
+          error: 'Conflict',
+          message: 'A project with this slug already exists',
+        });
+        return;
+      }
+
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create project',
+      });
+    }
+  });
+
+  // Delete a project along with its alert configurations and API keys
+  fastify.delete('/:id', {
+    schema: {
+      description: 'Delete a project',
+      tags: ['projects'],
+      security: [{ apiKey: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+        required: ['id'],
+      },
+    },
+    preHandler: [requirePermission('projects:manage'), requireCrossProjectAccess()],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      if (id === DEFAULT_PROJECT_ID) {
+        reply.code(400).send({
+          error: 'Bad Request',
+          message: 'The default project cannot be deleted',
+        });
+        return;
+      }
+
+      const deleted = await projects.deleteProject(id);
+      if (!deleted) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: `Project ${id} not found`,
+        });
+        return;
+      }
+
+      reply.send({ success: true });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error deleting project');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete project',
+      });
+    }
+  });
+}
@@ -0,0 +1,114 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { requirePermission } from '../middleware';
+import { getWriteProjectId } from '../projects';
+import { getAuthManager } from '../auth';
+import {
+  decodeWriteRequest,
+  getPrometheusManager,
+  renderServerStats,
+  renderStoredSeries,
+  snappyDecompress,
+} from '../prometheus';
+
+const EXPOSITION_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Prometheus scrape endpoint (/metrics/prometheus) and remote-write receiver
+// (/api/v1/prometheus/write)
+export default async function prometheusRoutes(fastify: FastifyInstance): Promise<void> {
+  const prometheus = getPrometheusManager();
+
+  // Remote write bodies are snappy-compressed protobuf, decoded in the handler
+  fastify.addContentTypeParser('application/x-protobuf', { parseAs: 'buffer' }, (_request, body, done) => {
+    done(null, body);
+  });
+
+  fastify.get('/metrics/prometheus', {
+    schema: {
+      description: 'Server statistics and selected stored metric series in Prometheus text format',
+      tags: ['prometheus'],
+      security: [{ apiKey: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          name: {
+            anyOf: [
+              { type: 'string' },
+              { type: 'array', items: { type: 'string' }, maxItems: 100 },
+            ],
+          },
+          window: { type: 'integer', minimum: 1, maximum: 1440, default: 5 },
+        },
+      },
+    },
+    preHandler: [requirePermission('metrics:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const query = request.query as { name?: string | string[]; window: number };
+      const names = query.name === undefined ? [] : [query.name].flat();
+
+      // Process-wide statistics are only exposed to keys that may see admin stats
+      let body = '';
+      if (request.apiKey && await getAuthManager().hasPermission(request.apiKey, 'admin:stats')) {
+        body += renderServerStats(fastify.stats);
+      }
+
+      const series = await prometheus.getLatestSeries(names, query.window, request.projectId);
+      body += renderStoredSeries(series);
+
+      reply.type(EXPOSITION_CONTENT_TYPE).send(body);
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error rendering Prometheus metrics');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to render Prometheus metrics',
+      });
+    }
+  });
+
+  fastify.post('/api/v1/prometheus/write', {
+    schema: {
+      description: 'Receive Prometheus remote-write samples into the metrics table',
+      tags: ['prometheus'],
+      security: [{ apiKey: [] }],
+    },
+    preHandler: [requirePermission('metrics:write')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    let payload: ReturnType<typeof decodeWriteRequest>;
+    try {
+      if (!Buffer.isBuffer(request.body)) {
+        throw new Error('expected an application/x-protobuf body');
+      }
+
+      const body = request.headers['content-encoding'] === 'identity'
+        ? request.body
+        : snappyDecompress(request.body);
+      payload = decodeWriteRequest(body);
+    } catch (error) {
+      reply.code(400).send({
+        error: 'Bad Request',
+        message: `Invalid remote write payload: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      return;
+    }
+
+    try {
+      const result = await prometheus.ingestWriteRequest(payload, getWriteProjectId(request));
+      if (fastify.stats) fastify.stats.metricsProcessed += result.accepted;
+
+      // Rejected samples would be rejected again on retry, so they are only logged
+      if (result.rejected > 0) {
+        fastify.log.warn({ rejected: result.rejected }, 'Dropped remote write samples without a valid metric name');
+      }
+
+      reply.code(204).send();
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error ingesting Prometheus remote write');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to ingest remote write samples',
+      });
+    }
+  });
+}
@@ -0,0 +1,116 @@
+import { FastifyInstance, FastifyRequest, FastifyReply, RouteGenericInterface } from 'fastify';
+import { z } from 'zod';
+import { getAuthManager } from '../auth';
+import { getQueryEngine, parseQuery, QueryError } from '../query';
+
+interface RunQueryRequest extends RouteGenericInterface {
+  Body: z.infer<typeof RunQuerySchema.shape.body>;
+}
+
+const RunQuerySchema = z.object({
+  body: z.object({
+    query: z.string().min(1).max(4000),
+    startTime: z.string().datetime().optional(),
+    endTime: z.string().datetime().optional(),
+  }),
+});
+
+export default async function queryRoutes(fastify: FastifyInstance): Promise<void> {
+  const engine = getQueryEngine();
+
+  // Run a query-language statement against events or metrics
+  fastify.post<RunQueryRequest>('/', {
+    schema: {
+      description: 'Run an ad-hoc query, e.g. `events where level in (high,critical) | count() by source, bucket(5m)`',
+      tags: ['query'],
+      security: [{ apiKey: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', minLength: 1, maxLength: 4000 },
+          startTime: { type: 'string', format: 'date-time' },
+          endTime: { type: 'string', format: 'date-time' },
+        },
+        required: ['query'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            source: { type: 'string' },
+            aggregated: { type: 'boolean' },
+            columns: { type: 'array', items: { type: 'string' } },
+            rows: { type: 'array', items: { type: 'object', additionalProperties: true } },
+            executionTimeMs: { type: 'number' },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest<RunQueryRequest>, reply: FastifyReply) => {
+    try {
+      const { body } = RunQuerySchema.parse(request);
+      const ast = parseQuery(body.query);
+
+      // The permission depends on the table the query reads
+      if (!request.apiKey) {
+        reply.code(401).send({
+          error: 'Unauthorized',
+          message: 'Authentication required',
+        });
+        return;
+      }
+      const permission = ast.source === 'events' ? 'events:read' : 'metrics:read';
+      if (!(await getAuthManager().hasPermission(request.apiKey, permission))) {
+        reply.code(403).send({
+          error: 'Forbidden',
+          message: `Permission '${permission}' is required`,
+        });
+        return;
+      }
+
+      const endTime = body.endTime || new Date().toISOString();
+      const startTime = body.startTime || new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+      const result = await engine.execute(ast, {
+        projectId: request.projectId ?? null,
+        startTime,
+        endTime,
+      });
+
+      reply.send(result);
+
+    } catch (error) {
+      if (error instanceof QueryError) {
+        reply.code(400).send({
+          error: 'Query Error',
+          message: error.message,
+          ...(error.position !== undefined ? { position: error.position } : {}),
+        });
+        return;
+      }
+
+      if (error instanceof z.ZodError) {
+        reply.code(400).send({
+          error: 'Validation Error',
+          message: error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+        });
+        return;
+      }
+
+      // Postgres cancels statements over the timeout with query_canceled
+      if ((error as { code?: string }).code === '57014') {
+        reply.code(400).send({
+          error: 'Query Error',
+          message: 'Query timed out; narrow the time range or add filters',
+        });
+        return;
+      }
+
+      fastify.log.error({ error }, 'Error running query');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to run query',
+      });
+    }
+  });
+}
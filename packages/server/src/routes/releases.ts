@@ -0,0 +1,366 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { requirePermission } from '../middleware';
+import { getWriteProjectId } from '../projects';
+import { getReleaseTracker, ReleaseCommit, ReleaseError } from '../releases';
+
+const releaseProperties = {
+  id: { type: 'string' },
+  projectId: { type: 'string' },
+  version: { type: 'string' },
+  commitSha: { type: ['string', 'null'] },
+  commits: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        hash: { type: 'string' },
+        message: { type: 'string' },
+        author: { type: 'string' },
+      },
+    },
+  },
+  createdAt: { type: 'string' },
+  firstDeployedAt: { type: ['string', 'null'] },
+  lastDeployedAt: { type: ['string', 'null'] },
+  environments: { type: 'array', items: { type: 'string' } },
+};
+
+const deployProperties = {
+  id: { type: 'string' },
+  releaseId: { type: 'string' },
+  version: { type: 'string' },
+  environment: { type: 'string' },
+  url: { type: ['string', 'null'] },
+  deployedAt: { type: 'string' },
+};
+
+const statsProperties = {
+  version: { type: 'string' },
+  events: { type: 'number' },
+  errors: { type: 'number' },
+  errorRate: { type: 'number' },
+  latency: {
+    type: 'object',
+    properties: {
+      p50: { type: ['number', 'null'] },
+      p95: { type: ['number', 'null'] },
+      samples: { type: 'number' },
+    },
+  },
+  firstEvent: { type: ['string', 'null'] },
+  lastEvent: { type: ['string', 'null'] },
+};
+
+const versionParams = {
+  type: 'object',
+  properties: {
+    version: { type: 'string', minLength: 1, maxLength: 255 },
+  },
+  required: ['version'],
+};
+
+export default async function releasesRoutes(fastify: FastifyInstance): Promise<void> {
+  const releases = getReleaseTracker();
+
+  // Record a deploy of a release, creating the release on its first deploy
+  fastify.post('/', {
+    schema: {
+      description: 'Record a deploy. Commits are the ones that went into the release, newest first',
+      tags: ['releases'],
+      security: [{ apiKey: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          version: { type: 'string', minLength: 1, maxLength: 255 },
+          environment: { type: 'string', minLength: 1, maxLength: 64, default: 'production' },
+          commitSha: { type: 'string', maxLength: 64 },
+          commits: {
+            type: 'array',
+            maxItems: 1000,
+            items: {
+              type: 'object',
+              properties: {
+                hash: { type: 'string', minLength: 1, maxLength: 64 },
+                message: { type: 'string', maxLength: 10000 },
+                author: { type: 'string', maxLength: 255 },
+              },
+              required: ['hash'],
+            },
+          },
+          url: { type: 'string', maxLength: 2048 },
+          deployedAt: { type: 'string', format: 'date-time' },
+        },
+        required: ['version'],
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            release: { type: 'object', properties: releaseProperties },
+            deploy: { type: 'object', properties: deployProperties },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('releases:write')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = request.body as {
+        version: string;
+        environment: string;
+        commitSha?: string;
+        commits?: ReleaseCommit[];
+        url?: string;
+        deployedAt?: string;
+      };
+
+      const result = await releases.recordDeploy({
+        projectId: getWriteProjectId(request),
+        version: body.version,
+        environment: body.environment,
+        ...(body.commitSha ? { commitSha: body.commitSha } : {}),
+        ...(body.commits ? { commits: body.commits } : {}),
+        ...(body.url ? { url: body.url } : {}),
+        ...(body.deployedAt ? { deployedAt: body.deployedAt } : {}),
+      });
+
+      reply.code(201).send(result);
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error recording deploy');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to record deploy',
+      });
+    }
+  });
+
+  // List releases, most recently deployed first
+  fastify.get('/', {
+    schema: {
+      description: 'List releases',
+      tags: ['releases'],
+      security: [{ apiKey: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            releases: {
+              type: 'array',
+              items: { type: 'object', properties: releaseProperties },
+            },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('releases:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const query = request.query as { limit: number };
+      const list = await releases.listReleases(request.projectId ?? null, query.limit);
+      reply.send({ releases: list });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error listing releases');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to list releases',
+      });
+    }
+  });
+
+  // Deploys in a time range, for markers on timeseries charts
+  fastify.get('/deploys', {
+    schema: {
+      description: 'List deploys in a time range',
+      tags: ['releases'],
+      security: [{ apiKey: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          startTime: { type: 'string', format: 'date-time' },
+          endTime: { type: 'string', format: 'date-time' },
+          environment: { type: 'string' },
+          version: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            deploys: {
+              type: 'array',
+              items: { type: 'object', properties: deployProperties },
+            },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('releases:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const query = request.query as { startTime?: string; endTime?: string; environment?: string; version?: string };
+      const endTime = query.endTime || new Date().toISOString();
+      const startTime = query.startTime || new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+      const deploys = await releases.listDeploys({
+        projectId: request.projectId ?? null,
+        startTime,
+        endTime,
+        ...(query.environment ? { environment: query.environment } : {}),
+        ...(query.version ? { version: query.version } : {}),
+      });
+
+      reply.send({ deploys });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error listing deploys');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to list deploys',
+      });
+    }
+  });
+
+  // One release with its commits and deploys
+  fastify.get('/:version', {
+    schema: {
+      description: 'Get a release and its deploys',
+      tags: ['releases'],
+      security: [{ apiKey: [] }],
+      params: versionParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            ...releaseProperties,
+            deploys: {
+              type: 'array',
+              items: { type: 'object', properties: deployProperties },
+            },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('releases:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { version } = request.params as { version: string };
+      const projectId = getWriteProjectId(request);
+      const release = await releases.getRelease(projectId, version);
+
+      if (!release) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: 'Release not found',
+        });
+        return;
+      }
+
+      const deploys = await releases.listDeploys({
+        projectId,
+        startTime: new Date(0).toISOString(),
+        endTime: new Date().toISOString(),
+        version,
+      });
+
+      reply.send({ ...release, deploys });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error getting release');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to get release',
+      });
+    }
+  });
+
+  // Error and latency health against the previous release, with issues first seen in it
+  fastify.get('/:version/health', {
+    schema: {
+      description: 'Get release health, regressions and new issues',
+      tags: ['releases'],
+      security: [{ apiKey: [] }],
+      params: versionParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            ...statsProperties,
+            previous: {
+              type: ['object', 'null'],
+              properties: statsProperties,
+            },
+            newIssues: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  fingerprint: { type: 'string' },
+                  title: { type: 'string' },
+                  type: { type: 'string' },
+                  source: { type: 'string' },
+                  culprit: {
+                    type: ['object', 'null'],
+                    properties: {
+                      function: { type: 'string' },
+                      file: { type: 'string' },
+                      line: { type: 'number' },
+                      column: { type: 'number' },
+                    },
+                  },
+                  firstRelease: { type: ['string', 'null'] },
+                  lastRelease: { type: ['string', 'null'] },
+                  firstSeen: { type: 'string' },
+                  lastSeen: { type: 'string' },
+                  occurrences: { type: 'number' },
+                },
+              },
+            },
+            regressions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  kind: { type: 'string' },
+                  message: { type: 'string' },
+                  current: { type: 'number' },
+                  previous: { type: ['number', 'null'] },
+                },
+              },
+            },
+            regressed: { type: 'boolean' },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('releases:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { version } = request.params as { version: string };
+      const health = await releases.getHealth(getWriteProjectId(request), version);
+      reply.send(health);
+
+    } catch (error) {
+      if (error instanceof ReleaseError) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: error.message,
+        });
+        return;
+      }
+
+      fastify.log.error({ error }, 'Error getting release health');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to get release health',
+      });
+    }
+  });
+}
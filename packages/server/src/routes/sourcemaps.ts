@@ -0,0 +1,208 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { requirePermission } from '../middleware';
+import { getWriteProjectId } from '../projects';
+import { getSourceMapStore, MAX_SOURCE_MAP_BYTES, SourceMapError } from '../sourcemaps';
+
+const sourceMapProperties = {
+  id: { type: 'string' },
+  projectId: { type: 'string' },
+  release: { type: 'string' },
+  fileUrl: { type: 'string' },
+  sizeBytes: { type: 'number' },
+  sourceCount: { type: 'number' },
+  createdAt: { type: 'string' },
+};
+
+const frameProperties = {
+  function: { type: 'string' },
+  file: { type: 'string' },
+  line: { type: 'number' },
+  column: { type: 'number' },
+};
+
+export default async function sourceMapsRoutes(fastify: FastifyInstance): Promise<void> {
+  const store = getSourceMapStore();
+
+  // Upload the source map for one minified file of a release
+  fastify.post('/', {
+    schema: {
+      description: 'Upload a source map. `fileUrl` is the URL of the minified file, or `~/path` to match it on any origin',
+      tags: ['sourcemaps'],
+      security: [{ apiKey: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          release: { type: 'string', minLength: 1, maxLength: 255 },
+          fileUrl: { type: 'string', minLength: 1, maxLength: 2048 },
+          sourceMap: { type: ['string', 'object'] },
+        },
+        required: ['release', 'fileUrl', 'sourceMap'],
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: sourceMapProperties,
+        },
+      },
+    },
+    // JSON escaping makes the body somewhat larger than the map itself
+    bodyLimit: MAX_SOURCE_MAP_BYTES * 2,
+    preHandler: [requirePermission('sourcemaps:write')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = request.body as { release: string; fileUrl: string; sourceMap: string | Record<string, unknown> };
+      const record = await store.upload({
+        projectId: getWriteProjectId(request),
+        release: body.release,
+        fileUrl: body.fileUrl,
+        sourceMap: body.sourceMap,
+      });
+
+      reply.code(201).send(record);
+
+    } catch (error) {
+      if (error instanceof SourceMapError) {
+        reply.code(400).send({
+          error: 'Invalid Source Map',
+          message: error.message,
+        });
+        return;
+      }
+
+      fastify.log.error({ error }, 'Error uploading source map');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to upload source map',
+      });
+    }
+  });
+
+  // List uploaded source maps, optionally for one release
+  fastify.get('/', {
+    schema: {
+      description: 'List uploaded source maps',
+      tags: ['sourcemaps'],
+      security: [{ apiKey: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          release: { type: 'string' },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            sourceMaps: {
+              type: 'array',
+              items: { type: 'object', properties: sourceMapProperties },
+            },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('sourcemaps:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const query = request.query as { release?: string };
+      const sourceMaps = await store.list(request.projectId ?? null, query.release);
+      reply.send({ sourceMaps });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error listing source maps');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to list source maps',
+      });
+    }
+  });
+
+  // Delete an uploaded source map
+  fastify.delete('/:id', {
+    schema: {
+      description: 'Delete a source map',
+      tags: ['sourcemaps'],
+      security: [{ apiKey: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+        },
+        required: ['id'],
+      },
+    },
+    preHandler: [requirePermission('sourcemaps:write')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const deleted = await store.delete(id, request.projectId ?? null);
+
+      if (!deleted) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: 'Source map not found',
+        });
+        return;
+      }
+
+      reply.send({ success: true });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error deleting source map');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete source map',
+      });
+    }
+  });
+
+  // Symbolicate an arbitrary stack trace against a release's source maps
+  fastify.post('/symbolicate', {
+    schema: {
+      description: 'Map a minified stack trace back to original files and lines',
+      tags: ['sourcemaps'],
+      security: [{ apiKey: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          release: { type: 'string', minLength: 1, maxLength: 255 },
+          stack: { type: 'string', minLength: 1, maxLength: 100000 },
+        },
+        required: ['release', 'stack'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            stack: { type: 'string' },
+            symbolicated: { type: 'boolean' },
+            frames: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  generated: { type: 'object', properties: frameProperties },
+                  original: { type: 'object', properties: frameProperties },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('sourcemaps:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = request.body as { release: string; stack: string };
+      const result = await store.symbolicate(body.stack, body.release, getWriteProjectId(request));
+      reply.send(result);
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error symbolicating stack trace');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to symbolicate stack trace',
+      });
+    }
+  });
+}
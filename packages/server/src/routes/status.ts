@@ -0,0 +1,843 @@
+import { createHash } from 'crypto';
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { requirePermission } from '../middleware';
+import { DEFAULT_PROJECT_ID, getProjectManager, getWriteProjectId } from '../projects';
+import { getRedis } from '../redis';
+import {
+  getStatusPageManager,
+  StatusIncidentSeverity,
+  StatusIncidentStatus,
+  StatusPageError,
+  UptimePeriod,
+} from '../status';
+import { ComponentStatus, StatusComponent } from '../types';
+
+const componentStatuses = ['operational', 'degraded_performance', 'partial_outage', 'major_outage'];
+const incidentStatuses = ['investigating', 'identified', 'monitoring', 'resolved'];
+const incidentSeverities = ['P1_CRITICAL', 'P2_HIGH', 'P3_MEDIUM', 'P4_LOW'];
+
+// Each subscription sends a confirmation to an address chosen by an anonymous caller, so
+// both the caller and the target are held to a handful of requests
+const SUBSCRIBE_LIMIT_PER_IP = 5;
+const SUBSCRIBE_LIMIT_PER_TARGET = 3;
+const SUBSCRIBE_TARGET_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const componentProperties = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  description: { type: 'string' },
+  status: { type: 'string' },
+  group: { type: 'string' },
+  order: { type: 'number' },
+};
+
+const incidentProperties = {
+  id: { type: 'string' },
+  title: { type: 'string' },
+  description: { type: 'string' },
+  status: { type: 'string' },
+  severity: { type: 'string' },
+  source: { type: 'string' },
+  affectedComponents: { type: 'array', items: { type: 'string' } },
+  componentImpacts: { type: 'object', additionalProperties: { type: 'string' } },
+  tags: { type: 'array', items: { type: 'string' } },
+  createdAt: { type: 'string' },
+  updatedAt: { type: 'string' },
+  resolvedAt: { type: ['string', 'null'] },
+  updates: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        status: { type: 'string' },
+        message: { type: 'string' },
+        createdAt: { type: 'string' },
+      },
+    },
+  },
+};
+
+const maintenanceProperties = {
+  id: { type: 'string' },
+  title: { type: 'string' },
+  description: { type: 'string' },
+  scheduledStart: { type: 'string' },
+  scheduledEnd: { type: 'string' },
+  componentIds: { type: 'array', items: { type: 'string' } },
+  affectedComponents: { type: 'array', items: { type: 'string' } },
+  status: { type: 'string' },
+};
+
+const pageResponse = {
+  type: 'object',
+  properties: {
+    overallStatus: { type: 'string' },
+    components: {
+      type: 'array',
+      items: { type: 'object', properties: { ...componentProperties, uptime: { type: 'number' } } },
+    },
+    activeIncidents: { type: 'array', items: { type: 'object', properties: incidentProperties } },
+    recentIncidents: { type: 'array', items: { type: 'object', properties: incidentProperties } },
+    maintenanceWindows: { type: 'array', items: { type: 'object', properties: maintenanceProperties } },
+    uptime: {
+      type: 'object',
+      properties: {
+        period: { type: 'string' },
+        percentage: { type: 'number' },
+        incidents: { type: 'number' },
+        downtime: { type: 'number' },
+        history: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              date: { type: 'string' },
+              uptime: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+    lastUpdated: { type: 'string' },
+  },
+};
+
+const periodQuery = {
+  period: { type: 'string', enum: ['24h', '7d', '30d', '90d'], default: '30d' },
+};
+
+// Component id -> status the incident puts it in
+const componentImpacts = {
+  type: 'object',
+  propertyNames: { format: 'uuid' },
+  additionalProperties: { type: 'string', enum: componentStatuses },
+  maxProperties: 100,
+};
+
+const idParams = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', format: 'uuid' },
+  },
+  required: ['id'],
+};
+
+const tokenQuery = {
+  type: 'object',
+  properties: {
+    token: { type: 'string', pattern: '^[0-9a-f]{64}$' },
+  },
+  required: ['token'],
+};
+
+export default async function statusRoutes(fastify: FastifyInstance): Promise<void> {
+  const statusPage = getStatusPageManager();
+
+  // Internal status page: every incident, including ones tagged internal or private
+  fastify.get('/', {
+    schema: {
+      description: 'Get status page data, including internal incidents',
+      tags: ['status'],
+      security: [{ apiKey: [] }],
+      querystring: { type: 'object', properties: periodQuery },
+      response: { 200: pageResponse },
+    },
+    preHandler: [requirePermission('status:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { period } = request.query as { period: UptimePeriod };
+      reply.send(await statusPage.getPageData(getWriteProjectId(request), period, false));
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error getting status page');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to get status page',
+      });
+    }
+  });
+
+  // Public status page. No API key; the project is picked by id or slug.
+  fastify.get('/public', {
+    schema: {
+      description: 'Get public status page data',
+      tags: ['status'],
+      querystring: {
+        type: 'object',
+        properties: {
+          ...periodQuery,
+          project: { type: 'string', minLength: 1, maxLength: 64 },
+        },
+      },
+      response: { 200: pageResponse },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { period, project } = request.query as { period: UptimePeriod; project?: string };
+      const projectId = await resolvePublicProject(project);
+      if (!projectId) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: `Status page ${project} not found`,
+        });
+        return;
+      }
+
+      reply.send(await statusPage.getPageData(projectId, period, true));
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error getting public status page');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to get status page',
+      });
+    }
+  });
+
+  // Subscribe by email or webhook. The subscription is inactive until the link sent to the
+  // address is followed, and the response does not reveal whether it already existed.
+  fastify.post('/public/subscribe', {
+    config: {
+      rateLimit: {
+        max: SUBSCRIBE_LIMIT_PER_IP,
+        timeWindow: '1 hour',
+        keyGenerator: (request: FastifyRequest) => request.ip,
+      },
+    },
+    schema: {
+      description: 'Subscribe to status updates (double opt-in)',
+      tags: ['status'],
+      body: {
+        type: 'object',
+        properties: {
+          email: { type: 'string', format: 'email', maxLength: 320 },
+          webhookUrl: { type: 'string', format: 'uri', pattern: '^https?://', maxLength: 2048 },
+          project: { type: 'string', minLength: 1, maxLength: 64 },
+        },
+        oneOf: [
+          { required: ['email'] },
+          { required: ['webhookUrl'] },
+        ],
+      },
+      response: {
+        202: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = request.body as { email?: string; webhookUrl?: string; project?: string };
+      const projectId = await resolvePublicProject(body.project);
+      if (!projectId) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: `Status page ${body.project} not found`,
+        });
+        return;
+      }
+
+      const kind = body.email ? 'email' : 'webhook';
+      const target = body.email ? body.email.toLowerCase() : body.webhookUrl!;
+
+      const targetKey = createHash('sha256').update(`${kind}:${target}`).digest('hex');
+      const limit = await getRedis().checkRateLimit(
+        `ratelimit:status-subscribe:${targetKey}`, SUBSCRIBE_LIMIT_PER_TARGET, SUBSCRIBE_TARGET_WINDOW_MS
+      );
+      if (!limit.allowed) {
+        reply.code(429).send({
+          error: 'Rate Limit Exceeded',
+          message: 'Too many subscription requests for this address',
+          retryAfter: Math.ceil((limit.resetTime - Date.now()) / 1000),
+        });
+        return;
+      }
+
+      await statusPage.subscribe(projectId, kind, target);
+
+      reply.code(202).send({
+        message: 'Check your inbox or webhook endpoint for a confirmation link',
+      });
+
+    } catch (error) {
+      if (error instanceof StatusPageError) {
+        reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message,
+        });
+        return;
+      }
+      fastify.log.error({ error }, 'Error subscribing to status updates');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to subscribe',
+      });
+    }
+  });
+
+  fastify.get('/public/confirm', {
+    schema: {
+      description: 'Confirm a status update subscription',
+      tags: ['status'],
+      querystring: tokenQuery,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { token } = request.query as { token: string };
+      if (!await statusPage.confirmSubscription(token)) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: 'Subscription not found',
+        });
+        return;
+      }
+
+      reply.send({ message: 'Subscription confirmed' });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error confirming subscription');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to confirm subscription',
+      });
+    }
+  });
+
+  fastify.get('/public/unsubscribe', {
+    schema: {
+      description: 'Cancel a status update subscription',
+      tags: ['status'],
+      querystring: tokenQuery,
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { token } = request.query as { token: string };
+      await statusPage.unsubscribe(token);
+      reply.send({ message: 'Unsubscribed' });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error unsubscribing');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to unsubscribe',
+      });
+    }
+  });
+
+  fastify.get('/components', {
+    schema: {
+      description: 'List status page components',
+      tags: ['status'],
+      security: [{ apiKey: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            components: { type: 'array', items: { type: 'object', properties: componentProperties } },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('status:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      reply.send({ components: await statusPage.listComponents(request.projectId ?? null) });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error listing status components');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to list components',
+      });
+    }
+  });
+
+  fastify.post('/components', {
+    schema: {
+      description: 'Create a status page component',
+      tags: ['status'],
+      security: [{ apiKey: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: 255 },
+          description: { type: 'string', maxLength: 10000 },
+          status: { type: 'string', enum: componentStatuses, default: 'operational' },
+          group: { type: 'string', minLength: 1, maxLength: 255 },
+          order: { type: 'integer', default: 0 },
+        },
+        required: ['name'],
+      },
+      response: {
+        201: { type: 'object', properties: componentProperties },
+      },
+    },
+    preHandler: [requirePermission('status:write')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const component = await statusPage.createComponent(
+        getWriteProjectId(request),
+        request.body as StatusComponent
+      );
+      reply.code(201).send(component);
+
+    } catch (error) {
+      if ((error as { code?: string }).code === '23505') {
+        reply.code(409).send({
+          error: 'Conflict',
+          message: 'A component with this name already exists',
+        });
+        return;
+      }
+
+      fastify.log.error({ error }, 'Error creating status component');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create component',
+      });
+    }
+  });
+
+  // Changing a component's status notifies subscribers
+  fastify.patch('/components/:id', {
+    schema: {
+      description: 'Update a status page component',
+      tags: ['status'],
+      security: [{ apiKey: [] }],
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: 255 },
+          description: { type: 'string', maxLength: 10000 },
+          status: { type: 'string', enum: componentStatuses },
+          group: { type: 'string', minLength: 1, maxLength: 255 },
+          order: { type: 'integer' },
+        },
+        minProperties: 1,
+      },
+      response: {
+        200: { type: 'object', properties: componentProperties },
+      },
+    },
+    preHandler: [requirePermission('status:write')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const component = await statusPage.updateComponent(
+        getWriteProjectId(request),
+        id,
+        request.body as Partial<StatusComponent>
+      );
+
+      if (!component) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: 'Component not found',
+        });
+        return;
+      }
+
+      reply.send(component);
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error updating status component');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update component',
+      });
+    }
+  });
+
+  fastify.delete('/components/:id', {
+    schema: {
+      description: 'Delete a status page component',
+      tags: ['status'],
+      security: [{ apiKey: [] }],
+      params: idParams,
+    },
+    preHandler: [requirePermission('status:write')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      if (!await statusPage.deleteComponent(getWriteProjectId(request), id)) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: 'Component not found',
+        });
+        return;
+      }
+
+      reply.code(204).send();
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error deleting status component');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete component',
+      });
+    }
+  });
+
+  fastify.get('/incidents', {
+    schema: {
+      description: 'List status page incidents, newest first',
+      tags: ['status'],
+      security: [{ apiKey: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'integer', minimum: 1, maximum: 500, default: 50 },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            incidents: { type: 'array', items: { type: 'object', properties: incidentProperties } },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('status:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { limit } = request.query as { limit: number };
+      reply.send({ incidents: await statusPage.listIncidents(request.projectId ?? null, { limit }) });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error listing status incidents');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to list incidents',
+      });
+    }
+  });
+
+  // Open an incident; tag it internal or private to keep it off the public page
+  fastify.post('/incidents', {
+    schema: {
+      description: 'Post a status page incident',
+      tags: ['status'],
+      security: [{ apiKey: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', minLength: 1, maxLength: 255 },
+          description: { type: 'string', minLength: 1, maxLength: 10000 },
+          status: { type: 'string', enum: incidentStatuses, default: 'investigating' },
+          severity: { type: 'string', enum: incidentSeverities },
+          components: { ...componentImpacts, default: {} },
+          tags: { type: 'array', items: { type: 'string', maxLength: 64 }, maxItems: 20, default: [] },
+          startedAt: { type: 'string', format: 'date-time' },
+        },
+        required: ['title', 'description', 'severity'],
+      },
+      response: {
+        201: { type: 'object', properties: incidentProperties },
+      },
+    },
+    preHandler: [requirePermission('status:write')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = request.body as {
+        title: string;
+        description: string;
+        status: StatusIncidentStatus;
+        severity: StatusIncidentSeverity;
+        components: Record<string, ComponentStatus>;
+        tags: string[];
+        startedAt?: string;
+      };
+
+      const incident = await statusPage.createIncident(getWriteProjectId(request), {
+        title: body.title,
+        description: body.description,
+        status: body.status,
+        severity: body.severity,
+        components: body.components,
+        tags: body.tags,
+        ...(body.startedAt ? { startedAt: body.startedAt } : {}),
+      });
+
+      reply.code(201).send(incident);
+
+    } catch (error) {
+      if (error instanceof StatusPageError) {
+        reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message,
+        });
+        return;
+      }
+
+      fastify.log.error({ error }, 'Error creating status incident');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to create incident',
+      });
+    }
+  });
+
+  // Post an update; status 'resolved' closes the incident and restores its components
+  fastify.post('/incidents/:id/updates', {
+    schema: {
+      description: 'Post an update to a status page incident',
+      tags: ['status'],
+      security: [{ apiKey: [] }],
+      params: idParams,
+      body: {
+        type: 'object',
+        properties: {
+          message: { type: 'string', minLength: 1, maxLength: 10000 },
+          status: { type: 'string', enum: incidentStatuses },
+          components: componentImpacts,
+        },
+        required: ['message'],
+      },
+      response: {
+        200: { type: 'object', properties: incidentProperties },
+      },
+    },
+    preHandler: [requirePermission('status:write')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const body = request.body as {
+        message: string;
+        status?: StatusIncidentStatus;
+        components?: Record<string, ComponentStatus>;
+      };
+
+      const incident = await statusPage.updateIncident(getWriteProjectId(request), id, {
+        message: body.message,
+        ...(body.status ? { status: body.status } : {}),
+        ...(body.components ? { components: body.components } : {}),
+      });
+
+      if (!incident) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: 'Incident not found',
+        });
+        return;
+      }
+
+      reply.send(incident);
+
+    } catch (error) {
+      if (error instanceof StatusPageError) {
+        reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message,
+        });
+        return;
+      }
+
+      fastify.log.error({ error }, 'Error updating status incident');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to update incident',
+      });
+    }
+  });
+
+  fastify.get('/maintenances', {
+    schema: {
+      description: 'List scheduled maintenance',
+      tags: ['status'],
+      security: [{ apiKey: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          includeCompleted: { type: 'boolean', default: false },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            maintenances: { type: 'array', items: { type: 'object', properties: maintenanceProperties } },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('status:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { includeCompleted } = request.query as { includeCompleted: boolean };
+      reply.send({
+        maintenances: await statusPage.listMaintenances(request.projectId ?? null, { includeCompleted }),
+      });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error listing maintenance');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to list maintenance',
+      });
+    }
+  });
+
+  // Schedule maintenance; subscribers are told when it is posted
+  fastify.post('/maintenances', {
+    schema: {
+      description: 'Post scheduled maintenance',
+      tags: ['status'],
+      security: [{ apiKey: [] }],
+      body: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', minLength: 1, maxLength: 255 },
+          description: { type: 'string', maxLength: 10000, default: '' },
+          componentIds: { type: 'array', items: { type: 'string', format: 'uuid' }, maxItems: 100, default: [] },
+          scheduledStart: { type: 'string', format: 'date-time' },
+          scheduledEnd: { type: 'string', format: 'date-time' },
+        },
+        required: ['title', 'scheduledStart', 'scheduledEnd'],
+      },
+      response: {
+        201: { type: 'object', properties: maintenanceProperties },
+      },
+    },
+    preHandler: [requirePermission('status:write')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = request.body as {
+        title: string;
+        description: string;
+        componentIds: string[];
+        scheduledStart: string;
+        scheduledEnd: string;
+      };
+
+      reply.code(201).send(await statusPage.createMaintenance(getWriteProjectId(request), body));
+
+    } catch (error) {
+      if (error instanceof StatusPageError) {
+        reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message,
+        });
+        return;
+      }
+
+      fastify.log.error({ error }, 'Error scheduling maintenance');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to schedule maintenance',
+      });
+    }
+  });
+
+  fastify.delete('/maintenances/:id', {
+    schema: {
+      description: 'Cancel scheduled maintenance',
+      tags: ['status'],
+      security: [{ apiKey: [] }],
+      params: idParams,
+    },
+    preHandler: [requirePermission('status:write')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      if (!await statusPage.deleteMaintenance(getWriteProjectId(request), id)) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: 'Maintenance not found',
+        });
+        return;
+      }
+
+      reply.code(204).send();
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error deleting maintenance');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to delete maintenance',
+      });
+    }
+  });
+
+  fastify.get('/subscribers', {
+    schema: {
+      description: 'List status update subscribers',
+      tags: ['status'],
+      security: [{ apiKey: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            subscribers: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  kind: { type: 'string' },
+                  target: { type: 'string' },
+                  confirmed: { type: 'boolean' },
+                  createdAt: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('status:write')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      reply.send({ subscribers: await statusPage.listSubscribers(request.projectId ?? null) });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error listing subscribers');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to list subscribers',
+      });
+    }
+  });
+
+  fastify.delete('/subscribers/:id', {
+    schema: {
+      description: 'Remove a status update subscriber',
+      tags: ['status'],
+      security: [{ apiKey: [] }],
+      params: idParams,
+    },
+    preHandler: [requirePermission('status:write')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      if (!await statusPage.deleteSubscriber(getWriteProjectId(request), id)) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: 'Subscriber not found',
+        });
+        return;
+      }
+
+      reply.code(204).send();
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error removing subscriber');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to remove subscriber',
+      });
+    }
+  });
+}
+
+// Public routes carry no API key; they name the project, or get the default one
+async function resolvePublicProject(project: string | undefined): Promise<string | null> {
+  if (!project) return DEFAULT_PROJECT_ID;
+  const found = await getProjectManager().getProject(project);
+  return found?.id ?? null;
+}
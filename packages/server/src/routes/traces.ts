@@ -0,0 +1,110 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { requirePermission } from '../middleware';
+import { getTraceManager } from '../traces';
+
+export default async function tracesRoutes(fastify: FastifyInstance): Promise<void> {
+  const traces = getTraceManager();
+
+  // List recent traces received through the OTLP receiver
+  fastify.get('/', {
+    schema: {
+      description: 'List traces in a time range',
+      tags: ['traces'],
+      security: [{ apiKey: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          startTime: { type: 'string', format: 'date-time' },
+          endTime: { type: 'string', format: 'date-time' },
+          service: { type: 'string' },
+          limit: { type: 'integer', minimum: 1, maximum: 1000, default: 100 },
+        },
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            traces: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  traceId: { type: 'string' },
+                  rootName: { type: ['string', 'null'] },
+                  services: { type: 'array', items: { type: 'string' } },
+                  startTime: { type: 'string' },
+                  duration: { type: 'number' },
+                  spanCount: { type: 'number' },
+                  errorCount: { type: 'number' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    preHandler: [requirePermission('traces:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const query = request.query as { startTime?: string; endTime?: string; service?: string; limit: number };
+      const endTime = query.endTime || new Date().toISOString();
+      const startTime = query.startTime || new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+      const list = await traces.listTraces({
+        projectId: request.projectId ?? null,
+        startTime,
+        endTime,
+        ...(query.service ? { service: query.service } : {}),
+        limit: query.limit,
+      });
+
+      reply.send({ traces: list });
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error listing traces');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to list traces',
+      });
+    }
+  });
+
+  // Full trace in the debugging package's TraceJourney shape
+  fastify.get('/:traceId', {
+    schema: {
+      description: 'Get a trace with its span tree',
+      tags: ['traces'],
+      security: [{ apiKey: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          traceId: { type: 'string', pattern: '^[0-9a-fA-F]{32}$' },
+        },
+        required: ['traceId'],
+      },
+    },
+    preHandler: [requirePermission('traces:read')],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { traceId } = request.params as { traceId: string };
+      const journey = await traces.getTraceJourney(traceId, request.projectId);
+
+      if (!journey) {
+        reply.code(404).send({
+          error: 'Not Found',
+          message: `Trace ${traceId} not found`,
+        });
+        return;
+      }
+
+      reply.send(journey);
+
+    } catch (error) {
+      fastify.log.error({ error }, 'Error fetching trace');
+      reply.code(500).send({
+        error: 'Internal Server Error',
+        message: 'Failed to fetch trace',
+      });
+    }
+  });
+}
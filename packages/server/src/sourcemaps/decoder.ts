@@ -0,0 +1,186 @@
+// Source Map v3 decoding (https://sourcemaps.info/spec.html): base64 VLQ mappings, decoded once
+// per map into per-line segment tables that original positions are looked up in.
+
+export class SourceMapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SourceMapError';
+  }
+}
+
+export interface RawSourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources: Array<string | null>;
+  sourcesContent?: Array<string | null>;
+  names?: string[];
+  mappings: string;
+}
+
+export interface OriginalPosition {
+  source: string;
+  // 1-based, like stack traces
+  line: number;
+  column: number;
+  name?: string;
+}
+
+// Fields per decoded segment: generated column, source index, original line, original column,
+// name index (-1 when the segment has no name)
+const SEGMENT_SIZE = 5;
+
+const BASE64_VALUES = new Int8Array(128).fill(-1);
+'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+  .split('')
+  .forEach((char, i) => { BASE64_VALUES[char.charCodeAt(0)] = i; });
+
+// Validate uploaded JSON as a flat v3 map; index maps with `sections` are not supported
+export function parseSourceMap(input: string | Record<string, unknown>): RawSourceMap {
+  let map: any;
+  try {
+    map = typeof input === 'string' ? JSON.parse(input.replace(/^\)\]\}'[^\n]*\n/, '')) : input;
+  } catch {
+    throw new SourceMapError('Source map is not valid JSON');
+  }
+
+  if (!map || typeof map !== 'object') {
+    throw new SourceMapError('Source map must be a JSON object');
+  }
+  if (map.version !== 3) {
+    throw new SourceMapError('Only version 3 source maps are supported');
+  }
+  if (Array.isArray(map.sections)) {
+    throw new SourceMapError('Indexed source maps with sections are not supported; upload one map per file');
+  }
+  if (typeof map.mappings !== 'string' || !Array.isArray(map.sources)) {
+    throw new SourceMapError('Source map needs `mappings` and `sources`');
+  }
+
+  return map as RawSourceMap;
+}
+
+export class SourceMapConsumer {
+  private lines: Int32Array[] = [];
+  private sources: string[];
+  private names: string[];
+
+  constructor(map: RawSourceMap) {
+    const root = map.sourceRoot ? map.sourceRoot.replace(/\/?$/, '/') : '';
+    this.sources = map.sources.map(source => (source === null ? '' : root + source));
+    this.names = map.names ?? [];
+    this.decode(map.mappings);
+  }
+
+  // Original position for a 1-based line and column in the generated file
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    const segments = this.lines[line - 1];
+    if (!segments || segments.length === 0) return null;
+
+    // Last segment starting at or before the column
+    const target = column - 1;
+    let low = 0;
+    let high = segments.length / SEGMENT_SIZE - 1;
+    let match = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (segments[mid * SEGMENT_SIZE]! <= target) {
+        match = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    if (match < 0) return null;
+
+    const offset = match * SEGMENT_SIZE;
+    const sourceIndex = segments[offset + 1]!;
+    if (sourceIndex < 0) return null;
+
+    const nameIndex = segments[offset + 4]!;
+    const name = nameIndex >= 0 ? this.names[nameIndex] : undefined;
+    return {
+      source: this.sources[sourceIndex] ?? '',
+      line: segments[offset + 2]! + 1,
+      column: segments[offset + 3]! + 1,
+      ...(name ? { name } : {}),
+    };
+  }
+
+  private decode(mappings: string): void {
+    let sourceIndex = 0;
+    let sourceLine = 0;
+    let sourceColumn = 0;
+    let nameIndex = 0;
+    let position = 0;
+
+    const readVlq = (): number => {
+      let result = 0;
+      let shift = 0;
+      let digit: number;
+      do {
+        const value = BASE64_VALUES[mappings.charCodeAt(position++)] ?? -1;
+        if (value < 0) {
+          throw new SourceMapError(`Invalid VLQ character at mappings offset ${position - 1}`);
+        }
+        digit = value;
+        result += (digit & 31) << shift;
+        shift += 5;
+      } while (digit & 32);
+      return result & 1 ? -(result >>> 1) : result >>> 1;
+    };
+
+    const atSegmentEnd = () =>
+      position >= mappings.length || mappings[position] === ',' || mappings[position] === ';';
+
+    let segments: number[] = [];
+    let generatedColumn = 0;
+    while (position < mappings.length) {
+      const char = mappings[position];
+      if (char === ';') {
+        this.lines.push(Int32Array.from(segments));
+        segments = [];
+        generatedColumn = 0;
+        position++;
+        continue;
+      }
+      if (char === ',') {
+        position++;
+        continue;
+      }
+
+      generatedColumn += readVlq();
+      if (atSegmentEnd()) {
+        segments.push(generatedColumn, -1, -1, -1, -1);
+        continue;
+      }
+      sourceIndex += readVlq();
+      sourceLine += readVlq();
+      sourceColumn += readVlq();
+      if (!atSegmentEnd()) {
+        nameIndex += readVlq();
+        segments.push(generatedColumn, sourceIndex, sourceLine, sourceColumn, nameIndex);
+      } else {
+        segments.push(generatedColumn, sourceIndex, sourceLine, sourceColumn, -1);
+      }
+    }
+    this.lines.push(Int32Array.from(segments));
+
+    // Segments are usually sorted already; sort any line that is not
+    this.lines = this.lines.map(segments => {
+      for (let i = SEGMENT_SIZE; i < segments.length; i += SEGMENT_SIZE) {
+        if (segments[i]! < segments[i - SEGMENT_SIZE]!) return sortSegments(segments);
+      }
+      return segments;
+    });
+  }
+}
+
+function sortSegments(segments: Int32Array): Int32Array {
+  const rows: number[][] = [];
+  for (let i = 0; i < segments.length; i += SEGMENT_SIZE) {
+    rows.push(Array.from(segments.subarray(i, i + SEGMENT_SIZE)));
+  }
+  rows.sort((a, b) => a[0]! - b[0]!);
+  return Int32Array.from(rows.flat());
+}
@@ -0,0 +1,228 @@
+import { getDatabase } from '../database';
+import { Event } from '../types';
+import { parseSourceMap, SourceMapConsumer, SourceMapError } from './decoder';
+import { formatStackFrame, parseStackLine, sourceMapKeysFor, StackFrame } from './stack';
+
+export { SourceMapError } from './decoder';
+export { parseStackLine } from './stack';
+export type { StackFrame } from './stack';
+
+export interface SourceMapRecord {
+  id: string;
+  projectId: string;
+  release: string;
+  fileUrl: string;
+  sizeBytes: number;
+  sourceCount: number;
+  createdAt: string;
+}
+
+export interface SymbolicatedFrame {
+  generated: StackFrame;
+  original?: StackFrame;
+}
+
+export interface SymbolicationResult {
+  stack: string;
+  symbolicated: boolean;
+  frames: SymbolicatedFrame[];
+}
+
+// Largest source map accepted by the upload route
+export const MAX_SOURCE_MAP_BYTES = 50 * 1024 * 1024;
+
+// Decoded maps kept in memory; each one holds the full mapping table of a bundle
+const CONSUMER_CACHE_SIZE = 20;
+// How long a (release, file) lookup is trusted, including "no map uploaded". Uploads on this
+// instance invalidate immediately; other instances catch up within this window.
+const LOOKUP_TTL_MS = 60 * 1000;
+const LOOKUP_CACHE_SIZE = 5000;
+
+export class SourceMapStore {
+  private db = getDatabase();
+  private consumers: Map<string, SourceMapConsumer> = new Map();
+  private lookups: Map<string, { id: string | null; expiresAt: number }> = new Map();
+
+  // Store the map for one minified file of a release, replacing any earlier upload
+  async upload(data: {
+    projectId: string;
+    release: string;
+    fileUrl: string;
+    sourceMap: string | Record<string, unknown>;
+  }): Promise<SourceMapRecord> {
+    const text = typeof data.sourceMap === 'string' ? data.sourceMap : JSON.stringify(data.sourceMap);
+    const sizeBytes = Buffer.byteLength(text);
+    if (sizeBytes > MAX_SOURCE_MAP_BYTES) {
+      throw new SourceMapError(`Source map exceeds ${MAX_SOURCE_MAP_BYTES} bytes`);
+    }
+
+    const map = parseSourceMap(text);
+    // Decode once up front so malformed mappings are rejected at upload, not at ingest
+    new SourceMapConsumer(map);
+
+    // A replaced map gets a new id, so decoded copies cached by id on other instances go stale
+    const result = await this.db.query(`
+      INSERT INTO source_maps (project_id, release, file_url, source_map, size_bytes, source_count)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (project_id, release, file_url) DO UPDATE
+      SET id = EXCLUDED.id,
+          source_map = EXCLUDED.source_map,
+          size_bytes = EXCLUDED.size_bytes,
+          source_count = EXCLUDED.source_count,
+          created_at = NOW()
+      RETURNING id, project_id, release, file_url, size_bytes, source_count, created_at
+    `, [data.projectId, data.release, data.fileUrl, text, sizeBytes, map.sources.length]);
+
+    this.lookups.clear();
+    return this.toRecord(result.rows[0]);
+  }
+
+  async list(projectId: string | null, release?: string): Promise<SourceMapRecord[]> {
+    const result = await this.db.query(`
+      SELECT id, project_id, release, file_url, size_bytes, source_count, created_at
+      FROM source_maps
+      WHERE ($1::uuid IS NULL OR project_id = $1)
+        AND ($2::text IS NULL OR release = $2)
+      ORDER BY created_at DESC
+      LIMIT 1000
+    `, [projectId, release ?? null]);
+
+    return result.rows.map((row: any) => this.toRecord(row));
+  }
+
+  async delete(id: string, projectId: string | null): Promise<boolean> {
+    const result = await this.db.query(`
+      DELETE FROM source_maps WHERE id = $1 AND ($2::uuid IS NULL OR project_id = $2)
+    `, [id, projectId]);
+
+    this.consumers.delete(id);
+    this.lookups.clear();
+    return result.rowCount > 0;
+  }
+
+  // Rewrite the frames of a stack trace that have a map for the release to their original
+  // locations. Frames without a map, and lines that are not frames, are kept as they are.
+  async symbolicate(stack: string, release: string, projectId: string): Promise<SymbolicationResult> {
+    const frames: SymbolicatedFrame[] = [];
+    const consumers = new Map<string, Promise<SourceMapConsumer | null>>();
+    let symbolicated = false;
+
+    const lines = await Promise.all(stack.split('\n').map(async (line) => {
+      const generated = parseStackLine(line);
+      if (!generated) return line;
+
+      const frame: SymbolicatedFrame = { generated };
+      frames.push(frame);
+
+      // Frames of the same bundle share one lookup
+      if (!consumers.has(generated.file)) {
+        consumers.set(generated.file, this.getConsumer(projectId, release, generated.file));
+      }
+      const consumer = await consumers.get(generated.file);
+      const position = consumer?.originalPositionFor(generated.line, generated.column);
+      if (!position) return line;
+
+      // Source maps record the identifier at a position, which for a call site is the
+      // callee; the minified enclosing function name is kept only when none is recorded
+      const name = position.name ?? generated.function;
+      frame.original = {
+        ...(name ? { function: name } : {}),
+        file: position.source,
+        line: position.line,
+        column: position.column,
+      };
+      symbolicated = true;
+      return formatStackFrame(frame.original);
+    }));
+
+    return { stack: lines.join('\n'), symbolicated, frames };
+  }
+
+  // Symbolicate an event's stack at ingest, using its release (or, from older SDKs,
+  // `metadata.release`). The minified stack is kept in `metadata.minifiedStack`. Failures
+  // never reject the event.
+  async symbolicateEvent(event: Event, projectId: string): Promise<Event> {
+    const release = event.release ?? event.metadata?.release;
+    if (!event.stack || typeof release !== 'string' || !release) return event;
+
+    try {
+      const result = await this.symbolicate(event.stack, release, projectId);
+      if (!result.symbolicated) return event;
+
+      return {
+        ...event,
+        stack: result.stack,
+        metadata: { ...event.metadata, minifiedStack: event.stack },
+      };
+    } catch (error) {
+      console.error('Source map symbolication failed:', error);
+      return event;
+    }
+  }
+
+  private async getConsumer(projectId: string, release: string, file: string): Promise<SourceMapConsumer | null> {
+    const lookupKey = `${projectId}:${release}:${file}`;
+    const cached = this.lookups.get(lookupKey);
+
+    let id: string | null;
+    if (cached && cached.expiresAt > Date.now()) {
+      id = cached.id;
+    } else {
+      const keys = sourceMapKeysFor(file);
+      const result = await this.db.query(`
+        SELECT id FROM source_maps
+        WHERE project_id = $1 AND release = $2 AND file_url = ANY($3::text[])
+        ORDER BY array_position($3::text[], file_url)
+        LIMIT 1
+      `, [projectId, release, keys]);
+      id = result.rows[0]?.id ?? null;
+
+      if (this.lookups.size >= LOOKUP_CACHE_SIZE) {
+        this.lookups.delete(this.lookups.keys().next().value!);
+      }
+      this.lookups.set(lookupKey, { id, expiresAt: Date.now() + LOOKUP_TTL_MS });
+    }
+
+    if (!id) return null;
+
+    const consumer = this.consumers.get(id);
+    if (consumer) {
+      // Move to the end so the least recently used map is evicted first
+      this.consumers.delete(id);
+      this.consumers.set(id, consumer);
+      return consumer;
+    }
+
+    const result = await this.db.query(`SELECT source_map FROM source_maps WHERE id = $1`, [id]);
+    if (result.rows.length === 0) return null;
+
+    const loaded = new SourceMapConsumer(parseSourceMap(result.rows[0].source_map));
+    if (this.consumers.size >= CONSUMER_CACHE_SIZE) {
+      this.consumers.delete(this.consumers.keys().next().value!);
+    }
+    this.consumers.set(id, loaded);
+    return loaded;
+  }
+
+  private toRecord(row: any): SourceMapRecord {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      release: row.release,
+      fileUrl: row.file_url,
+      sizeBytes: row.size_bytes,
+      sourceCount: row.source_count,
+      createdAt: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+    };
+  }
+}
+
+// Singleton instance
+let sourceMapStore: SourceMapStore;
+
+export function getSourceMapStore(): SourceMapStore {
+  if (!sourceMapStore) {
+    sourceMapStore = new SourceMapStore();
+  }
+  return sourceMapStore;
+}
@@ -0,0 +1,45 @@
+// Stack trace parsing for the two formats browsers produce: V8 (`    at fn (url:line:col)`)
+// and SpiderMonkey/JavaScriptCore (`fn@url:line:col`).
+
+export interface StackFrame {
+  function?: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+const V8_FRAME = /^\s*at (?:(?:async )?(.+?) \()?(.+?):(\d+):(\d+)\)?\s*$/;
+const GECKO_FRAME = /^\s*(.*?)@(.+?):(\d+):(\d+)\s*$/;
+
+// Frame on one stack line, or null for lines that are not frames (the message, "<anonymous>")
+export function parseStackLine(line: string): StackFrame | null {
+  const match = V8_FRAME.exec(line) ?? GECKO_FRAME.exec(line);
+  if (!match) return null;
+
+  const [, fn, file, lineNumber, column] = match;
+  return {
+    ...(fn ? { function: fn } : {}),
+    file: file!,
+    line: Number(lineNumber),
+    column: Number(column),
+  };
+}
+
+export function formatStackFrame(frame: StackFrame): string {
+  const location = `${frame.file}:${frame.line}:${frame.column}`;
+  return frame.function ? `    at ${frame.function} (${location})` : `    at ${location}`;
+}
+
+// URLs a source map may have been uploaded under for a frame's file: the exact URL and the
+// origin-independent `~/path` form, both without query string or fragment
+export function sourceMapKeysFor(file: string): string[] {
+  const withoutQuery = file.replace(/[?#].*$/, '');
+  const keys = [withoutQuery];
+  try {
+    const url = new URL(withoutQuery);
+    keys.push(`~${url.pathname}`);
+  } catch {
+    if (withoutQuery.startsWith('/')) keys.push(`~${withoutQuery}`);
+  }
+  return [...new Set(keys)];
+}
@@ -0,0 +1,741 @@
+import { randomBytes } from 'crypto';
+import { PoolClient } from 'pg';
+import { getDatabase } from '../database';
+import { getProjectManager } from '../projects';
+import { ComponentStatus, StatusComponent, StatusComponentSchema } from '../types';
+import { getStatusNotifier, StatusMessage, StatusRecipient } from './notifier';
+import { isPublicWebhookUrl } from './targets';
+
+export type StatusIncidentStatus = 'investigating' | 'identified' | 'monitoring' | 'resolved';
+export type StatusIncidentSeverity = 'P1_CRITICAL' | 'P2_HIGH' | 'P3_MEDIUM' | 'P4_LOW';
+export type UptimePeriod = '24h' | '7d' | '30d' | '90d';
+
+export interface StatusIncidentUpdate {
+  id: string;
+  status: StatusIncidentStatus;
+  message: string;
+  createdAt: string;
+}
+
+// Shaped like the incident-management Incident so the StatusPage component can render it
+export interface StatusIncident {
+  id: string;
+  title: string;
+  description: string;
+  status: StatusIncidentStatus;
+  severity: StatusIncidentSeverity;
+  source: 'manual';
+  // Names of the affected components, for display
+  affectedComponents: string[];
+  // Status each affected component had during the incident, by component id
+  componentImpacts: Record<string, ComponentStatus>;
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+  resolvedAt: string | null;
+  updates: StatusIncidentUpdate[];
+}
+
+export interface MaintenanceWindow {
+  id: string;
+  title: string;
+  description: string;
+  scheduledStart: string;
+  scheduledEnd: string;
+  componentIds: string[];
+  affectedComponents: string[];
+  status: 'scheduled' | 'in-progress' | 'completed';
+}
+
+export interface StatusSubscriber {
+  id: string;
+  kind: 'email' | 'webhook';
+  target: string;
+  confirmed: boolean;
+  createdAt: string;
+}
+
+export interface UptimeData {
+  period: UptimePeriod;
+  percentage: number;
+  incidents: number;
+  // Minutes of full outage; a partial outage counts half
+  downtime: number;
+  // Uptime per hour for 24h, per day otherwise, oldest first
+  history: Array<{ date: string; uptime: number }>;
+}
+
+export interface StatusPageData {
+  overallStatus: 'operational' | 'issues' | 'outage';
+  components: Array<StatusComponent & { id: string; uptime: number }>;
+  activeIncidents: StatusIncident[];
+  recentIncidents: StatusIncident[];
+  maintenanceWindows: MaintenanceWindow[];
+  uptime: UptimeData;
+  lastUpdated: string;
+}
+
+export class StatusPageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatusPageError';
+  }
+}
+
+const PERIOD_MS: Record<UptimePeriod, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Share of a period counted as downtime while a component is in each status
+const DOWNTIME_WEIGHT: Record<ComponentStatus, number> = {
+  operational: 0,
+  degraded_performance: 0,
+  partial_outage: 0.5,
+  major_outage: 1,
+};
+
+// Incidents posted without component impacts count against overall uptime by severity
+const SEVERITY_WEIGHT: Record<StatusIncidentSeverity, number> = {
+  P1_CRITICAL: 1,
+  P2_HIGH: 0.5,
+  P3_MEDIUM: 0,
+  P4_LOW: 0,
+};
+
+const STATUS_RANK: ComponentStatus[] = ['operational', 'degraded_performance', 'partial_outage', 'major_outage'];
+
+// Incidents tagged like this are left off the public page
+const PRIVATE_TAGS = ['internal', 'private'];
+
+const INCIDENT_COLUMNS = `
+  i.id, i.title, i.description, i.status, i.severity, i.component_impacts, i.tags,
+  i.started_at, i.updated_at, i.resolved_at,
+  COALESCE((
+    SELECT array_agg(c.name ORDER BY c.position, c.name) FROM status_components c
+    WHERE c.project_id = i.project_id AND c.id::text IN (SELECT jsonb_object_keys(i.component_impacts))
+  ), '{}') AS component_names,
+  COALESCE((
+    SELECT json_agg(json_build_object('id', u.id, 'status', u.status, 'message', u.message, 'createdAt', u.created_at)
+      ORDER BY u.created_at DESC)
+    FROM status_incident_updates u WHERE u.incident_id = i.id
+  ), '[]') AS updates
+`;
+
+const MAINTENANCE_COLUMNS = `
+  m.id, m.title, m.description, m.component_ids, m.scheduled_start, m.scheduled_end,
+  COALESCE((
+    SELECT array_agg(c.name ORDER BY c.position, c.name) FROM status_components c
+    WHERE c.id = ANY(m.component_ids)
+  ), '{}') AS component_names
+`;
+
+interface Outage {
+  start: number;
+  end: number;
+  weight: number;
+}
+
+// Downtime in each bucket of [start, end), with overlapping outages counted once at their
+// heaviest weight
+export function bucketDowntime(outages: Outage[], start: number, end: number, bucketMs: number): number[] {
+  const buckets = new Array<number>(Math.ceil((end - start) / bucketMs)).fill(0);
+  const clipped = outages
+    .map(o => ({ start: Math.max(o.start, start), end: Math.min(o.end, end), weight: o.weight }))
+    .filter(o => o.end > o.start && o.weight > 0);
+
+  const edges = [...new Set(clipped.flatMap(o => [o.start, o.end]))].sort((a, b) => a - b);
+
+  for (let i = 0; i < edges.length - 1; i++) {
+    const from = edges[i];
+    const to = edges[i + 1];
+    const weight = Math.max(0, ...clipped.filter(o => o.start <= from && o.end >= to).map(o => o.weight));
+    if (weight === 0) continue;
+
+    // Spread the segment over the buckets it crosses
+    for (let t = from; t < to;) {
+      const index = Math.floor((t - start) / bucketMs);
+      const bucketEnd = Math.min(start + (index + 1) * bucketMs, to);
+      buckets[index] += (bucketEnd - t) * weight;
+      t = bucketEnd;
+    }
+  }
+
+  return buckets;
+}
+
+export class StatusPageManager {
+  private db = getDatabase();
+
+  async listComponents(projectId: string | null): Promise<Array<StatusComponent & { id: string }>> {
+    const result = await this.db.query(`
+      SELECT id, name, description, status, group_name, position
+      FROM status_components
+      WHERE ($1::uuid IS NULL OR project_id = $1)
+      ORDER BY group_name NULLS FIRST, position, name
+    `, [projectId]);
+
+    return result.rows.map((row: any) => this.toComponent(row));
+  }
+
+  async createComponent(projectId: string, data: StatusComponent): Promise<StatusComponent & { id: string }> {
+    const component = StatusComponentSchema.parse(data);
+    const result = await this.db.query(`
+      INSERT INTO status_components (project_id, name, description, status, group_name, position)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING id, name, description, status, group_name, position
+    `, [projectId, component.name, component.description ?? null, component.status, component.group ?? null, component.order]);
+
+    return this.toComponent(result.rows[0]);
+  }
+
+  // Update a component; a status change is announced to subscribers
+  async updateComponent(
+    projectId: string,
+    id: string,
+    data: Partial<StatusComponent>
+  ): Promise<(StatusComponent & { id: string }) | null> {
+    const patch = StatusComponentSchema.partial().parse(data);
+    const previous = await this.db.query(`
+      SELECT status FROM status_components WHERE project_id = $1 AND id = $2
+    `, [projectId, id]);
+    if (previous.rows.length === 0) return null;
+
+    const result = await this.db.query(`
+      UPDATE status_components
+      SET name = COALESCE($3, name),
+          description = CASE WHEN $4::boolean THEN $5 ELSE description END,
+          status = COALESCE($6, status),
+          group_name = CASE WHEN $7::boolean THEN $8 ELSE group_name END,
+          position = COALESCE($9, position),
+          updated_at = NOW()
+      WHERE project_id = $1 AND id = $2
+      RETURNING id, name, description, status, group_name, position
+    `, [
+      projectId, id,
+      patch.name ?? null,
+      'description' in data, patch.description ?? null,
+      'status' in data ? patch.status : null,
+      'group' in data, patch.group ?? null,
+      'order' in data ? patch.order : null,
+    ]);
+
+    const component = this.toComponent(result.rows[0]);
+    if (component.status !== previous.rows[0].status) {
+      this.notify(projectId, {
+        projectId,
+        event: 'component.status_changed',
+        title: `${component.name}: ${this.describeStatus(component.status)}`,
+        message: `${component.name} is now ${this.describeStatus(component.status).toLowerCase()}.`,
+        severity: this.componentSeverity(component.status),
+        metadata: { componentId: component.id, status: component.status, previousStatus: previous.rows[0].status },
+      });
+    }
+
+    return component;
+  }
+
+  async deleteComponent(projectId: string, id: string): Promise<boolean> {
+    const result = await this.db.query(`
+      DELETE FROM status_components WHERE project_id = $1 AND id = $2 RETURNING id
+    `, [projectId, id]);
+
+    return result.rows.length > 0;
+  }
+
+  async listIncidents(projectId: string | null, options: { since?: Date; limit: number }): Promise<StatusIncident[]> {
+    const result = await this.db.query(`
+      SELECT ${INCIDENT_COLUMNS}
+      FROM status_incidents i
+      WHERE ($1::uuid IS NULL OR i.project_id = $1)
+        AND ($2::timestamptz IS NULL OR COALESCE(i.resolved_at, NOW()) >= $2)
+      ORDER BY i.started_at DESC
+      LIMIT $3
+    `, [projectId, options.since ?? null, options.limit]);
+
+    return result.rows.map((row: any) => this.toIncident(row));
+  }
+
+  async getIncident(projectId: string, id: string): Promise<StatusIncident | null> {
+    const result = await this.db.query(`
+      SELECT ${INCIDENT_COLUMNS}
+      FROM status_incidents i
+      WHERE i.project_id = $1 AND i.id = $2
+    `, [projectId, id]);
+
+    return result.rows.length > 0 ? this.toIncident(result.rows[0]) : null;
+  }
+
+  // Open an incident. Each affected component takes the worst status of its open incidents.
+  async createIncident(projectId: string, data: {
+    title: string;
+    description: string;
+    status: StatusIncidentStatus;
+    severity: StatusIncidentSeverity;
+    components: Record<string, ComponentStatus>;
+    tags: string[];
+    startedAt?: string;
+  }): Promise<StatusIncident> {
+    const id = await this.db.transaction(async (client) => {
+      await this.assertComponents(client, projectId, Object.keys(data.components));
+
+      const resolved = data.status === 'resolved';
+      const result = await client.query(`
+        INSERT INTO status_incidents
+          (project_id, title, description, status, severity, component_impacts, tags, started_at, resolved_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8::timestamptz, NOW()), CASE WHEN $9::boolean THEN NOW() END)
+        RETURNING id
+      `, [
+        projectId, data.title, data.description, data.status, data.severity,
+        JSON.stringify(data.components), data.tags, data.startedAt ?? null, resolved,
+      ]);
+
+      const incidentId = result.rows[0].id as string;
+      await client.query(`
+        INSERT INTO status_incident_updates (incident_id, status, message) VALUES ($1, $2, $3)
+      `, [incidentId, data.status, data.description]);
+
+      await this.refreshComponentStatuses(client, projectId, Object.keys(data.components));
+      return incidentId;
+    });
+
+    const incident = (await this.getIncident(projectId, id))!;
+    this.announceIncident(projectId, incident, 'incident.created', data.description);
+    return incident;
+  }
+
+  // Post an update to an incident, optionally moving its status and component impacts
+  async updateIncident(projectId: string, id: string, data: {
+    message: string;
+    status?: StatusIncidentStatus;
+    components?: Record<string, ComponentStatus>;
+  }): Promise<StatusIncident | null> {
+    const updated = await this.db.transaction(async (client) => {
+      const current = await client.query(`
+        SELECT status, component_impacts FROM status_incidents
+        WHERE project_id = $1 AND id = $2
+        FOR UPDATE
+      `, [projectId, id]);
+      if (current.rows.length === 0) return false;
+
+      const status: StatusIncidentStatus = data.status ?? current.rows[0].status;
+      const previousComponents = Object.keys(current.rows[0].component_impacts ?? {});
+      if (data.components) {
+        await this.assertComponents(client, projectId, Object.keys(data.components));
+      }
+
+      await client.query(`
+        UPDATE status_incidents
+        SET status = $3,
+            component_impacts = COALESCE($4::jsonb, component_impacts),
+            resolved_at = CASE WHEN $3 = 'resolved' THEN COALESCE(resolved_at, NOW()) END,
+            updated_at = NOW()
+        WHERE project_id = $1 AND id = $2
+      `, [projectId, id, status, data.components ? JSON.stringify(data.components) : null]);
+
+      await client.query(`
+        INSERT INTO status_incident_updates (incident_id, status, message) VALUES ($1, $2, $3)
+      `, [id, status, data.message]);
+
+      await this.refreshComponentStatuses(client, projectId, [
+        ...new Set([...previousComponents, ...Object.keys(data.components ?? {})]),
+      ]);
+      return true;
+    });
+
+    if (!updated) return null;
+
+    const incident = (await this.getIncident(projectId, id))!;
+    this.announceIncident(
+      projectId,
+      incident,
+      incident.status === 'resolved' ? 'incident.resolved' : 'incident.updated',
+      data.message
+    );
+    return incident;
+  }
+
+  async listMaintenances(projectId: string | null, options: { includeCompleted: boolean }): Promise<MaintenanceWindow[]> {
+    const result = await this.db.query(`
+      SELECT ${MAINTENANCE_COLUMNS}
+      FROM status_maintenances m
+      WHERE ($1::uuid IS NULL OR m.project_id = $1)
+        AND ($2::boolean OR m.scheduled_end >= NOW())
+      ORDER BY m.scheduled_start
+    `, [projectId, options.includeCompleted]);
+
+    return result.rows.map((row: any) => this.toMaintenance(row));
+  }
+
+  // Post a scheduled maintenance; subscribers hear about it when it is posted
+  async createMaintenance(projectId: string, data: {
+    title: string;
+    description: string;
+    componentIds: string[];
+    scheduledStart: string;
+    scheduledEnd: string;
+  }): Promise<MaintenanceWindow> {
+    if (new Date(data.scheduledEnd) <= new Date(data.scheduledStart)) {
+      throw new StatusPageError('scheduledEnd must be after scheduledStart');
+    }
+
+    const id = await this.db.transaction(async (client) => {
+      await this.assertComponents(client, projectId, data.componentIds);
+      const result = await client.query(`
+        INSERT INTO status_maintenances (project_id, title, description, component_ids, scheduled_start, scheduled_end)
+        VALUES ($1, $2, $3, $4::uuid[], $5, $6)
+        RETURNING id
+      `, [projectId, data.title, data.description, data.componentIds, data.scheduledStart, data.scheduledEnd]);
+      return result.rows[0].id as string;
+    });
+
+    const result = await this.db.query(`
+      SELECT ${MAINTENANCE_COLUMNS} FROM status_maintenances m WHERE m.id = $1
+    `, [id]);
+    const maintenance = this.toMaintenance(result.rows[0]);
+
+    this.notify(projectId, {
+      projectId,
+      event: 'maintenance.scheduled',
+      title: `Scheduled maintenance: ${maintenance.title}`,
+      message: [
+        maintenance.description,
+        `From ${maintenance.scheduledStart} to ${maintenance.scheduledEnd}.`,
+        maintenance.affectedComponents.length > 0 ? `Affected: ${maintenance.affectedComponents.join(', ')}.` : '',
+      ].filter(Boolean).join('\n'),
+      severity: 'info',
+      metadata: { maintenanceId: maintenance.id, scheduledStart: maintenance.scheduledStart, scheduledEnd: maintenance.scheduledEnd },
+    });
+
+    return maintenance;
+  }
+
+  async deleteMaintenance(projectId: string, id: string): Promise<boolean> {
+    const result = await this.db.query(`
+      DELETE FROM status_maintenances WHERE project_id = $1 AND id = $2 RETURNING id
+    `, [projectId, id]);
+
+    return result.rows.length > 0;
+  }
+
+  // Everything the status page shows, with uptime computed from incident history
+  async getPageData(projectId: string, period: UptimePeriod, isPublic: boolean): Promise<StatusPageData> {
+    const end = Date.now();
+    const start = end - PERIOD_MS[period];
+
+    const [components, incidents, maintenanceWindows] = await Promise.all([
+      this.listComponents(projectId),
+      this.listIncidents(projectId, { since: new Date(start), limit: 1000 }),
+      this.listMaintenances(projectId, { includeCompleted: false }),
+    ]);
+
+    const visible = isPublic
+      ? incidents.filter(incident => !incident.tags.some(tag => PRIVATE_TAGS.includes(tag)))
+      : incidents;
+    const activeIncidents = visible.filter(incident => incident.status !== 'resolved');
+    const bucketMs = period === '24h' ? HOUR_MS : DAY_MS;
+
+    // Uptime counts every incident, including ones hidden from the public page
+    const outages = (weightOf: (incident: StatusIncident) => number) => incidents.map(incident => ({
+      start: new Date(incident.createdAt).getTime(),
+      end: incident.resolvedAt ? new Date(incident.resolvedAt).getTime() : end,
+      weight: weightOf(incident),
+    }));
+
+    const pageDowntime = bucketDowntime(outages(incident => {
+      const impacts = Object.values(incident.componentImpacts);
+      return impacts.length > 0
+        ? Math.max(...impacts.map(status => DOWNTIME_WEIGHT[status]))
+        : SEVERITY_WEIGHT[incident.severity];
+    }), start, end, bucketMs);
+
+    const downtimeMs = pageDowntime.reduce((total, value) => total + value, 0);
+    const history = pageDowntime.map((downtime, i) => {
+      const bucketStart = start + i * bucketMs;
+      const length = Math.min(bucketMs, end - bucketStart);
+      return {
+        date: new Date(bucketStart).toISOString(),
+        uptime: Math.max(0, 100 - (downtime / length) * 100),
+      };
+    });
+
+    return {
+      overallStatus: this.calculateOverallStatus(components, activeIncidents),
+      components: components.map(component => {
+        const downtime = bucketDowntime(
+          outages(incident => DOWNTIME_WEIGHT[incident.componentImpacts[component.id] ?? 'operational']),
+          start, end, end - start
+        )[0];
+        return { ...component, uptime: Math.max(0, 100 - (downtime / (end - start)) * 100) };
+      }),
+      activeIncidents,
+      recentIncidents: visible.slice(0, 10),
+      maintenanceWindows,
+      uptime: {
+        period,
+        percentage: Math.max(0, 100 - (downtimeMs / (end - start)) * 100),
+        incidents: incidents.length,
+        downtime: downtimeMs / 60000,
+        history,
+      },
+      lastUpdated: new Date(end).toISOString(),
+    };
+  }
+
+  // Register a subscriber and send the confirmation; nothing else is sent until it is confirmed
+  async subscribe(projectId: string, kind: 'email' | 'webhook', target: string): Promise<{ confirmed: boolean }> {
+    if (kind === 'webhook' && !await isPublicWebhookUrl(target)) {
+      throw new StatusPageError('Webhook URL must resolve to a public address');
+    }
+
+    const result = await this.db.query(`
+      INSERT INTO status_subscribers (project_id, kind, target, token)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (project_id, kind, target) DO UPDATE
+      SET token = CASE WHEN status_subscribers.confirmed_at IS NULL THEN EXCLUDED.token ELSE status_subscribers.token END
+      RETURNING token, confirmed_at
+    `, [projectId, kind, target, randomBytes(32).toString('hex')]);
+
+    const row = result.rows[0];
+    if (row.confirmed_at) return { confirmed: true };
+
+    const project = await getProjectManager().getProject(projectId);
+    await getStatusNotifier().sendConfirmation(projectId, { kind, target, token: row.token }, project?.name ?? projectId);
+    return { confirmed: false };
+  }
+
+  async confirmSubscription(token: string): Promise<boolean> {
+    const result = await this.db.query(`
+      UPDATE status_subscribers SET confirmed_at = COALESCE(confirmed_at, NOW())
+      WHERE token = $1
+      RETURNING id
+    `, [token]);
+
+    return result.rows.length > 0;
+  }
+
+  async unsubscribe(token: string): Promise<boolean> {
+    const result = await this.db.query(`
+      DELETE FROM status_subscribers WHERE token = $1 RETURNING id
+    `, [token]);
+
+    return result.rows.length > 0;
+  }
+
+  async listSubscribers(projectId: string | null): Promise<StatusSubscriber[]> {
+    const result = await this.db.query(`
+      SELECT id, kind, target, confirmed_at, created_at
+      FROM status_subscribers
+      WHERE ($1::uuid IS NULL OR project_id = $1)
+      ORDER BY created_at DESC
+    `, [projectId]);
+
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      kind: row.kind,
+      target: row.target,
+      confirmed: row.confirmed_at !== null,
+      createdAt: new Date(row.created_at).toISOString(),
+    }));
+  }
+
+  async deleteSubscriber(projectId: string, id: string): Promise<boolean> {
+    const result = await this.db.query(`
+      DELETE FROM status_subscribers WHERE project_id = $1 AND id = $2 RETURNING id
+    `, [projectId, id]);
+
+    return result.rows.length > 0;
+  }
+
+  private async assertComponents(client: PoolClient, projectId: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const result = await client.query(`
+      SELECT id FROM status_components WHERE project_id = $1 AND id = ANY($2::uuid[])
+    `, [projectId, ids]);
+
+    if (result.rows.length !== new Set(ids).size) {
+      throw new StatusPageError('Unknown component in this project');
+    }
+  }
+
+  // Components follow the worst impact among their open incidents, and recover when none are left
+  private async refreshComponentStatuses(client: PoolClient, projectId: string, ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    await client.query(`
+      UPDATE status_components c
+      SET status = COALESCE((
+            SELECT i.component_impacts ->> c.id::text
+            FROM status_incidents i
+            WHERE i.project_id = c.project_id AND i.resolved_at IS NULL AND i.component_impacts ? c.id::text
+            ORDER BY array_position($3::text[], i.component_impacts ->> c.id::text) DESC
+            LIMIT 1
+          ), 'operational'),
+          updated_at = NOW()
+      WHERE c.project_id = $1 AND c.id = ANY($2::uuid[])
+    `, [projectId, ids, STATUS_RANK]);
+  }
+
+  private announceIncident(projectId: string, incident: StatusIncident, event: string, message: string): void {
+    // Internal incidents never leave the building
+    if (incident.tags.some(tag => PRIVATE_TAGS.includes(tag))) return;
+
+    const resolved = incident.status === 'resolved';
+    this.notify(projectId, {
+      projectId,
+      event,
+      title: `${resolved ? 'Resolved' : this.describeIncidentStatus(incident.status)}: ${incident.title}`,
+      message: incident.affectedComponents.length > 0
+        ? `${message}\n\nAffected: ${incident.affectedComponents.join(', ')}.`
+        : message,
+      severity: resolved ? 'info' : this.incidentSeverity(incident.severity),
+      metadata: { incidentId: incident.id, status: incident.status, severity: incident.severity },
+    });
+  }
+
+  // Fan a status change out to confirmed subscribers without holding up the request
+  private notify(projectId: string, message: StatusMessage): void {
+    void (async () => {
+      const result = await this.db.query(`
+        SELECT kind, target, token FROM status_subscribers
+        WHERE project_id = $1 AND confirmed_at IS NOT NULL
+      `, [projectId]);
+      if (result.rows.length === 0) return;
+
+      const recipients: StatusRecipient[] = result.rows.map((row: any) => ({
+        kind: row.kind,
+        target: row.target,
+        token: row.token,
+      }));
+      const { failed } = await getStatusNotifier().broadcast(recipients, message);
+      if (failed > 0) {
+        console.error(`Status update ${message.event} failed for ${failed} of ${recipients.length} subscribers`);
+      }
+    })().catch(error => {
+      console.error('Failed to notify status subscribers:', error);
+    });
+  }
+
+  private calculateOverallStatus(
+    components: StatusComponent[],
+    incidents: StatusIncident[]
+  ): StatusPageData['overallStatus'] {
+    if (incidents.some(incident => incident.severity === 'P1_CRITICAL')) return 'outage';
+    if (components.some(component => component.status === 'major_outage')) return 'outage';
+
+    const hasIssues = incidents.length > 0 || components.some(component =>
+      component.status === 'partial_outage' || component.status === 'degraded_performance'
+    );
+    return hasIssues ? 'issues' : 'operational';
+  }
+
+  private describeStatus(status: ComponentStatus): string {
+    switch (status) {
+      case 'operational':
+        return 'Operational';
+      case 'degraded_performance':
+        return 'Degraded performance';
+      case 'partial_outage':
+        return 'Partial outage';
+      case 'major_outage':
+        return 'Major outage';
+    }
+  }
+
+  private describeIncidentStatus(status: StatusIncidentStatus): string {
+    return status.charAt(0).toUpperCase() + status.slice(1);
+  }
+
+  private componentSeverity(status: ComponentStatus): StatusMessage['severity'] {
+    switch (status) {
+      case 'major_outage':
+        return 'critical';
+      case 'partial_outage':
+        return 'error';
+      case 'degraded_performance':
+        return 'warning';
+      default:
+        return 'info';
+    }
+  }
+
+  private incidentSeverity(severity: StatusIncidentSeverity): StatusMessage['severity'] {
+    switch (severity) {
+      case 'P1_CRITICAL':
+        return 'critical';
+      case 'P2_HIGH':
+        return 'error';
+      case 'P3_MEDIUM':
+        return 'warning';
+      default:
+        return 'info';
+    }
+  }
+
+  private toComponent(row: any): StatusComponent & { id: string } {
+    return {
+      id: row.id,
+      name: row.name,
+      ...(row.description !== null ? { description: row.description } : {}),
+      status: row.status,
+      ...(row.group_name !== null ? { group: row.group_name } : {}),
+      order: row.position,
+    };
+  }
+
+  private toIncident(row: any): StatusIncident {
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      status: row.status,
+      severity: row.severity,
+      source: 'manual',
+      affectedComponents: row.component_names,
+      componentImpacts: row.component_impacts ?? {},
+      tags: row.tags,
+      createdAt: new Date(row.started_at).toISOString(),
+      updatedAt: new Date(row.updated_at).toISOString(),
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at).toISOString() : null,
+      updates: row.updates.map((update: any) => ({
+        id: update.id,
+        status: update.status,
+        message: update.message,
+        createdAt: new Date(update.createdAt).toISOString(),
+      })),
+    };
+  }
+
+  private toMaintenance(row: any): MaintenanceWindow {
+    const start = new Date(row.scheduled_start);
+    const end = new Date(row.scheduled_end);
+    const now = Date.now();
+
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      scheduledStart: start.toISOString(),
+      scheduledEnd: end.toISOString(),
+      componentIds: row.component_ids,
+      affectedComponents: row.component_names,
+      status: now < start.getTime() ? 'scheduled' : now < end.getTime() ? 'in-progress' : 'completed',
+    };
+  }
+}
+
+// Singleton instance
+let statusPageManager: StatusPageManager;
+
+export function getStatusPageManager(): StatusPageManager {
+  if (!statusPageManager) {
+    statusPageManager = new StatusPageManager();
+  }
+  return statusPageManager;
+}
@@ -0,0 +1,180 @@
+import { randomUUID } from 'crypto';
+import {
+  BaseNotification,
+  EmailChannel,
+  NotificationSeverity,
+  RetryConfig,
+  WebhookEndpoint,
+  WebhookManager,
+} from '@monitoring-service/notifications';
+import { isPublicWebhookUrl, publicAddressLookup } from './targets';
+
+export interface StatusNotifierConfig {
+  // Base URL the confirmation and unsubscribe links point at
+  publicUrl: string;
+  webhookTimeout: number;
+  smtp?: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user: string;
+    password: string;
+    from: string;
+  };
+}
+
+export interface StatusRecipient {
+  kind: 'email' | 'webhook';
+  target: string;
+  token: string;
+}
+
+export interface StatusMessage {
+  projectId: string;
+  // What changed, e.g. incident.updated or component.status_changed
+  event: string;
+  title: string;
+  message: string;
+  severity: NotificationSeverity;
+  metadata: Record<string, string | number | boolean | null>;
+}
+
+const WEBHOOK_RETRY: RetryConfig = {
+  maxAttempts: 3,
+  initialDelay: 1000,
+  backoffMultiplier: 2,
+  maxDelay: 10000,
+  jitter: 0.1,
+};
+
+// Delivers status page mail and webhooks through the notifications package channels
+export class StatusNotifier {
+  private config: StatusNotifierConfig;
+  private email: EmailChannel | null;
+  private webhooks = new WebhookManager();
+
+  constructor(config: StatusNotifierConfig) {
+    this.config = config;
+    this.email = config.smtp
+      ? new EmailChannel({
+        smtp: {
+          host: config.smtp.host,
+          port: config.smtp.port,
+          secure: config.smtp.secure,
+          auth: { user: config.smtp.user, pass: config.smtp.password },
+        },
+        from: config.smtp.from,
+        // Missing templates fall back to the channel's built-in layout
+        templates: { directory: 'templates/email', default: 'default-notification', engine: 'handlebars' },
+      })
+      : null;
+  }
+
+  // First half of the double opt-in: nothing else is sent until the link is followed. Anyone
+  // can request one, so it is a single attempt rather than retried against an unvetted target.
+  async sendConfirmation(projectId: string, recipient: StatusRecipient, pageName: string): Promise<boolean> {
+    const confirmUrl = this.link('confirm', recipient.token);
+
+    return this.deliver(recipient, this.buildNotification({
+      projectId,
+      event: 'subscription.confirm',
+      title: `Confirm your subscription to ${pageName} status updates`,
+      message: `Follow ${confirmUrl} to start receiving status updates. If you did not subscribe, ignore this message.`,
+      severity: 'info',
+      metadata: { confirmUrl },
+    }, recipient), false);
+  }
+
+  // Send a status change to every confirmed subscriber; failures are counted, not thrown
+  async broadcast(recipients: StatusRecipient[], message: StatusMessage): Promise<{ sent: number; failed: number }> {
+    const results = await Promise.all(
+      recipients.map(recipient => this.deliver(recipient, this.buildNotification(message, recipient)))
+    );
+
+    const sent = results.filter(Boolean).length;
+    return { sent, failed: results.length - sent };
+  }
+
+  private async deliver(recipient: StatusRecipient, notification: BaseNotification, retry = true): Promise<boolean> {
+    try {
+      if (recipient.kind === 'email') {
+        if (!this.email) return false;
+        const result = await this.email.send(notification, recipient.target);
+        return result.status === 'sent';
+      }
+
+      // Vetted again on every delivery, and connections only use addresses that pass the
+      // same check, so a host re-pointed at an internal address is refused
+      if (!await isPublicWebhookUrl(recipient.target)) return false;
+
+      const endpoint: WebhookEndpoint = {
+        id: `status-subscriber-${recipient.token.slice(0, 12)}`,
+        name: 'Status page subscriber',
+        description: 'Status page subscriber webhook',
+        config: {
+          url: recipient.target,
+          method: 'POST',
+          headers: {},
+          timeout: this.config.webhookTimeout,
+          followRedirects: false,
+          lookup: publicAddressLookup,
+        },
+        enabled: true,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      };
+
+      const result = retry
+        ? await this.webhooks.sendWithRetry(endpoint, notification, WEBHOOK_RETRY)
+        : await this.webhooks.sendToWebhook(endpoint, notification);
+      return result.status === 'success';
+    } catch {
+      return false;
+    }
+  }
+
+  private buildNotification(message: StatusMessage, recipient: StatusRecipient): BaseNotification {
+    const unsubscribeUrl = this.link('unsubscribe', recipient.token);
+
+    return {
+      id: randomUUID(),
+      title: message.title,
+      message: message.event === 'subscription.confirm'
+        ? message.message
+        : `${message.message}\n\nUnsubscribe: ${unsubscribeUrl}`,
+      severity: message.severity,
+      priority: message.severity === 'critical' ? 1 : message.severity === 'error' ? 3 : 5,
+      category: 'system',
+      source: 'status-page',
+      timestamp: Date.now(),
+      tags: { projectId: message.projectId, event: message.event },
+      metadata: { ...message.metadata, event: message.event, unsubscribeUrl },
+      recipients: [],
+      delivery: {
+        channels: [recipient.kind],
+        retry: WEBHOOK_RETRY,
+        timeout: this.config.webhookTimeout,
+      },
+    };
+  }
+
+  private link(action: 'confirm' | 'unsubscribe', token: string): string {
+    return `${this.config.publicUrl.replace(/\/$/, '')}/api/v1/status/public/${action}?token=${token}`;
+  }
+}
+
+let statusNotifier: StatusNotifier;
+
+export function initStatusNotifier(config: StatusNotifierConfig): StatusNotifier {
+  if (!statusNotifier) {
+    statusNotifier = new StatusNotifier(config);
+  }
+  return statusNotifier;
+}
+
+export function getStatusNotifier(): StatusNotifier {
+  if (!statusNotifier) {
+    throw new Error('Status notifier not initialized. Call initStatusNotifier first.');
+  }
+  return statusNotifier;
+}
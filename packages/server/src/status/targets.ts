@@ -0,0 +1,77 @@
+import { lookup as resolveHost } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+// Subscriber webhooks come from anonymous visitors, so they may only point at the public
+// internet: never loopback, private, link-local (cloud metadata), shared or reserved space.
+const BLOCKED = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([address, prefix]) => BLOCKED.addSubnet(address as string, prefix as number, 'ipv6'));
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Resolves the host and requires every address it resolves to to be public. Checked when
+// subscribing and before each delivery; IP-literal hosts are only vetted here, since
+// sockets do not look them up.
+export async function isPublicWebhookUrl(url: string): Promise<boolean> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  try {
+    const addresses = await lookup(host, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+  } catch {
+    return false;
+  }
+}
+
+// Connection-time resolver for webhook deliveries: the socket connects to the addresses
+// vetted in this same lookup, so a host re-pointed after the check (DNS rebinding) is refused.
+export const publicAddressLookup: LookupFunction = (hostname, options, callback) => {
+  resolveHost(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      const refused: NodeJS.ErrnoException = new Error(`${hostname} does not resolve to a public address`);
+      refused.code = 'ENOTFOUND';
+      return callback(refused, '');
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
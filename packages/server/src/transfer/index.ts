@@ -0,0 +1,657 @@
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import { PoolClient } from 'pg';
+import { z } from 'zod';
+import { getDatabase } from '../database';
+import { AlertConfigSchema, EventSchema, MetricSchema, ProjectSchema } from '../types';
+import { DEFAULT_PROJECT_ID } from '../projects';
+import { ParquetColumn, ParquetWriter } from './parquet';
+
+// Tables in dependency order, so a restore creates projects before the rows that reference them
+export const TRANSFER_TABLES = ['projects', 'alert_configs', 'api_keys', 'events', 'metrics', 'alerts'] as const;
+export type TransferTable = typeof TRANSFER_TABLES[number];
+
+export const EXPORT_FORMATS = ['ndjson', 'csv', 'parquet'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv',
+  parquet: 'application/vnd.apache.parquet',
+};
+
+export class TransferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransferError';
+  }
+}
+
+export interface ExportOptions {
+  tables: TransferTable[];
+  format: ExportFormat;
+  projectId: string | null;
+  startTime: string;
+  endTime: string;
+  // Resume token from a previous export's checkpoint or nextCursor
+  cursor?: string;
+  // Stop after this many rows and report where to resume
+  limit?: number;
+}
+
+export interface ImportOptions {
+  // Project-scoped keys import everything into their own project
+  projectId: string | null;
+  dryRun: boolean;
+  onError: 'skip' | 'abort';
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  aborted: boolean;
+  lines: number;
+  imported: Partial<Record<TransferTable, number>>;
+  duplicates: Partial<Record<TransferTable, number>>;
+  skipped: Partial<Record<TransferTable, number>>;
+  rejected: number;
+  errors: Array<{ line: number; table?: string; message: string }>;
+}
+
+// Position in an export: the last key written for a table, plus the time range the export
+// started with so a resumed export covers the same window
+interface ExportPosition {
+  table: TransferTable;
+  after: string[];
+  startTime: string;
+  endTime: string;
+}
+
+interface TableSpec {
+  columns: ParquetColumn[];
+  // SELECT list producing the camelCase columns above
+  select: string;
+  from: string;
+  projectColumn: string;
+  timeColumn?: string;
+  // Keyset the cursor orders by; values round-trip through text in resume tokens
+  keys: Array<{ expression: string; type: string }>;
+}
+
+const TABLE_SPECS: Record<TransferTable, TableSpec> = {
+  projects: {
+    columns: [
+      { name: 'id', type: 'string' },
+      { name: 'slug', type: 'string' },
+      { name: 'name', type: 'string' },
+      { name: 'createdAt', type: 'timestamp' },
+      { name: 'updatedAt', type: 'timestamp' },
+    ],
+    select: `id, slug, name, created_at AS "createdAt", updated_at AS "updatedAt"`,
+    from: 'projects',
+    projectColumn: 'id',
+    keys: [{ expression: 'id', type: 'uuid' }],
+  },
+  alert_configs: {
+    columns: [
+      { name: 'id', type: 'string' },
+      { name: 'projectId', type: 'string' },
+      { name: 'name', type: 'string' },
+      { name: 'description', type: 'string' },
+      { name: 'enabled', type: 'boolean' },
+      { name: 'conditions', type: 'json' },
+      { name: 'actions', type: 'json' },
+      { name: 'cooldown', type: 'int64' },
+      { name: 'severity', type: 'string' },
+      { name: 'tags', type: 'json' },
+      { name: 'createdAt', type: 'timestamp' },
+      { name: 'updatedAt', type: 'timestamp' },
+    ],
+    select: `id, project_id AS "projectId", name, description, enabled, conditions, actions, cooldown,
+      severity, tags, created_at AS "createdAt", updated_at AS "updatedAt"`,
+    from: 'alert_configs',
+    projectColumn: 'project_id',
+    keys: [{ expression: 'id', type: 'uuid' }],
+  },
+  // Key metadata only; hashes never leave the database, so keys cannot be restored
+  api_keys: {
+    columns: [
+      { name: 'id', type: 'string' },
+      { name: 'projectId', type: 'string' },
+      { name: 'name', type: 'string' },
+      { name: 'keyPrefix', type: 'string' },
+      { name: 'permissions', type: 'json' },
+      { name: 'roles', type: 'json' },
+      { name: 'rateLimit', type: 'int64' },
+      { name: 'expiresAt', type: 'timestamp' },
+      { name: 'createdAt', type: 'timestamp' },
+      { name: 'lastUsedAt', type: 'timestamp' },
+      { name: 'isActive', type: 'boolean' },
+      { name: 'metadata', type: 'json' },
+    ],
+    select: `id, project_id AS "projectId", name, key_prefix AS "keyPrefix", permissions, roles,
+      rate_limit AS "rateLimit", expires_at AS "expiresAt", created_at AS "createdAt",
+      last_used_at AS "lastUsedAt", is_active AS "isActive", metadata`,
+    from: 'api_keys',
+    projectColumn: 'project_id',
+    keys: [{ expression: 'id', type: 'uuid' }],
+  },
+  events: {
+    columns: [
+      { name: 'id', type: 'string' },
+      { name: 'projectId', type: 'string' },
+      { name: 'timestamp', type: 'timestamp' },
+      { name: 'type', type: 'string' },
+      { name: 'level', type: 'string' },
+      { name: 'source', type: 'string' },
+      { name: 'message', type: 'string' },
+      { name: 'metadata', type: 'json' },
+      { name: 'userId', type: 'string' },
+      { name: 'sessionId', type: 'string' },
+      { name: 'requestId', type: 'string' },
+      { name: 'tags', type: 'json' },
+      { name: 'stack', type: 'string' },
+      { name: 'url', type: 'string' },
+      { name: 'userAgent', type: 'string' },
+      { name: 'ip', type: 'string' },
+      { name: 'release', type: 'string' },
+    ],
+    select: `id, project_id AS "projectId", timestamp, type, level, source, message, metadata,
+      user_id AS "userId", session_id AS "sessionId", request_id AS "requestId", tags, stack, url,
+      user_agent AS "userAgent", host(ip) AS ip, release`,
+    from: 'events',
+    projectColumn: 'project_id',
+    timeColumn: 'timestamp',
+    keys: [{ expression: 'timestamp', type: 'timestamptz' }, { expression: 'id', type: 'uuid' }],
+  },
+  metrics: {
+    columns: [
+      { name: 'id', type: 'string' },
+      { name: 'projectId', type: 'string' },
+      { name: 'timestamp', type: 'timestamp' },
+      { name: 'name', type: 'string' },
+      { name: 'value', type: 'double' },
+      { name: 'unit', type: 'string' },
+      { name: 'dimensions', type: 'json' },
+      { name: 'source', type: 'string' },
+    ],
+    select: `id, project_id AS "projectId", timestamp, name, value, unit, dimensions, source`,
+    from: 'metrics',
+    projectColumn: 'project_id',
+    timeColumn: 'timestamp',
+    keys: [{ expression: 'timestamp', type: 'timestamptz' }, { expression: 'id', type: 'uuid' }],
+  },
+  alerts: {
+    columns: [
+      { name: 'id', type: 'string' },
+      { name: 'alertConfigId', type: 'string' },
+      { name: 'projectId', type: 'string' },
+      { name: 'triggeredAt', type: 'timestamp' },
+      { name: 'resolvedAt', type: 'timestamp' },
+      { name: 'status', type: 'string' },
+      { name: 'triggerValue', type: 'double' },
+      { name: 'message', type: 'string' },
+      { name: 'metadata', type: 'json' },
+    ],
+    select: `ai.id, ai.alert_config_id AS "alertConfigId", ac.project_id AS "projectId",
+      ai.triggered_at AS "triggeredAt", ai.resolved_at AS "resolvedAt", ai.status,
+      ai.trigger_value AS "triggerValue", ai.message, ai.metadata`,
+    from: 'alert_instances ai JOIN alert_configs ac ON ai.alert_config_id = ac.id',
+    projectColumn: 'ac.project_id',
+    timeColumn: 'ai.triggered_at',
+    keys: [{ expression: 'ai.triggered_at', type: 'timestamptz' }, { expression: 'ai.id', type: 'uuid' }],
+  },
+};
+
+// Rows fetched from the database cursor per round trip
+const FETCH_SIZE = 1000;
+// Rows per Parquet row group; bounds how much a Parquet export buffers
+const PARQUET_ROW_GROUP_SIZE = 10000;
+const EXPORT_VERSION = 1;
+
+// Rows validated and inserted per statement during an import
+const IMPORT_BATCH_SIZE = 500;
+// Errors reported back from an import; the rest are only counted
+const MAX_REPORTED_ERRORS = 50;
+
+export function encodeCursor(position: ExportPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+export function decodeCursor(token: string): ExportPosition {
+  try {
+    const position = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (
+      TRANSFER_TABLES.includes(position.table) &&
+      Array.isArray(position.after) &&
+      position.after.length === TABLE_SPECS[position.table as TransferTable].keys.length &&
+      position.after.every((value: unknown) => typeof value === 'string') &&
+      typeof position.startTime === 'string' &&
+      typeof position.endTime === 'string'
+    ) {
+      return position;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new TransferError('Invalid export cursor');
+}
+
+function formatValue(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Exported rows carry explicit nulls; the ingest schemas expect absent fields instead
+function withoutNulls(row: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== null));
+}
+
+interface ImportSpec {
+  schema: z.ZodType<Record<string, any>>;
+  // INSERT reading $1, a JSON array of validated rows
+  insert: string;
+}
+
+const ImportedProjectSchema = ProjectSchema.extend({ id: z.string().uuid() });
+const ProjectIdSchema = z.object({ projectId: z.string().uuid().optional() });
+
+const IMPORT_SPECS: Partial<Record<TransferTable, ImportSpec>> = {
+  projects: {
+    schema: ImportedProjectSchema,
+    insert: `
+      INSERT INTO projects (id, slug, name, created_at, updated_at)
+      SELECT r.id, r.slug, r.name, COALESCE(r."createdAt", NOW()), COALESCE(r."updatedAt", NOW())
+      FROM jsonb_to_recordset($1::jsonb) AS r(
+        id uuid, slug text, name text, "createdAt" timestamptz, "updatedAt" timestamptz
+      )
+      ON CONFLICT DO NOTHING
+    `,
+  },
+  alert_configs: {
+    schema: AlertConfigSchema.extend({ id: z.string().uuid() }).merge(ProjectIdSchema),
+    insert: `
+      INSERT INTO alert_configs (
+        id, project_id, name, description, enabled, conditions, actions, cooldown, severity, tags
+      )
+      SELECT r.id, r."projectId", r.name, r.description, r.enabled, r.conditions, r.actions,
+        r.cooldown, r.severity, COALESCE(r.tags, '{}')
+      FROM jsonb_to_recordset($1::jsonb) AS r(
+        id uuid, "projectId" uuid, name text, description text, enabled boolean, conditions jsonb,
+        actions jsonb, cooldown integer, severity text, tags text[]
+      )
+      ON CONFLICT DO NOTHING
+    `,
+  },
+  events: {
+    schema: EventSchema.merge(ProjectIdSchema),
+    insert: `
+      INSERT INTO events (
+        id, project_id, timestamp, type, level, source, message, metadata, user_id, session_id,
+        request_id, tags, stack, url, user_agent, ip, release
+      )
+      SELECT COALESCE(r.id, uuid_generate_v4()), r."projectId", COALESCE(r.timestamp, NOW()), r.type,
+        r.level, r.source, r.message, COALESCE(r.metadata, '{}'), r."userId", r."sessionId",
+        r."requestId", COALESCE(r.tags, '{}'), r.stack, r.url, r."userAgent", r.ip, r.release
+      FROM jsonb_to_recordset($1::jsonb) AS r(
+        id uuid, "projectId" uuid, timestamp timestamptz, type text, level text, source text,
+        message text, metadata jsonb, "userId" text, "sessionId" text, "requestId" text, tags text[],
+        stack text, url text, "userAgent" text, ip inet, release text
+      )
+      ON CONFLICT DO NOTHING
+    `,
+  },
+  metrics: {
+    schema: MetricSchema.extend({ id: z.string().uuid().optional() }).merge(ProjectIdSchema),
+    insert: `
+      INSERT INTO metrics (id, project_id, timestamp, name, value, unit, dimensions, source)
+      SELECT COALESCE(r.id, uuid_generate_v4()), r."projectId", COALESCE(r.timestamp, NOW()), r.name,
+        r.value, r.unit, COALESCE(r.dimensions, '{}'), r.source
+      FROM jsonb_to_recordset($1::jsonb) AS r(
+        id uuid, "projectId" uuid, timestamp timestamptz, name text, value double precision,
+        unit text, dimensions jsonb, source text
+      )
+      ON CONFLICT DO NOTHING
+    `,
+  },
+};
+
+interface PendingRow {
+  line: number;
+  row: Record<string, any>;
+}
+
+export class DataTransfer {
+  private db = getDatabase();
+
+  // Check export options before any response bytes are written, so mistakes surface as 400s
+  validateExport(options: ExportOptions): void {
+    if (options.format === 'parquet' && options.tables.length !== 1) {
+      throw new TransferError('Parquet exports hold a single table; pass exactly one table');
+    }
+    if (options.cursor) {
+      const position = decodeCursor(options.cursor);
+      if (!options.tables.includes(position.table)) {
+        throw new TransferError(`Cursor points into table '${position.table}', which is not being exported`);
+      }
+    }
+  }
+
+  // Stream an export in the requested format. Every table is read through a server-side cursor
+  // inside one read-only snapshot, so memory stays flat however much data is exported.
+  async *export(options: ExportOptions): AsyncGenerator<string | Buffer> {
+    this.validateExport(options);
+
+    const resume = options.cursor ? decodeCursor(options.cursor) : null;
+    const startTime = resume?.startTime ?? options.startTime;
+    const endTime = resume?.endTime ?? options.endTime;
+    const tables = TRANSFER_TABLES.filter(table =>
+      options.tables.includes(table) &&
+      (!resume || TRANSFER_TABLES.indexOf(table) >= TRANSFER_TABLES.indexOf(resume.table))
+    );
+
+    const counts: Partial<Record<TransferTable, number>> = {};
+    let remaining = options.limit ?? Infinity;
+    let nextCursor: string | null = null;
+
+    const parquet = options.format === 'parquet' ? new ParquetWriter(TABLE_SPECS[tables[0]!].columns) : null;
+    let rowGroup: Array<Record<string, unknown>> = [];
+
+    if (parquet) {
+      yield parquet.start();
+    } else if (options.format === 'ndjson') {
+      yield JSON.stringify({
+        export: {
+          version: EXPORT_VERSION,
+          exportedAt: new Date().toISOString(),
+          projectId: options.projectId,
+          timeRange: { startTime, endTime },
+          tables,
+          ...(options.cursor ? { resumedFrom: options.cursor } : {}),
+        },
+      }) + '\n';
+    }
+
+    const client = await this.db.getClient();
+    try {
+      await client.query('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+
+      for (const table of tables) {
+        const spec = TABLE_SPECS[table];
+        const after = resume?.table === table ? resume.after : null;
+        counts[table] = 0;
+
+        if (options.format === 'csv') {
+          yield `# table: ${table}\n${spec.columns.map(column => column.name).join(',')}\n`;
+        }
+
+        for await (const batch of this.readTable(client, table, { projectId: options.projectId, startTime, endTime, after }, () => remaining)) {
+          counts[table]! += batch.rows.length;
+          remaining -= batch.rows.length;
+          const checkpoint = encodeCursor({ table, after: batch.lastKey, startTime, endTime });
+
+          if (parquet) {
+            rowGroup.push(...batch.rows);
+            if (rowGroup.length >= PARQUET_ROW_GROUP_SIZE) {
+              yield parquet.writeRowGroup(rowGroup);
+              rowGroup = [];
+            }
+          } else if (options.format === 'csv') {
+            yield batch.rows.map(row => spec.columns.map(column => csvCell(row[column.name])).join(',')).join('\n') +
+              `\n# cursor: ${checkpoint}\n`;
+          } else {
+            yield batch.rows.map(row => JSON.stringify({ table, row })).join('\n') +
+              '\n' + JSON.stringify({ checkpoint }) + '\n';
+          }
+
+          if (remaining <= 0) {
+            nextCursor = checkpoint;
+            break;
+          }
+        }
+
+        if (nextCursor) break;
+      }
+    } finally {
+      await client.query('ROLLBACK').catch(() => undefined);
+      client.release();
+    }
+
+    if (parquet) {
+      if (rowGroup.length > 0) yield parquet.writeRowGroup(rowGroup);
+      yield parquet.finish({
+        'monitoring.table': tables[0]!,
+        'monitoring.complete': String(nextCursor === null),
+        ...(nextCursor ? { 'monitoring.next_cursor': nextCursor } : {}),
+      });
+    } else if (options.format === 'csv') {
+      yield nextCursor ? `# next-cursor: ${nextCursor}\n` : '# complete\n';
+    } else {
+      yield JSON.stringify({ complete: nextCursor === null, counts, nextCursor }) + '\n';
+    }
+  }
+
+  private async *readTable(
+    client: PoolClient,
+    table: TransferTable,
+    range: { projectId: string | null; startTime: string; endTime: string; after: string[] | null },
+    remaining: () => number
+  ): AsyncGenerator<{ rows: Array<Record<string, unknown>>; lastKey: string[] }> {
+    const spec = TABLE_SPECS[table];
+    const params: unknown[] = [range.projectId];
+    const conditions = [`($1::uuid IS NULL OR ${spec.projectColumn} = $1)`];
+
+    if (spec.timeColumn) {
+      params.push(range.startTime, range.endTime);
+      conditions.push(`${spec.timeColumn} >= $2 AND ${spec.timeColumn} <= $3`);
+    }
+    if (range.after) {
+      const placeholders = spec.keys.map((key, i) => `$${params.length + i + 1}::${key.type}`);
+      params.push(...range.after);
+      conditions.push(`(${spec.keys.map(key => key.expression).join(', ')}) > (${placeholders.join(', ')})`);
+    }
+
+    // Keys are selected as text so timestamps keep their microseconds in resume tokens
+    const keyColumns = spec.keys.map((key, i) => `${key.expression}::text AS "_key${i}"`);
+
+    await client.query(`
+      DECLARE export_cursor NO SCROLL CURSOR FOR
+      SELECT ${spec.select}, ${keyColumns.join(', ')}
+      FROM ${spec.from}
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY ${spec.keys.map(key => key.expression).join(', ')}
+    `, params);
+
+    try {
+      while (remaining() > 0) {
+        const result = await client.query(`FETCH FORWARD ${Math.min(FETCH_SIZE, remaining())} FROM export_cursor`);
+        if (result.rows.length === 0) break;
+
+        const rows = result.rows.map((row: Record<string, unknown>) =>
+          Object.fromEntries(spec.columns.map(column => [column.name, formatValue(row[column.name])]))
+        );
+        const last = result.rows[result.rows.length - 1];
+        yield { rows, lastKey: spec.keys.map((_, i) => last[`_key${i}`] as string) };
+      }
+    } finally {
+      await client.query('CLOSE export_cursor').catch(() => undefined);
+    }
+  }
+
+  // Restore rows from an NDJSON export. Lines that are not rows (the export header, checkpoints
+  // and the completion line) are ignored. Everything runs in one transaction: an aborted or failed
+  // import leaves the database untouched.
+  async import(input: Readable, options: ImportOptions): Promise<ImportResult> {
+    const result: ImportResult = {
+      dryRun: options.dryRun,
+      aborted: false,
+      lines: 0,
+      imported: {},
+      duplicates: {},
+      skipped: {},
+      rejected: 0,
+      errors: [],
+    };
+
+    const reject = (line: number, message: string, table?: string) => {
+      result.rejected++;
+      if (result.errors.length < MAX_REPORTED_ERRORS) {
+        result.errors.push({ line, ...(table ? { table } : {}), message });
+      }
+      if (options.onError === 'abort') {
+        result.aborted = true;
+      }
+    };
+
+    // Projects seen earlier in this import, which dry runs never write
+    const importedProjects = new Set<string>();
+
+    const run = async (client: PoolClient | null) => {
+      let pendingTable: TransferTable | null = null;
+      let pending: PendingRow[] = [];
+
+      const flush = async () => {
+        if (pendingTable && pending.length > 0) {
+          await this.insertBatch(client, pendingTable, pending, importedProjects, result, reject);
+        }
+        pending = [];
+      };
+
+      const lines = createInterface({ input, crlfDelay: Infinity });
+      for await (const text of lines) {
+        if (result.aborted) break;
+        result.lines++;
+        if (!text.trim()) continue;
+
+        let parsed: any;
+        try {
+          parsed = JSON.parse(text);
+        } catch {
+          reject(result.lines, 'Invalid JSON');
+          continue;
+        }
+
+        if (!parsed || typeof parsed !== 'object' || !('row' in parsed)) continue;
+
+        const table = parsed.table as TransferTable;
+        if (!TRANSFER_TABLES.includes(table)) {
+          reject(result.lines, `Unknown table '${parsed.table}'`);
+          continue;
+        }
+
+        const spec = IMPORT_SPECS[table];
+        // API key hashes and alert history are not restorable; projects are only created by
+        // cross-project keys
+        if (!spec || (table === 'projects' && options.projectId)) {
+          result.skipped[table] = (result.skipped[table] ?? 0) + 1;
+          continue;
+        }
+
+        const validated = spec.schema.safeParse(withoutNulls(parsed.row ?? {}));
+        if (!validated.success) {
+          reject(
+            result.lines,
+            validated.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+            table
+          );
+          continue;
+        }
+
+        const row = validated.data;
+        if (table === 'projects') {
+          importedProjects.add(row.id);
+        } else {
+          row.projectId = options.projectId ?? row.projectId ?? DEFAULT_PROJECT_ID;
+        }
+
+        if (pendingTable !== table || pending.length >= IMPORT_BATCH_SIZE) {
+          await flush();
+          pendingTable = table;
+        }
+        pending.push({ line: result.lines, row });
+      }
+
+      if (result.aborted) {
+        // Drain the rest of the upload so the response can still be sent
+        input.resume();
+        return;
+      }
+      await flush();
+    };
+
+    if (options.dryRun) {
+      await run(null);
+      return result;
+    }
+
+    try {
+      await this.db.transaction(async (client) => {
+        await run(client);
+        if (result.aborted) {
+          // Roll back everything written before the failing line
+          throw new TransferError('Import aborted');
+        }
+      });
+    } catch (error) {
+      if (!(error instanceof TransferError)) throw error;
+      result.imported = {};
+      result.duplicates = {};
+    }
+
+    return result;
+  }
+
+  private async insertBatch(
+    client: PoolClient | null,
+    table: TransferTable,
+    batch: PendingRow[],
+    importedProjects: Set<string>,
+    result: ImportResult,
+    reject: (line: number, message: string, table?: string) => void
+  ): Promise<void> {
+    let rows = batch;
+
+    // Alert configs reference projects; reject rows for projects that do not exist rather than
+    // failing the whole batch on the foreign key
+    if (table === 'alert_configs') {
+      const projectIds = [...new Set(rows.map(pending => pending.row.projectId as string))];
+      const existing = client
+        ? await client.query(`SELECT id FROM projects WHERE id = ANY($1::uuid[])`, [projectIds])
+        : await this.db.query(`SELECT id FROM projects WHERE id = ANY($1::uuid[])`, [projectIds]);
+      const known = new Set([...importedProjects, ...existing.rows.map((row: { id: string }) => row.id)]);
+
+      rows = rows.filter(pending => {
+        if (known.has(pending.row.projectId)) return true;
+        reject(pending.line, `Project '${pending.row.projectId}' does not exist`, table);
+        return false;
+      });
+    }
+
+    if (rows.length === 0) return;
+
+    let inserted = rows.length;
+    if (client) {
+      const insertResult = await client.query(IMPORT_SPECS[table]!.insert, [JSON.stringify(rows.map(pending => pending.row))]);
+      inserted = insertResult.rowCount ?? 0;
+    }
+
+    result.imported[table] = (result.imported[table] ?? 0) + inserted;
+    if (inserted < rows.length) {
+      result.duplicates[table] = (result.duplicates[table] ?? 0) + rows.length - inserted;
+    }
+  }
+}
+
+// Singleton instance
+let dataTransfer: DataTransfer;
+
+export function getDataTransfer(): DataTransfer {
+  if (!dataTransfer) {
+    dataTransfer = new DataTransfer();
+  }
+  return dataTransfer;
+}
@@ -0,0 +1,293 @@
+// Minimal streaming Parquet writer: flat schemas of optional columns, PLAIN encoding,
+// no compression, one data page per column chunk. Row groups are written as they are
+// produced and the footer (Thrift compact protocol) at the end, so memory use is bounded
+// by the size of one row group.
+
+export type ParquetColumnType = 'string' | 'json' | 'timestamp' | 'double' | 'int64' | 'boolean';
+
+export interface ParquetColumn {
+  name: string;
+  type: ParquetColumnType;
+}
+
+const MAGIC = Buffer.from('PAR1', 'ascii');
+
+// parquet.thrift enums
+const PhysicalType = { BOOLEAN: 0, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 } as const;
+const ConvertedType = { UTF8: 0, TIMESTAMP_MILLIS: 9, JSON: 19 } as const;
+const REPETITION_OPTIONAL = 1;
+const ENCODING_PLAIN = 0;
+const ENCODING_RLE = 3;
+const PAGE_TYPE_DATA = 0;
+const CODEC_UNCOMPRESSED = 0;
+
+const COLUMN_TYPES: Record<ParquetColumnType, { physical: number; converted?: number }> = {
+  string: { physical: PhysicalType.BYTE_ARRAY, converted: ConvertedType.UTF8 },
+  json: { physical: PhysicalType.BYTE_ARRAY, converted: ConvertedType.JSON },
+  timestamp: { physical: PhysicalType.INT64, converted: ConvertedType.TIMESTAMP_MILLIS },
+  double: { physical: PhysicalType.DOUBLE },
+  int64: { physical: PhysicalType.INT64 },
+  boolean: { physical: PhysicalType.BOOLEAN },
+};
+
+// Thrift compact protocol, just enough for the Parquet footer and page headers
+type ThriftValue =
+  | { type: 'bool'; value: boolean }
+  | { type: 'i32'; value: number }
+  | { type: 'i64'; value: number | bigint }
+  | { type: 'string'; value: string }
+  | { type: 'struct'; fields: ThriftField[] }
+  | { type: 'list'; elementType: 'i32' | 'string' | 'struct'; items: ThriftValue[] };
+
+type ThriftField = [id: number, value: ThriftValue | undefined];
+
+const COMPACT_TYPES = { bool: 1, i32: 5, i64: 6, string: 8, list: 9, struct: 12 } as const;
+
+const i32 = (value: number): ThriftValue => ({ type: 'i32', value });
+const i64 = (value: number | bigint): ThriftValue => ({ type: 'i64', value });
+const str = (value: string): ThriftValue => ({ type: 'string', value });
+const struct = (...fields: ThriftField[]): ThriftValue => ({ type: 'struct', fields });
+const list = (elementType: 'i32' | 'string' | 'struct', items: ThriftValue[]): ThriftValue =>
+  ({ type: 'list', elementType, items });
+
+class CompactWriter {
+  private chunks: number[] = [];
+
+  varint(value: bigint): void {
+    let v = value;
+    while (v >= 0x80n) {
+      this.chunks.push(Number(v & 0x7fn) | 0x80);
+      v >>= 7n;
+    }
+    this.chunks.push(Number(v));
+  }
+
+  zigzag(value: number | bigint): void {
+    const v = BigInt(value);
+    this.varint(v >= 0n ? v << 1n : ((-v) << 1n) - 1n);
+  }
+
+  bytes(data: Buffer): void {
+    this.varint(BigInt(data.length));
+    for (const byte of data) this.chunks.push(byte);
+  }
+
+  struct(fields: ThriftField[]): void {
+    let lastId = 0;
+    for (const [id, value] of fields) {
+      if (value === undefined) continue;
+      const typeId = value.type === 'bool'
+        ? (value.value ? 1 : 2)
+        : COMPACT_TYPES[value.type];
+      const delta = id - lastId;
+      if (delta > 0 && delta <= 15) {
+        this.chunks.push((delta << 4) | typeId);
+      } else {
+        this.chunks.push(typeId);
+        this.zigzag(id);
+      }
+      lastId = id;
+      if (value.type !== 'bool') this.value(value);
+    }
+    this.chunks.push(0); // STOP
+  }
+
+  value(value: ThriftValue): void {
+    switch (value.type) {
+      case 'bool':
+        this.chunks.push(value.value ? 1 : 2);
+        break;
+      case 'i32':
+      case 'i64':
+        this.zigzag(value.value);
+        break;
+      case 'string':
+        this.bytes(Buffer.from(value.value, 'utf8'));
+        break;
+      case 'struct':
+        this.struct(value.fields);
+        break;
+      case 'list': {
+        const elementType = COMPACT_TYPES[value.elementType];
+        if (value.items.length < 15) {
+          this.chunks.push((value.items.length << 4) | elementType);
+        } else {
+          this.chunks.push(0xf0 | elementType);
+          this.varint(BigInt(value.items.length));
+        }
+        value.items.forEach(item => this.value(item));
+        break;
+      }
+    }
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.chunks);
+  }
+}
+
+function encodeThrift(value: ThriftValue): Buffer {
+  const writer = new CompactWriter();
+  writer.value(value);
+  return writer.toBuffer();
+}
+
+// Definition levels (0 = null, 1 = present) as a single bit-packed RLE-hybrid run,
+// prefixed with its length as data page v1 requires
+function encodeDefinitionLevels(present: boolean[]): Buffer {
+  const groups = Math.ceil(present.length / 8);
+  const header = new CompactWriter();
+  header.varint(BigInt((groups << 1) | 1));
+  const headerBytes = header.toBuffer();
+
+  const packed = Buffer.alloc(groups);
+  present.forEach((isPresent, i) => {
+    if (isPresent) packed[i >> 3]! |= 1 << (i & 7);
+  });
+
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(headerBytes.length + packed.length);
+  return Buffer.concat([length, headerBytes, packed]);
+}
+
+function toBigInt(value: unknown): bigint {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') return BigInt(Math.trunc(value));
+  return BigInt(String(value));
+}
+
+function encodeValues(type: ParquetColumnType, values: unknown[]): Buffer {
+  switch (type) {
+    case 'boolean': {
+      const packed = Buffer.alloc(Math.ceil(values.length / 8));
+      values.forEach((value, i) => {
+        if (value) packed[i >> 3]! |= 1 << (i & 7);
+      });
+      return packed;
+    }
+    case 'double': {
+      const buf = Buffer.alloc(values.length * 8);
+      values.forEach((value, i) => buf.writeDoubleLE(Number(value), i * 8));
+      return buf;
+    }
+    case 'int64':
+    case 'timestamp': {
+      const buf = Buffer.alloc(values.length * 8);
+      values.forEach((value, i) => {
+        const v = type === 'timestamp' ? BigInt(new Date(value as string | Date).getTime()) : toBigInt(value);
+        buf.writeBigInt64LE(v, i * 8);
+      });
+      return buf;
+    }
+    case 'string':
+    case 'json': {
+      const parts: Buffer[] = [];
+      for (const value of values) {
+        const text = type === 'json' || typeof value === 'object' ? JSON.stringify(value) : String(value);
+        const bytes = Buffer.from(text, 'utf8');
+        const length = Buffer.alloc(4);
+        length.writeUInt32LE(bytes.length);
+        parts.push(length, bytes);
+      }
+      return Buffer.concat(parts);
+    }
+  }
+}
+
+export class ParquetWriter {
+  private offset = 0;
+  private rowGroups: ThriftValue[] = [];
+  private totalRows = 0;
+
+  constructor(private columns: ParquetColumn[]) {}
+
+  // File header; must be written before any row group
+  start(): Buffer {
+    this.offset = MAGIC.length;
+    return MAGIC;
+  }
+
+  writeRowGroup(rows: Array<Record<string, unknown>>): Buffer {
+    const chunks: Buffer[] = [];
+    const columnChunks: ThriftValue[] = [];
+    let rowGroupBytes = 0;
+
+    for (const column of this.columns) {
+      const present = rows.map(row => row[column.name] !== null && row[column.name] !== undefined);
+      const values = rows.map(row => row[column.name]).filter((_, i) => present[i]);
+
+      const pageData = Buffer.concat([encodeDefinitionLevels(present), encodeValues(column.type, values)]);
+      const pageHeader = encodeThrift(struct(
+        [1, i32(PAGE_TYPE_DATA)],
+        [2, i32(pageData.length)],
+        [3, i32(pageData.length)],
+        [5, struct(
+          [1, i32(rows.length)],
+          [2, i32(ENCODING_PLAIN)],
+          [3, i32(ENCODING_RLE)],
+          [4, i32(ENCODING_RLE)],
+        )],
+      ));
+
+      const dataPageOffset = this.offset;
+      const chunkSize = pageHeader.length + pageData.length;
+      chunks.push(pageHeader, pageData);
+      this.offset += chunkSize;
+      rowGroupBytes += chunkSize;
+
+      columnChunks.push(struct(
+        [2, i64(dataPageOffset)],
+        [3, struct(
+          [1, i32(COLUMN_TYPES[column.type].physical)],
+          [2, list('i32', [i32(ENCODING_PLAIN), i32(ENCODING_RLE)])],
+          [3, list('string', [str(column.name)])],
+          [4, i32(CODEC_UNCOMPRESSED)],
+          [5, i64(rows.length)],
+          [6, i64(chunkSize)],
+          [7, i64(chunkSize)],
+          [9, i64(dataPageOffset)],
+        )],
+      ));
+    }
+
+    this.rowGroups.push(struct(
+      [1, list('struct', columnChunks)],
+      [2, i64(rowGroupBytes)],
+      [3, i64(rows.length)],
+    ));
+    this.totalRows += rows.length;
+
+    return Buffer.concat(chunks);
+  }
+
+  // File footer with the schema, row group index and key/value metadata
+  finish(metadata: Record<string, string> = {}): Buffer {
+    const schema = [
+      struct([4, str('schema')], [5, i32(this.columns.length)]),
+      ...this.columns.map(column => {
+        const { physical, converted } = COLUMN_TYPES[column.type];
+        return struct(
+          [1, i32(physical)],
+          [3, i32(REPETITION_OPTIONAL)],
+          [4, str(column.name)],
+          [6, converted === undefined ? undefined : i32(converted)],
+        );
+      }),
+    ];
+
+    const keyValues = Object.entries(metadata).map(([key, value]) => struct([1, str(key)], [2, str(value)]));
+
+    const footer = encodeThrift(struct(
+      [1, i32(1)],
+      [2, list('struct', schema)],
+      [3, i64(this.totalRows)],
+      [4, list('struct', this.rowGroups)],
+      [5, keyValues.length > 0 ? list('struct', keyValues) : undefined],
+      [6, str('monitoring-service')],
+    ));
+
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(footer.length);
+    return Buffer.concat([footer, length, MAGIC]);
+  }
+}
@@ -25,6 +25,8 @@ export const EnvSchema = z.object({
   // Auth
   JWT_SECRET: z.string().min(32),
   API_KEY_SECRET: z.string().min(16),
+  // Opt-in: stop matching keys issued before prefixes (they fail until re-issued or backfilled)
+  API_KEY_REQUIRE_PREFIX: z.string().transform(val => val === 'true').default('false'),
   BCRYPT_ROUNDS: z.coerce.number().default(12),
   
   // Rate Limiting
@@ -41,6 +43,7 @@ export const EnvSchema = z.object({
   
   // Monitoring
   ALERT_CHECK_INTERVAL: z.coerce.number().default(60000),
+  ALERT_ESCALATION_POLICY: z.string().optional(),
   RETENTION_DAYS: z.coerce.number().default(30),
   BATCH_SIZE: z.coerce.number().default(1000),
   
@@ -50,12 +53,35 @@ export const EnvSchema = z.object({
   DISCORD_WEBHOOK_URL: z.string().optional(),
   PAGERDUTY_INTEGRATION_KEY: z.string().optional(),
   
+  // Chat ops: acknowledge, escalate and resolve alerts from Slack, Teams, SMS and voice.
+  // Each platform's endpoints are enabled by its credential; CHATOPS_PUBLIC_URL is the
+  // externally visible base URL Twilio signs requests with.
+  SLACK_SIGNING_SECRET: z.string().optional(),
+  TEAMS_BOT_APP_ID: z.string().optional(),
+  TWILIO_AUTH_TOKEN: z.string().optional(),
+  CHATOPS_PUBLIC_URL: z.string().url().optional(),
+
+  // Audit trail of admin actions, stored in Postgres and optionally mirrored to rotated
+  // files. With a signing key (PEM private key) the chain is checkpointed periodically.
+  AUDIT_LOG_DIR: z.string().optional(),
+  AUDIT_SIGNING_KEY: z.string().optional(),
+  AUDIT_CHECKPOINT_INTERVAL: z.coerce.number().default(3600000),
+
+  // Status page subscriber notifications
+  STATUS_PAGE_URL: z.string().url().optional(),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().default(587),
+  SMTP_SECURE: z.string().transform(val => val === 'true').default('false'),
+  SMTP_USER: z.string().default(''),
+  SMTP_PASSWORD: z.string().default(''),
+  SMTP_FROM: z.string().default('status@localhost'),
+  
   // Security
   HELMET_CSP_ENABLED: z.coerce.boolean().default(true),
   TRUST_PROXY: z.coerce.boolean().default(false),
   
   // Performance
-  CLUSTER_MODE: z.coerce.boolean().default(false),
+  CLUSTER_MODE: z.string().transform(val => val === 'true').default('false'),
   WORKER_THREADS: z.coerce.number().default(4),
   MAX_PAYLOAD_SIZE: z.coerce.number().default(1048576),
 });
@@ -93,7 +119,8 @@ export const EventSchema = z.object({
   stack: z.string().optional(),
   url: z.string().url().optional(),
   userAgent: z.string().optional(),
-  ip: z.string().ip().optional()
+  ip: z.string().ip().optional(),
+  release: z.string().min(1).max(255).optional()
 });
 
 export type Event = z.infer<typeof EventSchema>;
@@ -135,22 +162,75 @@ export const AlertConfigSchema = z.object({
 
 export type AlertConfig = z.infer<typeof AlertConfigSchema>;
 
+// Permission grant: "<resource>:<action>", "<resource>:*", "*", or a legacy read/write/admin role
+export const PermissionGrantSchema = z.string().regex(
+  /^(\*|read|write|admin|[a-z-]+:(\*|[a-z-]+))$/,
+  'Expected <resource>:<action>, <resource>:*, * or read/write/admin'
+);
+
+// Role Schema
+export const RoleSchema = z.object({
+  name: z.string().min(1).max(64).regex(/^[a-z0-9][a-z0-9-]*$/),
+  description: z.string().max(255).optional(),
+  permissions: z.array(PermissionGrantSchema).min(1),
+  builtIn: z.boolean().default(false)
+});
+
+export type Role = z.infer<typeof RoleSchema>;
+
 // API Key Schema
 export const ApiKeySchema = z.object({
   id: z.string().uuid().optional(),
   name: z.string(),
   key: z.string(),
+  prefix: z.string().optional(),
   hash: z.string(),
-  permissions: z.array(z.enum(['read', 'write', 'admin'])),
+  projectId: z.string().uuid().nullable().optional(), // null: cross-project admin key
+  permissions: z.array(PermissionGrantSchema),
+  roles: z.array(z.string()).default([]),
   rateLimit: z.number().optional(),
   expiresAt: z.string().datetime().optional(),
   createdAt: z.string().datetime().optional(),
   lastUsedAt: z.string().datetime().optional(),
-  isActive: z.boolean().default(true)
+  isActive: z.boolean().default(true),
+  // Legacy key matched by scanning; should be re-issued
+  rotationRequired: z.boolean().optional()
 });
 
 export type ApiKey = z.infer<typeof ApiKeySchema>;
 
+// Project Schema
+export const ProjectSchema = z.object({
+  id: z.string().uuid().optional(),
+  slug: z.string().min(1).max(64).regex(/^[a-z0-9][a-z0-9-]*$/),
+  name: z.string().min(1).max(255),
+  createdAt: z.string().datetime().optional(),
+  updatedAt: z.string().datetime().optional()
+});
+
+export type Project = z.infer<typeof ProjectSchema>;
+
+// Status page component, with the same fields as the incident-management ComponentSchema
+export const ComponentStatusSchema = z.enum([
+  'operational',
+  'degraded_performance',
+  'partial_outage',
+  'major_outage'
+]);
+
+export type ComponentStatus = z.infer<typeof ComponentStatusSchema>;
+
+export const StatusComponentSchema = z.object({
+  id: z.string().uuid().optional(),
+  name: z.string().min(1).max(255),
+  description: z.string().max(10000).optional(),
+  status: ComponentStatusSchema.default('operational'),
+  group: z.string().min(1).max(255).optional(),
+  order: z.number().int().default(0)
+});
+
+export type StatusComponent = z.infer<typeof StatusComponentSchema>;
+
 // Dashboard Query Schema
 export const DashboardQuerySchema = z.object({
   startTime: z.string().datetime(),
@@ -188,6 +268,7 @@ export interface DatabaseConfig {
   poolMax: number;
   idleTimeoutMillis: number;
   connectionTimeoutMillis: number;
+  autoMigrate?: boolean; // Apply pending migrations on connect (default true)
 }
 
 // Redis Connection Config
@@ -225,6 +306,7 @@ declare module 'fastify' {
   
   interface FastifyRequest {
     apiKey?: ApiKey;
+    projectId?: string | null; // Project the request is scoped to; null for cross-project admin views
     rateLimitInfo?: {
       limit: number;
       remaining: number;
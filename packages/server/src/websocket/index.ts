@@ -1,7 +1,9 @@
 import { FastifyInstance } from 'fastify';
 import { WebSocket } from 'ws';
+import { hostname } from 'os';
 import { getRedis } from '../redis';
-import { getAuthManager } from '../auth';
+import { getAuthManager, Permission } from '../auth';
+import { DEFAULT_PROJECT_ID, getKeyProjectScope } from '../projects';
 import { WebSocketMessage, WebSocketMessageSchema } from '../types';
 
 interface WebSocketClient {
@@ -14,12 +16,46 @@ interface WebSocketClient {
     ip: string;
     userAgent?: string;
     apiKey?: string;
+    projectId?: string | null; // Only messages for this project are delivered; null sees all
   };
 }
 
+// Permission needed to subscribe to each channel family
+const CHANNEL_READ_PERMISSIONS: Array<[string, Permission]> = [
+  ['events:', 'events:read'],
+  ['metrics:', 'metrics:read'],
+  ['alerts:', 'alerts:read'],
+  ['system:', 'admin:stats'],
+];
+
+// Permission needed to send each kind of data over the socket
+const DATA_WRITE_PERMISSIONS: Partial<Record<WebSocketMessage['type'], Permission>> = {
+  event: 'events:write',
+  metric: 'metrics:write',
+  alert: 'alerts:write',
+};
+
+// Redis channels carrying ingested data; each node relays them to its own subscribers
+const RELAYED_CHANNELS: Record<string, WebSocketMessage['type']> = {
+  'events:realtime': 'event',
+  'metrics:realtime': 'metric',
+  'alerts:realtime': 'alert',
+  'system:health': 'event',
+};
+
+// Cluster fan-out: broadcast() publishes to ws:broadcast:<channel>, which only nodes with
+// local subscribers listen on; targeted messages go to the owning node's ws:node:<id>
+const BROADCAST_CHANNEL_PREFIX = 'ws:broadcast:';
+const BROADCAST_ALL_CHANNEL = 'ws:broadcast-all';
+const NODE_CHANNEL_PREFIX = 'ws:node:';
+
+// Connections not seen by their node for this many heartbeats are treated as gone
+const STALE_HEARTBEATS = 3;
+
 interface WebSocketConfig {
   heartbeatInterval: number;
-  maxConnections: number;
+  maxConnections: number; // Across the cluster when connections are tracked in Redis
+  clusterMode: boolean;
 }
 
 export class WebSocketManager {
@@ -28,6 +64,9 @@ export class WebSocketManager {
   private auth = getAuthManager();
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private config: WebSocketConfig;
+  private nodeId = `${hostname()}:${process.pid}:${Math.random().toString(36).substring(2, 8)}`;
+  // Redis subscriptions held for channels that have local subscribers
+  private channelSubscriptions: Map<string, Array<[redisChannel: string, callback: Function]>> = new Map();
 
   constructor(config: WebSocketConfig) {
     this.config = config;
@@ -61,7 +100,7 @@ export class WebSocketManager {
           return;
         }
 
-        await self.handleConnection(connection, request, validApiKey.id);
+        await self.handleConnection(connection, request, validApiKey.id, getKeyProjectScope(validApiKey));
       });
     });
   }
@@ -70,14 +109,9 @@ export class WebSocketManager {
   private async handleConnection(
     connection: WebSocket,
     request: any,
-    apiKeyId?: string
+    apiKeyId?: string,
+    projectId?: string | null
   ): Promise<void> {
-    // Check connection limit
-    if (this.clients.size >= this.config.maxConnections) {
-      connection.close(1013, 'Server capacity exceeded');
-      return;
-    }
-
     const clientId = this.generateClientId();
     const metadata: WebSocketClient['metadata'] = {
       connectedAt: new Date(),
@@ -91,6 +125,7 @@ export class WebSocketManager {
 
     if (apiKeyId) {
       metadata.apiKey = apiKeyId;
+      metadata.projectId = projectId ?? null;
     }
 
     const client: WebSocketClient = {
@@ -100,15 +135,21 @@ export class WebSocketManager {
       metadata,
     };
 
-    this.clients.set(clientId, client);
-
-    // Store connection info in Redis
-    await this.redis.addWebSocketConnection(clientId, {
-      connectedAt: client.metadata.connectedAt.toISOString(),
-      ip: client.metadata.ip,
-      userAgent: client.metadata.userAgent,
+    // Register the connection in Redis, which enforces the connection limit across the cluster
+    const admitted = await this.redis.registerWebSocketConnection(clientId, {
+      nodeId: this.nodeId,
+      connectedAt: metadata.connectedAt.toISOString(),
+      ip: metadata.ip,
+      userAgent: metadata.userAgent,
       apiKey: apiKeyId,
-    });
+    }, this.config.maxConnections, this.staleBefore());
+
+    if (!admitted) {
+      connection.close(1013, 'Server capacity exceeded');
+      return;
+    }
+
+    this.clients.set(clientId, client);
 
     console.log(`WebSocket client connected: ${clientId} (${this.clients.size} total)`);
 
@@ -118,6 +159,7 @@ export class WebSocketManager {
       data: {
         message: 'Connected to monitoring API',
         clientId,
+        nodeId: this.nodeId,
         serverTime: new Date().toISOString(),
       },
     });
@@ -217,8 +259,11 @@ export class WebSocketManager {
       return;
     }
 
-    client.subscriptions.add(channel);
-    
+    if (!client.subscriptions.has(channel)) {
+      client.subscriptions.add(channel);
+      await this.attachChannel(channel);
+    }
+
     this.sendToClient(clientId, {
       type: 'heartbeat',
       data: {
@@ -244,8 +289,10 @@ export class WebSocketManager {
       return;
     }
 
-    client.subscriptions.delete(channel);
-    
+    if (client.subscriptions.delete(channel)) {
+      await this.detachChannel(channel);
+    }
+
     this.sendToClient(clientId, {
       type: 'heartbeat',
       data: {
@@ -279,13 +326,16 @@ export class WebSocketManager {
     const client = this.clients.get(clientId);
     if (!client) return;
 
-    // Check if client has write permissions
+    // Check if client may write this kind of data
+    const permission = DATA_WRITE_PERMISSIONS[message.type];
+    if (!permission) return;
+
     if (client.metadata.apiKey) {
       const apiKey = await this.auth.authenticateApiKey(client.metadata.apiKey);
-      if (!apiKey || !this.auth.hasPermission(apiKey, 'write')) {
+      if (!apiKey || !(await this.auth.hasPermission(apiKey, permission))) {
         this.sendToClient(clientId, {
           type: 'heartbeat',
-          data: { error: 'Write permission required' },
+          data: { error: `Permission '${permission}' required` },
         });
         return;
       }
@@ -297,18 +347,21 @@ export class WebSocketManager {
       return;
     }
 
+    // Attribute client data to the client's project
+    const data = { ...message.data, projectId: client.metadata.projectId || DEFAULT_PROJECT_ID };
+
     // Process the data based on type
     switch (message.type) {
       case 'event':
-        await this.redis.queueEvent(message.data);
+        await this.redis.queueEvent(data);
         break;
       case 'metric':
         // Handle metric data
-        await this.redis.publish('metrics:realtime', message.data);
+        await this.redis.publish('metrics:realtime', data);
         break;
       case 'alert':
         // Handle alert data
-        await this.redis.publish('alerts:realtime', message.data);
+        await this.redis.publish('alerts:realtime', data);
         break;
     }
 
@@ -337,25 +390,13 @@ export class WebSocketManager {
       return false;
     }
 
-    // Admin can subscribe to everything
-    if (this.auth.hasPermission(apiKey, 'admin')) {
-      return true;
-    }
-
     // Check specific channel permissions
-    if (channel.startsWith('events:') && this.auth.hasPermission(apiKey, 'read')) {
-      return true;
-    }
-
-    if (channel.startsWith('metrics:') && this.auth.hasPermission(apiKey, 'read')) {
-      return true;
-    }
-
-    if (channel.startsWith('alerts:') && this.auth.hasPermission(apiKey, 'read')) {
-      return true;
+    const permission = CHANNEL_READ_PERMISSIONS.find(([prefix]) => channel.startsWith(prefix))?.[1];
+    if (!permission) {
+      return false;
     }
 
-    return false;
+    return this.auth.hasPermission(apiKey, permission);
   }
 
   // Handle client disconnection
@@ -365,12 +406,16 @@ export class WebSocketManager {
 
     console.log(`WebSocket client disconnected: ${clientId} (code: ${code}, reason: ${reason})`);
 
+    // Remove from clients map first so a failing Redis call cannot leave it behind
+    this.clients.delete(clientId);
+
+    for (const channel of client.subscriptions) {
+      await this.detachChannel(channel);
+    }
+
     // Remove from Redis
     await this.redis.removeWebSocketConnection(clientId);
 
-    // Remove from clients map
-    this.clients.delete(clientId);
-
     console.log(`WebSocket clients remaining: ${this.clients.size}`);
   }
 
@@ -392,10 +437,25 @@ export class WebSocketManager {
     }
   }
 
-  // Broadcast message to all subscribers of a channel
+  // Broadcast message to all subscribers of a channel, on every node in cluster mode
   public broadcast(channel: string, message: WebSocketMessage): void {
+    if (!this.config.clusterMode) {
+      this.deliverToSubscribers(channel, message);
+      return;
+    }
+
+    this.redis.publish(`${BROADCAST_CHANNEL_PREFIX}${channel}`, message).catch((error) => {
+      console.error(`Error publishing broadcast on channel ${channel}, delivering locally only:`, error);
+      this.deliverToSubscribers(channel, message);
+    });
+  }
+
+  // Deliver a message to this node's subscribers of a channel
+  private deliverToSubscribers(channel: string, message: WebSocketMessage): void {
+    const messageProject = message.data?.projectId;
     const subscribedClients = Array.from(this.clients.values()).filter(
-      client => client.subscriptions.has(channel)
+      client => client.subscriptions.has(channel) &&
+        (!messageProject || !client.metadata.projectId || client.metadata.projectId === messageProject)
     );
 
     subscribedClients.forEach(client => {
@@ -408,48 +468,93 @@ export class WebSocketManager {
     console.log(`Broadcasted to ${subscribedClients.length} clients on channel ${channel}`);
   }
 
-  // Send message to all connected clients
+  // Send message to all connected clients, on every node in cluster mode
   public broadcastToAll(message: WebSocketMessage): void {
+    if (!this.config.clusterMode) {
+      this.deliverToAll(message);
+      return;
+    }
+
+    this.redis.publish(BROADCAST_ALL_CHANNEL, message).catch((error) => {
+      console.error('Error publishing broadcast to all clients, delivering locally only:', error);
+      this.deliverToAll(message);
+    });
+  }
+
+  private deliverToAll(message: WebSocketMessage): void {
     this.clients.forEach((_, clientId) => {
       this.sendToClient(clientId, message);
     });
   }
 
-  // Setup Redis subscriptions for real-time data
-  private async setupRedisSubscriptions(): Promise<void> {
-    // Subscribe to real-time events
-    await this.redis.subscribe('events:realtime', (data: any) => {
-      this.broadcast('events:realtime', {
-        type: 'event',
-        data,
-      });
-    });
+  // Send message to one client, wherever it is connected. Resolves to false when the
+  // client is not connected to any node.
+  public async sendToConnection(clientId: string, message: WebSocketMessage): Promise<boolean> {
+    if (this.clients.has(clientId)) {
+      this.sendToClient(clientId, message);
+      return true;
+    }
 
-    // Subscribe to real-time metrics
-    await this.redis.subscribe('metrics:realtime', (data: any) => {
-      this.broadcast('metrics:realtime', {
-        type: 'metric',
-        data,
-      });
-    });
+    if (!this.config.clusterMode) return false;
 
-    // Subscribe to real-time alerts
-    await this.redis.subscribe('alerts:realtime', (data: any) => {
-      this.broadcast('alerts:realtime', {
-        type: 'alert',
-        data,
-      });
+    const connection = await this.redis.getWebSocketConnection(clientId);
+    if (!connection?.nodeId || connection.nodeId === this.nodeId) return false;
+
+    await this.redis.publish(`${NODE_CHANNEL_PREFIX}${connection.nodeId}`, { clientId, message });
+    return true;
+  }
+
+  // Subscribe this node to a channel's Redis sources once it has a local subscriber
+  private async attachChannel(channel: string): Promise<void> {
+    if (this.channelSubscriptions.has(channel)) return;
+
+    const handlers: Array<[string, Function]> = [];
+    const relayedType = RELAYED_CHANNELS[channel];
+    if (relayedType) {
+      handlers.push([channel, (data: any) => this.deliverToSubscribers(channel, { type: relayedType, data })]);
+    }
+    if (this.config.clusterMode) {
+      handlers.push([
+        `${BROADCAST_CHANNEL_PREFIX}${channel}`,
+        (message: WebSocketMessage) => this.deliverToSubscribers(channel, message),
+      ]);
+    }
+
+    this.channelSubscriptions.set(channel, handlers);
+    for (const [redisChannel, callback] of handlers) {
+      await this.redis.subscribe(redisChannel, callback);
+    }
+  }
+
+  // Drop a channel's Redis subscriptions once no local client is subscribed
+  private async detachChannel(channel: string): Promise<void> {
+    const handlers = this.channelSubscriptions.get(channel);
+    if (!handlers) return;
+
+    for (const client of this.clients.values()) {
+      if (client.subscriptions.has(channel)) return;
+    }
+
+    this.channelSubscriptions.delete(channel);
+    for (const [redisChannel, callback] of handlers) {
+      await this.redis.unsubscribe(redisChannel, callback);
+    }
+  }
+
+  // Node-wide Redis subscriptions; per-channel ones are attached as clients subscribe
+  private async setupRedisSubscriptions(): Promise<void> {
+    if (!this.config.clusterMode) return;
+
+    // Messages for clients connected to this node
+    await this.redis.subscribe(`${NODE_CHANNEL_PREFIX}${this.nodeId}`, (data: { clientId: string; message: WebSocketMessage }) => {
+      this.sendToClient(data.clientId, data.message);
     });
 
-    // Subscribe to system events
-    await this.redis.subscribe('system:health', (data: any) => {
-      this.broadcast('system:health', {
-        type: 'event',
-        data,
-      });
+    await this.redis.subscribe(BROADCAST_ALL_CHANNEL, (message: WebSocketMessage) => {
+      this.deliverToAll(message);
     });
 
-    console.log('WebSocket Redis subscriptions established');
+    console.log(`WebSocket cluster subscriptions established for node ${this.nodeId}`);
   }
 
   // Start heartbeat mechanism
@@ -463,6 +568,11 @@ export class WebSocketManager {
 
   // Perform heartbeat check
   private performHeartbeat(): void {
+    // Keep this node's connections from ageing out of the cluster-wide registry
+    this.redis.touchWebSocketConnections(Array.from(this.clients.keys())).catch((error) => {
+      console.error('Error refreshing WebSocket connection registry:', error);
+    });
+
     const now = new Date();
     const timeoutThreshold = this.config.heartbeatInterval * 2; // 2 intervals timeout
 
@@ -487,6 +597,11 @@ export class WebSocketManager {
     });
   }
 
+  // Registrations last seen before this time belong to nodes that stopped heartbeating
+  private staleBefore(): number {
+    return Date.now() - this.config.heartbeatInterval * STALE_HEARTBEATS;
+  }
+
   // Generate unique client ID
   private generateClientId(): string {
     return `ws_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -494,6 +609,7 @@ export class WebSocketManager {
 
   // Get connection statistics
   public getStats(): {
+    nodeId: string;
     totalConnections: number;
     activeConnections: number;
     subscriptions: Record<string, number>;
@@ -507,6 +623,7 @@ export class WebSocketManager {
     });
 
     return {
+      nodeId: this.nodeId,
       totalConnections: this.clients.size,
       activeConnections: Array.from(this.clients.values()).filter(
         client => client.socket.readyState === WebSocket.OPEN
@@ -515,16 +632,22 @@ export class WebSocketManager {
     };
   }
 
+  // Connections across every node sharing this Redis
+  public async getClusterConnectionCount(): Promise<number> {
+    return this.redis.countWebSocketConnections(this.staleBefore());
+  }
+
   // Cleanup
   public async cleanup(): Promise<void> {
     if (this.heartbeatInterval) {
       clearInterval(this.heartbeatInterval);
     }
 
-    // Close all connections
-    this.clients.forEach((client) => {
+    // Close all connections and release their slots in the cluster-wide registry
+    for (const [clientId, client] of this.clients) {
       client.socket.close(1001, 'Server shutting down');
-    });
+      await this.redis.removeWebSocketConnection(clientId).catch(() => undefined);
+    }
 
     this.clients.clear();
     console.log('WebSocket manager cleaned up');